@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { parseBudgetFlags } from './budget-options.js';
+
+describe('parseBudgetFlags', () => {
+  it('returns undefined when no budget flag is given', () => {
+    expect(parseBudgetFlags({})).toBeUndefined();
+  });
+
+  it('converts flags to limits, with wall clock in minutes', () => {
+    expect(parseBudgetFlags({ maxTokens: '50000', maxCost: '2.5', maxPromptsPerHour: '10', maxWallClock: '90' })).toEqual({
+      maxTokens: 50000,
+      maxCostUsd: 2.5,
+      maxPromptsPerHour: 10,
+      maxWallClockMs: 5_400_000,
+    });
+  });
+
+  it('rejects non-positive or fractional counts', () => {
+    expect(parseBudgetFlags({ maxCost: '0' })).toEqual({ error: '--max-cost must be a positive number' });
+    expect(parseBudgetFlags({ maxTokens: '1.5' })).toEqual({ error: '--max-tokens must be a positive integer' });
+    expect(parseBudgetFlags({ maxPromptsPerHour: 'lots' })).toEqual({ error: '--max-prompts-per-hour must be a positive integer' });
+  });
+});
@@ -0,0 +1,47 @@
+import { Command } from 'commander';
+import type { BudgetLimits } from '../types.js';
+
+/** Raw values of the flags added by addBudgetOptions(). */
+export interface BudgetFlags {
+  maxTokens?: string;
+  maxCost?: string;
+  maxPromptsPerHour?: string;
+  maxWallClock?: string;
+}
+
+/**
+ * Add the shared budget flags to a command (start, template create,
+ * workspace budget).
+ */
+export function addBudgetOptions(cmd: Command): Command {
+  return cmd
+    .option('--max-tokens <n>', 'Budget: maximum input + output tokens')
+    .option('--max-cost <usd>', 'Budget: maximum cost in USD')
+    .option('--max-prompts-per-hour <n>', 'Budget: maximum prompts started in any hour')
+    .option('--max-wall-clock <minutes>', 'Budget: maximum minutes since the session started');
+}
+
+/**
+ * Turn budget flags into limits. Returns undefined when no flag was given,
+ * or an error message for invalid values.
+ */
+export function parseBudgetFlags(flags: BudgetFlags): BudgetLimits | undefined | { error: string } {
+  const budget: BudgetLimits = {};
+  const checks: Array<[string | undefined, string, (n: number) => void, boolean]> = [
+    [flags.maxTokens, '--max-tokens', (n) => { budget.maxTokens = n; }, true],
+    [flags.maxCost, '--max-cost', (n) => { budget.maxCostUsd = n; }, false],
+    [flags.maxPromptsPerHour, '--max-prompts-per-hour', (n) => { budget.maxPromptsPerHour = n; }, true],
+    [flags.maxWallClock, '--max-wall-clock', (n) => { budget.maxWallClockMs = n * 60_000; }, false],
+  ];
+
+  for (const [raw, flag, assign, integer] of checks) {
+    if (raw === undefined) continue;
+    const value = Number(raw);
+    if (raw.trim() === '' || isNaN(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+      return { error: `${flag} must be a positive ${integer ? 'integer' : 'number'}` };
+    }
+    assign(value);
+  }
+
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}
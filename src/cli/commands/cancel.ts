@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import { DaemonClient } from '../../core/daemon-client.js';
+import { AgentSpawnError } from '../../utils/errors.js';
+
+/**
+ * Register the `cancel` command.
+ *
+ * Usage: agentspawn cancel <session>
+ *
+ * Interrupts the prompt a daemon-owned session is currently running without
+ * stopping the session. Prompts only run inside the process that owns the
+ * session, so this requires a running daemon.
+ */
+export function registerCancelCommand(program: Command, daemon?: DaemonClient | null): void {
+  program
+    .command('cancel <name>')
+    .description('Cancel the in-flight prompt of a session without stopping it')
+    .action(async (name: string) => {
+      if (!daemon) {
+        console.error('Error: cancel requires a running daemon (start one with `agentspawn daemon start`).');
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const cancelled = await daemon.cancelPrompt(name);
+        if (cancelled) {
+          console.log(`Cancelled prompt in session: ${name}`);
+        } else {
+          console.log(`No prompt in progress for session: ${name}`);
+        }
+      } catch (e) {
+        if (e instanceof AgentSpawnError) {
+          console.error(`Error: ${e.message}`);
+          process.exitCode = 1;
+          return;
+        }
+        throw e;
+      }
+    });
+}
@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import { CheckpointStore } from '../../core/checkpoint.js';
+import { HistoryStore } from '../../core/history.js';
+import type { CheckpointEntry, PromptHistoryEntry } from '../../types.js';
+import { CheckpointError, CheckpointNotFoundError } from '../../utils/errors.js';
+
+function parseIndex(value: string, what: string): number | null {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    console.error(`Error: ${what} must be a non-negative integer`);
+    process.exitCode = 1;
+    return null;
+  }
+  return n;
+}
+
+function formatCheckpointTable(checkpoints: CheckpointEntry[], history: PromptHistoryEntry[]): string {
+  const promptIndex = new Map(
+    history.filter((entry) => entry.checkpointId !== undefined).map((entry) => [entry.checkpointId!, entry.index]),
+  );
+  const rows = checkpoints.map((checkpoint) => [
+    String(checkpoint.id),
+    promptIndex.has(checkpoint.id) ? `#${promptIndex.get(checkpoint.id)}` : '-',
+    checkpoint.createdAt.replace('T', ' ').slice(0, 19),
+    checkpoint.kind,
+    checkpoint.prompt.replace(/\s+/g, ' ').slice(0, 50),
+  ]);
+  const header = ['ID', 'BEFORE', 'CREATED', 'KIND', 'PROMPT'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+/**
+ * Register the `checkpoint` command.
+ *
+ * Usage: agentspawn checkpoint list <session> [--json]
+ *        agentspawn checkpoint diff <session> <n> [--patch]
+ *        agentspawn checkpoint restore <session> [n] [--prompt <index>]
+ *
+ * Checkpoints are taken before every prompt. The BEFORE column of `list`
+ * is the history index of the prompt that ran after the checkpoint, which
+ * is what `restore --prompt` accepts.
+ */
+export function registerCheckpointCommand(
+  program: Command,
+  checkpointStore: CheckpointStore,
+  historyStore: HistoryStore,
+): void {
+  const cmd = program
+    .command('checkpoint')
+    .description('List, compare and restore the snapshots taken before each prompt');
+
+  const handleError = (e: unknown): void => {
+    if (!(e instanceof CheckpointNotFoundError || e instanceof CheckpointError)) throw e;
+    console.error(`Error: ${e.message}`);
+    process.exitCode = 1;
+  };
+
+  cmd
+    .command('list <session>')
+    .description('List the checkpoints of a session, oldest first')
+    .option('--json', 'Output as JSON')
+    .action(async (session: string, opts: { json?: boolean }) => {
+      try {
+        const checkpoints = await checkpointStore.list(session);
+        if (opts.json) {
+          console.log(JSON.stringify(checkpoints, null, 2));
+          return;
+        }
+        if (checkpoints.length === 0) {
+          console.log(`No checkpoints for session "${session}".`);
+          return;
+        }
+        console.log(formatCheckpointTable(checkpoints, await historyStore.getBySession(session)));
+      } catch (e) {
+        handleError(e);
+      }
+    });
+
+  cmd
+    .command('diff <session> <n>')
+    .description('Show what changed in the working directory since checkpoint <n>')
+    .option('--patch', 'Show a unified diff instead of the changed files (git checkpoints only)')
+    .action(async (session: string, n: string, opts: { patch?: boolean }) => {
+      const id = parseIndex(n, 'Checkpoint');
+      if (id === null) return;
+      try {
+        if (opts.patch) {
+          const patch = await checkpointStore.patch(session, id);
+          console.log(patch || 'No changes.');
+          return;
+        }
+        const changes = await checkpointStore.changes(session, id);
+        if (changes.length === 0) {
+          console.log('No changes.');
+          return;
+        }
+        for (const change of changes) {
+          console.log(`${change.status}  ${change.path}`);
+        }
+      } catch (e) {
+        handleError(e);
+      }
+    });
+
+  cmd
+    .command('restore <session> [n]')
+    .description('Restore the working directory to checkpoint <n>, or to before a prompt')
+    .option('--prompt <index>', 'Restore to the checkpoint taken before this history entry')
+    .action(async (session: string, n: string | undefined, opts: { prompt?: string }) => {
+      if ((n === undefined) === (opts.prompt === undefined)) {
+        console.error('Error: Specify a checkpoint number or --prompt <index>, not both');
+        process.exitCode = 1;
+        return;
+      }
+
+      let id: number | null;
+      if (opts.prompt !== undefined) {
+        const index = parseIndex(opts.prompt, '--prompt');
+        if (index === null) return;
+        const entry = (await historyStore.getBySession(session)).find((h) => h.index === index);
+        if (!entry || entry.checkpointId === undefined) {
+          console.error(`Error: Prompt #${index} of session "${session}" has no checkpoint`);
+          process.exitCode = 1;
+          return;
+        }
+        id = entry.checkpointId;
+      } else {
+        id = parseIndex(n!, 'Checkpoint');
+        if (id === null) return;
+      }
+
+      try {
+        const checkpoint = await checkpointStore.get(session, id);
+        const undo = await checkpointStore.restore(session, id);
+        const before = opts.prompt !== undefined ? ` (before prompt #${opts.prompt})` : '';
+        console.log(`Restored ${checkpoint.workingDirectory} to checkpoint #${id}${before}.`);
+        console.log(`The replaced state was saved as checkpoint #${undo.id}.`);
+      } catch (e) {
+        handleError(e);
+      }
+    });
+}
@@ -0,0 +1,139 @@
+import { Command } from 'commander';
+import { spawn } from 'node:child_process';
+import { SessionManager } from '../../core/manager.js';
+import { DaemonServer } from '../../core/daemon.js';
+import { DaemonClient } from '../../core/daemon-client.js';
+import { Scheduler } from '../../core/scheduler.js';
+import type { ScheduleManager } from '../../core/schedule.js';
+import { DaemonAlreadyRunningError } from '../../utils/errors.js';
+
+/** How long `daemon start --detach` waits for the socket to come up. */
+const DETACH_READY_TIMEOUT_MS = 5000;
+const DETACH_POLL_INTERVAL_MS = 100;
+
+async function waitForDaemon(socketPath: string, timeoutMs: number): Promise<DaemonClient | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const client = await DaemonClient.tryConnect(socketPath);
+    if (client) return client;
+    await new Promise((resolve) => setTimeout(resolve, DETACH_POLL_INTERVAL_MS));
+  }
+  return null;
+}
+
+export function registerDaemonCommand(
+  program: Command,
+  manager: SessionManager,
+  socketPath: string,
+  daemon?: DaemonClient | null,
+  scheduleManager?: ScheduleManager,
+): void {
+  const cmd = program
+    .command('daemon')
+    .description('Run a background daemon that owns sessions across CLI invocations');
+
+  // agentspawn daemon start [--detach]
+  cmd
+    .command('start')
+    .description('Start the daemon (foreground unless --detach is given)')
+    .option('--detach', 'Run the daemon in the background and return immediately')
+    .action(async (options: { detach?: boolean }) => {
+      if (daemon) {
+        const status = await daemon.ping();
+        console.log(`Daemon already running (pid ${status.pid}) on ${status.socketPath}`);
+        return;
+      }
+
+      if (options.detach) {
+        const child = spawn(
+          process.execPath,
+          [...process.execArgv, process.argv[1], 'daemon', 'start'],
+          { detached: true, stdio: 'ignore' },
+        );
+        child.unref();
+
+        const client = await waitForDaemon(socketPath, DETACH_READY_TIMEOUT_MS);
+        if (!client) {
+          console.error(`Error: Daemon did not start within ${DETACH_READY_TIMEOUT_MS}ms`);
+          process.exitCode = 1;
+          return;
+        }
+        const status = await client.ping();
+        client.close();
+        console.log(`Daemon started (pid ${status.pid}) on ${status.socketPath}`);
+        return;
+      }
+
+      const server = new DaemonServer(manager, socketPath);
+      try {
+        await server.start();
+      } catch (e) {
+        if (e instanceof DaemonAlreadyRunningError) {
+          console.error(`Error: ${e.message}`);
+          process.exitCode = 1;
+          return;
+        }
+        throw e;
+      }
+
+      console.log(`Daemon listening on ${socketPath} (pid ${process.pid})`);
+
+      // The daemon is the long-lived process, so it is the one that fires schedules
+      const scheduler = scheduleManager ? new Scheduler(manager, scheduleManager) : null;
+      scheduler?.start();
+      // ...and the one that watches for file triggers, which would keep a CLI command from exiting
+      manager.startFileTriggers();
+
+      await new Promise<void>((resolve) => {
+        process.once('SIGINT', () => resolve());
+        process.once('SIGTERM', () => resolve());
+        server.once('shutdown', () => resolve());
+      });
+
+      await scheduler?.stop();
+      manager.stopFileTriggers();
+      await server.stop();
+      console.log('Daemon stopped.');
+    });
+
+  // agentspawn daemon stop
+  cmd
+    .command('stop')
+    .description('Stop the running daemon')
+    .action(async () => {
+      if (!daemon) {
+        console.error('Error: Daemon is not running.');
+        process.exitCode = 1;
+        return;
+      }
+      await daemon.shutdown();
+      console.log('Daemon stopping.');
+    });
+
+  // agentspawn daemon status [--json]
+  cmd
+    .command('status')
+    .description('Show whether the daemon is running')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      if (!daemon) {
+        if (options.json) {
+          console.log(JSON.stringify({ running: false, socketPath }, null, 2));
+        } else {
+          console.log('Daemon is not running.');
+        }
+        return;
+      }
+
+      const status = await daemon.ping();
+      if (options.json) {
+        console.log(JSON.stringify({ running: true, ...status }, null, 2));
+        return;
+      }
+      console.log(`Daemon:    running (pid ${status.pid})`);
+      console.log(`Socket:    ${status.socketPath}`);
+      console.log(`Started:   ${status.startedAt}`);
+      console.log(`Sessions:  ${status.sessionCount}`);
+      console.log(`Clients:   ${status.clientCount}`);
+    });
+}
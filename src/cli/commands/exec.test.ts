@@ -7,8 +7,31 @@ import type { SessionManager } from '../../core/manager.js';
 import type { Router } from '../../io/router.js';
 import type { WorkspaceManager } from '../../core/workspace.js';
 import type { HistoryStore } from '../../core/history.js';
+import type { RemoteManager } from '../../core/remote.js';
 import { WorkspaceNotFoundError } from '../../utils/errors.js';
 
+// -- Remote mocks: no real SSH tunnels or HTTP ---------------------------------
+
+const mockTunnelClose = vi.fn().mockResolvedValue(undefined);
+const mockOpenTunnel = vi.fn();
+const mockRemoteSendPrompt = vi.fn();
+const mockRemoteClientCtor = vi.fn();
+
+vi.mock('../../core/tunnel.js', () => ({
+  openTunnel: (...args: unknown[]) => mockOpenTunnel(...args),
+}));
+
+vi.mock('../../core/remote-client.js', () => ({
+  RemoteClient: class {
+    constructor(...args: unknown[]) {
+      mockRemoteClientCtor(...args);
+    }
+    sendPrompt(...args: unknown[]) {
+      return mockRemoteSendPrompt(...args);
+    }
+  },
+}));
+
 // -- Mock factories ----------------------------------------------------------
 
 function createMockSession(
@@ -277,7 +300,25 @@ describe('exec command', () => {
       await runCommand(program, ['exec', 'my-session', 'run tests']);
 
       expect(mockManager.getSession).toHaveBeenCalledWith('my-session');
-      expect(session.sendPrompt).toHaveBeenCalledWith('run tests');
+      expect(session.sendPrompt).toHaveBeenCalledWith('run tests', { priority: undefined });
+    });
+
+    it('should pass --priority through to sendPrompt', async () => {
+      const session = createMockSession('my-session');
+      mockManager = createMockManager({ 'my-session': session });
+
+      program = new Command();
+      program.exitOverride();
+      registerExecCommand(
+        program,
+        mockManager as unknown as SessionManager,
+        mockRouter as unknown as Router,
+        mockWorkspaceManager as unknown as WorkspaceManager,
+      );
+
+      await runCommand(program, ['exec', 'my-session', 'urgent fix', '--priority', '10']);
+
+      expect(session.sendPrompt).toHaveBeenCalledWith('urgent fix', { priority: 10 });
     });
 
     it('should error when session not found', async () => {
@@ -353,7 +394,7 @@ describe('exec command', () => {
 
       await runCommand(program, ['exec', '--pipe', 'my-session']);
 
-      expect(session.sendPrompt).toHaveBeenCalledWith('fix the lint errors');
+      expect(session.sendPrompt).toHaveBeenCalledWith('fix the lint errors', { priority: undefined });
     });
 
     it('should use the command arg over stdin when both are provided', async () => {
@@ -376,7 +417,7 @@ describe('exec command', () => {
       await runCommand(program, ['exec', '--pipe', 'my-session', 'explicit prompt']);
 
       // stdin.on should not have been called since command arg was provided
-      expect(session.sendPrompt).toHaveBeenCalledWith('explicit prompt');
+      expect(session.sendPrompt).toHaveBeenCalledWith('explicit prompt', { priority: undefined });
     });
 
     it('should error when --pipe is set but stdin is empty', async () => {
@@ -514,7 +555,7 @@ describe('exec command', () => {
 
       await runCommand(program, ['exec', 'frontend', 'generate client from @backend']);
 
-      expect(session.sendPrompt).toHaveBeenCalledWith('generate client from POST /api/users');
+      expect(session.sendPrompt).toHaveBeenCalledWith('generate client from POST /api/users', { priority: undefined });
     });
   });
 
@@ -604,4 +645,96 @@ describe('exec command', () => {
       expect(stdoutSpy).not.toHaveBeenCalled();
     });
   });
+
+  describe('exec --remote', () => {
+    let stdoutSpy: { mock: { calls: unknown[][] }; mockRestore: () => void };
+    const entry = {
+      alias: 'prod',
+      sshHost: 'prod.example.com',
+      sshUser: 'deploy',
+      sshPort: 22,
+      remotePort: 7821,
+      localPort: 19000,
+      addedAt: '2026-01-01T00:00:00.000Z',
+      token: 'ast_secret',
+    };
+
+    function registerWithRemotes(remotes: Record<string, typeof entry>): void {
+      const remoteManager = {
+        getRemote: vi.fn(async (alias: string) => remotes[alias]),
+      };
+      program = new Command();
+      program.exitOverride();
+      registerExecCommand(
+        program,
+        mockManager as unknown as SessionManager,
+        mockRouter as unknown as Router,
+        mockWorkspaceManager as unknown as WorkspaceManager,
+        undefined,
+        undefined,
+        remoteManager as unknown as RemoteManager,
+      );
+    }
+
+    beforeEach(() => {
+      stdoutSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      mockOpenTunnel.mockResolvedValue({ localPort: 19000, close: mockTunnelClose });
+      mockRemoteSendPrompt.mockImplementation(
+        async (_name: string, _prompt: string, onChunk: (chunk: string) => void) => {
+          onChunk('hello ');
+          onChunk('world');
+          return 'hello world';
+        },
+      );
+    });
+
+    afterEach(() => {
+      stdoutSpy.mockRestore();
+      vi.clearAllMocks();
+    });
+
+    it('streams remote chunks to stdout and closes the tunnel', async () => {
+      registerWithRemotes({ prod: entry });
+
+      await runCommand(program, ['exec', '-r', 'prod', 'api', 'run tests']);
+
+      expect(mockRemoteClientCtor).toHaveBeenCalledWith('http://localhost:19000', 'prod', 'ast_secret');
+      expect(mockRemoteSendPrompt).toHaveBeenCalledWith('api', 'run tests', expect.any(Function));
+      const written = stdoutSpy.mock.calls.map((c) => c[0] as string);
+      expect(written).toEqual(['hello ', 'world', '\n']);
+      expect(mockTunnelClose).toHaveBeenCalled();
+      expect(mockManager.getSession).not.toHaveBeenCalled();
+    });
+
+    it('emits NDJSON chunk and done events with --format ndjson', async () => {
+      registerWithRemotes({ prod: entry });
+
+      await runCommand(program, ['exec', '-r', 'prod', '--format', 'ndjson', 'api', 'run tests']);
+
+      const lines = stdoutSpy.mock.calls.map((c) => JSON.parse(c[0] as string) as { type: string });
+      expect(lines.map((l) => l.type)).toEqual(['chunk', 'chunk', 'done']);
+      expect(lines[2]).toEqual({ type: 'done', response: 'hello world', sessionName: 'api', remote: 'prod' });
+    });
+
+    it('reports an unknown remote alias', async () => {
+      registerWithRemotes({});
+
+      await runCommand(program, ['exec', '-r', 'nope', 'api', 'run tests']);
+
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Remote 'nope' not found"));
+      expect(process.exitCode).toBe(1);
+      expect(mockOpenTunnel).not.toHaveBeenCalled();
+    });
+
+    it('reports remote failures and still closes the tunnel', async () => {
+      registerWithRemotes({ prod: entry });
+      mockRemoteSendPrompt.mockRejectedValue(new Error('Budget exceeded'));
+
+      await runCommand(program, ['exec', '-r', 'prod', 'api', 'run tests']);
+
+      expect(errorSpy).toHaveBeenCalledWith('Error: Budget exceeded');
+      expect(process.exitCode).toBe(1);
+      expect(mockTunnelClose).toHaveBeenCalled();
+    });
+  });
 });
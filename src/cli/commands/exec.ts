@@ -5,6 +5,10 @@ import { WorkspaceManager } from '../../core/workspace.js';
 import { HistoryStore } from '../../core/history.js';
 import { SessionState } from '../../types.js';
 import { formatBroadcastResults } from '../../io/formatter.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+import { RemoteManager } from '../../core/remote.js';
+import { RemoteClient } from '../../core/remote-client.js';
+import { openTunnel } from '../../core/tunnel.js';
 
 const SESSION_REF_MAX_CHARS = 4000;
 
@@ -46,6 +50,59 @@ export async function resolveSessionRefs(
   return resolved;
 }
 
+/**
+ * Send a prompt to a session on a remote instance through an SSH tunnel,
+ * streaming the response as it arrives.
+ */
+async function execRemote(
+  remoteManager: RemoteManager,
+  alias: string,
+  name: string,
+  command: string,
+  useNdjson: boolean,
+): Promise<void> {
+  const entry = await remoteManager.getRemote(alias);
+  if (!entry) {
+    console.error(`Error: Remote '${alias}' not found. Run: agentspawn remote list`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let handle: Awaited<ReturnType<typeof openTunnel>>;
+  try {
+    handle = await openTunnel(entry);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const client = new RemoteClient(`http://localhost:${handle.localPort}`, alias, entry.token);
+    if (useNdjson) {
+      const response = await client.sendPrompt(name, command, (chunk) => {
+        process.stdout.write(JSON.stringify({ type: 'chunk', text: chunk }) + '\n');
+      });
+      process.stdout.write(JSON.stringify({ type: 'done', response, sessionName: name, remote: alias }) + '\n');
+    } else {
+      console.log(`Sending to [${alias}:${name}]: ${command}`);
+      let streamed = false;
+      const response = await client.sendPrompt(name, command, (chunk) => {
+        streamed = true;
+        process.stdout.write(chunk);
+      });
+      // Servers without streaming support answer with a single JSON body
+      if (!streamed) process.stdout.write(response);
+      process.stdout.write('\n');
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+  } finally {
+    await handle.close();
+  }
+}
+
 async function readStdin(): Promise<string> {
   return new Promise((resolve) => {
     // If stdin is a TTY (interactive terminal), there's nothing to pipe
@@ -65,6 +122,8 @@ export function registerExecCommand(
   _router: Router,
   workspaceManager: WorkspaceManager,
   historyStore?: HistoryStore,
+  daemon?: DaemonClient | null,
+  remoteManager?: RemoteManager,
 ): void {
   program
     .command('exec [name] [command]')
@@ -73,21 +132,29 @@ export function registerExecCommand(
     .option('--group <name>', 'Broadcast to all sessions in a workspace')
     .option('--pipe', 'Read prompt from stdin when no command argument is provided')
     .option('--format <format>', 'Output format: text (default) or ndjson', 'text')
-    .action(async (nameOrCommand: string, commandOrUndefined: string | undefined, opts: { all?: boolean; group?: string; pipe?: boolean; format?: string }) => {
+    .option('--priority <n>', 'Queue priority if the session is busy (higher runs first)', (val: string) => Number.parseInt(val, 10))
+    .option('-r, --remote <alias>', 'Send to a session on a remote AgentSpawn instance, streaming the response')
+    .action(async (nameOrCommand: string, commandOrUndefined: string | undefined, opts: { all?: boolean; group?: string; pipe?: boolean; format?: string; priority?: number; remote?: string }) => {
       if (opts.all && opts.group) {
         console.error('Error: --all and --group are mutually exclusive.');
         process.exitCode = 1;
         return;
       }
+      if (opts.remote && (opts.all || opts.group)) {
+        console.error('Error: --remote cannot be combined with --all or --group.');
+        process.exitCode = 1;
+        return;
+      }
 
       // When --all or --group is used, the first positional arg is the command
       // (since <name> is optional in that case)
       if (opts.all || opts.group) {
         const prompt = commandOrUndefined ? `${nameOrCommand} ${commandOrUndefined}` : nameOrCommand;
         let sessionNames: string[];
+        const allSessions = daemon ? await daemon.listSessions() : manager.listSessions();
 
         if (opts.all) {
-          const running = manager.listSessions().filter((s) => s.state === SessionState.Running);
+          const running = allSessions.filter((s) => s.state === SessionState.Running);
           sessionNames = running.map((s) => s.name);
         } else {
           let workspaceSessionNames: string[];
@@ -98,7 +165,7 @@ export function registerExecCommand(
             process.exitCode = 1;
             return;
           }
-          const runningSessions = manager.listSessions().filter((s) => s.state === SessionState.Running);
+          const runningSessions = allSessions.filter((s) => s.state === SessionState.Running);
           const runningNames = new Set(runningSessions.map((s) => s.name));
           sessionNames = workspaceSessionNames.filter((n) => runningNames.has(n));
         }
@@ -110,7 +177,9 @@ export function registerExecCommand(
         }
 
         try {
-          const results = await manager.broadcastPrompt(sessionNames, prompt);
+          const results = daemon
+            ? await daemon.broadcastPrompt(sessionNames, prompt)
+            : await manager.broadcastPrompt(sessionNames, prompt);
           console.log(formatBroadcastResults(results));
           const failed = results.filter((r) => r.status === 'rejected');
           if (failed.length > 0) {
@@ -139,6 +208,57 @@ export function registerExecCommand(
         return;
       }
 
+      // Resolve @session-name references before sending
+      const resolveRefs = async (text: string): Promise<string> =>
+        historyStore ? resolveSessionRefs(text, historyStore) : text;
+
+      const useNdjson = opts.format === 'ndjson';
+      const promptOptions = { priority: opts.priority };
+
+      // Remote mode: @session references resolve against local history, so
+      // the prompt is sent as written
+      if (opts.remote) {
+        if (!remoteManager) {
+          console.error('Error: Remote sessions are not available.');
+          process.exitCode = 1;
+          return;
+        }
+        await execRemote(remoteManager, opts.remote, name, command, useNdjson);
+        return;
+      }
+
+      // Daemon mode: the daemon owns the session, so other shells can watch it
+      if (daemon) {
+        try {
+          const info = await daemon.getSessionInfo(name);
+          if (!info) {
+            console.error(`Error: Session '${name}' not found.`);
+            process.exitCode = 1;
+            return;
+          }
+          if (info.state !== SessionState.Running) {
+            console.error(`Error: Session '${name}' is not running.`);
+            process.exitCode = 1;
+            return;
+          }
+          command = await resolveRefs(command);
+          if (useNdjson) {
+            const response = await daemon.sendPrompt(name, command, (chunk) => {
+              process.stdout.write(JSON.stringify({ type: 'chunk', text: chunk }) + '\n');
+            }, promptOptions);
+            process.stdout.write(JSON.stringify({ type: 'done', response, sessionName: name }) + '\n');
+          } else {
+            console.log(`Sending to [${name}]: ${command}`);
+            const response = await daemon.sendPrompt(name, command, undefined, promptOptions);
+            console.log(response);
+          }
+        } catch (err) {
+          console.error(`Error: ${err instanceof Error ? err.message : err}`);
+          process.exitCode = 1;
+        }
+        return;
+      }
+
       const session = manager.getSession(name);
       if (!session) {
         console.error(`Error: Session '${name}' not found.`);
@@ -151,12 +271,7 @@ export function registerExecCommand(
         return;
       }
 
-      // Resolve @session-name references before sending
-      if (historyStore) {
-        command = await resolveSessionRefs(command, historyStore);
-      }
-
-      const useNdjson = opts.format === 'ndjson';
+      command = await resolveRefs(command);
 
       try {
         if (useNdjson) {
@@ -164,11 +279,11 @@ export function registerExecCommand(
           session.on('data', (chunk: string) => {
             process.stdout.write(JSON.stringify({ type: 'chunk', text: chunk }) + '\n');
           });
-          const response = await session.sendPrompt(command);
+          const response = await session.sendPrompt(command, promptOptions);
           process.stdout.write(JSON.stringify({ type: 'done', response, sessionName: name }) + '\n');
         } else {
           console.log(`Sending to [${name}]: ${command}`);
-          const response = await session.sendPrompt(command);
+          const response = await session.sendPrompt(command, promptOptions);
           console.log(response);
         }
       } catch (err) {
@@ -13,13 +13,13 @@ vi.mock('node:fs/promises');
 // ── Mock factories ────────────────────────────────────────────────────────────
 
 function createMockHistoryStore(): {
-  getBySession: ReturnType<typeof vi.fn>;
+  getFullBySession: ReturnType<typeof vi.fn>;
   search: ReturnType<typeof vi.fn>;
   record: ReturnType<typeof vi.fn>;
   clear: ReturnType<typeof vi.fn>;
 } {
   return {
-    getBySession: vi.fn().mockResolvedValue([]),
+    getFullBySession: vi.fn().mockResolvedValue([]),
     search: vi.fn().mockResolvedValue([]),
     record: vi.fn().mockResolvedValue(undefined),
     clear: vi.fn().mockResolvedValue(undefined),
@@ -86,11 +86,11 @@ describe('export command', () => {
         makeEntry({ index: 1, prompt: 'second prompt', timestamp: '2025-01-15T10:35:00.000Z' }),
         makeEntry({ index: 0, prompt: 'first prompt', timestamp: '2025-01-15T10:30:00.000Z' }),
       ];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'my-session']);
 
-      expect(mockHistoryStore.getBySession).toHaveBeenCalledWith('my-session');
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledWith('my-session');
       expect(mockWriteFile).toHaveBeenCalledTimes(1);
       const [filePath] = mockWriteFile.mock.calls[0];
       expect(filePath).toContain('my-session-history.md');
@@ -101,7 +101,7 @@ describe('export command', () => {
 
     it('should export in json format when specified', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'test-session', '--format', 'json']);
 
@@ -112,7 +112,7 @@ describe('export command', () => {
 
     it('should export in text format when specified', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'test-session', '-f', 'text']);
 
@@ -123,7 +123,7 @@ describe('export command', () => {
 
     it('should use custom output path when provided', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
       const customPath = '/tmp/custom-export.md';
 
       await runCommand(program, ['export', 'sess', '-o', customPath]);
@@ -135,7 +135,7 @@ describe('export command', () => {
 
     it('should use short option for output path', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess', '-o', 'out.md']);
 
@@ -147,17 +147,17 @@ describe('export command', () => {
 
   describe('entry order handling', () => {
     it('should reverse entries to chronological order before export', async () => {
-      // getBySession returns reverse chronological (newest first)
+      // getFullBySession returns reverse chronological (newest first)
       const entries = [
         makeEntry({ index: 2, timestamp: '2025-01-15T10:40:00.000Z' }),
         makeEntry({ index: 1, timestamp: '2025-01-15T10:35:00.000Z' }),
         makeEntry({ index: 0, timestamp: '2025-01-15T10:30:00.000Z' }),
       ];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess']);
 
-      expect(mockHistoryStore.getBySession).toHaveBeenCalledWith('sess');
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledWith('sess');
       expect(mockWriteFile).toHaveBeenCalledTimes(1);
       // The implementation reverses the array before passing to formatter
     });
@@ -165,7 +165,7 @@ describe('export command', () => {
 
   describe('error handling', () => {
     it('should error when session has no history', async () => {
-      mockHistoryStore.getBySession.mockResolvedValue([]);
+      mockHistoryStore.getFullBySession.mockResolvedValue([]);
 
       await runCommand(program, ['export', 'empty-session']);
 
@@ -201,7 +201,7 @@ describe('export command', () => {
 
     it('should handle file write errors', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
       mockWriteFile.mockRejectedValue(new Error('EACCES: permission denied'));
 
       await runCommand(program, ['export', 'sess']);
@@ -216,7 +216,7 @@ describe('export command', () => {
     });
 
     it('should handle historyStore errors', async () => {
-      mockHistoryStore.getBySession.mockRejectedValue(new Error('Database error'));
+      mockHistoryStore.getFullBySession.mockRejectedValue(new Error('Database error'));
 
       await runCommand(program, ['export', 'sess']);
 
@@ -230,7 +230,7 @@ describe('export command', () => {
     });
 
     it('should handle non-Error exceptions', async () => {
-      mockHistoryStore.getBySession.mockRejectedValue('string error');
+      mockHistoryStore.getFullBySession.mockRejectedValue('string error');
 
       await runCommand(program, ['export', 'sess']);
 
@@ -244,7 +244,7 @@ describe('export command', () => {
   describe('format case insensitivity', () => {
     it('should accept MARKDOWN in uppercase', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess', '-f', 'MARKDOWN']);
 
@@ -256,7 +256,7 @@ describe('export command', () => {
 
     it('should accept Json in mixed case', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess', '-f', 'Json']);
 
@@ -267,7 +267,7 @@ describe('export command', () => {
 
     it('should accept TEXT in uppercase', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess', '--format', 'TEXT']);
 
@@ -280,7 +280,7 @@ describe('export command', () => {
   describe('output path resolution', () => {
     it('should resolve relative output paths to absolute', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess', '-o', './exports/out.md']);
 
@@ -292,7 +292,7 @@ describe('export command', () => {
 
     it('should generate default filename with session name and format extension', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'my-project', '-f', 'json']);
 
@@ -309,7 +309,7 @@ describe('export command', () => {
         makeEntry({ index: 1 }),
         makeEntry({ index: 2 }),
       ];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess']);
 
@@ -320,7 +320,7 @@ describe('export command', () => {
 
     it('should report the absolute output path', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
       const outputPath = 'export.md';
 
       await runCommand(program, ['export', 'sess', '-o', outputPath]);
@@ -334,42 +334,42 @@ describe('export command', () => {
   describe('edge cases', () => {
     it('should handle session names with special characters', async () => {
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'my-project@v2']);
 
-      expect(mockHistoryStore.getBySession).toHaveBeenCalledWith('my-project@v2');
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledWith('my-project@v2');
       // Default filename will contain the session name as-is
     });
 
     it('should handle very long session names', async () => {
       const longName = 'a'.repeat(200);
       const entries = [makeEntry({ index: 0 })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', longName]);
 
-      expect(mockHistoryStore.getBySession).toHaveBeenCalledWith(longName);
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledWith(longName);
     });
 
     it('should handle single entry export', async () => {
       const entries = [makeEntry({ index: 0, prompt: 'only prompt' })];
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'sess']);
 
-      expect(mockHistoryStore.getBySession).toHaveBeenCalledTimes(1);
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledTimes(1);
     });
 
     it('should handle many entries', async () => {
       const entries = Array.from({ length: 1000 }, (_, i) =>
         makeEntry({ index: i, prompt: `prompt ${i}` }),
       ).reverse(); // Reverse chronological order
-      mockHistoryStore.getBySession.mockResolvedValue(entries);
+      mockHistoryStore.getFullBySession.mockResolvedValue(entries);
 
       await runCommand(program, ['export', 'large-session']);
 
-      expect(mockHistoryStore.getBySession).toHaveBeenCalledWith('large-session');
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledWith('large-session');
     });
   });
 
@@ -50,8 +50,8 @@ Use Cases:
         }
 
         try {
-          // Fetch history entries
-          const entries = await historyStore.getBySession(session);
+          // Fetch history entries with full transcripts where available
+          const entries = await historyStore.getFullBySession(session);
 
           if (entries.length === 0) {
             console.error(`Error: No history found for session "${session}".`);
@@ -59,7 +59,7 @@ Use Cases:
             return;
           }
 
-          // Reverse to chronological order (getBySession returns reverse chronological)
+          // Reverse to chronological order (getFullBySession returns reverse chronological)
           const chronologicalEntries = [...entries].reverse();
 
           // Compute metadata for export
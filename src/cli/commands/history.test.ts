@@ -10,12 +10,14 @@ import type { HistoryStore, HistorySearchResult } from '../../core/history.js';
 
 function createMockHistoryStore(): {
   getBySession: ReturnType<typeof vi.fn>;
+  getFullBySession: ReturnType<typeof vi.fn>;
   search: ReturnType<typeof vi.fn>;
   record: ReturnType<typeof vi.fn>;
   clear: ReturnType<typeof vi.fn>;
 } {
   return {
     getBySession: vi.fn().mockResolvedValue([]),
+    getFullBySession: vi.fn().mockResolvedValue([]),
     search: vi.fn().mockResolvedValue([]),
     record: vi.fn().mockResolvedValue(undefined),
     clear: vi.fn().mockResolvedValue(undefined),
@@ -113,6 +115,40 @@ describe('history command', () => {
       expect(allCalls).toContain('my-session');
     });
 
+    it('should print full transcript turns oldest first with --full', async () => {
+      const longResponse = 'x'.repeat(500);
+      mockHistoryStore.getFullBySession.mockResolvedValue([
+        makeEntry({
+          index: 1,
+          prompt: 'second prompt',
+          transcriptId: 'abc',
+          transcript: {
+            prompt: 'second prompt',
+            response: longResponse,
+            stderr: 'warning: slow\n',
+            startedAt: '2025-01-15T10:31:00.000Z',
+            completedAt: '2025-01-15T10:31:02.000Z',
+            durationMs: 2000,
+            exitCode: 1,
+            signal: null,
+            outcome: 'failed',
+          },
+        } as Partial<PromptHistoryEntry>),
+        makeEntry({ index: 0, prompt: 'first prompt' }),
+      ]);
+
+      await runCommand(program, ['history', 'my-session', '--full', '--limit', '5']);
+
+      expect(mockHistoryStore.getFullBySession).toHaveBeenCalledWith('my-session', 5);
+      expect(mockHistoryStore.getBySession).not.toHaveBeenCalled();
+      const output = logSpy.mock.calls.map((c) => c[0]).join('\n');
+      expect(output).toContain(longResponse);
+      expect(output).toContain('warning: slow');
+      expect(output).toContain('exit 1');
+      expect(output).toContain('(preview only)');
+      expect(output.indexOf('first prompt')).toBeLessThan(output.indexOf('second prompt'));
+    });
+
     it('should show "no history found" when session has no entries', async () => {
       mockHistoryStore.getBySession.mockResolvedValue([]);
 
@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { SessionManager } from '../../core/manager.js';
 import { HistoryStore } from '../../core/history.js';
 import { SessionState } from '../../types.js';
-import { formatHistoryTable } from '../../io/formatter.js';
+import { formatHistoryTable, formatTranscript } from '../../io/formatter.js';
 import {
   HistoryNotFoundError,
   HistoryEntryNotFoundError,
@@ -18,10 +18,11 @@ export function registerHistoryCommand(
     .description('Show prompt history for a session or search across sessions')
     .option('-l, --limit <n>', 'Maximum entries to show', '20')
     .option('-s, --search <query>', 'Search prompts by keyword')
+    .option('--full', 'Show full responses, stderr, timings and exit codes from the transcript store')
     .action(
       async (
         session: string | undefined,
-        opts: { limit: string; search?: string },
+        opts: { limit: string; search?: string; full?: boolean },
       ) => {
         const limit = parseInt(opts.limit, 10);
         if (isNaN(limit) || limit <= 0) {
@@ -31,7 +32,16 @@ export function registerHistoryCommand(
         }
 
         try {
-          if (session && !opts.search) {
+          if (session && !opts.search && opts.full) {
+            // Full transcript for a specific session, oldest first
+            const entries = await historyStore.getFullBySession(session, limit);
+            if (entries.length === 0) {
+              console.log(`No history found for session "${session}".`);
+              return;
+            }
+            console.log(`TRANSCRIPT: ${session} (last ${entries.length} turns)\n`);
+            console.log(formatTranscript([...entries].reverse()));
+          } else if (session && !opts.search) {
             // List history for a specific session
             const allEntries = await historyStore.getBySession(session);
             const total = allEntries.length;
@@ -68,6 +78,7 @@ export function registerHistoryCommand(
                   prompt: r.prompt,
                   responsePreview: r.responsePreview,
                   timestamp: r.timestamp,
+                  scheduleId: r.scheduleId,
                   sessionName: showSession ? r.sessionName : undefined,
                 })),
               ),
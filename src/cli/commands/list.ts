@@ -46,6 +46,7 @@ export function registerListCommand(
           const client = new RemoteClient(
             `http://localhost:${handle.localPort}`,
             options.remote,
+            entry.token,
           );
           const sessions = await client.listSessions();
           if (options.json) {
@@ -1,6 +1,57 @@
 import { Command } from 'commander';
 import { SessionManager } from '../../core/manager.js';
 import { SessionState } from '../../types.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+
+/**
+ * Daemon-mode pipe: both sessions live in the daemon, so the response being
+ * waited on may come from a prompt sent in another terminal.
+ */
+async function pipeViaDaemon(daemon: DaemonClient, fromName: string, toName: string): Promise<void> {
+  for (const name of [fromName, toName]) {
+    const info = await daemon.getSessionInfo(name);
+    if (!info) {
+      console.error(`Error: Session '${name}' not found.`);
+      process.exitCode = 1;
+      return;
+    }
+    if (info.state !== SessionState.Running) {
+      console.error(`Error: Session '${name}' is not running.`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  console.log(`Waiting for next response from [${fromName}]...`);
+
+  try {
+    const response = await new Promise<string>((resolve, reject) => {
+      const off = daemon.onEvent((event) => {
+        if (event.sessionName !== fromName) return;
+        if (event.event === 'promptComplete') {
+          off();
+          resolve(String(event.data));
+        } else if (event.event === 'promptError') {
+          off();
+          const message = (event.data as { message?: string } | null)?.message ?? 'prompt failed';
+          reject(new Error(message));
+        }
+      });
+      daemon.subscribe(fromName).catch((err: unknown) => {
+        off();
+        reject(err);
+      });
+    });
+
+    await daemon.unsubscribe(fromName);
+    console.log(`Piping [${fromName}] -> [${toName}]`);
+    const result = await daemon.sendPrompt(toName, response);
+    console.log(result);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+  }
+}
 
 /**
  * Register the `pipe` command.
@@ -10,11 +61,20 @@ import { SessionState } from '../../types.js';
  * Waits for <from-session>'s next promptComplete event, then sends
  * that response as a prompt to <to-session>.
  */
-export function registerPipeCommand(program: Command, manager: SessionManager): void {
+export function registerPipeCommand(
+  program: Command,
+  manager: SessionManager,
+  daemon?: DaemonClient | null,
+): void {
   program
     .command('pipe <from> <to>')
     .description("Pipe <from>'s next response as a prompt to <to>")
     .action(async (fromName: string, toName: string) => {
+      if (daemon) {
+        await pipeViaDaemon(daemon, fromName, toName);
+        return;
+      }
+
       const fromSession = manager.getSession(fromName);
       if (!fromSession) {
         console.error(`Error: Session '${fromName}' not found.`);
@@ -0,0 +1,93 @@
+import { Command } from 'commander';
+import { DaemonClient } from '../../core/daemon-client.js';
+import { AgentSpawnError } from '../../utils/errors.js';
+
+function requireDaemon(daemon: DaemonClient | null | undefined): daemon is DaemonClient {
+  if (!daemon) {
+    console.error('Error: queue requires a running daemon (start one with `agentspawn daemon start`).');
+    process.exitCode = 1;
+    return false;
+  }
+  return true;
+}
+
+function reportError(e: unknown): void {
+  if (e instanceof AgentSpawnError) {
+    console.error(`Error: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+  throw e;
+}
+
+/**
+ * Register the `queue` command.
+ *
+ * Prompts sent to a busy session wait in a per-session queue. Queues live in
+ * the process that owns the session, so these subcommands require a daemon.
+ */
+export function registerQueueCommand(program: Command, daemon?: DaemonClient | null): void {
+  const cmd = program
+    .command('queue')
+    .description('Inspect and manage prompts waiting on a busy session');
+
+  // agentspawn queue list <name> [--json]
+  cmd
+    .command('list <name>')
+    .description('List queued prompts in run order')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: { json?: boolean }) => {
+      if (!requireDaemon(daemon)) return;
+      try {
+        const queue = await daemon.getQueue(name);
+        if (options.json) {
+          console.log(JSON.stringify(queue, null, 2));
+          return;
+        }
+        if (queue.length === 0) {
+          console.log(`No queued prompts for session: ${name}`);
+          return;
+        }
+        for (const entry of queue) {
+          const preview = entry.prompt.length > 60 ? entry.prompt.slice(0, 57) + '...' : entry.prompt;
+          console.log(`#${entry.id}  priority=${entry.priority}  ${entry.enqueuedAt}  ${preview}`);
+        }
+      } catch (e) {
+        reportError(e);
+      }
+    });
+
+  // agentspawn queue drop <name> <id>
+  cmd
+    .command('drop <name> <id>')
+    .description('Remove one queued prompt')
+    .action(async (name: string, id: string) => {
+      if (!requireDaemon(daemon)) return;
+      const queueId = Number.parseInt(id, 10);
+      if (Number.isNaN(queueId)) {
+        console.error(`Error: Invalid queue id '${id}'`);
+        process.exitCode = 1;
+        return;
+      }
+      try {
+        await daemon.dropQueuedPrompt(name, queueId);
+        console.log(`Dropped queued prompt #${queueId} from session: ${name}`);
+      } catch (e) {
+        reportError(e);
+      }
+    });
+
+  // agentspawn queue clear <name>
+  cmd
+    .command('clear <name>')
+    .description('Remove every queued prompt (the running prompt continues)')
+    .action(async (name: string) => {
+      if (!requireDaemon(daemon)) return;
+      try {
+        const count = await daemon.clearQueue(name);
+        console.log(`Dropped ${count} queued prompt(s) from session: ${name}`);
+      } catch (e) {
+        reportError(e);
+      }
+    });
+}
@@ -174,6 +174,15 @@ describe('remote command', () => {
       expect(entry.localPort).toBe(20000);
     });
 
+    it('should store --token on the entry', async () => {
+      await runCommand(program, [
+        'remote', 'add', 'srv', 'user@host.com', '--token', 'ast_secret',
+      ]);
+
+      const entry = mockManager.addRemote.mock.calls[0][0] as RemoteEntry;
+      expect(entry.token).toBe('ast_secret');
+    });
+
     it('should set a random localPort when --local-port is not provided', async () => {
       await runCommand(program, ['remote', 'add', 'srv', 'user@host.com']);
 
@@ -369,6 +378,19 @@ describe('remote command', () => {
       expect(parsed[0].alias).toBe('srv-json');
     });
 
+    it('should not echo stored tokens in JSON output', async () => {
+      mockManager = createMockRemoteManager([makeEntry('srv-json', { token: 'ast_secret' })]);
+      program = new Command();
+      program.exitOverride();
+      registerRemoteCommand(program, mockManager as never);
+
+      await runCommand(program, ['remote', 'list', '--json']);
+
+      const output = logSpy.mock.calls[0][0] as string;
+      expect(output).not.toContain('ast_secret');
+      expect((JSON.parse(output) as Array<{ hasToken: boolean }>)[0].hasToken).toBe(true);
+    });
+
     it('should output empty JSON array when --json and no remotes', async () => {
       await runCommand(program, ['remote', 'list', '--json']);
 
@@ -116,6 +116,7 @@ export function registerRemoteCommand(
       '--local-port <port>',
       'Local port for the SSH tunnel (random if not given)',
     )
+    .option('--token <token>', 'Bearer token for the remote web API (agentspawn web token create)')
     .action(
       async (
         alias: string,
@@ -125,6 +126,7 @@ export function registerRemoteCommand(
           sshPort: string;
           remotePort: string;
           localPort?: string;
+          token?: string;
         },
       ) => {
         const sshPortNum = parseInt(opts.sshPort, 10);
@@ -167,6 +169,7 @@ export function registerRemoteCommand(
           remotePort: remotePortNum,
           localPort: localPortNum,
           addedAt: new Date().toISOString(),
+          ...(opts.token ? { token: opts.token } : {}),
         };
 
         try {
@@ -211,7 +214,8 @@ export function registerRemoteCommand(
     .action(async (opts: { json?: boolean }) => {
       const remotes = await remoteManager.listRemotes();
       if (opts.json) {
-        console.log(JSON.stringify(remotes, null, 2));
+        // Never echo stored tokens
+        console.log(JSON.stringify(remotes.map(({ token, ...rest }) => ({ ...rest, hasToken: token !== undefined })), null, 2));
         return;
       }
       if (remotes.length === 0) {
@@ -278,4 +278,35 @@ describe('sandbox logs subcommand', () => {
       expect.objectContaining({ pid: undefined }),
     );
   });
+
+  // -------------------------------------------------------------------------
+  // 7. Non-macOS platform with an event log (egress denials)
+  // -------------------------------------------------------------------------
+  it('should show recorded egress denials without the OS log stream when platform is not supported', async () => {
+    mockIsPlatformSupported.mockReturnValue(false);
+    const read = vi.fn().mockResolvedValue([{
+      sessionName: 'api',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      processName: 'claude',
+      pid: 0,
+      operation: 'deny',
+      path: 'network-outbound evil.example:443',
+      raw: 'CONNECT evil.example:443',
+    }]);
+    const eventLog = { read, follow: vi.fn() } as unknown as import('../../core/sandbox-event-log.js').SandboxEventLog;
+
+    const program = new Command();
+    program.exitOverride();
+    registerSandboxCommand(program, mockManager, undefined, eventLog);
+    await program.parseAsync(['node', 'agentspawn', 'sandbox', 'logs', '--past', '1h']);
+
+    expect(read).toHaveBeenCalledWith(undefined, expect.any(Date));
+    const since = read.mock.calls[0][1] as Date;
+    expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(3_600_000);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      '[2026-01-01T00:00:00.000Z] api: claude deny network-outbound evil.example:443',
+    );
+    expect(SandboxLogWatcher).not.toHaveBeenCalled();
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
 });
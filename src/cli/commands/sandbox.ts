@@ -1,29 +1,49 @@
 import { Command } from 'commander';
-import { mkdir, rm, readdir, stat } from 'node:fs/promises';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
-import { execFile } from 'node:child_process';
-import { promisify } from 'node:util';
 import { createInterface } from 'node:readline';
 import { SessionManager } from '../../core/manager.js';
 import { SandboxManager } from '../../core/sandbox.js';
 import { SandboxLogWatcher } from '../../core/sandbox-log-watcher.js';
-import type { SandboxBackend, SandboxLevel } from '../../types.js';
+import type { SandboxLogEntry } from '../../core/sandbox-log-watcher.js';
+import type { SandboxEvent, SandboxEventLog } from '../../core/sandbox-event-log.js';
+import type { SandboxDiff, SandboxDiffStore } from '../../core/sandbox-diff.js';
+import { DEFAULT_IMAGE_SPEC_FILE, detectImageBuilder } from '../../core/sandbox-image.js';
+import type { SandboxImageRecipe, SandboxImageStore } from '../../core/sandbox-image.js';
+import type { SandboxPool, SandboxPoolStats } from '../../core/sandbox-pool.js';
+import { formatPatch, formatStat } from '../../core/diff.js';
+import {
+  InvalidImageSpecError,
+  InvalidMountPolicyError,
+  SandboxBaselineNotFoundError,
+  SandboxImageBuildError,
+  SandboxPoolCorruptError,
+  SandboxPoolLockError,
+} from '../../utils/errors.js';
+import type { SandboxBackend, SandboxLevel, SandboxMountTestResult } from '../../types.js';
+import { addMountOptions, parseMountFlags } from '../mount-options.js';
+import type { MountFlags } from '../mount-options.js';
 
-const execFileAsync = promisify(execFile);
-
-export function registerSandboxCommand(program: Command, manager: SessionManager): void {
+export function registerSandboxCommand(
+  program: Command,
+  manager: SessionManager,
+  sandboxDiffStore?: SandboxDiffStore,
+  sandboxEventLog?: SandboxEventLog,
+  sandboxImageStore?: SandboxImageStore,
+  sandboxPool?: SandboxPool,
+): void {
   const sandbox = program
     .command('sandbox')
     .description('Manage and inspect session sandboxes');
 
-  // agentspawn sandbox test [--backend <backend>] [--level <level>]
-  sandbox
+  // agentspawn sandbox test [--backend <backend>] [--level <level>] [--sandbox-read-only|--sandbox-writable|--sandbox-deny <path>]
+  addMountOptions(sandbox
     .command('test')
     .description('Verify sandbox isolation is working correctly')
     .option('-b, --backend <backend>', 'Backend to test: docker, bwrap, sandbox-exec (auto-detects if omitted)')
-    .option('-l, --level <level>', 'Isolation level to test: permissive, standard, strict', 'permissive')
-    .action(async (options: { backend?: string; level: string }) => {
+    .option('-l, --level <level>', 'Isolation level to test: permissive, standard, strict', 'permissive'))
+    .action(async (options: { backend?: string; level: string } & MountFlags) => {
       const level = options.level as SandboxLevel;
       if (!['permissive', 'standard', 'strict'].includes(level)) {
         console.error('Error: --level must be permissive, standard, or strict');
@@ -54,7 +74,16 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
       const testWorkdir = path.join(os.tmpdir(), `agentspawn-sandbox-test-${Date.now()}`);
       await mkdir(testWorkdir, { recursive: true });
 
-      const sbManager = new SandboxManager('__sandbox-test__', testWorkdir, backend, { level });
+      let sbManager: SandboxManager;
+      try {
+        sbManager = new SandboxManager('__sandbox-test__', testWorkdir, backend, { level, mounts: parseMountFlags(options) });
+      } catch (e) {
+        await rm(testWorkdir, { recursive: true, force: true });
+        if (!(e instanceof InvalidMountPolicyError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+        return;
+      }
 
       try {
         await sbManager.start();
@@ -67,6 +96,13 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
         if (result.readCredentialDir !== null) {
           console.log(`Read credential dirs:   ${!result.readCredentialDir ? 'PASS (blocked)' : 'FAIL (not blocked)'}`);
         }
+        if (result.mounts.length > 0) {
+          console.log('');
+          console.log('Mount policy:');
+          for (const mount of result.mounts) {
+            console.log(`  ${mount.access.padEnd(10)} ${mount.path}  ${formatMountCheck(mount)}`);
+          }
+        }
         console.log('');
         console.log(result.passed ? 'Sandbox isolation verified.' : 'Sandbox isolation test FAILED.');
         if (!result.passed) process.exitCode = 1;
@@ -79,59 +115,219 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
       }
     });
 
-  // agentspawn sandbox diff <session>
+  // agentspawn sandbox status [--json]
   sandbox
-    .command('diff <session>')
-    .description('Show files changed in a session sandbox since it started')
-    .action(async (sessionName: string) => {
-      const info = manager.getSessionInfo(sessionName);
-      if (!info) {
-        console.error(`Error: Session not found: ${sessionName}`);
+    .command('status')
+    .description('Show the detected backend and warm container pool')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const backend = await SandboxManager.detectBackend();
+      let pool: SandboxPoolStats | null = null;
+      try {
+        pool = sandboxPool ? await sandboxPool.stats() : null;
+      } catch (e) {
+        if (!(e instanceof SandboxPoolCorruptError || e instanceof SandboxPoolLockError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify({ backend, pool }, null, 2));
+        return;
+      }
+      console.log(`Backend: ${backend ?? 'none available'}`);
+      if (!pool) return;
+      console.log('');
+      console.log(formatPoolStats(pool));
+    });
+
+  const pool = sandbox
+    .command('pool')
+    .description('Manage the pool of warm Docker/Podman sandboxes');
+
+  // agentspawn sandbox pool size <n>
+  pool
+    .command('size <n>')
+    .description('Set how many warm containers to keep per sandbox configuration (0 disables the pool)')
+    .action(async (n: string) => {
+      const size = Number(n);
+      if (!Number.isInteger(size) || size < 0) {
+        console.error('Error: Pool size must be a non-negative integer');
         process.exitCode = 1;
         return;
       }
-      if (!info.sandboxBackend) {
-        console.error(`Error: Session "${sessionName}" has no active sandbox backend`);
+      if (!sandboxPool) {
+        console.error('Error: The sandbox pool is not available');
         process.exitCode = 1;
         return;
       }
+      try {
+        await sandboxPool.setSize(size);
+        console.log(`Sandbox pool size set to ${size}`);
+      } catch (e) {
+        if (!(e instanceof SandboxPoolCorruptError || e instanceof SandboxPoolLockError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+      }
+    });
 
-      // For Docker/Podman: use diff via the running container name
-      // For bwrap/sandbox-exec: find files modified after session start in workdir
-      if (info.sandboxBackend === 'docker' || info.sandboxBackend === 'podman') {
-        const binary = info.sandboxBackend;
-        try {
-          const { stdout } = await execFileAsync(binary, ['diff', `agentspawn-${sessionName}`]);
-          const lines = stdout.trim().split('\n').filter(Boolean);
-          if (lines.length === 0) {
-            console.log('No filesystem changes.');
-          } else {
-            console.log(lines.join('\n'));
-          }
-        } catch (e) {
-          console.error(`Error: Could not get diff: ${(e as Error).message}`);
+  // agentspawn sandbox pool drain
+  pool
+    .command('drain')
+    .description('Remove all idle warm containers')
+    .action(async () => {
+      if (!sandboxPool) {
+        console.error('Error: The sandbox pool is not available');
+        process.exitCode = 1;
+        return;
+      }
+      try {
+        const removed = await sandboxPool.drain();
+        console.log(`Removed ${removed} warm container${removed === 1 ? '' : 's'}`);
+      } catch (e) {
+        if (!(e instanceof SandboxPoolCorruptError || e instanceof SandboxPoolLockError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+      }
+    });
+
+  const image = sandbox
+    .command('image')
+    .description('Build Docker/Podman sandbox images with project toolchains');
+
+  // agentspawn sandbox image build [spec] [--dockerfile <file>] [--context <dir>] [--backend <backend>] [--force]
+  image
+    .command('build [spec]')
+    .description(`Build an image from a toolchain spec (default: ./${DEFAULT_IMAGE_SPEC_FILE}) or a project Dockerfile`)
+    .option('--dockerfile <file>', 'Build this Dockerfile instead of a spec')
+    .option('--context <dir>', 'Build context for --dockerfile (default: its directory)')
+    .option('-b, --backend <backend>', 'Container runtime to build with: docker, podman (auto-detects if omitted)')
+    .option('--force', 'Rebuild even if an image for this content already exists')
+    .action(async (spec: string | undefined, options: { dockerfile?: string; context?: string; backend?: string; force?: boolean }) => {
+      if (!sandboxImageStore) {
+        console.error('Error: Sandbox images are not available');
+        process.exitCode = 1;
+        return;
+      }
+      if (spec && options.dockerfile) {
+        console.error('Error: Give either a spec or --dockerfile, not both');
+        process.exitCode = 1;
+        return;
+      }
+      if (options.context && !options.dockerfile) {
+        console.error('Error: --context requires --dockerfile');
+        process.exitCode = 1;
+        return;
+      }
+
+      let binary: 'docker' | 'podman' | null;
+      if (options.backend) {
+        if (!['docker', 'podman'].includes(options.backend)) {
+          console.error('Error: --backend must be docker or podman');
           process.exitCode = 1;
+          return;
         }
+        binary = options.backend as 'docker' | 'podman';
       } else {
-        // bwrap / sandbox-exec: find files modified after session start
-        if (!info.startedAt) {
-          console.error('Error: Session start time not available');
+        binary = await detectImageBuilder();
+        if (!binary) {
+          console.error('Error: Building sandbox images requires Docker or Podman');
           process.exitCode = 1;
           return;
         }
-        const startTime = info.startedAt.getTime();
-        try {
-          const lines = await findModifiedFiles(info.workingDirectory, startTime);
-          if (lines.length === 0) {
-            console.log('No filesystem changes detected.');
-          } else {
-            console.log(lines.join('\n'));
-          }
-        } catch (e) {
-          console.error(`Error: Could not scan workdir: ${(e as Error).message}`);
-          process.exitCode = 1;
+      }
+
+      try {
+        const recipe = await sandboxImageStore.prepare(
+          options.dockerfile
+            ? { dockerfile: options.dockerfile, context: options.context }
+            : { spec: spec ?? DEFAULT_IMAGE_SPEC_FILE },
+        );
+        console.log(`Building ${recipe.tag} from ${recipe.source} with ${binary}...`);
+        const built = await sandboxImageStore.build(binary, recipe, {
+          force: options.force,
+          onOutput: (chunk) => process.stderr.write(chunk),
+        });
+        console.log(built ? `Built ${recipe.tag}` : `${recipe.tag} is up to date`);
+        console.log(`Use it with --sandbox-image ${recipe.tag} (agentspawn start or template create)`);
+      } catch (e) {
+        if (!(e instanceof InvalidImageSpecError || e instanceof SandboxImageBuildError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+      }
+    });
+
+  // agentspawn sandbox image list [--json]
+  image
+    .command('list')
+    .description('List images built by sandbox image build')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      const recipes = sandboxImageStore ? await sandboxImageStore.list() : [];
+      if (options.json) {
+        console.log(JSON.stringify(recipes, null, 2));
+      } else if (recipes.length === 0) {
+        console.log('No sandbox images built yet.');
+      } else {
+        for (const recipe of recipes) {
+          console.log(formatImageRecipe(recipe));
+        }
+      }
+    });
+
+  // agentspawn sandbox diff <session> [--patch|--stat|--json] [-o <file>] [--ignore <glob>]
+  sandbox
+    .command('diff <session>')
+    .description('Show what a session changed in its working directory since it started')
+    .option('--patch', 'Show unified patches')
+    .option('--stat', 'Show a per-file summary of insertions and deletions')
+    .option('--json', 'Output as JSON, with hunks per file')
+    .option('-o, --output <file>', 'Also write the patches to a .patch file (apply with git apply)')
+    .option('--ignore <glob>', 'Ignore paths matching this gitignore-style pattern (repeatable)', (val: string, acc: string[]) => [...acc, val], [] as string[])
+    .action(async (sessionName: string, options: { patch?: boolean; stat?: boolean; json?: boolean; output?: string; ignore: string[] }) => {
+      if ([options.patch, options.stat, options.json].filter(Boolean).length > 1) {
+        console.error('Error: --patch, --stat and --json cannot be combined');
+        process.exitCode = 1;
+        return;
+      }
+      if (!sandboxDiffStore) {
+        console.error('Error: Sandbox diffs are not available');
+        process.exitCode = 1;
+        return;
+      }
+
+      let diff: SandboxDiff;
+      try {
+        diff = await sandboxDiffStore.diff(sessionName, { ignore: options.ignore });
+      } catch (e) {
+        if (!(e instanceof SandboxBaselineNotFoundError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      if (options.output) {
+        await writeFile(options.output, diff.files.map(formatPatch).join(''), 'utf-8');
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(diff, null, 2));
+      } else if (diff.files.length === 0) {
+        console.log(`No changes since ${diff.baselineAt}.`);
+      } else if (options.patch) {
+        process.stdout.write(diff.files.map(formatPatch).join(''));
+      } else if (options.stat) {
+        console.log(formatStat(diff.files));
+      } else {
+        for (const file of diff.files) {
+          console.log(`${file.status} ${file.path}`);
         }
       }
+
+      if (options.output) {
+        console.error(`Wrote ${diff.files.length} file(s) to ${options.output}`);
+      }
     });
 
   // agentspawn sandbox logs [session]
@@ -140,8 +336,11 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
     .description('Stream or show historical sandbox violations for a session')
     .option('--past <duration>', 'Show historical violations instead of streaming (e.g. 5m, 1h)')
     .action(async (sessionName: string | undefined, options: { past?: string }) => {
-      if (!SandboxLogWatcher.isPlatformSupported()) {
-        console.error('Error: sandbox logs requires macOS');
+      // The OS logs report what sandbox-exec and container LSMs block; egress
+      // denials and bwrap's traced denials are recorded by AgentSpawn itself
+      const osLogs = SandboxLogWatcher.isPlatformSupported();
+      if (!osLogs && !sandboxEventLog) {
+        console.error('Error: sandbox logs requires macOS or Linux');
         process.exitCode = 1;
         return;
       }
@@ -155,10 +354,10 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
           process.exitCode = 1;
           return;
         }
-        if (info.pid === 0) {
+        if (osLogs && info.pid === 0) {
           console.warn(`Warning: Session "${sessionName}" PID is 0; showing all sandbox violations`);
           watcherPid = undefined;
-        } else {
+        } else if (osLogs) {
           watcherPid = info.pid;
         }
       }
@@ -169,17 +368,38 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
         return;
       }
 
-      const watcher = new SandboxLogWatcher({ pid: watcherPid, past: options.past });
-
       if (options.past) {
         console.log(`Showing sandbox violations (last ${options.past})...`);
       } else {
         console.log('Watching sandbox violations... (Ctrl+C to stop)');
       }
+      if (!osLogs) {
+        console.log('Only egress denials are recorded on this platform.');
+      }
+
+      if (sandboxEventLog && options.past) {
+        for (const event of await sandboxEventLog.read(sessionName, pastToDate(options.past))) {
+          console.log(formatLogEntry(event));
+        }
+      }
+      const stopFollowing = sandboxEventLog && !options.past
+        ? sandboxEventLog.follow(sessionName, (event) => console.log(formatLogEntry(event)))
+        : () => {};
+
+      if (!osLogs) {
+        if (!options.past) {
+          await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+          stopFollowing();
+          process.exit(0);
+        }
+        return;
+      }
 
+      const watcher = new SandboxLogWatcher({ pid: watcherPid, past: options.past });
       const child = watcher.start();
 
       if (!child.stdout) {
+        stopFollowing();
         console.error('Error: sandbox log stream did not open stdout');
         process.exitCode = 1;
         return;
@@ -189,7 +409,7 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
       rl.on('line', (line: string) => {
         const entry = watcher.parseLine(line);
         if (entry) {
-          console.log(`[${entry.timestamp}] ${entry.processName}(${entry.pid}) ${entry.operation} ${entry.path}`);
+          console.log(formatLogEntry(entry));
         }
       });
 
@@ -205,6 +425,7 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
             resolve();
           });
         });
+        stopFollowing();
         process.exit(0);
       } else {
         await new Promise<void>((resolve) => {
@@ -215,24 +436,42 @@ export function registerSandboxCommand(program: Command, manager: SessionManager
     });
 }
 
-async function findModifiedFiles(dir: string, sinceMs: number): Promise<string[]> {
-  const results: string[] = [];
-
-  async function walk(current: string): Promise<void> {
-    const entries = await readdir(current, { withFileTypes: true });
-    for (const entry of entries) {
-      const full = path.join(current, entry.name);
-      if (entry.isDirectory()) {
-        await walk(full);
-      } else {
-        const s = await stat(full);
-        if (s.mtimeMs > sinceMs) {
-          results.push(`M ${full}`);
-        }
-      }
-    }
+function formatPoolStats(stats: SandboxPoolStats): string {
+  const started = stats.hits + stats.misses;
+  const warm = started > 0 ? ` (${Math.round((stats.hits / started) * 100)}% warm)` : '';
+  const lines = [
+    `Pool size: ${stats.size} per configuration, idle timeout ${Math.round(stats.idleTimeoutMs / 60_000)}m`,
+    `Starts: ${stats.hits} warm, ${stats.misses} cold${warm}`,
+  ];
+  if (stats.groups.length === 0) {
+    return [...lines, '', 'No pooled containers.'].join('\n');
   }
+  const rows = stats.groups.map((g) => [g.binary, g.image, g.level, g.workingDirectory, String(g.idle), String(g.inUse)]);
+  const header = ['BACKEND', 'IMAGE', 'LEVEL', 'WORKDIR', 'IDLE', 'IN-USE'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  const table = [header, ...rows].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+  return [...lines, '', ...table].join('\n');
+}
+
+function formatImageRecipe(recipe: SandboxImageRecipe): string {
+  return `${recipe.tag}  ${recipe.kind.padEnd(10)} ${recipe.source}  (${recipe.createdAt})`;
+}
+
+function formatMountCheck(mount: SandboxMountTestResult): string {
+  const expectation = { 'read-only': 'readable, write blocked', writable: 'writable', deny: 'hidden' }[mount.access];
+  return mount.passed ? `PASS (${expectation})` : `FAIL (not ${expectation})`;
+}
+
+const DURATION_UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** The start of a --past window such as 5m; the format is validated by the caller. */
+function pastToDate(past: string): Date {
+  const amount = parseInt(past, 10);
+  return new Date(Date.now() - amount * DURATION_UNIT_MS[past.slice(-1)]);
+}
 
-  await walk(dir);
-  return results;
+function formatLogEntry(entry: SandboxLogEntry | SandboxEvent): string {
+  const session = 'sessionName' in entry ? `${entry.sessionName}: ` : '';
+  const pid = entry.pid > 0 ? `(${entry.pid})` : '';
+  return `[${entry.timestamp}] ${session}${entry.processName}${pid} ${entry.operation} ${entry.path}`;
 }
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Command } from 'commander';
+import { registerScheduleCommand } from './schedule.js';
+import { ScheduleManager } from '../../core/schedule.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+async function runCommand(program: Command, args: string[]): Promise<void> {
+  await program.parseAsync(['node', 'agentspawn', ...args]);
+}
+
+describe('schedule command', () => {
+  let dir: string;
+  let schedules: ScheduleManager;
+  let program: Command;
+  let logSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+  let savedExitCode: typeof process.exitCode;
+
+  function register(daemon: DaemonClient | null = null): void {
+    program = new Command();
+    program.exitOverride();
+    registerScheduleCommand(program, schedules, daemon);
+  }
+
+  beforeEach(() => {
+    dir = path.join(os.tmpdir(), `agentspawn-schedule-cmd-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    schedules = new ScheduleManager(path.join(dir, 'schedules.json'));
+    register();
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    savedExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    process.exitCode = savedExitCode;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('adds a cron schedule and notes when no daemon is running', async () => {
+    await runCommand(program, ['schedule', 'add', 'api', 'update deps and open a summary', '--cron', '0 9 * * 1-5', '--id', 'deps']);
+
+    const [entry] = await schedules.list();
+    expect(entry).toMatchObject({
+      id: 'deps',
+      sessionName: 'api',
+      prompt: 'update deps and open a summary',
+      trigger: { type: 'cron', expression: '0 9 * * 1-5' },
+      missedRunPolicy: 'run-once',
+    });
+    expect(logSpy.mock.calls[0][0]).toContain('Schedule "deps" added: cron "0 9 * * 1-5" in session "api"');
+    expect(logSpy.mock.calls[1][0]).toContain('only fire while the daemon is running');
+  });
+
+  it('adds an interval schedule with a missed-run policy', async () => {
+    register({} as DaemonClient);
+    await runCommand(program, ['schedule', 'add', 'api', 'status', '--every', '2h', '--missed', 'skip']);
+
+    const [entry] = await schedules.list();
+    expect(entry.trigger).toEqual({ type: 'interval', everyMs: 7_200_000 });
+    expect(entry.missedRunPolicy).toBe('skip');
+    expect(logSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects bad triggers and policies', async () => {
+    await runCommand(program, ['schedule', 'add', 'api', 'x']);
+    expect(errorSpy).toHaveBeenLastCalledWith('Error: Specify exactly one of --cron or --every.');
+
+    await runCommand(program, ['schedule', 'add', 'api', 'x', '--every', '1h', '--missed', 'all']);
+    expect(errorSpy).toHaveBeenLastCalledWith('Error: --missed must be one of skip, run-once.');
+
+    await runCommand(program, ['schedule', 'add', 'api', 'x', '--cron', '61 * * * *']);
+    expect(errorSpy.mock.lastCall![0]).toContain('"61" is not a valid minute');
+
+    await runCommand(program, ['schedule', 'add', 'api', 'x', '--every', '10s']);
+    expect(errorSpy.mock.lastCall![0]).toContain('interval "10s"');
+
+    expect(process.exitCode).toBe(1);
+    expect(await schedules.list()).toEqual([]);
+  });
+
+  it('lists, pauses, resumes and removes schedules', async () => {
+    await runCommand(program, ['schedule', 'list']);
+    expect(logSpy).toHaveBeenLastCalledWith('No schedules.');
+
+    await schedules.add({ id: 'deps', sessionName: 'api', prompt: 'update deps', trigger: { type: 'interval', everyMs: 3_600_000 } });
+
+    await runCommand(program, ['schedule', 'pause', 'deps']);
+    expect(logSpy).toHaveBeenLastCalledWith('Schedule "deps" paused');
+    await runCommand(program, ['schedule', 'list']);
+    expect(logSpy.mock.lastCall![0]).toMatch(/deps\s+api\s+every 1h\s+paused\s+-\s+"update deps"/);
+
+    await runCommand(program, ['schedule', 'resume', 'deps']);
+    expect(logSpy.mock.lastCall![0]).toContain('Schedule "deps" resumed, next run');
+    expect((await schedules.get('deps')).paused).toBe(false);
+
+    await runCommand(program, ['schedule', 'list', '--json']);
+    expect(JSON.parse(logSpy.mock.lastCall![0] as string)[0].id).toBe('deps');
+
+    await runCommand(program, ['schedule', 'remove', 'deps']);
+    expect(logSpy).toHaveBeenLastCalledWith('Schedule "deps" removed');
+    expect(await schedules.list()).toEqual([]);
+  });
+
+  it('reports unknown schedule ids', async () => {
+    await runCommand(program, ['schedule', 'remove', 'nope']);
+    expect(errorSpy).toHaveBeenCalledWith('Error: Schedule not found: nope');
+    expect(process.exitCode).toBe(1);
+  });
+});
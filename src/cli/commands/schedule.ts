@@ -0,0 +1,154 @@
+import { Command } from 'commander';
+import { MISSED_RUN_POLICIES, ScheduleManager, describeTrigger, parseInterval } from '../../core/schedule.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+import type { MissedRunPolicy, ScheduleEntry, ScheduleTrigger } from '../../types.js';
+import {
+  InvalidScheduleError,
+  ScheduleAlreadyExistsError,
+  ScheduleNotFoundError,
+} from '../../utils/errors.js';
+
+const PROMPT_PREVIEW_LENGTH = 40;
+
+function formatTime(iso: string | undefined): string {
+  return iso ? new Date(iso).toLocaleString() : '-';
+}
+
+function formatScheduleTable(entries: ScheduleEntry[]): string {
+  const rows = entries.map((entry) => {
+    const prompt =
+      entry.prompt.length > PROMPT_PREVIEW_LENGTH ? `${entry.prompt.slice(0, PROMPT_PREVIEW_LENGTH - 3)}...` : entry.prompt;
+    return [
+      entry.id,
+      entry.sessionName,
+      describeTrigger(entry.trigger),
+      entry.paused ? 'paused' : formatTime(entry.nextRunAt),
+      entry.lastStatus ? `${entry.lastStatus} ${formatTime(entry.lastRunAt)}` : '-',
+      JSON.stringify(prompt),
+    ];
+  });
+  const header = ['ID', 'SESSION', 'TRIGGER', 'NEXT RUN', 'LAST RUN', 'PROMPT'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+function reportError(e: unknown): boolean {
+  if (e instanceof ScheduleNotFoundError || e instanceof ScheduleAlreadyExistsError || e instanceof InvalidScheduleError) {
+    console.error(`Error: ${e.message}`);
+    process.exitCode = 1;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Register the `schedule` command.
+ *
+ * Usage: agentspawn schedule add <session> <prompt> (--cron <expr> | --every <interval>)
+ *                                [--missed skip|run-once] [--id <id>]
+ *        agentspawn schedule list [--json]
+ *        agentspawn schedule remove <id>
+ *        agentspawn schedule pause|resume <id>
+ *
+ * Schedules are stored in ~/.agentspawn/schedules.json and fired by the
+ * daemon, so they only run while `agentspawn daemon` is up.
+ */
+export function registerScheduleCommand(
+  program: Command,
+  scheduleManager: ScheduleManager,
+  daemon?: DaemonClient | null,
+): void {
+  const cmd = program
+    .command('schedule')
+    .description('Send prompts to sessions on a cron schedule or interval');
+
+  cmd
+    .command('add <session> <prompt>')
+    .description('Schedule a recurring prompt')
+    .option('--cron <expr>', 'Cron expression in local time, e.g. "0 9 * * 1-5" for weekdays at 9:00')
+    .option('--every <interval>', 'Fixed interval, e.g. 30m, 2h or 1d')
+    .option('--missed <policy>', `What to do about runs missed while the daemon was down: ${MISSED_RUN_POLICIES.join(', ')}`, 'run-once')
+    .option('--id <id>', 'Schedule id (default: random)')
+    .action(async (sessionName: string, prompt: string, opts: { cron?: string; every?: string; missed: string; id?: string }) => {
+      if ((opts.cron === undefined) === (opts.every === undefined)) {
+        console.error('Error: Specify exactly one of --cron or --every.');
+        process.exitCode = 1;
+        return;
+      }
+      if (!(MISSED_RUN_POLICIES as string[]).includes(opts.missed)) {
+        console.error(`Error: --missed must be one of ${MISSED_RUN_POLICIES.join(', ')}.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const trigger: ScheduleTrigger = opts.cron !== undefined
+          ? { type: 'cron', expression: opts.cron }
+          : { type: 'interval', everyMs: parseInterval(opts.every!) };
+        const entry = await scheduleManager.add({
+          id: opts.id,
+          sessionName,
+          prompt,
+          trigger,
+          missedRunPolicy: opts.missed as MissedRunPolicy,
+        });
+        console.log(
+          `Schedule "${entry.id}" added: ${describeTrigger(entry.trigger)} in session "${sessionName}", next run ${formatTime(entry.nextRunAt)}`,
+        );
+        if (!daemon) {
+          console.log('Note: schedules only fire while the daemon is running (agentspawn daemon start --detach).');
+        }
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+
+  cmd
+    .command('list')
+    .description('List schedules')
+    .option('--json', 'Output as JSON')
+    .action(async (opts: { json?: boolean }) => {
+      const entries = await scheduleManager.list();
+      if (opts.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      console.log(entries.length === 0 ? 'No schedules.' : formatScheduleTable(entries));
+    });
+
+  cmd
+    .command('remove <id>')
+    .description('Delete a schedule')
+    .action(async (id: string) => {
+      try {
+        await scheduleManager.remove(id);
+        console.log(`Schedule "${id}" removed`);
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+
+  cmd
+    .command('pause <id>')
+    .description('Stop a schedule from firing until it is resumed')
+    .action(async (id: string) => {
+      try {
+        await scheduleManager.setPaused(id, true);
+        console.log(`Schedule "${id}" paused`);
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+
+  cmd
+    .command('resume <id>')
+    .description('Resume a paused schedule from its next due time')
+    .action(async (id: string) => {
+      try {
+        const entry = await scheduleManager.setPaused(id, false);
+        console.log(`Schedule "${id}" resumed, next run ${formatTime(entry.nextRunAt)}`);
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+}
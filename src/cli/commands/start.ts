@@ -4,16 +4,32 @@ import { SessionManager } from '../../core/manager.js';
 import { Router } from '../../io/router.js';
 import { TemplateManager } from '../../core/template.js';
 import { formatStatusLine } from '../../io/formatter.js';
-import { SessionAlreadyExistsError, SpawnFailedError, TemplateNotFoundError, SandboxNotAvailableError, SandboxStartError } from '../../utils/errors.js';
-import type { RestartPolicy, SandboxBackend, SandboxLevel, ProviderType } from '../../types.js';
+import { SessionAlreadyExistsError, SpawnFailedError, TemplateNotFoundError, SandboxNotAvailableError, SandboxStartError, InvalidFileTriggerError, InvalidEgressRuleError, InvalidMountPolicyError, WorktreeError, UnknownProviderError, InvalidProviderSpecError } from '../../utils/errors.js';
+import { parseFileTriggerFlag } from '../../core/file-trigger.js';
+import { parseEgressRule } from '../../core/egress-proxy.js';
+import { mergeMountPolicies, parseMountPolicy } from '../../core/sandbox-mounts.js';
+import { WorktreeManager, defaultWorktreeBranch } from '../../core/worktree.js';
+import type { BudgetLimits, FileTrigger, RestartPolicy, SandboxBackend, SandboxLevel, SandboxMountPolicy, ProviderType, SessionConfig, SessionWorktree } from '../../types.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+import { createProvider } from '../../core/providers/index.js';
+import type { ProviderRegistry } from '../../core/providers/registry.js';
+import { addBudgetOptions, parseBudgetFlags } from '../budget-options.js';
+import type { BudgetFlags } from '../budget-options.js';
+import { addMountOptions, parseMountFlags } from '../mount-options.js';
+import type { MountFlags } from '../mount-options.js';
+import { addResourceLimitOptions, parseResourceLimitFlags } from '../resource-options.js';
+import type { ResourceLimitFlags } from '../resource-options.js';
 
 export function registerStartCommand(
   program: Command,
   manager: SessionManager,
   _router: Router,
   templateManager?: TemplateManager,
+  daemon?: DaemonClient | null,
+  worktreeManager?: WorktreeManager,
+  providerRegistry?: ProviderRegistry,
 ): void {
-  program
+  addResourceLimitOptions(addMountOptions(addBudgetOptions(program
     .command('start <name>')
     .description('Start a new agent session')
     .option('-d, --dir <path>', 'Working directory')
@@ -24,17 +40,36 @@ export function registerStartCommand(
     .option('--tag <tag>', 'Add a tag to this session (repeatable)', (val: string, acc: string[]) => [...acc, val], [] as string[])
     .option('--sandbox-backend <backend>', 'Sandbox backend to use: sandbox-exec, bwrap, podman, docker (overrides auto-detection)')
     .option('--sandbox-level <level>', 'Isolation level: permissive (default), standard, strict')
-    .option('--sandbox-image <image>', 'Custom Docker/Podman image for sandbox (e.g. debian@sha256:...)')
+    .option('--sandbox-image <image>', 'Custom Docker/Podman image for sandbox (e.g. debian@sha256:... or one from `agentspawn sandbox image build`)')
     .option('--sandbox-memory <limit>', 'Memory limit for sandbox container (e.g. 512m)')
     .option('--sandbox-cpu <cores>', 'CPU limit for sandbox container (e.g. 0.5)')
-    .option('--provider <type>', 'AI provider: claude, gemini, ollama, openai-compat (default: claude)')
-    .option('--model <name>', 'Model name for Ollama provider (e.g. llama3.2, mistral)')
-    .action(async (name: string, options: { dir?: string; permissionMode?: string; template?: string; maxRetries: string; retryBackoff: string; tag: string[]; sandboxBackend?: string; sandboxLevel?: string; sandboxImage?: string; sandboxMemory?: string; sandboxCpu?: string; provider?: string; model?: string }) => {
+    .option('--sandbox-trace', 'bwrap: run each prompt under strace so `sandbox logs` shows what the sandbox denies')
+    .option(
+      '--sandbox-egress <host>',
+      'Only allow outbound connections to this host (host[:port], *.domain[:port]) through a filtering proxy (repeatable)',
+      (val: string, acc: string[]) => [...acc, val],
+      [] as string[],
+    )
+    .option('--provider <name>', 'AI provider: claude, gemini, ollama, openai-compat, openai-http, ollama-http or one declared in ~/.agentspawn/providers.json (default: claude)')
+    .option('--model <name>', 'Model name for Ollama and the HTTP providers (e.g. llama3.2, gpt-4o-mini) or {{model}} in providers.json args')
+    .option('--provider-url <url>', 'Server URL for openai-http (default: https://api.openai.com) or ollama-http (default: http://localhost:11434)')
+    .option(
+      '--on-change <glob=prompt>',
+      'Send a prompt when matching files change, e.g. "reports/*.xml=tests failed in {{file}}, fix them" (repeatable)',
+      (val: string, acc: string[]) => [...acc, val],
+      [] as string[],
+    )
+    .option('--worktree [branch]', 'Run the session in its own git worktree on <branch> (default: agentspawn/<name>)'))))
+    .action(async (name: string, options: { dir?: string; permissionMode?: string; template?: string; maxRetries: string; retryBackoff: string; tag: string[]; sandboxBackend?: string; sandboxLevel?: string; sandboxImage?: string; sandboxMemory?: string; sandboxCpu?: string; sandboxTrace?: boolean; sandboxEgress: string[]; provider?: string; model?: string; providerUrl?: string; onChange: string[]; worktree?: string | boolean } & BudgetFlags & MountFlags & ResourceLimitFlags) => {
       try {
         let workingDirectory = options.dir ? path.resolve(options.dir) : undefined;
         let permissionMode = options.permissionMode;
         let env: Record<string, string> | undefined;
         let templateRestartPolicy: RestartPolicy | undefined;
+        let templateBudget: BudgetLimits | undefined;
+        let templateTriggers: FileTrigger[] = [];
+        let templateMounts: SandboxMountPolicy | undefined;
+        let worktreeBranch = typeof options.worktree === 'string' ? options.worktree : options.worktree ? defaultWorktreeBranch(name) : undefined;
 
         if (options.template) {
           if (!templateManager) {
@@ -63,6 +98,18 @@ export function registerStartCommand(
             if (!options.sandboxImage && template.sandboxImage) {
               options.sandboxImage = template.sandboxImage;
             }
+            if (template.sandboxMounts) {
+              templateMounts = template.sandboxMounts;
+            }
+            if (template.budget) {
+              templateBudget = template.budget;
+            }
+            if (template.fileTriggers) {
+              templateTriggers = template.fileTriggers;
+            }
+            if (!worktreeBranch && template.worktree) {
+              worktreeBranch = defaultWorktreeBranch(name);
+            }
           } catch (e) {
             if (e instanceof TemplateNotFoundError) {
               console.error(`Error: ${e.message}`);
@@ -109,12 +156,57 @@ export function registerStartCommand(
           return;
         }
 
-        if (options.provider && !['claude', 'gemini', 'ollama', 'openai-compat'].includes(options.provider)) {
-          console.error('Error: --provider must be claude, gemini, ollama, or openai-compat');
+        if (options.providerUrl && !/^https?:\/\/[^/]/.test(options.providerUrl)) {
+          console.error('Error: --provider-url must be an http:// or https:// URL');
           process.exitCode = 1;
           return;
         }
 
+        // Unknown providers and broken providers.json entries fail before anything is set up
+        if (options.provider) {
+          if (providerRegistry) {
+            await providerRegistry.create(options.provider, { modelName: options.model });
+          } else {
+            createProvider(options.provider);
+          }
+        }
+
+        const flagBudget = parseBudgetFlags(options);
+        if (flagBudget && 'error' in flagBudget) {
+          console.error(`Error: ${flagBudget.error}`);
+          process.exitCode = 1;
+          return;
+        }
+        // Individual budget flags override the template's limits
+        const budget = templateBudget || flagBudget ? { ...templateBudget, ...flagBudget } : undefined;
+
+        const resourceLimits = parseResourceLimitFlags(options);
+        if (resourceLimits && 'error' in resourceLimits) {
+          console.error(`Error: ${resourceLimits.error}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        options.sandboxEgress.forEach(parseEgressRule);
+
+        // Mount flags add to the template's policy
+        const sandboxMounts = mergeMountPolicies(templateMounts, parseMountFlags(options));
+        if (sandboxMounts) {
+          parseMountPolicy(sandboxMounts, workingDirectory);
+        }
+
+        // --on-change triggers are added to the template's
+        const fileTriggers = [...templateTriggers, ...options.onChange.map(parseFileTriggerFlag)];
+        // Only the daemon watches for triggers; this command exits once the session is up
+        if (!daemon && options.onChange.length > 0) {
+          console.error('Error: --on-change needs the daemon; start it first with `agentspawn daemon start --detach`');
+          process.exitCode = 1;
+          return;
+        }
+        if (!daemon && fileTriggers.length > 0) {
+          console.warn(`Warning: Template "${options.template}" has file triggers; they only run once the daemon takes the session over`);
+        }
+
         // Build restart policy: merge template defaults with CLI flags
         const restartPolicy: RestartPolicy = {
           enabled: true,
@@ -125,7 +217,22 @@ export function registerStartCommand(
           replayPrompt: true,
         };
 
-        const session = await manager.startSession({
+        let worktree: SessionWorktree | undefined;
+        if (worktreeBranch) {
+          if (!worktreeManager) {
+            console.error('Error: Worktree support is not available.');
+            process.exitCode = 2;
+            return;
+          }
+          // Checked before the worktree exists, so a clash leaves nothing behind
+          if ((daemon ? await daemon.listSessions() : manager.listSessions()).some((s) => s.name === name)) {
+            throw new SessionAlreadyExistsError(name);
+          }
+          ({ worktree, workingDirectory } = await worktreeManager.create(workingDirectory, name, worktreeBranch));
+          console.log(`Worktree ${worktree.path} on branch "${worktree.branch}"`);
+        }
+
+        const config: SessionConfig = {
           name,
           workingDirectory,
           permissionMode,
@@ -137,12 +244,33 @@ export function registerStartCommand(
           sandboxImage: options.sandboxImage,
           sandboxMemoryLimit: options.sandboxMemory,
           sandboxCpuLimit: options.sandboxCpu ? parseFloat(options.sandboxCpu) : undefined,
+          sandboxEgress: options.sandboxEgress.length > 0 ? options.sandboxEgress : undefined,
+          sandboxMounts,
+          sandboxTrace: options.sandboxTrace,
           provider: options.provider as ProviderType | undefined,
           modelName: options.model,
-        });
-        console.log(formatStatusLine(session.getInfo()));
+          providerUrl: options.providerUrl,
+          budget,
+          resourceLimits,
+          fileTriggers: fileTriggers.length > 0 ? fileTriggers : undefined,
+          worktree,
+        };
+
+        // With a daemon running, it owns the session so other shells share it
+        let info;
+        try {
+          info = daemon
+            ? await daemon.startSession(config)
+            : (await manager.startSession(config)).getInfo();
+        } catch (e) {
+          if (worktree) {
+            await worktreeManager!.remove(worktree, worktree.createdBranch ? 'force' : false).catch(() => { /* best effort */ });
+          }
+          throw e;
+        }
+        console.log(formatStatusLine(info));
       } catch (e) {
-        if (e instanceof SessionAlreadyExistsError || e instanceof SpawnFailedError) {
+        if (e instanceof SessionAlreadyExistsError || e instanceof SpawnFailedError || e instanceof InvalidFileTriggerError || e instanceof InvalidEgressRuleError || e instanceof InvalidMountPolicyError || e instanceof WorktreeError || e instanceof UnknownProviderError || e instanceof InvalidProviderSpecError) {
           console.error(`Error: ${e.message}`);
           process.exitCode = 1;
           return;
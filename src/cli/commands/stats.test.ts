@@ -173,3 +173,152 @@ describe('stats command', () => {
     expect(output).toMatch(/\d+m|\d+s/);
   });
 });
+
+describe('stats command (daemon mode)', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('reads info and live metrics from the daemon instead of the local manager', async () => {
+    const daemon = {
+      getSessionInfo: vi.fn().mockResolvedValue({
+        name: 'shared',
+        state: SessionState.Running,
+        workingDirectory: '/tmp/shared',
+        startedAt: new Date(),
+        promptCount: 7,
+        pid: 0,
+        exitCode: null,
+      }),
+      getMetrics: vi.fn().mockResolvedValue({
+        promptCount: 7,
+        avgResponseTimeMs: 2000,
+        totalResponseChars: 1000,
+        estimatedTokens: 250,
+        uptimeMs: 10_000,
+      }),
+    } as unknown as import('../../core/daemon-client.js').DaemonClient;
+
+    const program = new Command();
+    program.exitOverride();
+    registerStatsCommand(program, mockManager, daemon);
+    await program.parseAsync(['node', 'agentspawn', 'stats', 'shared']);
+
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+    expect(output).toContain('shared');
+    expect(output).toContain('2.0s');
+    expect(mockGetSession).not.toHaveBeenCalled();
+    expect(mockListSessions).not.toHaveBeenCalled();
+  });
+});
+
+describe('stats command (usage ledger)', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('shows lifetime tokens and cost from the ledger instead of the estimate', async () => {
+    mockListSessions.mockReturnValue([
+      {
+        name: 'billed',
+        state: SessionState.Running,
+        workingDirectory: '/tmp/billed',
+        startedAt: new Date(),
+        promptCount: 2,
+        pid: 0,
+        exitCode: null,
+      },
+    ]);
+    mockGetSession.mockReturnValue({
+      getMetrics: vi.fn().mockReturnValue({
+        promptCount: 2,
+        avgResponseTimeMs: 1000,
+        totalResponseChars: 400,
+        estimatedTokens: 100,
+        uptimeMs: 5000,
+      }),
+    });
+    const usageStore = {
+      query: vi.fn().mockResolvedValue([
+        { sessionName: 'billed', timestamp: '2026-03-01T00:00:00.000Z', inputTokens: 1500, outputTokens: 200, cacheCreationInputTokens: 10, cacheReadInputTokens: 8000, costUsd: 0.25 },
+        { sessionName: 'billed', timestamp: '2026-03-02T00:00:00.000Z', inputTokens: 500, outputTokens: 100, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0.5 },
+      ]),
+    } as unknown as import('../../core/usage.js').UsageStore;
+
+    const program = new Command();
+    program.exitOverride();
+    registerStatsCommand(program, mockManager, undefined, usageStore);
+    await program.parseAsync(['node', 'agentspawn', 'stats', 'billed']);
+
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+    expect(usageStore.query).toHaveBeenCalledWith({ sessionName: 'billed' });
+    expect(output).toContain('2,000');   // input tokens
+    expect(output).toContain('300');     // output tokens
+    expect(output).toContain('8,000 / 10');
+    expect(output).toContain('$0.75');
+    expect(output).not.toContain('Est. Tokens');
+  });
+
+  it('shows resource gauges against soft limits and the last prompt\'s usage', async () => {
+    mockListSessions.mockReturnValue([
+      {
+        name: 'busy',
+        state: SessionState.Running,
+        workingDirectory: '/tmp/busy',
+        startedAt: new Date(),
+        promptCount: 2,
+        pid: 42,
+        exitCode: null,
+      },
+    ]);
+    mockGetSession.mockReturnValue({
+      getMetrics: vi.fn().mockReturnValue({
+        promptCount: 2,
+        avgResponseTimeMs: 1000,
+        totalResponseChars: 400,
+        estimatedTokens: 100,
+        uptimeMs: 5000,
+        resources: {
+          current: { cpuPercent: 75, memoryBytes: 512 * 1024 ** 2, diskWriteBytes: 2048, sampledAt: '2026-03-01T00:00:00.000Z' },
+          limits: { cpuPercent: 150, memoryBytes: 1024 ** 3 },
+          turns: [
+            {
+              prompt: 1,
+              startedAt: '2026-03-01T00:00:00.000Z',
+              durationMs: 4000,
+              samples: 4,
+              cpuPercent: { peak: 180, avg: 90 },
+              memoryBytes: { peak: 1536 * 1024 ** 2, avg: 1024 ** 3 },
+              diskWriteBytes: 10 * 1024 ** 2,
+              exceeded: ['cpu', 'memory'],
+            },
+          ],
+        },
+      }),
+    });
+
+    const program = makeProgram();
+    await program.parseAsync(['node', 'agentspawn', 'stats', 'busy']);
+
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+    expect(output).toContain('[##########----------] 75% (warn at 150%)');
+    expect(output).toContain('[##########----------] 512.0 MB (warn at 1.00 GB)');
+    expect(output).toMatch(/Disk Written: +2\.00 KB/);
+    expect(output).toContain('Last Prompt (#1):');
+    expect(output).toContain('CPU 180% peak / 90% avg · Memory 1.50 GB peak / 1.00 GB avg · Disk 10.0 MB (over cpu, memory limit)');
+  });
+});
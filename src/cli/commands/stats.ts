@@ -1,6 +1,11 @@
 import { Command } from 'commander';
 import { SessionManager } from '../../core/manager.js';
 import { SessionState } from '../../types.js';
+import type { ResourceTurnUsage, SessionInfo, SessionMetrics, SessionResourceMetrics, UsageSummary } from '../../types.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+import { UsageStore, totalUsage } from '../../core/usage.js';
+import { RESOURCE_SAMPLE_INTERVAL_MS } from '../../core/resource-monitor.js';
+import { formatBytes, formatCost, formatGauge } from '../../io/formatter.js';
 
 function formatUptime(ms: number): string {
   if (ms <= 0) return '0s';
@@ -24,59 +29,145 @@ function formatNumber(n: number): string {
   return n.toLocaleString('en-US');
 }
 
+/** Live gauges for the prompt in progress, then what recent prompts used. */
+function formatResources(resources: SessionResourceMetrics): string[] {
+  const { current, turns, limits } = resources;
+  const lines: string[] = [];
+  if (current) {
+    const cpuMax = limits?.cpuPercent ?? 100;
+    lines.push(`CPU:                 ${formatGauge(current.cpuPercent, cpuMax)} ${Math.round(current.cpuPercent)}%${limits?.cpuPercent ? ` (warn at ${limits.cpuPercent}%)` : ''}`);
+    lines.push(limits?.memoryBytes
+      ? `Memory:              ${formatGauge(current.memoryBytes, limits.memoryBytes)} ${formatBytes(current.memoryBytes)} (warn at ${formatBytes(limits.memoryBytes)})`
+      : `Memory:              ${formatBytes(current.memoryBytes)}`);
+    lines.push(limits?.diskWriteBytes
+      ? `Disk Written:        ${formatGauge(current.diskWriteBytes, limits.diskWriteBytes)} ${formatBytes(current.diskWriteBytes)} (warn at ${formatBytes(limits.diskWriteBytes)})`
+      : `Disk Written:        ${formatBytes(current.diskWriteBytes)}`);
+  }
+  const last = turns[turns.length - 1];
+  if (last) {
+    lines.push(`${`Last Prompt (#${last.prompt}):`.padEnd(21)}${formatTurn(last)}`);
+  }
+  if (turns.length > 1) {
+    lines.push(`${`Peak (${turns.length} prompts):`.padEnd(21)}CPU ${Math.round(Math.max(...turns.map((t) => t.cpuPercent.peak)))}% · Memory ${formatBytes(Math.max(...turns.map((t) => t.memoryBytes.peak)))} · Disk ${formatBytes(Math.max(...turns.map((t) => t.diskWriteBytes)))}`);
+  }
+  return lines;
+}
+
+function formatTurn(turn: ResourceTurnUsage): string {
+  const warned = turn.exceeded.length > 0 ? ` (over ${turn.exceeded.join(', ')} limit)` : '';
+  return `CPU ${Math.round(turn.cpuPercent.peak)}% peak / ${Math.round(turn.cpuPercent.avg)}% avg · Memory ${formatBytes(turn.memoryBytes.peak)} peak / ${formatBytes(turn.memoryBytes.avg)} avg · Disk ${formatBytes(turn.diskWriteBytes)}${warned}`;
+}
+
 export function registerStatsCommand(
   program: Command,
   manager: SessionManager,
+  daemon?: DaemonClient | null,
+  usageStore?: UsageStore,
 ): void {
   program
     .command('stats <name>')
     .description('Show resource metrics for a session')
     .option('--json', 'Output as JSON')
-    .action(async (name: string, options: { json?: boolean }) => {
-      const session = manager.getSession(name);
-      const sessions = manager.listSessions();
-      const info = sessions.find((s) => s.name === name);
-
-      if (!info) {
-        console.error(`Error: Session '${name}' not found.`);
-        process.exitCode = 1;
+    .option('-w, --watch', 'Redraw every second, with live resource gauges, until Ctrl+C')
+    .action(async (name: string, options: { json?: boolean; watch?: boolean }) => {
+      if (!options.watch || options.json) {
+        await showStats(name, options);
         return;
       }
 
-      if (options.json) {
-        const output: Record<string, unknown> = { ...info };
-        if (session) {
-          const metrics = session.getMetrics();
-          Object.assign(output, { metrics });
-        }
-        console.log(JSON.stringify(output, null, 2));
-        return;
+      if (!(await showStats(name, options))) return;
+      await new Promise<void>((resolve) => {
+        const timer = setInterval(() => {
+          process.stdout.write('\x1b[2J\x1b[H');
+          showStats(name, options).then((found) => {
+            if (!found) finish();
+          }, finish);
+        }, RESOURCE_SAMPLE_INTERVAL_MS);
+        const finish = (): void => {
+          clearInterval(timer);
+          resolve();
+        };
+        process.once('SIGINT', finish);
+      });
+    });
+
+  /** Print the stats of a session; false if it does not exist. */
+  async function showStats(name: string, options: { json?: boolean }): Promise<boolean> {
+    let info: SessionInfo | undefined;
+    let metrics: SessionMetrics | null = null;
+
+    if (daemon) {
+      info = await daemon.getSessionInfo(name);
+      metrics = info ? await daemon.getMetrics(name) : null;
+    } else {
+      const session = manager.getSession(name);
+      info = manager.listSessions().find((s) => s.name === name);
+      metrics = session ? session.getMetrics() : null;
+    }
+
+    if (!info) {
+      console.error(`Error: Session '${name}' not found.`);
+      process.exitCode = 1;
+      return false;
+    }
+
+    // Lifetime totals from the ledger survive restarts; live metrics only
+    // cover the current process
+    const records = usageStore ? await usageStore.query({ sessionName: name }) : [];
+    const usage: UsageSummary | null = records.length > 0 ? totalUsage(records, name) : null;
+
+    if (options.json) {
+      const output: Record<string, unknown> = { ...info };
+      if (metrics) {
+        Object.assign(output, { metrics });
+      }
+      if (usage) {
+        Object.assign(output, { usage });
       }
+      console.log(JSON.stringify(output, null, 2));
+      return true;
+    }
 
-      // Human-readable output
-      const stateLabel = info.state === SessionState.Running ? 'running'
-        : info.state === SessionState.Stopped ? 'stopped'
-        : 'crashed';
+    // Human-readable output
+    const stateLabel = info.state === SessionState.Running ? 'running'
+      : info.state === SessionState.Stopped ? 'stopped'
+      : 'crashed';
 
-      console.log(`Session:             ${info.name}`);
-      console.log(`State:               ${stateLabel}`);
+    console.log(`Session:             ${info.name}`);
+    console.log(`State:               ${stateLabel}`);
 
-      if (session) {
-        const metrics = session.getMetrics();
-        console.log(`Prompts:             ${metrics.promptCount}`);
-        console.log(`Avg Response Time:   ${formatResponseTime(metrics.avgResponseTimeMs)}`);
-        console.log(`Total Response Chars:${formatNumber(metrics.totalResponseChars)}`);
+    if (metrics) {
+      console.log(`Prompts:             ${metrics.promptCount}`);
+      console.log(`Avg Response Time:   ${formatResponseTime(metrics.avgResponseTimeMs)}`);
+      console.log(`Total Response Chars:${formatNumber(metrics.totalResponseChars)}`);
+      if (!usage && !metrics.usage) {
         console.log(`Est. Tokens:         ~${formatNumber(metrics.estimatedTokens)}`);
-        console.log(`Uptime:              ${formatUptime(metrics.uptimeMs)}`);
-      } else {
-        console.log(`Prompts:             ${info.promptCount}`);
-        console.log(`Avg Response Time:   n/a`);
-        console.log(`Total Response Chars:n/a`);
+      }
+      console.log(`Uptime:              ${formatUptime(metrics.uptimeMs)}`);
+    } else {
+      console.log(`Prompts:             ${info.promptCount}`);
+      console.log(`Avg Response Time:   n/a`);
+      console.log(`Total Response Chars:n/a`);
+      if (!usage) {
         console.log(`Est. Tokens:         n/a`);
-        const uptimeMs = info.startedAt ? Date.now() - new Date(info.startedAt).getTime() : 0;
-        console.log(`Uptime:              ${formatUptime(uptimeMs)}`);
       }
+      const uptimeMs = info.startedAt ? Date.now() - new Date(info.startedAt).getTime() : 0;
+      console.log(`Uptime:              ${formatUptime(uptimeMs)}`);
+    }
 
-      console.log(`Working Dir:         ${info.workingDirectory}`);
-    });
+    const tokens = usage ?? (metrics?.usage ? { ...metrics.usage, costUsd: metrics.costUsd ?? 0 } : null);
+    if (tokens) {
+      console.log(`Input Tokens:        ${formatNumber(tokens.inputTokens)}`);
+      console.log(`Output Tokens:       ${formatNumber(tokens.outputTokens)}`);
+      console.log(`Cache Read/Write:    ${formatNumber(tokens.cacheReadInputTokens ?? 0)} / ${formatNumber(tokens.cacheCreationInputTokens ?? 0)}`);
+      console.log(`Cost:                ${formatCost(tokens.costUsd)}`);
+    }
+
+    if (metrics?.resources) {
+      for (const line of formatResources(metrics.resources)) console.log(line);
+    }
+
+    console.log(`Working Dir:         ${info.workingDirectory}`);
+    return true;
+  }
 }
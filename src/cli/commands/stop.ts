@@ -1,33 +1,111 @@
 import { Command } from 'commander';
+import { createInterface } from 'node:readline/promises';
 import { SessionManager } from '../../core/manager.js';
 import { Router } from '../../io/router.js';
-import { SessionNotFoundError } from '../../utils/errors.js';
+import { SessionNotFoundError, WorktreeError } from '../../utils/errors.js';
+import { WORKTREE_STOP_ACTIONS, WorktreeManager } from '../../core/worktree.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+import type { SessionWorktree, WorktreeStopAction } from '../../types.js';
+
+/** Ask what to do with a stopped session's worktree; anything unrecognised keeps it. */
+async function askWorktreeAction(sessionName: string, worktree: SessionWorktree): Promise<WorktreeStopAction> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = (await rl.question(
+      `Session "${sessionName}" worked on branch "${worktree.branch}" in ${worktree.path}.\n` +
+        `[k]eep it, [m]erge it into "${worktree.baseBranch}", or [d]iscard it? [keep] `,
+    )).trim().toLowerCase();
+    return WORKTREE_STOP_ACTIONS.find((action) => answer !== '' && action.startsWith(answer)) ?? 'keep';
+  } finally {
+    rl.close();
+  }
+}
+
+async function finishWorktree(
+  worktreeManager: WorktreeManager,
+  sessionName: string,
+  worktree: SessionWorktree,
+  action: WorktreeStopAction,
+): Promise<void> {
+  try {
+    await worktreeManager.finish(worktree, action);
+  } catch (e) {
+    if (!(e instanceof WorktreeError)) throw e;
+    // The session is already stopped; leave the worktree for the user to sort out
+    console.error(`Error: ${e.message}`);
+    console.error(`Worktree kept at ${worktree.path}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (action === 'keep') {
+    console.log(`Kept worktree ${worktree.path} (branch "${worktree.branch}")`);
+  } else if (action === 'merge') {
+    console.log(`Merged branch "${worktree.branch}" into "${worktree.baseBranch}" and removed the worktree`);
+  } else {
+    console.log(`Discarded worktree ${worktree.path} and branch "${worktree.branch}"`);
+  }
+}
 
 export function registerStopCommand(
   program: Command,
   manager: SessionManager,
-   
+
   _router: Router,
+  daemon?: DaemonClient | null,
+  worktreeManager?: WorktreeManager,
 ): void {
   program
     .command('stop [name]')
     .description('Stop an agent session')
     .option('--all', 'Stop all sessions')
     .option('--tag <tag>', 'Stop all sessions with this tag (repeatable)', (val: string, acc: string[]) => [...acc, val], [] as string[])
-    .action(async (name: string | undefined, options: { all?: boolean; tag: string[] }) => {
+    .option('--worktree <action>', `What to do with the session's git worktree: ${WORKTREE_STOP_ACTIONS.join(', ')} (default: ask, or keep when not interactive)`)
+    .action(async (name: string | undefined, options: { all?: boolean; tag: string[]; worktree?: string }) => {
+      if (options.worktree !== undefined && !(WORKTREE_STOP_ACTIONS as string[]).includes(options.worktree)) {
+        console.error(`Error: --worktree must be one of ${WORKTREE_STOP_ACTIONS.join(', ')}`);
+        process.exitCode = 1;
+        return;
+      }
+      const flagAction = options.worktree as WorktreeStopAction | undefined;
+
+      // Worktrees are read from the registry before the sessions leave it
+      const worktrees = new Map<string, SessionWorktree>();
+      if (worktreeManager) {
+        for (const entry of Object.values((await manager.registry.load()).sessions)) {
+          if (entry.worktree) worktrees.set(entry.name, entry.worktree);
+        }
+      }
+      const finishAll = async (names: string[]): Promise<void> => {
+        for (const sessionName of names) {
+          const worktree = worktrees.get(sessionName);
+          if (worktree) await finishWorktree(worktreeManager!, sessionName, worktree, flagAction ?? 'keep');
+        }
+      };
+
       try {
         if (options.all) {
-          const count = manager.listSessions().length;
-          await manager.stopAll();
+          let count: number;
+          const names = [...worktrees.keys()];
+          if (daemon) {
+            count = await daemon.stopAll();
+          } else {
+            count = manager.listSessions().length;
+            await manager.stopAll();
+          }
           console.log(`Stopped ${count} session(s).`);
+          await finishAll(names);
           return;
         }
         if (options.tag.length > 0) {
           let total = 0;
+          const tagged = (daemon ? await daemon.listSessions() : manager.listSessions())
+            .filter((s) => s.tags?.some((tag) => options.tag.includes(tag)))
+            .map((s) => s.name);
           for (const tag of options.tag) {
-            total += await manager.stopByTag(tag);
+            total += daemon ? await daemon.stopByTag(tag) : await manager.stopByTag(tag);
           }
           console.log(`Stopped ${total} session(s).`);
+          await finishAll(tagged);
           return;
         }
         if (!name) {
@@ -35,8 +113,18 @@ export function registerStopCommand(
           process.exitCode = 1;
           return;
         }
-        await manager.stopSession(name);
+        if (daemon) {
+          await daemon.stopSession(name);
+        } else {
+          await manager.stopSession(name);
+        }
         console.log(`Stopped session: ${name}`);
+
+        const worktree = worktrees.get(name);
+        if (worktree) {
+          const action = flagAction ?? (process.stdin.isTTY ? await askWorktreeAction(name, worktree) : 'keep');
+          await finishWorktree(worktreeManager!, name, worktree, action);
+        }
       } catch (e) {
         if (e instanceof SessionNotFoundError) {
           console.error(`Error: ${e.message}`);
@@ -159,6 +159,68 @@ describe('template command', () => {
       expect(mockManager.create).not.toHaveBeenCalled();
     });
 
+    it('should parse repeatable --on-change <glob>=<prompt> triggers', async () => {
+      await runCommand(program, [
+        'template', 'create', 'my-tpl',
+        '--on-change', 'reports/*.xml=tests failed in {{file}}, fix them',
+        '--on-change', 'src/**/*.ts=review {{files}}',
+      ]);
+
+      expect(mockManager.create).toHaveBeenCalledWith('my-tpl', expect.objectContaining({
+        fileTriggers: [
+          { glob: 'reports/*.xml', prompt: 'tests failed in {{file}}, fix them' },
+          { glob: 'src/**/*.ts', prompt: 'review {{files}}' },
+        ],
+      }));
+    });
+
+    it('should record --worktree on the template', async () => {
+      await runCommand(program, ['template', 'create', 'my-tpl', '--worktree']);
+
+      expect(mockManager.create).toHaveBeenCalledWith('my-tpl', expect.objectContaining({ worktree: true }));
+    });
+
+    it('should record repeatable sandbox mount flags as a mount policy', async () => {
+      await runCommand(program, [
+        'template', 'create', 'my-tpl',
+        '--sandbox-writable', '~/.npm',
+        '--sandbox-writable', '~/.cache/pip',
+        '--sandbox-deny', '~/.aws',
+      ]);
+
+      expect(mockManager.create).toHaveBeenCalledWith('my-tpl', expect.objectContaining({
+        sandboxMounts: { writable: ['~/.npm', '~/.cache/pip'], deny: ['~/.aws'] },
+      }));
+    });
+
+    it('should record --sandbox-image on the template', async () => {
+      await runCommand(program, ['template', 'create', 'my-tpl', '--sandbox-image', 'agentspawn-sandbox:0123456789ab']);
+
+      expect(mockManager.create).toHaveBeenCalledWith('my-tpl', expect.objectContaining({
+        sandboxImage: 'agentspawn-sandbox:0123456789ab',
+      }));
+    });
+
+    it('should error on an invalid mount policy', async () => {
+      await runCommand(program, ['template', 'create', 'my-tpl', '--sandbox-read-only', 'relative/dir']);
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid sandbox mount policy: "relative/dir" must be an absolute path or start with ~'),
+      );
+      expect(process.exitCode).toBe(1);
+      expect(mockManager.create).not.toHaveBeenCalled();
+    });
+
+    it('should error on an invalid --on-change trigger', async () => {
+      await runCommand(program, ['template', 'create', 'my-tpl', '--on-change', 'reports/*.xml']);
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid file trigger: "reports/*.xml" must look like <glob>=<prompt>'),
+      );
+      expect(process.exitCode).toBe(1);
+      expect(mockManager.create).not.toHaveBeenCalled();
+    });
+
     it('should handle TemplateAlreadyExistsError', async () => {
       mockManager.create.mockRejectedValue(
         new TemplateAlreadyExistsError('dup'),
@@ -3,7 +3,16 @@ import path from 'node:path';
 import { TemplateManager } from '../../core/template.js';
 import { SessionManager } from '../../core/manager.js';
 import { formatTemplateTable } from '../../io/formatter.js';
+import { addBudgetOptions, parseBudgetFlags } from '../budget-options.js';
+import type { BudgetFlags } from '../budget-options.js';
+import { addMountOptions, parseMountFlags } from '../mount-options.js';
+import type { MountFlags } from '../mount-options.js';
+import { parseMountPolicy } from '../../core/sandbox-mounts.js';
+import { parseFileTriggerFlag } from '../../core/file-trigger.js';
+import type { FileTrigger } from '../../types.js';
 import {
+  InvalidFileTriggerError,
+  InvalidMountPolicyError,
   TemplateAlreadyExistsError,
   TemplateNotFoundError,
   SessionNotFoundError,
@@ -18,7 +27,7 @@ export function registerTemplateCommand(
     .command('template')
     .description('Manage session templates');
 
-  tpl
+  addMountOptions(addBudgetOptions(tpl
     .command('create <name>')
     .description('Create a new session template')
     .option('-d, --dir <path>', 'Default working directory')
@@ -30,6 +39,14 @@ export function registerTemplateCommand(
     .option('-e, --env <pairs...>', 'Environment variables as KEY=VALUE pairs')
     .option('--restart-enabled', 'Enable automatic restart on crash')
     .option('--restart-max-retries <count>', 'Maximum number of restart attempts', '3')
+    .option(
+      '--on-change <glob=prompt>',
+      'Send a prompt when matching files change, e.g. "reports/*.xml=tests failed in {{file}}, fix them" (repeatable)',
+      (val: string, acc: string[]) => [...acc, val],
+      [] as string[],
+    )
+    .option('--worktree', 'Start each session in its own git worktree on an agentspawn/<session> branch')
+    .option('--sandbox-image <image>', 'Docker/Podman image for sessions, e.g. one from `agentspawn sandbox image build`')))
     .action(
       async (
         name: string,
@@ -40,7 +57,10 @@ export function registerTemplateCommand(
           env?: string[];
           restartEnabled?: boolean;
           restartMaxRetries?: string;
-        },
+          onChange: string[];
+          worktree?: boolean;
+          sandboxImage?: string;
+        } & BudgetFlags & MountFlags,
       ) => {
         try {
           let env: Record<string, string> | undefined;
@@ -75,16 +95,36 @@ export function registerTemplateCommand(
             };
           }
 
+          const budget = parseBudgetFlags(options);
+          if (budget && 'error' in budget) {
+            console.error(`Error: ${budget.error}`);
+            process.exitCode = 1;
+            return;
+          }
+
+          const fileTriggers: FileTrigger[] = options.onChange.map(parseFileTriggerFlag);
+
+          // Checked again against each session's working directory at start
+          const sandboxMounts = parseMountFlags(options);
+          if (sandboxMounts) {
+            parseMountPolicy(sandboxMounts);
+          }
+
           await templateManager.create(name, {
             workingDirectory: options.dir ? path.resolve(options.dir) : undefined,
             permissionMode: options.permissionMode,
             systemPrompt: options.systemPrompt,
             env,
             restartPolicy,
+            budget,
+            fileTriggers: fileTriggers.length > 0 ? fileTriggers : undefined,
+            worktree: options.worktree,
+            sandboxImage: options.sandboxImage,
+            sandboxMounts,
           });
           console.log(`Template "${name}" created`);
         } catch (e) {
-          if (e instanceof TemplateAlreadyExistsError) {
+          if (e instanceof TemplateAlreadyExistsError || e instanceof InvalidFileTriggerError || e instanceof InvalidMountPolicyError) {
             console.error(`Error: ${e.message}`);
             process.exitCode = 1;
             return;
@@ -118,6 +158,11 @@ export function registerTemplateCommand(
           workingDirectory: registryEntry.workingDirectory,
           permissionMode: registryEntry.permissionMode,
           restartPolicy: registryEntry.restartPolicy,
+          budget: registryEntry.budget,
+          fileTriggers: registryEntry.fileTriggers,
+          worktree: registryEntry.worktree ? true : undefined,
+          sandboxImage: registryEntry.sandboxImage,
+          sandboxMounts: registryEntry.sandboxMounts,
         });
 
         console.log(`Template "${templateName}" created from session "${sessionName}"`);
@@ -2,6 +2,8 @@ import { Command } from 'commander';
 import { SessionManager } from '../../core/manager.js';
 import type { HistoryStore } from '../../core/history.js';
 import type { TemplateManager } from '../../core/template.js';
+import type { CheckpointStore } from '../../core/checkpoint.js';
+import type { SandboxDiffStore } from '../../core/sandbox-diff.js';
 import { Router } from '../../io/router.js';
 import { launchTUI } from '../../tui/index.js';
 import { logger } from '../../utils/logger.js';
@@ -12,6 +14,8 @@ export function registerTUICommand(
   router: Router,
   historyStore?: HistoryStore,
   templateManager?: TemplateManager,
+  checkpointStore?: CheckpointStore,
+  sandboxDiffStore?: SandboxDiffStore,
 ): void {
   program
     .command('tui')
@@ -24,6 +28,8 @@ export function registerTUICommand(
           initialSession: options.session,
           historyStore,
           templateManager,
+          checkpointStore,
+          sandboxDiffStore,
         });
 
         // Handle process signals for graceful shutdown
@@ -0,0 +1,68 @@
+import { Command } from 'commander';
+import { WorkspaceManager } from '../../core/workspace.js';
+import {
+  UsageStore,
+  USAGE_GROUP_BY,
+  parseUsageTime,
+  summarizeUsage,
+  totalUsage,
+} from '../../core/usage.js';
+import type { UsageQuery } from '../../core/usage.js';
+import type { UsageGroupBy } from '../../types.js';
+import { formatUsageTable } from '../../io/formatter.js';
+
+/**
+ * Register the `usage` command.
+ *
+ * Usage: agentspawn usage [--by session|tag|workspace|day] [--session <name>]
+ *                         [--since <when>] [--until <when>] [--json]
+ *
+ * Reports provider-reported token usage and cost from the usage ledger.
+ */
+export function registerUsageCommand(
+  program: Command,
+  usageStore: UsageStore,
+  workspaceManager: WorkspaceManager,
+): void {
+  program
+    .command('usage')
+    .description('Report token usage and cost per session, tag, workspace or day')
+    .option('-b, --by <group>', `Group by ${USAGE_GROUP_BY.join(', ')}`, 'session')
+    .option('-s, --session <name>', 'Only include one session')
+    .option('--since <when>', 'Only include turns since an ISO date or a relative time like 7d or 12h')
+    .option('--until <when>', 'Only include turns before an ISO date or a relative time')
+    .option('--json', 'Output as JSON')
+    .action(async (opts: { by: string; session?: string; since?: string; until?: string; json?: boolean }) => {
+      if (!(USAGE_GROUP_BY as readonly string[]).includes(opts.by)) {
+        console.error(`Error: --by must be one of ${USAGE_GROUP_BY.join(', ')}.`);
+        process.exitCode = 1;
+        return;
+      }
+      const groupBy = opts.by as UsageGroupBy;
+
+      const query: UsageQuery = { sessionName: opts.session };
+      for (const bound of ['since', 'until'] as const) {
+        const value = opts[bound];
+        if (value === undefined) continue;
+        const time = parseUsageTime(value);
+        if (!time) {
+          console.error(`Error: --${bound} must be an ISO date or a relative time like 7d.`);
+          process.exitCode = 1;
+          return;
+        }
+        query[bound] = time;
+      }
+
+      const records = await usageStore.query(query);
+      const workspaces = groupBy === 'workspace' ? await workspaceManager.load() : undefined;
+      const rows = summarizeUsage(records, groupBy, workspaces);
+      const total = totalUsage(records);
+
+      if (opts.json) {
+        console.log(JSON.stringify({ groupBy, rows, total }, null, 2));
+        return;
+      }
+
+      console.log(formatUsageTable(rows, total, groupBy));
+    });
+}
@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import { DaemonClient } from '../../core/daemon-client.js';
+import { describeBudgetEvent, describeProviderEvent, describeResourceWarning } from '../../io/formatter.js';
+import type { BudgetEvent, ProviderEvent, ResourceWarningEvent } from '../../types.js';
+
+/**
+ * Register the `watch` command.
+ *
+ * Usage: agentspawn watch <session> [--once]
+ *
+ * Streams prompts and responses of a daemon-owned session as they happen,
+ * including prompts sent from other terminals. Requires a running daemon.
+ */
+export function registerWatchCommand(program: Command, daemon?: DaemonClient | null): void {
+  program
+    .command('watch <name>')
+    .description('Stream live prompt activity of a daemon-owned session')
+    .option('--once', 'Exit after the next prompt completes')
+    .action(async (name: string, options: { once?: boolean }) => {
+      if (!daemon) {
+        console.error('Error: watch requires a running daemon (start one with `agentspawn daemon start`).');
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        await daemon.subscribe(name);
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`Watching [${name}]... (Ctrl+C to stop)`);
+
+      await new Promise<void>((resolve) => {
+        const off = daemon.onEvent((event) => {
+          if (event.sessionName !== name) return;
+
+          switch (event.event) {
+            case 'promptStart':
+              console.log(`\n> ${String(event.data)}`);
+              break;
+            case 'data':
+              process.stdout.write(String(event.data));
+              break;
+            case 'promptComplete':
+              process.stdout.write('\n');
+              if (options.once) {
+                off();
+                resolve();
+              }
+              break;
+            case 'promptError': {
+              const message = (event.data as { message?: string } | null)?.message ?? 'unknown error';
+              console.error(`\nError: ${message}`);
+              if (options.once) {
+                process.exitCode = 1;
+                off();
+                resolve();
+              }
+              break;
+            }
+            case 'promptCancelled':
+              console.log('\n[cancelled]');
+              if (options.once) {
+                off();
+                resolve();
+              }
+              break;
+            case 'providerEvent': {
+              const line = describeProviderEvent(event.data as ProviderEvent);
+              if (line !== null) console.log(`\n  ▸ ${line}`);
+              break;
+            }
+            case 'budgetWarning':
+            case 'budgetExceeded':
+              console.log(`\n[${describeBudgetEvent(event.data as BudgetEvent, event.event === 'budgetExceeded')}]`);
+              break;
+            case 'resourceWarning':
+              console.log(`\n[${describeResourceWarning(event.data as ResourceWarningEvent)}]`);
+              break;
+            case 'crashed':
+              console.error(`\n[${name}] crashed`);
+              break;
+          }
+        });
+
+        process.once('SIGINT', () => {
+          off();
+          resolve();
+        });
+      });
+    });
+}
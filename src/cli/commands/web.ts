@@ -2,18 +2,55 @@ import { Command } from 'commander';
 import { SessionManager } from '../../core/manager.js';
 import { WebServer } from '../../web/server.js';
 import { HistoryStore } from '../../core/history.js';
+import { UsageStore } from '../../core/usage.js';
+import { WorkspaceManager } from '../../core/workspace.js';
+import { TemplateManager } from '../../core/template.js';
+import { WebTokenStore, WEB_TOKEN_SCOPES } from '../../core/web-tokens.js';
 import { DEFAULT_WEB_PORT } from '../../config/defaults.js';
+import { formatRelativeDate } from '../../io/formatter.js';
+import { WebTokenNotFoundError } from '../../utils/errors.js';
+import type { WebTokenEntry, WebTokenScope } from '../../types.js';
+
+const BOLD = '\x1b[1m';
+const RESET = '\x1b[0m';
+
+function formatTokenTable(tokens: WebTokenEntry[]): string {
+  const headers = ['ID', 'NAME', 'SCOPE', 'CREATED'];
+  const rows = tokens.map((t) => [t.id, t.name, t.scope, formatRelativeDate(t.createdAt)]);
+
+  const colWidths = headers.map((h, i) => {
+    const maxRow = rows.reduce((max, row) => Math.max(max, row[i].length), 0);
+    return Math.max(h.length, maxRow);
+  });
+
+  const pad = (str: string, width: number): string => str.padEnd(width);
+
+  const headerLine = headers
+    .map((h, i) => `${BOLD}${pad(h, colWidths[i])}${RESET}`)
+    .join('  ');
+
+  const bodyLines = rows.map((row) =>
+    row.map((cell, i) => pad(cell, colWidths[i])).join('  '),
+  );
+
+  return [headerLine, ...bodyLines].join('\n');
+}
 
 export function registerWebCommand(
   program: Command,
   manager: SessionManager,
   historyStore?: HistoryStore,
+  usageStore?: UsageStore,
+  workspaceManager?: WorkspaceManager,
+  tokenStore?: WebTokenStore,
+  templateManager?: TemplateManager,
 ): void {
-  program
+  const web = program
     .command('web')
     .description('Start the web dashboard')
     .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_WEB_PORT))
-    .action(async (options: { port: string }) => {
+    .option('--no-auth', 'Serve the API without bearer-token authentication')
+    .action(async (options: { port: string; auth: boolean }) => {
       const port = parseInt(options.port, 10);
       if (isNaN(port) || port < 1 || port > 65535) {
         console.error('Error: --port must be a valid port number (1-65535)');
@@ -21,7 +58,16 @@ export function registerWebCommand(
         return;
       }
 
-      const server = new WebServer(manager, port, historyStore);
+      const authStore = options.auth ? tokenStore : undefined;
+      const server = new WebServer(
+        manager,
+        port,
+        historyStore,
+        usageStore,
+        workspaceManager,
+        authStore,
+        templateManager,
+      );
 
       try {
         await server.start();
@@ -32,7 +78,12 @@ export function registerWebCommand(
         return;
       }
 
-      console.log(`Dashboard running at http://localhost:${port}`);
+      console.log(`Dashboard running at http://localhost:${port} (API at /api/v1)`);
+      if (!authStore) {
+        console.log('Warning: authentication is disabled; anyone who can reach this port can run prompts.');
+      } else if ((await authStore.list()).length === 0) {
+        console.log('No API tokens exist yet. Create one with: agentspawn web token create <name> --scope admin');
+      }
 
       // Keep process alive until Ctrl+C
       process.on('SIGINT', async () => {
@@ -45,4 +96,63 @@ export function registerWebCommand(
         process.exit(0);
       });
     });
+
+  if (!tokenStore) return;
+
+  const token = web
+    .command('token')
+    .description('Manage bearer tokens for the web API');
+
+  // web token create <name>
+  token
+    .command('create <name>')
+    .description('Create an API token (shown once)')
+    .option('-s, --scope <scope>', `Token scope: ${WEB_TOKEN_SCOPES.join(', ')}`, 'read-only')
+    .action(async (name: string, opts: { scope: string }) => {
+      if (!(WEB_TOKEN_SCOPES as readonly string[]).includes(opts.scope)) {
+        console.error(`Error: --scope must be one of ${WEB_TOKEN_SCOPES.join(', ')}.`);
+        process.exitCode = 1;
+        return;
+      }
+      const { entry, token: secret } = await tokenStore.create(name, opts.scope as WebTokenScope);
+      console.log(`Token '${entry.name}' created (id ${entry.id}, scope ${entry.scope}).`);
+      console.log('Copy it now; it cannot be shown again:');
+      console.log(secret);
+    });
+
+  // web token revoke <id>
+  token
+    .command('revoke <id>')
+    .description('Revoke an API token')
+    .action(async (id: string) => {
+      try {
+        await tokenStore.revoke(id);
+        console.log(`Token '${id}' revoked.`);
+      } catch (e) {
+        if (e instanceof WebTokenNotFoundError) {
+          console.error(`Error: ${e.message}`);
+          process.exitCode = 1;
+          return;
+        }
+        throw e;
+      }
+    });
+
+  // web token list
+  token
+    .command('list')
+    .description('List API tokens')
+    .option('--json', 'Output as JSON')
+    .action(async (opts: { json?: boolean }) => {
+      const tokens = await tokenStore.list();
+      if (opts.json) {
+        console.log(JSON.stringify(tokens.map(({ hash: _hash, ...rest }) => rest), null, 2));
+        return;
+      }
+      if (tokens.length === 0) {
+        console.log('No API tokens. Create one with: agentspawn web token create <name>');
+        return;
+      }
+      console.log(formatTokenTable(tokens));
+    });
 }
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Command } from 'commander';
+import { registerWorkflowCommand } from './workflow.js';
+import { WorkflowRunStore } from '../../core/workflow-runs.js';
+import type { SessionManager } from '../../core/manager.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+const WORKFLOW = `
+name: greet
+inputs:
+  who: null
+steps:
+  - id: hello
+    session: alpha
+    prompt: "Say hi to {{inputs.who}}"
+  - id: shout
+    session: alpha
+    prompt: "Shout: {{previous.response}}"
+`;
+
+async function runCommand(program: Command, args: string[]): Promise<void> {
+  await program.parseAsync(['node', 'agentspawn', ...args]);
+}
+
+describe('workflow command', () => {
+  let dir: string;
+  let file: string;
+  let program: Command;
+  let store: WorkflowRunStore;
+  let sendPrompt: ReturnType<typeof vi.fn>;
+  let logSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+  let savedExitCode: typeof process.exitCode;
+
+  beforeEach(async () => {
+    dir = path.join(os.tmpdir(), `agentspawn-workflow-cmd-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await fs.mkdir(dir, { recursive: true });
+    file = path.join(dir, 'greet.yaml');
+    await fs.writeFile(file, WORKFLOW, 'utf-8');
+
+    sendPrompt = vi.fn(async (prompt: string) => `<${prompt}>`);
+    const manager = { getSession: vi.fn(() => ({ sendPrompt })) };
+    store = new WorkflowRunStore(path.join(dir, 'runs'));
+
+    program = new Command();
+    program.exitOverride();
+    registerWorkflowCommand(program, manager as unknown as SessionManager, store);
+
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    savedExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    process.exitCode = savedExitCode;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function logged(): string {
+    return logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+  }
+
+  it('runs a workflow, printing each step and the final response', async () => {
+    await runCommand(program, ['workflow', 'run', file, '--input', 'who=bob']);
+
+    expect(sendPrompt).toHaveBeenNthCalledWith(2, 'Shout: <Say hi to bob>');
+    const out = logged();
+    expect(out).toContain('[hello] running on alpha');
+    expect(out).toContain('[shout] succeeded');
+    expect(out).toContain('<Shout: <Say hi to bob>>');
+    expect(out).toMatch(/Run \S+ succeeded/);
+    expect(process.exitCode).toBeUndefined();
+
+    const [run] = await store.list();
+    expect(run.status).toBe('succeeded');
+    expect(run.file).toBe(file);
+  });
+
+  it('prints the run as JSON with --json', async () => {
+    await runCommand(program, ['workflow', 'run', file, '-i', 'who=amy', '--json']);
+
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    const run = JSON.parse(logSpy.mock.calls[0][0] as string);
+    expect(run.steps.map((s: { status: string }) => s.status)).toEqual(['succeeded', 'succeeded']);
+  });
+
+  it('lists every problem of an invalid run request', async () => {
+    await runCommand(program, ['workflow', 'run', file]);
+
+    expect(errorSpy).toHaveBeenCalledWith(`Error: Invalid workflow ${file}:`);
+    expect(errorSpy).toHaveBeenCalledWith('  - input "who" is required');
+    expect(process.exitCode).toBe(1);
+    expect(sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed --input', async () => {
+    await runCommand(program, ['workflow', 'run', file, '--input', 'nope']);
+
+    expect(errorSpy).toHaveBeenCalledWith('Error: --input must be key=value, got "nope"');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('sets a failing exit code when a step fails', async () => {
+    sendPrompt.mockRejectedValueOnce(new Error('boom'));
+
+    await runCommand(program, ['workflow', 'run', file, '--input', 'who=bob']);
+
+    expect(logged()).toContain('[hello] failed: alpha: boom');
+    expect(logged()).toContain('[shout] skipped: an earlier step failed');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('validates a workflow file', async () => {
+    await runCommand(program, ['workflow', 'validate', file]);
+    expect(logSpy).toHaveBeenCalledWith('Workflow "greet" is valid: 2 step(s) across alpha');
+
+    const bad = path.join(dir, 'bad.yaml');
+    await fs.writeFile(bad, 'name: bad\nsteps: []\n', 'utf-8');
+    await runCommand(program, ['workflow', 'validate', bad]);
+    expect(errorSpy).toHaveBeenCalledWith('  - steps must be a non-empty list');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('reports a missing workflow file', async () => {
+    await runCommand(program, ['workflow', 'validate', path.join(dir, 'missing.yaml')]);
+    expect(errorSpy.mock.calls[0][0]).toMatch(/^Error: ENOENT/);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('shows run status as a table and in detail', async () => {
+    await runCommand(program, ['workflow', 'status']);
+    expect(logSpy).toHaveBeenCalledWith('No workflow runs.');
+
+    await runCommand(program, ['workflow', 'run', file, '--input', 'who=bob', '--json']);
+    const { id } = JSON.parse(logSpy.mock.calls.at(-1)![0] as string);
+    logSpy.mockClear();
+
+    await runCommand(program, ['workflow', 'status']);
+    expect(logged()).toMatch(new RegExp(`${id}\\s+greet\\s+succeeded\\s+2/2`));
+
+    logSpy.mockClear();
+    await runCommand(program, ['workflow', 'status', id]);
+    expect(logged()).toContain(`Run:      ${id}`);
+    expect(logged()).toContain('Inputs:   who=bob');
+    expect(logged()).toContain('    <Say hi to bob>');
+  });
+
+  it('reports an unknown run id', async () => {
+    await runCommand(program, ['workflow', 'status', 'nope']);
+    expect(errorSpy).toHaveBeenCalledWith('Error: Workflow run not found: nope');
+    expect(process.exitCode).toBe(1);
+  });
+});
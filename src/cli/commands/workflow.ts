@@ -0,0 +1,190 @@
+import { Command } from 'commander';
+import path from 'node:path';
+import { SessionManager } from '../../core/manager.js';
+import { WorkflowRunner, loadWorkflow, stepSessions } from '../../core/workflow.js';
+import { WorkflowRunStore } from '../../core/workflow-runs.js';
+import { WorkflowInvalidError, WorkflowRunNotFoundError } from '../../utils/errors.js';
+import type { WorkflowRun, WorkflowStepResult } from '../../types.js';
+import type { DaemonClient } from '../../core/daemon-client.js';
+
+function collectInput(value: string, acc: string[]): string[] {
+  return [...acc, value];
+}
+
+/** Parse repeated `--input key=value` flags. */
+function parseInputs(pairs: string[]): Record<string, string> | { error: string } {
+  const inputs: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) {
+      return { error: `--input must be key=value, got "${pair}"` };
+    }
+    inputs[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+  return inputs;
+}
+
+/** Print a load or input error; invalid workflows list each problem on its own line. */
+function reportError(e: unknown): boolean {
+  if (e instanceof WorkflowInvalidError) {
+    console.error(`Error: Invalid workflow ${e.source}:`);
+    for (const problem of e.problems) {
+      console.error(`  - ${problem}`);
+    }
+    process.exitCode = 1;
+    return true;
+  }
+  if ((e as NodeJS.ErrnoException).code === 'ENOENT' || e instanceof WorkflowRunNotFoundError) {
+    console.error(`Error: ${(e as Error).message}`);
+    process.exitCode = 1;
+    return true;
+  }
+  return false;
+}
+
+function formatStepLine(step: WorkflowStepResult): string {
+  switch (step.status) {
+    case 'running':
+      return `[${step.id}] running on ${step.sessions.join(', ')}`;
+    case 'skipped':
+      return `[${step.id}] skipped: ${step.skipReason}`;
+    case 'failed': {
+      const failures = step.results.filter((r) => r.status === 'failed');
+      return `[${step.id}] failed: ${failures.map((r) => `${r.sessionName}: ${r.error}`).join('; ')}`;
+    }
+    default:
+      return `[${step.id}] ${step.status}`;
+  }
+}
+
+function formatRunDetail(run: WorkflowRun): string {
+  const lines = [
+    `Run:      ${run.id}`,
+    `Workflow: ${run.workflow} (${run.file})`,
+    `Status:   ${run.status}`,
+    `Started:  ${run.startedAt}`,
+  ];
+  if (run.completedAt) lines.push(`Finished: ${run.completedAt}`);
+  if (Object.keys(run.inputs).length > 0) {
+    lines.push(`Inputs:   ${Object.entries(run.inputs).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+  }
+  if (run.error) lines.push(`Error:    ${run.error}`);
+  lines.push('');
+  for (const step of run.steps) {
+    lines.push(formatStepLine(step));
+    if (step.response !== undefined) {
+      lines.push(...step.response.split('\n').map((line) => `    ${line}`));
+    }
+  }
+  return lines.join('\n');
+}
+
+function formatRunTable(runs: WorkflowRun[]): string {
+  const rows = runs.map((run) => {
+    const done = run.steps.filter((s) => s.status !== 'pending' && s.status !== 'running').length;
+    return [run.id, run.workflow, run.status, `${done}/${run.steps.length}`, run.startedAt];
+  });
+  const header = ['ID', 'WORKFLOW', 'STATUS', 'STEPS', 'STARTED'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+/**
+ * Register the `workflow` command.
+ *
+ * Usage: agentspawn workflow run <file> [--input key=value]... [--json]
+ *        agentspawn workflow validate <file>
+ *        agentspawn workflow status [runId] [--json]
+ *
+ * Runs declarative YAML/JSON workflows across sessions; every run and the
+ * result of each of its steps is kept in the workflow runs directory. When a
+ * daemon is running, the workflow's sessions are the daemon's.
+ */
+export function registerWorkflowCommand(
+  program: Command,
+  manager: SessionManager,
+  runStore: WorkflowRunStore,
+  daemon?: DaemonClient | null,
+): void {
+  const wf = program
+    .command('workflow')
+    .description('Run multi-step workflows across sessions');
+
+  wf.command('run <file>')
+    .description('Run a workflow file')
+    .option('-i, --input <key=value>', 'Set a workflow input (repeatable)', collectInput, [] as string[])
+    .option('--json', 'Output the finished run as JSON')
+    .action(async (file: string, opts: { input: string[]; json?: boolean }) => {
+      const inputs = parseInputs(opts.input);
+      if ('error' in inputs) {
+        console.error(`Error: ${inputs.error}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const filePath = path.resolve(file);
+        const workflow = await loadWorkflow(filePath);
+        const runner = new WorkflowRunner(manager, runStore, daemon);
+        const run = await runner.run(workflow, filePath, {
+          inputs: inputs as Record<string, string>,
+          onStep: opts.json ? undefined : (step) => console.log(formatStepLine(step)),
+        });
+
+        if (opts.json) {
+          console.log(JSON.stringify(run, null, 2));
+        } else {
+          const last = [...run.steps].reverse().find((s) => s.status === 'succeeded');
+          if (last?.response !== undefined) {
+            console.log('');
+            console.log(last.response);
+          }
+          console.log('');
+          console.log(run.error ? `Run ${run.id} failed: ${run.error}` : `Run ${run.id} succeeded`);
+        }
+        if (run.status === 'failed') {
+          process.exitCode = 1;
+        }
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+
+  wf.command('validate <file>')
+    .description('Check a workflow file without running it')
+    .action(async (file: string) => {
+      try {
+        const workflow = await loadWorkflow(path.resolve(file));
+        const sessions = [...new Set(workflow.steps.flatMap(stepSessions))];
+        console.log(
+          `Workflow "${workflow.name}" is valid: ${workflow.steps.length} step(s) across ${sessions.join(', ')}`,
+        );
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+
+  wf.command('status [runId]')
+    .description('List workflow runs, or show the steps of one run')
+    .option('--json', 'Output as JSON')
+    .action(async (runId: string | undefined, opts: { json?: boolean }) => {
+      try {
+        if (runId) {
+          const run = await runStore.get(runId);
+          console.log(opts.json ? JSON.stringify(run, null, 2) : formatRunDetail(run));
+          return;
+        }
+
+        const runs = await runStore.list();
+        if (opts.json) {
+          console.log(JSON.stringify(runs, null, 2));
+        } else if (runs.length === 0) {
+          console.log('No workflow runs.');
+        } else {
+          console.log(formatRunTable(runs));
+        }
+      } catch (e) {
+        if (!reportError(e)) throw e;
+      }
+    });
+}
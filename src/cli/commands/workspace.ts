@@ -2,7 +2,9 @@ import { Command } from 'commander';
 import { SessionManager } from '../../core/manager.js';
 import { Router } from '../../io/router.js';
 import { WorkspaceManager } from '../../core/workspace.js';
-import { formatWorkspaceTable } from '../../io/formatter.js';
+import { formatBudgetLimits, formatWorkspaceTable } from '../../io/formatter.js';
+import { addBudgetOptions, parseBudgetFlags } from '../budget-options.js';
+import type { BudgetFlags } from '../budget-options.js';
 import { SessionState } from '../../types.js';
 import {
   WorkspaceAlreadyExistsError,
@@ -102,6 +104,40 @@ export function registerWorkspaceCommand(
       }
     });
 
+  addBudgetOptions(ws.command('budget <name>'))
+    .description('Show, set or clear the budget shared by all sessions of a workspace')
+    .option('--clear', 'Remove the workspace budget')
+    .action(async (name: string, options: BudgetFlags & { clear?: boolean }) => {
+      const budget = parseBudgetFlags(options);
+      if (budget && 'error' in budget) {
+        console.error(`Error: ${budget.error}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        if (options.clear) {
+          await workspaceManager.setBudget(name, undefined);
+          console.log(`Budget cleared for workspace "${name}"`);
+        } else if (budget) {
+          await workspaceManager.setBudget(name, budget);
+          console.log(`Budget for workspace "${name}": ${formatBudgetLimits(budget)}`);
+        } else {
+          const workspace = await workspaceManager.get(name);
+          console.log(workspace.budget
+            ? `Budget for workspace "${name}": ${formatBudgetLimits(workspace.budget)}`
+            : `Workspace "${name}" has no budget.`);
+        }
+      } catch (e) {
+        if (e instanceof WorkspaceNotFoundError) {
+          console.error(`Error: ${e.message}`);
+          process.exitCode = 1;
+          return;
+        }
+        throw e;
+      }
+    });
+
   ws.command('list')
     .description('List all workspaces')
     .option('--json', 'Output as JSON')
@@ -0,0 +1,80 @@
+import { Command } from 'commander';
+import path from 'node:path';
+import { SessionManager } from '../../core/manager.js';
+import { WorktreeManager } from '../../core/worktree.js';
+import type { ManagedWorktree } from '../../core/worktree.js';
+import { WorktreeError } from '../../utils/errors.js';
+
+function formatWorktreeTable(worktrees: ManagedWorktree[]): string {
+  const rows = worktrees.map((wt) => [
+    wt.sessionName ?? '(orphan)',
+    wt.branch ?? '(detached)',
+    wt.missing ? `${wt.path} (missing)` : wt.path,
+  ]);
+  const header = ['SESSION', 'BRANCH', 'PATH'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+/**
+ * Register the `worktree` command.
+ *
+ * Usage: agentspawn worktree list [--repo <dir>] [--json]
+ *        agentspawn worktree prune [--repo <dir>] [--delete-branches]
+ *
+ * Lists and cleans up the git worktrees created by `start --worktree` in
+ * one repository (the current directory's by default). A worktree is an
+ * orphan once no registered session uses it.
+ */
+export function registerWorktreeCommand(
+  program: Command,
+  manager: SessionManager,
+  worktreeManager: WorktreeManager,
+): void {
+  const cmd = program
+    .command('worktree')
+    .description('List and clean up session git worktrees');
+
+  const sessions = async () => Object.values((await manager.registry.load()).sessions);
+
+  cmd
+    .command('list')
+    .description('List session worktrees of a repository')
+    .option('--repo <dir>', 'Repository to look in (default: current directory)')
+    .option('--json', 'Output as JSON')
+    .action(async (opts: { repo?: string; json?: boolean }) => {
+      try {
+        const worktrees = await worktreeManager.list(path.resolve(opts.repo ?? process.cwd()), await sessions());
+        if (opts.json) {
+          console.log(JSON.stringify(worktrees, null, 2));
+          return;
+        }
+        console.log(worktrees.length === 0 ? 'No session worktrees.' : formatWorktreeTable(worktrees));
+      } catch (e) {
+        if (!(e instanceof WorktreeError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+      }
+    });
+
+  cmd
+    .command('prune')
+    .description('Remove worktrees no session uses')
+    .option('--repo <dir>', 'Repository to clean up (default: current directory)')
+    .option('--delete-branches', 'Also delete the branches of removed worktrees')
+    .action(async (opts: { repo?: string; deleteBranches?: boolean }) => {
+      try {
+        const removed = await worktreeManager.prune(path.resolve(opts.repo ?? process.cwd()), await sessions(), {
+          deleteBranches: opts.deleteBranches,
+        });
+        for (const wt of removed) {
+          console.log(`Removed ${wt.path}${opts.deleteBranches && wt.branch ? ` and branch "${wt.branch}"` : ''}`);
+        }
+        console.log(`Pruned ${removed.length} worktree(s).`);
+      } catch (e) {
+        if (!(e instanceof WorktreeError)) throw e;
+        console.error(`Error: ${e.message}`);
+        process.exitCode = 1;
+      }
+    });
+}
@@ -4,6 +4,13 @@ import { Router } from '../io/router.js';
 import { WorkspaceManager } from '../core/workspace.js';
 import { TemplateManager } from '../core/template.js';
 import { HistoryStore } from '../core/history.js';
+import { UsageStore } from '../core/usage.js';
+import { CheckpointStore } from '../core/checkpoint.js';
+import { SandboxDiffStore } from '../core/sandbox-diff.js';
+import { SandboxEventLog } from '../core/sandbox-event-log.js';
+import { SandboxImageStore } from '../core/sandbox-image.js';
+import { SandboxPool } from '../core/sandbox-pool.js';
+import { ProviderRegistry } from '../core/providers/registry.js';
 import { DEFAULT_CONFIG } from '../config/defaults.js';
 import { registerStartCommand } from './commands/start.js';
 import { registerStopCommand } from './commands/stop.js';
@@ -20,7 +27,21 @@ import { registerPipeCommand } from './commands/pipe.js';
 import { registerWebCommand } from './commands/web.js';
 import { registerRemoteCommand } from './commands/remote.js';
 import { registerSandboxCommand } from './commands/sandbox.js';
+import { registerDaemonCommand } from './commands/daemon.js';
+import { registerWatchCommand } from './commands/watch.js';
+import { registerCancelCommand } from './commands/cancel.js';
+import { registerQueueCommand } from './commands/queue.js';
+import { registerUsageCommand } from './commands/usage.js';
+import { registerWorkflowCommand } from './commands/workflow.js';
+import { registerScheduleCommand } from './commands/schedule.js';
+import { registerWorktreeCommand } from './commands/worktree.js';
+import { registerCheckpointCommand } from './commands/checkpoint.js';
 import { RemoteManager } from '../core/remote.js';
+import { WebTokenStore } from '../core/web-tokens.js';
+import { WorkflowRunStore } from '../core/workflow-runs.js';
+import { ScheduleManager } from '../core/schedule.js';
+import { WorktreeManager } from '../core/worktree.js';
+import { DaemonClient } from '../core/daemon-client.js';
 
 export const program: Command = new Command()
   .name('agentspawn')
@@ -29,40 +50,75 @@ export const program: Command = new Command()
 
 export async function run(argv: string[]): Promise<void> {
   const historyStore = new HistoryStore(DEFAULT_CONFIG.historyDir!);
+  const usageStore = new UsageStore(DEFAULT_CONFIG.usagePath!);
+  const checkpointStore = new CheckpointStore(DEFAULT_CONFIG.checkpointsDir!);
+  const sandboxDiffStore = new SandboxDiffStore(DEFAULT_CONFIG.sandboxBaselinesDir!);
+  const sandboxEventLog = new SandboxEventLog(DEFAULT_CONFIG.sandboxLogsDir!);
+  const sandboxImageStore = new SandboxImageStore(DEFAULT_CONFIG.sandboxImagesDir!);
+  const sandboxPool = new SandboxPool(DEFAULT_CONFIG.sandboxPoolPath!, DEFAULT_CONFIG.sandboxPoolSize!);
+  const providerRegistry = new ProviderRegistry(DEFAULT_CONFIG.providersPath!);
+  const workspaceManager = new WorkspaceManager(
+    DEFAULT_CONFIG.workspacesPath!,
+  );
   const manager = new SessionManager({
     registryPath: DEFAULT_CONFIG.registryPath,
     shutdownTimeoutMs: DEFAULT_CONFIG.shutdownTimeoutMs,
     historyStore,
+    usageStore,
+    workspaceManager,
+    checkpointStore,
+    sandboxDiffStore,
+    sandboxEventLog,
+    sandboxImageStore,
+    sandboxPool,
+    providerRegistry,
   });
   const router = new Router();
 
-  const workspaceManager = new WorkspaceManager(
-    DEFAULT_CONFIG.workspacesPath!,
-  );
-
   const templateManager = new TemplateManager(
     DEFAULT_CONFIG.templatesPath!,
   );
 
   const remoteManager = new RemoteManager(DEFAULT_CONFIG.remotesPath!);
+  const webTokenStore = new WebTokenStore(DEFAULT_CONFIG.webTokensPath!);
+  const workflowRunStore = new WorkflowRunStore(DEFAULT_CONFIG.workflowRunsDir!);
+  const scheduleManager = new ScheduleManager(DEFAULT_CONFIG.schedulesPath!);
+  const worktreeManager = new WorktreeManager(DEFAULT_CONFIG.worktreesDir!);
 
   await manager.init();
 
-  registerStartCommand(program, manager, router, templateManager);
-  registerStopCommand(program, manager, router);
+  // When a daemon is running, session-owning commands become thin clients of it
+  const daemonSocketPath = DEFAULT_CONFIG.daemonSocketPath!;
+  const daemon = await DaemonClient.tryConnect(daemonSocketPath);
+
+  registerStartCommand(program, manager, router, templateManager, daemon, worktreeManager, providerRegistry);
+  registerStopCommand(program, manager, router, daemon, worktreeManager);
   registerListCommand(program, manager, router, remoteManager);
-  registerExecCommand(program, manager, router, workspaceManager, historyStore);
+  registerExecCommand(program, manager, router, workspaceManager, historyStore, daemon, remoteManager);
   registerSwitchCommand(program, manager, router);
-  registerTUICommand(program, manager, router, historyStore, templateManager);
+  registerTUICommand(program, manager, router, historyStore, templateManager, checkpointStore, sandboxDiffStore);
   registerWorkspaceCommand(program, manager, router, workspaceManager);
   registerHistoryCommand(program, manager, historyStore);
   registerTemplateCommand(program, templateManager, manager);
   registerExportCommand(program, historyStore);
-  registerStatsCommand(program, manager);
-  registerPipeCommand(program, manager);
-  registerWebCommand(program, manager, historyStore);
+  registerStatsCommand(program, manager, daemon, usageStore);
+  registerPipeCommand(program, manager, daemon);
+  registerWebCommand(program, manager, historyStore, usageStore, workspaceManager, webTokenStore, templateManager);
   registerRemoteCommand(program, remoteManager);
-  registerSandboxCommand(program, manager);
+  registerSandboxCommand(program, manager, sandboxDiffStore, sandboxEventLog, sandboxImageStore, sandboxPool);
+  registerDaemonCommand(program, manager, daemonSocketPath, daemon, scheduleManager);
+  registerWatchCommand(program, daemon);
+  registerCancelCommand(program, daemon);
+  registerQueueCommand(program, daemon);
+  registerUsageCommand(program, usageStore, workspaceManager);
+  registerWorkflowCommand(program, manager, workflowRunStore, daemon);
+  registerScheduleCommand(program, scheduleManager, daemon);
+  registerWorktreeCommand(program, manager, worktreeManager);
+  registerCheckpointCommand(program, checkpointStore, historyStore);
 
-  await program.parseAsync(argv);
+  try {
+    await program.parseAsync(argv);
+  } finally {
+    daemon?.close();
+  }
 }
@@ -0,0 +1,31 @@
+import { Command } from 'commander';
+import type { SandboxMountPolicy } from '../types.js';
+
+/** Raw values of the flags added by addMountOptions(). */
+export interface MountFlags {
+  sandboxReadOnly: string[];
+  sandboxWritable: string[];
+  sandboxDeny: string[];
+}
+
+const collect = (val: string, acc: string[]): string[] => [...acc, val];
+
+/**
+ * Add the shared sandbox mount policy flags to a command (start, template
+ * create, sandbox test).
+ */
+export function addMountOptions(cmd: Command): Command {
+  return cmd
+    .option('--sandbox-read-only <path>', 'Mount policy: expose this path read-only in the sandbox (repeatable)', collect, [] as string[])
+    .option('--sandbox-writable <path>', 'Mount policy: expose this path writable, e.g. ~/.npm (repeatable)', collect, [] as string[])
+    .option('--sandbox-deny <path>', 'Mount policy: hide this path from the sandbox (repeatable)', collect, [] as string[]);
+}
+
+/** Turn mount flags into a policy; undefined when no flag was given. */
+export function parseMountFlags(flags: MountFlags): SandboxMountPolicy | undefined {
+  const policy: SandboxMountPolicy = {};
+  if (flags.sandboxReadOnly.length > 0) policy.readOnly = flags.sandboxReadOnly;
+  if (flags.sandboxWritable.length > 0) policy.writable = flags.sandboxWritable;
+  if (flags.sandboxDeny.length > 0) policy.deny = flags.sandboxDeny;
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { parseResourceLimitFlags, parseSize } from './resource-options.js';
+
+describe('parseSize', () => {
+  it('reads plain bytes and binary suffixes', () => {
+    expect(parseSize('2048')).toBe(2048);
+    expect(parseSize('512m')).toBe(512 * 1024 ** 2);
+    expect(parseSize('1.5G')).toBe(1.5 * 1024 ** 3);
+    expect(parseSize('64kb')).toBe(64 * 1024);
+    expect(parseSize('lots')).toBeNull();
+    expect(parseSize('-1m')).toBeNull();
+  });
+});
+
+describe('parseResourceLimitFlags', () => {
+  it('returns undefined when no limit flag is given', () => {
+    expect(parseResourceLimitFlags({})).toBeUndefined();
+  });
+
+  it('converts flags to limits, with sizes in bytes', () => {
+    expect(parseResourceLimitFlags({ warnCpu: '150', warnMemory: '2g', warnDisk: '500m' })).toEqual({
+      cpuPercent: 150,
+      memoryBytes: 2 * 1024 ** 3,
+      diskWriteBytes: 500 * 1024 ** 2,
+    });
+  });
+
+  it('rejects non-positive percentages and malformed sizes', () => {
+    expect(parseResourceLimitFlags({ warnCpu: '0' })).toEqual({ error: '--warn-cpu must be a positive number' });
+    expect(parseResourceLimitFlags({ warnMemory: '2 gigs' })).toEqual({ error: '--warn-memory must be a size such as 512m or 2g' });
+    expect(parseResourceLimitFlags({ warnDisk: '0' })).toEqual({ error: '--warn-disk must be a size such as 512m or 2g' });
+  });
+});
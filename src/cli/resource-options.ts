@@ -0,0 +1,58 @@
+import { Command } from 'commander';
+import type { ResourceLimits } from '../types.js';
+
+/** Raw values of the flags added by addResourceLimitOptions(). */
+export interface ResourceLimitFlags {
+  warnCpu?: string;
+  warnMemory?: string;
+  warnDisk?: string;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/** Bytes in a size such as 512m, 1.5g or 2048; null if it is not one. */
+export function parseSize(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?)b?$/i.exec(text.trim());
+  return match ? Math.round(Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()]) : null;
+}
+
+/**
+ * Add the resource soft-limit flags to a command.
+ */
+export function addResourceLimitOptions(cmd: Command): Command {
+  return cmd
+    .option('--warn-cpu <percent>', 'Warn when a prompt uses more CPU than this (percent of one core)')
+    .option('--warn-memory <size>', 'Warn when a prompt uses more memory than this (e.g. 2g)')
+    .option('--warn-disk <size>', 'Warn when a prompt writes more than this to disk (e.g. 500m)');
+}
+
+/**
+ * Turn resource limit flags into limits. Returns undefined when no flag was
+ * given, or an error message for invalid values.
+ */
+export function parseResourceLimitFlags(flags: ResourceLimitFlags): ResourceLimits | undefined | { error: string } {
+  const limits: ResourceLimits = {};
+
+  if (flags.warnCpu !== undefined) {
+    const value = Number(flags.warnCpu);
+    if (flags.warnCpu.trim() === '' || isNaN(value) || value <= 0) {
+      return { error: '--warn-cpu must be a positive number' };
+    }
+    limits.cpuPercent = value;
+  }
+
+  const sizes: Array<[string | undefined, string, keyof ResourceLimits]> = [
+    [flags.warnMemory, '--warn-memory', 'memoryBytes'],
+    [flags.warnDisk, '--warn-disk', 'diskWriteBytes'],
+  ];
+  for (const [raw, flag, key] of sizes) {
+    if (raw === undefined) continue;
+    const bytes = parseSize(raw);
+    if (!bytes) {
+      return { error: `${flag} must be a size such as 512m or 2g` };
+    }
+    limits[key] = bytes;
+  }
+
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
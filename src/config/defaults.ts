@@ -10,6 +10,19 @@ export const DEFAULT_CONFIG: AgentSpawnConfig = {
   historyDir: path.join(os.homedir(), '.agentspawn', 'history'),
   templatesPath: path.join(os.homedir(), '.agentspawn', 'templates.json'),
   remotesPath: path.join(os.homedir(), '.agentspawn', 'remotes.json'),
+  daemonSocketPath: path.join(os.homedir(), '.agentspawn', 'daemon.sock'),
+  usagePath: path.join(os.homedir(), '.agentspawn', 'usage.ndjson'),
+  webTokensPath: path.join(os.homedir(), '.agentspawn', 'web-tokens.json'),
+  workflowRunsDir: path.join(os.homedir(), '.agentspawn', 'workflow-runs'),
+  schedulesPath: path.join(os.homedir(), '.agentspawn', 'schedules.json'),
+  worktreesDir: path.join(os.homedir(), '.agentspawn', 'worktrees'),
+  checkpointsDir: path.join(os.homedir(), '.agentspawn', 'checkpoints'),
+  sandboxBaselinesDir: path.join(os.homedir(), '.agentspawn', 'sandbox-baselines'),
+  sandboxLogsDir: path.join(os.homedir(), '.agentspawn', 'sandbox-logs'),
+  sandboxImagesDir: path.join(os.homedir(), '.agentspawn', 'sandbox-images'),
+  sandboxPoolPath: path.join(os.homedir(), '.agentspawn', 'sandbox-pool.json'),
+  sandboxPoolSize: 0,
+  providersPath: path.join(os.homedir(), '.agentspawn', 'providers.json'),
   logLevel: 'info',
   shutdownTimeoutMs: 5000,
 };
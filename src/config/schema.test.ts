@@ -11,6 +11,19 @@ describe('validateConfig', () => {
       historyDir: '/custom/history',
       templatesPath: '/custom/templates.json',
       remotesPath: '/custom/remotes.json',
+      daemonSocketPath: '/custom/daemon.sock',
+      usagePath: '/custom/usage.ndjson',
+      webTokensPath: '/custom/web-tokens.json',
+      workflowRunsDir: '/custom/workflow-runs',
+      schedulesPath: '/custom/schedules.json',
+      worktreesDir: '/custom/worktrees',
+      checkpointsDir: '/custom/checkpoints',
+      sandboxBaselinesDir: '/custom/sandbox-baselines',
+      sandboxLogsDir: '/custom/sandbox-logs',
+      sandboxImagesDir: '/custom/sandbox-images',
+      sandboxPoolPath: '/custom/sandbox-pool.json',
+      sandboxPoolSize: 3,
+      providersPath: '/custom/providers.json',
       logLevel: 'debug',
       shutdownTimeoutMs: 10000,
     };
@@ -27,6 +40,19 @@ describe('validateConfig', () => {
       historyDir: DEFAULT_CONFIG.historyDir,
       templatesPath: DEFAULT_CONFIG.templatesPath,
       remotesPath: DEFAULT_CONFIG.remotesPath,
+      daemonSocketPath: DEFAULT_CONFIG.daemonSocketPath,
+      usagePath: DEFAULT_CONFIG.usagePath,
+      webTokensPath: DEFAULT_CONFIG.webTokensPath,
+      workflowRunsDir: DEFAULT_CONFIG.workflowRunsDir,
+      schedulesPath: DEFAULT_CONFIG.schedulesPath,
+      worktreesDir: DEFAULT_CONFIG.worktreesDir,
+      checkpointsDir: DEFAULT_CONFIG.checkpointsDir,
+      sandboxBaselinesDir: DEFAULT_CONFIG.sandboxBaselinesDir,
+      sandboxLogsDir: DEFAULT_CONFIG.sandboxLogsDir,
+      sandboxImagesDir: DEFAULT_CONFIG.sandboxImagesDir,
+      sandboxPoolPath: DEFAULT_CONFIG.sandboxPoolPath,
+      sandboxPoolSize: DEFAULT_CONFIG.sandboxPoolSize,
+      providersPath: DEFAULT_CONFIG.providersPath,
       logLevel: DEFAULT_CONFIG.logLevel,
       shutdownTimeoutMs: DEFAULT_CONFIG.shutdownTimeoutMs,
     });
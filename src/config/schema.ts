@@ -20,6 +20,32 @@ export function validateConfig(input: unknown): AgentSpawnConfig {
       typeof config.templatesPath === 'string' ? config.templatesPath : DEFAULT_CONFIG.templatesPath,
     remotesPath:
       typeof config.remotesPath === 'string' ? config.remotesPath : DEFAULT_CONFIG.remotesPath,
+    daemonSocketPath:
+      typeof config.daemonSocketPath === 'string' ? config.daemonSocketPath : DEFAULT_CONFIG.daemonSocketPath,
+    usagePath:
+      typeof config.usagePath === 'string' ? config.usagePath : DEFAULT_CONFIG.usagePath,
+    webTokensPath:
+      typeof config.webTokensPath === 'string' ? config.webTokensPath : DEFAULT_CONFIG.webTokensPath,
+    workflowRunsDir:
+      typeof config.workflowRunsDir === 'string' ? config.workflowRunsDir : DEFAULT_CONFIG.workflowRunsDir,
+    schedulesPath:
+      typeof config.schedulesPath === 'string' ? config.schedulesPath : DEFAULT_CONFIG.schedulesPath,
+    worktreesDir:
+      typeof config.worktreesDir === 'string' ? config.worktreesDir : DEFAULT_CONFIG.worktreesDir,
+    checkpointsDir:
+      typeof config.checkpointsDir === 'string' ? config.checkpointsDir : DEFAULT_CONFIG.checkpointsDir,
+    sandboxBaselinesDir:
+      typeof config.sandboxBaselinesDir === 'string' ? config.sandboxBaselinesDir : DEFAULT_CONFIG.sandboxBaselinesDir,
+    sandboxLogsDir:
+      typeof config.sandboxLogsDir === 'string' ? config.sandboxLogsDir : DEFAULT_CONFIG.sandboxLogsDir,
+    sandboxImagesDir:
+      typeof config.sandboxImagesDir === 'string' ? config.sandboxImagesDir : DEFAULT_CONFIG.sandboxImagesDir,
+    sandboxPoolPath:
+      typeof config.sandboxPoolPath === 'string' ? config.sandboxPoolPath : DEFAULT_CONFIG.sandboxPoolPath,
+    sandboxPoolSize:
+      typeof config.sandboxPoolSize === 'number' ? config.sandboxPoolSize : DEFAULT_CONFIG.sandboxPoolSize,
+    providersPath:
+      typeof config.providersPath === 'string' ? config.providersPath : DEFAULT_CONFIG.providersPath,
     logLevel: typeof config.logLevel === 'string' ? config.logLevel : DEFAULT_CONFIG.logLevel,
     shutdownTimeoutMs:
       typeof config.shutdownTimeoutMs === 'number'
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { combineBudgetUsage, evaluateBudget, hasBudget } from './budget.js';
+import type { BudgetUsage } from '../types.js';
+
+function usage(overrides: Partial<BudgetUsage> = {}): BudgetUsage {
+  return { tokens: 0, costUsd: 0, promptsLastHour: 0, wallClockMs: 0, ...overrides };
+}
+
+describe('hasBudget', () => {
+  it('is false for missing or empty budgets', () => {
+    expect(hasBudget(undefined)).toBe(false);
+    expect(hasBudget({})).toBe(false);
+    expect(hasBudget({ maxCostUsd: 5 })).toBe(true);
+  });
+});
+
+describe('evaluateBudget', () => {
+  it('reports remaining amounts only for configured limits', () => {
+    const status = evaluateBudget('session', 'alpha', { maxTokens: 1000, maxCostUsd: 2 }, usage({ tokens: 100, costUsd: 0.5 }));
+    expect(status.remaining).toEqual({ tokens: 900, cost: 1.5 });
+    expect(status.warnings).toEqual([]);
+    expect(status.exceeded).toEqual([]);
+  });
+
+  it('warns at 80% and exceeds once usage reaches the limit', () => {
+    const status = evaluateBudget(
+      'workspace',
+      'api',
+      { maxTokens: 1000, maxCostUsd: 1, maxPromptsPerHour: 3 },
+      usage({ tokens: 850, costUsd: 1.2, promptsLastHour: 3 }),
+    );
+    expect(status.warnings).toEqual(['tokens']);
+    expect(status.exceeded).toEqual(['cost', 'promptsPerHour']);
+    expect(status.remaining.cost).toBe(0);
+  });
+
+  it('checks wall-clock time', () => {
+    const status = evaluateBudget('session', 'alpha', { maxWallClockMs: 60_000 }, usage({ wallClockMs: 61_000 }));
+    expect(status.exceeded).toEqual(['wallClock']);
+  });
+});
+
+describe('combineBudgetUsage', () => {
+  it('sums usage and keeps the longest wall-clock time', () => {
+    expect(combineBudgetUsage([
+      usage({ tokens: 10, costUsd: 0.1, promptsLastHour: 1, wallClockMs: 5000 }),
+      usage({ tokens: 5, costUsd: 0.2, promptsLastHour: 2, wallClockMs: 9000 }),
+    ])).toEqual({ tokens: 15, costUsd: expect.closeTo(0.3), promptsLastHour: 3, wallClockMs: 9000 });
+  });
+});
@@ -0,0 +1,72 @@
+import { BudgetLimitKind, BudgetLimits, BudgetStatus, BudgetUsage } from '../types.js';
+
+/** Fraction of a limit at which a budgetWarning is emitted. */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/** Window for the prompts-per-hour limit. */
+export const PROMPT_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+const LIMIT_FIELDS: Record<BudgetLimitKind, { max: keyof BudgetLimits; used: keyof BudgetUsage }> = {
+  tokens: { max: 'maxTokens', used: 'tokens' },
+  cost: { max: 'maxCostUsd', used: 'costUsd' },
+  promptsPerHour: { max: 'maxPromptsPerHour', used: 'promptsLastHour' },
+  wallClock: { max: 'maxWallClockMs', used: 'wallClockMs' },
+};
+
+export function hasBudget(limits: BudgetLimits | undefined): limits is BudgetLimits {
+  return limits !== undefined && Object.values(limits).some((v) => typeof v === 'number');
+}
+
+/**
+ * The configured limit and current usage for one kind, or null if that
+ * limit is not set.
+ */
+export function budgetLimitValues(
+  limits: BudgetLimits,
+  used: BudgetUsage,
+  kind: BudgetLimitKind,
+): { used: number; max: number } | null {
+  const fields = LIMIT_FIELDS[kind];
+  const max = limits[fields.max];
+  return typeof max === 'number' ? { used: used[fields.used], max } : null;
+}
+
+/**
+ * Compare usage against limits. A limit is exceeded once usage reaches it,
+ * so a session at its prompts-per-hour cap refuses the next prompt.
+ */
+export function evaluateBudget(
+  scope: BudgetStatus['scope'],
+  scopeName: string,
+  limits: BudgetLimits,
+  used: BudgetUsage,
+): BudgetStatus {
+  const status: BudgetStatus = { scope, scopeName, limits, used, remaining: {}, warnings: [], exceeded: [] };
+  for (const kind of Object.keys(LIMIT_FIELDS) as BudgetLimitKind[]) {
+    const values = budgetLimitValues(limits, used, kind);
+    if (!values) continue;
+    status.remaining[kind] = Math.max(0, values.max - values.used);
+    if (values.used >= values.max) {
+      status.exceeded.push(kind);
+    } else if (values.used >= values.max * BUDGET_WARNING_RATIO) {
+      status.warnings.push(kind);
+    }
+  }
+  return status;
+}
+
+/**
+ * Combine the usage of several sessions for a shared (workspace) budget.
+ * Wall-clock time is that of the longest-running member.
+ */
+export function combineBudgetUsage(usages: BudgetUsage[]): BudgetUsage {
+  return usages.reduce<BudgetUsage>(
+    (total, u) => ({
+      tokens: total.tokens + u.tokens,
+      costUsd: total.costUsd + u.costUsd,
+      promptsLastHour: total.promptsLastHour + u.promptsLastHour,
+      wallClockMs: Math.max(total.wallClockMs, u.wallClockMs),
+    }),
+    { tokens: 0, costUsd: 0, promptsLastHour: 0, wallClockMs: 0 },
+  );
+}
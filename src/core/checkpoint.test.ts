@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { CheckpointStore } from './checkpoint.js';
+import { CheckpointError, CheckpointNotFoundError } from '../utils/errors.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-C', cwd, ...args], {
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+    },
+  }).trim();
+}
+
+describe('CheckpointStore', () => {
+  let dir: string;
+  let store: CheckpointStore;
+
+  beforeEach(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-checkpoint-test-')));
+    store = new CheckpointStore(path.join(dir, 'checkpoints'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('in a git repository', () => {
+    let repo: string;
+
+    beforeEach(async () => {
+      repo = path.join(dir, 'repo');
+      await fs.mkdir(path.join(repo, 'src'), { recursive: true });
+      git(repo, 'init', '-q', '-b', 'main');
+      await fs.writeFile(path.join(repo, 'README.md'), 'hello\n');
+      await fs.writeFile(path.join(repo, 'src', 'index.ts'), 'export {};\n');
+      git(repo, 'add', '-A');
+      git(repo, 'commit', '-q', '-m', 'initial');
+    });
+
+    it('snapshots uncommitted work on a hidden ref without touching HEAD or the index', async () => {
+      await fs.writeFile(path.join(repo, 'README.md'), 'edited\n');
+      await fs.writeFile(path.join(repo, 'staged.txt'), 'staged\n');
+      git(repo, 'add', 'staged.txt');
+      const head = git(repo, 'rev-parse', 'HEAD');
+      const status = git(repo, 'status', '--porcelain');
+
+      const checkpoint = await store.create('api', repo, 'refactor the parser');
+
+      expect(checkpoint).toMatchObject({ id: 1, sessionName: 'api', kind: 'git', prompt: 'refactor the parser' });
+      expect(git(repo, 'rev-parse', 'refs/agentspawn/checkpoints/api/1')).toBe(checkpoint.commit);
+      expect(git(repo, 'show', `${checkpoint.commit}:README.md`)).toBe('edited');
+      expect(git(repo, 'rev-parse', 'HEAD')).toBe(head);
+      expect(git(repo, 'status', '--porcelain')).toBe(status);
+    });
+
+    it('lists changes since a checkpoint and restores it', async () => {
+      const checkpoint = await store.create('api', repo, 'prompt');
+      await fs.writeFile(path.join(repo, 'README.md'), 'rewritten\n');
+      await fs.rm(path.join(repo, 'src', 'index.ts'));
+      await fs.mkdir(path.join(repo, 'lib', 'deep'), { recursive: true });
+      await fs.writeFile(path.join(repo, 'lib', 'deep', 'new.ts'), 'new\n');
+
+      expect(await store.changes('api', checkpoint.id)).toEqual([
+        { status: 'M', path: 'README.md' },
+        { status: 'A', path: 'lib/deep/new.ts' },
+        { status: 'D', path: 'src/index.ts' },
+      ]);
+      expect(await store.patch('api', checkpoint.id)).toContain('+rewritten');
+
+      const undo = await store.restore('api', checkpoint.id);
+
+      expect(await fs.readFile(path.join(repo, 'README.md'), 'utf-8')).toBe('hello\n');
+      expect(await fs.readFile(path.join(repo, 'src', 'index.ts'), 'utf-8')).toBe('export {};\n');
+      await expect(fs.access(path.join(repo, 'lib'))).rejects.toThrow();
+      expect(await store.changes('api', checkpoint.id)).toEqual([]);
+      expect(undo.id).toBe(2);
+      expect(await store.changes('api', undo.id)).toHaveLength(3);
+    });
+
+    it('only snapshots and restores the subdirectory the session works in', async () => {
+      const workdir = path.join(repo, 'src');
+      const checkpoint = await store.create('api', workdir, 'prompt');
+      await fs.writeFile(path.join(workdir, 'index.ts'), 'changed\n');
+      await fs.writeFile(path.join(repo, 'README.md'), 'outside\n');
+
+      expect(await store.changes('api', checkpoint.id)).toEqual([{ status: 'M', path: 'index.ts' }]);
+      await store.restore('api', checkpoint.id);
+
+      expect(await fs.readFile(path.join(workdir, 'index.ts'), 'utf-8')).toBe('export {};\n');
+      expect(await fs.readFile(path.join(repo, 'README.md'), 'utf-8')).toBe('outside\n');
+    });
+    it('deletes the checkpoint refs of a removed session and keeps similar names apart', async () => {
+      const dotted = await store.create('a.b', repo, 'one');
+      const underscored = await store.create('a_b', repo, 'two');
+      expect(git(repo, 'rev-parse', 'refs/agentspawn/checkpoints/a%2eb/1')).toBe(dotted.commit);
+      expect(git(repo, 'rev-parse', 'refs/agentspawn/checkpoints/a_b/1')).toBe(underscored.commit);
+
+      await store.remove('a.b');
+
+      expect(git(repo, 'for-each-ref', '--format=%(refname)', 'refs/agentspawn/')).toBe('refs/agentspawn/checkpoints/a_b/1');
+      expect(await store.list('a.b')).toEqual([]);
+      expect((await store.list('a_b')).map((c) => c.prompt)).toEqual(['two']);
+    });
+  });
+
+  describe('outside git', () => {
+    let workdir: string;
+
+    beforeEach(async () => {
+      workdir = path.join(dir, 'plain');
+      await fs.mkdir(path.join(workdir, 'node_modules', 'pkg'), { recursive: true });
+      await fs.writeFile(path.join(workdir, 'notes.txt'), 'v1\n');
+      await fs.writeFile(path.join(workdir, 'node_modules', 'pkg', 'index.js'), '');
+    });
+
+    it('copies the files, skipping node_modules, and restores them', async () => {
+      const checkpoint = await store.create('docs', workdir, 'prompt');
+      expect(checkpoint.kind).toBe('files');
+      await expect(fs.access(path.join(dir, 'checkpoints', 'docs', '1', 'notes.txt'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(dir, 'checkpoints', 'docs', '1', 'node_modules'))).rejects.toThrow();
+
+      await fs.writeFile(path.join(workdir, 'notes.txt'), 'v2\n');
+      await fs.writeFile(path.join(workdir, 'extra.txt'), 'x');
+      expect(await store.changes('docs', checkpoint.id)).toEqual([
+        { status: 'A', path: 'extra.txt' },
+        { status: 'M', path: 'notes.txt' },
+      ]);
+      await expect(store.patch('docs', checkpoint.id)).rejects.toBeInstanceOf(CheckpointError);
+
+      await store.restore('docs', checkpoint.id);
+      expect(await fs.readFile(path.join(workdir, 'notes.txt'), 'utf-8')).toBe('v1\n');
+      await expect(fs.access(path.join(workdir, 'extra.txt'))).rejects.toThrow();
+      await fs.access(path.join(workdir, 'node_modules', 'pkg', 'index.js'));
+    });
+
+    it('deletes the snapshots of a removed session', async () => {
+      await store.create('docs', workdir, 'prompt');
+
+      await store.remove('docs');
+
+      await expect(fs.access(path.join(dir, 'checkpoints', 'docs'))).rejects.toThrow();
+      expect(await store.list('docs')).toEqual([]);
+    });
+
+    it('refuses to copy a directory containing the checkpoints directory', async () => {
+      await expect(store.create('home', dir, 'prompt')).rejects.toThrow('contains the checkpoints directory');
+    });
+  });
+
+  it('numbers checkpoints per session and reports unknown ones', async () => {
+    const workdir = path.join(dir, 'plain');
+    await fs.mkdir(workdir);
+    await store.create('a', workdir, 'one');
+    await store.create('a', workdir, 'two');
+    await store.create('b', workdir, 'three');
+
+    expect((await store.list('a')).map((c) => [c.id, c.prompt])).toEqual([[1, 'one'], [2, 'two']]);
+    expect((await store.list('b')).map((c) => c.id)).toEqual([1]);
+    expect(await store.list('none')).toEqual([]);
+    await expect(store.get('a', 7)).rejects.toBeInstanceOf(CheckpointNotFoundError);
+  });
+});
@@ -0,0 +1,389 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { CheckpointEntry } from '../types.js';
+import { CheckpointError, CheckpointNotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Checkpoints kept per session; the oldest are deleted as new ones are taken. */
+const MAX_CHECKPOINTS = 50;
+/** Directories outside git are copied, so only modest ones are snapshotted. */
+const MAX_SNAPSHOT_FILES = 5000;
+const MAX_SNAPSHOT_BYTES = 100 * 1024 * 1024;
+/** Not copied into (or removed by restoring) a file checkpoint. */
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+const PROMPT_PREVIEW_LENGTH = 100;
+
+/** Snapshot commits are authored by agentspawn, whatever git is configured with. */
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'agentspawn',
+  GIT_AUTHOR_EMAIL: 'agentspawn@localhost',
+  GIT_COMMITTER_NAME: 'agentspawn',
+  GIT_COMMITTER_EMAIL: 'agentspawn@localhost',
+};
+
+/** A file that differs between a checkpoint and the working directory. */
+export interface CheckpointChange {
+  /** A: created since the checkpoint, M: modified, D: deleted. */
+  status: 'A' | 'M' | 'D';
+  /** Relative to the session's working directory. */
+  path: string;
+}
+
+interface CheckpointIndex {
+  version: number;
+  nextId: number;
+  checkpoints: CheckpointEntry[];
+}
+
+async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', cwd, ...args], {
+      env: env ?? process.env,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout.trimEnd();
+  } catch (err: unknown) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new CheckpointError(
+      `git ${args[0]} failed in ${cwd}${stderr ? `: ${stderr}` : ''}`,
+      err instanceof Error ? err : undefined,
+    );
+  }
+}
+
+async function isGitWorkTree(dir: string): Promise<boolean> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', dir, 'rev-parse', '--is-inside-work-tree']);
+    return stdout.trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Commit the working tree under `dir` without touching the real index or
+ * HEAD: files are staged into a throwaway index seeded from the real one,
+ * so git can reuse its stat cache instead of rehashing every file.
+ * Ignored files are not part of the snapshot.
+ */
+async function commitWorkingTree(dir: string, message: string): Promise<string> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-checkpoint-'));
+  const indexFile = path.join(tmpDir, 'index');
+  const env = { ...process.env, ...SNAPSHOT_IDENTITY, GIT_INDEX_FILE: indexFile };
+  try {
+    const realIndex = path.resolve(dir, await git(dir, ['rev-parse', '--git-path', 'index']));
+    await fs.copyFile(realIndex, indexFile).catch(() => {
+      // Nothing staged yet: start from an empty index
+    });
+    await git(dir, ['add', '-A', '--', '.'], env);
+    const tree = await git(dir, ['write-tree'], env);
+    const head = await git(dir, ['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => '');
+    return await git(dir, ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', message], env);
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/** Files below `root` relative to it, skipping SKIPPED_DIRS. */
+async function listFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (relDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(root, relDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const rel = path.join(relDir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) await walk(rel);
+      } else {
+        files.push(rel);
+      }
+    }
+  };
+  await walk('');
+  return files.sort();
+}
+
+async function sameContent(a: string, b: string): Promise<boolean> {
+  const [statA, statB] = await Promise.all([fs.lstat(a), fs.lstat(b)]);
+  if (statA.size !== statB.size || statA.isSymbolicLink() !== statB.isSymbolicLink()) return false;
+  if (statA.isSymbolicLink()) return (await fs.readlink(a)) === (await fs.readlink(b));
+  const [bufA, bufB] = await Promise.all([fs.readFile(a), fs.readFile(b)]);
+  return bufA.equals(bufB);
+}
+
+/** Delete `file` and then any directories it leaves empty, up to `root`. */
+async function removeFile(root: string, file: string): Promise<void> {
+  await fs.rm(path.join(root, file), { force: true });
+  for (let dir = path.dirname(file); dir !== '.'; dir = path.dirname(dir)) {
+    try {
+      await fs.rmdir(path.join(root, dir));
+    } catch {
+      return;
+    }
+  }
+}
+
+/**
+ * CheckpointStore — snapshots of a session's working directory, taken
+ * before each prompt so its changes can be undone.
+ *
+ * Inside a git repository a checkpoint is a commit kept alive by
+ * refs/agentspawn/checkpoints/<session>/<id>; the branch, index and stash
+ * are left alone. Other directories are copied to
+ * <checkpointsDir>/<session>/<id>/. Each session's checkpoints are listed
+ * in <checkpointsDir>/<session>/index.json. All of them are deleted when
+ * the session is stopped.
+ */
+export class CheckpointStore {
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private readonly checkpointsDir: string) {}
+
+  private withSessionLock<T>(sessionName: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.locks.get(sessionName) ?? Promise.resolve();
+    const next = prev.then(fn, fn);
+    this.locks.set(sessionName, next.catch(() => undefined));
+    return next;
+  }
+
+  /**
+   * Snapshot `workingDirectory` for `sessionName`. `prompt` is the prompt
+   * about to run (or why the snapshot was taken). Deletes the session's
+   * oldest checkpoints beyond MAX_CHECKPOINTS.
+   */
+  async create(sessionName: string, workingDirectory: string, prompt: string): Promise<CheckpointEntry> {
+    return this.withSessionLock(sessionName, () => this.createUnlocked(sessionName, workingDirectory, prompt));
+  }
+
+  private async createUnlocked(sessionName: string, workingDirectory: string, prompt: string): Promise<CheckpointEntry> {
+    const index = await this.readIndex(sessionName);
+    const id = index.nextId;
+    const entry: CheckpointEntry = {
+      id,
+      sessionName,
+      workingDirectory,
+      createdAt: new Date().toISOString(),
+      prompt: prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+      kind: 'files',
+    };
+
+    if (await isGitWorkTree(workingDirectory)) {
+      entry.kind = 'git';
+      entry.commit = await commitWorkingTree(workingDirectory, `agentspawn checkpoint #${id} of session "${sessionName}"`);
+      await git(workingDirectory, ['update-ref', this.getRef(sessionName, id), entry.commit]);
+    } else {
+      await this.copyFiles(workingDirectory, this.getSnapshotDir(sessionName, id));
+    }
+
+    index.nextId = id + 1;
+    index.checkpoints.push(entry);
+    const expired = index.checkpoints.splice(0, Math.max(0, index.checkpoints.length - MAX_CHECKPOINTS));
+    await this.writeIndex(sessionName, index);
+    for (const old of expired) {
+      await this.deleteSnapshot(old).catch((err) => {
+        logger.warn(`Failed to delete checkpoint #${old.id} of session "${sessionName}": ${err}`);
+      });
+    }
+
+    logger.debug(`Created ${entry.kind} checkpoint #${id} for session "${sessionName}"`);
+    return entry;
+  }
+
+  /**
+   * Delete all of the session's checkpoints: their refs, snapshots and
+   * index. Refs that can no longer be reached because the working directory
+   * is gone are logged and left behind.
+   */
+  async remove(sessionName: string): Promise<void> {
+    await this.withSessionLock(sessionName, async () => {
+      for (const entry of (await this.readIndex(sessionName)).checkpoints) {
+        await this.deleteSnapshot(entry).catch((err) => {
+          logger.warn(`Failed to delete checkpoint #${entry.id} of session "${sessionName}": ${err}`);
+        });
+      }
+      await fs.rm(this.getSessionDir(sessionName), { recursive: true, force: true });
+    });
+  }
+
+  /** The session's checkpoints, oldest first. */
+  async list(sessionName: string): Promise<CheckpointEntry[]> {
+    return (await this.readIndex(sessionName)).checkpoints;
+  }
+
+  async get(sessionName: string, id: number): Promise<CheckpointEntry> {
+    const entry = (await this.list(sessionName)).find((checkpoint) => checkpoint.id === id);
+    if (!entry) {
+      throw new CheckpointNotFoundError(sessionName, id);
+    }
+    return entry;
+  }
+
+  /**
+   * Files changed in the working directory since checkpoint `id`.
+   */
+  async changes(sessionName: string, id: number): Promise<CheckpointChange[]> {
+    const entry = await this.get(sessionName, id);
+
+    if (entry.kind === 'git') {
+      const current = await commitWorkingTree(entry.workingDirectory, 'agentspawn checkpoint diff');
+      const output = await git(entry.workingDirectory, [
+        'diff', '--name-status', '--no-renames', '--relative', entry.commit!, current, '--', '.',
+      ]);
+      return output.split('\n').filter(Boolean).map((line) => {
+        const [status, file] = line.split('\t');
+        return { status: status as CheckpointChange['status'], path: file };
+      });
+    }
+
+    const snapshotDir = this.getSnapshotDir(sessionName, id);
+    const before = await listFiles(snapshotDir);
+    const after = await listFiles(entry.workingDirectory);
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    const changes: CheckpointChange[] = [];
+    for (const file of [...new Set([...before, ...after])].sort()) {
+      if (!afterSet.has(file)) {
+        changes.push({ status: 'D', path: file });
+      } else if (!beforeSet.has(file)) {
+        changes.push({ status: 'A', path: file });
+      } else if (!(await sameContent(path.join(snapshotDir, file), path.join(entry.workingDirectory, file)))) {
+        changes.push({ status: 'M', path: file });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Unified diff from checkpoint `id` to the working directory. Only git
+   * checkpoints have one; file checkpoints are compared with changes().
+   */
+  async patch(sessionName: string, id: number): Promise<string> {
+    const entry = await this.get(sessionName, id);
+    if (entry.kind !== 'git') {
+      throw new CheckpointError(`checkpoint #${id} of session "${sessionName}" is a file copy; only git checkpoints have a patch`);
+    }
+    const current = await commitWorkingTree(entry.workingDirectory, 'agentspawn checkpoint diff');
+    return git(entry.workingDirectory, ['diff', '--relative', entry.commit!, current, '--', '.']);
+  }
+
+  /**
+   * Put the working directory back the way it was at checkpoint `id`:
+   * files created since are deleted and changed or deleted ones are
+   * written back. The state being replaced is checkpointed first, so a
+   * restore can itself be undone; that checkpoint is returned.
+   */
+  async restore(sessionName: string, id: number): Promise<CheckpointEntry> {
+    return this.withSessionLock(sessionName, async () => {
+      const entry = await this.get(sessionName, id);
+      const undo = await this.createUnlocked(sessionName, entry.workingDirectory, `(before restoring checkpoint #${id})`);
+      const dir = entry.workingDirectory;
+
+      if (entry.kind === 'git') {
+        const added = await git(dir, [
+          'diff', '--name-only', '--no-renames', '--relative', '--diff-filter=A', entry.commit!, undo.commit!, '--', '.',
+        ]);
+        for (const file of added.split('\n').filter(Boolean)) {
+          await removeFile(dir, file);
+        }
+        // Writes through a throwaway index so the real one keeps what the user staged
+        if (await git(dir, ['ls-tree', '-r', '--name-only', entry.commit!, '--', '.'])) {
+          const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-checkpoint-'));
+          try {
+            await git(dir, ['checkout', entry.commit!, '--', '.'], { ...process.env, GIT_INDEX_FILE: path.join(tmpDir, 'index') });
+          } finally {
+            await fs.rm(tmpDir, { recursive: true, force: true });
+          }
+        }
+      } else {
+        const snapshotDir = this.getSnapshotDir(sessionName, id);
+        const keep = new Set(await listFiles(snapshotDir));
+        for (const file of await listFiles(dir)) {
+          if (!keep.has(file)) await removeFile(dir, file);
+        }
+        await fs.cp(snapshotDir, dir, { recursive: true, force: true, verbatimSymlinks: true });
+      }
+
+      logger.info(`Restored ${dir} to checkpoint #${id} of session "${sessionName}"`);
+      return undo;
+    });
+  }
+
+  private async copyFiles(workingDirectory: string, destination: string): Promise<void> {
+    if (path.resolve(this.checkpointsDir).startsWith(path.resolve(workingDirectory) + path.sep)) {
+      throw new CheckpointError(`${workingDirectory} contains the checkpoints directory and cannot be copied into it`);
+    }
+    const files = await listFiles(workingDirectory);
+    if (files.length > MAX_SNAPSHOT_FILES) {
+      throw new CheckpointError(`${workingDirectory} has more than ${MAX_SNAPSHOT_FILES} files; use a git repository for checkpoints`);
+    }
+    let bytes = 0;
+    for (const file of files) {
+      bytes += (await fs.lstat(path.join(workingDirectory, file))).size;
+    }
+    if (bytes > MAX_SNAPSHOT_BYTES) {
+      throw new CheckpointError(`${workingDirectory} is larger than ${MAX_SNAPSHOT_BYTES / 1024 / 1024} MB; use a git repository for checkpoints`);
+    }
+
+    await fs.mkdir(destination, { recursive: true });
+    for (const file of files) {
+      await fs.mkdir(path.dirname(path.join(destination, file)), { recursive: true });
+      await fs.cp(path.join(workingDirectory, file), path.join(destination, file), { verbatimSymlinks: true });
+    }
+  }
+
+  private async deleteSnapshot(entry: CheckpointEntry): Promise<void> {
+    if (entry.kind === 'git') {
+      await git(entry.workingDirectory, ['update-ref', '-d', this.getRef(entry.sessionName, entry.id)]);
+    } else {
+      await fs.rm(this.getSnapshotDir(entry.sessionName, entry.id), { recursive: true, force: true });
+    }
+  }
+
+  private getRef(sessionName: string, id: number): string {
+    return `refs/agentspawn/checkpoints/${this.encodeName(sessionName)}/${id}`;
+  }
+
+  private getSessionDir(sessionName: string): string {
+    return path.join(this.checkpointsDir, this.encodeName(sessionName));
+  }
+
+  private getSnapshotDir(sessionName: string, id: number): string {
+    return path.join(this.getSessionDir(sessionName), String(id));
+  }
+
+  /**
+   * The session name as a ref component and directory name. Characters
+   * outside [a-zA-Z0-9_-] become the %xx escapes of their UTF-8 bytes, so
+   * two sessions never share checkpoints.
+   */
+  private encodeName(sessionName: string): string {
+    return sessionName.replace(/[^a-zA-Z0-9_-]/gu, (ch) => Buffer.from(ch, 'utf-8').toString('hex').replace(/../g, '%$&'));
+  }
+
+  private async readIndex(sessionName: string): Promise<CheckpointIndex> {
+    const filePath = path.join(this.getSessionDir(sessionName), 'index.json');
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CheckpointIndex;
+      return { version: 1, nextId: data.nextId ?? 1, checkpoints: data.checkpoints ?? [] };
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, nextId: 1, checkpoints: [] };
+      }
+      throw new CheckpointError(`cannot read ${filePath}`, err instanceof Error ? err : undefined);
+    }
+  }
+
+  private async writeIndex(sessionName: string, index: CheckpointIndex): Promise<void> {
+    const dir = this.getSessionDir(sessionName);
+    await fs.mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, 'index.json');
+    // Write atomically: write to .tmp then rename
+    const tmpPath = filePath + '.tmp';
+    await fs.writeFile(tmpPath, JSON.stringify(index, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { nextCronTime, parseCron } from './cron.js';
+import { InvalidScheduleError } from '../utils/errors.js';
+
+/** Local-time date, since cron is evaluated in local time. */
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('parseCron', () => {
+  it('expands ranges, lists, steps and names', () => {
+    const cron = parseCron('*/15 9-11,14 1 jan-mar MON-FRI');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 14]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.anyDayOfMonth).toBe(false);
+  });
+
+  it('treats 7 as Sunday and supports start/step', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(InvalidScheduleError);
+    expect(() => parseCron('60 * * * *')).toThrow('"60" is not a valid minute');
+    expect(() => parseCron('*/0 * * * *')).toThrow('invalid step');
+    expect(() => parseCron('0 5-2 * * *')).toThrow('backwards range');
+    expect(() => parseCron('0 0 * * funday')).toThrow('not a valid day of week');
+  });
+});
+
+describe('nextCronTime', () => {
+  it('finds the next weekday at 9:00', () => {
+    const cron = parseCron('0 9 * * 1-5');
+    // Friday 2026-01-02 at 09:00 -> Monday 2026-01-05 09:00
+    expect(nextCronTime(cron, local(2026, 1, 2, 9, 0))).toEqual(local(2026, 1, 5, 9, 0));
+    // Monday 08:59 -> same day 09:00
+    expect(nextCronTime(cron, local(2026, 1, 5, 8, 59))).toEqual(local(2026, 1, 5, 9, 0));
+  });
+
+  it('is strictly after the given time and ignores seconds', () => {
+    const cron = parseCron('* * * * *');
+    expect(nextCronTime(cron, new Date(2026, 0, 1, 10, 0, 30))).toEqual(local(2026, 1, 1, 10, 1));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    const cron = parseCron('0 0 13 * 5');
+    expect(nextCronTime(cron, local(2026, 1, 1))).toEqual(local(2026, 1, 2));
+    expect(nextCronTime(cron, local(2026, 1, 10))).toEqual(local(2026, 1, 13));
+  });
+
+  it('rolls over months and years', () => {
+    expect(nextCronTime(parseCron('30 6 1 * *'), local(2026, 12, 15))).toEqual(local(2027, 1, 1, 6, 30));
+    expect(nextCronTime(parseCron('0 0 29 2 *'), local(2026, 3, 1))).toEqual(local(2028, 2, 29));
+  });
+
+  it('returns null for a date that never comes', () => {
+    expect(nextCronTime(parseCron('0 0 30 2 *'), local(2026, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { InvalidScheduleError } from '../utils/errors.js';
+
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in local time. Supports `*`, numbers, ranges, lists, steps,
+ * month and weekday names, and the @hourly/@daily/@weekly/@monthly/@yearly
+ * macros. As in Vixie cron, when both day fields are restricted a day
+ * matches if either does.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether each day field was `*`, for the either-day rule. */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is accepted as Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+/** Give up looking for a next run after this many years (e.g. `0 0 30 2 *`). */
+const SEARCH_YEARS = 5;
+
+function parseValue(text: string, field: FieldSpec, expression: string): number {
+  const named = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + (field.name === 'month' ? 1 : 0) : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  if (isNaN(value) || value < field.min || value > field.max) {
+    throw new InvalidScheduleError(`"${text}" is not a valid ${field.name} in cron expression "${expression}"`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step === 0)) {
+      throw new InvalidScheduleError(`"${part}" has an invalid step in cron expression "${expression}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      from = parseValue(start, field, expression);
+      to = parseValue(end, field, expression);
+      if (from > to) {
+        throw new InvalidScheduleError(`"${range}" is a backwards range in cron expression "${expression}"`);
+      }
+    } else {
+      from = parseValue(range, field, expression);
+      // "5/15" means every 15 starting at 5
+      to = stepText === undefined ? from : field.max;
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const text = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = text.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new InvalidScheduleError(`cron expression "${expression}" must have 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+function dayMatches(cron: CronSchedule, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getDate());
+  const dow = cron.daysOfWeek.has(date.getDay());
+  if (cron.anyDayOfMonth) return dow;
+  if (cron.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/** The first minute strictly after `after` that matches, or null if none within a few years. */
+export function nextCronTime(cron: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + SEARCH_YEARS * 366 * 86_400_000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
@@ -0,0 +1,314 @@
+import net from 'node:net';
+import type {
+  BroadcastResult,
+  QueuedPrompt,
+  SendPromptOptions,
+  SessionConfig,
+  SessionInfo,
+  SessionMetrics,
+} from '../types.js';
+import {
+  AgentSpawnError,
+  BudgetExceededError,
+  DaemonNotRunningError,
+  InvalidEgressRuleError,
+  InvalidFileTriggerError,
+  InvalidMountPolicyError,
+  InvalidProviderSpecError,
+  InvalidRequestError,
+  PromptCancelledError,
+  PromptDroppedError,
+  PromptTimeoutError,
+  ProviderRequestError,
+  QueuedPromptNotFoundError,
+  SandboxNotAvailableError,
+  SandboxStartError,
+  SessionAlreadyExistsError,
+  SessionNotFoundError,
+  SpawnFailedError,
+  UnknownProviderError,
+  WorktreeError,
+} from '../utils/errors.js';
+import type {
+  DaemonFrame,
+  DaemonMethod,
+  DaemonRequest,
+  DaemonSessionEvent,
+  DaemonStatus,
+} from './daemon.js';
+
+export interface DaemonEvent {
+  sessionName: string;
+  event: DaemonSessionEvent;
+  data: unknown;
+}
+
+/**
+ * Error classes the daemon's methods throw, by code, so callers can keep
+ * using instanceof checks in daemon mode.
+ */
+const DAEMON_ERRORS: Record<string, abstract new (...args: never[]) => AgentSpawnError> = {
+  BUDGET_EXCEEDED: BudgetExceededError,
+  FILE_TRIGGER_INVALID: InvalidFileTriggerError,
+  INVALID_REQUEST: InvalidRequestError,
+  PROMPT_CANCELLED: PromptCancelledError,
+  PROMPT_DROPPED: PromptDroppedError,
+  PROMPT_TIMEOUT: PromptTimeoutError,
+  PROVIDER_NOT_FOUND: UnknownProviderError,
+  PROVIDER_REQUEST_FAILED: ProviderRequestError,
+  PROVIDER_SPEC_INVALID: InvalidProviderSpecError,
+  QUEUED_PROMPT_NOT_FOUND: QueuedPromptNotFoundError,
+  SANDBOX_EGRESS_INVALID: InvalidEgressRuleError,
+  SANDBOX_MOUNT_INVALID: InvalidMountPolicyError,
+  SANDBOX_NOT_AVAILABLE: SandboxNotAvailableError,
+  SANDBOX_START_FAILED: SandboxStartError,
+  SESSION_EXISTS: SessionAlreadyExistsError,
+  SESSION_NOT_FOUND: SessionNotFoundError,
+  SPAWN_FAILED: SpawnFailedError,
+  WORKTREE_FAILED: WorktreeError,
+};
+
+/**
+ * Rebuild an error frame as the class that was thrown in the daemon. The
+ * message is kept as sent; constructor-only fields are not carried over.
+ */
+export function daemonError(message: string, code: string): AgentSpawnError {
+  const errorClass = DAEMON_ERRORS[code];
+  if (!errorClass) return new AgentSpawnError(message, code);
+  const err = Reflect.construct(AgentSpawnError, [message, code], errorClass) as AgentSpawnError;
+  err.name = errorClass.name;
+  return err;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+  onChunk?: (chunk: string) => void;
+}
+
+/** JSON turns Dates into strings; restore them so callers get a real SessionInfo. */
+function reviveSessionInfo(info: SessionInfo): SessionInfo {
+  return {
+    ...info,
+    startedAt: info.startedAt ? new Date(info.startedAt) : null,
+  };
+}
+
+/**
+ * DaemonClient — thin client for DaemonServer over its Unix socket.
+ *
+ * CLI commands use it in place of the in-process SessionManager whenever a
+ * daemon is running, so every shell sees the same live sessions.
+ */
+export class DaemonClient {
+  private nextId = 1;
+  private buffer = '';
+  private pending: Map<number, PendingRequest> = new Map();
+  private eventHandlers: Set<(event: DaemonEvent) => void> = new Set();
+
+  private constructor(
+    private readonly socket: net.Socket,
+    private readonly socketPath: string,
+  ) {
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => this.handleData(chunk));
+    socket.on('close', () => {
+      const err = new AgentSpawnError(`Daemon connection closed (${this.socketPath})`, 'DAEMON_DISCONNECTED');
+      for (const request of this.pending.values()) {
+        request.reject(err);
+      }
+      this.pending.clear();
+    });
+    socket.on('error', () => {
+      // Surfaced to callers through the 'close' handler above
+    });
+  }
+
+  /**
+   * Connect to a running daemon. Throws DaemonNotRunningError if nothing is
+   * listening on the socket.
+   */
+  static async connect(socketPath: string): Promise<DaemonClient> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = net.createConnection(socketPath);
+      s.once('connect', () => {
+        s.removeAllListeners('error');
+        resolve(s);
+      });
+      s.once('error', () => reject(new DaemonNotRunningError(socketPath)));
+    });
+    return new DaemonClient(socket, socketPath);
+  }
+
+  /**
+   * Like connect() but returns null when no daemon is running. Used by the
+   * CLI to decide between daemon mode and an in-process SessionManager.
+   */
+  static async tryConnect(socketPath: string): Promise<DaemonClient | null> {
+    try {
+      return await DaemonClient.connect(socketPath);
+    } catch {
+      return null;
+    }
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  /**
+   * Register a handler for session events from subscribe(). Returns an
+   * unsubscribe function.
+   */
+  onEvent(handler: (event: DaemonEvent) => void): () => void {
+    this.eventHandlers.add(handler);
+    return () => {
+      this.eventHandlers.delete(handler);
+    };
+  }
+
+  async ping(): Promise<DaemonStatus> {
+    return this.request<DaemonStatus>('ping');
+  }
+
+  async listSessions(): Promise<SessionInfo[]> {
+    const sessions = await this.request<SessionInfo[]>('listSessions');
+    return sessions.map(reviveSessionInfo);
+  }
+
+  async getSessionInfo(name: string): Promise<SessionInfo | undefined> {
+    const info = await this.request<SessionInfo | null>('getSessionInfo', { name });
+    return info ? reviveSessionInfo(info) : undefined;
+  }
+
+  async getMetrics(name: string): Promise<SessionMetrics | null> {
+    return this.request<SessionMetrics | null>('getMetrics', { name });
+  }
+
+  async startSession(config: SessionConfig): Promise<SessionInfo> {
+    const info = await this.request<SessionInfo>('startSession', { config });
+    return reviveSessionInfo(info);
+  }
+
+  async stopSession(name: string): Promise<void> {
+    await this.request('stopSession', { name });
+  }
+
+  async stopAll(): Promise<number> {
+    return this.request<number>('stopAll');
+  }
+
+  async stopByTag(tag: string): Promise<number> {
+    return this.request<number>('stopByTag', { tag });
+  }
+
+  /**
+   * Send a prompt to a daemon-owned session. `onChunk` receives response text
+   * as it streams; the promise resolves with the full response. Busy sessions
+   * queue the prompt, so the promise may wait for earlier prompts first.
+   */
+  async sendPrompt(
+    name: string,
+    prompt: string,
+    onChunk?: (chunk: string) => void,
+    options: SendPromptOptions = {},
+  ): Promise<string> {
+    return this.request<string>('sendPrompt', { name, prompt, priority: options.priority }, onChunk);
+  }
+
+  /** Cancel the in-flight prompt of a session. Resolves false if it was idle. */
+  async cancelPrompt(name: string): Promise<boolean> {
+    return this.request<boolean>('cancelPrompt', { name });
+  }
+
+  async getQueue(name: string): Promise<QueuedPrompt[]> {
+    return this.request<QueuedPrompt[]>('getQueue', { name });
+  }
+
+  async dropQueuedPrompt(name: string, id: number): Promise<void> {
+    await this.request('dropQueuedPrompt', { name, id });
+  }
+
+  async clearQueue(name: string): Promise<number> {
+    return this.request<number>('clearQueue', { name });
+  }
+
+  async broadcastPrompt(sessionNames: string[], prompt: string): Promise<BroadcastResult[]> {
+    return this.request<BroadcastResult[]>('broadcastPrompt', { sessionNames, prompt });
+  }
+
+  /** Subscribe to events for one session, or every session when name is omitted. */
+  async subscribe(name?: string): Promise<void> {
+    await this.request('subscribe', name !== undefined ? { name } : {});
+  }
+
+  async unsubscribe(name?: string): Promise<void> {
+    await this.request('unsubscribe', name !== undefined ? { name } : {});
+  }
+
+  async shutdown(): Promise<void> {
+    await this.request('shutdown');
+  }
+
+  private request<T>(
+    method: DaemonMethod,
+    params?: Record<string, unknown>,
+    onChunk?: (chunk: string) => void,
+  ): Promise<T> {
+    const id = this.nextId++;
+    const message: DaemonRequest = { id, method, params };
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        onChunk,
+      });
+      this.socket.write(JSON.stringify(message) + '\n');
+    });
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let frame: DaemonFrame;
+      try {
+        frame = JSON.parse(line) as DaemonFrame;
+      } catch {
+        continue;
+      }
+      this.handleFrame(frame);
+    }
+  }
+
+  private handleFrame(frame: DaemonFrame): void {
+    if (frame.type === 'event') {
+      for (const handler of this.eventHandlers) {
+        handler({ sessionName: frame.sessionName, event: frame.event, data: frame.data });
+      }
+      return;
+    }
+
+    const request = this.pending.get(frame.id);
+    if (!request) return;
+
+    switch (frame.type) {
+      case 'chunk':
+        request.onChunk?.(frame.chunk);
+        break;
+      case 'result':
+        this.pending.delete(frame.id);
+        request.resolve(frame.result);
+        break;
+      case 'error':
+        this.pending.delete(frame.id);
+        request.reject(daemonError(frame.error.message, frame.error.code));
+        break;
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { DaemonServer } from './daemon.js';
+import { DaemonClient, type DaemonEvent } from './daemon-client.js';
+import { SessionState } from '../types.js';
+import type { SendPromptOptions, SessionInfo } from '../types.js';
+import type { SessionManager } from './manager.js';
+import {
+  AgentSpawnError,
+  DaemonAlreadyRunningError,
+  DaemonNotRunningError,
+  SessionNotFoundError,
+} from '../utils/errors.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function makeInfo(name: string): SessionInfo {
+  return {
+    name,
+    pid: 0,
+    state: SessionState.Running,
+    startedAt: new Date('2026-01-01T00:00:00.000Z'),
+    workingDirectory: '/tmp',
+    exitCode: null,
+    promptCount: 0,
+  };
+}
+
+class MockSession extends EventEmitter {
+  sendPrompt = vi.fn(async (prompt: string, options?: SendPromptOptions) => {
+    this.emit('promptStart', prompt);
+    for (const chunk of ['Hello ', 'world']) {
+      options?.onData?.(chunk);
+      this.emit('data', chunk);
+    }
+    this.emit('promptComplete', 'Hello world');
+    return 'Hello world';
+  });
+  cancelPrompt = vi.fn(() => true);
+  getInfo = vi.fn(() => makeInfo('alpha'));
+  getMetrics = vi.fn(() => ({
+    promptCount: 2,
+    avgResponseTimeMs: 1500,
+    totalResponseChars: 400,
+    estimatedTokens: 100,
+    uptimeMs: 60_000,
+  }));
+}
+
+function makeMockManager(session: MockSession): SessionManager {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    listSessions: vi.fn(() => [makeInfo('alpha')]),
+    getSession: vi.fn((name: string) => (name === 'alpha' ? session : undefined)),
+    getSessionInfo: vi.fn((name: string) => (name === 'alpha' ? makeInfo('alpha') : undefined)),
+    startSession: vi.fn(async () => session),
+    stopSession: vi.fn(async (name: string) => {
+      if (name !== 'alpha') throw new SessionNotFoundError(name);
+    }),
+    stopAll: vi.fn(async () => {}),
+    stopByTag: vi.fn(async () => 3),
+    broadcastPrompt: vi.fn(async (names: string[]) =>
+      names.map((sessionName) => ({ sessionName, status: 'fulfilled', response: 'ok' })),
+    ),
+    adoptSession: vi.fn(),
+    cancelPrompt: vi.fn((name: string) => {
+      if (name !== 'alpha') throw new SessionNotFoundError(name);
+      return session.cancelPrompt();
+    }),
+    getQueue: vi.fn(() => [{ id: 1, prompt: 'later', priority: 0, enqueuedAt: '2026-01-01T00:00:00.000Z' }]),
+    dropQueuedPrompt: vi.fn(),
+    clearQueue: vi.fn(() => 2),
+  }) as unknown as SessionManager;
+}
+
+function tmpSocketPath(): string {
+  return path.join(os.tmpdir(), `agentspawn-daemon-test-${process.pid}-${Math.random().toString(36).slice(2)}.sock`);
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────────
+
+describe('DaemonServer / DaemonClient', () => {
+  let socketPath: string;
+  let session: MockSession;
+  let manager: SessionManager;
+  let server: DaemonServer;
+  let client: DaemonClient;
+
+  beforeEach(async () => {
+    socketPath = tmpSocketPath();
+    session = new MockSession();
+    manager = makeMockManager(session);
+    server = new DaemonServer(manager, socketPath);
+    await server.start();
+    client = await DaemonClient.connect(socketPath);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.stop();
+  });
+
+  it('ping returns daemon status', async () => {
+    const status = await client.ping();
+    expect(status.pid).toBe(process.pid);
+    expect(status.socketPath).toBe(socketPath);
+    expect(status.sessionCount).toBe(1);
+  });
+
+  it('listSessions revives startedAt as a Date', async () => {
+    const sessions = await client.listSessions();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].name).toBe('alpha');
+    expect(sessions[0].startedAt).toBeInstanceOf(Date);
+  });
+
+  it('getSessionInfo returns undefined for unknown sessions', async () => {
+    expect(await client.getSessionInfo('ghost')).toBeUndefined();
+  });
+
+  it('getMetrics returns metrics for live sessions and null otherwise', async () => {
+    expect((await client.getMetrics('alpha'))?.promptCount).toBe(2);
+    expect(await client.getMetrics('ghost')).toBeNull();
+  });
+
+  it('sendPrompt streams chunks and resolves with the full response', async () => {
+    const chunks: string[] = [];
+    const response = await client.sendPrompt('alpha', 'hi', (c) => chunks.push(c));
+    expect(response).toBe('Hello world');
+    expect(chunks).toEqual(['Hello ', 'world']);
+    expect(session.sendPrompt).toHaveBeenCalledWith('hi', { priority: undefined, onData: expect.any(Function) });
+  });
+
+  it('sendPrompt streams only its own prompt, not those queued ahead of it', async () => {
+    session.sendPrompt.mockImplementationOnce(async (_prompt, options) => {
+      // Output of an earlier prompt still running on the session
+      session.emit('data', 'someone else ');
+      options?.onData?.('mine');
+      return 'mine';
+    });
+    const chunks: string[] = [];
+
+    expect(await client.sendPrompt('alpha', 'hi', (c) => chunks.push(c))).toBe('mine');
+    expect(chunks).toEqual(['mine']);
+  });
+
+  it('propagates AgentSpawnError codes to the client', async () => {
+    const err = await client.stopSession('ghost').catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AgentSpawnError);
+    expect((err as AgentSpawnError).code).toBe('SESSION_NOT_FOUND');
+    expect(err).toBeInstanceOf(SessionNotFoundError);
+    expect((err as Error).message).toBe('Session not found: ghost');
+  });
+
+  it('sendPrompt to an unknown session rejects with SESSION_NOT_FOUND', async () => {
+    const err = await client.sendPrompt('ghost', 'hi').catch((e: unknown) => e);
+    expect((err as AgentSpawnError).code).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('forwards session events to subscribed clients only', async () => {
+    const watcher = await DaemonClient.connect(socketPath);
+    const events: DaemonEvent[] = [];
+    watcher.onEvent((e) => events.push(e));
+    await watcher.subscribe('alpha');
+
+    const bystanderEvents: DaemonEvent[] = [];
+    client.onEvent((e) => bystanderEvents.push(e));
+
+    await client.sendPrompt('alpha', 'from another shell');
+    // Let the event frames flush
+    await new Promise((r) => setTimeout(r, 50));
+
+    expect(events.map((e) => e.event)).toEqual(['promptStart', 'data', 'data', 'promptComplete']);
+    expect(events[0].data).toBe('from another shell');
+    expect(bystanderEvents).toEqual([]);
+    watcher.close();
+  });
+
+  it('cancelPrompt cancels on the live session', async () => {
+    expect(await client.cancelPrompt('alpha')).toBe(true);
+    expect(session.cancelPrompt).toHaveBeenCalled();
+    const err = await client.cancelPrompt('ghost').catch((e: unknown) => e);
+    expect((err as AgentSpawnError).code).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('passes prompt priority through to the session', async () => {
+    await client.sendPrompt('alpha', 'urgent', undefined, { priority: 5 });
+    expect(session.sendPrompt).toHaveBeenCalledWith('urgent', { priority: 5, onData: expect.any(Function) });
+  });
+
+  it('queue methods delegate to the manager', async () => {
+    const queue = await client.getQueue('alpha');
+    expect(queue.map((q) => q.prompt)).toEqual(['later']);
+    await client.dropQueuedPrompt('alpha', 1);
+    expect(manager.dropQueuedPrompt).toHaveBeenCalledWith('alpha', 1);
+    expect(await client.clearQueue('alpha')).toBe(2);
+  });
+
+  it('stopByTag and broadcastPrompt delegate to the manager', async () => {
+    expect(await client.stopByTag('backend')).toBe(3);
+    const results = await client.broadcastPrompt(['alpha', 'beta'], 'go');
+    expect(results.map((r) => r.sessionName)).toEqual(['alpha', 'beta']);
+  });
+
+  it('emits shutdown when a client requests it', async () => {
+    const shutdown = new Promise<void>((resolve) => server.once('shutdown', () => resolve()));
+    await client.shutdown();
+    await expect(shutdown).resolves.toBeUndefined();
+  });
+
+  it('refuses to start a second daemon on the same socket', async () => {
+    const second = new DaemonServer(manager, socketPath);
+    await expect(second.start()).rejects.toBeInstanceOf(DaemonAlreadyRunningError);
+  });
+});
+
+describe('DaemonClient.connect', () => {
+  it('throws DaemonNotRunningError when no socket exists', async () => {
+    await expect(DaemonClient.connect(tmpSocketPath())).rejects.toBeInstanceOf(DaemonNotRunningError);
+  });
+
+  it('tryConnect returns null when no daemon is running', async () => {
+    expect(await DaemonClient.tryConnect(tmpSocketPath())).toBeNull();
+  });
+});
+
+describe('DaemonServer stale socket handling', () => {
+  it('removes a stale socket file left by a crashed daemon', async () => {
+    const socketPath = tmpSocketPath();
+    // Create a socket file with nothing listening behind it
+    const stale = net.createServer();
+    await new Promise<void>((resolve) => stale.listen(socketPath, () => resolve()));
+    await new Promise<void>((resolve) => {
+      // Close without unlinking to simulate a crash
+      stale.close(() => resolve());
+    });
+    await fs.writeFile(socketPath, '').catch(() => {});
+
+    const server = new DaemonServer(makeMockManager(new MockSession()), socketPath);
+    await server.start();
+    const client = await DaemonClient.connect(socketPath);
+    expect((await client.ping()).pid).toBe(process.pid);
+    client.close();
+    await server.stop();
+  });
+});
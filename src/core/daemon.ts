@@ -0,0 +1,383 @@
+import net from 'node:net';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { EventEmitter } from 'node:events';
+import type { SessionManager } from './manager.js';
+import type { Session } from './session.js';
+import type { ProviderEvent, SessionConfig, SessionInfo } from '../types.js';
+import { AgentSpawnError, DaemonAlreadyRunningError, SessionNotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Wire protocol for the AgentSpawn daemon.
+ *
+ * Every message is a single JSON object terminated by '\n'. Clients send
+ * requests; the daemon replies with exactly one 'result' or 'error' frame per
+ * request id, optionally preceded by 'chunk' frames for streaming methods.
+ * Subscribed clients additionally receive unsolicited 'event' frames.
+ */
+export interface DaemonRequest {
+  id: number;
+  method: DaemonMethod;
+  params?: Record<string, unknown>;
+}
+
+export type DaemonMethod =
+  | 'ping'
+  | 'listSessions'
+  | 'getSessionInfo'
+  | 'getMetrics'
+  | 'startSession'
+  | 'stopSession'
+  | 'stopAll'
+  | 'stopByTag'
+  | 'sendPrompt'
+  | 'cancelPrompt'
+  | 'getQueue'
+  | 'dropQueuedPrompt'
+  | 'clearQueue'
+  | 'broadcastPrompt'
+  | 'subscribe'
+  | 'unsubscribe'
+  | 'shutdown';
+
+export type DaemonFrame =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: { message: string; code: string } }
+  | { type: 'chunk'; id: number; chunk: string }
+  | { type: 'event'; sessionName: string; event: DaemonSessionEvent; data: unknown };
+
+/** Session events forwarded to subscribed clients. */
+export type DaemonSessionEvent =
+  | 'promptStart'
+  | 'data'
+  | 'promptComplete'
+  | 'promptError'
+  | 'promptCancelled'
+  | 'promptQueued'
+  | 'promptDequeued'
+  | 'providerEvent'
+  | 'budgetWarning'
+  | 'budgetExceeded'
+  | 'resourceWarning'
+  | 'crashed';
+
+export const DAEMON_SESSION_EVENTS: DaemonSessionEvent[] = [
+  'promptStart',
+  'data',
+  'promptComplete',
+  'promptError',
+  'promptCancelled',
+  'promptQueued',
+  'promptDequeued',
+  'providerEvent',
+  'budgetWarning',
+  'budgetExceeded',
+  'resourceWarning',
+  'crashed',
+];
+
+/** Subscription key that matches every session. */
+const ALL_SESSIONS = '*';
+
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string;
+  socketPath: string;
+  sessionCount: number;
+  clientCount: number;
+}
+
+/**
+ * DaemonServer — exposes a long-lived SessionManager over a local Unix socket.
+ *
+ * The daemon owns every session it starts, so prompts, metrics and crash
+ * handling are shared between CLI invocations in different shells. CLI
+ * commands talk to it through DaemonClient.
+ *
+ * Emits:
+ * - 'shutdown' — when a client requests shutdown (the owner should call stop())
+ */
+export class DaemonServer extends EventEmitter {
+  private server: net.Server | null = null;
+  private startedAt: Date | null = null;
+  private subscriptions: Map<net.Socket, Set<string>> = new Map();
+  private wiredSessions: WeakSet<Session> = new WeakSet();
+
+  constructor(
+    private readonly manager: SessionManager,
+    private readonly socketPath: string,
+  ) {
+    super();
+  }
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  async start(): Promise<void> {
+    await fs.mkdir(path.dirname(this.socketPath), { recursive: true });
+    await this.removeStaleSocket();
+
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.socketPath, () => {
+        this.server!.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    // Only the owning user may talk to the daemon
+    await fs.chmod(this.socketPath, 0o600);
+    this.startedAt = new Date();
+
+    for (const info of this.manager.listSessions()) {
+      const session = this.manager.getSession(info.name);
+      if (session) this.wireSession(info.name, session);
+    }
+
+    this.manager.on('sessionStarted', (info: SessionInfo) => {
+      const session = this.manager.getSession(info.name);
+      if (session) this.wireSession(info.name, session);
+    });
+
+    logger.info(`Daemon listening on ${this.socketPath}`);
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.subscriptions.keys()) {
+      socket.destroy();
+    }
+    this.subscriptions.clear();
+
+    await new Promise<void>((resolve) => {
+      if (this.server) {
+        this.server.close(() => resolve());
+        this.server = null;
+      } else {
+        resolve();
+      }
+    });
+
+    await fs.unlink(this.socketPath).catch(() => {
+      // Already removed by server.close() on most platforms
+    });
+    logger.info('Daemon stopped');
+  }
+
+  getStatus(): DaemonStatus {
+    return {
+      pid: process.pid,
+      startedAt: (this.startedAt ?? new Date()).toISOString(),
+      socketPath: this.socketPath,
+      sessionCount: this.manager.listSessions().length,
+      clientCount: this.subscriptions.size,
+    };
+  }
+
+  /**
+   * A leftover socket file from a crashed daemon blocks listen() with
+   * EADDRINUSE. Probe it first: if something answers, another daemon is
+   * alive; otherwise the file is stale and safe to remove.
+   */
+  private async removeStaleSocket(): Promise<void> {
+    try {
+      await fs.access(this.socketPath);
+    } catch {
+      return;
+    }
+
+    const alive = await new Promise<boolean>((resolve) => {
+      const probe = net.createConnection(this.socketPath);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once('error', () => resolve(false));
+    });
+
+    if (alive) {
+      throw new DaemonAlreadyRunningError(this.socketPath);
+    }
+
+    logger.warn(`Removing stale daemon socket ${this.socketPath}`);
+    await fs.unlink(this.socketPath);
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    this.subscriptions.set(socket, new Set());
+    let buffer = '';
+
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let request: DaemonRequest;
+        try {
+          request = JSON.parse(line) as DaemonRequest;
+        } catch {
+          logger.warn(`Daemon received malformed request: ${line.slice(0, 100)}`);
+          continue;
+        }
+        this.handleRequest(socket, request);
+      }
+    });
+
+    socket.on('close', () => {
+      this.subscriptions.delete(socket);
+    });
+
+    socket.on('error', (err) => {
+      logger.debug(`Daemon client socket error: ${err.message}`);
+    });
+  }
+
+  private handleRequest(socket: net.Socket, request: DaemonRequest): void {
+    this.dispatch(socket, request)
+      .then((result) => {
+        this.send(socket, { type: 'result', id: request.id, result: result ?? null });
+      })
+      .catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        const code = err instanceof AgentSpawnError ? err.code : 'DAEMON_REQUEST_FAILED';
+        this.send(socket, { type: 'error', id: request.id, error: { message, code } });
+      });
+  }
+
+  private async dispatch(socket: net.Socket, request: DaemonRequest): Promise<unknown> {
+    const params = request.params ?? {};
+
+    switch (request.method) {
+      case 'ping':
+        return this.getStatus();
+
+      case 'listSessions':
+        return this.manager.listSessions();
+
+      case 'getSessionInfo':
+        return this.manager.getSessionInfo(String(params.name)) ?? null;
+
+      case 'getMetrics': {
+        const session = this.manager.getSession(String(params.name));
+        return session ? session.getMetrics() : null;
+      }
+
+      case 'startSession': {
+        const session = await this.manager.startSession(params.config as SessionConfig);
+        this.wireSession(session.getInfo().name, session);
+        return session.getInfo();
+      }
+
+      case 'stopSession':
+        await this.manager.stopSession(String(params.name));
+        return null;
+
+      case 'stopAll': {
+        const count = this.manager.listSessions().length;
+        await this.manager.stopAll();
+        return count;
+      }
+
+      case 'stopByTag':
+        return this.manager.stopByTag(String(params.tag));
+
+      case 'sendPrompt': {
+        const name = String(params.name);
+        const session = await this.ensureSession(name);
+        const priority = typeof params.priority === 'number' ? params.priority : undefined;
+        return session.sendPrompt(String(params.prompt), {
+          priority,
+          onData: (chunk) => this.send(socket, { type: 'chunk', id: request.id, chunk }),
+        });
+      }
+
+      case 'cancelPrompt':
+        return this.manager.cancelPrompt(String(params.name));
+
+      case 'getQueue':
+        return this.manager.getQueue(String(params.name));
+
+      case 'dropQueuedPrompt':
+        this.manager.dropQueuedPrompt(String(params.name), Number(params.id));
+        return null;
+
+      case 'clearQueue':
+        return this.manager.clearQueue(String(params.name));
+
+      case 'broadcastPrompt':
+        return this.manager.broadcastPrompt(params.sessionNames as string[], String(params.prompt));
+
+      case 'subscribe': {
+        const name = typeof params.name === 'string' ? params.name : ALL_SESSIONS;
+        if (name !== ALL_SESSIONS) {
+          await this.ensureSession(name);
+        }
+        this.subscriptions.get(socket)?.add(name);
+        return null;
+      }
+
+      case 'unsubscribe': {
+        const name = typeof params.name === 'string' ? params.name : ALL_SESSIONS;
+        this.subscriptions.get(socket)?.delete(name);
+        return null;
+      }
+
+      case 'shutdown':
+        // Reply first, then let the owner tear everything down
+        setImmediate(() => this.emit('shutdown'));
+        return null;
+
+      default:
+        throw new AgentSpawnError(`Unknown daemon method: ${String(request.method)}`, 'DAEMON_UNKNOWN_METHOD');
+    }
+  }
+
+  /**
+   * Resolve a live session, adopting registry-only entries so the daemon
+   * becomes the owner of sessions started before it was running.
+   */
+  private async ensureSession(name: string): Promise<Session> {
+    const existing = this.manager.getSession(name);
+    if (existing) return existing;
+
+    if (!this.manager.getSessionInfo(name)) {
+      throw new SessionNotFoundError(name);
+    }
+    const adopted = await this.manager.adoptSession(name);
+    this.wireSession(name, adopted);
+    return adopted;
+  }
+
+  private wireSession(name: string, session: Session): void {
+    if (this.wiredSessions.has(session)) return;
+    this.wiredSessions.add(session);
+
+    for (const event of DAEMON_SESSION_EVENTS) {
+      session.on(event, (data: unknown) => {
+        // Text already reaches subscribers as 'data'
+        if (event === 'providerEvent' && (data as ProviderEvent).type === 'text') return;
+        const payload = data instanceof Error ? { message: data.message } : data;
+        this.publish(name, event, payload);
+      });
+    }
+  }
+
+  private publish(sessionName: string, event: DaemonSessionEvent, data: unknown): void {
+    for (const [socket, names] of this.subscriptions) {
+      if (names.has(sessionName) || names.has(ALL_SESSIONS)) {
+        this.send(socket, { type: 'event', sessionName, event, data });
+      }
+    }
+  }
+
+  private send(socket: net.Socket, frame: DaemonFrame): void {
+    if (socket.destroyed || !socket.writable) return;
+    socket.write(JSON.stringify(frame) + '\n');
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isBinary,
+  splitLines,
+  diffLines,
+  diffText,
+  formatPatch,
+  formatStat,
+  toSideBySide,
+} from './diff.js';
+import type { FileDiff } from './diff.js';
+
+function file(overrides: Partial<FileDiff>): FileDiff {
+  return { path: 'f.txt', status: 'M', binary: false, additions: 0, deletions: 0, hunks: [], ...overrides };
+}
+
+describe('splitLines', () => {
+  it('does not start a line after a trailing newline', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitLines('a\nb\n')).toEqual(['a', 'b']);
+  });
+
+  it('keeps carriage returns as part of the line', () => {
+    expect(splitLines('a\r\nb')).toEqual(['a\r', 'b']);
+  });
+});
+
+describe('isBinary', () => {
+  it('treats content with a NUL byte as binary', () => {
+    expect(isBinary(Buffer.from('plain text\n'))).toBe(false);
+    expect(isBinary(Buffer.from([0x89, 0x50, 0x00, 0x47]))).toBe(true);
+  });
+});
+
+describe('diffLines', () => {
+  it('produces a shortest edit script with line numbers', () => {
+    const lines = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']);
+    expect(lines.map((l) => `${l.kind[0]}${l.text}`)).toEqual(['ca', 'rb', 'cc', 'ax', 'cd']);
+    expect(lines[3]).toEqual({ kind: 'add', text: 'x', newLine: 3 });
+    expect(lines[4]).toEqual({ kind: 'context', text: 'd', oldLine: 4, newLine: 4 });
+  });
+
+  it('handles empty sides', () => {
+    expect(diffLines([], ['a']).map((l) => l.kind)).toEqual(['add']);
+    expect(diffLines(['a'], []).map((l) => l.kind)).toEqual(['remove']);
+    expect(diffLines([], [])).toEqual([]);
+  });
+});
+
+describe('diffText', () => {
+  it('groups changes into hunks with three lines of context', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+
+    const hunks = diffText(before.join('\n') + '\n', after.join('\n') + '\n');
+
+    expect(hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([
+      [1, 5, 1, 5],
+      [15, 6, 15, 6],
+    ]);
+  });
+
+  it('merges changes whose context overlaps', () => {
+    const hunks = diffText('1\n2\n3\n4\n5\n6\n7\n', '1\nX\n3\n4\n5\nY\n7\n');
+    expect(hunks).toHaveLength(1);
+  });
+
+  it('uses zero-line ranges for created and deleted files', () => {
+    expect(diffText(null, 'a\nb\n').map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[0, 0, 1, 2]]);
+    expect(diffText('a\n', null).map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[1, 1, 0, 0]]);
+  });
+});
+
+describe('formatPatch', () => {
+  it('formats a git-style unified patch', () => {
+    const patch = formatPatch(file({ path: 'src/a.ts', hunks: diffText('one\ntwo\n', 'one\n2\n') }));
+    expect(patch).toBe([
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' one',
+      '-two',
+      '+2',
+      '',
+    ].join('\n'));
+  });
+
+  it('marks lines without a final newline', () => {
+    expect(formatPatch(file({ hunks: diffText('a\nb', 'a\nb\n') }))).toContain(
+      '@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n',
+    );
+    expect(formatPatch(file({ hunks: diffText('a\n', 'a\nb') }))).toContain(
+      '@@ -1,1 +1,2 @@\n a\n+b\n\\ No newline at end of file\n',
+    );
+    expect(formatPatch(file({ hunks: diffText('a\nb', 'x\nb') }))).toContain(
+      ' b\n\\ No newline at end of file\n',
+    );
+  });
+
+  it('patches CRLF line endings as they are', () => {
+    const patch = formatPatch(file({ hunks: diffText('one\r\ntwo\r\n', 'one\r\n2\r\n') }));
+    expect(patch).toContain(' one\r\n-two\r\n+2\r\n');
+  });
+
+  it('marks new, deleted and binary files', () => {
+    expect(formatPatch(file({ status: 'A', hunks: diffText(null, 'x\n') }))).toContain('new file mode 100644\n--- /dev/null\n+++ b/f.txt');
+    expect(formatPatch(file({ status: 'D', hunks: diffText('x\n', null) }))).toContain('--- a/f.txt\n+++ /dev/null');
+    expect(formatPatch(file({ binary: true }))).toContain('Binary files a/f.txt and b/f.txt differ');
+  });
+});
+
+describe('formatStat', () => {
+  it('summarizes changes per file with a total', () => {
+    const stat = formatStat([
+      file({ path: 'a.ts', additions: 3, deletions: 1 }),
+      file({ path: 'logo.png', binary: true }),
+    ]);
+    expect(stat.split('\n')).toEqual([
+      ' a.ts     | 4 +++-',
+      ' logo.png | Bin',
+      ' 2 files changed, 3 insertions(+), 1 deletion(-)',
+    ]);
+  });
+
+  it('scales bars to the width', () => {
+    const stat = formatStat([file({ additions: 100, deletions: 100 })], 10);
+    expect(stat.split('\n')[0]).toBe(' f.txt | 200 +++++-----');
+  });
+});
+
+describe('toSideBySide', () => {
+  it('pairs removed lines with the added lines that replace them', () => {
+    const [hunk] = diffText('a\nb\nc\nd\n', 'a\nB\nC\nD\nd\n');
+    const rows = toSideBySide(hunk).map((r) => [r.left?.text ?? null, r.right?.text ?? null]);
+    expect(rows).toEqual([
+      ['a', 'a'],
+      ['b', 'B'],
+      ['c', 'C'],
+      [null, 'D'],
+      ['d', 'd'],
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Line diffs: Myers' O(ND) algorithm, unified-patch formatting and a
+ * side-by-side view for the TUI.
+ */
+
+export type DiffLineKind = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  /** 1-based line number in the old file (context and remove lines). */
+  oldLine?: number;
+  /** 1-based line number in the new file (context and add lines). */
+  newLine?: number;
+  /** Set on the last line of a file that does not end with a newline. */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/** One changed file, as produced by the sandbox diff. */
+export interface FileDiff {
+  /** Relative to the session's working directory. */
+  path: string;
+  /** A: added, M: modified, D: deleted. */
+  status: 'A' | 'M' | 'D';
+  binary: boolean;
+  /** Set when the file is too large to diff line by line. */
+  tooLarge?: boolean;
+  additions: number;
+  deletions: number;
+  /** Empty for binary and too-large files. */
+  hunks: DiffHunk[];
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/** Lines of context around each change in a hunk, as in `diff -u`. */
+export const DEFAULT_CONTEXT_LINES = 3;
+/** Beyond this many edits the middle of a file is shown as replaced wholesale. */
+const MAX_EDIT_DISTANCE = 2000;
+/** git's heuristic: a NUL byte in the first 8000 bytes means binary. */
+const BINARY_SNIFF_BYTES = 8000;
+
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Split into lines on `\n`; a trailing newline does not start another line.
+ * A `\r` before the `\n` stays part of the line, so CRLF files are patched
+ * byte for byte.
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/** Whether the last line of `text` lacks its newline. */
+function lacksFinalNewline(text: string): boolean {
+  return text !== '' && !text.endsWith('\n');
+}
+
+type Op = '=' | '-' | '+';
+
+/**
+ * Shortest edit script between `a` and `b`. `trace[d]` keeps the furthest
+ * x reached on each diagonal k in [-d, d] after d edits, at index k + d.
+ */
+function myers(a: string[], b: string[]): Op[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const v = new Map<number, number>([[1, 0]]);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    const snapshot = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v.get(k - 1)! < v.get(k + 1)!) ? v.get(k + 1)! : v.get(k - 1)! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v.set(k, x);
+      snapshot[k + d] = x;
+      if (x >= n && y >= m) {
+        trace.push(snapshot);
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(snapshot);
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Op[] {
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const at = (k: number): number => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('=');
+      x--;
+      y--;
+    }
+    if (prevK === k + 1) {
+      ops.push('+');
+      y--;
+    } else {
+      ops.push('-');
+      x--;
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push('=');
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Every line of both files, tagged as context, add or remove. Common
+ * prefix and suffix are matched up front so only the middle is searched.
+ * `noNewline` says which files end without a newline: their last line then
+ * differs from the same text with one, as in git.
+ */
+export function diffLines(
+  a: string[],
+  b: string[],
+  noNewline: { old?: boolean; new?: boolean } = {},
+): DiffLine[] {
+  // Compare lines with their terminators, so a missing final newline is a change
+  const keyA = a.map((line, i) => (noNewline.old && i === a.length - 1 ? line : `${line}\n`));
+  const keyB = b.map((line, i) => (noNewline.new && i === b.length - 1 ? line : `${line}\n`));
+
+  let prefix = 0;
+  while (prefix < keyA.length && prefix < keyB.length && keyA[prefix] === keyB[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < keyA.length - prefix &&
+    suffix < keyB.length - prefix &&
+    keyA[keyA.length - 1 - suffix] === keyB[keyB.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = keyA.slice(prefix, keyA.length - suffix);
+  const midB = keyB.slice(prefix, keyB.length - suffix);
+  const ops: Op[] = [
+    ...Array<Op>(prefix).fill('='),
+    ...(myers(midA, midB) ?? [...Array<Op>(midA.length).fill('-'), ...Array<Op>(midB.length).fill('+')]),
+    ...Array<Op>(suffix).fill('='),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    let line: DiffLine;
+    if (op === '=') {
+      oldLine++;
+      newLine++;
+      line = { kind: 'context', text: a[oldLine - 1], oldLine, newLine };
+    } else if (op === '-') {
+      oldLine++;
+      line = { kind: 'remove', text: a[oldLine - 1], oldLine };
+    } else {
+      newLine++;
+      line = { kind: 'add', text: b[newLine - 1], newLine };
+    }
+    const lastOld = op !== '+' && noNewline.old && oldLine === a.length;
+    const lastNew = op !== '-' && noNewline.new && newLine === b.length;
+    if (lastOld || lastNew) line.noNewline = true;
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Group changed lines into hunks with `context` lines around them. */
+export function buildHunks(lines: DiffLine[], context: number = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].kind === 'context') {
+      i++;
+      continue;
+    }
+    const start = Math.max(0, i - context);
+    let end = i;
+    // Extend while the next change is close enough to share context
+    for (let j = i; j < lines.length; j++) {
+      if (lines[j].kind !== 'context') end = j;
+      else if (j - end > 2 * context) break;
+    }
+    const stop = Math.min(lines.length, end + context + 1);
+    const slice = lines.slice(start, stop);
+
+    // Line counts before the hunk give the start for empty sides (e.g. -0,0)
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter((l) => l.kind !== 'add').length;
+    const newBefore = before.filter((l) => l.kind !== 'remove').length;
+    const oldLines = slice.filter((l) => l.kind !== 'add').length;
+    const newLines = slice.filter((l) => l.kind !== 'remove').length;
+    hunks.push({
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: slice,
+    });
+    i = stop;
+  }
+  return hunks;
+}
+
+/** Hunks turning `oldText` into `newText`; null stands for a missing file. */
+export function diffText(oldText: string | null, newText: string | null, context?: number): DiffHunk[] {
+  const noNewline = { old: lacksFinalNewline(oldText ?? ''), new: lacksFinalNewline(newText ?? '') };
+  return buildHunks(diffLines(splitLines(oldText ?? ''), splitLines(newText ?? ''), noNewline), context);
+}
+
+/**
+ * Format one file as a git-style unified patch, so the output of several
+ * files concatenated can be applied with `git apply` or `patch -p1`.
+ */
+export function formatPatch(file: FileDiff): string {
+  const out = [`diff --git a/${file.path} b/${file.path}`];
+  if (file.status === 'A') out.push('new file mode 100644');
+  if (file.status === 'D') out.push('deleted file mode 100644');
+  const oldName = file.status === 'A' ? '/dev/null' : `a/${file.path}`;
+  const newName = file.status === 'D' ? '/dev/null' : `b/${file.path}`;
+
+  if (file.binary || file.tooLarge) {
+    out.push(`Binary files ${oldName} and ${newName} differ`);
+    return out.join('\n') + '\n';
+  }
+  if (file.hunks.length === 0) {
+    return out.join('\n') + '\n';
+  }
+
+  out.push(`--- ${oldName}`, `+++ ${newName}`);
+  for (const hunk of file.hunks) {
+    out.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      out.push((line.kind === 'add' ? '+' : line.kind === 'remove' ? '-' : ' ') + line.text);
+      if (line.noNewline) out.push('\\ No newline at end of file');
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Format a `git diff --stat`-like summary: one bar per file plus a total.
+ */
+export function formatStat(files: FileDiff[], width: number = 40): string {
+  if (files.length === 0) return '';
+  const nameWidth = Math.max(...files.map((f) => f.path.length));
+  const maxChanges = Math.max(1, ...files.map((f) => f.additions + f.deletions));
+  const countWidth = String(maxChanges).length;
+  const scale = Math.min(1, width / maxChanges);
+
+  const lines = files.map((f) => {
+    const name = f.path.padEnd(nameWidth);
+    if (f.binary || f.tooLarge) return ` ${name} | ${'Bin'.padStart(countWidth)}`;
+    const total = f.additions + f.deletions;
+    const plus = '+'.repeat(Math.ceil(f.additions * scale));
+    const minus = '-'.repeat(Math.ceil(f.deletions * scale));
+    return ` ${name} | ${String(total).padStart(countWidth)} ${plus}${minus}`.trimEnd();
+  });
+
+  const additions = files.reduce((sum, f) => sum + f.additions, 0);
+  const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+  lines.push(
+    ` ${files.length} file${files.length === 1 ? '' : 's'} changed, ` +
+      `${additions} insertion${additions === 1 ? '' : 's'}(+), ${deletions} deletion${deletions === 1 ? '' : 's'}(-)`,
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Lay a hunk out in two columns: context on both sides, and each run of
+ * removed lines paired with the added lines that follow it.
+ */
+export function toSideBySide(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+  while (i < hunk.lines.length) {
+    const line = hunk.lines[i];
+    if (line.kind === 'context') {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < hunk.lines.length && hunk.lines[i].kind === 'remove') removed.push(hunk.lines[i++]);
+    while (i < hunk.lines.length && hunk.lines[i].kind === 'add') added.push(hunk.lines[i++]);
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j] ?? null, right: added[j] ?? null });
+    }
+  }
+  return rows;
+}
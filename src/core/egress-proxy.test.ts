@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import net from 'node:net';
+import { EgressProxy, isEgressAllowed, parseEgressRule } from './egress-proxy.js';
+import type { EgressDenial } from './egress-proxy.js';
+import { InvalidEgressRuleError } from '../utils/errors.js';
+
+describe('parseEgressRule', () => {
+  it('parses hosts, ports and wildcards', () => {
+    expect(parseEgressRule('API.Anthropic.com')).toEqual({ host: 'api.anthropic.com', wildcard: false });
+    expect(parseEgressRule('registry.npmjs.org:443')).toEqual({ host: 'registry.npmjs.org', wildcard: false, port: 443 });
+    expect(parseEgressRule('*.github.com')).toEqual({ host: 'github.com', wildcard: true });
+    expect(parseEgressRule('10.0.0.5:8080')).toEqual({ host: '10.0.0.5', wildcard: false, port: 8080 });
+  });
+
+  it('throws InvalidEgressRuleError for malformed rules', () => {
+    expect(() => parseEgressRule('')).toThrow(InvalidEgressRuleError);
+    expect(() => parseEgressRule('https://example.com')).toThrow(InvalidEgressRuleError);
+    expect(() => parseEgressRule('example.com:0')).toThrow(InvalidEgressRuleError);
+    expect(() => parseEgressRule('*')).toThrow(InvalidEgressRuleError);
+  });
+});
+
+describe('isEgressAllowed', () => {
+  const rules = ['api.anthropic.com:443', '*.github.com'].map(parseEgressRule);
+
+  it('matches exact hosts on their port only', () => {
+    expect(isEgressAllowed('api.anthropic.com', 443, rules)).toBe(true);
+    expect(isEgressAllowed('API.anthropic.com.', 443, rules)).toBe(true);
+    expect(isEgressAllowed('api.anthropic.com', 80, rules)).toBe(false);
+  });
+
+  it('matches subdomains of a wildcard but not the domain itself', () => {
+    expect(isEgressAllowed('raw.github.com', 443, rules)).toBe(true);
+    expect(isEgressAllowed('a.b.github.com', 22, rules)).toBe(true);
+    expect(isEgressAllowed('github.com', 443, rules)).toBe(false);
+    expect(isEgressAllowed('evilgithub.com', 443, rules)).toBe(false);
+  });
+});
+
+describe('EgressProxy', () => {
+  let upstream: http.Server;
+  let upstreamPort: number;
+  let proxy: EgressProxy;
+  let proxyPort: number;
+  let denials: EgressDenial[];
+
+  beforeEach(async () => {
+    upstream = http.createServer((req, res) => res.end(`upstream saw ${req.url}`));
+    await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+    upstreamPort = (upstream.address() as net.AddressInfo).port;
+
+    denials = [];
+    proxy = new EgressProxy({
+      allow: [parseEgressRule('127.0.0.1')],
+      onDeny: (denial) => denials.push(denial),
+    });
+    proxyPort = parseInt(new URL(await proxy.start()).port, 10);
+  });
+
+  afterEach(async () => {
+    await proxy.stop();
+    await new Promise<void>((resolve) => upstream.close(() => resolve()));
+  });
+
+  function proxiedGet(url: string): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port: proxyPort, path: url }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+      }).on('error', reject);
+    });
+  }
+
+  function connect(authority: string): Promise<{ status: number; socket: net.Socket }> {
+    return new Promise((resolve, reject) => {
+      http.request({ host: '127.0.0.1', port: proxyPort, method: 'CONNECT', path: authority })
+        .on('connect', (res, socket) => resolve({ status: res.statusCode ?? 0, socket }))
+        .on('error', reject)
+        .end();
+    });
+  }
+
+  it('forwards plain HTTP requests to allowed hosts', async () => {
+    const res = await proxiedGet(`http://127.0.0.1:${upstreamPort}/status?x=1`);
+
+    expect(res).toEqual({ status: 200, body: 'upstream saw /status?x=1' });
+    expect(denials).toEqual([]);
+  });
+
+  it('refuses plain HTTP requests to other hosts and reports them', async () => {
+    const res = await proxiedGet('http://blocked.example:8080/');
+
+    expect(res.status).toBe(403);
+    expect(denials).toEqual([{ host: 'blocked.example', port: 8080, method: 'GET' }]);
+  });
+
+  it('tunnels CONNECT to allowed hosts', async () => {
+    const { status, socket } = await connect(`127.0.0.1:${upstreamPort}`);
+    expect(status).toBe(200);
+
+    const response = await new Promise<string>((resolve) => {
+      let data = '';
+      socket.on('data', (chunk) => (data += chunk));
+      socket.on('end', () => resolve(data));
+      socket.write('GET /tunnelled HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: close\r\n\r\n');
+    });
+
+    expect(response).toContain('upstream saw /tunnelled');
+  });
+
+  it('refuses CONNECT to other hosts and reports them', async () => {
+    const { status, socket } = await connect('api.example.com:443');
+    socket.destroy();
+
+    expect(status).toBe(403);
+    expect(denials).toEqual([{ host: 'api.example.com', port: 443, method: 'CONNECT' }]);
+  });
+
+  it('clears its URL when stopped', async () => {
+    expect(proxy.getUrl()).toBe(`http://127.0.0.1:${proxyPort}`);
+    await proxy.stop();
+    expect(proxy.getUrl()).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import http from 'node:http';
+import net from 'node:net';
+import { InvalidEgressRuleError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/** One entry of an egress allowlist. */
+export interface EgressRule {
+  /** Lowercased host name or IP address, without the `*.` of a wildcard. */
+  host: string;
+  /** `*.example.com`: any subdomain of the host, but not the host itself. */
+  wildcard: boolean;
+  /** Any port when absent. */
+  port?: number;
+}
+
+/** A connection the proxy refused. */
+export interface EgressDenial {
+  host: string;
+  port: number;
+  /** CONNECT for HTTPS tunnels, otherwise the method of a plain HTTP request. */
+  method: string;
+}
+
+export interface EgressProxyOptions {
+  allow: EgressRule[];
+  /** Address to listen on. Default: 127.0.0.1. */
+  listenHost?: string;
+  onDeny?: (denial: EgressDenial) => void;
+}
+
+const HOST_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+/**
+ * Parse an allowlist entry: `host`, `host:port`, `*.domain` or
+ * `*.domain:port`. IPv6 literals are not supported.
+ */
+export function parseEgressRule(text: string): EgressRule {
+  let rest = text.trim().toLowerCase();
+  let port: number | undefined;
+
+  const portMatch = /:(\d+)$/.exec(rest);
+  if (portMatch) {
+    port = parseInt(portMatch[1], 10);
+    if (port < 1 || port > 65535) {
+      throw new InvalidEgressRuleError(`"${text}" has a port outside 1-65535`);
+    }
+    rest = rest.slice(0, portMatch.index);
+  }
+
+  const wildcard = rest.startsWith('*.');
+  if (wildcard) rest = rest.slice(2);
+  if (!HOST_PATTERN.test(rest)) {
+    throw new InvalidEgressRuleError(`"${text}" must look like host, host:port or *.domain[:port]`);
+  }
+  return port === undefined ? { host: rest, wildcard } : { host: rest, wildcard, port };
+}
+
+export function isEgressAllowed(host: string, port: number, rules: EgressRule[]): boolean {
+  const name = host.toLowerCase().replace(/\.$/, '');
+  return rules.some((rule) => {
+    if (rule.port !== undefined && rule.port !== port) return false;
+    return rule.wildcard ? name.endsWith(`.${rule.host}`) : name === rule.host;
+  });
+}
+
+/** Split `host:port` (the CONNECT target form); null when malformed. */
+function parseAuthority(authority: string): { host: string; port: number } | null {
+  const match = /^([^:/\s]+):(\d+)$/.exec(authority);
+  if (!match) return null;
+  const port = parseInt(match[2], 10);
+  return port >= 1 && port <= 65535 ? { host: match[1], port } : null;
+}
+
+/**
+ * EgressProxy — a forward HTTP proxy that only lets connections through to
+ * allowlisted hosts.
+ *
+ * HTTPS goes through CONNECT tunnels, so the proxy sees the host name and
+ * port but never the traffic. Plain HTTP requests with an absolute URL are
+ * forwarded. Anything else, and anything not on the allowlist, gets a 403
+ * and is reported to `onDeny`.
+ */
+export class EgressProxy {
+  private server: http.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+  private url: string | null = null;
+
+  constructor(private readonly options: EgressProxyOptions) {}
+
+  /** Listen on an ephemeral port; resolves to the proxy URL. */
+  async start(): Promise<string> {
+    const listenHost = this.options.listenHost ?? '127.0.0.1';
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    server.on('connect', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => this.handleConnect(req, socket, head));
+    server.on('connection', (socket: net.Socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, listenHost, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = server.address() as net.AddressInfo;
+    this.server = server;
+    this.url = `http://${listenHost}:${port}`;
+    return this.url;
+  }
+
+  getUrl(): string | null {
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    this.url = null;
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private deny(denial: EgressDenial): void {
+    logger.debug(`Egress denied: ${denial.method} ${denial.host}:${denial.port}`);
+    this.options.onDeny?.(denial);
+  }
+
+  private handleConnect(req: http.IncomingMessage, client: net.Socket, head: Buffer): void {
+    client.on('error', () => { /* the client went away */ });
+    const target = parseAuthority(req.url ?? '');
+    if (!target || !isEgressAllowed(target.host, target.port, this.options.allow)) {
+      if (target) this.deny({ ...target, method: 'CONNECT' });
+      client.end(`HTTP/1.1 ${target ? '403 Forbidden' : '400 Bad Request'}\r\n\r\n`);
+      return;
+    }
+
+    const upstream = net.connect(target.port, target.host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    this.sockets.add(upstream);
+    upstream.on('close', () => this.sockets.delete(upstream));
+    upstream.on('error', () => {
+      if (!client.destroyed) client.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+    });
+    client.on('close', () => upstream.destroy());
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let url: URL;
+    try {
+      url = new URL(req.url ?? '');
+    } catch {
+      res.writeHead(400).end('Proxy requests need an absolute URL\n');
+      return;
+    }
+    if (url.protocol !== 'http:') {
+      res.writeHead(400).end('Only http:// URLs can be proxied; use CONNECT for https\n');
+      return;
+    }
+
+    const port = url.port ? parseInt(url.port, 10) : 80;
+    if (!isEgressAllowed(url.hostname, port, this.options.allow)) {
+      this.deny({ host: url.hostname, port, method: req.method ?? 'GET' });
+      res.writeHead(403).end(`Egress to ${url.hostname}:${port} is not allowed by the sandbox policy\n`);
+      return;
+    }
+
+    const headers = { ...req.headers };
+    delete headers['proxy-connection'];
+    delete headers['proxy-authorization'];
+    const upstream = http.request(
+      { host: url.hostname, port, method: req.method, path: url.pathname + url.search, headers },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      },
+    );
+    upstream.on('error', () => {
+      if (!res.headersSent) res.writeHead(502);
+      res.end();
+    });
+    req.pipe(upstream);
+  }
+}
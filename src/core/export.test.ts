@@ -667,4 +667,35 @@ describe('ExportFormatter', () => {
       expect(text).toContain('ENTRIES: 3');
     });
   });
+  // ── transcripts ─────────────────────────────────────────────────────────────
+
+  describe('full transcripts', () => {
+    it('should export the full response, result line and stderr when a transcript exists', () => {
+      const fullResponse = 'f'.repeat(600);
+      const entries = [{
+        ...sampleEntries[0],
+        transcript: {
+          prompt: sampleEntries[0].prompt,
+          response: fullResponse,
+          stderr: 'rate limited, retrying\n',
+          startedAt: '2026-02-15T10:00:00.000Z',
+          completedAt: '2026-02-15T10:00:04.000Z',
+          durationMs: 4000,
+          exitCode: 0,
+          signal: null,
+          outcome: 'completed' as const,
+        },
+      }];
+      const metadata = ExportFormatter.computeMetadata('my-session', entries);
+
+      const markdown = ExportFormatter.toMarkdown(entries, metadata);
+      expect(markdown).toContain(fullResponse);
+      expect(markdown).toContain('**Result:** completed, 4000ms, exit 0');
+      expect(markdown).toContain('rate limited, retrying');
+
+      const text = ExportFormatter.toPlainText(entries, metadata);
+      expect(text).toContain(fullResponse);
+      expect(text).toContain('STDERR:');
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { PromptHistoryEntry } from '../types.js';
+import { FullHistoryEntry, PromptHistoryEntry, TranscriptTurn } from '../types.js';
 
 export interface ExportMetadata {
   sessionName: string;
@@ -10,6 +10,22 @@ export interface ExportMetadata {
   };
 }
 
+/** Full response when a transcript turn exists, otherwise the index preview. */
+function responseText(entry: FullHistoryEntry): string {
+  return entry.transcript ? entry.transcript.response : entry.responsePreview;
+}
+
+/** Summaries of the tool calls made during a turn, e.g. "Edited src/foo.ts". */
+function toolSummaries(turn: TranscriptTurn): string[] {
+  return (turn.events ?? []).flatMap((e) => (e.type === 'tool_use' ? [e.summary] : []));
+}
+
+/** One-line summary of a transcript turn's timing and exit status. */
+function turnSummary(turn: TranscriptTurn): string {
+  const exit = turn.exitCode !== null ? `exit ${turn.exitCode}` : turn.signal ? `signal ${turn.signal}` : 'no exit code';
+  return `${turn.outcome}, ${turn.durationMs}ms, ${exit}`;
+}
+
 /**
  * ExportFormatter provides static methods to export prompt history
  * in multiple formats (Markdown, JSON, plain text).
@@ -55,11 +71,14 @@ export class ExportFormatter {
    * - Level 2 headings per prompt (indexed)
    * - Full prompt and response content preserved
    *
+   * Entries carrying a transcript turn export the full response, plus its
+   * outcome, duration, exit code and any stderr.
+   *
    * @param entries - Array of prompt history entries (should be in chronological order for export)
    * @param metadata - Metadata object (computed via computeMetadata)
    * @returns Markdown-formatted string
    */
-  static toMarkdown(entries: PromptHistoryEntry[], metadata: ExportMetadata): string {
+  static toMarkdown(entries: FullHistoryEntry[], metadata: ExportMetadata): string {
     const lines: string[] = [];
 
     // Header
@@ -93,6 +112,9 @@ export class ExportFormatter {
       lines.push(`## Prompt #${entry.index}`);
       lines.push('');
       lines.push(`**Timestamp:** ${entry.timestamp}`);
+      if (entry.transcript) {
+        lines.push(`**Result:** ${turnSummary(entry.transcript)}`);
+      }
       lines.push('');
       lines.push('**Prompt:**');
       lines.push('');
@@ -103,9 +125,26 @@ export class ExportFormatter {
       lines.push('**Response:**');
       lines.push('');
       lines.push('```');
-      lines.push(entry.responsePreview || '(no response)');
+      lines.push(responseText(entry) || '(no response)');
       lines.push('```');
       lines.push('');
+      const tools = entry.transcript ? toolSummaries(entry.transcript) : [];
+      if (tools.length > 0) {
+        lines.push('**Tools:**');
+        lines.push('');
+        for (const tool of tools) {
+          lines.push(`- ${tool}`);
+        }
+        lines.push('');
+      }
+      if (entry.transcript?.stderr) {
+        lines.push('**Stderr:**');
+        lines.push('');
+        lines.push('```');
+        lines.push(entry.transcript.stderr.trimEnd());
+        lines.push('```');
+        lines.push('');
+      }
     }
 
     return lines.join('\n');
@@ -124,7 +163,7 @@ export class ExportFormatter {
    * @param metadata - Metadata object (computed via computeMetadata)
    * @returns JSON-formatted string with 2-space indentation
    */
-  static toJSON(entries: PromptHistoryEntry[], metadata: ExportMetadata): string {
+  static toJSON(entries: FullHistoryEntry[], metadata: ExportMetadata): string {
     const output = {
       metadata,
       entries,
@@ -146,7 +185,7 @@ export class ExportFormatter {
    * @param metadata - Metadata object (computed via computeMetadata)
    * @returns Plain text formatted string
    */
-  static toPlainText(entries: PromptHistoryEntry[], metadata: ExportMetadata): string {
+  static toPlainText(entries: FullHistoryEntry[], metadata: ExportMetadata): string {
     const lines: string[] = [];
     const separator = '='.repeat(80);
 
@@ -176,13 +215,29 @@ export class ExportFormatter {
     // Entries
     for (const entry of entries) {
       lines.push(`[#${entry.index}] ${entry.timestamp}`);
+      if (entry.transcript) {
+        lines.push(`RESULT: ${turnSummary(entry.transcript)}`);
+      }
       lines.push('');
       lines.push('PROMPT:');
       lines.push(entry.prompt);
       lines.push('');
       lines.push('RESPONSE:');
-      lines.push(entry.responsePreview || '(no response)');
+      lines.push(responseText(entry) || '(no response)');
       lines.push('');
+      const tools = entry.transcript ? toolSummaries(entry.transcript) : [];
+      if (tools.length > 0) {
+        lines.push('TOOLS:');
+        for (const tool of tools) {
+          lines.push(`  ${tool}`);
+        }
+        lines.push('');
+      }
+      if (entry.transcript?.stderr) {
+        lines.push('STDERR:');
+        lines.push(entry.transcript.stderr.trimEnd());
+        lines.push('');
+      }
       lines.push('-'.repeat(80));
       lines.push('');
     }
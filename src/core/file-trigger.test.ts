@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { MockInstance } from 'vitest';
+import fs from 'node:fs';
+import { EventEmitter } from 'node:events';
+import {
+  FileTriggerWatcher,
+  globBase,
+  globToRegExp,
+  parseFileTriggerFlag,
+  renderTriggerPrompt,
+  validateFileTrigger,
+} from './file-trigger.js';
+import { SessionState } from '../types.js';
+import type { FileTrigger } from '../types.js';
+import type { Session } from './session.js';
+import { InvalidFileTriggerError } from '../utils/errors.js';
+
+const WORKDIR = '/repo';
+
+/** Session stand-in: sendPrompt starts the prompt synchronously, like an idle Session. */
+class FakeSession extends EventEmitter {
+  queue: unknown[] = [];
+  state = SessionState.Running;
+  sendPrompt = vi.fn((prompt: string) => {
+    this.emit('promptStart', prompt);
+    return Promise.resolve('ok');
+  });
+  getConfig() {
+    return { name: 'api', workingDirectory: WORKDIR };
+  }
+  getQueue() {
+    return this.queue;
+  }
+  getState() {
+    return this.state;
+  }
+}
+
+describe('globToRegExp', () => {
+  it.each([
+    ['*.ts', 'index.ts', true],
+    ['*.ts', 'src/index.ts', false],
+    ['src/**/*.ts', 'src/index.ts', true],
+    ['src/**/*.ts', 'src/core/deep/a.ts', true],
+    ['src/**', 'src/a/b', true],
+    ['**/*.test.ts', 'a.test.ts', true],
+    ['reports/junit-?.xml', 'reports/junit-1.xml', true],
+    ['reports/junit-?.xml', 'reports/junit-12.xml', false],
+    ['{src,lib}/*.js', 'lib/a.js', true],
+    ['{src,lib}/*.js', 'test/a.js', false],
+    ['log[0-9].txt', 'log3.txt', true],
+    ['log[!0-9].txt', 'log3.txt', false],
+    ['a.b', 'axb', false],
+  ])('%s matches %s: %s', (glob, file, expected) => {
+    expect(globToRegExp(glob).test(file)).toBe(expected);
+  });
+
+  it('rejects an unclosed brace', () => {
+    expect(() => globToRegExp('{a,b')).toThrow(InvalidFileTriggerError);
+  });
+});
+
+describe('globBase', () => {
+  it('returns the directory before the first wildcard', () => {
+    expect(globBase('src/**/*.ts')).toBe('src');
+    expect(globBase('reports/junit.xml')).toBe('reports');
+    expect(globBase('a/b/*.xml')).toBe('a/b');
+    expect(globBase('**/*.ts')).toBe('');
+    expect(globBase('*.ts')).toBe('');
+  });
+});
+
+describe('validateFileTrigger / parseFileTriggerFlag', () => {
+  it('parses <glob>=<prompt>, splitting at the first "="', () => {
+    expect(parseFileTriggerFlag('reports/*.xml=fix a=b')).toEqual({ glob: 'reports/*.xml', prompt: 'fix a=b' });
+  });
+
+  it('rejects flags without a prompt', () => {
+    expect(() => parseFileTriggerFlag('reports/*.xml')).toThrow('must look like <glob>=<prompt>');
+    expect(() => parseFileTriggerFlag('reports/*.xml=')).toThrow('must not be empty');
+  });
+
+  it('rejects globs that leave the working directory', () => {
+    expect(() => validateFileTrigger({ glob: '/etc/*', prompt: 'p' })).toThrow(InvalidFileTriggerError);
+    expect(() => validateFileTrigger({ glob: '../other/*', prompt: 'p' })).toThrow(InvalidFileTriggerError);
+  });
+
+  it('rejects negative timings', () => {
+    expect(() => validateFileTrigger({ glob: '*', prompt: 'p', cooldownMs: -1 })).toThrow('cooldownMs');
+  });
+});
+
+describe('renderTriggerPrompt', () => {
+  it('fills in file, files and glob', () => {
+    expect(renderTriggerPrompt('{{glob}}: {{file}} / {{ files }} {{other}}', '*.xml', ['a.xml', 'b.xml'])).toBe(
+      '*.xml: a.xml / a.xml\nb.xml {{other}}',
+    );
+  });
+});
+
+describe('FileTriggerWatcher', () => {
+  let session: FakeSession;
+  let watcher: FileTriggerWatcher | undefined;
+  let listeners: Map<string, (eventType: string, filename: string) => void>;
+  let watchSpy: MockInstance<typeof fs.watch>;
+
+  const trigger: FileTrigger = { glob: 'reports/*.xml', prompt: 'tests failed in {{file}}, fix them', debounceMs: 100, cooldownMs: 1_000 };
+
+  function start(triggers: FileTrigger[] = [trigger], options = {}): FileTriggerWatcher {
+    watcher = new FileTriggerWatcher(session as unknown as Session, triggers, { settleMs: 500, ...options });
+    watcher.watch();
+    return watcher;
+  }
+
+  function change(file: string, dir = WORKDIR): void {
+    listeners.get(dir)!('change', file);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    session = new FakeSession();
+    listeners = new Map();
+    watchSpy = vi.spyOn(fs, 'watch').mockImplementation(((dir: string, _opts: unknown, listener: (eventType: string, filename: string) => void) => {
+      listeners.set(dir, listener);
+      const mock = new EventEmitter() as EventEmitter & { close: () => void };
+      mock.close = vi.fn();
+      return mock;
+    }) as unknown as typeof fs.watch);
+  });
+
+  afterEach(() => {
+    watcher?.unwatch();
+    watcher = undefined;
+    watchSpy.mockRestore();
+    vi.useRealTimers();
+  });
+
+  it('watches the closest existing directory of the glob recursively', () => {
+    start();
+    // /repo/reports does not exist, so the working directory is watched
+    expect(watchSpy).toHaveBeenCalledWith(WORKDIR, { recursive: true }, expect.any(Function));
+  });
+
+  it('sends the rendered prompt once matching changes settle', () => {
+    start();
+    change('reports/junit.xml');
+    change('reports/junit.xml');
+    change('src/index.ts');
+
+    vi.advanceTimersByTime(99);
+    expect(session.sendPrompt).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(session.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(session.sendPrompt).toHaveBeenCalledWith('tests failed in reports/junit.xml, fix them');
+  });
+
+  it('ignores changes while a prompt runs and shortly after it settles', () => {
+    start();
+    session.emit('promptStart', 'user prompt');
+    change('reports/junit.xml');
+    session.emit('promptComplete', 'done');
+    vi.advanceTimersByTime(400);
+    change('reports/junit.xml');
+    vi.advanceTimersByTime(1_000);
+    expect(session.sendPrompt).not.toHaveBeenCalled();
+
+    change('reports/junit.xml');
+    vi.advanceTimersByTime(100);
+    expect(session.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a firing when a prompt started during the debounce', () => {
+    start();
+    change('reports/junit.xml');
+    session.emit('promptStart', 'user prompt');
+    vi.advanceTimersByTime(100);
+    expect(session.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('fires at most once per cooldown', () => {
+    start();
+    change('reports/a.xml');
+    vi.advanceTimersByTime(100);
+    session.emit('promptComplete', 'done');
+    vi.advanceTimersByTime(500);
+
+    change('reports/b.xml');
+    vi.advanceTimersByTime(100);
+    expect(session.sendPrompt).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(400);
+    change('reports/c.xml');
+    vi.advanceTimersByTime(100);
+    expect(session.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(session.sendPrompt).toHaveBeenLastCalledWith('tests failed in reports/c.xml, fix them');
+  });
+
+  it('pauses after too many trigger prompts in a row until another prompt runs', () => {
+    start([{ ...trigger, cooldownMs: 0 }], { maxConsecutive: 2 });
+    const fireOnce = (): void => {
+      change('reports/junit.xml');
+      vi.advanceTimersByTime(100);
+      session.emit('promptComplete', 'done');
+      vi.advanceTimersByTime(500);
+    };
+
+    fireOnce();
+    fireOnce();
+    fireOnce();
+    expect(session.sendPrompt).toHaveBeenCalledTimes(2);
+
+    session.emit('promptStart', 'user prompt');
+    session.emit('promptComplete', 'done');
+    vi.advanceTimersByTime(500);
+    fireOnce();
+    expect(session.sendPrompt).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not fire when prompts are queued or the session is stopped', () => {
+    start();
+    session.queue = [{}];
+    change('reports/junit.xml');
+    vi.advanceTimersByTime(100);
+
+    session.queue = [];
+    session.state = SessionState.Stopped;
+    change('reports/junit.xml');
+    vi.advanceTimersByTime(100);
+    expect(session.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('stops firing after unwatch()', () => {
+    start();
+    change('reports/junit.xml');
+    watcher!.unwatch();
+    vi.advanceTimersByTime(1_000);
+    expect(session.sendPrompt).not.toHaveBeenCalled();
+    expect(session.listenerCount('promptStart')).toBe(0);
+  });
+});
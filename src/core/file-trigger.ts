@@ -0,0 +1,335 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Session } from './session.js';
+import { FileTrigger, SessionState } from '../types.js';
+import { InvalidFileTriggerError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const DEFAULT_COOLDOWN_MS = 30_000;
+/** Changes this soon after a prompt settles are still treated as the agent's own. */
+const DEFAULT_SETTLE_MS = 2_000;
+/** Trigger prompts allowed back to back before some other prompt has to run. */
+const DEFAULT_MAX_CONSECUTIVE = 3;
+const WATCH_RETRY_INTERVAL_MS = 500;
+const WATCH_MAX_RETRIES = 10;
+
+const GLOB_MAGIC = /[*?[{]/;
+
+/**
+ * Compile a glob to a regular expression over `/`-separated relative paths.
+ * Supports `*`, `?`, `**`, `[...]` (with `!` negation) and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      const segmentStart = i === 0 || glob[i - 1] === '/';
+      if (glob[i + 1] === '*' && segmentStart && glob[i + 2] === '/') {
+        // `**/` matches zero or more directories
+        source += '(?:[^/]*/)*';
+        i += 2;
+      } else if (glob[i + 1] === '*' && segmentStart && i + 2 === glob.length) {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = end;
+    } else if (ch === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (ch === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (ch === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  if (braceDepth > 0) {
+    throw new InvalidFileTriggerError(`glob "${glob}" has an unclosed "{"`);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** The directory part of a glob before its first wildcard, e.g. `src` for `src/**\/*.ts`. */
+export function globBase(glob: string): string {
+  const segments = glob.split('/').slice(0, -1);
+  const magic = segments.findIndex((segment) => GLOB_MAGIC.test(segment));
+  return segments.slice(0, magic === -1 ? segments.length : magic).join('/');
+}
+
+/** Check a trigger read from a template, the registry or the command line. */
+export function validateFileTrigger(trigger: FileTrigger): void {
+  if (typeof trigger.glob !== 'string' || trigger.glob.trim() === '') {
+    throw new InvalidFileTriggerError('glob must not be empty');
+  }
+  if (path.isAbsolute(trigger.glob) || trigger.glob.split('/').includes('..')) {
+    throw new InvalidFileTriggerError(`glob "${trigger.glob}" must stay inside the working directory`);
+  }
+  if (typeof trigger.prompt !== 'string' || trigger.prompt.trim() === '') {
+    throw new InvalidFileTriggerError(`prompt for "${trigger.glob}" must not be empty`);
+  }
+  for (const key of ['debounceMs', 'cooldownMs'] as const) {
+    const value = trigger[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new InvalidFileTriggerError(`${key} for "${trigger.glob}" must be a non-negative integer`);
+    }
+  }
+  globToRegExp(trigger.glob);
+}
+
+/** Parse a `--on-change <glob>=<prompt>` flag. */
+export function parseFileTriggerFlag(text: string): FileTrigger {
+  const separator = text.indexOf('=');
+  if (separator === -1) {
+    throw new InvalidFileTriggerError(`"${text}" must look like <glob>=<prompt>`);
+  }
+  const trigger: FileTrigger = { glob: text.slice(0, separator).trim(), prompt: text.slice(separator + 1).trim() };
+  validateFileTrigger(trigger);
+  return trigger;
+}
+
+/** Fill in {{file}}, {{files}} and {{glob}}; other placeholders are left alone. */
+export function renderTriggerPrompt(template: string, glob: string, files: string[]): string {
+  const values: Record<string, string> = { file: files[0] ?? '', files: files.join('\n'), glob };
+  return template.replace(/\{\{\s*(file|files|glob)\s*\}\}/g, (_match, key: string) => values[key]);
+}
+
+export interface FileTriggerWatcherOptions {
+  settleMs?: number;
+  maxConsecutive?: number;
+}
+
+interface TriggerState {
+  trigger: FileTrigger;
+  pattern: RegExp;
+  /** Absolute directory the glob lives under. */
+  base: string;
+  watcher: fs.FSWatcher | null;
+  debounceTimer: NodeJS.Timeout | null;
+  retryTimer: NodeJS.Timeout | null;
+  retryCount: number;
+  pending: Set<string>;
+  lastFiredAt: number;
+}
+
+/**
+ * FileTriggerWatcher — sends a session its file-trigger prompts when
+ * matching files change under its working directory. Each trigger watches
+ * the directory its glob lives under using fs.watch with a debounce, the
+ * same way RegistryWatcher watches the registry.
+ *
+ * Loop protection, so the agent's own edits do not retrigger it:
+ * - changes made while the session runs a prompt, or within `settleMs` of
+ *   one finishing, are ignored;
+ * - a trigger fires at most once per `cooldownMs`;
+ * - after `maxConsecutive` trigger prompts in a row, triggers pause until a
+ *   prompt from somewhere else (the user, a schedule) runs.
+ */
+export class FileTriggerWatcher {
+  private readonly states: TriggerState[];
+  private readonly settleMs: number;
+  private readonly maxConsecutive: number;
+  private readonly detach: Array<() => void> = [];
+
+  private busy = false;
+  private quietUntil = 0;
+  private firing = false;
+  private consecutive = 0;
+
+  constructor(
+    private readonly session: Session,
+    triggers: FileTrigger[],
+    options: FileTriggerWatcherOptions = {},
+  ) {
+    this.settleMs = options.settleMs ?? DEFAULT_SETTLE_MS;
+    this.maxConsecutive = options.maxConsecutive ?? DEFAULT_MAX_CONSECUTIVE;
+    const workingDirectory = session.getConfig().workingDirectory;
+    this.states = triggers.map((trigger) => {
+      validateFileTrigger(trigger);
+      const base = path.resolve(workingDirectory, globBase(trigger.glob));
+      return {
+        trigger,
+        pattern: globToRegExp(trigger.glob),
+        base,
+        watcher: null,
+        debounceTimer: null,
+        retryTimer: null,
+        retryCount: 0,
+        pending: new Set<string>(),
+        lastFiredAt: 0,
+      };
+    });
+  }
+
+  /** Start watching. Calling it again is a no-op. */
+  watch(): void {
+    if (this.detach.length > 0) return;
+
+    const onStart = (): void => {
+      this.busy = true;
+      this.consecutive = this.firing ? this.consecutive + 1 : 0;
+    };
+    const onSettled = (): void => {
+      this.busy = false;
+      this.quietUntil = Date.now() + this.settleMs;
+    };
+    const settledEvents = ['promptComplete', 'promptError', 'promptCancelled', 'promptTimeout'];
+    this.session.on('promptStart', onStart);
+    for (const event of settledEvents) {
+      this.session.on(event, onSettled);
+    }
+    this.detach.push(() => {
+      this.session.removeListener('promptStart', onStart);
+      for (const event of settledEvents) {
+        this.session.removeListener(event, onSettled);
+      }
+    });
+
+    for (const state of this.states) {
+      this.initWatcher(state);
+    }
+  }
+
+  /** Stop watching and release all resources. Pending changes are dropped. */
+  unwatch(): void {
+    for (const detach of this.detach.splice(0)) {
+      detach();
+    }
+    for (const state of this.states) {
+      this.closeWatcher(state);
+      if (state.debounceTimer) {
+        clearTimeout(state.debounceTimer);
+        state.debounceTimer = null;
+      }
+      if (state.retryTimer) {
+        clearTimeout(state.retryTimer);
+        state.retryTimer = null;
+      }
+      state.pending.clear();
+    }
+  }
+
+  private get workingDirectory(): string {
+    return this.session.getConfig().workingDirectory;
+  }
+
+  private initWatcher(state: TriggerState): void {
+    this.closeWatcher(state);
+
+    // The glob's directory may not exist yet (e.g. a report directory the
+    // test runner creates), so watch its closest existing ancestor
+    let dir = state.base;
+    while (dir !== this.workingDirectory && !fs.existsSync(dir)) {
+      dir = path.dirname(dir);
+    }
+
+    try {
+      state.watcher = fs.watch(dir, { recursive: true }, (_eventType, filename) => {
+        if (filename) {
+          this.handleChange(state, path.join(dir, filename.toString()));
+        }
+      });
+      state.watcher.on('error', () => {
+        this.handleWatcherLost(state);
+      });
+      state.retryCount = 0;
+    } catch {
+      logger.debug(`Could not watch ${dir} for file trigger "${state.trigger.glob}"`);
+      this.handleWatcherLost(state);
+    }
+  }
+
+  private closeWatcher(state: TriggerState): void {
+    if (state.watcher) {
+      state.watcher.close();
+      state.watcher = null;
+    }
+  }
+
+  private handleWatcherLost(state: TriggerState): void {
+    this.closeWatcher(state);
+
+    if (state.retryCount >= WATCH_MAX_RETRIES) {
+      logger.warn(`Giving up on file trigger "${state.trigger.glob}" in session "${this.session.getConfig().name}"`);
+      return;
+    }
+
+    state.retryCount++;
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = null;
+      this.initWatcher(state);
+    }, WATCH_RETRY_INTERVAL_MS);
+  }
+
+  /** The agent is (or was just) running, so changes are probably its own. */
+  private agentActive(): boolean {
+    return this.busy || Date.now() < this.quietUntil;
+  }
+
+  private handleChange(state: TriggerState, absolutePath: string): void {
+    const file = path.relative(this.workingDirectory, absolutePath).split(path.sep).join('/');
+    if (!state.pattern.test(file) || this.agentActive()) {
+      return;
+    }
+
+    state.pending.add(file);
+    if (state.debounceTimer) {
+      clearTimeout(state.debounceTimer);
+    }
+    state.debounceTimer = setTimeout(() => {
+      state.debounceTimer = null;
+      this.fire(state);
+    }, state.trigger.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  private fire(state: TriggerState): void {
+    const files = [...state.pending].sort();
+    state.pending.clear();
+    const { glob } = state.trigger;
+    const sessionName = this.session.getConfig().name;
+
+    // A prompt may have started during the debounce; its edits win
+    if (this.agentActive() || this.session.getQueue().length > 0 || this.session.getState() !== SessionState.Running) {
+      return;
+    }
+    const now = Date.now();
+    if (now - state.lastFiredAt < (state.trigger.cooldownMs ?? DEFAULT_COOLDOWN_MS)) {
+      logger.debug(`File trigger "${glob}" in session "${sessionName}" is cooling down`);
+      return;
+    }
+    if (this.consecutive >= this.maxConsecutive) {
+      logger.warn(
+        `File triggers in session "${sessionName}" paused after ${this.consecutive} prompts in a row; send a prompt to resume them`,
+      );
+      return;
+    }
+
+    state.lastFiredAt = now;
+    logger.info(`File trigger "${glob}" sending prompt to session "${sessionName}" (${files.length} changed)`);
+    this.session.emit('system', `File trigger "${glob}": ${files.join(', ')}`);
+
+    // The session is idle, so the prompt starts (and emits promptStart) synchronously
+    this.firing = true;
+    let run: Promise<string>;
+    try {
+      run = this.session.sendPrompt(renderTriggerPrompt(state.trigger.prompt, glob, files));
+    } finally {
+      this.firing = false;
+    }
+    run.catch((err: unknown) => {
+      logger.warn(`File trigger "${glob}" failed in session "${sessionName}": ${err instanceof Error ? err.message : err}`);
+    });
+  }
+}
@@ -56,6 +56,26 @@ describe('HistoryStore', () => {
       expect(indices).toEqual([0, 1, 2]);
     });
 
+    it('should mark cancelled prompts and omit the flag otherwise', async () => {
+      await store.record('sess', { prompt: 'done', responsePreview: 'full' });
+      await store.record('sess', { prompt: 'stopped', responsePreview: 'part', cancelled: true });
+
+      const entries = await store.getBySession('sess');
+      const byPrompt = Object.fromEntries(entries.map((e) => [e.prompt, e]));
+      expect(byPrompt.stopped.cancelled).toBe(true);
+      expect(byPrompt.done).not.toHaveProperty('cancelled');
+    });
+
+    it('should keep the id of the schedule that sent the prompt', async () => {
+      await store.record('sess', { prompt: 'manual', responsePreview: 'a' });
+      await store.record('sess', { prompt: 'nightly', responsePreview: 'b', scheduleId: 'deps' });
+
+      const entries = await store.getBySession('sess');
+      const byPrompt = Object.fromEntries(entries.map((e) => [e.prompt, e]));
+      expect(byPrompt.nightly.scheduleId).toBe('deps');
+      expect(byPrompt.manual).not.toHaveProperty('scheduleId');
+    });
+
     it('should truncate responsePreview to 200 characters', async () => {
       const longResponse = 'a'.repeat(500);
       await store.record('sess', {
@@ -129,6 +149,50 @@ describe('HistoryStore', () => {
 
   // ── getBySession() ──────────────────────────────────────────────────────────
 
+  describe('transcripts', () => {
+    const turn = {
+      prompt: 'long',
+      response: 'z'.repeat(5000),
+      stderr: 'note\n',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      completedAt: '2026-01-01T00:00:03.000Z',
+      durationMs: 3000,
+      exitCode: 0,
+      signal: null,
+      outcome: 'completed' as const,
+    };
+
+    it('keeps the full response in the transcript and a preview in the index', async () => {
+      await store.record('sess', { prompt: 'long', responsePreview: turn.response, transcript: turn });
+
+      const [indexed] = await store.getBySession('sess');
+      expect(indexed.responsePreview.length).toBe(200);
+      expect(indexed.transcriptId).toMatch(/^[0-9a-f]{64}$/);
+
+      const [full] = await store.getFullBySession('sess');
+      expect(full.transcript).toEqual(turn);
+    });
+
+    it('returns preview-only entries for history recorded without transcripts', async () => {
+      await store.record('sess', { prompt: 'old', responsePreview: 'short' });
+
+      const [full] = await store.getFullBySession('sess');
+      expect(full.transcript).toBeUndefined();
+      expect(full.responsePreview).toBe('short');
+    });
+
+    it('clear() removes transcripts too', async () => {
+      await store.record('sess', { prompt: 'long', responsePreview: turn.response, transcript: turn });
+      await store.clear('sess');
+      await store.record('sess', { prompt: 'new', responsePreview: 'x' });
+
+      const entries = await store.getFullBySession('sess');
+      expect(entries).toHaveLength(1);
+      const dirs = await fs.readdir(path.join(historyDir, 'transcripts'));
+      expect(dirs).toEqual([]);
+    });
+  });
+
   describe('getBySession()', () => {
     it('should return entries in reverse chronological order', async () => {
       await store.record('sess', { prompt: 'first', responsePreview: 'r1' });
@@ -1,5 +1,6 @@
-import { PromptHistoryEntry } from '../types.js';
+import { FullHistoryEntry, PromptHistoryEntry, TranscriptTurn } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { TranscriptStore } from './transcript.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 
@@ -16,10 +17,26 @@ export interface HistorySearchOptions {
   limit?: number;
 }
 
+export interface HistoryRecordInput {
+  prompt: string;
+  responsePreview: string;
+  cancelled?: boolean;
+  failed?: boolean;
+  /** Schedule that sent the prompt. */
+  scheduleId?: string;
+  /** Checkpoint taken before the prompt ran. */
+  checkpointId?: number;
+  /** Full turn to keep in the transcript store; the index only keeps a preview. */
+  transcript?: TranscriptTurn;
+}
+
 export class HistoryStore {
   private locks: Map<string, Promise<void>> = new Map();
+  private readonly transcripts: TranscriptStore;
 
-  constructor(private readonly historyDir: string) {}
+  constructor(private readonly historyDir: string) {
+    this.transcripts = new TranscriptStore(path.join(historyDir, 'transcripts'));
+  }
 
   private async withSessionLock(sessionName: string, fn: () => Promise<void>): Promise<void> {
     const prev = this.locks.get(sessionName) ?? Promise.resolve();
@@ -28,10 +45,7 @@ export class HistoryStore {
     return next;
   }
 
-  async record(
-    sessionName: string,
-    entry: { prompt: string; responsePreview: string },
-  ): Promise<void> {
+  async record(sessionName: string, entry: HistoryRecordInput): Promise<void> {
     return this.withSessionLock(sessionName, async () => {
       const filePath = this.getFilePath(sessionName);
       await fs.mkdir(this.historyDir, { recursive: true });
@@ -39,11 +53,26 @@ export class HistoryStore {
       const existingLines = await this.readLines(filePath);
       const index = existingLines.length;
 
+      // A lost transcript must not cost the index entry, so failures only warn
+      let transcriptId: string | undefined;
+      if (entry.transcript) {
+        try {
+          transcriptId = await this.transcripts.write(sessionName, entry.transcript);
+        } catch (err) {
+          logger.warn(`Failed to store transcript for session "${sessionName}": ${err}`);
+        }
+      }
+
       const record: PromptHistoryEntry = {
         index,
         prompt: entry.prompt,
         responsePreview: entry.responsePreview.slice(0, RESPONSE_PREVIEW_LENGTH),
         timestamp: new Date().toISOString(),
+        ...(entry.cancelled ? { cancelled: true } : {}),
+        ...(entry.failed ? { failed: true } : {}),
+        ...(entry.scheduleId ? { scheduleId: entry.scheduleId } : {}),
+        ...(entry.checkpointId !== undefined ? { checkpointId: entry.checkpointId } : {}),
+        ...(transcriptId ? { transcriptId } : {}),
       };
 
       await fs.appendFile(filePath, JSON.stringify(record) + '\n', 'utf-8');
@@ -74,6 +103,25 @@ export class HistoryStore {
     return entries;
   }
 
+  /**
+   * Like getBySession(), but joins each entry with its full transcript turn.
+   * Entries recorded before transcripts existed keep only their preview.
+   */
+  async getFullBySession(
+    sessionName: string,
+    limit?: number,
+  ): Promise<FullHistoryEntry[]> {
+    const entries = await this.getBySession(sessionName, limit);
+    const full: FullHistoryEntry[] = [];
+    for (const entry of entries) {
+      const transcript = entry.transcriptId
+        ? await this.transcripts.read(sessionName, entry.transcriptId)
+        : null;
+      full.push(transcript ? { ...entry, transcript } : entry);
+    }
+    return full;
+  }
+
   async search(
     query: string,
     options?: HistorySearchOptions,
@@ -122,6 +170,7 @@ export class HistoryStore {
 
   async clear(sessionName: string): Promise<void> {
     const filePath = this.getFilePath(sessionName);
+    await this.transcripts.clear(sessionName);
     try {
       await fs.unlink(filePath);
       logger.debug(`Cleared history for session "${sessionName}"`);
@@ -142,6 +191,9 @@ export class HistoryStore {
     }
 
     const discardCount = Math.floor(lines.length * ROTATION_PERCENT);
+    const discardedIds = this.parseLines(lines.slice(0, discardCount))
+      .map((entry) => entry.transcriptId)
+      .filter((id): id is string => id !== undefined);
     const remaining = lines.slice(discardCount);
     // Re-index entries to maintain sequential indices
     const reindexed = remaining.map((line, i) => {
@@ -158,6 +210,7 @@ export class HistoryStore {
     const tmpPath = filePath + '.tmp';
     await fs.writeFile(tmpPath, reindexed.join('\n') + '\n', 'utf-8');
     await fs.rename(tmpPath, filePath);
+    await this.transcripts.remove(sessionName, discardedIds);
 
     logger.debug(
       `Rotated history for session "${sessionName}": discarded ${discardCount} oldest entries`,
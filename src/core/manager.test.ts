@@ -4,10 +4,13 @@ import path from 'node:path';
 import fs from 'node:fs/promises';
 import { SessionManager } from './manager.js';
 import { Session } from './session.js';
+import { FileTriggerWatcher } from './file-trigger.js';
+import { UsageStore } from './usage.js';
 import { SessionState, SessionConfig } from '../types.js';
-import { SessionAlreadyExistsError, SessionNotFoundError } from '../utils/errors.js';
+import { BudgetExceededError, SessionAlreadyExistsError, SessionNotFoundError } from '../utils/errors.js';
 import * as childProcess from 'node:child_process';
 import { EventEmitter } from 'node:events';
+import { logger } from '../utils/logger.js';
 
 vi.mock('node:child_process', () => ({
   spawn: vi.fn(),
@@ -28,6 +31,8 @@ vi.mock('./sandbox.js', () => {
       getContainerId() { return null; }
       buildSpawnArgs(args: string[]) { return { cmd: 'claude', args }; }
       buildArbitrarySpawnArgs(executable: string, args: string[]) { return { cmd: executable, args }; }
+      getEnv() { return {}; }
+      resourceSampler() { return async () => null; }
     },
   };
 });
@@ -141,6 +146,34 @@ describe('SessionManager', () => {
     expect(data.sessions['my-session'].pid).toBe(0); // Prompt-based sessions have no persistent PID
   });
 
+  it('startSession() starts no sandbox for HTTP providers', async () => {
+    await manager.init();
+
+    const session = await manager.startSession({ name: 'chat', workingDirectory: '/tmp/work', provider: 'ollama-http' });
+
+    expect(session.getInfo()).toMatchObject({ sandboxed: false, sandboxBackend: undefined });
+    const data = JSON.parse(await fs.readFile(registryPath, 'utf-8'));
+    expect(data.sessions.chat.sandboxBackend).toBeUndefined();
+  });
+
+  it('startSession() warns that HTTP providers ignore sandbox settings', async () => {
+    await manager.init();
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+
+    await manager.startSession({
+      name: 'chat',
+      workingDirectory: '/tmp/work',
+      provider: 'ollama-http',
+      sandboxLevel: 'strict',
+      sandboxEgress: ['api.example.com'],
+    });
+
+    expect(warn).toHaveBeenCalledWith(
+      'Session "chat" uses the ollama-http provider, which runs no sandbox; ignoring its sandbox level, egress allowlist',
+    );
+    warn.mockRestore();
+  });
+
   it('stopSession() removes from registry', async () => {
     await manager.init();
     await manager.startSession({ name: 'remove-me', workingDirectory: '/tmp/work' });
@@ -594,6 +627,347 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('history recording', () => {
+    it('records a full transcript turn with stderr and timings', async () => {
+      const historyStore = { record: vi.fn().mockResolvedValue(undefined) };
+      const recordingManager = new SessionManager({
+        registryPath,
+        historyStore: historyStore as unknown as import('./history.js').HistoryStore,
+      });
+      await recordingManager.init();
+      const session = await recordingManager.startSession({ name: 'rec', workingDirectory: '/tmp/rec' });
+
+      session.emit('promptStart', 'build it');
+      session.emit('data', 'part one, ');
+      session.emit('stderr', 'deprecation warning\n');
+      session.emit('promptComplete', 'part one, part two');
+
+      expect(historyStore.record).toHaveBeenCalledWith('rec', expect.objectContaining({
+        prompt: 'build it',
+        responsePreview: 'part one, part two',
+        transcript: expect.objectContaining({
+          response: 'part one, part two',
+          stderr: 'deprecation warning\n',
+          exitCode: 0,
+          outcome: 'completed',
+        }),
+      }));
+      const { transcript } = historyStore.record.mock.calls[0][1];
+      expect(transcript.durationMs).toBeGreaterThanOrEqual(0);
+      await recordingManager.stopAll();
+    });
+
+    it('records cancelled turns with the partial response', async () => {
+      const historyStore = { record: vi.fn().mockResolvedValue(undefined) };
+      const recordingManager = new SessionManager({
+        registryPath,
+        historyStore: historyStore as unknown as import('./history.js').HistoryStore,
+      });
+      await recordingManager.init();
+      const session = await recordingManager.startSession({ name: 'rec', workingDirectory: '/tmp/rec' });
+
+      session.emit('promptStart', 'long job');
+      session.emit('data', 'half');
+      session.emit('promptCancelled', { sessionName: 'rec', promptText: 'long job', partialResponse: 'half' });
+
+      expect(historyStore.record).toHaveBeenCalledWith('rec', expect.objectContaining({
+        cancelled: true,
+        transcript: expect.objectContaining({ response: 'half', outcome: 'cancelled', exitCode: null }),
+      }));
+      await recordingManager.stopAll();
+    });
+
+    it('tags turns sent by a schedule with its id', async () => {
+      const historyStore = { record: vi.fn().mockResolvedValue(undefined) };
+      const recordingManager = new SessionManager({
+        registryPath,
+        historyStore: historyStore as unknown as import('./history.js').HistoryStore,
+      });
+      await recordingManager.init();
+      const session = await recordingManager.startSession({ name: 'rec', workingDirectory: '/tmp/rec' });
+
+      session.emit('promptStart', 'update deps', 'nightly');
+      session.emit('promptComplete', 'done');
+
+      expect(historyStore.record).toHaveBeenCalledWith('rec', expect.objectContaining({ scheduleId: 'nightly' }));
+      await recordingManager.stopAll();
+    });
+
+    it('checkpoints the working directory before each prompt and links the turn to it', async () => {
+      const historyStore = { record: vi.fn().mockResolvedValue(undefined) };
+      const checkpointStore = {
+        create: vi.fn().mockResolvedValue({ id: 7, sessionName: 'rec', workingDirectory: '/tmp/rec', kind: 'files' }),
+      };
+      const mockChild = createMockChild();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValue(mockChild as any);
+      const recordingManager = new SessionManager({
+        registryPath,
+        historyStore: historyStore as unknown as import('./history.js').HistoryStore,
+        checkpointStore: checkpointStore as unknown as import('./checkpoint.js').CheckpointStore,
+      });
+      await recordingManager.init();
+      const session = await recordingManager.startSession({ name: 'rec', workingDirectory: '/tmp/rec' });
+
+      const reply = session.sendPrompt('refactor');
+      expect(checkpointStore.create).toHaveBeenCalledWith('rec', '/tmp/rec', 'refactor');
+      await vi.waitFor(() => expect(mockedSpawn).toHaveBeenCalled());
+      mockChild.emit('close', 0);
+      await reply;
+
+      expect(historyStore.record).toHaveBeenCalledWith('rec', expect.objectContaining({ prompt: 'refactor', checkpointId: 7 }));
+      await recordingManager.stopAll();
+    });
+  });
+
+  describe('sandbox diff baselines', () => {
+    it('captures a baseline on a fresh start and keeps it when resuming', async () => {
+      const sandboxDiffStore = {
+        capture: vi.fn().mockResolvedValue(undefined),
+        hasBaseline: vi.fn().mockResolvedValue(true),
+        remove: vi.fn().mockResolvedValue(undefined),
+      };
+      const diffManager = new SessionManager({
+        registryPath,
+        sandboxDiffStore: sandboxDiffStore as unknown as import('./sandbox-diff.js').SandboxDiffStore,
+      });
+      await diffManager.init();
+
+      await diffManager.startSession({ name: 'fresh', workingDirectory: '/tmp/fresh' });
+      await diffManager.startSession({ name: 'resumed', workingDirectory: '/tmp/resumed' }, 'claude-session-1');
+
+      expect(sandboxDiffStore.capture).toHaveBeenCalledTimes(1);
+      expect(sandboxDiffStore.capture).toHaveBeenCalledWith('fresh', '/tmp/fresh');
+      expect(sandboxDiffStore.hasBaseline).toHaveBeenCalledWith('resumed');
+      await diffManager.stopAll();
+    });
+
+    it('removes the baseline, the sandbox trace and the checkpoints when the session is stopped', async () => {
+      const sandboxDiffStore = {
+        capture: vi.fn().mockResolvedValue(undefined),
+        hasBaseline: vi.fn().mockResolvedValue(false),
+        remove: vi.fn().mockResolvedValue(undefined),
+      };
+      const sandboxEventLog = { removeTrace: vi.fn().mockResolvedValue(undefined) };
+      const checkpointStore = { remove: vi.fn().mockResolvedValue(undefined) };
+      const diffManager = new SessionManager({
+        registryPath,
+        sandboxDiffStore: sandboxDiffStore as unknown as import('./sandbox-diff.js').SandboxDiffStore,
+        sandboxEventLog: sandboxEventLog as unknown as import('./sandbox-event-log.js').SandboxEventLog,
+        checkpointStore: checkpointStore as unknown as import('./checkpoint.js').CheckpointStore,
+      });
+      await diffManager.init();
+      await diffManager.startSession({ name: 'done', workingDirectory: '/tmp/done' });
+
+      await diffManager.stopSession('done');
+
+      expect(sandboxDiffStore.remove).toHaveBeenCalledWith('done');
+      expect(sandboxEventLog.removeTrace).toHaveBeenCalledWith('done');
+      expect(checkpointStore.remove).toHaveBeenCalledWith('done');
+    });
+  });
+
+  describe('usage recording', () => {
+    it('appends provider-reported usage with the session tags to the ledger', async () => {
+      const usageStore = { record: vi.fn().mockResolvedValue(undefined), query: vi.fn().mockResolvedValue([]) };
+      const recordingManager = new SessionManager({
+        registryPath,
+        usageStore: usageStore as unknown as import('./usage.js').UsageStore,
+      });
+      await recordingManager.init();
+      const session = await recordingManager.startSession({
+        name: 'billed',
+        workingDirectory: '/tmp/billed',
+        tags: ['backend'],
+      });
+
+      session.emit('providerEvent', { type: 'text', text: 'hi' });
+      session.emit('providerEvent', { type: 'result', isError: false });
+      session.emit('providerEvent', {
+        type: 'result',
+        isError: false,
+        costUsd: 0.04,
+        usage: { inputTokens: 900, outputTokens: 120 },
+      });
+
+      expect(usageStore.record).toHaveBeenCalledTimes(1);
+      expect(usageStore.record).toHaveBeenCalledWith('billed', {
+        provider: 'claude',
+        tags: ['backend'],
+        usage: { inputTokens: 900, outputTokens: 120 },
+        costUsd: 0.04,
+      });
+      await recordingManager.stopAll();
+    });
+  });
+
+  describe('budgets', () => {
+    function completePrompt(session: Session, prompt: string, result?: object): Promise<string> {
+      const child = createMockChild(42);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValue(child as any);
+      const p = session.sendPrompt(prompt);
+      if (result) child.stdout.emit('data', Buffer.from(JSON.stringify(result) + '\n'));
+      child.emit('close', 0);
+      return p;
+    }
+
+    it('refuses prompts once the prompts-per-hour limit is reached', async () => {
+      await manager.init();
+      const session = await manager.startSession({
+        name: 'capped',
+        workingDirectory: '/tmp/capped',
+        budget: { maxPromptsPerHour: 1 },
+      });
+      const exceeded = vi.fn();
+      manager.on('budgetExceeded', exceeded);
+
+      await completePrompt(session, 'first');
+      const err = await session.sendPrompt('second').catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(BudgetExceededError);
+      expect((err as BudgetExceededError).limit).toBe('promptsPerHour');
+      expect(exceeded).toHaveBeenCalledTimes(1);
+      expect(exceeded).toHaveBeenCalledWith(expect.objectContaining({
+        sessionName: 'capped',
+        scope: 'session',
+        limit: 'promptsPerHour',
+        used: 1,
+        max: 1,
+      }));
+      await manager.stopAll();
+    });
+
+    it('warns as cost approaches the limit and exposes the status on session info', async () => {
+      await manager.init();
+      const session = await manager.startSession({
+        name: 'spender',
+        workingDirectory: '/tmp/spender',
+        budget: { maxCostUsd: 1 },
+      });
+      const warning = vi.fn();
+      session.on('budgetWarning', warning);
+
+      await completePrompt(session, 'expensive', { type: 'result', is_error: false, total_cost_usd: 0.85 });
+
+      expect(warning).toHaveBeenCalledWith(expect.objectContaining({ limit: 'cost', used: 0.85, max: 1 }));
+      const [status] = manager.getSessionInfo('spender')!.budget!;
+      expect(status.warnings).toEqual(['cost']);
+      expect(status.remaining.cost).toBeCloseTo(0.15);
+      await manager.stopAll();
+    });
+
+    it('enforces a workspace budget over the combined usage of its members', async () => {
+      const workspaceManager = {
+        list: vi.fn().mockResolvedValue([
+          { name: 'team', sessionNames: ['a', 'b'], createdAt: '2026-01-01T00:00:00.000Z', budget: { maxTokens: 100 } },
+        ]),
+      };
+      const budgetManager = new SessionManager({
+        registryPath,
+        workspaceManager: workspaceManager as unknown as import('./workspace.js').WorkspaceManager,
+      });
+      await budgetManager.init();
+      const a = await budgetManager.startSession({ name: 'a', workingDirectory: '/tmp/a' });
+      const b = await budgetManager.startSession({ name: 'b', workingDirectory: '/tmp/b' });
+
+      await completePrompt(a, 'big', { type: 'result', is_error: false, usage: { input_tokens: 90, output_tokens: 20 } });
+      const err = await b.sendPrompt('blocked').catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(BudgetExceededError);
+      expect(err).toMatchObject({ scope: 'workspace', scopeName: 'team', limit: 'tokens' });
+      expect(budgetManager.getBudgetStatus('b')[0].used.tokens).toBe(110);
+      await budgetManager.stopAll();
+    });
+
+    it('counts the ledger turns of the running session, not of earlier ones by its name', async () => {
+      const usagePath = path.join(path.dirname(registryPath), `usage-${Date.now()}.ndjson`);
+      const usageStore = new UsageStore(usagePath);
+      await usageStore.record('spender', { costUsd: 5, usage: { inputTokens: 400, outputTokens: 100 } });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const ledgerManager = new SessionManager({ registryPath, usageStore });
+      await ledgerManager.init();
+      const nextManager = new SessionManager({ registryPath, usageStore });
+
+      try {
+        const session = await ledgerManager.startSession({
+          name: 'spender',
+          workingDirectory: '/tmp/spender',
+          budget: { maxCostUsd: 1, maxPromptsPerHour: 3 },
+        });
+        expect(ledgerManager.getBudgetStatus('spender')[0].used).toMatchObject({ tokens: 0, costUsd: 0, promptsLastHour: 0 });
+
+        await completePrompt(session, 'more', { type: 'result', is_error: false, total_cost_usd: 0.6 });
+        expect(ledgerManager.getBudgetStatus('spender')[0].used).toMatchObject({ costUsd: 0.6, promptsLastHour: 1 });
+
+        // Another invocation adopting the session keeps counting its turns
+        await vi.waitFor(async () => expect(await usageStore.query()).toHaveLength(2));
+        await nextManager.init();
+        await nextManager.adoptSession('spender');
+        expect(nextManager.getBudgetStatus('spender')[0].used).toMatchObject({ costUsd: 0.6, promptsLastHour: 1 });
+      } finally {
+        await nextManager.stopAll();
+        await ledgerManager.stopAll();
+        await fs.rm(usagePath, { force: true });
+      }
+    });
+  });
+
+  describe('file triggers', () => {
+    const fileTriggers = [{ glob: 'reports/*.xml', prompt: 'tests failed in {{file}}, fix them' }];
+
+    it('watches while the session runs and keeps the triggers in the registry', async () => {
+      const watch = vi.spyOn(FileTriggerWatcher.prototype, 'watch').mockImplementation(() => {});
+      const unwatch = vi.spyOn(FileTriggerWatcher.prototype, 'unwatch');
+      await manager.init();
+      manager.startFileTriggers();
+      await manager.startSession({ name: 'tests', workingDirectory: '/tmp/tests', fileTriggers });
+
+      expect(watch).toHaveBeenCalledTimes(1);
+      expect((await manager.registry.load()).sessions.tests.fileTriggers).toEqual(fileTriggers);
+
+      await manager.stopSession('tests');
+      expect(unwatch).toHaveBeenCalledTimes(1);
+      watch.mockRestore();
+      unwatch.mockRestore();
+    });
+
+    it('only watches once the daemon starts file triggers', async () => {
+      const watch = vi.spyOn(FileTriggerWatcher.prototype, 'watch').mockImplementation(() => {});
+      const unwatch = vi.spyOn(FileTriggerWatcher.prototype, 'unwatch');
+      await manager.init();
+      await manager.startSession({ name: 'tests', workingDirectory: '/tmp/tests', fileTriggers });
+      expect(watch).not.toHaveBeenCalled();
+
+      manager.startFileTriggers();
+      expect(watch).toHaveBeenCalledTimes(1);
+
+      manager.stopFileTriggers();
+      expect(unwatch).toHaveBeenCalledTimes(1);
+      await manager.startSession({ name: 'later', workingDirectory: '/tmp/later', fileTriggers });
+      expect(watch).toHaveBeenCalledTimes(1);
+      watch.mockRestore();
+      unwatch.mockRestore();
+      await manager.stopAll();
+    });
+
+    it('starts the session without triggers when one is invalid', async () => {
+      const watch = vi.spyOn(FileTriggerWatcher.prototype, 'watch');
+      await manager.init();
+      manager.startFileTriggers();
+      const session = await manager.startSession({
+        name: 'bad',
+        workingDirectory: '/tmp/bad',
+        fileTriggers: [{ glob: '../outside/*', prompt: 'p' }],
+      });
+
+      expect(session.getState()).toBe(SessionState.Running);
+      expect(watch).not.toHaveBeenCalled();
+      watch.mockRestore();
+      await manager.stopAll();
+    });
+  });
+
   describe('broadcastPrompt()', () => {
     it('should send prompt to all listed sessions concurrently', async () => {
       await manager.init();
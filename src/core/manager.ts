@@ -6,32 +6,124 @@ import {
   SessionConfig,
   SessionInfo,
   SessionState,
+  BUILTIN_PROVIDERS,
   ManagerOptions,
   RegistryEntry,
   SessionCrashedEvent,
+  PromptCancelledEvent,
+  QueuedPrompt,
+  TranscriptOutcome,
+  ProviderEvent,
+  TokenUsage,
+  CheckpointEntry,
+  BudgetEvent,
+  BudgetLimitKind,
+  BudgetStatus,
+  BudgetUsage,
+  WorkspaceEntry,
+  ResourceGauge,
+  ResourceTurnUsage,
+  ResourceWarningEvent,
 } from '../types.js';
-import { SessionAlreadyExistsError, SessionNotFoundError, SandboxNotAvailableError, SandboxStartError } from '../utils/errors.js';
+import {
+  BudgetExceededError,
+  SessionAlreadyExistsError,
+  SessionNotFoundError,
+  SandboxNotAvailableError,
+  SandboxStartError,
+} from '../utils/errors.js';
 import { SandboxManager } from './sandbox.js';
 import { createProvider } from './providers/index.js';
 import { logger } from '../utils/logger.js';
 import { HistoryStore } from './history.js';
+import { UsageStore } from './usage.js';
+import { WorkspaceManager } from './workspace.js';
+import { CheckpointStore } from './checkpoint.js';
+import { SandboxDiffStore } from './sandbox-diff.js';
+import { SandboxEventLog } from './sandbox-event-log.js';
+import type { SandboxImageStore } from './sandbox-image.js';
+import type { SandboxPool } from './sandbox-pool.js';
+import type { ProviderRegistry } from './providers/registry.js';
+import {
+  PROMPT_RATE_WINDOW_MS,
+  budgetLimitValues,
+  combineBudgetUsage,
+  evaluateBudget,
+  hasBudget,
+} from './budget.js';
 import { calculateBackoff } from './restart-policy.js';
 import { PluginRunner } from './plugin-runner.js';
+import { FileTriggerWatcher } from './file-trigger.js';
 import { EventEmitter } from 'node:events';
 import os from 'node:os';
 import path from 'node:path';
 
+/** A session's spend in the usage ledger. */
+interface LedgerUsage {
+  tokens: number;
+  costUsd: number;
+  /** Times of its recorded turns within the prompt-rate window. */
+  turnTimes: number[];
+}
+
+/** The sandbox settings of a SessionConfig, named as in messages. */
+const SANDBOX_SETTINGS: Array<[keyof SessionConfig, string]> = [
+  ['sandboxBackend', 'backend'],
+  ['sandboxLevel', 'level'],
+  ['sandboxImage', 'image'],
+  ['sandboxMemoryLimit', 'memory limit'],
+  ['sandboxCpuLimit', 'CPU limit'],
+  ['sandboxEgress', 'egress allowlist'],
+  ['sandboxMounts', 'mounts'],
+  ['sandboxTrace', 'tracing'],
+];
+
+/** The sandbox settings made in `config`, which an unsandboxed session drops. */
+function ignoredSandboxSettings(config: SessionConfig): string[] {
+  return SANDBOX_SETTINGS.filter(([key]) => {
+    const value = config[key];
+    return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== false;
+  }).map(([, label]) => label);
+}
+
 export class SessionManager extends EventEmitter {
   private sessions: Map<string, Session> = new Map();
   private registryEntries: Map<string, RegistryEntry> = new Map();
   readonly registry: Registry;
   private readonly historyStore?: HistoryStore;
+  private readonly usageStore?: UsageStore;
+  private readonly workspaceManager?: WorkspaceManager;
+  private readonly checkpointStore?: CheckpointStore;
+  private readonly sandboxDiffStore?: SandboxDiffStore;
+  private readonly sandboxEventLog?: SandboxEventLog;
+  private readonly sandboxImageStore?: SandboxImageStore;
+  private readonly sandboxPool?: SandboxPool;
+  private readonly providerRegistry?: ProviderRegistry;
+  /** Workspaces that carry a budget, refreshed from disk on init/refresh/start. */
+  private budgetedWorkspaces: WorkspaceEntry[] = [];
+  /** Start times of prompts whose turn is not in the usage ledger (yet). */
+  private promptTimes: Map<string, number[]> = new Map();
+  /** Each session's spend in the usage ledger; see loadLedgerUsage(). */
+  private ledgerUsage: Map<string, LedgerUsage> = new Map();
+  /** Last alert level emitted per `scope:name:limit`, so each crossing fires once. */
+  private budgetAlerts: Map<string, 'warning' | 'exceeded'> = new Map();
   private pendingRestarts: Map<string, NodeJS.Timeout> = new Map();
   private pluginRunner: PluginRunner = PluginRunner.empty();
+  private fileTriggerWatchers: Map<string, FileTriggerWatcher> = new Map();
+  /** Set by the daemon; see startFileTriggers(). */
+  private fileTriggersEnabled = false;
 
   constructor(private readonly options?: ManagerOptions) {
     super();
     this.historyStore = options?.historyStore;
+    this.usageStore = options?.usageStore;
+    this.workspaceManager = options?.workspaceManager;
+    this.checkpointStore = options?.checkpointStore;
+    this.sandboxDiffStore = options?.sandboxDiffStore;
+    this.sandboxEventLog = options?.sandboxEventLog;
+    this.sandboxImageStore = options?.sandboxImageStore;
+    this.sandboxPool = options?.sandboxPool;
+    this.providerRegistry = options?.providerRegistry;
     let registryPath =
       options?.registryPath ?? path.join(os.homedir(), '.agentspawn', 'sessions.json');
 
@@ -74,6 +166,9 @@ export class SessionManager extends EventEmitter {
     for (const [name, entry] of Object.entries(data.sessions)) {
       this.registryEntries.set(name, entry);
     }
+
+    await this.loadWorkspaceBudgets();
+    await this.loadLedgerUsage();
   }
 
   async startSession(
@@ -81,6 +176,7 @@ export class SessionManager extends EventEmitter {
     claudeSessionId?: string,
     promptCount?: number,
     retryCount?: number,
+    budgetSince?: string,
   ): Promise<Session> {
     if (this.sessions.has(config.name)) {
       throw new SessionAlreadyExistsError(config.name);
@@ -91,44 +187,60 @@ export class SessionManager extends EventEmitter {
       image: config.sandboxImage,
       memoryLimit: config.sandboxMemoryLimit,
       cpuLimit: config.sandboxCpuLimit,
+      egress: config.sandboxEgress?.length ? { allow: config.sandboxEgress } : undefined,
+      mounts: config.sandboxMounts,
+      trace: config.sandboxTrace,
     };
 
-    const provider = createProvider(config.provider ?? 'claude', config);
-
-    let backend = config.sandboxBackend ?? await SandboxManager.detectBackend();
-    if (!backend) throw new SandboxNotAvailableError();
+    const provider = this.providerRegistry
+      ? await this.providerRegistry.create(config.provider ?? 'claude', config)
+      : createProvider(config.provider ?? 'claude', config);
 
-    let sandbox = new SandboxManager(config.name, config.workingDirectory, backend, sandboxOptions, provider.binary, provider.configDir);
+    // HTTP providers run in-process and execute nothing, so there is nothing to sandbox
+    let sandbox: SandboxManager | undefined;
     let pendingSystemMessages: string[] = [];
-    try {
-      pendingSystemMessages.push(`Starting ${sandbox.getBackend()} sandbox...`);
-      await sandbox.start();
-      pendingSystemMessages.push(`Sandbox ready (${sandbox.getBackend()}, level: ${sandbox.getLevel()})`);
-    } catch (e) {
-      if (backend === 'docker') {
-        // Docker failed — try platform-native backend as fallback
-        const fallback = await SandboxManager.detectPlatformNativeBackend();
-        if (fallback) {
-          logger.warn(
-            `Docker sandbox failed for session "${config.name}", falling back to ${fallback}: ${(e as Error).message}`,
-          );
-          backend = fallback;
-          sandbox = new SandboxManager(config.name, config.workingDirectory, fallback, sandboxOptions, provider.binary, provider.configDir);
-          try {
-            pendingSystemMessages = [`Starting ${sandbox.getBackend()} sandbox...`];
-            await sandbox.start();
-            pendingSystemMessages.push(`Sandbox ready (${sandbox.getBackend()}, level: ${sandbox.getLevel()})`);
-          } catch (e2) {
-            throw new SandboxStartError(config.name, (e2 as Error).message);
+    if (provider.streamPrompt) {
+      const ignored = ignoredSandboxSettings(config);
+      if (ignored.length > 0) {
+        const message = `Session "${config.name}" uses the ${provider.type} provider, which runs no sandbox; ignoring its sandbox ${ignored.join(', ')}`;
+        logger.warn(message);
+        pendingSystemMessages.push(message);
+      }
+    } else {
+      let backend = config.sandboxBackend ?? await SandboxManager.detectBackend();
+      if (!backend) throw new SandboxNotAvailableError();
+
+      sandbox = new SandboxManager(config.name, config.workingDirectory, backend, sandboxOptions, provider.binary, provider.configDir, this.sandboxEventLog, this.sandboxImageStore, this.sandboxPool);
+      try {
+        pendingSystemMessages.push(`Starting ${sandbox.getBackend()} sandbox...`);
+        await sandbox.start();
+        pendingSystemMessages.push(`Sandbox ready (${sandbox.getBackend()}, level: ${sandbox.getLevel()})`);
+      } catch (e) {
+        if (backend === 'docker') {
+          // Docker failed — try platform-native backend as fallback
+          const fallback = await SandboxManager.detectPlatformNativeBackend();
+          if (fallback) {
+            logger.warn(
+              `Docker sandbox failed for session "${config.name}", falling back to ${fallback}: ${(e as Error).message}`,
+            );
+            backend = fallback;
+            sandbox = new SandboxManager(config.name, config.workingDirectory, fallback, sandboxOptions, provider.binary, provider.configDir, this.sandboxEventLog, this.sandboxImageStore, this.sandboxPool);
+            try {
+              pendingSystemMessages = [`Starting ${sandbox.getBackend()} sandbox...`];
+              await sandbox.start();
+              pendingSystemMessages.push(`Sandbox ready (${sandbox.getBackend()}, level: ${sandbox.getLevel()})`);
+            } catch (e2) {
+              throw new SandboxStartError(config.name, (e2 as Error).message);
+            }
+          } else {
+            throw new SandboxStartError(config.name, (e as Error).message);
           }
         } else {
           throw new SandboxStartError(config.name, (e as Error).message);
         }
-      } else {
-        throw new SandboxStartError(config.name, (e as Error).message);
       }
+      config = { ...config, sandboxBackend: backend };
     }
-    config = { ...config, sandboxBackend: backend };
     const session = new Session(config, this.options?.shutdownTimeoutMs, claudeSessionId, promptCount, retryCount, sandbox, provider);
     for (const msg of pendingSystemMessages) {
       session.emit('system', msg);
@@ -146,6 +258,7 @@ export class SessionManager extends EventEmitter {
       exitCode: info.exitCode ?? null,
       claudeSessionId: session.getSessionId(),
       promptCount: info.promptCount,
+      budgetSince: budgetSince ?? new Date().toISOString(),
       permissionMode: config.permissionMode,
       restartPolicy: session.getRestartPolicy(),
       tags: config.tags,
@@ -154,6 +267,13 @@ export class SessionManager extends EventEmitter {
       sandboxImage: config.sandboxImage,
       sandboxMemoryLimit: config.sandboxMemoryLimit,
       sandboxCpuLimit: config.sandboxCpuLimit,
+      sandboxEgress: config.sandboxEgress,
+      sandboxMounts: config.sandboxMounts,
+      sandboxTrace: config.sandboxTrace,
+      budget: config.budget,
+      resourceLimits: config.resourceLimits,
+      fileTriggers: config.fileTriggers,
+      worktree: config.worktree,
     };
 
     try {
@@ -170,9 +290,19 @@ export class SessionManager extends EventEmitter {
 
     this.sessions.set(config.name, session);
     this.registryEntries.set(config.name, entry);
+    await this.captureDiffBaseline(config, claudeSessionId === undefined);
     this.wireHistoryRecording(session, config.name);
+    this.wireUsageRecording(session, config.name);
+    await this.loadWorkspaceBudgets();
+    // A new session has spent nothing, whatever earlier ones by its name did
+    if (budgetSince === undefined) this.ledgerUsage.delete(config.name);
+    this.wireBudget(session, config.name);
+    this.wireResourceEvents(session, config.name);
     this.wireCrashHandling(session, config.name);
     this.wirePluginEvents(session, config.name);
+    this.wireFileTriggers(session, config);
+    this.wireCheckpoints(session, config);
+    this.emit('sessionStarted', session.getInfo());
 
     // Fire onStart plugin event (fire-and-forget)
     this.pluginRunner.fire(config.name, 'onStart', {
@@ -194,11 +324,17 @@ export class SessionManager extends EventEmitter {
 
     const session = this.sessions.get(name);
     if (session) {
+      this.unwatchFileTriggers(name);
       await session.stop();
       await this.registry.removeEntry(name);
       this.sessions.delete(name);
       this.registryEntries.delete(name);
+      this.promptTimes.delete(name);
+      await this.removeDiffBaseline(name);
+      await this.removeSandboxTrace(name);
+      await this.removeCheckpoints(name);
       logger.info(`Session "${name}" stopped`);
+      this.emit('sessionStopped', name);
 
       // Fire onStop plugin event (fire-and-forget)
       this.pluginRunner.fire(name, 'onStop', {}).catch(() => { /* plugin failures are non-fatal */ });
@@ -221,6 +357,10 @@ export class SessionManager extends EventEmitter {
 
     await this.registry.removeEntry(name);
     this.registryEntries.delete(name);
+    await this.removeDiffBaseline(name);
+    await this.removeSandboxTrace(name);
+    await this.removeCheckpoints(name);
+    this.emit('sessionStopped', name);
   }
 
   forceKill(sessionName: string): void {
@@ -257,10 +397,52 @@ export class SessionManager extends EventEmitter {
     return toStop.length;
   }
 
+  /**
+   * Names of the providers sessions can use: the built-in ones, plus those
+   * declared in providers.json when the manager has a provider registry.
+   */
+  async listProviders(): Promise<string[]> {
+    return this.providerRegistry ? this.providerRegistry.list() : [...BUILTIN_PROVIDERS];
+  }
+
   getSession(name: string): Session | undefined {
     return this.sessions.get(name);
   }
 
+  /**
+   * Cancel the in-flight prompt of a session without stopping it.
+   * Returns false if the session is idle.
+   */
+  cancelPrompt(name: string): boolean {
+    return this.requireSession(name).cancelPrompt();
+  }
+
+  /**
+   * Prompts waiting behind the in-flight prompt of a session, in run order.
+   */
+  getQueue(name: string): QueuedPrompt[] {
+    return this.requireSession(name).getQueue();
+  }
+
+  dropQueuedPrompt(name: string, id: number): void {
+    this.requireSession(name).dropQueuedPrompt(id);
+  }
+
+  /**
+   * Drop every waiting prompt of a session. Returns the number dropped.
+   */
+  clearQueue(name: string): number {
+    return this.requireSession(name).clearQueue();
+  }
+
+  private requireSession(name: string): Session {
+    const session = this.sessions.get(name);
+    if (!session) {
+      throw new SessionNotFoundError(name);
+    }
+    return session;
+  }
+
   /**
    * Adopt a registry-only session into this process.
    * In prompt-based mode there is no persistent child process to kill —
@@ -293,33 +475,363 @@ export class SessionManager extends EventEmitter {
       sandboxImage: entry.sandboxImage,
       sandboxMemoryLimit: entry.sandboxMemoryLimit,
       sandboxCpuLimit: entry.sandboxCpuLimit,
+      sandboxEgress: entry.sandboxEgress,
+      sandboxMounts: entry.sandboxMounts,
+      sandboxTrace: entry.sandboxTrace,
+      budget: entry.budget,
+      resourceLimits: entry.resourceLimits,
+      fileTriggers: entry.fileTriggers,
+      worktree: entry.worktree,
     };
 
-    return this.startSession(config, entry.claudeSessionId, entry.promptCount);
+    return this.startSession(config, entry.claudeSessionId, entry.promptCount, undefined, entry.budgetSince ?? entry.startedAt);
   }
 
+  /**
+   * Capture the working directory as the `sandbox diff` baseline of a new
+   * session. Restarts keep the baseline from the first start so the diff
+   * still covers everything the session changed. Failures only warn.
+   */
+  private async captureDiffBaseline(config: SessionConfig, fresh: boolean): Promise<void> {
+    if (!this.sandboxDiffStore) return;
+    try {
+      if (fresh || !(await this.sandboxDiffStore.hasBaseline(config.name))) {
+        await this.sandboxDiffStore.capture(config.name, config.workingDirectory);
+      }
+    } catch (err) {
+      logger.warn(`Failed to capture diff baseline for session "${config.name}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /** Delete the diff baseline of a stopped session. Failures only warn. */
+  private async removeDiffBaseline(name: string): Promise<void> {
+    if (!this.sandboxDiffStore) return;
+    try {
+      await this.sandboxDiffStore.remove(name);
+    } catch (err) {
+      logger.warn(`Failed to remove diff baseline of session "${name}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  /** Delete the checkpoints of a stopped session. Failures only warn. */
+  private async removeCheckpoints(name: string): Promise<void> {
+    if (!this.checkpointStore) return;
+    try {
+      await this.checkpointStore.remove(name);
+    } catch (err) {
+      logger.warn(`Failed to remove checkpoints of session "${name}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /** Delete the strace output of a stopped bwrap session. Failures only warn. */
+  private async removeSandboxTrace(name: string): Promise<void> {
+    if (!this.sandboxEventLog) return;
+    try {
+      await this.sandboxEventLog.removeTrace(name);
+    } catch (err) {
+      logger.warn(`Failed to remove sandbox trace of session "${name}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+
+  /**
+   * Record each finished turn: a preview in the history index plus the full
+   * response, stderr, timing and exit status in the transcript store.
+   */
   private wireHistoryRecording(session: Session, sessionName: string): void {
     if (!this.historyStore) return;
 
     const store = this.historyStore;
-    let pendingPrompt: string | null = null;
+    let turn: {
+      prompt: string;
+      startedAt: Date;
+      response: string;
+      stderr: string;
+      exitCode: number | null;
+      signal: string | null;
+      events: ProviderEvent[];
+      usage?: TokenUsage;
+      costUsd?: number;
+      scheduleId?: string;
+      checkpointId?: number;
+    } | null = null;
+
+    const finish = (outcome: TranscriptOutcome, response?: string): void => {
+      if (!turn) return;
+      const current = turn;
+      turn = null;
+
+      const completedAt = new Date();
+      const fullResponse = response ?? current.response;
+      store.record(sessionName, {
+        prompt: current.prompt,
+        responsePreview: fullResponse,
+        ...(outcome === 'cancelled' ? { cancelled: true } : {}),
+        ...(outcome === 'failed' || outcome === 'timeout' ? { failed: true } : {}),
+        ...(current.scheduleId ? { scheduleId: current.scheduleId } : {}),
+        ...(current.checkpointId !== undefined ? { checkpointId: current.checkpointId } : {}),
+        transcript: {
+          prompt: current.prompt,
+          response: fullResponse,
+          stderr: current.stderr,
+          startedAt: current.startedAt.toISOString(),
+          completedAt: completedAt.toISOString(),
+          durationMs: completedAt.getTime() - current.startedAt.getTime(),
+          exitCode: outcome === 'completed' ? 0 : current.exitCode,
+          signal: current.signal,
+          outcome,
+          ...(current.events.length > 0 ? { events: current.events } : {}),
+          ...(current.usage ? { usage: current.usage } : {}),
+          ...(current.costUsd !== undefined ? { costUsd: current.costUsd } : {}),
+        },
+      }).catch((err) => {
+        logger.warn(`Failed to record history for session "${sessionName}": ${err}`);
+      });
+    };
 
-    session.on('promptStart', (prompt: string) => {
-      pendingPrompt = prompt;
+    session.on('promptStart', (prompt: string, scheduleId?: string) => {
+      turn = { prompt, startedAt: new Date(), response: '', stderr: '', exitCode: null, signal: null, events: [], scheduleId };
     });
 
-    session.on('promptComplete', (response: string) => {
-      if (pendingPrompt) {
-        const prompt = pendingPrompt;
-        pendingPrompt = null;
-        store.record(sessionName, {
-          prompt,
-          responsePreview: response,
-        }).catch((err) => {
-          logger.warn(`Failed to record history for session "${sessionName}": ${err}`);
-        });
+    session.on('checkpoint', (checkpoint: CheckpointEntry) => {
+      if (turn) turn.checkpointId = checkpoint.id;
+    });
+
+    session.on('providerEvent', (event: ProviderEvent) => {
+      if (!turn || event.type === 'text') return;
+      turn.events.push(event);
+      if (event.type === 'result') {
+        turn.usage = event.usage;
+        turn.costUsd = event.costUsd;
+      }
+    });
+
+    session.on('data', (chunk: string) => {
+      if (turn) turn.response += chunk;
+    });
+
+    session.on('stderr', (chunk: string) => {
+      if (turn) turn.stderr += chunk;
+    });
+
+    session.on('crashed', (event: SessionCrashedEvent) => {
+      if (turn) {
+        turn.exitCode = event.exitCode;
+        turn.signal = event.signal;
       }
     });
+
+    session.on('promptComplete', (response: string) => finish('completed', response));
+    session.on('promptError', () => finish('failed'));
+    session.on('promptTimeout', () => finish('timeout'));
+    session.on('promptCancelled', (event: PromptCancelledEvent) => finish('cancelled', event.partialResponse));
+  }
+
+  /**
+   * Append each turn's provider-reported tokens and cost to the usage ledger.
+   * Cancelled and failed turns still cost money, so any result event counts.
+   */
+  private wireUsageRecording(session: Session, sessionName: string): void {
+    if (!this.usageStore) return;
+
+    const store = this.usageStore;
+    session.on('providerEvent', (event: ProviderEvent) => {
+      if (event.type !== 'result' || (!event.usage && event.costUsd === undefined)) return;
+      this.addLedgerTurn(sessionName, event.usage, event.costUsd);
+      const config = session.getConfig();
+      store.record(sessionName, {
+        provider: config.provider ?? 'claude',
+        tags: config.tags,
+        usage: event.usage,
+        costUsd: event.costUsd,
+      }).catch((err) => {
+        logger.warn(`Failed to record usage for session "${sessionName}": ${err}`);
+      });
+    });
+  }
+
+  /** Count a turn being recorded in the ledger, replacing its prompt's start time. */
+  private addLedgerTurn(sessionName: string, usage: TokenUsage | undefined, costUsd: number | undefined): void {
+    const entry = this.ledgerUsage.get(sessionName) ?? { tokens: 0, costUsd: 0, turnTimes: [] };
+    entry.tokens += usage ? usage.inputTokens + usage.outputTokens : 0;
+    entry.costUsd += costUsd ?? 0;
+    entry.turnTimes.push(this.promptTimes.get(sessionName)?.shift() ?? Date.now());
+    this.ledgerUsage.set(sessionName, entry);
+  }
+
+  /**
+   * Budget status of a live session: one entry for its own budget and one
+   * per budgeted workspace it belongs to. Empty if nothing limits it.
+   */
+  getBudgetStatus(name: string): BudgetStatus[] {
+    const session = this.sessions.get(name);
+    if (!session) return [];
+
+    const statuses: BudgetStatus[] = [];
+    const own = session.getConfig().budget;
+    if (hasBudget(own)) {
+      statuses.push(evaluateBudget('session', name, own, this.budgetUsage(name)));
+    }
+    for (const workspace of this.budgetedWorkspaces) {
+      if (!workspace.sessionNames.includes(name) || !hasBudget(workspace.budget)) continue;
+      const members = workspace.sessionNames.filter((member) => this.sessions.has(member) || this.ledgerUsage.has(member));
+      const used = combineBudgetUsage(members.map((member) => this.budgetUsage(member)));
+      statuses.push(evaluateBudget('workspace', workspace.name, workspace.budget, used));
+    }
+    return statuses;
+  }
+
+  /**
+   * What a session has used. With a usage ledger, tokens, cost and prompts
+   * come from its recorded turns, so limits hold across restarts and CLI
+   * invocations, plus the prompts started but not recorded yet; without
+   * one, from the live session's metrics.
+   */
+  private budgetUsage(name: string): BudgetUsage {
+    const metrics = this.sessions.get(name)?.getMetrics();
+    const cutoff = Date.now() - PROMPT_RATE_WINDOW_MS;
+    const recent = (this.promptTimes.get(name) ?? []).filter((t) => t > cutoff);
+    this.promptTimes.set(name, recent);
+    if (this.usageStore) {
+      const ledger = this.ledgerUsage.get(name);
+      if (ledger) ledger.turnTimes = ledger.turnTimes.filter((t) => t > cutoff);
+      return {
+        tokens: ledger?.tokens ?? 0,
+        costUsd: ledger?.costUsd ?? 0,
+        promptsLastHour: (ledger?.turnTimes.length ?? 0) + recent.length,
+        wallClockMs: metrics?.uptimeMs ?? 0,
+      };
+    }
+    return {
+      tokens: metrics?.usage ? metrics.usage.inputTokens + metrics.usage.outputTokens : 0,
+      costUsd: metrics?.costUsd ?? 0,
+      promptsLastHour: recent.length,
+      wallClockMs: metrics?.uptimeMs ?? 0,
+    };
+  }
+
+  private withBudget(info: SessionInfo): SessionInfo {
+    const budget = this.getBudgetStatus(info.name);
+    return budget.length > 0 ? { ...info, budget } : info;
+  }
+
+  /**
+   * Sum the usage ledger per registered session, counting only the turns
+   * recorded since it started (its `budgetSince`), so a new session that
+   * reuses an old name starts from zero. Turns this process records later
+   * are added as they happen (see wireUsageRecording()).
+   */
+  private async loadLedgerUsage(): Promise<void> {
+    if (!this.usageStore || this.registryEntries.size === 0) return;
+    try {
+      const records = await this.usageStore.query();
+      const cutoff = Date.now() - PROMPT_RATE_WINDOW_MS;
+      const usage = new Map<string, LedgerUsage>();
+      for (const record of records) {
+        const session = this.registryEntries.get(record.sessionName);
+        if (!session || Date.parse(record.timestamp) < Date.parse(session.budgetSince ?? session.startedAt)) continue;
+        const entry = usage.get(record.sessionName) ?? { tokens: 0, costUsd: 0, turnTimes: [] };
+        entry.tokens += record.inputTokens + record.outputTokens;
+        entry.costUsd += record.costUsd;
+        const time = Date.parse(record.timestamp);
+        if (time > cutoff) entry.turnTimes.push(time);
+        usage.set(record.sessionName, entry);
+      }
+      this.ledgerUsage = usage;
+    } catch (err) {
+      logger.warn(`Failed to load the usage ledger: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private async loadWorkspaceBudgets(): Promise<void> {
+    if (!this.workspaceManager) return;
+    try {
+      const workspaces = await this.workspaceManager.list();
+      this.budgetedWorkspaces = workspaces.filter((ws) => hasBudget(ws.budget));
+    } catch (err) {
+      logger.warn(`Failed to load workspace budgets: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Enforce budgets on a session: refuse prompts once a limit is reached and
+   * emit 'budgetWarning' / 'budgetExceeded' (on the manager and the session)
+   * as usage crosses the thresholds. Reaching a limit also drops the queued
+   * prompts of every session sharing that budget.
+   */
+  private wireBudget(session: Session, sessionName: string): void {
+    session.setPromptGuard(() => {
+      const statuses = this.getBudgetStatus(sessionName);
+      this.emitBudgetAlerts(sessionName, statuses);
+      for (const status of statuses) {
+        if (status.exceeded.length > 0) {
+          throw new BudgetExceededError(sessionName, status.exceeded[0], status.scope, status.scopeName);
+        }
+      }
+    });
+
+    session.on('promptStart', () => {
+      const times = this.promptTimes.get(sessionName) ?? [];
+      times.push(Date.now());
+      this.promptTimes.set(sessionName, times);
+      this.emitBudgetAlerts(sessionName, this.getBudgetStatus(sessionName));
+    });
+
+    session.on('providerEvent', (event: ProviderEvent) => {
+      if (event.type !== 'result') return;
+      this.emitBudgetAlerts(sessionName, this.getBudgetStatus(sessionName));
+    });
+  }
+
+  private emitBudgetAlerts(sessionName: string, statuses: BudgetStatus[]): void {
+    const session = this.sessions.get(sessionName);
+    for (const status of statuses) {
+      for (const kind of Object.keys(status.remaining) as BudgetLimitKind[]) {
+        const key = `${status.scope}:${status.scopeName}:${kind}`;
+        const level = status.exceeded.includes(kind) ? 'exceeded'
+          : status.warnings.includes(kind) ? 'warning'
+          : null;
+        if (level === this.budgetAlerts.get(key) || (level === null && !this.budgetAlerts.has(key))) {
+          continue;
+        }
+        if (level === null) {
+          // Back under the threshold (e.g. the hourly window moved on)
+          this.budgetAlerts.delete(key);
+          continue;
+        }
+        this.budgetAlerts.set(key, level);
+
+        const values = budgetLimitValues(status.limits, status.used, kind)!;
+        const event: BudgetEvent = {
+          sessionName,
+          scope: status.scope,
+          scopeName: status.scopeName,
+          limit: kind,
+          used: values.used,
+          max: values.max,
+        };
+        const eventName = level === 'exceeded' ? 'budgetExceeded' : 'budgetWarning';
+        logger.warn(`Budget ${level === 'exceeded' ? 'exceeded' : 'warning'} for ${status.scope} "${status.scopeName}": ${kind} ${values.used}/${values.max}`);
+        this.emit(eventName, event);
+        session?.emit(eventName, event);
+
+        if (level === 'exceeded') {
+          this.pauseBudgetScope(status);
+        }
+      }
+    }
+  }
+
+  /** Drop queued prompts of every live session covered by an exhausted budget. */
+  private pauseBudgetScope(status: BudgetStatus): void {
+    const names = status.scope === 'session'
+      ? [status.scopeName]
+      : this.budgetedWorkspaces.find((ws) => ws.name === status.scopeName)?.sessionNames ?? [];
+    for (const name of names) {
+      const session = this.sessions.get(name);
+      if (session && session.getQueue().length > 0) {
+        session.clearQueue();
+      }
+    }
   }
 
   /**
@@ -330,7 +842,7 @@ export class SessionManager extends EventEmitter {
     // First check in-memory sessions (authoritative for live sessions)
     const session = this.sessions.get(name);
     if (session) {
-      return session.getInfo();
+      return this.withBudget(session.getInfo());
     }
 
     // Fall back to registry entries
@@ -388,6 +900,8 @@ export class SessionManager extends EventEmitter {
         this.registryEntries.delete(name);
       }
     }
+
+    await this.loadWorkspaceBudgets();
   }
 
   /**
@@ -433,7 +947,7 @@ export class SessionManager extends EventEmitter {
 
     // First, include all in-memory sessions (authoritative for live sessions)
     for (const [name, session] of this.sessions) {
-      results.push(session.getInfo());
+      results.push(this.withBudget(session.getInfo()));
       seen.add(name);
     }
 
@@ -469,6 +983,23 @@ export class SessionManager extends EventEmitter {
     });
   }
 
+  /**
+   * Re-emit a session's resource samples and finished turns (with the
+   * session name) and soft-limit warnings on the manager, for views of all
+   * sessions.
+   */
+  private wireResourceEvents(session: Session, sessionName: string): void {
+    session.on('resourceSample', (gauge: ResourceGauge) => {
+      this.emit('resourceSample', sessionName, gauge);
+    });
+    session.on('resourceWarning', (event: ResourceWarningEvent) => {
+      this.emit('resourceWarning', event);
+    });
+    session.on('resourceTurn', (usage: ResourceTurnUsage) => {
+      this.emit('resourceTurn', sessionName, usage);
+    });
+  }
+
   /**
    * Wire up plugin event hooks for a session.
    * Listens to session events and fires the corresponding plugins (fire-and-forget).
@@ -502,6 +1033,66 @@ export class SessionManager extends EventEmitter {
     });
   }
 
+  /**
+   * Watch for the file triggers of running sessions and of those started
+   * from now on. Only the daemon calls this: the watchers keep the process
+   * alive, so a CLI command that owns a session would never exit.
+   */
+  startFileTriggers(): void {
+    if (this.fileTriggersEnabled) return;
+    this.fileTriggersEnabled = true;
+    for (const session of this.sessions.values()) {
+      this.wireFileTriggers(session, session.getConfig());
+    }
+  }
+
+  /** Stop every file trigger watcher; the counterpart of startFileTriggers(). */
+  stopFileTriggers(): void {
+    this.fileTriggersEnabled = false;
+    for (const name of [...this.fileTriggerWatchers.keys()]) {
+      this.unwatchFileTriggers(name);
+    }
+  }
+
+  /**
+   * Watch the session's working directory for its file triggers, if any and
+   * if triggers are enabled. Invalid triggers are logged and skipped rather
+   * than failing the start.
+   */
+  private wireFileTriggers(session: Session, config: SessionConfig): void {
+    if (!this.fileTriggersEnabled || !config.fileTriggers || config.fileTriggers.length === 0) return;
+
+    let watcher: FileTriggerWatcher;
+    try {
+      watcher = new FileTriggerWatcher(session, config.fileTriggers);
+    } catch (err) {
+      logger.warn(`File triggers disabled for session "${config.name}": ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    watcher.watch();
+    this.fileTriggerWatchers.set(config.name, watcher);
+  }
+
+  /**
+   * Snapshot the working directory before each prompt so `checkpoint
+   * restore` can undo what the prompt changed. The checkpoint is announced
+   * as a 'checkpoint' event for the history entry to point at.
+   */
+  private wireCheckpoints(session: Session, config: SessionConfig): void {
+    if (!this.checkpointStore) return;
+
+    const store = this.checkpointStore;
+    session.setBeforePrompt(async (prompt: string) => {
+      const checkpoint = await store.create(config.name, config.workingDirectory, prompt);
+      session.emit('checkpoint', checkpoint);
+    });
+  }
+
+  private unwatchFileTriggers(sessionName: string): void {
+    this.fileTriggerWatchers.get(sessionName)?.unwatch();
+    this.fileTriggerWatchers.delete(sessionName);
+  }
+
   /**
    * Handle a session crash event and decide whether to restart.
    */
@@ -587,8 +1178,10 @@ export class SessionManager extends EventEmitter {
     const config = session.getConfig();
     const claudeSessionId = session.getSessionId();
     const promptCount = session.getInfo().promptCount;
+    const budgetSince = this.registryEntries.get(sessionName)?.budgetSince;
 
     // Stop and remove the crashed session
+    this.unwatchFileTriggers(sessionName);
     await session.stop();
     this.sessions.delete(sessionName);
     this.registryEntries.delete(sessionName);
@@ -596,7 +1189,7 @@ export class SessionManager extends EventEmitter {
 
     // Create a new session with the same config and incremented retry count
     try {
-      const newSession = await this.startSession(config, claudeSessionId, promptCount, retryCount);
+      const newSession = await this.startSession(config, claudeSessionId, promptCount, retryCount, budgetSince);
 
       logger.info(`Session "${sessionName}" restarted successfully`);
       this.emit('sessionRestarted', sessionName, retryCount);
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { ClaudeAdapter } from './claude.js';
+import { ClaudeAdapter, describeToolUse } from './claude.js';
 
 describe('ClaudeAdapter', () => {
   const adapter = new ClaudeAdapter();
@@ -103,4 +103,86 @@ describe('ClaudeAdapter', () => {
     });
     expect(adapter.extractText(line)).toBeNull();
   });
+
+  it('parseEvents emits text before tool_use blocks from an assistant message', () => {
+    const line = JSON.stringify({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Let me fix that.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Edit', input: { file_path: 'src/foo.ts', old_string: 'a', new_string: 'b' } },
+        ],
+      },
+    });
+    expect(adapter.parseEvents(line)).toEqual([
+      { type: 'text', text: 'Let me fix that.' },
+      {
+        type: 'tool_use',
+        id: 'toolu_1',
+        name: 'Edit',
+        input: { file_path: 'src/foo.ts', old_string: 'a', new_string: 'b' },
+        summary: 'Edited src/foo.ts',
+      },
+    ]);
+  });
+
+  it('parseEvents emits tool_result blocks from user messages', () => {
+    const line = JSON.stringify({
+      type: 'user',
+      message: {
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '3 tests failed' }], is_error: true },
+        ],
+      },
+    });
+    expect(adapter.parseEvents(line)).toEqual([
+      { type: 'tool_result', toolUseId: 'toolu_1', content: '3 tests failed', isError: true },
+    ]);
+  });
+
+  it('parseEvents truncates very large tool results', () => {
+    const line = JSON.stringify({
+      type: 'user',
+      message: { content: [{ type: 'tool_result', tool_use_id: 't', content: 'x'.repeat(10000) }] },
+    });
+    const [event] = adapter.parseEvents(line);
+    expect(event.type === 'tool_result' && event.content.endsWith('...[truncated]')).toBe(true);
+  });
+
+  it('parseEvents maps the result event to usage, cost and duration', () => {
+    const line = JSON.stringify({
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      duration_ms: 5120,
+      num_turns: 3,
+      total_cost_usd: 0.0421,
+      usage: { input_tokens: 1200, output_tokens: 340, cache_read_input_tokens: 9000 },
+    });
+    expect(adapter.parseEvents(line)).toEqual([{
+      type: 'result',
+      isError: false,
+      durationMs: 5120,
+      numTurns: 3,
+      costUsd: 0.0421,
+      usage: { inputTokens: 1200, outputTokens: 340, cacheReadInputTokens: 9000 },
+    }]);
+  });
+
+  it('parseEvents maps error events', () => {
+    const line = JSON.stringify({ type: 'error', error: { message: 'overloaded' } });
+    expect(adapter.parseEvents(line)).toEqual([{ type: 'error', message: 'overloaded' }]);
+  });
+
+  it('parseEvents returns nothing for invalid JSON or system events', () => {
+    expect(adapter.parseEvents('{broken')).toEqual([]);
+    expect(adapter.parseEvents(JSON.stringify({ type: 'system', subtype: 'init' }))).toEqual([]);
+  });
+
+  it('describeToolUse summarizes common Claude Code tools', () => {
+    expect(describeToolUse('Bash', { command: 'npm test' })).toBe('Ran npm test');
+    expect(describeToolUse('Write', { file_path: 'README.md' })).toBe('Wrote README.md');
+    expect(describeToolUse('Read', { file_path: 'a.ts' })).toBe('Read a.ts');
+    expect(describeToolUse('mcp__github__create_issue', {})).toBe('Used mcp__github__create_issue');
+  });
 });
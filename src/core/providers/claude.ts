@@ -1,4 +1,95 @@
-import type { ProviderAdapter, ProviderType } from './provider.js';
+import type { ProviderAdapter, ProviderEvent, ProviderType } from './provider.js';
+import type { TokenUsage } from '../../types.js';
+
+/** Tool results can be whole files; keep events small enough to stream and store. */
+const TOOL_RESULT_MAX_CHARS = 4000;
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | Array<{ type?: string; text?: string }>;
+  is_error?: boolean;
+}
+
+interface StreamEvent {
+  type?: string;
+  message?: { content?: ContentBlock[] };
+  delta?: { type?: string; text?: string };
+  is_error?: boolean;
+  duration_ms?: number;
+  num_turns?: number;
+  total_cost_usd?: number;
+  cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+  error?: { message?: string } | string;
+}
+
+/**
+ * Summarize a Claude Code tool call for display, e.g. "Edited src/foo.ts".
+ */
+export function describeToolUse(name: string, input: Record<string, unknown>): string {
+  const str = (key: string): string | undefined =>
+    typeof input[key] === 'string' ? (input[key] as string) : undefined;
+
+  switch (name) {
+    case 'Edit':
+    case 'MultiEdit':
+      return `Edited ${str('file_path') ?? 'a file'}`;
+    case 'Write':
+      return `Wrote ${str('file_path') ?? 'a file'}`;
+    case 'NotebookEdit':
+      return `Edited ${str('notebook_path') ?? 'a notebook'}`;
+    case 'Read':
+      return `Read ${str('file_path') ?? 'a file'}`;
+    case 'Bash':
+      return `Ran ${str('command') ?? 'a command'}`;
+    case 'Grep':
+    case 'Glob':
+      return `Searched ${str('pattern') ?? ''}`.trimEnd();
+    case 'WebFetch':
+      return `Fetched ${str('url') ?? 'a URL'}`;
+    case 'WebSearch':
+      return `Searched the web for ${str('query') ?? ''}`.trimEnd();
+    case 'Task':
+      return `Started task ${str('description') ?? ''}`.trimEnd();
+    default:
+      return `Used ${name}`;
+  }
+}
+
+function toolResultText(content: ContentBlock['content']): string {
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.filter((c) => c.type === 'text').map((c) => c.text ?? '').join('')
+      : '';
+  return text.length > TOOL_RESULT_MAX_CHARS
+    ? text.slice(0, TOOL_RESULT_MAX_CHARS) + '...[truncated]'
+    : text;
+}
+
+function toUsage(usage: StreamEvent['usage']): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    ...(usage.cache_creation_input_tokens !== undefined
+      ? { cacheCreationInputTokens: usage.cache_creation_input_tokens }
+      : {}),
+    ...(usage.cache_read_input_tokens !== undefined
+      ? { cacheReadInputTokens: usage.cache_read_input_tokens }
+      : {}),
+  };
+}
 
 export class ClaudeAdapter implements ProviderAdapter {
   readonly type: ProviderType = 'claude';
@@ -21,42 +112,83 @@ export class ClaudeAdapter implements ProviderAdapter {
     return [];
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   extractText(line: string): string | null {
-    let event: any;
+    const texts = this.parseEvents(line)
+      .filter((e): e is Extract<ProviderEvent, { type: 'text' }> => e.type === 'text')
+      .map((e) => e.text);
+    return texts.length > 0 ? texts.join('') : null;
+  }
+
+  parseEvents(line: string): ProviderEvent[] {
+    let event: StreamEvent;
     try {
-      event = JSON.parse(line);
+      event = JSON.parse(line) as StreamEvent;
     } catch {
-      return null;
+      return [];
     }
 
-    if (!event || !event.type) return null;
+    if (!event || typeof event !== 'object' || !event.type) return [];
 
     switch (event.type) {
-      case 'assistant': {
-        // Full assistant message — extract text content blocks
+      case 'assistant':
+      case 'user': {
+        // Full messages: assistant carries text and tool_use blocks,
+        // user carries the tool_result blocks Claude Code feeds back
         const content = event.message?.content;
-        if (Array.isArray(content)) {
-          const texts = content
-            .filter((c: { type: string }) => c.type === 'text')
-            .map((c: { text: string }) => c.text);
-          return texts.length > 0 ? texts.join('') : null;
+        if (!Array.isArray(content)) return [];
+        const events: ProviderEvent[] = [];
+        const texts: string[] = [];
+        for (const block of content) {
+          if (block.type === 'text' && event.type === 'assistant' && typeof block.text === 'string') {
+            texts.push(block.text);
+          } else if (block.type === 'tool_use' && block.name) {
+            const input = block.input ?? {};
+            events.push({
+              type: 'tool_use',
+              id: block.id ?? '',
+              name: block.name,
+              input,
+              summary: describeToolUse(block.name, input),
+            });
+          } else if (block.type === 'tool_result') {
+            events.push({
+              type: 'tool_result',
+              toolUseId: block.tool_use_id ?? '',
+              content: toolResultText(block.content),
+              isError: block.is_error === true,
+            });
+          }
         }
-        return null;
+        // Adjacent text blocks form one chunk, ahead of any tool calls
+        return texts.length > 0 ? [{ type: 'text', text: texts.join('') }, ...events] : events;
       }
       case 'content_block_delta': {
         // Streaming text delta
-        if (event.delta?.type === 'text_delta') {
-          return event.delta.text ?? null;
+        if (event.delta?.type === 'text_delta' && typeof event.delta.text === 'string') {
+          return [{ type: 'text', text: event.delta.text }];
         }
-        return null;
+        return [];
       }
       case 'result': {
-        // Final result — content already captured via assistant/delta events
-        return null;
+        // Final result — text was already captured via assistant/delta events
+        const costUsd = event.total_cost_usd ?? event.cost_usd;
+        return [{
+          type: 'result',
+          isError: event.is_error === true,
+          ...(event.duration_ms !== undefined ? { durationMs: event.duration_ms } : {}),
+          ...(event.num_turns !== undefined ? { numTurns: event.num_turns } : {}),
+          ...(costUsd !== undefined ? { costUsd } : {}),
+          ...(event.usage ? { usage: toUsage(event.usage) } : {}),
+        }];
+      }
+      case 'error': {
+        const message = typeof event.error === 'string'
+          ? event.error
+          : event.error?.message ?? 'Unknown provider error';
+        return [{ type: 'error', message }];
       }
       default:
-        return null;
+        return [];
     }
   }
 }
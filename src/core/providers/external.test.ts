@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { ExternalProviderAdapter, isProviderEvent, jsonPathParser, linesParser, parseProviderSpec } from './external.js';
+import { InvalidProviderSpecError } from '../../utils/errors.js';
+
+describe('parseProviderSpec', () => {
+  it('accepts a full spec', () => {
+    const spec = {
+      binary: 'aider',
+      firstPromptArgs: ['--message', '{{prompt}}'],
+      resumeArgs: ['--restore-chat-history', '--message', '{{prompt}}'],
+      modeArgs: { bypassPermissions: ['--yes-always'] },
+      configDir: '~/.aider',
+      model: 'sonnet',
+      output: { jsonPath: 'text' },
+      nativeSession: false,
+    };
+    expect(parseProviderSpec(spec, '"aider"')).toEqual(spec);
+  });
+
+  it.each([
+    [[], 'must be a JSON object'],
+    [{ binary: 'x', firstPromptArgs: [], extra: 1 }, 'unknown key "extra"'],
+    [{ firstPromptArgs: [] }, '"binary" must be a command name or path'],
+    [{ binary: 'x', firstPromptArgs: '-p' }, '"firstPromptArgs" must be a list of strings'],
+    [{ binary: 'x', firstPromptArgs: ['{{input}}'] }, 'unknown placeholder {{input}}'],
+    [{ binary: 'x', firstPromptArgs: ['{{prompt}}'], resumeArgs: ['-c'] }, '{{prompt}} must be in both'],
+    [{ binary: 'x', firstPromptArgs: [], modeArgs: { plan: '--plan' } }, '"modeArgs.plan" must be a list of strings'],
+    [{ binary: 'x', firstPromptArgs: [], output: 'json' }, '"output" must be "lines"'],
+    [{ binary: 'x', firstPromptArgs: [], output: { jsonPath: 'a', module: 'b' } }, '"output" must be "lines"'],
+    [{ binary: 'x', firstPromptArgs: [], nativeSession: 'yes' }, '"nativeSession" must be true or false'],
+  ])('rejects %j', (value, reason) => {
+    expect(() => parseProviderSpec(value, '"x"')).toThrow(InvalidProviderSpecError);
+    expect(() => parseProviderSpec(value, '"x"')).toThrow(reason);
+  });
+});
+
+describe('output parsers', () => {
+  it('turns non-empty lines into text', () => {
+    expect(linesParser('hello')).toEqual([{ type: 'text', text: 'hello' }]);
+    expect(linesParser('  ')).toEqual([]);
+  });
+
+  it('reads the string at a JSON path, skipping anything else', () => {
+    const parse = jsonPathParser('choices.0.delta.content');
+    expect(parse('{"choices":[{"delta":{"content":"Hi"}}]}')).toEqual([{ type: 'text', text: 'Hi' }]);
+    expect(parse('{"choices":[]}')).toEqual([]);
+    expect(parse('{"choices":[{"delta":{"content":42}}]}')).toEqual([]);
+    expect(parse('not json')).toEqual([]);
+  });
+
+  it('checks the fields of parser module events by type', () => {
+    expect(isProviderEvent({ type: 'text', text: 'Hi' })).toBe(true);
+    expect(isProviderEvent({ type: 'text' })).toBe(false);
+    expect(isProviderEvent({ type: 'result', isError: false, costUsd: 0.1, usage: { inputTokens: 1, outputTokens: 2 } })).toBe(true);
+    expect(isProviderEvent({ type: 'result', isError: false, usage: { inputTokens: '1', outputTokens: 2 } })).toBe(false);
+    expect(isProviderEvent({ type: 'tool_use', id: 't1', name: 'Edit', input: {}, summary: 'Edited a.ts' })).toBe(true);
+    expect(isProviderEvent({ type: 'tool_result', toolUseId: 't1', content: 'ok' })).toBe(false);
+    expect(isProviderEvent({ type: 'error', message: 'quota' })).toBe(true);
+    expect(isProviderEvent({ type: 'progress' })).toBe(false);
+    expect(isProviderEvent(null)).toBe(false);
+  });
+});
+
+describe('ExternalProviderAdapter', () => {
+  it('fills placeholders and skips stdin when the prompt is an argument', () => {
+    const adapter = new ExternalProviderAdapter('llama', {
+      binary: 'llama-cli',
+      firstPromptArgs: ['-m', '{{model}}', '-p', '{{prompt}}', '--log-file', '/tmp/{{sessionId}}.log'],
+    }, linesParser, 'qwen.gguf');
+
+    expect(adapter.type).toBe('llama');
+    expect(adapter.promptInArgs).toBe(true);
+    expect(adapter.supportsNativeSession).toBe(false);
+    expect(adapter.buildFirstPromptArgs('abc', 'Say {{hi}}')).toEqual(['-m', 'qwen.gguf', '-p', 'Say {{hi}}', '--log-file', '/tmp/abc.log']);
+    expect(adapter.buildResumeArgs('abc', 'again')).toEqual(['-m', 'qwen.gguf', '-p', 'again', '--log-file', '/tmp/abc.log']);
+  });
+
+  it('uses resume args, mode args and a config dir named after the binary', () => {
+    const adapter = new ExternalProviderAdapter('codex', {
+      binary: '~/bin/codex',
+      firstPromptArgs: ['exec', '-'],
+      resumeArgs: ['exec', 'resume', '--last', '-'],
+      modeArgs: { bypassPermissions: ['--full-auto'] },
+      nativeSession: true,
+    }, linesParser);
+
+    expect(adapter.binary).toBe(path.join(os.homedir(), 'bin/codex'));
+    expect(adapter.configDir).toBe(path.join(os.homedir(), '.codex'));
+    expect(adapter.promptInArgs).toBe(false);
+    expect(adapter.supportsNativeSession).toBe(true);
+    expect(adapter.buildResumeArgs('abc', 'again')).toEqual(['exec', 'resume', '--last', '-']);
+    expect(adapter.buildModeArgs('bypassPermissions')).toEqual(['--full-auto']);
+    expect(adapter.buildModeArgs('plan')).toEqual([]);
+    expect(adapter.extractText('done')).toBe('done');
+  });
+
+  it('requires a model when the args use {{model}}', () => {
+    const spec = { binary: 'llama-cli', firstPromptArgs: ['-m', '{{model}}'] };
+    expect(() => new ExternalProviderAdapter('llama', spec, linesParser)).toThrow(InvalidProviderSpecError);
+    expect(new ExternalProviderAdapter('llama', { ...spec, model: 'default.gguf' }, linesParser).buildFirstPromptArgs('id', 'hi'))
+      .toEqual(['-m', 'default.gguf']);
+  });
+});
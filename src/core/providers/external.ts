@@ -0,0 +1,255 @@
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { textEvents, type ProviderAdapter, type ProviderEvent, type ProviderType } from './provider.js';
+import { InvalidProviderSpecError } from '../../utils/errors.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * How a provider's stdout becomes events: every non-empty line as text, the
+ * string at a dotted path of each JSON line, or a JS module's parser.
+ */
+export type ProviderOutputSpec = 'lines' | { jsonPath: string } | { module: string };
+
+/** One entry of providers.json. */
+export interface ExternalProviderSpec {
+  binary: string;
+  /** Args of a session's first prompt; {{prompt}}, {{sessionId}} and {{model}} are filled in. */
+  firstPromptArgs: string[];
+  /** Args of later prompts. Default: firstPromptArgs. */
+  resumeArgs?: string[];
+  /** Extra args per permission mode, e.g. { "bypassPermissions": ["--yes"] }. */
+  modeArgs?: Record<string, string[]>;
+  /** Mounted into sandboxes for the CLI's own settings. Default: ~/.<binary name>. */
+  configDir?: string;
+  /** Used for {{model}} when the session names no model. */
+  model?: string;
+  output?: ProviderOutputSpec;
+  /** The CLI keeps the conversation itself (given {{sessionId}}); otherwise earlier turns are prepended to each prompt. */
+  nativeSession?: boolean;
+}
+
+/** Turns one line of provider output into events. */
+export type LineParser = (line: string) => ProviderEvent[];
+
+const SPEC_KEYS = ['binary', 'firstPromptArgs', 'resumeArgs', 'modeArgs', 'configDir', 'model', 'output', 'nativeSession'];
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+const PLACEHOLDERS = ['prompt', 'sessionId', 'model'];
+
+/** Validate a parsed providers.json entry; `source` names it in errors. */
+export function parseProviderSpec(value: unknown, source: string): ExternalProviderSpec {
+  const fail = (reason: string): never => {
+    throw new InvalidProviderSpecError(source, reason);
+  };
+  const isStringList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((arg) => typeof arg === 'string');
+  const checkArgs = (key: string, list: unknown): void => {
+    if (!isStringList(list)) fail(`"${key}" must be a list of strings`);
+    for (const arg of list as string[]) {
+      for (const [, name] of arg.matchAll(PLACEHOLDER)) {
+        if (!PLACEHOLDERS.includes(name)) fail(`unknown placeholder {{${name}}} in "${key}" (expected ${PLACEHOLDERS.map((p) => `{{${p}}}`).join(', ')})`);
+      }
+    }
+  };
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('must be a JSON object');
+  const raw = value as Record<string, unknown>;
+
+  const unknownKey = Object.keys(raw).find((key) => !SPEC_KEYS.includes(key));
+  if (unknownKey) fail(`unknown key "${unknownKey}" (expected ${SPEC_KEYS.join(', ')})`);
+
+  if (typeof raw.binary !== 'string' || !raw.binary.trim()) fail('"binary" must be a command name or path');
+  checkArgs('firstPromptArgs', raw.firstPromptArgs);
+  const spec: ExternalProviderSpec = { binary: raw.binary as string, firstPromptArgs: raw.firstPromptArgs as string[] };
+
+  if (raw.resumeArgs !== undefined) {
+    checkArgs('resumeArgs', raw.resumeArgs);
+    spec.resumeArgs = raw.resumeArgs as string[];
+    const hasPrompt = (list: string[]): boolean => list.some((arg) => arg.includes('{{prompt}}'));
+    if (hasPrompt(spec.firstPromptArgs) !== hasPrompt(spec.resumeArgs)) {
+      fail('{{prompt}} must be in both "firstPromptArgs" and "resumeArgs" or in neither');
+    }
+  }
+  if (raw.modeArgs !== undefined) {
+    if (typeof raw.modeArgs !== 'object' || raw.modeArgs === null || Array.isArray(raw.modeArgs)) {
+      fail('"modeArgs" must map permission modes to lists of args');
+    }
+    for (const [mode, list] of Object.entries(raw.modeArgs as Record<string, unknown>)) {
+      if (!isStringList(list)) fail(`"modeArgs.${mode}" must be a list of strings`);
+    }
+    spec.modeArgs = raw.modeArgs as Record<string, string[]>;
+  }
+  for (const key of ['configDir', 'model'] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== 'string' || !raw[key]) fail(`"${key}" must be a non-empty string`);
+    spec[key] = raw[key] as string;
+  }
+  if (raw.output !== undefined) {
+    const output = raw.output as Record<string, unknown> | string;
+    const valid = output === 'lines'
+      || (typeof output === 'object' && output !== null && Object.keys(output).length === 1
+        && ((typeof output.jsonPath === 'string' && output.jsonPath !== '')
+          || (typeof output.module === 'string' && output.module !== '')));
+    if (!valid) fail('"output" must be "lines", { "jsonPath": "a.b.0.c" } or { "module": "./parser.js" }');
+    spec.output = raw.output as ProviderOutputSpec;
+  }
+  if (raw.nativeSession !== undefined) {
+    if (typeof raw.nativeSession !== 'boolean') fail('"nativeSession" must be true or false');
+    spec.nativeSession = raw.nativeSession as boolean;
+  }
+  return spec;
+}
+
+/** parseEvents() for output: "lines". */
+export function linesParser(line: string): ProviderEvent[] {
+  return textEvents(line.trim() !== '' ? line : null);
+}
+
+/**
+ * parseEvents() for output: { jsonPath }. Lines that are not JSON, or have
+ * no string at the path, are skipped.
+ */
+export function jsonPathParser(jsonPath: string): LineParser {
+  const keys = jsonPath.split('.');
+  return (line) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return [];
+    }
+    for (const key of keys) {
+      if (typeof value !== 'object' || value === null) return [];
+      value = (value as Record<string, unknown>)[key];
+    }
+    return textEvents(typeof value === 'string' ? value : null);
+  };
+}
+
+const isNumber = (value: unknown): boolean => typeof value === 'number';
+const isOptionalNumber = (value: unknown): boolean => value === undefined || typeof value === 'number';
+
+/** Whether `value`, returned by a parser module, is a well-formed ProviderEvent. */
+export function isProviderEvent(value: unknown): value is ProviderEvent {
+  if (typeof value !== 'object' || value === null) return false;
+  const event = value as Record<string, unknown>;
+  switch (event.type) {
+    case 'text':
+      return typeof event.text === 'string';
+    case 'tool_use':
+      return typeof event.id === 'string' && typeof event.name === 'string' && typeof event.summary === 'string' &&
+        typeof event.input === 'object' && event.input !== null;
+    case 'tool_result':
+      return typeof event.toolUseId === 'string' && typeof event.content === 'string' && typeof event.isError === 'boolean';
+    case 'result': {
+      const usage = event.usage as Record<string, unknown> | undefined;
+      return typeof event.isError === 'boolean' &&
+        isOptionalNumber(event.durationMs) && isOptionalNumber(event.numTurns) && isOptionalNumber(event.costUsd) &&
+        (usage === undefined || (typeof usage === 'object' && usage !== null &&
+          isNumber(usage.inputTokens) && isNumber(usage.outputTokens) &&
+          isOptionalNumber(usage.cacheCreationInputTokens) && isOptionalNumber(usage.cacheReadInputTokens)));
+    }
+    case 'error':
+      return typeof event.message === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Import a parser module for output: { module }. It must export a
+ * `parseEvents(line)` function, by name or as the default export; a path
+ * that is not absolute is relative to `baseDir`. A line the parser throws
+ * on is skipped, as are returned events that are not well-formed, each with
+ * a warning.
+ */
+export async function loadParserModule(modulePath: string, baseDir: string, source: string): Promise<LineParser> {
+  const resolved = path.resolve(baseDir, expandHome(modulePath));
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(resolved).href) as Record<string, unknown>;
+  } catch (err) {
+    throw new InvalidProviderSpecError(source, `cannot load parser module ${resolved}: ${(err as Error).message}`);
+  }
+  const parse = mod.parseEvents ?? mod.default;
+  if (typeof parse !== 'function') {
+    throw new InvalidProviderSpecError(source, `parser module ${resolved} must export a parseEvents(line) function`);
+  }
+  return (line) => {
+    let events: unknown;
+    try {
+      events = (parse as (line: string) => unknown)(line);
+    } catch (err) {
+      logger.warn(`Parser module ${resolved} failed on a line, skipping it: ${err instanceof Error ? err.message : err}`);
+      return [];
+    }
+    if (!Array.isArray(events)) return [];
+    return events.filter((event): event is ProviderEvent => {
+      if (isProviderEvent(event)) return true;
+      logger.warn(`Parser module ${resolved} returned a malformed event, skipping it: ${JSON.stringify(event)}`);
+      return false;
+    });
+  };
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+/**
+ * ExternalProviderAdapter — a third-party CLI declared in providers.json.
+ */
+export class ExternalProviderAdapter implements ProviderAdapter {
+  readonly type: ProviderType;
+  readonly binary: string;
+  readonly configDir: string;
+  readonly supportsNativeSession: boolean;
+  readonly promptInArgs: boolean;
+
+  private readonly model: string | undefined;
+
+  constructor(
+    name: string,
+    private readonly spec: ExternalProviderSpec,
+    private readonly parse: LineParser,
+    modelName?: string,
+  ) {
+    this.type = name;
+    this.binary = expandHome(spec.binary);
+    this.configDir = expandHome(spec.configDir ?? `~/.${path.basename(spec.binary)}`);
+    this.supportsNativeSession = spec.nativeSession ?? false;
+    this.model = modelName ?? spec.model;
+
+    const templates = [...spec.firstPromptArgs, ...(spec.resumeArgs ?? [])];
+    this.promptInArgs = spec.firstPromptArgs.some((arg) => arg.includes('{{prompt}}'));
+    if (this.model === undefined && templates.some((arg) => arg.includes('{{model}}'))) {
+      throw new InvalidProviderSpecError(`"${name}"`, '{{model}} is used but no model was given (pass --model or set "model")');
+    }
+  }
+
+  buildFirstPromptArgs(sessionId: string, prompt: string): string[] {
+    return this.render(this.spec.firstPromptArgs, sessionId, prompt);
+  }
+
+  buildResumeArgs(sessionId: string, prompt: string): string[] {
+    return this.render(this.spec.resumeArgs ?? this.spec.firstPromptArgs, sessionId, prompt);
+  }
+
+  buildModeArgs(mode?: string): string[] {
+    return (mode && this.spec.modeArgs?.[mode]) || [];
+  }
+
+  extractText(line: string): string | null {
+    const text = this.parse(line).flatMap((e) => (e.type === 'text' ? [e.text] : [])).join('');
+    return text !== '' ? text : null;
+  }
+
+  parseEvents(line: string): ProviderEvent[] {
+    return this.parse(line);
+  }
+
+  private render(templates: string[], sessionId: string, prompt: string): string[] {
+    const values: Record<string, string> = { prompt, sessionId, model: this.model ?? '' };
+    return templates.map((arg) => arg.replace(PLACEHOLDER, (_, name: string) => values[name]));
+  }
+}
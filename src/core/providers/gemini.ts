@@ -1,4 +1,4 @@
-import type { ProviderAdapter, ProviderType } from './provider.js';
+import { textEvents, type ProviderAdapter, type ProviderEvent, type ProviderType } from './provider.js';
 
 export class GeminiAdapter implements ProviderAdapter {
   readonly type: ProviderType = 'gemini';
@@ -21,4 +21,8 @@ export class GeminiAdapter implements ProviderAdapter {
   extractText(line: string): string | null {
     return line.trim() !== '' ? line : null;
   }
+
+  parseEvents(line: string): ProviderEvent[] {
+    return textEvents(this.extractText(line));
+  }
 }
@@ -0,0 +1,80 @@
+import { ProviderRequestError } from '../../utils/errors.js';
+
+/**
+ * Shared plumbing of the HTTP providers: POST a JSON body and read the
+ * streamed reply line by line.
+ */
+
+/** Join a base URL and an endpoint path, tolerating a trailing slash on the base. */
+export function endpointUrl(baseUrl: string, endpoint: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${endpoint}`;
+}
+
+/**
+ * POST `body` as JSON and return the streamed response body.
+ * Connection failures and non-2xx replies throw ProviderRequestError with
+ * the server's error message when it sends one; aborts are rethrown as-is.
+ */
+export async function postJsonStream(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+): Promise<ReadableStream<Uint8Array>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal.aborted) throw err;
+    const cause = (err as Error & { cause?: Error }).cause;
+    throw new ProviderRequestError(provider, url, cause?.message ?? (err as Error).message);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    const detail = errorMessage(text);
+    throw new ProviderRequestError(provider, url, `HTTP ${response.status}${detail ? `: ${detail}` : ''}`, response.status);
+  }
+  if (!response.body) {
+    throw new ProviderRequestError(provider, url, 'empty response body', response.status);
+  }
+  return response.body;
+}
+
+/**
+ * The message of an error reply: `{ "error": { "message" } }` (OpenAI),
+ * `{ "error": "..." }` (Ollama), or the start of the raw text.
+ */
+export function errorMessage(text: string): string {
+  try {
+    const error = (JSON.parse(text) as { error?: unknown }).error;
+    if (typeof error === 'string') return error;
+    const message = (error as { message?: unknown } | null)?.message;
+    if (typeof message === 'string') return message;
+  } catch {
+    // Not JSON
+  }
+  return text.trim().slice(0, 200);
+}
+
+/** Yield each non-empty line of a streamed body, trimmed. */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer.trim();
+}
@@ -1,5 +1,13 @@
-import { describe, it, expect } from 'vitest';
-import { createProvider, ClaudeAdapter, GeminiAdapter, OllamaAdapter, OpenAICompatAdapter } from './index.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createProvider,
+  ClaudeAdapter,
+  GeminiAdapter,
+  OllamaAdapter,
+  OllamaHttpAdapter,
+  OpenAICompatAdapter,
+  OpenAIHttpAdapter,
+} from './index.js';
 
 describe('createProvider', () => {
   it('creates ClaudeAdapter for claude', () => {
@@ -19,13 +27,13 @@ describe('createProvider', () => {
     expect(p).toBeInstanceOf(OllamaAdapter);
     expect(p.type).toBe('ollama');
     // Default model should produce run args
-    expect(p.buildFirstPromptArgs('id')[0]).toBe('run');
+    expect(p.buildFirstPromptArgs('id', 'hello')[0]).toBe('run');
   });
 
   it('creates OllamaAdapter with custom modelName', () => {
     const p = createProvider('ollama', { modelName: 'mistral' });
     expect(p).toBeInstanceOf(OllamaAdapter);
-    expect(p.buildFirstPromptArgs('id')).toEqual(['run', 'mistral']);
+    expect(p.buildFirstPromptArgs('id', 'hello')).toEqual(['run', 'mistral']);
   });
 
   it('creates OpenAICompatAdapter for openai-compat', () => {
@@ -40,6 +48,42 @@ describe('createProvider', () => {
     expect(p.binary).toBe('aichat');
   });
 
+  it('creates the HTTP adapters, which stream in-process instead of spawning', () => {
+    const openai = createProvider('openai-http', { providerUrl: 'http://localhost:8080', modelName: 'qwen' });
+    expect(openai).toBeInstanceOf(OpenAIHttpAdapter);
+    expect(typeof openai.streamPrompt).toBe('function');
+
+    const ollama = createProvider('ollama-http');
+    expect(ollama).toBeInstanceOf(OllamaHttpAdapter);
+    expect(typeof ollama.streamPrompt).toBe('function');
+    expect(createProvider('ollama').streamPrompt).toBeUndefined();
+  });
+
+  describe('OPENAI_API_KEY', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    const apiKey = (p: unknown): string | undefined => (p as { apiKey?: string }).apiKey;
+
+    it("sends AgentSpawn's own key only to api.openai.com", () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-own');
+
+      expect(apiKey(createProvider('openai-http'))).toBe('sk-own');
+      expect(apiKey(createProvider('openai-http', { providerUrl: 'https://api.openai.com/' }))).toBe('sk-own');
+      expect(apiKey(createProvider('openai-http', { providerUrl: 'http://localhost:8080' }))).toBeUndefined();
+      expect(apiKey(createProvider('openai-http', { providerUrl: 'http://api.openai.com' }))).toBeUndefined();
+      expect(apiKey(createProvider('openai-http', { providerUrl: 'https://api.openai.com.evil.example' }))).toBeUndefined();
+    });
+
+    it("sends the session's key to any server", () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-own');
+
+      const p = createProvider('openai-http', { providerUrl: 'http://localhost:8080', env: { OPENAI_API_KEY: 'sk-local' } });
+      expect(apiKey(p)).toBe('sk-local');
+    });
+  });
+
   it('throws for unknown provider type', () => {
     expect(() => createProvider('unknown' as never)).toThrow();
   });
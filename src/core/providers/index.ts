@@ -1,15 +1,44 @@
+import { BUILTIN_PROVIDERS, type BuiltinProviderType } from '../../types.js';
+import { UnknownProviderError } from '../../utils/errors.js';
 import type { ProviderAdapter, ProviderType } from './provider.js';
 import { ClaudeAdapter } from './claude.js';
 import { GeminiAdapter } from './gemini.js';
 import { OllamaAdapter } from './ollama.js';
 import { OpenAICompatAdapter } from './openai-compat.js';
+import { OpenAIHttpAdapter } from './openai-http.js';
+import { OllamaHttpAdapter } from './ollama-http.js';
 
-type ProviderFactoryConfig = {
+export type ProviderFactoryConfig = {
   modelName?: string;
   providerBinary?: string;
   providerArgs?: string[];
+  providerUrl?: string;
+  /**
+   * The session's env. Its OPENAI_API_KEY goes to any server; AgentSpawn's
+   * own is only sent to api.openai.com.
+   */
+  env?: Record<string, string>;
 };
 
+export function isBuiltinProvider(name: string): name is BuiltinProviderType {
+  return (BUILTIN_PROVIDERS as readonly string[]).includes(name);
+}
+
+/** Whether an openai-http base URL (unset meaning the default) points at OpenAI itself. */
+function isOpenAIUrl(url: string | undefined): boolean {
+  if (url === undefined) return true;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && parsed.hostname === 'api.openai.com';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a built-in provider. Providers from providers.json come from
+ * ProviderRegistry.create(), which also handles built-in names.
+ */
 export function createProvider(type: ProviderType, config?: ProviderFactoryConfig): ProviderAdapter {
   switch (type) {
     case 'claude': return new ClaudeAdapter();
@@ -19,13 +48,22 @@ export function createProvider(type: ProviderType, config?: ProviderFactoryConfi
       binary: config?.providerBinary,
       extraArgs: config?.providerArgs,
     });
+    case 'openai-http': return new OpenAIHttpAdapter({
+      baseUrl: config?.providerUrl,
+      model: config?.modelName,
+      apiKey: config?.env?.OPENAI_API_KEY ?? (isOpenAIUrl(config?.providerUrl) ? process.env.OPENAI_API_KEY : undefined),
+    });
+    case 'ollama-http': return new OllamaHttpAdapter({ baseUrl: config?.providerUrl, model: config?.modelName });
     default:
-      throw new Error(`Unknown provider type: ${type as string}`);
+      throw new UnknownProviderError(type, BUILTIN_PROVIDERS);
   }
 }
 
-export type { ProviderAdapter, ProviderType } from './provider.js';
+export type { ProviderAdapter, ProviderMessage, ProviderRequest, ProviderType } from './provider.js';
 export { ClaudeAdapter } from './claude.js';
 export { GeminiAdapter } from './gemini.js';
 export { OllamaAdapter } from './ollama.js';
 export { OpenAICompatAdapter } from './openai-compat.js';
+export { OpenAIHttpAdapter } from './openai-http.js';
+export { OllamaHttpAdapter } from './ollama-http.js';
+export { ExternalProviderAdapter } from './external.js';
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type net from 'node:net';
+import { OllamaHttpAdapter } from './ollama-http.js';
+import type { ProviderEvent, ProviderRequest } from './provider.js';
+import { ProviderRequestError } from '../../utils/errors.js';
+
+describe('OllamaHttpAdapter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void;
+
+  beforeEach(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+      req.on('end', () => handler(req, body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function request(overrides: Partial<ProviderRequest> = {}): ProviderRequest {
+    return {
+      sessionId: 'abc',
+      messages: [{ role: 'user', content: 'Hi' }],
+      signal: new AbortController().signal,
+      ...overrides,
+    };
+  }
+
+  async function collect(events: AsyncIterable<ProviderEvent>): Promise<ProviderEvent[]> {
+    const collected: ProviderEvent[] = [];
+    for await (const event of events) collected.push(event);
+    return collected;
+  }
+
+  const line = (chunk: unknown): string => `${JSON.stringify(chunk)}\n`;
+
+  it('streams messages and token counts from /api/chat', async () => {
+    let seen: { url?: string; body?: Record<string, unknown> } = {};
+    handler = (req, body, res) => {
+      seen = { url: req.url, body: JSON.parse(body) };
+      res.writeHead(200, { 'content-type': 'application/x-ndjson' });
+      res.write(line({ message: { role: 'assistant', content: 'Hel' }, done: false }));
+      res.write(line({ message: { role: 'assistant', content: 'lo' }, done: false }));
+      // The final line has no trailing newline
+      res.end(JSON.stringify({
+        message: { role: 'assistant', content: '' },
+        done: true,
+        total_duration: 1_500_000_000,
+        prompt_eval_count: 26,
+        eval_count: 3,
+      }));
+    };
+
+    const adapter = new OllamaHttpAdapter({ baseUrl, model: 'mistral' });
+    const messages = [
+      { role: 'user' as const, content: 'Hi' },
+      { role: 'assistant' as const, content: 'Hello!' },
+      { role: 'user' as const, content: 'Again' },
+    ];
+    const events = await collect(adapter.streamPrompt(request({ messages })));
+
+    expect(seen.url).toBe('/api/chat');
+    expect(seen.body).toEqual({ model: 'mistral', messages, stream: true });
+    expect(events).toEqual([
+      { type: 'text', text: 'Hel' },
+      { type: 'text', text: 'lo' },
+      { type: 'result', isError: false, durationMs: 1500, usage: { inputTokens: 26, outputTokens: 3 } },
+    ]);
+  });
+
+  it('throws ProviderRequestError with the server message on HTTP errors', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: 'model "mistral" not found, try pulling it first' }));
+    };
+
+    const adapter = new OllamaHttpAdapter({ baseUrl, model: 'mistral' });
+
+    await expect(collect(adapter.streamPrompt(request()))).rejects.toThrow(ProviderRequestError);
+    await expect(collect(adapter.streamPrompt(request()))).rejects.toThrow('HTTP 404: model "mistral" not found');
+  });
+
+  it('throws on an error sent mid-stream', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'application/x-ndjson' });
+      res.write(line({ message: { content: 'Hi' }, done: false }));
+      res.end(line({ error: 'out of memory' }));
+    };
+
+    await expect(collect(new OllamaHttpAdapter({ baseUrl }).streamPrompt(request()))).rejects.toThrow('out of memory');
+  });
+
+  it('parses single lines', () => {
+    const adapter = new OllamaHttpAdapter();
+    expect(adapter.parseEvents('{"message":{"content":"Hi"},"done":false}')).toEqual([{ type: 'text', text: 'Hi' }]);
+    expect(adapter.parseEvents('not json')).toEqual([]);
+    expect(adapter.extractText('{"message":{"content":"x"}}')).toBe('x');
+    expect(adapter.buildFirstPromptArgs('abc')).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { ProviderAdapter, ProviderEvent, ProviderRequest, ProviderType } from './provider.js';
+import { endpointUrl, postJsonStream, readLines } from './http.js';
+import { ProviderRequestError } from '../../utils/errors.js';
+
+interface OllamaHttpConfig {
+  /** Server root; `/api/chat` is appended. Default: http://localhost:11434 */
+  baseUrl?: string;
+  model?: string;
+}
+
+/** The parts of a streamed /api/chat line that are read. */
+interface ChatLine {
+  message?: { content?: string };
+  done?: boolean;
+  /** Nanoseconds. */
+  total_duration?: number;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * OllamaHttpAdapter — talks to an Ollama server's `/api/chat` endpoint
+ * directly, streaming the reply as newline-delimited JSON.
+ */
+export class OllamaHttpAdapter implements ProviderAdapter {
+  readonly type: ProviderType = 'ollama-http';
+  readonly binary: string = '';
+  readonly configDir: string = '';
+  readonly supportsNativeSession: boolean = false;
+
+  private readonly url: string;
+  private readonly model: string;
+
+  constructor(config?: OllamaHttpConfig) {
+    this.url = endpointUrl(config?.baseUrl ?? 'http://localhost:11434', '/api/chat');
+    this.model = config?.model ?? 'llama3.2';
+  }
+
+  buildFirstPromptArgs(_sessionId: string): string[] {
+    return [];
+  }
+
+  buildResumeArgs(_sessionId: string): string[] {
+    return [];
+  }
+
+  buildModeArgs(_mode?: string): string[] {
+    return [];
+  }
+
+  extractText(line: string): string | null {
+    const text = this.parseEvents(line).flatMap((e) => (e.type === 'text' ? [e.text] : [])).join('');
+    return text !== '' ? text : null;
+  }
+
+  /** Parse one line of the /api/chat stream. */
+  parseEvents(line: string): ProviderEvent[] {
+    let chunk: ChatLine;
+    try {
+      chunk = JSON.parse(line) as ChatLine;
+    } catch {
+      return [];
+    }
+    if (chunk.error) return [{ type: 'error', message: chunk.error }];
+
+    const events: ProviderEvent[] = [];
+    if (chunk.message?.content) events.push({ type: 'text', text: chunk.message.content });
+    if (chunk.done) {
+      events.push({
+        type: 'result',
+        isError: false,
+        ...(chunk.total_duration !== undefined ? { durationMs: Math.round(chunk.total_duration / 1e6) } : {}),
+        usage: { inputTokens: chunk.prompt_eval_count ?? 0, outputTokens: chunk.eval_count ?? 0 },
+      });
+    }
+    return events;
+  }
+
+  async *streamPrompt(request: ProviderRequest): AsyncIterable<ProviderEvent> {
+    const body = await postJsonStream(
+      this.type,
+      this.url,
+      { model: this.model, messages: request.messages, stream: true },
+      {},
+      request.signal,
+    );
+
+    for await (const line of readLines(body)) {
+      for (const event of this.parseEvents(line)) {
+        if (event.type === 'error') throw new ProviderRequestError(this.type, this.url, event.message);
+        yield event;
+      }
+    }
+  }
+}
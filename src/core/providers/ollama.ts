@@ -1,4 +1,4 @@
-import type { ProviderAdapter, ProviderType } from './provider.js';
+import { textEvents, type ProviderAdapter, type ProviderEvent, type ProviderType } from './provider.js';
 
 export class OllamaAdapter implements ProviderAdapter {
   readonly type: ProviderType = 'ollama';
@@ -32,4 +32,8 @@ export class OllamaAdapter implements ProviderAdapter {
       return null;
     }
   }
+
+  parseEvents(line: string): ProviderEvent[] {
+    return textEvents(this.extractText(line));
+  }
 }
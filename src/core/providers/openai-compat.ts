@@ -1,4 +1,4 @@
-import type { ProviderAdapter, ProviderType } from './provider.js';
+import { textEvents, type ProviderAdapter, type ProviderEvent, type ProviderType } from './provider.js';
 
 interface OpenAICompatConfig {
   binary?: string;
@@ -35,4 +35,8 @@ export class OpenAICompatAdapter implements ProviderAdapter {
   extractText(line: string): string | null {
     return line.trim() !== '' ? line : null;
   }
+
+  parseEvents(line: string): ProviderEvent[] {
+    return textEvents(this.extractText(line));
+  }
 }
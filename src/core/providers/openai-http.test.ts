@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type net from 'node:net';
+import { OpenAIHttpAdapter } from './openai-http.js';
+import type { ProviderEvent, ProviderRequest } from './provider.js';
+import { ProviderRequestError } from '../../utils/errors.js';
+
+describe('OpenAIHttpAdapter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void;
+
+  beforeEach(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+      req.on('end', () => handler(req, body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function request(overrides: Partial<ProviderRequest> = {}): ProviderRequest {
+    return {
+      sessionId: 'abc',
+      messages: [{ role: 'user', content: 'Hi' }],
+      signal: new AbortController().signal,
+      ...overrides,
+    };
+  }
+
+  async function collect(events: AsyncIterable<ProviderEvent>): Promise<ProviderEvent[]> {
+    const collected: ProviderEvent[] = [];
+    for await (const event of events) collected.push(event);
+    return collected;
+  }
+
+  const sse = (chunk: unknown): string => `data: ${JSON.stringify(chunk)}\n\n`;
+
+  it('streams deltas and usage from /v1/chat/completions', async () => {
+    let seen: { url?: string; auth?: string; body?: Record<string, unknown> } = {};
+    handler = (req, body, res) => {
+      seen = { url: req.url, auth: req.headers.authorization, body: JSON.parse(body) };
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(sse({ choices: [{ delta: { role: 'assistant' } }] }));
+      // A chunk split across writes still parses
+      const hello = sse({ choices: [{ delta: { content: 'Hel' } }] });
+      res.write(hello.slice(0, 12));
+      res.write(hello.slice(12));
+      res.write(sse({ choices: [{ delta: { content: 'lo' } }] }));
+      res.write(sse({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 2, prompt_tokens_details: { cached_tokens: 8 } } }));
+      res.end('data: [DONE]\n\n');
+    };
+
+    const adapter = new OpenAIHttpAdapter({ baseUrl: `${baseUrl}/`, model: 'qwen', apiKey: 'sk-test' });
+    const messages = [
+      { role: 'user' as const, content: 'Hi' },
+      { role: 'assistant' as const, content: 'Hello!' },
+      { role: 'user' as const, content: 'Again' },
+    ];
+    const events = await collect(adapter.streamPrompt(request({ messages })));
+
+    expect(seen.url).toBe('/v1/chat/completions');
+    expect(seen.auth).toBe('Bearer sk-test');
+    expect(seen.body).toEqual({ model: 'qwen', messages, stream: true, stream_options: { include_usage: true } });
+    expect(events.slice(0, 2)).toEqual([{ type: 'text', text: 'Hel' }, { type: 'text', text: 'lo' }]);
+    expect(events[2]).toMatchObject({
+      type: 'result',
+      isError: false,
+      usage: { inputTokens: 12, outputTokens: 2, cacheReadInputTokens: 8 },
+    });
+    expect(events).toHaveLength(3);
+  });
+
+  it('ends with a result even when the server reports no usage', async () => {
+    handler = (req, _body, res) => {
+      expect(req.headers.authorization).toBeUndefined();
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end(sse({ choices: [{ delta: { content: 'ok' } }] }));
+    };
+
+    const events = await collect(new OpenAIHttpAdapter({ baseUrl }).streamPrompt(request()));
+
+    expect(events).toEqual([{ type: 'text', text: 'ok' }, { type: 'result', isError: false, durationMs: expect.any(Number) }]);
+  });
+
+  it('throws ProviderRequestError with the server message on HTTP errors', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(401, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Incorrect API key provided' } }));
+    };
+
+    const adapter = new OpenAIHttpAdapter({ baseUrl });
+
+    await expect(collect(adapter.streamPrompt(request()))).rejects.toThrow(ProviderRequestError);
+    await expect(collect(adapter.streamPrompt(request()))).rejects.toThrow('HTTP 401: Incorrect API key provided');
+  });
+
+  it('throws on an error sent mid-stream', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end(sse({ error: { message: 'model overloaded' } }));
+    };
+
+    await expect(collect(new OpenAIHttpAdapter({ baseUrl }).streamPrompt(request()))).rejects.toThrow('model overloaded');
+  });
+
+  it('throws ProviderRequestError when the server is unreachable', async () => {
+    const gone = http.createServer();
+    await new Promise<void>((resolve) => gone.listen(0, '127.0.0.1', resolve));
+    const port = (gone.address() as net.AddressInfo).port;
+    await new Promise<void>((resolve) => gone.close(() => resolve()));
+
+    const adapter = new OpenAIHttpAdapter({ baseUrl: `http://127.0.0.1:${port}` });
+
+    await expect(collect(adapter.streamPrompt(request()))).rejects.toThrow(ProviderRequestError);
+  });
+
+  it('stops reading when the request is aborted', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(sse({ choices: [{ delta: { content: 'partial' } }] }));
+      // Never ends
+    };
+    const controller = new AbortController();
+    const received: ProviderEvent[] = [];
+
+    const run = (async () => {
+      for await (const event of new OpenAIHttpAdapter({ baseUrl }).streamPrompt(request({ signal: controller.signal }))) {
+        received.push(event);
+        controller.abort();
+      }
+    })();
+
+    await expect(run).rejects.toThrow();
+    expect(received).toEqual([{ type: 'text', text: 'partial' }]);
+  });
+
+  it('parses single event lines', () => {
+    const adapter = new OpenAIHttpAdapter();
+    expect(adapter.parseEvents(sse({ choices: [{ delta: { content: 'Hi' } }] }).trim())).toEqual([{ type: 'text', text: 'Hi' }]);
+    expect(adapter.parseEvents('data: [DONE]')).toEqual([]);
+    expect(adapter.parseEvents(': keep-alive')).toEqual([]);
+    expect(adapter.extractText('data: {"choices":[{"delta":{"content":"x"}}]}')).toBe('x');
+  });
+});
@@ -0,0 +1,121 @@
+import type { ProviderAdapter, ProviderEvent, ProviderRequest, ProviderType } from './provider.js';
+import { endpointUrl, postJsonStream, readLines } from './http.js';
+import { ProviderRequestError } from '../../utils/errors.js';
+import type { TokenUsage } from '../../types.js';
+
+interface OpenAIHttpConfig {
+  /** Server root; `/v1/chat/completions` is appended. Default: https://api.openai.com */
+  baseUrl?: string;
+  model?: string;
+  /** Sent as a bearer token when set. */
+  apiKey?: string;
+}
+
+/** The parts of a streamed chat.completion.chunk that are read. */
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  } | null;
+  error?: { message?: string };
+}
+
+/**
+ * OpenAIHttpAdapter — talks to an OpenAI-compatible `/v1/chat/completions`
+ * endpoint directly (OpenAI, vLLM, llama.cpp server, LM Studio, ...),
+ * streaming the reply as server-sent events.
+ */
+export class OpenAIHttpAdapter implements ProviderAdapter {
+  readonly type: ProviderType = 'openai-http';
+  readonly binary: string = '';
+  readonly configDir: string = '';
+  readonly supportsNativeSession: boolean = false;
+
+  private readonly url: string;
+  private readonly model: string;
+  private readonly apiKey: string | undefined;
+
+  constructor(config?: OpenAIHttpConfig) {
+    this.url = endpointUrl(config?.baseUrl ?? 'https://api.openai.com', '/v1/chat/completions');
+    this.model = config?.model ?? 'gpt-4o-mini';
+    this.apiKey = config?.apiKey;
+  }
+
+  buildFirstPromptArgs(_sessionId: string): string[] {
+    return [];
+  }
+
+  buildResumeArgs(_sessionId: string): string[] {
+    return [];
+  }
+
+  buildModeArgs(_mode?: string): string[] {
+    return [];
+  }
+
+  extractText(line: string): string | null {
+    const text = this.parseEvents(line).flatMap((e) => (e.type === 'text' ? [e.text] : [])).join('');
+    return text !== '' ? text : null;
+  }
+
+  /** Parse one server-sent event line (`data: {...}`). */
+  parseEvents(line: string): ProviderEvent[] {
+    if (!line.startsWith('data:')) return [];
+    const data = line.slice('data:'.length).trim();
+    if (data === '[DONE]') return [];
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data) as ChatCompletionChunk;
+    } catch {
+      return [];
+    }
+    if (chunk.error) return [{ type: 'error', message: chunk.error.message ?? 'unknown error' }];
+
+    const events: ProviderEvent[] = [];
+    const text = chunk.choices?.[0]?.delta?.content;
+    if (text) events.push({ type: 'text', text });
+    if (chunk.usage) {
+      const usage: TokenUsage = {
+        inputTokens: chunk.usage.prompt_tokens ?? 0,
+        outputTokens: chunk.usage.completion_tokens ?? 0,
+      };
+      const cached = chunk.usage.prompt_tokens_details?.cached_tokens;
+      if (cached) usage.cacheReadInputTokens = cached;
+      events.push({ type: 'result', isError: false, usage });
+    }
+    return events;
+  }
+
+  async *streamPrompt(request: ProviderRequest): AsyncIterable<ProviderEvent> {
+    const startedAt = Date.now();
+    const body = await postJsonStream(
+      this.type,
+      this.url,
+      {
+        model: this.model,
+        messages: request.messages,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {},
+      request.signal,
+    );
+
+    let result: Extract<ProviderEvent, { type: 'result' }> | null = null;
+    for await (const line of readLines(body)) {
+      for (const event of this.parseEvents(line)) {
+        if (event.type === 'error') throw new ProviderRequestError(this.type, this.url, event.message);
+        if (event.type === 'result') {
+          result = event;
+          continue;
+        }
+        yield event;
+      }
+    }
+    // Servers that ignore stream_options send no usage; the turn still ends with a result
+    yield { ...(result ?? { type: 'result', isError: false }), durationMs: Date.now() - startedAt };
+  }
+}
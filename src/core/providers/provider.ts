@@ -1,14 +1,44 @@
-import type { ProviderType } from '../../types.js';
-export type { ProviderType };
+import type { ProviderEvent, ProviderType } from '../../types.js';
+export type { ProviderEvent, ProviderType };
+
+/** One turn of the conversation, for providers that are sent all of it on every prompt. */
+export interface ProviderMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequest {
+  sessionId: string;
+  /** Earlier turns, oldest first, then the new prompt. */
+  messages: ProviderMessage[];
+  /** Aborted when the prompt is cancelled, times out or the session stops. */
+  signal: AbortSignal;
+}
 
 export interface ProviderAdapter {
   readonly type: ProviderType;
   readonly binary: string;
   readonly configDir: string;
 
-  buildFirstPromptArgs(sessionId: string): string[];
-  buildResumeArgs(sessionId: string): string[];
+  /** `prompt` is what would be written to stdin, for CLIs that take it as an argument. */
+  buildFirstPromptArgs(sessionId: string, prompt: string): string[];
+  buildResumeArgs(sessionId: string, prompt: string): string[];
+  /** The args carry the prompt, so nothing is written to stdin. */
+  readonly promptInArgs?: boolean;
   extractText(line: string): string | null;
+  /** Parse one output line into structured events (text, tool use, results). */
+  parseEvents(line: string): ProviderEvent[];
   readonly supportsNativeSession: boolean;
   buildModeArgs(mode?: string): string[];
+  /**
+   * Providers that are not a CLI: run the prompt in-process, yielding events
+   * as they stream in. When present, the session calls this instead of
+   * spawning `binary`, and nothing is sandboxed.
+   */
+  streamPrompt?(request: ProviderRequest): AsyncIterable<ProviderEvent>;
+}
+
+/** parseEvents() for providers whose output is plain text. */
+export function textEvents(text: string | null): ProviderEvent[] {
+  return text !== null ? [{ type: 'text', text }] : [];
 }
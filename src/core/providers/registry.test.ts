@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ProviderRegistry } from './registry.js';
+import { ClaudeAdapter, ExternalProviderAdapter } from './index.js';
+import { InvalidProviderSpecError, UnknownProviderError } from '../../utils/errors.js';
+
+describe('ProviderRegistry', () => {
+  let dir: string;
+  let filePath: string;
+  let registry: ProviderRegistry;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-providers-test-'));
+    filePath = path.join(dir, 'providers.json');
+    registry = new ProviderRegistry(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeProviders(providers: unknown): Promise<void> {
+    await fs.writeFile(filePath, JSON.stringify({ providers }), 'utf-8');
+  }
+
+  it('creates built-in providers without reading the file', async () => {
+    await fs.writeFile(filePath, '{ nope', 'utf-8');
+
+    expect(await registry.create('claude')).toBeInstanceOf(ClaudeAdapter);
+  });
+
+  it('lists built-in providers, then declared ones', async () => {
+    expect(await registry.list()).toEqual(['claude', 'gemini', 'ollama', 'openai-compat', 'openai-http', 'ollama-http']);
+
+    await writeProviders({ aider: { binary: 'aider', firstPromptArgs: ['--message', '{{prompt}}'] } });
+
+    expect(await registry.list()).toEqual(['claude', 'gemini', 'ollama', 'openai-compat', 'openai-http', 'ollama-http', 'aider']);
+  });
+
+  it('creates declared providers with their output parser', async () => {
+    await writeProviders({
+      aider: { binary: 'aider', firstPromptArgs: ['--message', '{{prompt}}'] },
+      stream: { binary: 'stream-cli', firstPromptArgs: [], output: { jsonPath: 'delta.text' } },
+    });
+
+    const aider = await registry.create('aider');
+    expect(aider).toBeInstanceOf(ExternalProviderAdapter);
+    expect(aider.type).toBe('aider');
+    expect(aider.parseEvents('Applied edit')).toEqual([{ type: 'text', text: 'Applied edit' }]);
+
+    const stream = await registry.create('stream');
+    expect(stream.parseEvents('{"delta":{"text":"Hi"}}')).toEqual([{ type: 'text', text: 'Hi' }]);
+  });
+
+  it('loads parser modules relative to the file', async () => {
+    await fs.writeFile(
+      path.join(dir, 'parser.mjs'),
+      "export function parseEvents(line) { return line.startsWith('> ') ? [{ type: 'text', text: line.slice(2) }] : []; }\n",
+      'utf-8',
+    );
+    await fs.writeFile(path.join(dir, 'empty.mjs'), 'export const nothing = 1;\n', 'utf-8');
+    await writeProviders({
+      custom: { binary: 'custom', firstPromptArgs: [], output: { module: './parser.mjs' } },
+      empty: { binary: 'custom', firstPromptArgs: [], output: { module: './empty.mjs' } },
+      missing: { binary: 'custom', firstPromptArgs: [], output: { module: './missing.mjs' } },
+    });
+
+    const custom = await registry.create('custom');
+    expect(custom.parseEvents('> hello')).toEqual([{ type: 'text', text: 'hello' }]);
+    expect(custom.parseEvents('progress 50%')).toEqual([]);
+    await expect(registry.create('empty')).rejects.toThrow('must export a parseEvents(line) function');
+    await expect(registry.create('missing')).rejects.toThrow('cannot load parser module');
+  });
+
+  it('skips lines a parser module throws on and events it gets wrong', async () => {
+    await fs.writeFile(
+      path.join(dir, 'parser.mjs'),
+      [
+        'export function parseEvents(line) {',
+        "  if (line === 'boom') throw new Error('cannot parse');",
+        "  return [{ type: 'text' }, { type: 'result', isError: false, usage: { inputTokens: '3' } }, { type: 'text', text: line }];",
+        '}',
+      ].join('\n'),
+      'utf-8',
+    );
+    await writeProviders({ custom: { binary: 'custom', firstPromptArgs: [], output: { module: './parser.mjs' } } });
+
+    const custom = await registry.create('custom');
+    expect(custom.parseEvents('boom')).toEqual([]);
+    expect(custom.parseEvents('hi')).toEqual([{ type: 'text', text: 'hi' }]);
+  });
+
+  it('passes the session model to {{model}}', async () => {
+    await writeProviders({ llama: { binary: 'llama-cli', firstPromptArgs: ['-m', '{{model}}', '-p', '{{prompt}}'] } });
+
+    const llama = await registry.create('llama', { modelName: 'qwen.gguf' });
+
+    expect(llama.buildFirstPromptArgs('id', 'hi')).toEqual(['-m', 'qwen.gguf', '-p', 'hi']);
+    await expect(registry.create('llama')).rejects.toThrow(InvalidProviderSpecError);
+  });
+
+  it('throws UnknownProviderError naming the known providers', async () => {
+    await writeProviders({ aider: { binary: 'aider', firstPromptArgs: [] } });
+
+    await expect(registry.create('codex')).rejects.toThrow(UnknownProviderError);
+    await expect(registry.create('codex')).rejects.toThrow('expected claude, gemini, ollama, openai-compat, openai-http, ollama-http, aider');
+  });
+
+  it.each([
+    ['{ nope', 'not valid JSON'],
+    ['{"providers": []}', 'must be an object with a "providers" map'],
+    ['{"providers": {"Aider X": {"binary": "aider", "firstPromptArgs": []}}}', 'names may only hold'],
+    ['{"providers": {"claude": {"binary": "claude", "firstPromptArgs": []}}}', 'built-in provider'],
+    ['{"providers": {"aider": {"binary": "aider"}}}', '"firstPromptArgs" must be a list of strings'],
+  ])('throws InvalidProviderSpecError for %s', async (content, reason) => {
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    await expect(registry.create('aider')).rejects.toThrow(InvalidProviderSpecError);
+    await expect(registry.list()).rejects.toThrow(reason);
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { BUILTIN_PROVIDERS } from '../../types.js';
+import { InvalidProviderSpecError, UnknownProviderError } from '../../utils/errors.js';
+import { type ProviderAdapter, type ProviderFactoryConfig, type ProviderType, createProvider, isBuiltinProvider } from './index.js';
+import {
+  type ExternalProviderSpec,
+  type LineParser,
+  ExternalProviderAdapter,
+  jsonPathParser,
+  linesParser,
+  loadParserModule,
+  parseProviderSpec,
+} from './external.js';
+
+/** Contents of providers.json. */
+export interface ProvidersFile {
+  providers: Record<string, ExternalProviderSpec>;
+}
+
+const PROVIDER_NAME = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * ProviderRegistry — the built-in providers plus third-party CLIs declared
+ * in providers.json.
+ *
+ * The file is read on every lookup of a provider that is not built in, so
+ * an edit applies to the next session started, in a running daemon too.
+ * Sessions of built-in providers never read it.
+ */
+export class ProviderRegistry {
+  constructor(private readonly filePath: string) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /** Every provider name, built-in ones first. */
+  async list(): Promise<string[]> {
+    return [...BUILTIN_PROVIDERS, ...(await this.load()).keys()];
+  }
+
+  /**
+   * Create the adapter for provider `name`.
+   * Throws UnknownProviderError if it is neither built in nor declared, and
+   * InvalidProviderSpecError if providers.json or its parser module is broken.
+   */
+  async create(name: ProviderType, config?: ProviderFactoryConfig): Promise<ProviderAdapter> {
+    if (isBuiltinProvider(name)) return createProvider(name, config);
+
+    const specs = await this.load();
+    const spec = specs.get(name);
+    if (!spec) throw new UnknownProviderError(name, [...BUILTIN_PROVIDERS, ...specs.keys()]);
+
+    const source = `"${name}" in ${this.filePath}`;
+    const output = spec.output ?? 'lines';
+    let parse: LineParser;
+    if (output === 'lines') {
+      parse = linesParser;
+    } else if ('jsonPath' in output) {
+      parse = jsonPathParser(output.jsonPath);
+    } else {
+      parse = await loadParserModule(output.module, path.dirname(this.filePath), source);
+    }
+    return new ExternalProviderAdapter(name, spec, parse, config?.modelName);
+  }
+
+  private async load(): Promise<Map<string, ExternalProviderSpec>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+      throw err;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (err) {
+      throw new InvalidProviderSpecError(this.filePath, `not valid JSON: ${(err as Error).message}`);
+    }
+    const providers = (parsed as Partial<ProvidersFile> | null)?.providers;
+    if (typeof providers !== 'object' || providers === null || Array.isArray(providers)) {
+      throw new InvalidProviderSpecError(this.filePath, 'must be an object with a "providers" map');
+    }
+
+    const specs = new Map<string, ExternalProviderSpec>();
+    for (const [name, value] of Object.entries(providers)) {
+      const source = `"${name}" in ${this.filePath}`;
+      if (!PROVIDER_NAME.test(name)) {
+        throw new InvalidProviderSpecError(source, 'names may only hold lowercase letters, digits, ".", "_" and "-"');
+      }
+      if (isBuiltinProvider(name)) {
+        throw new InvalidProviderSpecError(source, 'the name of a built-in provider cannot be reused');
+      }
+      specs.set(name, parseProviderSpec(value, source));
+    }
+    return specs;
+  }
+}
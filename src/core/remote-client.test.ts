@@ -315,4 +315,86 @@ describe('RemoteClient', () => {
       await expect(client.sendPrompt('x', 'hello')).rejects.toThrow(`"${ALIAS}"`);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // sendPrompt() streaming
+  // -------------------------------------------------------------------------
+
+  describe('sendPrompt() with onChunk', () => {
+    function mockStream(lines: string[]): void {
+      const encoder = new TextEncoder();
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        // Split frames across reads to exercise buffering
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            const text = lines.join('');
+            controller.enqueue(encoder.encode(text.slice(0, 30)));
+            controller.enqueue(encoder.encode(text.slice(30)));
+            controller.close();
+          },
+        }),
+      });
+    }
+
+    it('requests NDJSON and passes each chunk to onChunk', async () => {
+      mockStream([
+        JSON.stringify({ type: 'start', sessionName: 'my-session', prompt: 'hi' }) + '\n',
+        JSON.stringify({ type: 'chunk', chunk: 'Hello, ' }) + '\n',
+        JSON.stringify({ type: 'chunk', chunk: 'world' }) + '\n',
+        JSON.stringify({ type: 'complete', response: 'Hello, world' }) + '\n',
+      ]);
+      const chunks: string[] = [];
+
+      const response = await client.sendPrompt('my-session', 'hi', (c) => chunks.push(c));
+
+      expect(response).toBe('Hello, world');
+      expect(chunks).toEqual(['Hello, ', 'world']);
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${BASE_URL}/api/sessions/my-session/prompt`,
+        expect.objectContaining({
+          headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+        }),
+      );
+    });
+
+    it('throws TunnelError on an error frame', async () => {
+      mockStream([
+        JSON.stringify({ type: 'start', sessionName: 'my-session', prompt: 'hi' }) + '\n',
+        JSON.stringify({ type: 'error', error: 'Budget exceeded', status: 429 }) + '\n',
+      ]);
+
+      await expect(client.sendPrompt('my-session', 'hi', () => {})).rejects.toThrow('Budget exceeded');
+    });
+
+    it('throws TunnelError if the stream ends without a complete frame', async () => {
+      mockStream([JSON.stringify({ type: 'chunk', chunk: 'partial' }) + '\n']);
+
+      await expect(client.sendPrompt('my-session', 'hi', () => {})).rejects.toThrow(TunnelError);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Authentication
+  // -------------------------------------------------------------------------
+
+  describe('with a token', () => {
+    it('sends the token as a bearer Authorization header', async () => {
+      const client = new RemoteClient(BASE_URL, ALIAS, 'ast_secret');
+      mockResponse(200, []);
+      mockResponse(200, { response: 'ok' });
+
+      await client.listSessions();
+      await client.sendPrompt('my-session', 'hi');
+
+      expect(fetchMock).toHaveBeenNthCalledWith(1, `${BASE_URL}/api/sessions`, {
+        headers: { Authorization: 'Bearer ast_secret' },
+      });
+      expect(fetchMock).toHaveBeenNthCalledWith(2, `${BASE_URL}/api/sessions/my-session/prompt`, expect.objectContaining({
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer ast_secret' },
+      }));
+    });
+  });
 });
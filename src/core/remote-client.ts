@@ -1,84 +1,91 @@
 import { SessionConfig, SessionInfo } from '../types.js';
-import { TunnelError } from '../utils/errors.js';
+import { ApiRequestError, TunnelError } from '../utils/errors.js';
+import { ApiClient } from '../web/api-client.generated.js';
+import type { SessionInfo as ApiSessionInfo } from '../web/api-client.generated.js';
 
+/**
+ * RemoteClient — the generated ApiClient bound to one remote, with its
+ * failures reported as TunnelError and its sessions tagged with the alias.
+ */
 export class RemoteClient {
+  private readonly api: ApiClient;
+
   constructor(
-    private readonly baseUrl: string,
+    baseUrl: string,
     private readonly alias: string,
-  ) {}
+    /** Bearer token for the remote web server, if it requires one. */
+    token?: string,
+  ) {
+    // Unversioned paths, so remotes running releases without /api/v1 still work
+    this.api = new ApiClient({ baseUrl: `${baseUrl}/api`, token });
+  }
 
   async listSessions(): Promise<SessionInfo[]> {
-    const response = await fetch(`${this.baseUrl}/api/sessions`);
-    if (!response.ok) {
-      let reason = response.statusText;
-      try {
-        const body = (await response.json()) as { error?: string };
-        reason = body.error ?? reason;
-      } catch {
-        // ignore JSON parse failure; use statusText
-      }
-      throw new TunnelError(this.alias, reason);
-    }
-    const sessions = (await response.json()) as SessionInfo[];
-    return sessions.map((s) => ({ ...s, remoteAlias: this.alias }));
+    const sessions = await this.call(() => this.api.listSessions());
+    return sessions.map((s) => this.tagged(s));
   }
 
   async startSession(config: SessionConfig): Promise<SessionInfo> {
-    const response = await fetch(`${this.baseUrl}/api/sessions`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(config),
-    });
-    if (!response.ok) {
-      let reason = response.statusText;
-      try {
-        const body = (await response.json()) as { error?: string };
-        reason = body.error ?? reason;
-      } catch {
-        // ignore JSON parse failure; use statusText
-      }
-      throw new TunnelError(this.alias, reason);
-    }
-    const session = (await response.json()) as SessionInfo;
-    return { ...session, remoteAlias: this.alias };
+    // Only the fields the API accepts; the rest of a SessionConfig is local
+    const { name, workingDirectory, permissionMode, tags, budget } = config;
+    const session = await this.call(() =>
+      this.api.createSession({ name, workingDirectory, permissionMode, tags, budget }),
+    );
+    return this.tagged(session);
   }
 
   async stopSession(name: string): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/api/sessions/${encodeURIComponent(name)}`, {
-      method: 'DELETE',
-    });
-    if (!response.ok) {
-      let reason = response.statusText;
-      try {
-        const body = (await response.json()) as { error?: string };
-        reason = body.error ?? reason;
-      } catch {
-        // ignore JSON parse failure; use statusText
-      }
-      throw new TunnelError(this.alias, reason);
+    await this.call(() => this.api.stopSession(name));
+  }
+
+  /**
+   * Send a prompt and resolve with the full response. When `onChunk` is
+   * given the response is streamed as NDJSON frames and each chunk is
+   * passed to it as it arrives.
+   */
+  async sendPrompt(
+    sessionName: string,
+    prompt: string,
+    onChunk?: (chunk: string) => void,
+  ): Promise<string> {
+    if (!onChunk) {
+      const body = await this.call(() => this.api.sendPrompt(sessionName, { prompt }));
+      return body.response;
     }
+
+    return this.call(async () => {
+      for await (const frame of this.api.sendPromptStream(sessionName, { prompt })) {
+        switch (frame.type) {
+          case 'chunk':
+            onChunk(frame.chunk);
+            break;
+          case 'complete':
+            return frame.response;
+          case 'error':
+            throw new TunnelError(this.alias, frame.error);
+        }
+      }
+      throw new TunnelError(this.alias, 'prompt stream ended before the response completed');
+    });
   }
 
-  async sendPrompt(sessionName: string, prompt: string): Promise<string> {
-    const response = await fetch(
-      `${this.baseUrl}/api/sessions/${encodeURIComponent(sessionName)}/prompt`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt }),
-      },
-    );
-    if (!response.ok) {
-      let reason = response.statusText;
-      try {
-        const body = (await response.json()) as { error?: string };
-        reason = body.error ?? reason;
-      } catch {
-        // ignore JSON parse failure; use statusText
+  /** Run an API call, reporting an error response as a TunnelError for this remote. */
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (err) {
+      if (err instanceof ApiRequestError) {
+        throw new TunnelError(this.alias, err.message);
       }
-      throw new TunnelError(this.alias, reason);
+      throw err;
     }
-    const body = (await response.json()) as { response: string };
-    return body.response;
+  }
+
+  /**
+   * A remote session as SessionInfo. `startedAt` stays the ISO string sent
+   * over the wire, as it always has for remote sessions.
+   */
+  private tagged(session: ApiSessionInfo): SessionInfo {
+    return { ...(session as unknown as SessionInfo), remoteAlias: this.alias };
   }
 }
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ResourceMonitor, parseCgroupStats, processTreeSampler } from './resource-monitor.js';
+import type { ResourceCounters } from './resource-monitor.js';
+
+describe('parseCgroupStats', () => {
+  it('reads memory less inactive page cache, CPU time and bytes written', () => {
+    const output = [
+      '104857600',
+      'anon 52428800',
+      'inactive_file 20971520',
+      'active_file 1048576',
+      'usage_usec 2500000',
+      'user_usec 2000000',
+      '8:0 rbytes=4096 wbytes=1048576 rios=1 wios=8 dbytes=0 dios=0',
+      '8:16 rbytes=0 wbytes=524288 rios=0 wios=2 dbytes=0 dios=0',
+    ].join('\n');
+
+    expect(parseCgroupStats(output)).toEqual({
+      cpuTimeMs: 2500,
+      memoryBytes: 104857600 - 20971520,
+      diskWriteBytes: 1048576 + 524288,
+    });
+  });
+
+  it('returns null without memory.current (cgroup v1)', () => {
+    expect(parseCgroupStats('')).toBeNull();
+    expect(parseCgroupStats('cat: memory.current: No such file or directory')).toBeNull();
+  });
+});
+
+describe('processTreeSampler', () => {
+  let procDir: string;
+
+  /** Fake /proc/<pid> with `ticks` of user and system time each. */
+  async function proc(pid: number, ppid: number, comm: string, ticks: number, rssKb: number, writeBytes?: number): Promise<void> {
+    const dir = path.join(procDir, String(pid));
+    await fs.mkdir(dir, { recursive: true });
+    const rest = ['S', ppid, pid, pid, 0, -1, 4194304, 0, 0, 0, 0, ticks, ticks, 0, 0, 20, 0, 1, 0];
+    await fs.writeFile(path.join(dir, 'stat'), `${pid} (${comm}) ${rest.join(' ')}\n`);
+    await fs.writeFile(path.join(dir, 'status'), `Name:\t${comm}\nVmRSS:\t  ${rssKb} kB\n`);
+    if (writeBytes !== undefined) {
+      await fs.writeFile(path.join(dir, 'io'), `rchar: 0\nwchar: 0\nwrite_bytes: ${writeBytes}\n`);
+    }
+  }
+
+  beforeEach(async () => {
+    procDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-proc-test-'));
+    await fs.mkdir(path.join(procDir, 'self'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(procDir, { recursive: true, force: true });
+  });
+
+  it('sums the root process and its descendants only', async () => {
+    await proc(100, 1, 'claude', 10, 1000, 4096);
+    await proc(101, 100, 'node (worker) x', 5, 500, 1024);
+    await proc(102, 101, 'sh', 1, 100);
+    await proc(200, 1, 'unrelated', 99, 9999, 9999);
+
+    const counters = await processTreeSampler(100, procDir)();
+
+    expect(counters).toEqual({
+      cpuTimeMs: (20 + 10 + 2) * 10,
+      memoryBytes: (1000 + 500 + 100) * 1024,
+      diskWriteBytes: 4096 + 1024,
+    });
+  });
+
+  it('keeps the counts of children that exited since the last sample', async () => {
+    await proc(100, 1, 'claude', 10, 1000, 0);
+    await proc(101, 100, 'npm', 50, 500, 2048);
+    const sample = processTreeSampler(100, procDir);
+    await sample();
+
+    await fs.rm(path.join(procDir, '101'), { recursive: true });
+    const counters = await sample();
+
+    expect(counters).toEqual({ cpuTimeMs: (20 + 100) * 10, memoryBytes: 1000 * 1024, diskWriteBytes: 2048 });
+  });
+
+  it('returns null once the root has exited or without /proc', async () => {
+    await proc(200, 1, 'unrelated', 1, 1);
+
+    expect(await processTreeSampler(100, procDir)()).toBeNull();
+    expect(await processTreeSampler(100, path.join(procDir, 'missing'))()).toBeNull();
+  });
+});
+
+describe('ResourceMonitor', () => {
+  let readings: ResourceCounters[];
+  const sampler = async (): Promise<ResourceCounters | null> => readings.shift() ?? null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    readings = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports live gauges and peak/average usage of the prompt', async () => {
+    readings = [
+      { cpuTimeMs: 0, memoryBytes: 100, diskWriteBytes: 1000 },
+      { cpuTimeMs: 500, memoryBytes: 300, diskWriteBytes: 1500 },
+      { cpuTimeMs: 1500, memoryBytes: 200, diskWriteBytes: 3000 },
+    ];
+    const onSample = vi.fn();
+    const monitor = new ResourceMonitor(undefined, { onSample });
+
+    monitor.start(sampler, 3);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(monitor.getGauge()).toMatchObject({ cpuPercent: 50, memoryBytes: 300, diskWriteBytes: 500 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const usage = await monitor.stop();
+
+    expect(onSample).toHaveBeenCalledTimes(3);
+    expect(monitor.getGauge()).toBeNull();
+    expect(usage).toMatchObject({
+      prompt: 3,
+      samples: 3,
+      cpuPercent: { peak: 100, avg: 75 },
+      memoryBytes: { peak: 300, avg: 200 },
+      diskWriteBytes: 2000,
+      exceeded: [],
+    });
+  });
+
+  it('reports each soft limit once per prompt', async () => {
+    readings = [
+      { cpuTimeMs: 0, memoryBytes: 600, diskWriteBytes: 0 },
+      { cpuTimeMs: 2000, memoryBytes: 700, diskWriteBytes: 0 },
+      { cpuTimeMs: 4000, memoryBytes: 800, diskWriteBytes: 0 },
+    ];
+    const onLimitExceeded = vi.fn();
+    const monitor = new ResourceMonitor({ cpuPercent: 150, memoryBytes: 500, diskWriteBytes: 100 }, { onLimitExceeded });
+
+    monitor.start(sampler, 1);
+    await vi.advanceTimersByTimeAsync(2000);
+    const usage = await monitor.stop();
+
+    expect(onLimitExceeded.mock.calls).toEqual([
+      ['memory', 600, 500],
+      ['cpu', 200, 150],
+    ]);
+    expect(usage?.exceeded).toEqual(['memory', 'cpu']);
+  });
+
+  it('returns null for a prompt that could not be sampled', async () => {
+    const monitor = new ResourceMonitor(undefined);
+
+    monitor.start(async () => {
+      throw new Error('container is not running');
+    }, 1);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await monitor.stop()).toBeNull();
+    expect(await monitor.stop()).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { ResourceGauge, ResourceKind, ResourceLimits, ResourceTurnUsage } from '../types.js';
+
+const execFileAsync = promisify(execFile);
+
+/** How often a running prompt is sampled. */
+export const RESOURCE_SAMPLE_INTERVAL_MS = 1000;
+/** Prompts whose usage a session keeps for getMetrics(). */
+export const RESOURCE_TURN_HISTORY = 50;
+
+/** Linux reports CPU time in clock ticks of 1/100 s on every mainstream architecture. */
+const MS_PER_CLOCK_TICK = 10;
+
+/**
+ * Read inside the container, where the cgroup namespace puts the
+ * container's own cgroup at /sys/fs/cgroup (cgroup v2).
+ */
+const CGROUP_READ_SCRIPT = 'cd /sys/fs/cgroup && cat memory.current memory.stat cpu.stat io.stat 2>/dev/null; exit 0';
+
+/** Cumulative counters read from a container or process tree. */
+export interface ResourceCounters {
+  cpuTimeMs: number;
+  memoryBytes: number;
+  diskWriteBytes: number;
+}
+
+/** Reads the current counters, or null when there is nothing to read (yet, or any more). */
+export type ResourceSampler = () => Promise<ResourceCounters | null>;
+
+/**
+ * Sample a Docker/Podman container from its cgroup v2 files. Memory
+ * excludes inactive page cache, as `docker stats` does.
+ */
+export function containerSampler(binary: 'docker' | 'podman', containerId: string): ResourceSampler {
+  return async () => {
+    const { stdout } = await execFileAsync(binary, ['exec', containerId, 'sh', '-c', CGROUP_READ_SCRIPT]);
+    return parseCgroupStats(stdout);
+  };
+}
+
+/** Parse the concatenation of memory.current, memory.stat, cpu.stat and io.stat. */
+export function parseCgroupStats(output: string): ResourceCounters | null {
+  const lines = output.split('\n');
+  if (!/^\d+$/.test(lines[0]?.trim() ?? '')) return null;
+
+  const fields = new Map<string, number>();
+  for (const line of lines.slice(1)) {
+    const match = /^(\w+) (\d+)$/.exec(line.trim());
+    if (match) fields.set(match[1], Number(match[2]));
+  }
+  let diskWriteBytes = 0;
+  for (const match of output.matchAll(/\bwbytes=(\d+)/g)) {
+    diskWriteBytes += Number(match[1]);
+  }
+  return {
+    cpuTimeMs: (fields.get('usage_usec') ?? 0) / 1000,
+    memoryBytes: Math.max(0, Number(lines[0].trim()) - (fields.get('inactive_file') ?? 0)),
+    diskWriteBytes,
+  };
+}
+
+/**
+ * Sample `rootPid` and its descendants from /proc: resident memory of the
+ * processes alive now, CPU time and bytes written by every process seen
+ * so far (children that exit between samples keep their last counts).
+ * Returns null once the root has exited, and always where there is no /proc.
+ */
+export function processTreeSampler(rootPid: number, procDir: string = '/proc'): ResourceSampler {
+  const seen = new Map<number, { cpuTimeMs: number; diskWriteBytes: number }>();
+
+  return async () => {
+    let names: string[];
+    try {
+      names = await fs.readdir(procDir);
+    } catch {
+      return null;
+    }
+
+    const stats = new Map<number, { ppid: number; cpuTimeMs: number }>();
+    await Promise.all(names.filter((name) => /^\d+$/.test(name)).map(async (name) => {
+      const stat = await fs.readFile(path.join(procDir, name, 'stat'), 'utf-8').catch(() => null);
+      const parsed = stat && parseProcStat(stat);
+      if (parsed) stats.set(Number(name), parsed);
+    }));
+    if (!stats.has(rootPid)) return null;
+
+    const children = new Map<number, number[]>();
+    for (const [pid, { ppid }] of stats) {
+      children.set(ppid, [...(children.get(ppid) ?? []), pid]);
+    }
+    const tree: number[] = [];
+    for (const queue = [rootPid]; queue.length > 0;) {
+      const pid = queue.shift()!;
+      tree.push(pid);
+      queue.push(...(children.get(pid) ?? []));
+    }
+
+    let memoryBytes = 0;
+    await Promise.all(tree.map(async (pid) => {
+      const dir = path.join(procDir, String(pid));
+      const [status, io] = await Promise.all([
+        fs.readFile(path.join(dir, 'status'), 'utf-8').catch(() => ''),
+        // Unreadable for setuid processes such as bwrap on some distributions
+        fs.readFile(path.join(dir, 'io'), 'utf-8').catch(() => ''),
+      ]);
+      memoryBytes += Number(/^VmRSS:\s+(\d+) kB$/m.exec(status)?.[1] ?? 0) * 1024;
+      const written = /^write_bytes: (\d+)$/m.exec(io);
+      seen.set(pid, {
+        cpuTimeMs: stats.get(pid)!.cpuTimeMs,
+        diskWriteBytes: written ? Number(written[1]) : seen.get(pid)?.diskWriteBytes ?? 0,
+      });
+    }));
+
+    let cpuTimeMs = 0;
+    let diskWriteBytes = 0;
+    for (const counters of seen.values()) {
+      cpuTimeMs += counters.cpuTimeMs;
+      diskWriteBytes += counters.diskWriteBytes;
+    }
+    return { cpuTimeMs, memoryBytes, diskWriteBytes };
+  };
+}
+
+/** Parent and user + system CPU time from /proc/<pid>/stat, whose comm field may hold spaces and parentheses. */
+function parseProcStat(content: string): { ppid: number; cpuTimeMs: number } | null {
+  const fields = content.slice(content.lastIndexOf(')') + 2).split(' ');
+  const ppid = Number(fields[1]);
+  const ticks = Number(fields[11]) + Number(fields[12]);
+  return Number.isFinite(ppid) && Number.isFinite(ticks) ? { ppid, cpuTimeMs: ticks * MS_PER_CLOCK_TICK } : null;
+}
+
+export interface ResourceMonitorHandlers {
+  onSample?: (gauge: ResourceGauge) => void;
+  onLimitExceeded?: (kind: ResourceKind, value: number, limit: number) => void;
+}
+
+/** The prompt being sampled. */
+interface Turn {
+  sampler: ResourceSampler;
+  prompt: number;
+  startedAt: number;
+  timer: NodeJS.Timeout;
+  sampling: Promise<void> | null;
+  first: { at: number; counters: ResourceCounters } | null;
+  last: { at: number; counters: ResourceCounters } | null;
+  gauge: ResourceGauge | null;
+  cpuSamples: number[];
+  memorySamples: number[];
+  exceeded: Set<ResourceKind>;
+}
+
+/**
+ * ResourceMonitor — samples what one prompt at a time uses.
+ *
+ * start() begins sampling a prompt's sampler every interval; stop() takes
+ * a last sample and returns the prompt's peak and average CPU and memory
+ * and the bytes it wrote. Each soft limit is reported once per prompt, the
+ * first time a sample crosses it.
+ */
+export class ResourceMonitor {
+  private turn: Turn | null = null;
+
+  constructor(
+    private readonly limits: ResourceLimits | undefined,
+    private readonly handlers: ResourceMonitorHandlers = {},
+    private readonly intervalMs: number = RESOURCE_SAMPLE_INTERVAL_MS,
+  ) {}
+
+  /** Start sampling prompt number `prompt` (1-based) with `sampler`. */
+  start(sampler: ResourceSampler, prompt: number): void {
+    if (this.turn) clearInterval(this.turn.timer);
+    const turn: Turn = {
+      sampler,
+      prompt,
+      startedAt: Date.now(),
+      timer: setInterval(() => this.sample(turn), this.intervalMs),
+      sampling: null,
+      first: null,
+      last: null,
+      gauge: null,
+      cpuSamples: [],
+      memorySamples: [],
+      exceeded: new Set(),
+    };
+    turn.timer.unref();
+    this.turn = turn;
+    this.sample(turn);
+  }
+
+  /** Stop sampling. Returns what the prompt used, or null if it could not be sampled at all. */
+  async stop(): Promise<ResourceTurnUsage | null> {
+    const turn = this.turn;
+    if (!turn) return null;
+    this.turn = null;
+    clearInterval(turn.timer);
+    await turn.sampling;
+    await this.sample(turn);
+
+    const { first, last } = turn;
+    if (!first || !last) return null;
+    const elapsed = last.at - first.at;
+    return {
+      prompt: turn.prompt,
+      startedAt: new Date(turn.startedAt).toISOString(),
+      durationMs: Date.now() - turn.startedAt,
+      samples: turn.memorySamples.length,
+      cpuPercent: {
+        peak: Math.max(0, ...turn.cpuSamples),
+        avg: elapsed > 0 ? cpuPercent(first.counters, last.counters, elapsed) : 0,
+      },
+      memoryBytes: {
+        peak: Math.max(...turn.memorySamples),
+        avg: Math.round(turn.memorySamples.reduce((sum, m) => sum + m, 0) / turn.memorySamples.length),
+      },
+      diskWriteBytes: Math.max(0, last.counters.diskWriteBytes - first.counters.diskWriteBytes),
+      exceeded: [...turn.exceeded],
+    };
+  }
+
+  /** The latest reading while a prompt is sampled. */
+  getGauge(): ResourceGauge | null {
+    return this.turn?.gauge ?? null;
+  }
+
+  private sample(turn: Turn): Promise<void> {
+    // Skip a tick rather than pile up behind a slow `docker exec`
+    if (turn.sampling) return turn.sampling;
+    turn.sampling = turn.sampler()
+      .catch(() => null)
+      .then((counters) => {
+        if (counters) this.record(turn, counters, Date.now());
+      })
+      .finally(() => {
+        turn.sampling = null;
+      });
+    return turn.sampling;
+  }
+
+  private record(turn: Turn, counters: ResourceCounters, at: number): void {
+    const previous = turn.last;
+    const first = turn.first ?? { at, counters };
+    turn.first = first;
+    turn.last = { at, counters };
+    turn.memorySamples.push(counters.memoryBytes);
+
+    const cpu = previous && at > previous.at ? cpuPercent(previous.counters, counters, at - previous.at) : 0;
+    if (previous) turn.cpuSamples.push(cpu);
+
+    const gauge: ResourceGauge = {
+      cpuPercent: cpu,
+      memoryBytes: counters.memoryBytes,
+      diskWriteBytes: Math.max(0, counters.diskWriteBytes - first.counters.diskWriteBytes),
+      sampledAt: new Date(at).toISOString(),
+    };
+    // The last sample, taken by stop(), is not live any more
+    if (this.turn === turn) {
+      turn.gauge = gauge;
+      this.handlers.onSample?.(gauge);
+    }
+
+    const readings: Array<[ResourceKind, number, number | undefined]> = [
+      ['cpu', gauge.cpuPercent, this.limits?.cpuPercent],
+      ['memory', gauge.memoryBytes, this.limits?.memoryBytes],
+      ['disk', gauge.diskWriteBytes, this.limits?.diskWriteBytes],
+    ];
+    for (const [kind, value, limit] of readings) {
+      if (limit === undefined || value <= limit || turn.exceeded.has(kind)) continue;
+      turn.exceeded.add(kind);
+      this.handlers.onLimitExceeded?.(kind, value, limit);
+    }
+  }
+}
+
+function cpuPercent(from: ResourceCounters, to: ResourceCounters, elapsedMs: number): number {
+  return Math.max(0, Math.round(((to.cpuTimeMs - from.cpuTimeMs) / elapsedMs) * 1000) / 10);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { SandboxDiffStore, parseIgnorePatterns, isIgnored } from './sandbox-diff.js';
+import { SandboxBaselineNotFoundError } from '../utils/errors.js';
+import { formatPatch } from './diff.js';
+
+describe('isIgnored', () => {
+  it('follows gitignore semantics for anchoring, directories and negation', () => {
+    const rules = parseIgnorePatterns(['# comment', '*.log', '/build/', 'dist/', '!keep.log']);
+
+    expect(isIgnored('app.log', false, rules)).toBe(true);
+    expect(isIgnored('deep/app.log', false, rules)).toBe(true);
+    expect(isIgnored('keep.log', false, rules)).toBe(false);
+    expect(isIgnored('build', true, rules)).toBe(true);
+    expect(isIgnored('src/build', true, rules)).toBe(false);
+    expect(isIgnored('src/dist', true, rules)).toBe(true);
+    expect(isIgnored('dist', false, rules)).toBe(false);
+  });
+});
+
+describe('SandboxDiffStore', () => {
+  let dir: string;
+  let workdir: string;
+  let store: SandboxDiffStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-sandbox-diff-test-'));
+    workdir = path.join(dir, 'work');
+    await fs.mkdir(path.join(workdir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(workdir, 'README.md'), 'hello\n');
+    await fs.writeFile(path.join(workdir, 'src', 'index.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    await fs.writeFile(path.join(workdir, 'old.txt'), 'bye\n');
+    store = new SandboxDiffStore(path.join(dir, 'baselines'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports added, modified and deleted files with hunks', async () => {
+    await store.capture('api', workdir);
+    await fs.writeFile(path.join(workdir, 'src', 'index.ts'), 'export const a = 1;\nexport const b = 3;\n');
+    await fs.rm(path.join(workdir, 'old.txt'));
+    await fs.writeFile(path.join(workdir, 'src', 'new.ts'), 'new\n');
+
+    const diff = await store.diff('api');
+
+    expect(diff.workingDirectory).toBe(workdir);
+    expect(diff.files.map((f) => [f.status, f.path, f.additions, f.deletions])).toEqual([
+      ['D', 'old.txt', 0, 1],
+      ['M', 'src/index.ts', 1, 1],
+      ['A', 'src/new.ts', 1, 0],
+    ]);
+    expect(diff.files[1].hunks[0].lines.map((l) => l.kind)).toEqual(['context', 'remove', 'add']);
+  });
+
+  it('produces patches that git apply to the baseline, CRLF and missing final newlines included', async () => {
+    await fs.writeFile(path.join(workdir, 'win.txt'), 'one\r\ntwo\r\n');
+    await fs.writeFile(path.join(workdir, 'tail.txt'), 'last');
+    await store.capture('api', workdir);
+    const copy = path.join(dir, 'copy');
+    await fs.cp(workdir, copy, { recursive: true });
+    await fs.writeFile(path.join(workdir, 'win.txt'), 'one\r\n2\r\nthree');
+    await fs.writeFile(path.join(workdir, 'tail.txt'), 'last\nmore\n');
+
+    const diff = await store.diff('api');
+    execFileSync('git', ['apply', '-'], { cwd: copy, input: diff.files.map(formatPatch).join('') });
+
+    expect(await fs.readFile(path.join(copy, 'win.txt'), 'utf-8')).toBe('one\r\n2\r\nthree');
+    expect(await fs.readFile(path.join(copy, 'tail.txt'), 'utf-8')).toBe('last\nmore\n');
+  });
+
+  it('detects binary files without producing hunks', async () => {
+    await fs.writeFile(path.join(workdir, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+    await store.capture('api', workdir);
+    await fs.writeFile(path.join(workdir, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x02]));
+
+    const [logo] = (await store.diff('api')).files;
+
+    expect(logo).toMatchObject({ path: 'logo.png', status: 'M', binary: true, hunks: [] });
+  });
+
+  it('skips ignored paths from ignore files, defaults and extra patterns', async () => {
+    await fs.writeFile(path.join(workdir, '.agentspawnignore'), '*.tmp\n');
+    await store.capture('api', workdir);
+    await fs.mkdir(path.join(workdir, 'node_modules', 'pkg'), { recursive: true });
+    await fs.writeFile(path.join(workdir, 'node_modules', 'pkg', 'index.js'), 'x');
+    await fs.writeFile(path.join(workdir, 'scratch.tmp'), 'x');
+    await fs.writeFile(path.join(workdir, 'README.md'), 'changed\n');
+    await fs.writeFile(path.join(workdir, 'notes.md'), 'x');
+
+    expect((await store.diff('api')).files.map((f) => f.path)).toEqual(['README.md', 'notes.md']);
+    expect((await store.diff('api', { ignore: ['*.md'] })).files).toEqual([]);
+  });
+
+  it('keeps its baselines out of a working directory that contains them', async () => {
+    store = new SandboxDiffStore(path.join(workdir, '.baselines'));
+    await store.capture('api', workdir);
+    await store.capture('other', workdir);
+
+    expect((await store.diff('api')).files).toEqual([]);
+  });
+
+  it('throws SandboxBaselineNotFoundError without a baseline and forgets removed ones', async () => {
+    await expect(store.diff('missing')).rejects.toBeInstanceOf(SandboxBaselineNotFoundError);
+
+    await store.capture('api', workdir);
+    expect(await store.hasBaseline('api')).toBe(true);
+    await store.remove('api');
+    expect(await store.hasBaseline('api')).toBe(false);
+  });
+});
@@ -0,0 +1,277 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { diffText, isBinary } from './diff.js';
+import type { FileDiff } from './diff.js';
+import { globToRegExp } from './file-trigger.js';
+import { SandboxBaselineNotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/** Files larger than this are compared by hash only, without a patch. */
+const MAX_DIFF_BYTES = 1024 * 1024;
+/** A working directory with more files than this is not baselined. */
+const MAX_BASELINE_FILES = 20000;
+/** Always ignored, on top of the ignore files. */
+const DEFAULT_IGNORES = ['.git/', 'node_modules/'];
+/** Read from the root of the working directory, in this order. */
+export const IGNORE_FILES = ['.gitignore', '.agentspawnignore'];
+
+export interface IgnoreRule {
+  pattern: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/** Changes in a session's working directory since the session started. */
+export interface SandboxDiff {
+  sessionName: string;
+  workingDirectory: string;
+  /** When the baseline was captured, i.e. when the session started. */
+  baselineAt: string;
+  files: FileDiff[];
+}
+
+interface BaselineFile {
+  size: number;
+  hash: string;
+  binary: boolean;
+}
+
+interface BaselineManifest {
+  version: number;
+  sessionName: string;
+  workingDirectory: string;
+  capturedAt: string;
+  files: Record<string, BaselineFile>;
+}
+
+/**
+ * Parse gitignore-style patterns: `#` comments, `!` negation, a trailing
+ * `/` for directories only, and patterns without a `/` matching at any
+ * depth. Patterns that do not compile are skipped.
+ */
+export function parseIgnorePatterns(patterns: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of patterns) {
+    let pattern = raw.trim();
+    if (!pattern || pattern.startsWith('#')) continue;
+
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+    const dirOnly = pattern.endsWith('/');
+    if (dirOnly) pattern = pattern.slice(0, -1);
+    const anchored = pattern.includes('/');
+    if (pattern.startsWith('/')) pattern = pattern.slice(1);
+    if (!pattern) continue;
+
+    try {
+      rules.push({ pattern: raw.trim(), regex: globToRegExp(anchored ? pattern : `**/${pattern}`), negate, dirOnly });
+    } catch {
+      logger.debug(`Skipping invalid ignore pattern "${raw}"`);
+    }
+  }
+  return rules;
+}
+
+/** Whether `relPath` is ignored; the last matching rule wins, as in git. */
+export function isIgnored(relPath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.regex.test(relPath)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+/** Default ignores plus the ignore files at the root of `directory`, plus `extra`. */
+export async function loadIgnoreRules(directory: string, extra: string[] = []): Promise<IgnoreRule[]> {
+  const patterns = [...DEFAULT_IGNORES];
+  for (const name of IGNORE_FILES) {
+    try {
+      patterns.push(...(await fs.readFile(path.join(directory, name), 'utf-8')).split('\n'));
+    } catch {
+      // No such ignore file
+    }
+  }
+  return parseIgnorePatterns([...patterns, ...extra]);
+}
+
+/** Regular files below `root` that are not ignored, as sorted `/`-separated paths. */
+export async function listFiles(root: string, rules: IgnoreRule[]): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (relDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(root, relDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!isIgnored(rel, true, rules)) await walk(rel);
+      } else if (entry.isFile() && !isIgnored(rel, false, rules)) {
+        files.push(rel);
+      }
+    }
+  };
+  await walk('');
+  return files.sort();
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * SandboxDiffStore — what a session changed in its working directory.
+ *
+ * When a session starts, a baseline is captured: a manifest of every file
+ * not ignored (by default, .gitignore and .agentspawnignore rules) with
+ * its hash, plus the contents of files small enough to diff, stored by
+ * hash under <baselinesDir>/<session>/. diff() compares the working
+ * directory against it, producing unified hunks per text file.
+ */
+export class SandboxDiffStore {
+  constructor(private readonly baselinesDir: string) {}
+
+  /** Capture `workingDirectory` as the session's baseline, replacing any previous one. */
+  async capture(sessionName: string, workingDirectory: string): Promise<void> {
+    const sessionDir = this.getSessionDir(sessionName);
+    const blobsDir = path.join(sessionDir, 'blobs');
+    await fs.rm(sessionDir, { recursive: true, force: true });
+    await fs.mkdir(blobsDir, { recursive: true });
+
+    const rules = await loadIgnoreRules(workingDirectory, this.selfIgnores(workingDirectory));
+    const paths = await listFiles(workingDirectory, rules);
+    if (paths.length > MAX_BASELINE_FILES) {
+      logger.warn(`Not capturing a diff baseline for session "${sessionName}": more than ${MAX_BASELINE_FILES} files`);
+      await fs.rm(sessionDir, { recursive: true, force: true });
+      return;
+    }
+
+    const files: Record<string, BaselineFile> = {};
+    for (const rel of paths) {
+      const filePath = path.join(workingDirectory, rel);
+      try {
+        const { size } = await fs.stat(filePath);
+        if (size > MAX_DIFF_BYTES) {
+          files[rel] = { size, hash: await hashFile(filePath), binary: false };
+          continue;
+        }
+        const content = await fs.readFile(filePath);
+        const hash = createHash('sha256').update(content).digest('hex');
+        await fs.writeFile(path.join(blobsDir, hash), content, { flag: 'wx' }).catch((err: NodeJS.ErrnoException) => {
+          if (err.code !== 'EEXIST') throw err;
+        });
+        files[rel] = { size, hash, binary: isBinary(content) };
+      } catch (err) {
+        logger.debug(`Skipping ${filePath} in diff baseline: ${err}`);
+      }
+    }
+
+    const manifest: BaselineManifest = {
+      version: 1,
+      sessionName,
+      workingDirectory,
+      capturedAt: new Date().toISOString(),
+      files,
+    };
+    // Write atomically: write to .tmp then rename
+    const manifestPath = path.join(sessionDir, 'manifest.json');
+    await fs.writeFile(manifestPath + '.tmp', JSON.stringify(manifest), 'utf-8');
+    await fs.rename(manifestPath + '.tmp', manifestPath);
+    logger.debug(`Captured diff baseline of ${paths.length} files for session "${sessionName}"`);
+  }
+
+  async hasBaseline(sessionName: string): Promise<boolean> {
+    return fs.access(path.join(this.getSessionDir(sessionName), 'manifest.json')).then(() => true, () => false);
+  }
+
+  /**
+   * Files changed since the baseline, sorted by path. `ignore` adds
+   * patterns on top of the default and ignore-file rules.
+   */
+  async diff(sessionName: string, options: { ignore?: string[] } = {}): Promise<SandboxDiff> {
+    const manifest = await this.readManifest(sessionName);
+    const dir = manifest.workingDirectory;
+    const rules = await loadIgnoreRules(dir, [...this.selfIgnores(dir), ...(options.ignore ?? [])]);
+    const current = await listFiles(dir, rules);
+    const currentSet = new Set(current);
+    const baselinePaths = Object.keys(manifest.files).filter((rel) => !isIgnored(rel, false, rules));
+
+    const files: FileDiff[] = [];
+    for (const rel of [...new Set([...baselinePaths, ...current])].sort()) {
+      const before = manifest.files[rel];
+      if (before && !currentSet.has(rel)) {
+        files.push(await this.fileDiff(sessionName, rel, 'D', before, null));
+        continue;
+      }
+      const filePath = path.join(dir, rel);
+      const { size } = await fs.stat(filePath);
+      const after = size > MAX_DIFF_BYTES ? null : await fs.readFile(filePath);
+      if (before) {
+        const hash = after ? createHash('sha256').update(after).digest('hex') : await hashFile(filePath);
+        if (hash === before.hash) continue;
+      }
+      files.push(await this.fileDiff(sessionName, rel, before ? 'M' : 'A', before, after, size));
+    }
+
+    return { sessionName, workingDirectory: dir, baselineAt: manifest.capturedAt, files };
+  }
+
+  /** Delete the session's baseline. */
+  async remove(sessionName: string): Promise<void> {
+    await fs.rm(this.getSessionDir(sessionName), { recursive: true, force: true });
+  }
+
+  private async fileDiff(
+    sessionName: string,
+    rel: string,
+    status: FileDiff['status'],
+    before: BaselineFile | undefined,
+    after: Buffer | null,
+    afterSize: number = 0,
+  ): Promise<FileDiff> {
+    const oldContent = before && before.size <= MAX_DIFF_BYTES
+      ? await fs.readFile(path.join(this.getSessionDir(sessionName), 'blobs', before.hash)).catch(() => null)
+      : null;
+    const tooLarge = (before !== undefined && oldContent === null) || (status !== 'D' && after === null && afterSize > MAX_DIFF_BYTES);
+    const binary = (before?.binary ?? false) || (after !== null && isBinary(after));
+    const result: FileDiff = { path: rel, status, binary, additions: 0, deletions: 0, hunks: [] };
+    if (tooLarge) {
+      result.tooLarge = true;
+      return result;
+    }
+    if (binary) return result;
+
+    result.hunks = diffText(oldContent?.toString('utf-8') ?? null, after?.toString('utf-8') ?? null);
+    for (const hunk of result.hunks) {
+      for (const line of hunk.lines) {
+        if (line.kind === 'add') result.additions++;
+        if (line.kind === 'remove') result.deletions++;
+      }
+    }
+    return result;
+  }
+
+  private async readManifest(sessionName: string): Promise<BaselineManifest> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.getSessionDir(sessionName), 'manifest.json'), 'utf-8')) as BaselineManifest;
+    } catch (err: unknown) {
+      throw new SandboxBaselineNotFoundError(sessionName, err instanceof Error ? err : undefined);
+    }
+  }
+
+  /** Keep the baselines themselves out of a working directory that contains them. */
+  private selfIgnores(workingDirectory: string): string[] {
+    const rel = path.relative(workingDirectory, this.baselinesDir);
+    if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) return [];
+    return [`/${rel.split(path.sep).join('/')}/`];
+  }
+
+  private getSessionDir(sessionName: string): string {
+    return path.join(this.baselinesDir, sessionName.replace(/[^a-zA-Z0-9_-]/g, '_'));
+  }
+}
@@ -0,0 +1,114 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { SandboxEventLog } from './sandbox-event-log.js';
+import type { SandboxEvent } from './sandbox-event-log.js';
+import type { SandboxLogEntry } from './sandbox-log-watcher.js';
+
+function entry(timestamp: string, host: string): SandboxLogEntry {
+  return {
+    timestamp,
+    processName: 'claude',
+    pid: 0,
+    operation: 'deny',
+    path: `network-outbound ${host}:443`,
+    raw: `CONNECT ${host}:443`,
+  };
+}
+
+describe('SandboxEventLog', () => {
+  let dir: string;
+  let log: SandboxEventLog;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-sandbox-event-log-test-'));
+    log = new SandboxEventLog(path.join(dir, 'logs'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads back events of one session or all sessions, oldest first', async () => {
+    await log.append('api', entry('2026-01-01T00:00:02.000Z', 'b.example'));
+    await log.append('web', entry('2026-01-01T00:00:01.000Z', 'a.example'));
+    await log.append('api', entry('2026-01-01T00:00:03.000Z', 'c.example'));
+
+    expect((await log.read('api')).map((e) => e.path)).toEqual([
+      'network-outbound b.example:443',
+      'network-outbound c.example:443',
+    ]);
+    expect((await log.read()).map((e) => e.sessionName)).toEqual(['web', 'api', 'api']);
+  });
+
+  it('only returns events after `since`', async () => {
+    await log.append('api', entry('2026-01-01T00:00:00.000Z', 'old.example'));
+    await log.append('api', entry('2026-01-02T00:00:00.000Z', 'new.example'));
+
+    const events = await log.read('api', new Date('2026-01-01T12:00:00.000Z'));
+
+    expect(events.map((e) => e.raw)).toEqual(['CONNECT new.example:443']);
+  });
+
+  it('reads denials strace wrote to a prepared trace file as events of the session', async () => {
+    const tracePath = await log.prepareTrace('api');
+    await fs.appendFile(tracePath, [
+      '3 1772157148.000000 openat(AT_FDCWD, "/etc/passwd", O_WRONLY) = -1 EROFS (Read-only file system)',
+      '3 1772157148.100000 openat(AT_FDCWD, "/missing", O_RDONLY) = -1 ENOENT (No such file or directory)',
+      '',
+    ].join('\n'));
+    await log.append('api', entry('2026-02-27T01:52:29.000Z', 'a.example'));
+
+    const events = await log.read();
+
+    expect(events.map((e) => [e.sessionName, e.operation, e.path])).toEqual([
+      ['api', 'deny(EROFS)', 'openat /etc/passwd'],
+      ['api', 'deny', 'network-outbound a.example:443'],
+    ]);
+    expect(await log.read('api')).toHaveLength(2);
+  });
+
+  it('starts an oversized trace afresh and deletes it on request', async () => {
+    const tracePath = await log.prepareTrace('api');
+    await fs.writeFile(tracePath, 'x'.repeat(16 * 1024 * 1024 + 1));
+
+    expect(await log.prepareTrace('api')).toBe(tracePath);
+    expect((await fs.stat(tracePath)).size).toBe(0);
+
+    await fs.writeFile(tracePath, 'kept\n');
+    await log.prepareTrace('api');
+    expect(await fs.readFile(tracePath, 'utf-8')).toBe('kept\n');
+
+    await log.removeTrace('api');
+    await expect(fs.stat(tracePath)).rejects.toMatchObject({ code: 'ENOENT' });
+    await log.removeTrace('api');
+  });
+
+  it('returns nothing for a session without a log', async () => {
+    expect(await log.read('missing')).toEqual([]);
+    expect(await log.read()).toEqual([]);
+  });
+
+  it('follows events appended after it starts', async () => {
+    await log.append('api', entry('2026-01-01T00:00:00.000Z', 'before.example'));
+    const seen: SandboxEvent[] = [];
+    const stop = log.follow(undefined, (event) => seen.push(event));
+
+    try {
+      // Let the first poll record the current file sizes
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await log.append('api', entry('2026-01-01T00:00:01.000Z', 'after.example'));
+      await log.append('web', entry('2026-01-01T00:00:02.000Z', 'other.example'));
+      await vi.waitFor(() => expect(seen).toHaveLength(2), { timeout: 3000 });
+    } finally {
+      stop();
+    }
+
+    expect(seen.map((e) => `${e.sessionName} ${e.raw}`).sort()).toEqual([
+      'api CONNECT after.example:443',
+      'web CONNECT other.example:443',
+    ]);
+  });
+});
+
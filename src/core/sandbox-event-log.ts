@@ -0,0 +1,165 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parseStraceLine } from './sandbox-log-watcher.js';
+import type { SandboxLogEntry } from './sandbox-log-watcher.js';
+import { logger } from '../utils/logger.js';
+
+/** A violation recorded by AgentSpawn, tagged with the session it belongs to. */
+export interface SandboxEvent extends SandboxLogEntry {
+  sessionName: string;
+}
+
+const EVENTS_EXT = '.jsonl';
+const TRACE_EXT = '.strace';
+/** A trace file bigger than this is started afresh when its session starts. */
+const MAX_TRACE_BYTES = 16 * 1024 * 1024;
+
+/** How often follow() checks the log files for new lines. */
+const FOLLOW_INTERVAL_MS = 500;
+
+/**
+ * SandboxEventLog — sandbox violations AgentSpawn observes itself (such as
+ * egress denials), as opposed to those the OS reports in its own logs.
+ *
+ * Each session appends to <dir>/<session>.jsonl, so `agentspawn sandbox
+ * logs` in another process can show and follow them. bwrap sessions also
+ * may get <dir>/<session>.strace, which strace writes to from inside the
+ * sandbox; its denials are read back as events of that session. The trace
+ * is deleted when the session is removed.
+ */
+export class SandboxEventLog {
+  constructor(private readonly dir: string) {}
+
+  async append(sessionName: string, entry: SandboxLogEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const event: SandboxEvent = { sessionName, ...entry };
+    await fs.appendFile(this.getPath(sessionName, EVENTS_EXT), JSON.stringify(event) + '\n', 'utf-8');
+  }
+
+  /**
+   * Create the session's strace output file and return its path. It must
+   * exist before the sandbox starts, since bwrap bind-mounts it. One that
+   * has grown past MAX_TRACE_BYTES is emptied first.
+   */
+  async prepareTrace(sessionName: string): Promise<string> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tracePath = this.getPath(sessionName, TRACE_EXT);
+    const size = await fs.stat(tracePath).then((stat) => stat.size, () => 0);
+    if (size > MAX_TRACE_BYTES) {
+      await fs.writeFile(tracePath, '', 'utf-8');
+    } else {
+      await fs.appendFile(tracePath, '', 'utf-8');
+    }
+    return tracePath;
+  }
+
+  /** Delete the session's strace output file, if any. */
+  async removeTrace(sessionName: string): Promise<void> {
+    await fs.rm(this.getPath(sessionName, TRACE_EXT), { force: true });
+  }
+
+  /** Events of one session (or all sessions), oldest first, optionally only those after `since`. */
+  async read(sessionName?: string, since?: Date): Promise<SandboxEvent[]> {
+    const events: SandboxEvent[] = [];
+    for (const file of await this.listFiles(sessionName)) {
+      let content: string;
+      try {
+        content = await fs.readFile(file, 'utf-8');
+      } catch {
+        continue;
+      }
+      events.push(...parseLines(file, content));
+    }
+    return events
+      .filter((e) => !since || new Date(e.timestamp) > since)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  /**
+   * Call `onEvent` for each event appended from now on, until the returned
+   * function is called.
+   */
+  follow(sessionName: string | undefined, onEvent: (event: SandboxEvent) => void): () => void {
+    const offsets = new Map<string, number>();
+    const partial = new Map<string, string>();
+    let stopped = false;
+
+    const poll = async (initial: boolean): Promise<void> => {
+      for (const file of await this.listFiles(sessionName)) {
+        let size: number;
+        try {
+          size = (await fs.stat(file)).size;
+        } catch {
+          continue;
+        }
+        const offset = offsets.get(file) ?? (initial ? size : 0);
+        offsets.set(file, size);
+        if (size <= offset) continue;
+
+        const handle = await fs.open(file, 'r');
+        try {
+          const buffer = Buffer.alloc(size - offset);
+          await handle.read(buffer, 0, buffer.length, offset);
+          const text = (partial.get(file) ?? '') + buffer.toString('utf-8');
+          const cut = text.lastIndexOf('\n') + 1;
+          partial.set(file, text.slice(cut));
+          for (const event of parseLines(file, text.slice(0, cut))) {
+            if (!stopped) onEvent(event);
+          }
+        } finally {
+          await handle.close();
+        }
+      }
+    };
+
+    let polling = poll(true).catch((err) => logger.debug(`Sandbox event log poll failed: ${err}`));
+    const timer = setInterval(() => {
+      polling = polling
+        .then(() => (stopped ? undefined : poll(false)))
+        .catch((err) => logger.debug(`Sandbox event log poll failed: ${err}`));
+    }, FOLLOW_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }
+
+  private async listFiles(sessionName?: string): Promise<string[]> {
+    if (sessionName !== undefined) {
+      return [this.getPath(sessionName, EVENTS_EXT), this.getPath(sessionName, TRACE_EXT)];
+    }
+    try {
+      return (await fs.readdir(this.dir))
+        .filter((name) => name.endsWith(EVENTS_EXT) || name.endsWith(TRACE_EXT))
+        .map((name) => path.join(this.dir, name));
+    } catch {
+      return [];
+    }
+  }
+
+  private getPath(sessionName: string, ext: string): string {
+    return path.join(this.dir, `${sessionName.replace(/[^a-zA-Z0-9_-]/g, '_')}${ext}`);
+  }
+}
+
+function parseLines(file: string, content: string): SandboxEvent[] {
+  const events: SandboxEvent[] = [];
+  const isTrace = file.endsWith(TRACE_EXT);
+  // strace knows nothing of sessions; the file name is the (sanitized) session name
+  const traceSession = path.basename(file, TRACE_EXT);
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    if (isTrace) {
+      const entry = parseStraceLine(line, 'bwrap');
+      if (entry) events.push({ sessionName: traceSession, ...entry });
+      continue;
+    }
+    try {
+      events.push(JSON.parse(line) as SandboxEvent);
+    } catch {
+      // Skip a line torn by a concurrent append
+    }
+  }
+  return events;
+}
@@ -0,0 +1,236 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile, spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { SandboxImageStore, parseImageSpec, renderDockerfile } from './sandbox-image.js';
+import { InvalidImageSpecError, SandboxImageBuildError } from '../utils/errors.js';
+
+vi.mock('node:child_process', () => ({
+  execFile: vi.fn(),
+  spawn: vi.fn(),
+}));
+
+const mockExecFile = vi.mocked(execFile);
+const mockSpawn = vi.mocked(spawn);
+
+/** `image inspect` succeeds only for these images. */
+function imagesPresent(...images: string[]): void {
+  mockExecFile.mockImplementation((_file: unknown, args: unknown, callback: unknown) => {
+    const image = (args as string[])[2];
+    const cb = callback as (err: Error | null, result?: { stdout: string; stderr: string }) => void;
+    if (images.includes(image)) cb(null, { stdout: '[]', stderr: '' });
+    else cb(new Error(`No such image: ${image}`));
+    return {} as ReturnType<typeof execFile>;
+  });
+}
+
+/** `build` prints `output` and exits with `exitCode`. */
+function buildExits(exitCode: number, output = ''): void {
+  mockSpawn.mockImplementation(() => {
+    const child = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter() });
+    setTimeout(() => {
+      if (output) child.stdout.emit('data', Buffer.from(output));
+      child.emit('close', exitCode);
+    }, 0);
+    return child as unknown as ReturnType<typeof spawn>;
+  });
+}
+
+describe('parseImageSpec', () => {
+  it('accepts toolchains, packages and run commands', () => {
+    expect(parseImageSpec({
+      toolchains: { node: '20', python: '3.12' },
+      packages: ['make', 'g++', 'jq=1.6-2.1'],
+      run: ['npm install -g pnpm@9'],
+    }, 'spec.json')).toEqual({
+      toolchains: { node: '20', python: '3.12' },
+      packages: ['make', 'g++', 'jq=1.6-2.1'],
+      run: ['npm install -g pnpm@9'],
+    });
+  });
+
+  it('throws InvalidImageSpecError naming the problem', () => {
+    expect(() => parseImageSpec([], 'spec.json')).toThrow(InvalidImageSpecError);
+    expect(() => parseImageSpec({ toolchain: {} }, 'spec.json')).toThrow('unknown key "toolchain"');
+    expect(() => parseImageSpec({ toolchains: { ruby: '3' } }, 'spec.json')).toThrow('unknown toolchain "ruby"');
+    expect(() => parseImageSpec({ toolchains: { node: '20; rm -rf /' } }, 'spec.json')).toThrow('"node" must be a version');
+    expect(() => parseImageSpec({ packages: ['curl && echo'] }, 'spec.json')).toThrow('"packages"');
+    expect(() => parseImageSpec({ run: ['echo a\necho b'] }, 'spec.json')).toThrow('"run"');
+  });
+});
+
+describe('renderDockerfile', () => {
+  it('copies toolchains from their official images onto the base', () => {
+    const dockerfile = renderDockerfile({ toolchains: { python: '3.12', go: '1.22', node: '20' }, packages: ['make'], run: ['go version'] });
+
+    expect(dockerfile.split('\n')).toEqual(expect.arrayContaining([
+      'FROM debian:12-slim',
+      'COPY --from=golang:1.22-bookworm /usr/local/go /usr/local/go',
+      'COPY --from=node:20-bookworm-slim /usr/local/ /usr/local/',
+      'COPY --from=python:3.12-slim-bookworm /usr/local/ /usr/local/',
+      'ENV PATH=/usr/local/go/bin:$PATH',
+      'RUN go version',
+    ]));
+    expect(dockerfile).toMatch(/apt-get install -y --no-install-recommends .*\bca-certificates git .*\bmake\b/);
+    expect(dockerfile).toContain('libsqlite3-0');
+  });
+
+  it('renders the same spec the same way whatever the key order', () => {
+    expect(renderDockerfile({ toolchains: { node: '20', go: '1.22' }, packages: ['b', 'a'] }))
+      .toBe(renderDockerfile({ packages: ['a', 'b'], toolchains: { go: '1.22', node: '20' } }));
+  });
+});
+
+describe('SandboxImageStore', () => {
+  let dir: string;
+  let store: SandboxImageStore;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-sandbox-image-test-'));
+    store = new SandboxImageStore(path.join(dir, 'images'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeSpec(spec: object): Promise<string> {
+    const specPath = path.join(dir, 'agentspawn-image.json');
+    await fs.writeFile(specPath, JSON.stringify(spec), 'utf-8');
+    return specPath;
+  }
+
+  it('tags a spec by the hash of its Dockerfile and stores the recipe', async () => {
+    const specPath = await writeSpec({ toolchains: { node: '20' } });
+
+    const recipe = await store.prepare({ spec: specPath });
+
+    expect(recipe.tag).toMatch(/^agentspawn-sandbox:[0-9a-f]{12}$/);
+    expect(recipe.kind).toBe('spec');
+    expect(recipe.source).toBe(specPath);
+    expect(await fs.readFile(recipe.dockerfile, 'utf-8')).toContain('COPY --from=node:20-bookworm-slim');
+    expect(await store.get(recipe.tag)).toEqual(recipe);
+    expect((await store.prepare({ spec: specPath })).tag).toBe(recipe.tag);
+
+    await writeSpec({ toolchains: { node: '22' } });
+    expect((await store.prepare({ spec: specPath })).tag).not.toBe(recipe.tag);
+  });
+
+  it('reports an unreadable or invalid spec as InvalidImageSpecError', async () => {
+    await expect(store.prepare({ spec: path.join(dir, 'missing.json') })).rejects.toThrow(InvalidImageSpecError);
+    await fs.writeFile(path.join(dir, 'bad.json'), '{ nope', 'utf-8');
+    await expect(store.prepare({ spec: path.join(dir, 'bad.json') })).rejects.toThrow(InvalidImageSpecError);
+  });
+
+  it('hashes a project Dockerfile with its build context, minus .dockerignore', async () => {
+    const project = path.join(dir, 'project');
+    await fs.mkdir(path.join(project, 'dist'), { recursive: true });
+    await fs.writeFile(path.join(project, 'Dockerfile'), 'FROM debian:12-slim\nCOPY tools.txt /\n', 'utf-8');
+    await fs.writeFile(path.join(project, '.dockerignore'), 'dist/\n', 'utf-8');
+    await fs.writeFile(path.join(project, 'tools.txt'), 'v1', 'utf-8');
+
+    const first = await store.prepare({ dockerfile: path.join(project, 'Dockerfile') });
+    expect(first.kind).toBe('dockerfile');
+    expect(first.context).toBe(project);
+
+    await fs.writeFile(path.join(project, 'dist', 'bundle.js'), 'ignored', 'utf-8');
+    expect((await store.prepare({ dockerfile: path.join(project, 'Dockerfile') })).tag).toBe(first.tag);
+
+    await fs.writeFile(path.join(project, 'tools.txt'), 'v2', 'utf-8');
+    expect((await store.prepare({ dockerfile: path.join(project, 'Dockerfile') })).tag).not.toBe(first.tag);
+  });
+
+  it('builds with the runtime, tagging the image and streaming output', async () => {
+    const recipe = await store.prepare({ spec: await writeSpec({}) });
+    imagesPresent();
+    buildExits(0, 'Step 1/3 : FROM debian:12-slim\n');
+    const output: string[] = [];
+
+    expect(await store.build('podman', recipe, { onOutput: (chunk) => output.push(chunk) })).toBe(true);
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      'podman',
+      ['build', '--tag', recipe.tag, '--file', recipe.dockerfile, recipe.context],
+      expect.anything(),
+    );
+    expect(output).toEqual(['Step 1/3 : FROM debian:12-slim\n']);
+  });
+
+  it('skips the build when the image exists unless forced', async () => {
+    const recipe = await store.prepare({ spec: await writeSpec({}) });
+    imagesPresent(recipe.tag);
+    buildExits(0);
+
+    expect(await store.build('docker', recipe)).toBe(false);
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(await store.build('docker', recipe, { force: true })).toBe(true);
+  });
+
+  it('throws SandboxImageBuildError with the end of the output when the build fails', async () => {
+    const recipe = await store.prepare({ spec: await writeSpec({ packages: ['nosuchpkg'] }) });
+    imagesPresent();
+    buildExits(100, 'E: Unable to locate package nosuchpkg\n');
+
+    const err = await store.build('docker', recipe).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(SandboxImageBuildError);
+    expect((err as Error).message).toContain('Unable to locate package nosuchpkg');
+  });
+
+  describe('ensure()', () => {
+    it('rebuilds a missing image from its recipe', async () => {
+      const recipe = await store.prepare({ spec: await writeSpec({}) });
+      imagesPresent();
+      buildExits(0);
+
+      await store.ensure('docker', recipe.tag);
+
+      expect(mockSpawn).toHaveBeenCalledWith('docker', expect.arrayContaining(['build', '--tag', recipe.tag]), expect.anything());
+    });
+
+    it('refuses to rebuild a Dockerfile image whose build context changed', async () => {
+      const project = path.join(dir, 'project');
+      await fs.mkdir(project);
+      await fs.writeFile(path.join(project, 'Dockerfile'), 'FROM debian:12-slim\nCOPY tools.txt /\n', 'utf-8');
+      await fs.writeFile(path.join(project, 'tools.txt'), 'v1', 'utf-8');
+      const recipe = await store.prepare({ dockerfile: path.join(project, 'Dockerfile') });
+      imagesPresent();
+      buildExits(0);
+
+      await fs.writeFile(path.join(project, 'tools.txt'), 'v2', 'utf-8');
+      await expect(store.ensure('docker', recipe.tag)).rejects.toThrow('changed since it was built');
+      expect(mockSpawn).not.toHaveBeenCalled();
+
+      await fs.writeFile(path.join(project, 'tools.txt'), 'v1', 'utf-8');
+      await store.ensure('docker', recipe.tag);
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves present and unmanaged images alone', async () => {
+      const recipe = await store.prepare({ spec: await writeSpec({}) });
+      imagesPresent(recipe.tag);
+
+      await store.ensure('docker', recipe.tag);
+      await store.ensure('docker', 'debian:12-slim');
+
+      expect(mockSpawn).not.toHaveBeenCalled();
+      expect(mockExecFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws when a managed image has no recipe', async () => {
+      imagesPresent();
+
+      await expect(store.ensure('docker', 'agentspawn-sandbox:000000000000')).rejects.toThrow(SandboxImageBuildError);
+    });
+  });
+
+  it('lists recipes newest first', async () => {
+    const older = await store.prepare({ spec: await writeSpec({ toolchains: { go: '1.22' } }) });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const newer = await store.prepare({ spec: await writeSpec({ toolchains: { go: '1.23' } }) });
+
+    expect((await store.list()).map((r) => r.tag)).toEqual([newer.tag, older.tag]);
+  });
+});
@@ -0,0 +1,393 @@
+import { createHash } from 'node:crypto';
+import { execFile, spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { hashFile, listFiles, parseIgnorePatterns } from './sandbox-diff.js';
+import { InvalidImageSpecError, SandboxImageBuildError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Repository of every image built from a recipe; the tag is the content hash. */
+export const SANDBOX_IMAGE_REPOSITORY = 'agentspawn-sandbox';
+/** Spec file `sandbox image build` reads when given neither a spec nor a Dockerfile. */
+export const DEFAULT_IMAGE_SPEC_FILE = 'agentspawn-image.json';
+export const DEFAULT_BASE_IMAGE = 'debian:12-slim';
+
+/** Always installed on top of the base image: agents clone and fetch over HTTPS. */
+const BASE_PACKAGES = ['ca-certificates', 'git'];
+
+/** Lines of build output kept for the error message when a build fails. */
+const BUILD_OUTPUT_TAIL = 20;
+
+/**
+ * Declarative description of an image (agentspawn-image.json):
+ *
+ *   { "toolchains": { "node": "20", "python": "3.12" },
+ *     "packages": ["make", "g++"],
+ *     "run": ["npm install -g pnpm@9"] }
+ */
+export interface SandboxImageSpec {
+  /** Debian 12 based image to start from. Default: debian:12-slim. */
+  base?: string;
+  /** Toolchain name to version, e.g. `{ "node": "20" }`. */
+  toolchains?: Partial<Record<ToolchainName, string>>;
+  /** Extra Debian packages, `name` or `name=version`. */
+  packages?: string[];
+  /** Shell commands run as root after everything is installed, one layer each. */
+  run?: string[];
+}
+
+export type ToolchainName = keyof typeof TOOLCHAINS;
+
+interface Toolchain {
+  /** Official Debian 12 image the toolchain is copied from. */
+  image: (version: string) => string;
+  /** Directory copied from that image; the same path in ours. */
+  copy: string;
+  /** Prepended to PATH. */
+  bin?: string;
+  /** Shared libraries the copied binaries link against. */
+  packages: string[];
+}
+
+/**
+ * Toolchains are copied out of their official images rather than installed
+ * from distribution packages, so any version those images publish works.
+ * All of them are built on Debian 12, which is why the base must be too.
+ */
+const TOOLCHAINS = {
+  node: {
+    image: (v: string) => `node:${v}-bookworm-slim`,
+    copy: '/usr/local/',
+    packages: [],
+  },
+  python: {
+    image: (v: string) => `python:${v}-slim-bookworm`,
+    copy: '/usr/local/',
+    packages: [
+      'libbz2-1.0', 'libexpat1', 'libffi8', 'libgdbm6', 'liblzma5', 'libncursesw6',
+      'libreadline8', 'libsqlite3-0', 'libssl3', 'libuuid1', 'netbase', 'tzdata', 'zlib1g',
+    ],
+  },
+  go: {
+    image: (v: string) => `golang:${v}-bookworm`,
+    copy: '/usr/local/go',
+    bin: '/usr/local/go/bin',
+    packages: [],
+  },
+} satisfies Record<string, Toolchain>;
+
+const SPEC_KEYS = ['base', 'toolchains', 'packages', 'run'];
+const IMAGE_REF = /^[a-z0-9][\w.\-/:@]*$/i;
+const TOOLCHAIN_VERSION = /^[\w.-]+$/;
+const PACKAGE = /^[a-z0-9][a-z0-9+.-]*(=[\w.+:~-]+)?$/;
+
+/** Where an image comes from: a toolchain spec, or a project Dockerfile and its build context. */
+export type SandboxImageSource =
+  | { spec: string }
+  | { dockerfile: string; context?: string };
+
+/** Everything needed to build an image again, stored under <imagesDir>/<hash>/. */
+export interface SandboxImageRecipe {
+  version: number;
+  /** `agentspawn-sandbox:<hash>`. */
+  tag: string;
+  /** The spec or Dockerfile the recipe was made from. */
+  source: string;
+  kind: 'spec' | 'dockerfile';
+  /** The Dockerfile to build: generated from the spec, or a copy of the project's. */
+  dockerfile: string;
+  /** Build context; the recipe directory for specs. */
+  context: string;
+  createdAt: string;
+}
+
+export interface SandboxImageBuildOptions {
+  /** Build even when the image already exists. */
+  force?: boolean;
+  /** Receives build output as it is produced. */
+  onOutput?: (chunk: string) => void;
+}
+
+/** Validate a parsed agentspawn-image.json; `source` names it in errors. */
+export function parseImageSpec(value: unknown, source: string): SandboxImageSpec {
+  const fail = (reason: string): never => {
+    throw new InvalidImageSpecError(source, reason);
+  };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('must be a JSON object');
+  const raw = value as Record<string, unknown>;
+
+  const unknownKey = Object.keys(raw).find((key) => !SPEC_KEYS.includes(key));
+  if (unknownKey) fail(`unknown key "${unknownKey}" (expected ${SPEC_KEYS.join(', ')})`);
+
+  const spec: SandboxImageSpec = {};
+  if (raw.base !== undefined) {
+    if (typeof raw.base !== 'string' || !IMAGE_REF.test(raw.base)) fail('"base" must be an image reference');
+    spec.base = raw.base as string;
+  }
+  if (raw.toolchains !== undefined) {
+    if (typeof raw.toolchains !== 'object' || raw.toolchains === null || Array.isArray(raw.toolchains)) {
+      fail('"toolchains" must map toolchain names to versions');
+    }
+    spec.toolchains = {};
+    for (const [name, version] of Object.entries(raw.toolchains as Record<string, unknown>)) {
+      if (!(name in TOOLCHAINS)) fail(`unknown toolchain "${name}" (expected ${Object.keys(TOOLCHAINS).join(', ')})`);
+      if (typeof version !== 'string' || !TOOLCHAIN_VERSION.test(version)) fail(`"${name}" must be a version such as "20"`);
+      spec.toolchains[name as ToolchainName] = version as string;
+    }
+  }
+  if (raw.packages !== undefined) {
+    if (!Array.isArray(raw.packages) || raw.packages.some((p) => typeof p !== 'string' || !PACKAGE.test(p))) {
+      fail('"packages" must be a list of Debian package names');
+    }
+    spec.packages = raw.packages as string[];
+  }
+  if (raw.run !== undefined) {
+    if (!Array.isArray(raw.run) || raw.run.some((c) => typeof c !== 'string' || !c.trim() || c.includes('\n'))) {
+      fail('"run" must be a list of single-line shell commands');
+    }
+    spec.run = raw.run as string[];
+  }
+  return spec;
+}
+
+/** The Dockerfile for a spec. The same spec always renders the same text, which is what is hashed. */
+export function renderDockerfile(spec: SandboxImageSpec): string {
+  const toolchains = Object.entries(spec.toolchains ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, version]) => ({ ...(TOOLCHAINS[name as ToolchainName] as Toolchain), version }));
+  const packages = [...new Set([
+    ...BASE_PACKAGES,
+    ...toolchains.flatMap((t) => t.packages),
+    ...(spec.packages ?? []),
+  ])].sort();
+  const bins = toolchains.flatMap((t) => (t.bin ? [t.bin] : []));
+
+  const lines = [
+    '# Generated by agentspawn sandbox image build',
+    `FROM ${spec.base ?? DEFAULT_BASE_IMAGE}`,
+    ...toolchains.map((t) => `COPY --from=${t.image(t.version)} ${t.copy} ${t.copy}`),
+    ...(bins.length > 0 ? [`ENV PATH=${bins.join(':')}:$PATH`] : []),
+    'RUN apt-get update \\',
+    ` && apt-get install -y --no-install-recommends ${packages.join(' ')} \\`,
+    ' && rm -rf /var/lib/apt/lists/* \\',
+    ' && ldconfig',
+    ...(spec.run ?? []).map((command) => `RUN ${command}`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+export function isManagedImage(image: string): boolean {
+  return image.startsWith(`${SANDBOX_IMAGE_REPOSITORY}:`);
+}
+
+/** Podman if it is usable, else Docker; null when neither is. */
+export async function detectImageBuilder(): Promise<'docker' | 'podman' | null> {
+  for (const binary of ['podman', 'docker'] as const) {
+    try {
+      await execFileAsync(binary, ['info']);
+      return binary;
+    } catch {
+      // Not installed or not running
+    }
+  }
+  return null;
+}
+
+/**
+ * SandboxImageStore — local images with project toolchains for Docker and
+ * Podman sandboxes.
+ *
+ * prepare() turns a spec or a project Dockerfile into a recipe tagged with
+ * the hash of its content (for a Dockerfile, including the build context
+ * minus .dockerignore), so an unchanged source maps to an image that is
+ * already built. Recipes are kept under <imagesDir>/<hash>/, which lets
+ * ensure() rebuild an image someone pruned, or one built with the other
+ * container runtime, when a session needs it.
+ */
+export class SandboxImageStore {
+  constructor(private readonly imagesDir: string) {}
+
+  async prepare(source: SandboxImageSource): Promise<SandboxImageRecipe> {
+    if ('spec' in source) {
+      const specPath = path.resolve(source.spec);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(specPath, 'utf-8'));
+      } catch (err) {
+        throw new InvalidImageSpecError(specPath, (err as Error).message);
+      }
+      const dockerfile = renderDockerfile(parseImageSpec(parsed, specPath));
+      const hash = createHash('sha256').update('spec\0').update(dockerfile).digest('hex');
+      const dir = this.getRecipeDir(hash);
+      return this.writeRecipe(dir, dockerfile, {
+        tag: tagFor(hash), source: specPath, kind: 'spec', context: dir,
+      });
+    }
+
+    const dockerfilePath = path.resolve(source.dockerfile);
+    const context = path.resolve(source.context ?? path.dirname(dockerfilePath));
+    let dockerfile: string;
+    try {
+      dockerfile = await fs.readFile(dockerfilePath, 'utf-8');
+    } catch (err) {
+      throw new InvalidImageSpecError(dockerfilePath, (err as Error).message);
+    }
+    const digest = await dockerfileDigest(dockerfile, context);
+    return this.writeRecipe(this.getRecipeDir(digest), dockerfile, {
+      tag: tagFor(digest), source: dockerfilePath, kind: 'dockerfile', context,
+    });
+  }
+
+  /** Build the recipe's image unless it already exists; returns whether it was built. */
+  async build(
+    binary: 'docker' | 'podman',
+    recipe: SandboxImageRecipe,
+    options: SandboxImageBuildOptions = {},
+  ): Promise<boolean> {
+    if (!options.force && (await imageExists(binary, recipe.tag))) {
+      logger.debug(`Sandbox image ${recipe.tag} is already built`);
+      return false;
+    }
+
+    const args = ['build', '--tag', recipe.tag, '--file', recipe.dockerfile, recipe.context];
+    const tail: string[] = [];
+    const exitCode = await new Promise<number | null>((resolve, reject) => {
+      const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const onData = (chunk: Buffer): void => {
+        const text = chunk.toString();
+        options.onOutput?.(text);
+        tail.push(...text.split('\n').filter(Boolean));
+        tail.splice(0, Math.max(0, tail.length - BUILD_OUTPUT_TAIL));
+      };
+      child.stdout?.on('data', onData);
+      child.stderr?.on('data', onData);
+      child.on('error', reject);
+      child.on('close', resolve);
+    }).catch((err: Error) => {
+      throw new SandboxImageBuildError(recipe.tag, `could not run ${binary}: ${err.message}`, err);
+    });
+
+    if (exitCode !== 0) {
+      throw new SandboxImageBuildError(recipe.tag, `${binary} build exited with ${exitCode}\n${tail.join('\n')}`);
+    }
+    logger.debug(`Built sandbox image ${recipe.tag} from ${recipe.source}`);
+    return true;
+  }
+
+  /**
+   * Make sure `image` exists for `binary`, building it from its recipe when
+   * it does not. Images not built by this store are left to the runtime.
+   * A Dockerfile recipe is only rebuilt while its build context still hashes
+   * to the tag; otherwise the image would no longer match its name.
+   */
+  async ensure(binary: 'docker' | 'podman', image: string, options: SandboxImageBuildOptions = {}): Promise<void> {
+    if (!isManagedImage(image) || (await imageExists(binary, image))) return;
+    const recipe = await this.get(image);
+    if (!recipe) {
+      throw new SandboxImageBuildError(image, 'no recipe for it; run `agentspawn sandbox image build` again');
+    }
+    if (recipe.kind === 'dockerfile') {
+      const dockerfile = await fs.readFile(recipe.dockerfile, 'utf-8');
+      const digest = await dockerfileDigest(dockerfile, recipe.context).catch(() => null);
+      if (!digest || tagFor(digest) !== image) {
+        throw new SandboxImageBuildError(
+          image,
+          `its build context ${recipe.context} changed since it was built; run \`agentspawn sandbox image build\` again and use the new tag`,
+        );
+      }
+    }
+    logger.info(`Sandbox image ${image} is missing; building it from ${recipe.source}`);
+    await this.build(binary, recipe, options);
+  }
+
+  /** The recipe for a tag, or undefined if this store did not make it. */
+  async get(tag: string): Promise<SandboxImageRecipe | undefined> {
+    if (!isManagedImage(tag)) return undefined;
+    const hash = tag.slice(SANDBOX_IMAGE_REPOSITORY.length + 1);
+    if (!/^[0-9a-f]+$/.test(hash)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.getRecipeDir(hash), 'recipe.json'), 'utf-8')) as SandboxImageRecipe;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** All recipes, newest first. */
+  async list(): Promise<SandboxImageRecipe[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.imagesDir);
+    } catch {
+      return [];
+    }
+    const recipes: SandboxImageRecipe[] = [];
+    for (const hash of entries) {
+      const recipe = await this.get(tagFor(hash));
+      if (recipe) recipes.push(recipe);
+    }
+    return recipes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async writeRecipe(
+    dir: string,
+    dockerfile: string,
+    fields: Pick<SandboxImageRecipe, 'tag' | 'source' | 'kind' | 'context'>,
+  ): Promise<SandboxImageRecipe> {
+    const existing = await this.get(fields.tag);
+    if (existing) return existing;
+
+    await fs.mkdir(dir, { recursive: true });
+    const recipe: SandboxImageRecipe = {
+      version: 1,
+      ...fields,
+      dockerfile: path.join(dir, 'Dockerfile'),
+      createdAt: new Date().toISOString(),
+    };
+    await fs.writeFile(recipe.dockerfile, dockerfile, 'utf-8');
+    // Write atomically: write to .tmp then rename
+    const recipePath = path.join(dir, 'recipe.json');
+    await fs.writeFile(recipePath + '.tmp', JSON.stringify(recipe, null, 2), 'utf-8');
+    await fs.rename(recipePath + '.tmp', recipePath);
+    return recipe;
+  }
+
+  private getRecipeDir(hash: string): string {
+    return path.join(this.imagesDir, hash.slice(0, 12));
+  }
+}
+
+function tagFor(hash: string): string {
+  return `${SANDBOX_IMAGE_REPOSITORY}:${hash.slice(0, 12)}`;
+}
+
+async function imageExists(binary: 'docker' | 'podman', image: string): Promise<boolean> {
+  return execFileAsync(binary, ['image', 'inspect', image]).then(() => true, () => false);
+}
+
+/** Content hash of a Dockerfile build: the Dockerfile plus every file of its context. */
+async function dockerfileDigest(dockerfile: string, context: string): Promise<string> {
+  const hash = createHash('sha256').update('dockerfile\0').update(dockerfile);
+  for (const [rel, fileHash] of await hashContext(context)) {
+    hash.update(`${rel}\0${fileHash}\0`);
+  }
+  return hash.digest('hex');
+}
+
+/** Path and hash of every file a build of `context` would send, honouring .dockerignore. */
+async function hashContext(context: string): Promise<Array<[string, string]>> {
+  let patterns = ['.git/'];
+  try {
+    patterns = [...patterns, ...(await fs.readFile(path.join(context, '.dockerignore'), 'utf-8')).split('\n')];
+  } catch {
+    // No .dockerignore
+  }
+  const rules = parseIgnorePatterns(patterns);
+  const hashes: Array<[string, string]> = [];
+  for (const rel of await listFiles(context, rules)) {
+    hashes.push([rel, await hashFile(path.join(context, rel))]);
+  }
+  return hashes;
+}
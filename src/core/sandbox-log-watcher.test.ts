@@ -2,7 +2,7 @@ import { PassThrough } from 'node:stream';
 import { EventEmitter } from 'node:events';
 import { ChildProcess } from 'node:child_process';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { SandboxLogWatcher } from './sandbox-log-watcher.js';
+import { SandboxLogWatcher, parseJournalLine, parseStraceLine } from './sandbox-log-watcher.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -73,13 +73,23 @@ describe('SandboxLogWatcher', () => {
       expect(SandboxLogWatcher.isPlatformSupported()).toBe(true);
     });
 
-    it('should return false when process.platform is linux', () => {
+    it('should return true when process.platform is linux', () => {
       Object.defineProperty(process, 'platform', {
         value: 'linux',
         configurable: true,
         writable: false,
       });
 
+      expect(SandboxLogWatcher.isPlatformSupported()).toBe(true);
+    });
+
+    it('should return false when process.platform is win32', () => {
+      Object.defineProperty(process, 'platform', {
+        value: 'win32',
+        configurable: true,
+        writable: false,
+      });
+
       expect(SandboxLogWatcher.isPlatformSupported()).toBe(false);
     });
   });
@@ -270,10 +280,10 @@ describe('SandboxLogWatcher', () => {
   });
 
   // -------------------------------------------------------------------------
-  // start() — throws on non-darwin
+  // start() — throws on unsupported platforms
   // -------------------------------------------------------------------------
 
-  describe('start() — throws on non-darwin', () => {
+  describe('start() — throws on unsupported platforms', () => {
     let originalPlatform: PropertyDescriptor | undefined;
 
     beforeEach(() => {
@@ -286,9 +296,9 @@ describe('SandboxLogWatcher', () => {
       }
     });
 
-    it('should throw when process.platform is linux', () => {
+    it('should throw when process.platform is win32', () => {
       Object.defineProperty(process, 'platform', {
-        value: 'linux',
+        value: 'win32',
         configurable: true,
         writable: false,
       });
@@ -299,9 +309,9 @@ describe('SandboxLogWatcher', () => {
       expect(() => watcher.start()).toThrow();
     });
 
-    it('should not call spawnFn when platform is not darwin', () => {
+    it('should not call spawnFn when platform is unsupported', () => {
       Object.defineProperty(process, 'platform', {
-        value: 'linux',
+        value: 'win32',
         configurable: true,
         writable: false,
       });
@@ -494,4 +504,122 @@ describe('SandboxLogWatcher', () => {
       expect(spawnFn).toHaveBeenCalledTimes(2);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Linux — kernel audit records from the journal
+  // -------------------------------------------------------------------------
+
+  describe('Linux', () => {
+    const APPARMOR_RECORD = JSON.stringify({
+      __REALTIME_TIMESTAMP: '1772157148123456',
+      _TRANSPORT: 'audit',
+      MESSAGE: 'AVC apparmor="DENIED" operation="mkdir" class="file" profile="docker-default" name="/sys/fs/cgroup/x/" pid=4321 comm="sh" requested_mask="c" denied_mask="c"',
+    });
+
+    beforeEach(() => {
+      Object.defineProperty(process, 'platform', { value: 'linux', configurable: true });
+    });
+
+    it('should follow kernel and audit records from journalctl as JSON', () => {
+      const spawnFn = vi.fn().mockReturnValue(makeMockChild());
+      new SandboxLogWatcher({ spawnFn }).start();
+
+      expect(spawnFn.mock.calls[0][0]).toBe('journalctl');
+      expect(spawnFn.mock.calls[0][1]).toEqual([
+        '--follow', '--lines', '0', '--output', 'json', '--no-pager', '_TRANSPORT=kernel', '_TRANSPORT=audit',
+      ]);
+    });
+
+    it('should pass past as a relative --since in historical mode', () => {
+      const spawnFn = vi.fn().mockReturnValue(makeMockChild());
+      new SandboxLogWatcher({ spawnFn, past: '5m' }).start();
+
+      const args = spawnFn.mock.calls[0][1] as string[];
+      expect(args.slice(0, 2)).toEqual(['--since', '-5m']);
+      expect(args).not.toContain('--follow');
+    });
+
+    it('should parse journal records through parseLine()', () => {
+      const entry = new SandboxLogWatcher({}).parseLine(APPARMOR_RECORD);
+
+      expect(entry).toEqual({
+        timestamp: '2026-02-27T01:52:28.123Z',
+        processName: 'sh',
+        pid: 4321,
+        operation: 'deny(apparmor)',
+        path: 'mkdir /sys/fs/cgroup/x/',
+        raw: JSON.parse(APPARMOR_RECORD).MESSAGE,
+      });
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseJournalLine()
+// ---------------------------------------------------------------------------
+
+describe('parseJournalLine()', () => {
+  function record(message: string): string {
+    return JSON.stringify({ __REALTIME_TIMESTAMP: '1772157148000000', MESSAGE: message });
+  }
+
+  it('should parse SELinux AVC denials', () => {
+    const entry = parseJournalLine(record(
+      'audit: type=1400 audit(1772157148.000:77): avc:  denied  { write } for  pid=99 comm="node" name="etc" dev="overlay" ino=12 scontext=system_u:system_r:container_t:s0:c1,c2 tcontext=system_u:object_r:etc_t:s0 tclass=dir permissive=0',
+    ));
+
+    expect(entry).toMatchObject({ processName: 'node', pid: 99, operation: 'deny(selinux)', path: 'write etc' });
+  });
+
+  it('should parse seccomp records', () => {
+    const entry = parseJournalLine(record(
+      'audit: type=1326 audit(1772157148.000:78): auid=1000 uid=1000 gid=1000 ses=2 pid=77 comm="unshare" exe="/usr/bin/unshare" sig=31 arch=c000003e syscall=272 compat=0 ip=0x7f code=0x0',
+    ));
+
+    expect(entry).toMatchObject({ processName: 'unshare', pid: 77, operation: 'deny(seccomp)', path: 'syscall=272' });
+  });
+
+  it('should return null for records that are not denials, and for malformed lines', () => {
+    expect(parseJournalLine(record('apparmor="ALLOWED" operation="open" name="/etc/hosts" pid=1 comm="sh"'))).toBeNull();
+    expect(parseJournalLine(record('usb 1-1: new high-speed USB device'))).toBeNull();
+    expect(parseJournalLine('not json')).toBeNull();
+    expect(parseJournalLine(JSON.stringify({ MESSAGE: [1, 2, 3], __REALTIME_TIMESTAMP: '1' }))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseStraceLine()
+// ---------------------------------------------------------------------------
+
+describe('parseStraceLine()', () => {
+  it('should turn a write refused by a read-only mount into an entry', () => {
+    const line = '42 1772157148.123456 openat(AT_FDCWD, "/etc/hosts", O_WRONLY|O_CREAT|O_TRUNC, 0666) = -1 EROFS (Read-only file system)';
+
+    expect(parseStraceLine(line, 'bwrap')).toEqual({
+      timestamp: '2026-02-27T01:52:28.123Z',
+      processName: 'bwrap',
+      pid: 42,
+      operation: 'deny(EROFS)',
+      path: 'openat /etc/hosts',
+      raw: line,
+    });
+  });
+
+  it('should report the address of refused connections', () => {
+    const line = '7 1772157148.000001 connect(3, {sa_family=AF_INET, sin_port=htons(443), sin_addr=inet_addr("93.184.216.34")}, 16) = -1 EACCES (Permission denied)';
+
+    expect(parseStraceLine(line, 'bwrap')?.path).toBe('connect 93.184.216.34:443');
+  });
+
+  it('should parse resumed syscalls and lines without a pid prefix', () => {
+    expect(parseStraceLine('9 1772157148.5 <... mkdir resumed>) = -1 EPERM (Operation not permitted)', 'bwrap'))
+      .toMatchObject({ pid: 9, operation: 'deny(EPERM)', path: 'mkdir' });
+    expect(parseStraceLine('1772157148.5 unlink("/usr/bin/x") = -1 EACCES (Permission denied)', 'bwrap'))
+      .toMatchObject({ pid: 0, path: 'unlink /usr/bin/x' });
+  });
+
+  it('should ignore failures a sandbox does not cause', () => {
+    expect(parseStraceLine('42 1772157148.1 openat(AT_FDCWD, "/nope", O_RDONLY) = -1 ENOENT (No such file or directory)', 'bwrap')).toBeNull();
+    expect(parseStraceLine('42 1772157148.1 +++ exited with 0 +++', 'bwrap')).toBeNull();
+  });
 });
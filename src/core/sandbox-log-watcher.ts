@@ -10,11 +10,24 @@ export interface SandboxLogEntry {
 }
 
 export interface SandboxLogWatcherOptions {
-  pid?: number;      // filter to this PID; if absent or 0, no filter
-  past?: string;     // "5m", "1h" etc → historical mode via log show --last
+  pid?: number;      // filter to this PID; if absent or 0, no filter (macOS only)
+  past?: string;     // "5m", "1h" etc → historical mode via log show --last / journalctl --since
   spawnFn?: typeof spawn; // injectable for testing; defaults to node:child_process spawn
 }
 
+/** Errors that mean a sandbox refused the operation, as opposed to it simply failing. */
+const DENIAL_ERRNOS = new Set(['EACCES', 'EPERM', 'EROFS']);
+
+/**
+ * SandboxLogWatcher — streams or replays the OS's record of sandbox denials.
+ *
+ * On macOS that is the unified log (`log stream` / `log show`) for the
+ * com.apple.sandbox subsystem. On Linux it is the kernel audit records in the
+ * journal: AppArmor and SELinux denials and seccomp actions, which is where
+ * Podman and Docker containers' blocked operations end up. Kernel records
+ * carry host PIDs, so the pid filter does not apply on Linux. Denials inside
+ * bwrap never reach the kernel log; see parseStraceLine().
+ */
 export class SandboxLogWatcher {
   private readonly pid: number;
   private readonly past: string;
@@ -28,24 +41,21 @@ export class SandboxLogWatcher {
   }
 
   static isPlatformSupported(): boolean {
-    return process.platform === 'darwin';
+    return process.platform === 'darwin' || process.platform === 'linux';
   }
 
   start(): ChildProcess {
     if (!SandboxLogWatcher.isPlatformSupported()) {
-      throw new Error('SandboxLogWatcher is only supported on macOS (darwin)');
+      throw new Error('SandboxLogWatcher is only supported on macOS (darwin) and Linux');
     }
 
     if (this.child !== null) {
       this.stop();
     }
 
-    const predicate = this.buildPredicate();
-    const args = this.buildArgs(predicate);
-
-    const child = this.spawnFn('log', args, {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
+    const child = process.platform === 'linux'
+      ? this.spawnFn('journalctl', this.buildJournalArgs(), { stdio: ['ignore', 'pipe', 'pipe'] })
+      : this.spawnFn('log', this.buildArgs(this.buildPredicate()), { stdio: ['ignore', 'pipe', 'pipe'] });
 
     this.child = child;
 
@@ -72,6 +82,10 @@ export class SandboxLogWatcher {
   }
 
   parseLine(line: string): SandboxLogEntry | null {
+    if (process.platform === 'linux') {
+      return parseJournalLine(line);
+    }
+
     if (!line.includes('(Sandbox)')) {
       return null;
     }
@@ -99,6 +113,20 @@ export class SandboxLogWatcher {
     return ['stream', '--style', 'syslog', '--predicate', predicate, '--level', 'debug'];
   }
 
+  /**
+   * Kernel and audit transport records as JSON, one per line. Both are
+   * matched because journald receives audit records directly when auditd
+   * is not running, and through the kernel log otherwise.
+   */
+  private buildJournalArgs(): string[] {
+    const matches = ['_TRANSPORT=kernel', '_TRANSPORT=audit'];
+    const trimmedPast = this.past.trim();
+    if (trimmedPast.length > 0) {
+      return ['--since', `-${trimmedPast}`, '--output', 'json', '--no-pager', ...matches];
+    }
+    return ['--follow', '--lines', '0', '--output', 'json', '--no-pager', ...matches];
+  }
+
   private parseLineInternal(line: string): SandboxLogEntry | null {
     // Split on `: (Sandbox)` to isolate the left side (contains timestamp + process name)
     // and the right side (contains operation and path).
@@ -207,3 +235,98 @@ function extractPid(tokens: string[]): number | null {
 
   return null;
 }
+
+/**
+ * Parses one `journalctl --output json` record into a SandboxLogEntry if it
+ * is a denial: an AppArmor `apparmor="DENIED"`, an SELinux `avc: denied`
+ * or a seccomp record. Returns null for anything else.
+ */
+export function parseJournalLine(line: string): SandboxLogEntry | null {
+  let record: Record<string, unknown>;
+  try {
+    record = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  const message = record.MESSAGE;
+  const realtime = record.__REALTIME_TIMESTAMP;
+  if (typeof message !== 'string' || typeof realtime !== 'string') {
+    return null;
+  }
+
+  const fields = parseAuditFields(message);
+  let operation: string;
+  let path: string;
+  if (fields.apparmor === 'DENIED') {
+    operation = 'deny(apparmor)';
+    path = [fields.operation, fields.name ?? fields.profile].filter(Boolean).join(' ');
+  } else if (/avc:\s+denied/.test(message)) {
+    const permissions = /\{\s*([^}]*?)\s*\}/.exec(message)?.[1] ?? '';
+    operation = 'deny(selinux)';
+    path = [permissions, fields.path ?? fields.name].filter(Boolean).join(' ');
+  } else if (/\btype=1326\b|^SECCOMP\b/.test(message)) {
+    operation = 'deny(seccomp)';
+    path = `syscall=${fields.syscall ?? '?'}`;
+  } else {
+    return null;
+  }
+
+  const pid = parseInt(fields.pid ?? '', 10);
+  return {
+    timestamp: new Date(Math.floor(parseInt(realtime, 10) / 1000)).toISOString(),
+    processName: fields.comm ?? 'unknown',
+    pid: isNaN(pid) ? 0 : pid,
+    operation,
+    path,
+    raw: message,
+  };
+}
+
+/** key=value and key="value" pairs of an audit record. */
+function parseAuditFields(message: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const match of message.matchAll(/(\w+)=(?:"([^"]*)"|(\S+))/g)) {
+    fields[match[1]] ??= match[2] ?? match[3];
+  }
+  return fields;
+}
+
+/**
+ * Parses one line written by `strace -f -ttt -Z` into a SandboxLogEntry if
+ * the syscall failed with an error a sandbox produces (EACCES, EPERM,
+ * EROFS). bwrap denies through mount and namespace setup rather than an
+ * LSM, so this tracer output is the only record of what it blocked.
+ *
+ * Input:  `42 1772157148.123456 openat(AT_FDCWD, "/etc/hosts", O_WRONLY|O_CREAT, 0666) = -1 EROFS (Read-only file system)`
+ *
+ * PIDs are those inside the sandbox's PID namespace.
+ */
+export function parseStraceLine(line: string, processName: string): SandboxLogEntry | null {
+  const match = /^(?:(\d+)\s+)?(\d+\.\d+)\s+(?:<\.\.\.\s+)?(\w+)(?:\(| resumed>)(.*)\s=\s-1\s([A-Z]+)\b/.exec(line.trim());
+  if (!match) {
+    return null;
+  }
+  const [, pid, seconds, syscall, args, errno] = match;
+  if (!DENIAL_ERRNOS.has(errno)) {
+    return null;
+  }
+
+  return {
+    timestamp: new Date(Math.round(parseFloat(seconds) * 1000)).toISOString(),
+    processName,
+    pid: pid ? parseInt(pid, 10) : 0,
+    operation: `deny(${errno})`,
+    path: `${syscall} ${straceTarget(args)}`.trim(),
+    raw: line,
+  };
+}
+
+/** The address of a socket call, otherwise the first path argument. */
+function straceTarget(args: string): string {
+  const port = /sin6?_port=htons\((\d+)\)/.exec(args)?.[1];
+  const address = /inet_addr\("([^"]+)"\)|inet_pton\(AF_INET6, "([^"]+)"/.exec(args);
+  if (port && address) {
+    return `${address[1] ?? address[2]}:${port}`;
+  }
+  return /"((?:[^"\\]|\\.)*)"/.exec(args)?.[1] ?? '';
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import os from 'node:os';
+import path from 'node:path';
+import { mergeMountPolicies, parseMountPolicy, resolveMountPath } from './sandbox-mounts.js';
+import { InvalidMountPolicyError } from '../utils/errors.js';
+
+describe('resolveMountPath', () => {
+  it('expands ~ and normalizes', () => {
+    expect(resolveMountPath('~/.npm/')).toBe(path.join(os.homedir(), '.npm'));
+    expect(resolveMountPath('~')).toBe(os.homedir());
+    expect(resolveMountPath('/opt//sdk/../tools/')).toBe('/opt/tools');
+    expect(resolveMountPath('/')).toBe('/');
+  });
+
+  it('throws InvalidMountPolicyError for relative paths and unmountable characters', () => {
+    expect(() => resolveMountPath('node_modules')).toThrow(InvalidMountPolicyError);
+    expect(() => resolveMountPath('~user/x')).toThrow(InvalidMountPolicyError);
+    expect(() => resolveMountPath('/opt/a:b')).toThrow(InvalidMountPolicyError);
+    expect(() => resolveMountPath('/opt/"quoted"')).toThrow(InvalidMountPolicyError);
+  });
+});
+
+describe('parseMountPolicy', () => {
+  it('orders rules parents first', () => {
+    const rules = parseMountPolicy({
+      readOnly: ['/data'],
+      writable: ['/data/cache/pip', '/tmp/x'],
+      deny: ['/data/secrets'],
+    });
+
+    expect(rules).toEqual([
+      { path: '/data', access: 'read-only' },
+      { path: '/data/secrets', access: 'deny' },
+      { path: '/tmp/x', access: 'writable' },
+      { path: '/data/cache/pip', access: 'writable' },
+    ]);
+  });
+
+  it('collapses duplicates but rejects a path listed with two accesses', () => {
+    expect(parseMountPolicy({ writable: ['/a', '/a/'] })).toEqual([{ path: '/a', access: 'writable' }]);
+    expect(() => parseMountPolicy({ readOnly: ['/a'], writable: ['/a/'] }))
+      .toThrow('/a is listed as both read-only and writable');
+  });
+
+  it('rejects writing or hiding the whole filesystem', () => {
+    expect(parseMountPolicy({ readOnly: ['/'] })).toEqual([{ path: '/', access: 'read-only' }]);
+    expect(() => parseMountPolicy({ writable: ['/'] })).toThrow(InvalidMountPolicyError);
+    expect(() => parseMountPolicy({ deny: ['/'] })).toThrow(InvalidMountPolicyError);
+  });
+
+  it('protects the working directory', () => {
+    expect(() => parseMountPolicy({ deny: ['/work'] }, '/work/project')).toThrow('would hide the working directory');
+    expect(() => parseMountPolicy({ readOnly: ['/work/project'] }, '/work/project')).toThrow('always writable');
+    expect(parseMountPolicy({ readOnly: ['/work'], deny: ['/work/project-old'] }, '/work/project')).toHaveLength(2);
+  });
+});
+
+describe('mergeMountPolicies', () => {
+  it('unions each list and drops empty results', () => {
+    expect(mergeMountPolicies(
+      { writable: ['~/.npm'], deny: ['~/.aws'] },
+      undefined,
+      { writable: ['~/.npm', '~/.cache/pip'] },
+    )).toEqual({ writable: ['~/.npm', '~/.cache/pip'], deny: ['~/.aws'] });
+    expect(mergeMountPolicies(undefined, {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import os from 'node:os';
+import path from 'node:path';
+import type { SandboxMountPolicy, SandboxMountTestResult } from '../types.js';
+import { InvalidMountPolicyError } from '../utils/errors.js';
+
+export type MountAccess = SandboxMountTestResult['access'];
+
+/** One validated entry of a mount policy. */
+export interface MountRule {
+  /** Absolute, normalized, without a trailing slash. */
+  path: string;
+  access: MountAccess;
+}
+
+/**
+ * Characters that cannot be passed through every backend: `"` and
+ * parentheses break sandbox-exec profile strings, `:` and `,` break
+ * Docker/Podman volume specs.
+ */
+const UNSUPPORTED_CHARS = /["():,\n]/;
+
+/** Expand `~` and normalize; throws for relative paths and unsupported characters. */
+export function resolveMountPath(text: string): string {
+  const trimmed = text.trim();
+  const expanded = trimmed === '~' || trimmed.startsWith('~/')
+    ? path.join(os.homedir(), trimmed.slice(1))
+    : trimmed;
+  if (!path.isAbsolute(expanded)) {
+    throw new InvalidMountPolicyError(`"${text}" must be an absolute path or start with ~`);
+  }
+  if (UNSUPPORTED_CHARS.test(expanded)) {
+    throw new InvalidMountPolicyError(`"${text}" contains a character sandboxes cannot mount (" ( ) : , or a newline)`);
+  }
+  const normalized = path.normalize(expanded);
+  return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+}
+
+export function isWithin(child: string, parent: string): boolean {
+  return parent === '/' || child === parent || child.startsWith(`${parent}/`);
+}
+
+/**
+ * Validate a mount policy and turn it into rules ordered parents first, so
+ * that backends applying them in order let a nested path override its
+ * ancestor. With a working directory, rules that would hide it or make it
+ * read-only are rejected; a read-only ancestor is fine, since backends
+ * re-expose the working directory after it.
+ */
+export function parseMountPolicy(policy: SandboxMountPolicy, workingDirectory?: string): MountRule[] {
+  const byPath = new Map<string, MountRule>();
+  const lists: Array<[string[] | undefined, MountAccess]> = [
+    [policy.readOnly, 'read-only'],
+    [policy.writable, 'writable'],
+    [policy.deny, 'deny'],
+  ];
+
+  for (const [entries, access] of lists) {
+    for (const text of entries ?? []) {
+      const resolved = resolveMountPath(text);
+      const existing = byPath.get(resolved);
+      if (existing && existing.access !== access) {
+        throw new InvalidMountPolicyError(`${resolved} is listed as both ${existing.access} and ${access}`);
+      }
+      if (resolved === '/' && access !== 'read-only') {
+        throw new InvalidMountPolicyError(`the whole filesystem cannot be ${access === 'deny' ? 'denied' : 'writable'}`);
+      }
+      if (workingDirectory !== undefined && access === 'deny' && isWithin(workingDirectory, resolved)) {
+        throw new InvalidMountPolicyError(`denying ${resolved} would hide the working directory`);
+      }
+      if (workingDirectory !== undefined && access === 'read-only' && resolved === workingDirectory) {
+        throw new InvalidMountPolicyError(`${resolved} is the working directory, which is always writable`);
+      }
+      byPath.set(resolved, { path: resolved, access });
+    }
+  }
+
+  return [...byPath.values()].sort(compareMountRules);
+}
+
+/** Parents before the paths inside them. */
+export function compareMountRules(a: MountRule, b: MountRule): number {
+  return depth(a.path) - depth(b.path) || a.path.localeCompare(b.path);
+}
+
+/** Merge policies list by list, e.g. a template's with the command line's. */
+export function mergeMountPolicies(...policies: Array<SandboxMountPolicy | undefined>): SandboxMountPolicy | undefined {
+  const merged: SandboxMountPolicy = {};
+  for (const policy of policies) {
+    for (const key of ['readOnly', 'writable', 'deny'] as const) {
+      const entries = policy?.[key];
+      if (entries?.length) merged[key] = [...new Set([...(merged[key] ?? []), ...entries])];
+    }
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+function depth(p: string): number {
+  return p === '/' ? 0 : p.split('/').length - 1;
+}
@@ -0,0 +1,246 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { POOL_IDLE_TIMEOUT_MS, SandboxPool } from './sandbox-pool.js';
+import type { PoolContainerSpec, SandboxPoolData } from './sandbox-pool.js';
+import { SandboxPoolCorruptError } from '../utils/errors.js';
+
+vi.mock('node:child_process', () => ({
+  execFile: vi.fn(),
+}));
+
+const mockExecFile = vi.mocked(execFile);
+
+/**
+ * Route execFile calls to `handler`, which returns stdout or throws.
+ * `run` returns a fresh container id unless the handler says otherwise.
+ */
+function runtime(handler: (args: string[], binary: string) => string | undefined = () => undefined): void {
+  let started = 0;
+  mockExecFile.mockImplementation((file: unknown, args: unknown, callback: unknown) => {
+    const cb = callback as (err: Error | null, result?: { stdout: string; stderr: string }) => void;
+    try {
+      const argv = args as string[];
+      const stdout = handler(argv, file as string) ?? (argv[0] === 'run' ? `warm-${++started}\n` : '');
+      cb(null, { stdout, stderr: '' });
+    } catch (err) {
+      cb(err as Error);
+    }
+    return {} as ReturnType<typeof execFile>;
+  });
+}
+
+function calls(command: string): string[][] {
+  return mockExecFile.mock.calls.map((call) => call[1] as string[]).filter((args) => args[0] === command);
+}
+
+function spec(overrides: Partial<PoolContainerSpec> = {}): PoolContainerSpec {
+  return {
+    binary: 'docker',
+    runArgs: ['-v', '/work:/work:rw', '--workdir', '/work', 'debian:12-slim', 'sleep', 'infinity'],
+    image: 'debian:12-slim',
+    level: 'permissive',
+    workingDirectory: '/work',
+    ...overrides,
+  };
+}
+
+describe('SandboxPool', () => {
+  let dir: string;
+  let filePath: string;
+  let pool: SandboxPool;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-sandbox-pool-test-'));
+    filePath = path.join(dir, 'sandbox-pool.json');
+    pool = new SandboxPool(filePath, 1);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function readData(): Promise<SandboxPoolData> {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as SandboxPoolData;
+  }
+
+  it('keys specs by binary and run arguments', () => {
+    expect(SandboxPool.keyOf(spec())).toMatch(/^[0-9a-f]{16}$/);
+    expect(SandboxPool.keyOf(spec())).toBe(SandboxPool.keyOf(spec()));
+    expect(SandboxPool.keyOf(spec({ binary: 'podman' }))).not.toBe(SandboxPool.keyOf(spec()));
+    expect(SandboxPool.keyOf(spec({ runArgs: ['--memory', '512m', 'debian:12-slim'] }))).not.toBe(SandboxPool.keyOf(spec()));
+    expect(SandboxPool.labelArgs(spec())).toEqual(['--label', `agentspawn.pool=${SandboxPool.keyOf(spec())}`]);
+  });
+
+  describe('acquire()', () => {
+    it('counts a miss and warms a labelled container when none is idle', async () => {
+      runtime();
+
+      expect(await pool.acquire(spec(), 'agentspawn-a')).toBeNull();
+      await pool.settle();
+
+      const [run] = calls('run');
+      expect(run.slice(0, 4)).toEqual(['run', '-d', '--rm', '--name']);
+      expect(run[4]).toMatch(/^agentspawn-pool-[0-9a-f]{8}-[0-9a-f]{6}$/);
+      expect(run.slice(5)).toEqual([...SandboxPool.labelArgs(spec()), ...spec().runArgs]);
+      const data = await readData();
+      expect(data.misses).toBe(1);
+      expect(data.containers['warm-1']).toMatchObject({ state: 'idle', key: SandboxPool.keyOf(spec()), uses: 0 });
+    });
+
+    it('renames an idle container for the session and counts a hit', async () => {
+      runtime();
+      await pool.acquire(spec(), 'agentspawn-a');
+      await pool.settle();
+
+      expect(await pool.acquire(spec(), 'agentspawn-b')).toBe('warm-1');
+      await pool.settle();
+
+      expect(calls('rename')).toEqual([['rename', 'warm-1', 'agentspawn-b']]);
+      const data = await readData();
+      expect(data.hits).toBe(1);
+      expect(data.containers['warm-1']).toMatchObject({ state: 'in-use', name: 'agentspawn-b', uses: 1 });
+      expect(data.containers['warm-2']).toMatchObject({ state: 'idle' });
+    });
+
+    it('does not hand out containers of another configuration', async () => {
+      runtime();
+      await pool.acquire(spec(), 'agentspawn-a');
+      await pool.settle();
+
+      expect(await pool.acquire(spec({ level: 'standard', runArgs: ['--memory', '512m', 'debian:12-slim'] }), 'agentspawn-b')).toBeNull();
+      await pool.settle();
+    });
+
+    it('drops idle containers the runtime no longer has', async () => {
+      runtime();
+      await pool.acquire(spec(), 'agentspawn-a');
+      await pool.settle();
+      runtime((args) => {
+        if (args[0] === 'rename') throw new Error('No such container: warm-1');
+        return args[0] === 'run' ? 'warm-2\n' : undefined;
+      });
+
+      expect(await pool.acquire(spec(), 'agentspawn-b')).toBeNull();
+      await pool.settle();
+
+      const data = await readData();
+      expect(data.containers['warm-1']).toBeUndefined();
+      expect(data.misses).toBe(2);
+    });
+
+    it('removes containers idle for longer than the timeout', async () => {
+      runtime();
+      await pool.acquire(spec(), 'agentspawn-a');
+      await pool.settle();
+      const data = await readData();
+      data.containers['warm-1'].idleSince = new Date(Date.now() - POOL_IDLE_TIMEOUT_MS - 1000).toISOString();
+      await fs.writeFile(filePath, JSON.stringify(data), 'utf-8');
+
+      expect(await pool.acquire(spec(), 'agentspawn-b')).toBeNull();
+      await pool.settle();
+
+      expect(calls('rm')).toContainEqual(['rm', '-f', 'warm-1']);
+    });
+
+    it('throws SandboxPoolCorruptError for an unreadable state file', async () => {
+      await fs.writeFile(filePath, '{ nope', 'utf-8');
+
+      await expect(pool.acquire(spec(), 'agentspawn-a')).rejects.toThrow(SandboxPoolCorruptError);
+    });
+  });
+
+  describe('release()', () => {
+    it('forgets the container instead of recycling it, keeping the fresh warm one', async () => {
+      runtime();
+      await pool.acquire(spec(), 'agentspawn-a');
+      await pool.settle();
+      expect(await pool.acquire(spec(), 'agentspawn-b')).toBe('warm-1');
+      await pool.settle();
+
+      await pool.release('warm-1');
+
+      expect(calls('exec')).toEqual([]);
+      expect(calls('rename')).toEqual([['rename', 'warm-1', 'agentspawn-b']]);
+      const data = await readData();
+      expect(data.containers['warm-1']).toBeUndefined();
+      expect(data.containers['warm-2']).toMatchObject({ state: 'idle', uses: 0 });
+    });
+
+    it('removes containers idle for longer than the timeout', async () => {
+      runtime();
+      await pool.acquire(spec(), 'agentspawn-a');
+      await pool.settle();
+      await pool.track(spec(), 'cold-1', 'agentspawn-a');
+      const data = await readData();
+      data.containers['warm-1'].idleSince = new Date(Date.now() - POOL_IDLE_TIMEOUT_MS - 1000).toISOString();
+      await fs.writeFile(filePath, JSON.stringify(data), 'utf-8');
+
+      await pool.release('cold-1');
+
+      expect(calls('rm')).toEqual([['rm', '-f', 'warm-1']]);
+      expect((await readData()).containers).toEqual({});
+    });
+  });
+
+  it('reports containers grouped by configuration, forgetting ones that are gone', async () => {
+    runtime((args) => (args[0] === 'ps' ? 'warm-1\ncold-1\n' : undefined));
+    await pool.acquire(spec(), 'agentspawn-a');
+    await pool.settle();
+    await pool.track(spec(), 'cold-1', 'agentspawn-a');
+    await pool.track(spec({ image: 'node:20', runArgs: ['node:20'] }), 'gone-1', 'agentspawn-b');
+
+    const stats = await pool.stats();
+
+    expect(stats).toMatchObject({ size: 1, idleTimeoutMs: POOL_IDLE_TIMEOUT_MS, hits: 0, misses: 1 });
+    expect(stats.groups).toEqual([
+      { binary: 'docker', image: 'debian:12-slim', level: 'permissive', workingDirectory: '/work', idle: 1, inUse: 1 },
+    ]);
+    expect(calls('ps')[0]).toEqual(['ps', '-q', '--no-trunc', '--filter', 'label=agentspawn.pool']);
+  });
+
+  it('expires idle containers before reporting', async () => {
+    runtime();
+    await pool.acquire(spec(), 'agentspawn-a');
+    await pool.settle();
+    const data = await readData();
+    data.containers['warm-1'].idleSince = new Date(Date.now() - POOL_IDLE_TIMEOUT_MS - 1000).toISOString();
+    await fs.writeFile(filePath, JSON.stringify(data), 'utf-8');
+
+    expect((await pool.stats()).groups).toEqual([]);
+    expect(calls('rm')).toEqual([['rm', '-f', 'warm-1']]);
+  });
+
+  it('removes idle containers above a smaller size', async () => {
+    runtime();
+    await pool.setSize(2);
+    await pool.acquire(spec(), 'agentspawn-a');
+    await pool.settle();
+    expect(calls('run')).toHaveLength(2);
+
+    await pool.setSize(1);
+
+    expect(await pool.getSize()).toBe(1);
+    expect(calls('rm')).toEqual([['rm', '-f', 'warm-2']]);
+    expect(Object.keys((await readData()).containers)).toEqual(['warm-1']);
+  });
+
+  it('drains idle and untracked labelled containers, keeping those in use', async () => {
+    runtime((args, binary) => {
+      if (args[0] !== 'ps') return undefined;
+      if (binary === 'podman') throw new Error('podman: command not found');
+      return 'warm-1\nin-use-1\norphan-1\n';
+    });
+    await pool.acquire(spec(), 'agentspawn-a');
+    await pool.settle();
+    await pool.track(spec(), 'in-use-1', 'agentspawn-b');
+
+    expect(await pool.drain()).toBe(2);
+
+    expect(calls('rm').map((args) => args[2]).sort()).toEqual(['orphan-1', 'warm-1']);
+    expect(Object.keys((await readData()).containers)).toEqual(['in-use-1']);
+  });
+});
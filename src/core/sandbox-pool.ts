@@ -0,0 +1,418 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { lock } from 'proper-lockfile';
+import type { SandboxLevel } from '../types.js';
+import { SandboxPoolCorruptError, SandboxPoolLockError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const LOCK_OPTIONS = {
+  retries: { retries: 5, factor: 2, minTimeout: 100, maxTimeout: 2000 },
+  stale: 10_000,
+  realpath: false,
+};
+
+/** Label on every container the pool tracks; its value is the pool key. */
+export const POOL_LABEL = 'agentspawn.pool';
+/** Idle containers older than this are removed the next time the pool is used. */
+export const POOL_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+export type ContainerBinary = 'docker' | 'podman';
+
+/** A container configuration: everything `run` is given except the name. */
+export interface PoolContainerSpec {
+  binary: ContainerBinary;
+  /** Arguments after `run -d --rm --name <name>`, ending with the image and its command. */
+  runArgs: string[];
+  image: string;
+  level: SandboxLevel;
+  workingDirectory: string;
+}
+
+export interface SandboxPoolEntry {
+  id: string;
+  /** Current name: agentspawn-<session> while in use, agentspawn-pool-... while idle. */
+  name: string;
+  binary: ContainerBinary;
+  key: string;
+  image: string;
+  level: SandboxLevel;
+  workingDirectory: string;
+  state: 'idle' | 'in-use';
+  createdAt: string;
+  /** When the container was started warm. */
+  idleSince?: string;
+  /** Sessions the container has served. */
+  uses: number;
+}
+
+export interface SandboxPoolData {
+  version: number;
+  /** Warm containers to keep per configuration; unset means the configured default. */
+  size?: number;
+  hits: number;
+  misses: number;
+  containers: Record<string, SandboxPoolEntry>;
+}
+
+/** Containers of one configuration. */
+export interface SandboxPoolGroup {
+  binary: ContainerBinary;
+  image: string;
+  level: SandboxLevel;
+  workingDirectory: string;
+  idle: number;
+  inUse: number;
+}
+
+export interface SandboxPoolStats {
+  size: number;
+  idleTimeoutMs: number;
+  /** Sessions that got a warm container, and those that had to start one. */
+  hits: number;
+  misses: number;
+  groups: SandboxPoolGroup[];
+}
+
+function emptyData(): SandboxPoolData {
+  return { version: 1, hits: 0, misses: 0, containers: {} };
+}
+
+/**
+ * SandboxPool — warm Docker/Podman containers, so that starting a session
+ * (or restarting one after a crash) does not wait for a container to start.
+ *
+ * A container's mounts are fixed when it is created, so a warm container
+ * only serves sessions whose `run` arguments would be identical: same
+ * backend, image, level, limits, working directory and mount policy. The
+ * hash of those arguments is the pool key. After a session takes a
+ * container, the pool starts another in the background until `size` are
+ * idle for that key. Containers are never handed out twice: a session's
+ * writes to the container's own filesystem would survive any cleanup, so
+ * a stopping session's container is removed and only fresh ones from the
+ * image wait in the pool.
+ *
+ * State lives in a JSON file guarded like the template and schedule files,
+ * so every agentspawn process (CLI, TUI, daemon) shares one pool.
+ */
+export class SandboxPool {
+  /** Background warm-ups in this process, by key. */
+  private readonly warming = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly defaultSize: number,
+  ) {}
+
+  static keyOf(spec: PoolContainerSpec): string {
+    return createHash('sha256').update([spec.binary, ...spec.runArgs].join('\0')).digest('hex').slice(0, 16);
+  }
+
+  /** `--label` arguments for a container started for this spec, so it can be found again. */
+  static labelArgs(spec: PoolContainerSpec): string[] {
+    return ['--label', `${POOL_LABEL}=${SandboxPool.keyOf(spec)}`];
+  }
+
+  async load(): Promise<SandboxPoolData> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        logger.error(`Sandbox pool file is corrupt: ${this.filePath}`);
+        throw new SandboxPoolCorruptError(this.filePath);
+      }
+
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        typeof (parsed as Record<string, unknown>).version !== 'number' ||
+        typeof (parsed as Record<string, unknown>).containers !== 'object' ||
+        (parsed as Record<string, unknown>).containers === null
+      ) {
+        logger.error(`Sandbox pool file has invalid structure: ${this.filePath}`);
+        throw new SandboxPoolCorruptError(this.filePath);
+      }
+
+      return parsed as SandboxPoolData;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyData();
+      }
+      throw err;
+    }
+  }
+
+  async save(data: SandboxPoolData): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  async withLock<T>(mutator: (data: SandboxPoolData) => T): Promise<T> {
+    // Ensure the file exists before locking (proper-lockfile requires it)
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await fs.writeFile(this.filePath, JSON.stringify(emptyData(), null, 2), 'utf-8');
+    }
+
+    let release: (() => Promise<void>) | undefined;
+    try {
+      release = await lock(this.filePath, LOCK_OPTIONS);
+    } catch (err: unknown) {
+      throw new SandboxPoolLockError(this.filePath, err instanceof Error ? err : undefined);
+    }
+
+    try {
+      const data = await this.load();
+      const result = mutator(data);
+      await this.save(data);
+      return result;
+    } finally {
+      try {
+        await release();
+      } catch {
+        // Lock may already be released if the file was removed
+      }
+    }
+  }
+
+  async getSize(): Promise<number> {
+    return (await this.load()).size ?? this.defaultSize;
+  }
+
+  /** Change how many warm containers are kept per configuration, removing idle ones above it. */
+  async setSize(size: number): Promise<void> {
+    const surplus = await this.withLock((data) => {
+      data.size = size;
+      const idleByKey = new Map<string, SandboxPoolEntry[]>();
+      for (const entry of Object.values(data.containers)) {
+        if (entry.state === 'idle') idleByKey.set(entry.key, [...(idleByKey.get(entry.key) ?? []), entry]);
+      }
+      const removed = [...idleByKey.values()].flatMap((entries) => entries.slice(size));
+      for (const entry of removed) delete data.containers[entry.id];
+      return removed;
+    });
+    await Promise.all(surplus.map((entry) => removeContainer(entry.binary, entry.id)));
+  }
+
+  /**
+   * Hand an idle container for `spec` to a session, renamed to
+   * `containerName`. Returns its id, or null when none is idle; either
+   * way the key is topped up in the background.
+   */
+  async acquire(spec: PoolContainerSpec, containerName: string): Promise<string | null> {
+    const key = SandboxPool.keyOf(spec);
+    await this.expireIdle();
+
+    let acquired: string | null = null;
+    while (acquired === null) {
+      const candidate = await this.withLock((data) => {
+        const entry = Object.values(data.containers).find((e) => e.key === key && e.state === 'idle');
+        if (!entry) {
+          data.misses++;
+          return null;
+        }
+        entry.state = 'in-use';
+        return entry;
+      });
+      if (!candidate) break;
+
+      try {
+        await execFileAsync(spec.binary, ['rename', candidate.id, containerName]);
+        await this.withLock((data) => {
+          data.hits++;
+          const entry = data.containers[candidate.id];
+          if (entry) Object.assign(entry, { name: containerName, uses: entry.uses + 1, idleSince: undefined });
+        });
+        acquired = candidate.id;
+      } catch (err) {
+        // Gone since it was pooled (pruned, daemon restarted): forget it and try the next
+        logger.debug(`Dropping pooled container ${candidate.name}: ${err}`);
+        await this.forget(candidate.id);
+        await removeContainer(spec.binary, candidate.id);
+      }
+    }
+
+    this.replenish(spec);
+    return acquired;
+  }
+
+  /** Start tracking a container a session started itself, so it can be returned to the pool. */
+  async track(spec: PoolContainerSpec, id: string, containerName: string): Promise<void> {
+    await this.withLock((data) => {
+      data.containers[id] = {
+        ...this.entryFor(spec, id, containerName),
+        state: 'in-use',
+        uses: 1,
+      };
+    });
+  }
+
+  /**
+   * Stop tracking the container of a stopping session, which the caller
+   * removes; its replacement was warmed when it was acquired.
+   */
+  async release(id: string): Promise<void> {
+    await this.forget(id);
+    await this.expireIdle();
+  }
+
+  /** Wait for this process's background warm-ups. */
+  async settle(): Promise<void> {
+    await Promise.all(this.warming.values());
+  }
+
+  async stats(): Promise<SandboxPoolStats> {
+    await this.expireIdle();
+    await this.prune();
+    const data = await this.load();
+    const groups = new Map<string, SandboxPoolGroup>();
+    for (const entry of Object.values(data.containers)) {
+      const group = groups.get(entry.key) ?? {
+        binary: entry.binary,
+        image: entry.image,
+        level: entry.level,
+        workingDirectory: entry.workingDirectory,
+        idle: 0,
+        inUse: 0,
+      };
+      if (entry.state === 'idle') group.idle++;
+      else group.inUse++;
+      groups.set(entry.key, group);
+    }
+    return {
+      size: data.size ?? this.defaultSize,
+      idleTimeoutMs: POOL_IDLE_TIMEOUT_MS,
+      hits: data.hits,
+      misses: data.misses,
+      groups: [...groups.values()].sort((a, b) => a.workingDirectory.localeCompare(b.workingDirectory)),
+    };
+  }
+
+  /**
+   * Remove every idle container, and labelled containers the pool lost
+   * track of (e.g. a warm-up whose process exited). Returns how many.
+   */
+  async drain(): Promise<number> {
+    const idle = await this.withLock((data) => {
+      const entries = Object.values(data.containers).filter((e) => e.state === 'idle');
+      for (const entry of entries) delete data.containers[entry.id];
+      return entries;
+    });
+    const tracked = new Set(Object.keys((await this.load()).containers));
+    const targets = idle.map((e): [ContainerBinary, string] => [e.binary, e.id]);
+    for (const binary of ['docker', 'podman'] as const) {
+      const running = await listLabelled(binary);
+      for (const id of running ?? []) {
+        if (!tracked.has(id) && !idle.some((e) => e.id === id)) targets.push([binary, id]);
+      }
+    }
+    await Promise.all(targets.map(([binary, id]) => removeContainer(binary, id)));
+    return targets.length;
+  }
+
+  /** Start warm containers in the background until `size` are idle for the spec's key. */
+  private replenish(spec: PoolContainerSpec): void {
+    const key = SandboxPool.keyOf(spec);
+    if (this.warming.has(key)) return;
+    const warmup = (async () => {
+      for (;;) {
+        const data = await this.load();
+        const size = data.size ?? this.defaultSize;
+        const idle = Object.values(data.containers).filter((e) => e.key === key && e.state === 'idle').length;
+        if (idle >= size) return;
+
+        const name = this.poolName(key);
+        const { stdout } = await execFileAsync(spec.binary, [
+          'run', '-d', '--rm', '--name', name, ...SandboxPool.labelArgs(spec), ...spec.runArgs,
+        ]);
+        const id = stdout.trim();
+        await this.withLock((latest) => {
+          latest.containers[id] = { ...this.entryFor(spec, id, name), idleSince: new Date().toISOString() };
+        });
+        logger.debug(`Started warm ${spec.binary} container ${name} for ${spec.workingDirectory}`);
+      }
+    })()
+      .catch((err) => logger.warn(`Could not start a warm ${spec.binary} sandbox for ${spec.workingDirectory}: ${(err as Error).message}`))
+      .finally(() => this.warming.delete(key));
+    this.warming.set(key, warmup);
+  }
+
+  /** Remove idle containers older than POOL_IDLE_TIMEOUT_MS. */
+  private async expireIdle(now: number = Date.now()): Promise<void> {
+    const expired = await this.withLock((data) => {
+      const entries = Object.values(data.containers).filter(
+        (e) => e.state === 'idle' && e.idleSince && now - new Date(e.idleSince).getTime() > POOL_IDLE_TIMEOUT_MS,
+      );
+      for (const entry of entries) delete data.containers[entry.id];
+      return entries;
+    });
+    await Promise.all(expired.map((entry) => removeContainer(entry.binary, entry.id)));
+  }
+
+  /** Forget containers the runtime no longer has. */
+  private async prune(): Promise<void> {
+    const data = await this.load();
+    const present = new Map<ContainerBinary, Set<string> | null>();
+    for (const binary of new Set(Object.values(data.containers).map((e) => e.binary))) {
+      const ids = await listLabelled(binary);
+      present.set(binary, ids && new Set(ids));
+    }
+    const gone = Object.values(data.containers).filter((e) => present.get(e.binary)?.has(e.id) === false);
+    if (gone.length === 0) return;
+    await this.withLock((latest) => {
+      for (const entry of gone) delete latest.containers[entry.id];
+    });
+  }
+
+  private async forget(id: string): Promise<void> {
+    await this.withLock((data) => {
+      delete data.containers[id];
+    });
+  }
+
+  private entryFor(spec: PoolContainerSpec, id: string, name: string): SandboxPoolEntry {
+    return {
+      id,
+      name,
+      binary: spec.binary,
+      key: SandboxPool.keyOf(spec),
+      image: spec.image,
+      level: spec.level,
+      workingDirectory: spec.workingDirectory,
+      state: 'idle',
+      createdAt: new Date().toISOString(),
+      uses: 0,
+    };
+  }
+
+  private poolName(key: string): string {
+    return `agentspawn-pool-${key.slice(0, 8)}-${randomBytes(3).toString('hex')}`;
+  }
+}
+
+/** Ids of running containers with the pool label, or null when the runtime cannot be asked. */
+async function listLabelled(binary: ContainerBinary): Promise<string[] | null> {
+  try {
+    const { stdout } = await execFileAsync(binary, ['ps', '-q', '--no-trunc', '--filter', `label=${POOL_LABEL}`]);
+    return stdout.split('\n').map((line) => line.trim()).filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+async function removeContainer(binary: ContainerBinary, id: string): Promise<void> {
+  await execFileAsync(binary, ['rm', '-f', id]).catch((err) => {
+    logger.debug(`Failed to remove pooled container ${id}: ${err}`);
+  });
+}
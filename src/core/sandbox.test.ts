@@ -3,8 +3,13 @@ import { execFile, spawn } from 'node:child_process';
 import * as fsPromises from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { EventEmitter } from 'node:events';
+import http from 'node:http';
 import os from 'node:os';
 import { SandboxManager } from './sandbox.js';
+import type { SandboxEventLog } from './sandbox-event-log.js';
+import type { SandboxImageStore } from './sandbox-image.js';
+import type { SandboxPool } from './sandbox-pool.js';
+import { InvalidEgressRuleError, InvalidMountPolicyError, SandboxStartError } from '../utils/errors.js';
 
 // ---------------------------------------------------------------------------
 // Module mocks
@@ -20,6 +25,7 @@ vi.mock('node:fs/promises', () => ({
   unlink: vi.fn().mockResolvedValue(undefined),
   mkdtemp: vi.fn().mockResolvedValue('/tmp/agentspawn-test123'),
   rm: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
   readdir: vi.fn().mockResolvedValue([]),
   stat: vi.fn().mockResolvedValue({ isDirectory: () => false, mtime: new Date(0) }),
 }));
@@ -46,6 +52,7 @@ const mockWriteFile = vi.mocked(fsPromises.writeFile);
 const mockUnlink = vi.mocked(fsPromises.unlink);
 const mockMkdtemp = vi.mocked(fsPromises.mkdtemp);
 const mockRm = vi.mocked(fsPromises.rm);
+const mockMkdir = vi.mocked(fsPromises.mkdir);
 const mockReaddir = vi.mocked(fsPromises.readdir);
 const mockStat = vi.mocked(fsPromises.stat);
 const _mockExistsSync = vi.mocked(existsSync);
@@ -1157,6 +1164,470 @@ describe('SandboxManager', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // egress policy
+  // -------------------------------------------------------------------------
+
+  describe('egress policy', () => {
+    const egress = { allow: ['api.anthropic.com:443', '*.github.com'] };
+
+    it('should reject malformed allowlist entries', () => {
+      expect(() => new SandboxManager('s', '/w', 'bwrap', { egress: { allow: ['https://x'] } }))
+        .toThrow(InvalidEgressRuleError);
+    });
+
+    it('should have no extra environment without an egress policy', async () => {
+      const manager = new SandboxManager('s', '/w', 'bwrap');
+      await manager.start();
+
+      expect(manager.getEnv()).toEqual({});
+    });
+
+    it('should point the proxy variables at a local proxy until stopped', async () => {
+      const manager = new SandboxManager('s', '/w', 'sandbox-exec', { egress });
+      await manager.start();
+
+      const env = manager.getEnv();
+      expect(env.HTTPS_PROXY).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      expect(env.http_proxy).toBe(env.HTTPS_PROXY);
+      expect(env.NO_PROXY).toBe('');
+
+      await manager.stop();
+      expect(manager.getEnv()).toEqual({});
+    });
+
+    it('bwrap: refuses an allowlist it cannot enforce and keeps strict off the network', async () => {
+      const manager = new SandboxManager('s', '/w', 'bwrap', { level: 'strict', egress });
+
+      await expect(manager.start()).rejects.toThrow(SandboxStartError);
+      expect(manager.getEnv()).toEqual({});
+      expect(manager.buildArbitrarySpawnArgs('claude', []).args).not.toContain('--share-net');
+    });
+
+    it('docker: should run on the internal egress network and pass the proxy with -e', async () => {
+      const manager = new SandboxManager('my-session', '/workspace/project', 'docker', { egress });
+
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' }, // which claude
+        { stdout: '' },                          // docker rm -f (pre-cleanup)
+        { stdout: '127.0.0.1\n' },              // docker network inspect agentspawn-egress
+        { stdout: 'container-id-abc123\n' },    // docker run
+      ]);
+
+      await manager.start();
+
+      try {
+        expect(mockExecFile.mock.calls[2][1]).toEqual(
+          ['network', 'inspect', 'agentspawn-egress', '--format', '{{range .IPAM.Config}}{{.Gateway}}{{end}}'],
+        );
+        const runArgs = mockExecFile.mock.calls[3][1] as string[];
+        expect(runArgs[runArgs.indexOf('--network') + 1]).toBe('agentspawn-egress');
+        const { args } = manager.buildSpawnArgs([]);
+        const url = manager.getEnv().HTTPS_PROXY;
+        expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+        expect(args).toContain(`HTTPS_PROXY=${url}`);
+        expect(args.indexOf('-e')).toBeLessThan(args.indexOf('container-id-abc123'));
+      } finally {
+        execFileSucceeds('');
+        await manager.stop();
+      }
+    });
+
+    it('docker: should create the internal egress network on first use', async () => {
+      const manager = new SandboxManager('my-session', '/workspace/project', 'docker', { egress });
+
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' },
+        { stdout: '' },
+        new Error('network agentspawn-egress not found'),
+        { stdout: '' },                          // docker network create
+        { stdout: '127.0.0.1\n' },
+        { stdout: 'container-id-abc123\n' },
+      ]);
+
+      await manager.start();
+
+      try {
+        expect(mockExecFile.mock.calls[3][1]).toEqual(['network', 'create', '--internal', 'agentspawn-egress']);
+        expect(manager.getEnv().HTTPS_PROXY).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      } finally {
+        execFileSucceeds('');
+        await manager.stop();
+      }
+    });
+
+    it('docker: should stop the proxy when the container fails to start', async () => {
+      const manager = new SandboxManager('my-session', '/workspace/project', 'docker', { egress });
+
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' },
+        { stdout: '' },
+        { stdout: '127.0.0.1\n' },
+        new Error('image not found'),
+      ]);
+
+      await expect(manager.start()).rejects.toThrow('image not found');
+      expect(manager.getEnv()).toEqual({});
+    });
+
+    it('sandbox-exec: should only allow outbound connections to the proxy', async () => {
+      const manager = new SandboxManager('s', '/workspace/project', 'sandbox-exec', { egress });
+      await manager.start();
+
+      try {
+        const profile = mockWriteFile.mock.calls[0][1] as string;
+        const port = new URL(manager.getEnv().HTTPS_PROXY).port;
+        expect(profile).toContain('(deny network-outbound)');
+        expect(profile).toContain(`(allow network-outbound (remote ip "localhost:${port}"))`);
+      } finally {
+        await manager.stop();
+      }
+    });
+
+    it('should record denied connections in the sandbox event log', async () => {
+      const append = vi.fn().mockResolvedValue(undefined);
+      const eventLog = { append } as unknown as SandboxEventLog;
+      const manager = new SandboxManager('s', '/w', 'sandbox-exec', { egress }, 'claude', undefined, eventLog);
+      await manager.start();
+
+      try {
+        const proxyPort = parseInt(new URL(manager.getEnv().HTTP_PROXY).port, 10);
+        const status = await new Promise<number>((resolve, reject) => {
+          http.get({ host: '127.0.0.1', port: proxyPort, path: 'http://blocked.example/' }, (res) => {
+            res.resume();
+            resolve(res.statusCode ?? 0);
+          }).on('error', reject);
+        });
+
+        expect(status).toBe(403);
+        expect(append).toHaveBeenCalledWith('s', expect.objectContaining({
+          processName: 'claude',
+          operation: 'deny',
+          path: 'network-outbound blocked.example:80',
+          raw: 'GET blocked.example:80',
+        }));
+      } finally {
+        await manager.stop();
+      }
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // bwrap violation tracing
+  // -------------------------------------------------------------------------
+
+  describe('bwrap violation tracing', () => {
+    function eventLogWithTrace(): SandboxEventLog {
+      return {
+        prepareTrace: vi.fn().mockResolvedValue('/home/user/.agentspawn/sandbox-logs/s.strace'),
+      } as unknown as SandboxEventLog;
+    }
+
+    it('should run the command under strace writing to the bind-mounted trace file', async () => {
+      const manager = new SandboxManager('s', '/w', 'bwrap', { trace: true }, 'claude', undefined, eventLogWithTrace());
+      execFileSucceeds('/usr/bin/strace\n');
+      await manager.start();
+
+      const { args } = manager.buildSpawnArgs(['-p', 'hi']);
+      const trace = '/home/user/.agentspawn/sandbox-logs/s.strace';
+      const straceAt = args.indexOf('/usr/bin/strace');
+
+      expect(args.slice(straceAt - 3, straceAt)).toEqual(['--bind', trace, trace]);
+      expect(args.indexOf('--tmpfs')).toBeLessThan(straceAt);
+      expect(args.slice(straceAt)).toEqual(expect.arrayContaining(['-f', '-Z', '-ttt', '-A', '-o', trace]));
+      expect(args.slice(-4)).toEqual(['--', 'claude', '-p', 'hi']);
+    });
+
+    it('should trace at every level', async () => {
+      for (const level of ['standard', 'strict'] as const) {
+        const manager = new SandboxManager('s', '/w', 'bwrap', { level, trace: true }, 'claude', undefined, eventLogWithTrace());
+        execFileSucceeds('/usr/bin/strace\n');
+        await manager.start();
+
+        expect(manager.buildSpawnArgs([]).args).toContain('/usr/bin/strace');
+      }
+    });
+
+    it('should not trace unless asked to', async () => {
+      const eventLog = eventLogWithTrace();
+      const manager = new SandboxManager('s', '/w', 'bwrap', {}, 'claude', undefined, eventLog);
+      await manager.start();
+
+      expect(mockExecFile).not.toHaveBeenCalled();
+      expect(eventLog.prepareTrace).not.toHaveBeenCalled();
+      expect(manager.buildSpawnArgs([]).args.slice(-1)).toEqual(['claude']);
+    });
+
+    it('should run untraced when strace is not installed', async () => {
+      const eventLog = eventLogWithTrace();
+      const manager = new SandboxManager('s', '/w', 'bwrap', { trace: true }, 'claude', undefined, eventLog);
+      execFileSequence([new Error('not found')]);
+      await manager.start();
+
+      expect(eventLog.prepareTrace).not.toHaveBeenCalled();
+      expect(manager.buildSpawnArgs([]).args.slice(-1)).toEqual(['claude']);
+    });
+
+    it('should stop tracing once stopped', async () => {
+      const manager = new SandboxManager('s', '/w', 'bwrap', { trace: true }, 'claude', undefined, eventLogWithTrace());
+      execFileSucceeds('/usr/bin/strace\n');
+      await manager.start();
+      await manager.stop();
+
+      expect(manager.buildSpawnArgs([]).args).not.toContain('/usr/bin/strace');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Sandbox images
+  // -------------------------------------------------------------------------
+
+  describe('sandbox images', () => {
+    it('should have the image store build the image before running the container', async () => {
+      const imageStore = { ensure: vi.fn().mockResolvedValue(undefined) } as unknown as SandboxImageStore;
+      const manager = new SandboxManager(
+        's', '/workspace', 'podman', { image: 'agentspawn-sandbox:0123456789ab' }, 'claude', undefined, undefined, imageStore,
+      );
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' },
+        { stdout: '' },
+        { stdout: 'container-id-abc123\n' },
+      ]);
+
+      await manager.start();
+
+      expect(imageStore.ensure).toHaveBeenCalledWith('podman', 'agentspawn-sandbox:0123456789ab');
+      expect(mockExecFile.mock.calls[2][1]).toContain('agentspawn-sandbox:0123456789ab');
+    });
+
+    it('should not start the container when the image cannot be built', async () => {
+      const imageStore = {
+        ensure: vi.fn().mockRejectedValue(new Error('build failed')),
+      } as unknown as SandboxImageStore;
+      const manager = new SandboxManager(
+        's', '/workspace', 'docker', { image: 'agentspawn-sandbox:0123456789ab' }, 'claude', undefined, undefined, imageStore,
+      );
+      execFileSequence([{ stdout: '/usr/local/bin/claude\n' }, { stdout: '' }]);
+
+      await expect(manager.start()).rejects.toThrow('build failed');
+      expect(mockExecFile).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Sandbox pool
+  // -------------------------------------------------------------------------
+
+  describe('sandbox pool', () => {
+    function mockPool(acquired: string | null) {
+      return {
+        acquire: vi.fn().mockResolvedValue(acquired),
+        track: vi.fn().mockResolvedValue(undefined),
+        release: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    function pooledManager(pool: ReturnType<typeof mockPool>): SandboxManager {
+      return new SandboxManager(
+        's', '/workspace', 'docker', {}, 'claude', undefined, undefined, undefined, pool as unknown as SandboxPool,
+      );
+    }
+
+    it('should take a warm container instead of running one', async () => {
+      const pool = mockPool('warm-id');
+      const manager = pooledManager(pool);
+      execFileSequence([{ stdout: '/usr/local/bin/claude\n' }, { stdout: '' }]);
+
+      await manager.start();
+
+      expect(pool.acquire).toHaveBeenCalledWith(
+        expect.objectContaining({ binary: 'docker', image: 'debian:12-slim', level: 'permissive', workingDirectory: '/workspace' }),
+        'agentspawn-s',
+      );
+      const spec = pool.acquire.mock.calls[0][0];
+      expect(spec.runArgs).not.toContain('agentspawn-s');
+      expect(spec.runArgs.slice(-3)).toEqual(['debian:12-slim', 'sleep', 'infinity']);
+      expect(mockExecFile).toHaveBeenCalledTimes(2);
+      expect(pool.track).not.toHaveBeenCalled();
+    });
+
+    it('should start a labelled container and track it when none is warm', async () => {
+      const pool = mockPool(null);
+      const manager = pooledManager(pool);
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' },
+        { stdout: '' },
+        { stdout: 'cold-id\n' },
+      ]);
+
+      await manager.start();
+
+      const args = mockExecFile.mock.calls[2][1] as string[];
+      expect(args.slice(0, 5)).toEqual(['run', '-d', '--rm', '--name', 'agentspawn-s']);
+      expect(args).toContain('--label');
+      expect(args[args.indexOf('--label') + 1]).toMatch(/^agentspawn\.pool=[0-9a-f]{16}$/);
+      expect(pool.track).toHaveBeenCalledWith(pool.acquire.mock.calls[0][0], 'cold-id', 'agentspawn-s');
+    });
+
+    it('should start a container itself when the pool fails', async () => {
+      const pool = mockPool(null);
+      pool.acquire.mockRejectedValue(new Error('lock failed'));
+      const manager = pooledManager(pool);
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' },
+        { stdout: '' },
+        { stdout: 'cold-id\n' },
+      ]);
+
+      await manager.start();
+
+      expect((mockExecFile.mock.calls[2][1] as string[])[0]).toBe('run');
+    });
+
+    it('should release a pooled container on stop() and remove it rather than reuse it', async () => {
+      const pool = mockPool('warm-id');
+      const manager = pooledManager(pool);
+      execFileSequence([{ stdout: '/usr/local/bin/claude\n' }, { stdout: '' }]);
+      await manager.start();
+      execFileSucceeds();
+
+      await manager.stop();
+
+      expect(pool.release).toHaveBeenCalledWith('warm-id');
+      expect(mockExecFile).toHaveBeenLastCalledWith('docker', ['rm', '-f', 'agentspawn-s'], expect.any(Function));
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Mount policy
+  // -------------------------------------------------------------------------
+
+  describe('mount policy', () => {
+    const mounts = {
+      readOnly: ['/data', '/etc/hosts.ref'],
+      writable: ['~/.npm'],
+      deny: ['/data/secrets'],
+    };
+
+    /** Host paths that exist; directories unless they contain a dot. */
+    function hostHas(...paths: string[]): void {
+      mockStat.mockImplementation(async (p: unknown) => {
+        if (!paths.includes(p as string)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+        return { isDirectory: () => !(p as string).includes('.'), mtime: new Date(0) } as Awaited<ReturnType<typeof fsPromises.stat>>;
+      });
+    }
+
+    it('should translate rules into bwrap binds, parents first', async () => {
+      hostHas('/data', '/etc/hosts.ref', '/home/user/.npm', '/data/secrets');
+      const manager = new SandboxManager('s', '/workspace', 'bwrap', { mounts });
+      await manager.start();
+
+      const args = manager.buildSpawnArgs([]).args.join(' ');
+      expect(args).toContain('--ro-bind /data /data');
+      expect(args).toContain('--bind /home/user/.npm /home/user/.npm');
+      expect(args).toContain('--ro-bind /etc/hosts.ref /etc/hosts.ref');
+      expect(args).toContain('--tmpfs /data/secrets');
+      expect(args.indexOf('--ro-bind /data /data')).toBeLessThan(args.indexOf('--tmpfs /data/secrets'));
+    });
+
+    it('should hide a denied file behind /dev/null', async () => {
+      hostHas('/home/user/.netrc');
+      const manager = new SandboxManager('s', '/workspace', 'bwrap', { level: 'strict', mounts: { deny: ['~/.netrc'] } });
+      await manager.start();
+
+      expect(manager.buildSpawnArgs([]).args.join(' ')).toContain('--ro-bind /dev/null /home/user/.netrc');
+    });
+
+    it('should re-bind the working directory under a read-only ancestor', async () => {
+      hostHas('/workspace');
+      const manager = new SandboxManager('s', '/workspace/project', 'bwrap', { mounts: { readOnly: ['/workspace'] } });
+      await manager.start();
+
+      const args = manager.buildSpawnArgs([]).args.join(' ');
+      expect(args).toContain('--ro-bind /workspace /workspace --bind /workspace/project /workspace/project');
+    });
+
+    it('should translate rules into docker volumes and tmpfs mounts', async () => {
+      hostHas('/data', '/etc/hosts.ref', '/home/user/.npm', '/data/secrets');
+      const manager = new SandboxManager('s', '/workspace', 'docker', { mounts });
+      execFileSequence([
+        { stdout: '/usr/local/bin/claude\n' },
+        { stdout: '' },
+        { stdout: 'container-id-abc123\n' },
+      ]);
+      await manager.start();
+
+      const runArgs = (mockExecFile.mock.calls[2][1] as string[]).join(' ');
+      expect(runArgs).toContain('-v /data:/data:ro');
+      expect(runArgs).toContain('-v /etc/hosts.ref:/etc/hosts.ref:ro');
+      expect(runArgs).toContain('-v /home/user/.npm:/home/user/.npm:rw');
+      expect(runArgs).toContain('--tmpfs /data/secrets');
+    });
+
+    it('should append sandbox-exec profile rules after the level rules', async () => {
+      hostHas('/data', '/etc/hosts.ref', '/home/user/.npm', '/data/secrets');
+      const manager = new SandboxManager('s', '/workspace', 'sandbox-exec', { level: 'standard', mounts });
+      await manager.start();
+
+      const [, profile] = mockWriteFile.mock.calls[0] as [string, string, string];
+      expect(profile).toContain('(allow file-read* (subpath "/data"))\n(deny file-write* (subpath "/data"))');
+      expect(profile).toContain('(allow file-read* file-write* (subpath "/home/user/.npm"))');
+      expect(profile).toContain('(deny file-read* file-write* (subpath "/data/secrets"))');
+      expect(profile.indexOf('(subpath "/data/secrets")')).toBeGreaterThan(profile.indexOf('(deny file-write* (subpath "/data"))'));
+      expect(profile.indexOf('(subpath "/data")')).toBeGreaterThan(profile.indexOf('(allow default)'));
+    });
+
+    it('should create missing writable paths and skip missing denied ones', async () => {
+      hostHas();
+      const manager = new SandboxManager('s', '/workspace', 'bwrap', { mounts: { writable: ['~/.cache/pip'], deny: ['/opt/none'] } });
+      await manager.start();
+
+      expect(mockMkdir).toHaveBeenCalledWith('/home/user/.cache/pip', { recursive: true });
+      const args = manager.buildSpawnArgs([]).args.join(' ');
+      expect(args).toContain('--bind /home/user/.cache/pip /home/user/.cache/pip');
+      expect(args).not.toContain('/opt/none');
+    });
+
+    it('should refuse to start when a read-only path does not exist', async () => {
+      hostHas();
+      const manager = new SandboxManager('s', '/workspace', 'bwrap', { mounts: { readOnly: ['/opt/sdk'] } });
+
+      await expect(manager.start()).rejects.toThrow(InvalidMountPolicyError);
+      await expect(manager.start()).rejects.toThrow('/opt/sdk does not exist');
+    });
+
+    it('should reject a policy that denies the working directory', () => {
+      expect(() => new SandboxManager('s', '/workspace/project', 'bwrap', { mounts: { deny: ['/workspace'] } }))
+        .toThrow(InvalidMountPolicyError);
+    });
+
+    it('should report each rule in the isolation test', async () => {
+      hostHas('/data', '/data/secrets');
+      const manager = new SandboxManager('s', '/workspace', 'sandbox-exec', {
+        mounts: { readOnly: ['/data'], deny: ['/data/secrets'] },
+      });
+      await manager.start();
+      vi.clearAllMocks();
+
+      // write outside blocked, write inside allowed, read-only probe passes, deny probe fails
+      const exitCodes = [1, 0, 0, 1];
+      mockSpawn.mockImplementation((_cmd: unknown, _args: unknown, _opts: unknown) => {
+        const emitter = new EventEmitter();
+        const exitCode = exitCodes.shift();
+        setTimeout(() => emitter.emit('close', exitCode), 0);
+        return emitter as unknown as ReturnType<typeof spawn>;
+      });
+
+      const result = await manager.runIsolationTest();
+      expect(result.mounts).toEqual([
+        { path: '/data', access: 'read-only', passed: true },
+        { path: '/data/secrets', access: 'deny', passed: false },
+      ]);
+      expect(result.passed).toBe(false);
+      expect((mockSpawn.mock.calls[2][1] as string[]).join(' ')).toContain("touch '/data/agentspawn-canary-write-test'");
+    });
+  });
+
   // -------------------------------------------------------------------------
   // getLevel()
   // -------------------------------------------------------------------------
@@ -1,13 +1,44 @@
 import { execFile, spawn } from 'node:child_process';
 import { promisify } from 'node:util';
-import { writeFile, unlink, readdir, stat, mkdtemp, rm } from 'node:fs/promises';
+import { writeFile, unlink, readdir, stat, mkdtemp, mkdir, rm } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import type { SandboxBackend, SandboxLevel, SandboxOptions, SandboxTestResult } from '../types.js';
+import type { SandboxBackend, SandboxLevel, SandboxMountTestResult, SandboxOptions, SandboxTestResult } from '../types.js';
+import { EgressProxy, parseEgressRule } from './egress-proxy.js';
+import type { EgressDenial, EgressRule } from './egress-proxy.js';
+import { compareMountRules, isWithin, parseMountPolicy } from './sandbox-mounts.js';
+import type { MountRule } from './sandbox-mounts.js';
+import type { SandboxEventLog } from './sandbox-event-log.js';
+import type { SandboxImageStore } from './sandbox-image.js';
+import { SandboxPool } from './sandbox-pool.js';
+import type { PoolContainerSpec } from './sandbox-pool.js';
+import type { SandboxLogEntry } from './sandbox-log-watcher.js';
+import { containerSampler, processTreeSampler } from './resource-monitor.js';
+import type { ResourceSampler } from './resource-monitor.js';
+import { InvalidMountPolicyError, SandboxStartError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
 
 const execFileAsync = promisify(execFile);
 
+/**
+ * Container network of sessions with an egress allowlist. It is created
+ * `--internal`, so containers have no route out and can only reach the host
+ * at the network's gateway, where the egress proxy listens.
+ */
+const EGRESS_NETWORK = 'agentspawn-egress';
+
+/**
+ * Syscalls the bwrap tracer records: those that write, create or connect,
+ * which is what the sandbox denies. `?` skips names an architecture lacks.
+ */
+const TRACED_SYSCALLS = [
+  'open', 'openat', 'openat2', 'creat', 'truncate', 'utimensat',
+  'mkdir', 'mkdirat', 'mknod', 'mknodat', 'rmdir', 'unlink', 'unlinkat',
+  'rename', 'renameat', 'renameat2', 'link', 'linkat', 'symlink', 'symlinkat',
+  'chmod', 'fchmodat', 'chown', 'fchownat', 'lchown', 'mount', 'connect', 'bind',
+].map((name) => `?${name}`).join(',');
+
 /**
  * Converts a memory limit string (e.g. '512m', '2g', '1024k') to bytes.
  * Used for bwrap's --rlimit-as which requires an integer byte count.
@@ -20,12 +51,29 @@ function parseMemoryLimit(s: string): number {
   return parseInt(s, 10);
 }
 
+/** Single-quote a path for `sh -c`. */
+function shellQuote(s: string): string {
+  return `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+/** A mount policy rule as found on the host by start(). */
+type HostMount = MountRule & { directory: boolean };
+
 export class SandboxManager {
   private containerId: string | null = null;
   /** Directory created by mkdtemp that holds the sandbox-exec profile. */
   private sbProfileDir: string | null = null;
   private sbProfilePath: string | null = null;
   private startedAt: Date | null = null;
+  /** Parsed egress allowlist; null when outbound traffic is not filtered. */
+  private readonly egressRules: EgressRule[] | null;
+  private egressProxy: EgressProxy | null = null;
+  /** Validated mount policy, parents first. */
+  private readonly mountRules: MountRule[];
+  /** The mount policy rules that apply on this host; set by start(). */
+  private mounts: HostMount[] = [];
+  /** strace and the file it writes to, when bwrap denials are recorded. */
+  private tracer: { strace: string; tracePath: string } | null = null;
 
   constructor(
     private readonly sessionName: string,
@@ -34,7 +82,13 @@ export class SandboxManager {
     private readonly options: SandboxOptions = {},
     private readonly providerBinary: string = 'claude',
     private readonly providerConfigDir: string = `${os.homedir()}/.claude`,
-  ) {}
+    private readonly eventLog?: SandboxEventLog,
+    private readonly imageStore?: SandboxImageStore,
+    private readonly pool?: SandboxPool,
+  ) {
+    this.egressRules = options.egress ? options.egress.allow.map(parseEgressRule) : null;
+    this.mountRules = options.mounts ? parseMountPolicy(options.mounts, workingDirectory) : [];
+  }
 
   /**
    * Probes backends in preference order and returns the first available.
@@ -127,18 +181,35 @@ export class SandboxManager {
    *   Runs a long-lived container named agentspawn-<sessionName> with the
    *   claude binary and working directory bind-mounted. Stores the container ID.
    *   Any pre-existing container of the same name is removed first to handle
-   *   cases where a previous session crashed without cleanup.
+   *   cases where a previous session crashed without cleanup. An image from
+   *   `agentspawn sandbox image build` that this runtime does not have (pruned,
+   *   or built with the other runtime) is built from its recipe first. With a
+   *   pool, a warm container of the same configuration is taken instead of
+   *   starting one (see SandboxPool).
    *
    * bwrap:
-   *   No-op — bwrap is invoked per-prompt via buildSpawnArgs.
+   *   No-op — bwrap is invoked per-prompt via buildSpawnArgs. With `trace`
+   *   set, an event log and strace installed, creates the session's trace
+   *   file so that each invocation runs under strace (see bwrapCommand()).
    *
    * sandbox-exec:
    *   Creates a private temp directory and writes a sandbox profile (.sb) into
    *   it. Using a private directory (rather than a fixed /tmp path) prevents
    *   symlink-based injection attacks. Stores the profile path.
+   *
+   * With an egress policy, an EgressProxy is started first: on the host
+   * loopback for sandbox-exec, whose profile only allows connections to it,
+   * and on the gateway of the internal egress network for containers. bwrap
+   * cannot keep the proxy reachable without sharing the host network, so it
+   * refuses egress policies.
+   *
+   * A mount policy is checked against the host before anything else (see
+   * prepareMounts()) and applied by every backend: as bind mounts for bwrap
+   * and containers, as profile rules for sandbox-exec.
    */
   async start(): Promise<void> {
     this.startedAt = new Date();
+    await this.prepareMounts();
 
     switch (this.backend) {
       case 'podman':
@@ -158,19 +229,21 @@ export class SandboxManager {
         const level = this.options.level ?? 'permissive';
         // Pin to a specific digest in production: --sandbox-image debian@sha256:<digest>
         const image = this.options.image ?? 'debian:12-slim';
+        await this.imageStore?.ensure(binary, image);
 
         // Arguments passed directly to execFile — no shell interpolation,
         // so session names / paths with spaces or metacharacters are safe.
-        const containerArgs: string[] = [
-          'run', '-d', '--rm',
-          '--name', containerName,
+        // Everything but the name, which is what makes a warm container reusable
+        const runArgs: string[] = [
           '-v', `${claudePath}:/usr/local/bin/${this.providerBinary}:ro`,
           '-v', `${this.providerConfigDir}:/root/${path.basename(this.providerConfigDir)}:ro`,
           '-v', `${this.workingDirectory}:${this.workingDirectory}:rw`,
+          ...this.containerMountArgs(),
           '--workdir', this.workingDirectory,
           // bridge network prevents Claude from accessing host localhost services
-          // while preserving outbound internet access for API calls
-          '--network', 'bridge',
+          // while preserving outbound internet access for API calls; with an
+          // allowlist, the internal network leaves only the egress proxy
+          '--network', this.egressRules ? EGRESS_NETWORK : 'bridge',
           '--user', `${uid}:${gid}`,
           '--cap-drop', 'ALL',
           '--security-opt', 'no-new-privileges',
@@ -179,16 +252,16 @@ export class SandboxManager {
         // Podman rootless mode: --userns=keep-id maps host UID into container so
         // bind-mounted files have the correct ownership inside the container.
         if (binary === 'podman') {
-          containerArgs.push('--userns=keep-id');
+          runArgs.push('--userns=keep-id');
         }
 
         if (level === 'standard') {
-          containerArgs.push(
+          runArgs.push(
             '--memory', this.options.memoryLimit ?? '512m',
             '--cpus', String(this.options.cpuLimit ?? 1.0),
           );
         } else if (level === 'strict') {
-          containerArgs.push(
+          runArgs.push(
             '--memory', this.options.memoryLimit ?? '256m',
             '--cpus', String(this.options.cpuLimit ?? 0.5),
             '--read-only',
@@ -196,15 +269,38 @@ export class SandboxManager {
           );
         }
 
-        containerArgs.push(image, 'sleep', 'infinity');
+        runArgs.push(image, 'sleep', 'infinity');
+        const spec: PoolContainerSpec = { binary, runArgs, image, level, workingDirectory: this.workingDirectory };
 
-        const { stdout } = await execFileAsync(binary, containerArgs);
-        this.containerId = stdout.trim();
+        if (this.egressRules) {
+          await this.startEgressProxy(await this.ensureEgressNetwork(binary));
+        }
+        try {
+          this.containerId = await this.acquirePooledContainer(spec, containerName);
+          if (!this.containerId) {
+            const { stdout } = await execFileAsync(binary, [
+              'run', '-d', '--rm', '--name', containerName, ...(this.pool ? SandboxPool.labelArgs(spec) : []), ...runArgs,
+            ]);
+            this.containerId = stdout.trim();
+            await this.pool?.track(spec, this.containerId, containerName).catch((err) => {
+              logger.warn(`Container of session "${this.sessionName}" will not be pooled: ${(err as Error).message}`);
+            });
+          }
+        } catch (e) {
+          await this.stopEgressProxy();
+          throw e;
+        }
         break;
       }
 
       case 'bwrap': {
-        // Stateless per-invocation; nothing to set up
+        if (this.egressRules) {
+          throw new SandboxStartError(
+            this.sessionName,
+            'bwrap cannot enforce an egress allowlist; use the docker, podman or sandbox-exec backend',
+          );
+        }
+        await this.prepareTracer();
         break;
       }
 
@@ -223,9 +319,10 @@ export class SandboxManager {
         // Use a private temp directory (not a fixed /tmp path) to prevent
         // symlink injection: an attacker could pre-create /tmp/agentspawn-X.sb
         // as a symlink to an arbitrary file, causing writeFile to overwrite it.
+        await this.startEgressProxy('127.0.0.1');
         const tmpDir = await mkdtemp(path.join(os.tmpdir(), 'agentspawn-'));
         const profilePath = path.join(tmpDir, 'profile.sb');
-        const profileContent = this.buildSandboxExecProfile();
+        const profileContent = this.buildSandboxExecProfile() + this.buildMountProfileRules() + this.buildEgressProfileRules();
 
         await writeFile(profilePath, profileContent, 'utf8');
         this.sbProfileDir = tmpDir;
@@ -293,6 +390,210 @@ export class SandboxManager {
     ].join('\n');
   }
 
+  /**
+   * Mount policy rules, after the level's so they take precedence; SBPL
+   * applies the last matching rule, and the rules are ordered parents first.
+   */
+  private buildMountProfileRules(): string {
+    const lines = this.mountsWithWorkdir().flatMap((mount) => {
+      const target = `(subpath "${mount.path}")`;
+      switch (mount.access) {
+        case 'read-only':
+          return [`(allow file-read* ${target})`, `(deny file-write* ${target})`];
+        case 'writable':
+          return [`(allow file-read* file-write* ${target})`];
+        case 'deny':
+          return [`(deny file-read* file-write* ${target})`];
+      }
+    });
+    return lines.length > 0 ? ['', ...lines].join('\n') : '';
+  }
+
+  /**
+   * With an egress policy, outbound connections may only go to the proxy;
+   * rules are appended last so they win over the level's `(allow default)`.
+   */
+  private buildEgressProfileRules(): string {
+    const url = this.egressProxy?.getUrl();
+    if (!url) return '';
+    return [
+      '',
+      '(deny network-outbound)',
+      `(allow network-outbound (remote ip "localhost:${new URL(url).port}"))`,
+    ].join('\n');
+  }
+
+  /**
+   * Create the internal egress network unless it exists, and return its
+   * gateway: the host address where containers can reach the egress proxy.
+   */
+  private async ensureEgressNetwork(binary: 'docker' | 'podman'): Promise<string> {
+    const format = binary === 'docker' ? '{{range .IPAM.Config}}{{.Gateway}}{{end}}' : '{{range .Subnets}}{{.Gateway}}{{end}}';
+    const inspect = (): Promise<{ stdout: string }> =>
+      execFileAsync(binary, ['network', 'inspect', EGRESS_NETWORK, '--format', format]);
+    let stdout: string;
+    try {
+      ({ stdout } = await inspect());
+    } catch {
+      await execFileAsync(binary, ['network', 'create', '--internal', EGRESS_NETWORK]);
+      ({ stdout } = await inspect());
+    }
+    const gateway = stdout.trim().split(/\s+/)[0];
+    if (!gateway) {
+      throw new Error(`Could not determine the gateway of the ${binary} network "${EGRESS_NETWORK}" for the egress proxy`);
+    }
+    return gateway;
+  }
+
+  /**
+   * Check the mount policy against the host: read-only paths must exist,
+   * missing writable ones are created as directories, and deny rules for
+   * missing paths are dropped since there is nothing to hide.
+   */
+  private async prepareMounts(): Promise<void> {
+    const mounts: HostMount[] = [];
+    for (const rule of this.mountRules) {
+      let directory: boolean;
+      try {
+        directory = (await stat(rule.path)).isDirectory();
+      } catch {
+        if (rule.access === 'read-only') {
+          throw new InvalidMountPolicyError(`${rule.path} does not exist`);
+        }
+        if (rule.access === 'deny') continue;
+        await mkdir(rule.path, { recursive: true });
+        directory = true;
+      }
+      mounts.push({ ...rule, directory });
+    }
+    this.mounts = mounts;
+  }
+
+  /**
+   * The mounts, plus the working directory again wherever a read-only rule
+   * for one of its ancestors would otherwise cover it. For backends that
+   * apply rules in order (bwrap, sandbox-exec); containers sort their own.
+   */
+  private mountsWithWorkdir(): HostMount[] {
+    if (!this.mounts.some((m) => m.access === 'read-only' && isWithin(this.workingDirectory, m.path))) {
+      return this.mounts;
+    }
+    return [...this.mounts, { path: this.workingDirectory, access: 'writable' as const, directory: true }].sort(compareMountRules);
+  }
+
+  private bwrapMountArgs(): string[] {
+    return this.mountsWithWorkdir().flatMap((mount) => {
+      switch (mount.access) {
+        case 'read-only': return ['--ro-bind', mount.path, mount.path];
+        case 'writable': return ['--bind', mount.path, mount.path];
+        case 'deny': return mount.directory ? ['--tmpfs', mount.path] : ['--ro-bind', '/dev/null', mount.path];
+      }
+    });
+  }
+
+  private containerMountArgs(): string[] {
+    return this.mounts.flatMap((mount) => {
+      switch (mount.access) {
+        case 'read-only': return ['-v', `${mount.path}:${mount.path}:ro`];
+        case 'writable': return ['-v', `${mount.path}:${mount.path}:rw`];
+        case 'deny': return mount.directory ? ['--tmpfs', mount.path] : ['-v', `/dev/null:${mount.path}:ro`];
+      }
+    });
+  }
+
+  /** A warm container from the pool, renamed for this session; null to start one. */
+  private async acquirePooledContainer(spec: PoolContainerSpec, containerName: string): Promise<string | null> {
+    if (!this.pool) return null;
+    try {
+      return await this.pool.acquire(spec, containerName);
+    } catch (err) {
+      logger.warn(`Sandbox pool unavailable for session "${this.sessionName}": ${(err as Error).message}`);
+      return null;
+    }
+  }
+
+  private async prepareTracer(): Promise<void> {
+    if (!this.options.trace || !this.eventLog) return;
+    let strace: string;
+    try {
+      strace = (await execFileAsync('which', ['strace'])).stdout.trim();
+    } catch {
+      logger.warn(`strace not found; operations the sandbox denies in session "${this.sessionName}" will not be logged`);
+      return;
+    }
+    this.tracer = { strace, tracePath: await this.eventLog.prepareTrace(this.sessionName) };
+  }
+
+  /**
+   * The tail of a bwrap command line that runs `executable`: under strace
+   * when tracing, which appends the sandbox's failed syscalls to the
+   * bind-mounted trace file. The sandboxed process can write to that file
+   * too, so it is a diagnostic aid rather than an audit trail.
+   */
+  private bwrapCommand(executable: string, execArgs: string[]): string[] {
+    if (!this.tracer) return [executable, ...execArgs];
+    const { strace, tracePath } = this.tracer;
+    return [
+      '--bind', tracePath, tracePath,
+      strace, '-f', '-qq', '-Z', '-ttt', '-A', '-o', tracePath,
+      '-e', `trace=${TRACED_SYSCALLS}`, '-e', 'signal=none', '--',
+      executable, ...execArgs,
+    ];
+  }
+
+  private async startEgressProxy(listenHost: string): Promise<void> {
+    if (!this.egressRules) return;
+    const proxy = new EgressProxy({
+      allow: this.egressRules,
+      listenHost,
+      onDeny: (denial) => this.recordEgressDenial(denial),
+    });
+    await proxy.start();
+    this.egressProxy = proxy;
+  }
+
+  private async stopEgressProxy(): Promise<void> {
+    await this.egressProxy?.stop();
+    this.egressProxy = null;
+  }
+
+  private recordEgressDenial(denial: EgressDenial): void {
+    logger.warn(`Sandbox for session "${this.sessionName}" denied egress to ${denial.host}:${denial.port}`);
+    if (!this.eventLog) return;
+    const entry: SandboxLogEntry = {
+      timestamp: new Date().toISOString(),
+      processName: this.providerBinary,
+      // The proxy cannot tell which sandboxed process connected
+      pid: 0,
+      operation: 'deny',
+      path: `network-outbound ${denial.host}:${denial.port}`,
+      raw: `${denial.method} ${denial.host}:${denial.port}`,
+    };
+    this.eventLog.append(this.sessionName, entry).catch((err) => {
+      logger.warn(`Failed to record egress denial for session "${this.sessionName}": ${err instanceof Error ? err.message : err}`);
+    });
+  }
+
+  /**
+   * Environment variables the sandboxed process needs: the egress proxy
+   * settings, in both cases since tools disagree on which they read.
+   * NO_PROXY is cleared so an inherited value cannot route around the proxy.
+   */
+  getEnv(): Record<string, string> {
+    const url = this.egressProxy?.getUrl();
+    if (!url) return {};
+    return {
+      HTTPS_PROXY: url,
+      HTTP_PROXY: url,
+      ALL_PROXY: url,
+      https_proxy: url,
+      http_proxy: url,
+      all_proxy: url,
+      NO_PROXY: '',
+      no_proxy: '',
+    };
+  }
+
   /**
    * Returns { cmd, args } to use in place of bare `claude` for each prompt
    * invocation. The caller prepends these to the claude argument list.
@@ -313,9 +614,11 @@ export class SandboxManager {
     switch (this.backend) {
       case 'podman':
       case 'docker': {
+        // `exec` does not inherit the caller's environment, so pass it explicitly
+        const envArgs = Object.entries(this.getEnv()).flatMap(([key, value]) => ['-e', `${key}=${value}`]);
         return {
           cmd: this.backend,
-          args: ['exec', this.containerId!, executable, ...execArgs],
+          args: ['exec', ...envArgs, this.containerId!, executable, ...execArgs],
         };
       }
 
@@ -334,12 +637,12 @@ export class SandboxManager {
               '--bind', this.workingDirectory, this.workingDirectory,
               '--tmpfs', '/tmp',
               '--ro-bind', this.providerConfigDir, this.providerConfigDir,
+              ...this.bwrapMountArgs(),
               '--dev', '/dev',
               '--proc', '/proc',
               '--unshare-all',
               '--share-net',  // Claude Code needs network access for API calls
-              executable,
-              ...execArgs,
+              ...this.bwrapCommand(executable, execArgs),
             ],
           };
         }
@@ -364,6 +667,7 @@ export class SandboxManager {
             '--tmpfs', '/tmp',
             '--bind', this.workingDirectory, this.workingDirectory,
             '--ro-bind', `${homedir}/.claude`, `${homedir}/.claude`,
+            ...this.bwrapMountArgs(),
             '--dev', '/dev',
             '--proc', '/proc',
             '--unshare-all',
@@ -375,7 +679,7 @@ export class SandboxManager {
             args.push('--rlimit-as', String(parseMemoryLimit(this.options.memoryLimit)));
           }
 
-          args.push(executable, ...execArgs);
+          args.push(...this.bwrapCommand(executable, execArgs));
           return { cmd: 'bwrap', args };
         }
 
@@ -397,6 +701,7 @@ export class SandboxManager {
           '--tmpfs', '/tmp',
           '--bind', this.workingDirectory, this.workingDirectory,
           '--ro-bind', `${homedir}/.claude`, `${homedir}/.claude`,
+          ...this.bwrapMountArgs(),
           '--dev', '/dev',
           '--proc', '/proc',
           '--unshare-all',
@@ -408,7 +713,7 @@ export class SandboxManager {
           strictArgs.push('--rlimit-as', String(parseMemoryLimit(this.options.memoryLimit)));
         }
 
-        strictArgs.push(executable, ...execArgs);
+        strictArgs.push(...this.bwrapCommand(executable, execArgs));
         return { cmd: 'bwrap', args: strictArgs };
       }
 
@@ -505,6 +810,13 @@ export class SandboxManager {
       exitCode3 = await this.runInSandbox(`ls ${homedir}/.ssh`);
     }
 
+    // Test 4: each mount policy rule holds inside the sandbox
+    const mounts: SandboxMountTestResult[] = [];
+    for (const mount of this.mounts) {
+      const exitCode = await this.runInSandbox(mountProbe(mount, canaryFilename));
+      mounts.push({ path: mount.path, access: mount.access, passed: exitCode === 0 });
+    }
+
     // Clean up any canary files written inside workdir
     try {
       await unlink(workdirCanary);
@@ -524,7 +836,8 @@ export class SandboxManager {
     const passed =
       writeInsideWorkdir &&
       !writeOutsideWorkdir &&
-      (readCredentialDir === false || readCredentialDir === null);
+      (readCredentialDir === false || readCredentialDir === null) &&
+      mounts.every((m) => m.passed);
 
     return {
       backend: this.backend,
@@ -532,6 +845,7 @@ export class SandboxManager {
       writeInsideWorkdir,
       writeOutsideWorkdir,
       readCredentialDir,
+      mounts,
       passed,
     };
   }
@@ -555,17 +869,23 @@ export class SandboxManager {
 
   /**
    * Tears down the sandbox.
-   * Docker/Podman: Force-removes the named container.
+   * Docker/Podman: Force-removes the named container; a pooled one is
+   *                never reused.
    * sandbox-exec:  Removes the private temp directory holding the profile.
    * bwrap:         No-op.
    */
   async stop(): Promise<void> {
+    await this.stopEgressProxy();
+
     switch (this.backend) {
       case 'podman':
       case 'docker': {
         // Guard: if start() was never called or failed before setting containerId,
         // there is nothing to remove.
         if (!this.containerId) break;
+        await this.pool?.release(this.containerId).catch((err) => {
+          logger.warn(`Could not release the container of session "${this.sessionName}" from the pool: ${(err as Error).message}`);
+        });
         const containerName = `agentspawn-${this.sessionName}`;
         await execFileAsync(this.backend, ['rm', '-f', containerName]);
         this.containerId = null;
@@ -585,7 +905,8 @@ export class SandboxManager {
       }
 
       case 'bwrap': {
-        // Stateless; nothing to tear down
+        // Stateless; the trace file is kept as part of the session's logs
+        this.tracer = null;
         break;
       }
     }
@@ -606,4 +927,38 @@ export class SandboxManager {
   getContainerId(): string | null {
     return this.containerId ?? null;
   }
+
+  /**
+   * How to sample what a prompt uses: the container's cgroup for
+   * Docker/Podman, whose `exec` client is all `pid` is, otherwise the
+   * process tree under `pid` (the bwrap or sandbox-exec process).
+   */
+  resourceSampler(pid: number): ResourceSampler {
+    if ((this.backend === 'docker' || this.backend === 'podman') && this.containerId) {
+      return containerSampler(this.backend, this.containerId);
+    }
+    return processTreeSampler(pid);
+  }
+}
+
+/**
+ * A shell command that exits 0 when the rule holds: a read-only path can be
+ * read but not written, a writable one written, and a denied one shows no
+ * contents. Canaries are removed even when a write should have failed.
+ */
+function mountProbe(mount: HostMount, canaryFilename: string): string {
+  const target = shellQuote(mount.path);
+  const canary = shellQuote(path.join(mount.path, canaryFilename));
+  switch (mount.access) {
+    case 'read-only':
+      return mount.directory
+        ? `ls ${target} >/dev/null && if touch ${canary} 2>/dev/null; then rm -f ${canary}; exit 1; fi`
+        : `cat ${target} >/dev/null && ! ( : >> ${target} ) 2>/dev/null`;
+    case 'writable':
+      return mount.directory ? `touch ${canary} && rm -f ${canary}` : `( : >> ${target} )`;
+    case 'deny':
+      return mount.directory
+        ? `test -z "$(ls -A ${target} 2>/dev/null)"`
+        : `test -z "$(cat ${target} 2>/dev/null)"`;
+  }
 }
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScheduleManager, describeTrigger, nextRunAfter, parseInterval } from './schedule.js';
+import {
+  InvalidScheduleError,
+  ScheduleAlreadyExistsError,
+  ScheduleCorruptError,
+  ScheduleNotFoundError,
+} from '../utils/errors.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+function tmpFile(): string {
+  return path.join(os.tmpdir(), `agentspawn-schedule-test-${Date.now()}-${Math.random().toString(36).slice(2)}`, 'schedules.json');
+}
+
+const T0 = new Date('2026-03-01T10:00:00.000Z');
+const minutes = (n: number) => new Date(T0.getTime() + n * 60_000);
+
+describe('schedule helpers', () => {
+  it('parses and describes intervals', () => {
+    expect(parseInterval('15m')).toBe(900_000);
+    expect(parseInterval('2h')).toBe(7_200_000);
+    expect(parseInterval('1d')).toBe(86_400_000);
+    expect(() => parseInterval('0m')).toThrow(InvalidScheduleError);
+    expect(() => parseInterval('30s')).toThrow(InvalidScheduleError);
+    expect(describeTrigger({ type: 'interval', everyMs: 7_200_000 })).toBe('every 2h');
+    expect(describeTrigger({ type: 'cron', expression: '0 9 * * 1-5' })).toBe('cron "0 9 * * 1-5"');
+  });
+
+  it('steps intervals from their anchor without drift', () => {
+    const trigger = { type: 'interval' as const, everyMs: 600_000 };
+    expect(nextRunAfter(trigger, T0)).toEqual(minutes(10));
+    expect(nextRunAfter(trigger, minutes(25), T0)).toEqual(minutes(30));
+    expect(nextRunAfter(trigger, minutes(10), minutes(10))).toEqual(minutes(20));
+  });
+
+  it('rejects cron expressions that never match', () => {
+    expect(() => nextRunAfter({ type: 'cron', expression: '0 0 30 2 *' }, T0)).toThrow('never matches');
+  });
+});
+
+describe('ScheduleManager', () => {
+  let filePath: string;
+  let schedules: ScheduleManager;
+
+  beforeEach(() => {
+    filePath = tmpFile();
+    schedules = new ScheduleManager(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  const every10m = { type: 'interval' as const, everyMs: 600_000 };
+
+  it('adds schedules with their first due time and lists them', async () => {
+    const entry = await schedules.add({ id: 'deps', sessionName: 'api', prompt: 'update deps', trigger: every10m }, T0);
+    expect(entry).toMatchObject({
+      id: 'deps',
+      missedRunPolicy: 'run-once',
+      paused: false,
+      nextRunAt: minutes(10).toISOString(),
+    });
+    expect(await schedules.list()).toEqual([entry]);
+    expect(await schedules.get('deps')).toEqual(entry);
+
+    const generated = await schedules.add({ sessionName: 'api', prompt: 'x', trigger: every10m }, T0);
+    expect(generated.id).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('rejects duplicate ids and invalid cron without writing', async () => {
+    await schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await expect(schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m })).rejects.toThrow(
+      ScheduleAlreadyExistsError,
+    );
+    await expect(
+      schedules.add({ id: 'b', sessionName: 's', prompt: 'p', trigger: { type: 'cron', expression: 'bad' } }),
+    ).rejects.toThrow(InvalidScheduleError);
+    expect((await schedules.list()).map((s) => s.id)).toEqual(['a']);
+  });
+
+  it('removes schedules', async () => {
+    await schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await schedules.remove('a');
+    expect(await schedules.list()).toEqual([]);
+    await expect(schedules.remove('a')).rejects.toThrow(ScheduleNotFoundError);
+  });
+
+  it('reschedules from now when resumed', async () => {
+    await schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await schedules.setPaused('a', true, minutes(5));
+    const resumed = await schedules.setPaused('a', false, minutes(42));
+    expect(resumed.paused).toBe(false);
+    expect(resumed.nextRunAt).toBe(minutes(52).toISOString());
+    await expect(schedules.setPaused('nope', true)).rejects.toThrow(ScheduleNotFoundError);
+  });
+
+  it('claims due schedules and advances them', async () => {
+    await schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await schedules.add({ id: 'paused', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await schedules.setPaused('paused', true);
+
+    expect(await schedules.claimDue(minutes(9), 60_000)).toEqual([]);
+
+    const due = await schedules.claimDue(minutes(10), 60_000);
+    expect(due.map((s) => s.id)).toEqual(['a']);
+    const entry = await schedules.get('a');
+    expect(entry.lastRunAt).toBe(minutes(10).toISOString());
+    expect(entry.nextRunAt).toBe(minutes(20).toISOString());
+
+    // Claimed once only
+    expect(await schedules.claimDue(minutes(10), 60_000)).toEqual([]);
+  });
+
+  it('leaves the file alone when nothing is due', async () => {
+    await schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    const before = await fs.stat(filePath);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(await schedules.claimDue(minutes(9), 60_000)).toEqual([]);
+    await schedules.recordResult('gone', 'succeeded');
+
+    expect((await fs.stat(filePath)).mtimeMs).toBe(before.mtimeMs);
+    await expect(fs.access(`${filePath}.lock`)).rejects.toThrow();
+  });
+
+  it('applies the missed-run policy to runs found late', async () => {
+    await schedules.add({ id: 'once', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await schedules.add({ id: 'skip', sessionName: 's', prompt: 'p', trigger: every10m, missedRunPolicy: 'skip' }, T0);
+
+    // Three runs were missed; the first is 35 minutes late
+    const due = await schedules.claimDue(minutes(45), 60_000);
+    expect(due.map((s) => s.id)).toEqual(['once']);
+
+    const skipped = await schedules.get('skip');
+    expect(skipped.lastStatus).toBe('skipped');
+    expect(skipped.lastError).toBe(`missed the run due at ${minutes(10).toISOString()}`);
+    expect(skipped.nextRunAt).toBe(minutes(50).toISOString());
+    expect((await schedules.get('once')).nextRunAt).toBe(minutes(50).toISOString());
+  });
+
+  it('records run results, ignoring removed schedules', async () => {
+    await schedules.add({ id: 'a', sessionName: 's', prompt: 'p', trigger: every10m }, T0);
+    await schedules.recordResult('a', 'failed', 'boom');
+    expect(await schedules.get('a')).toMatchObject({ lastStatus: 'failed', lastError: 'boom' });
+    await schedules.recordResult('a', 'succeeded');
+    expect((await schedules.get('a')).lastError).toBeUndefined();
+    await expect(schedules.recordResult('gone', 'succeeded')).resolves.toBeUndefined();
+  });
+
+  it('throws ScheduleCorruptError for an unreadable file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{nope', 'utf-8');
+    await expect(schedules.list()).rejects.toThrow(ScheduleCorruptError);
+  });
+});
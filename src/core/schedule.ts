@@ -0,0 +1,274 @@
+import { MissedRunPolicy, ScheduleData, ScheduleEntry, ScheduleRunStatus, ScheduleTrigger } from '../types.js';
+import {
+  InvalidScheduleError,
+  ScheduleAlreadyExistsError,
+  ScheduleCorruptError,
+  ScheduleLockError,
+  ScheduleNotFoundError,
+} from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { nextCronTime, parseCron } from './cron.js';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { lock } from 'proper-lockfile';
+
+const LOCK_OPTIONS = {
+  retries: { retries: 5, factor: 2, minTimeout: 100, maxTimeout: 2000 },
+  stale: 10_000,
+  realpath: false,
+};
+
+const INTERVAL_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+export const MISSED_RUN_POLICIES: MissedRunPolicy[] = ['skip', 'run-once'];
+
+function emptyData(): ScheduleData {
+  return { version: 1, schedules: {} };
+}
+
+/** Parse an interval like `15m`, `2h` or `1d`. */
+export function parseInterval(text: string): number {
+  const match = text.trim().match(/^(\d+)([mhd])$/);
+  if (!match || parseInt(match[1], 10) === 0) {
+    throw new InvalidScheduleError(`interval "${text}" must be a positive number of minutes, hours or days (e.g. 15m, 2h, 1d)`);
+  }
+  return parseInt(match[1], 10) * INTERVAL_UNITS[match[2]];
+}
+
+export function formatInterval(ms: number): string {
+  for (const unit of ['d', 'h', 'm']) {
+    if (ms % INTERVAL_UNITS[unit] === 0) return `${ms / INTERVAL_UNITS[unit]}${unit}`;
+  }
+  return `${ms}ms`;
+}
+
+export function describeTrigger(trigger: ScheduleTrigger): string {
+  return trigger.type === 'cron' ? `cron "${trigger.expression}"` : `every ${formatInterval(trigger.everyMs)}`;
+}
+
+/**
+ * The first time a trigger is due strictly after `after`. Intervals step
+ * from `anchor` (the previous due time) so they do not drift.
+ */
+export function nextRunAfter(trigger: ScheduleTrigger, after: Date, anchor: Date = after): Date {
+  if (trigger.type === 'interval') {
+    const steps = Math.max(1, Math.floor((after.getTime() - anchor.getTime()) / trigger.everyMs) + 1);
+    return new Date(anchor.getTime() + steps * trigger.everyMs);
+  }
+  const next = nextCronTime(parseCron(trigger.expression), after);
+  if (!next) {
+    throw new InvalidScheduleError(`cron expression "${trigger.expression}" never matches`);
+  }
+  return next;
+}
+
+export interface ScheduleInput {
+  /** Defaults to a random id. */
+  id?: string;
+  sessionName: string;
+  prompt: string;
+  trigger: ScheduleTrigger;
+  missedRunPolicy?: MissedRunPolicy;
+}
+
+/**
+ * ScheduleManager — scheduled prompts in a JSON file, guarded by the same
+ * lock and atomic-write pattern as TemplateManager so the CLI can edit
+ * schedules while the daemon's Scheduler claims due runs.
+ */
+export class ScheduleManager {
+  constructor(private readonly filePath: string) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<ScheduleData> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        logger.error(`Schedules file is corrupt: ${this.filePath}`);
+        throw new ScheduleCorruptError(this.filePath);
+      }
+
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        typeof (parsed as Record<string, unknown>).version !== 'number' ||
+        typeof (parsed as Record<string, unknown>).schedules !== 'object' ||
+        (parsed as Record<string, unknown>).schedules === null
+      ) {
+        logger.error(`Schedules file has invalid structure: ${this.filePath}`);
+        throw new ScheduleCorruptError(this.filePath);
+      }
+
+      return parsed as ScheduleData;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyData();
+      }
+      throw err;
+    }
+  }
+
+  async save(data: ScheduleData): Promise<void> {
+    const dir = path.dirname(this.filePath);
+    await fs.mkdir(dir, { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+    logger.debug(`Schedules saved to ${this.filePath}`);
+  }
+
+  async withLock<T>(mutator: (data: ScheduleData) => T): Promise<T> {
+    // Ensure the file exists before locking (proper-lockfile requires it)
+    const dir = path.dirname(this.filePath);
+    await fs.mkdir(dir, { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await fs.writeFile(
+        this.filePath,
+        JSON.stringify(emptyData(), null, 2),
+        'utf-8',
+      );
+    }
+
+    let release: (() => Promise<void>) | undefined;
+    try {
+      release = await lock(this.filePath, LOCK_OPTIONS);
+    } catch (err: unknown) {
+      throw new ScheduleLockError(this.filePath, err instanceof Error ? err : undefined);
+    }
+
+    try {
+      const data = await this.load();
+      const before = JSON.stringify(data);
+      const result = mutator(data);
+      // Left alone when nothing changed, e.g. a scheduler tick with nothing due
+      if (JSON.stringify(data) !== before) await this.save(data);
+      return result;
+    } finally {
+      try {
+        await release();
+      } catch {
+        // Lock may already be released if the file was removed
+      }
+    }
+  }
+
+  async add(input: ScheduleInput, now: Date = new Date()): Promise<ScheduleEntry> {
+    // Validates the cron expression before anything is written
+    const nextRunAt = nextRunAfter(input.trigger, now).toISOString();
+
+    return this.withLock((data) => {
+      const id = input.id ?? crypto.randomBytes(4).toString('hex');
+      if (data.schedules[id]) {
+        throw new ScheduleAlreadyExistsError(id);
+      }
+      const entry: ScheduleEntry = {
+        id,
+        sessionName: input.sessionName,
+        prompt: input.prompt,
+        trigger: input.trigger,
+        missedRunPolicy: input.missedRunPolicy ?? 'run-once',
+        paused: false,
+        createdAt: now.toISOString(),
+        nextRunAt,
+      };
+      data.schedules[id] = entry;
+      return entry;
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.withLock((data) => {
+      if (!data.schedules[id]) {
+        throw new ScheduleNotFoundError(id);
+      }
+      delete data.schedules[id];
+    });
+  }
+
+  /**
+   * Pause or resume a schedule. Resuming picks the next due time from now,
+   * so runs that fell inside the pause are not treated as missed.
+   */
+  async setPaused(id: string, paused: boolean, now: Date = new Date()): Promise<ScheduleEntry> {
+    return this.withLock((data) => {
+      const entry = data.schedules[id];
+      if (!entry) {
+        throw new ScheduleNotFoundError(id);
+      }
+      if (entry.paused && !paused) {
+        entry.nextRunAt = nextRunAfter(entry.trigger, now).toISOString();
+      }
+      entry.paused = paused;
+      return entry;
+    });
+  }
+
+  async list(): Promise<ScheduleEntry[]> {
+    const data = await this.load();
+    return Object.values(data.schedules);
+  }
+
+  async get(id: string): Promise<ScheduleEntry> {
+    const data = await this.load();
+    const entry = data.schedules[id];
+    if (!entry) {
+      throw new ScheduleNotFoundError(id);
+    }
+    return entry;
+  }
+
+  /**
+   * Claim every unpaused schedule that is due at `now` and move it to its
+   * next due time. A due time more than `graceMs` in the past was missed:
+   * under `skip` it is recorded as skipped instead of being returned.
+   * Returns the schedules that should run now. The file is only locked
+   * and written when something is due.
+   */
+  async claimDue(now: Date, graceMs: number): Promise<ScheduleEntry[]> {
+    const isDue = (entry: ScheduleEntry): boolean => !entry.paused && new Date(entry.nextRunAt).getTime() <= now.getTime();
+    if (!Object.values((await this.load()).schedules).some(isDue)) return [];
+
+    return this.withLock((data) => {
+      const due: ScheduleEntry[] = [];
+      for (const entry of Object.values(data.schedules)) {
+        if (!isDue(entry)) continue;
+        const dueAt = new Date(entry.nextRunAt);
+
+        entry.nextRunAt = nextRunAfter(entry.trigger, now, dueAt).toISOString();
+        const missed = now.getTime() - dueAt.getTime() > graceMs;
+        if (missed && entry.missedRunPolicy === 'skip') {
+          entry.lastStatus = 'skipped';
+          entry.lastError = `missed the run due at ${dueAt.toISOString()}`;
+          continue;
+        }
+        entry.lastRunAt = now.toISOString();
+        due.push({ ...entry });
+      }
+      return due;
+    });
+  }
+
+  /** Record how a claimed run went. Schedules removed meanwhile are ignored. */
+  async recordResult(id: string, status: ScheduleRunStatus, error?: string): Promise<void> {
+    await this.withLock((data) => {
+      const entry = data.schedules[id];
+      if (!entry) return;
+      entry.lastStatus = status;
+      if (error) {
+        entry.lastError = error;
+      } else {
+        delete entry.lastError;
+      }
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Scheduler } from './scheduler.js';
+import { ScheduleManager } from './schedule.js';
+import { SessionNotFoundError } from '../utils/errors.js';
+import type { SessionManager } from './manager.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+const T0 = new Date('2026-03-01T10:00:00.000Z');
+const minutes = (n: number) => new Date(T0.getTime() + n * 60_000);
+const every10m = { type: 'interval' as const, everyMs: 600_000 };
+
+describe('Scheduler', () => {
+  let dir: string;
+  let schedules: ScheduleManager;
+  let sendPrompt: ReturnType<typeof vi.fn>;
+  let manager: { getSession: ReturnType<typeof vi.fn>; adoptSession: ReturnType<typeof vi.fn> };
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    dir = path.join(os.tmpdir(), `agentspawn-scheduler-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    schedules = new ScheduleManager(path.join(dir, 'schedules.json'));
+    sendPrompt = vi.fn().mockResolvedValue('done');
+    manager = {
+      getSession: vi.fn((name: string) => (name === 'api' ? { sendPrompt } : undefined)),
+      adoptSession: vi.fn(async (name: string) => {
+        throw new SessionNotFoundError(name);
+      }),
+    };
+    scheduler = new Scheduler(manager as unknown as SessionManager, schedules, { graceMs: 60_000 });
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('sends due prompts tagged with the schedule id and records success', async () => {
+    await schedules.add({ id: 'deps', sessionName: 'api', prompt: 'update deps', trigger: every10m }, T0);
+
+    await scheduler.tick(minutes(5));
+    expect(sendPrompt).not.toHaveBeenCalled();
+
+    await scheduler.tick(minutes(10));
+    await scheduler.idle();
+    expect(sendPrompt).toHaveBeenCalledWith('update deps', { scheduleId: 'deps' });
+    expect(await schedules.get('deps')).toMatchObject({
+      lastStatus: 'succeeded',
+      lastRunAt: minutes(10).toISOString(),
+      nextRunAt: minutes(20).toISOString(),
+    });
+  });
+
+  it('adopts registry sessions and records failures', async () => {
+    await schedules.add({ id: 'gone', sessionName: 'missing', prompt: 'p', trigger: every10m }, T0);
+
+    await scheduler.tick(minutes(10));
+    await scheduler.idle();
+
+    expect(manager.adoptSession).toHaveBeenCalledWith('missing');
+    expect(await schedules.get('gone')).toMatchObject({ lastStatus: 'failed', lastError: 'Session not found: missing' });
+  });
+
+  it('skips a run while the previous one is still in flight', async () => {
+    let finish: (value: string) => void = () => {};
+    sendPrompt.mockImplementationOnce(() => new Promise<string>((resolve) => { finish = resolve; }));
+    await schedules.add({ id: 'slow', sessionName: 'api', prompt: 'p', trigger: every10m }, T0);
+
+    await scheduler.tick(minutes(10));
+    await scheduler.tick(minutes(20));
+    expect(sendPrompt).toHaveBeenCalledTimes(1);
+    expect(await schedules.get('slow')).toMatchObject({ lastStatus: 'skipped' });
+
+    finish('ok');
+    await scheduler.idle();
+    expect((await schedules.get('slow')).lastStatus).toBe('succeeded');
+  });
+
+  it('ticks on an interval once started', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    try {
+      const tick = vi.spyOn(scheduler, 'tick').mockResolvedValue();
+      scheduler.start();
+      expect(tick).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(15_000);
+      expect(tick).toHaveBeenCalledTimes(2);
+      await scheduler.stop();
+      vi.advanceTimersByTime(60_000);
+      expect(tick).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import type { SessionManager } from './manager.js';
+import type { ScheduleManager } from './schedule.js';
+import type { ScheduleEntry, ScheduleRunStatus } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/** How often the schedules file is checked for due runs. */
+const DEFAULT_TICK_MS = 15_000;
+/**
+ * A run picked up within this long of its due time is on time; later than
+ * that it was missed (no scheduler was running) and its missed-run policy
+ * applies. Must be comfortably longer than the tick.
+ */
+const DEFAULT_GRACE_MS = 90_000;
+
+export interface SchedulerOptions {
+  tickMs?: number;
+  graceMs?: number;
+}
+
+/**
+ * Scheduler — fires scheduled prompts into SessionManager sessions. Runs
+ * inside the daemon; schedules are re-read from ScheduleManager on every
+ * tick, so `agentspawn schedule` edits take effect without a restart.
+ *
+ * A schedule never overlaps itself: a run that comes due while the
+ * previous one is still in flight is recorded as skipped.
+ */
+export class Scheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<void> | null = null;
+  private inFlight: Map<string, Promise<void>> = new Map();
+  private readonly tickMs: number;
+  private readonly graceMs: number;
+
+  constructor(
+    private readonly manager: SessionManager,
+    private readonly schedules: ScheduleManager,
+    options: SchedulerOptions = {},
+  ) {
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+    this.graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), this.tickMs);
+    void this.tick();
+  }
+
+  /** Stop ticking. Prompts already sent keep running in their sessions. */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.ticking;
+  }
+
+  /** Claim and fire every due schedule. Concurrent calls share one pass. */
+  tick(now: Date = new Date()): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runDue(now).finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  /** Resolves once every fired run has finished and been recorded. */
+  async idle(): Promise<void> {
+    await Promise.allSettled([...this.inFlight.values()]);
+  }
+
+  private async runDue(now: Date): Promise<void> {
+    let due: ScheduleEntry[];
+    try {
+      due = await this.schedules.claimDue(now, this.graceMs);
+    } catch (err) {
+      logger.warn(`Failed to read schedules: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+
+    for (const entry of due) {
+      if (this.inFlight.has(entry.id)) {
+        logger.warn(`Schedule "${entry.id}" skipped: the previous run is still in progress`);
+        await this.record(entry.id, 'skipped', 'the previous run was still in progress');
+        continue;
+      }
+      const run = this.fire(entry).finally(() => this.inFlight.delete(entry.id));
+      this.inFlight.set(entry.id, run);
+    }
+  }
+
+  private async fire(entry: ScheduleEntry): Promise<void> {
+    try {
+      const session =
+        this.manager.getSession(entry.sessionName) ?? (await this.manager.adoptSession(entry.sessionName));
+      logger.info(`Schedule "${entry.id}" sending prompt to session "${entry.sessionName}"`);
+      await session.sendPrompt(entry.prompt, { scheduleId: entry.id });
+      await this.record(entry.id, 'succeeded');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`Schedule "${entry.id}" failed in session "${entry.sessionName}": ${message}`);
+      await this.record(entry.id, 'failed', message);
+    }
+  }
+
+  private async record(id: string, status: ScheduleRunStatus, error?: string): Promise<void> {
+    try {
+      await this.schedules.recordResult(id, status, error);
+    } catch (err) {
+      logger.warn(`Failed to record result of schedule "${id}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
@@ -3,10 +3,18 @@ import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as childProcess from 'node:child_process';
 import { Session } from './session.js';
 import { SessionState, SessionConfig } from '../types.js';
-import { PromptTimeoutError } from '../utils/errors.js';
+import { ExternalProviderAdapter, linesParser } from './providers/external.js';
+import type { ProviderAdapter, ProviderEvent, ProviderRequest } from './providers/provider.js';
+import {
+  PromptCancelledError,
+  PromptDroppedError,
+  PromptTimeoutError,
+  QueuedPromptNotFoundError,
+} from '../utils/errors.js';
 
 vi.mock('node:child_process', () => ({
   spawn: vi.fn(),
+  execFile: vi.fn(),
 }));
 
 const mockedSpawn = vi.mocked(childProcess.spawn);
@@ -159,6 +167,34 @@ describe('Session', () => {
     expect(result).toBe('world');
   });
 
+  it('skips output lines the provider fails to parse', async () => {
+    const mockChild = createMockChild(42);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedSpawn.mockReturnValue(mockChild as any);
+    const provider: ProviderAdapter = {
+      type: 'claude',
+      binary: 'claude',
+      configDir: '',
+      supportsNativeSession: true,
+      buildFirstPromptArgs: () => [],
+      buildResumeArgs: () => [],
+      buildModeArgs: () => [],
+      extractText: () => null,
+      parseEvents: (line) => {
+        if (line === 'bad') throw new Error('unexpected line');
+        return [{ type: 'text', text: line }];
+      },
+    };
+    const parsing = new Session(config, 5000, undefined, undefined, undefined, undefined, provider);
+    await parsing.start();
+
+    const promptPromise = parsing.sendPrompt('hello');
+    mockChild.stdout.emit('data', Buffer.from('good\nbad\nbetter\n'));
+    mockChild.emit('close', 0);
+
+    expect(await promptPromise).toBe('goodbetter');
+  });
+
   it('sendPrompt() uses --resume on subsequent prompts', async () => {
     const mockChild1 = createMockChild(42);
     const mockChild2 = createMockChild(43);
@@ -190,6 +226,25 @@ describe('Session', () => {
     expect(result).toBe('response2');
   });
 
+  it('sendPrompt() passes the prompt as an argument to providers that take it that way', async () => {
+    const mockChild = createMockChild(42);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedSpawn.mockReturnValue(mockChild as any);
+    const provider = new ExternalProviderAdapter('aider', { binary: 'aider', firstPromptArgs: ['--message', '{{prompt}}'] }, linesParser);
+    const aiderSession = new Session(config, 5000, undefined, undefined, undefined, undefined, provider);
+    await aiderSession.start();
+
+    const p = aiderSession.sendPrompt('fix the tests');
+
+    expect(mockedSpawn).toHaveBeenCalledWith('aider', ['--message', 'fix the tests'], expect.anything());
+    expect(mockChild.stdin.write).not.toHaveBeenCalled();
+    expect(mockChild.stdin.end).toHaveBeenCalled();
+
+    mockChild.stdout.emit('data', Buffer.from('Fixed 2 tests\n'));
+    mockChild.emit('close', 0);
+    expect(await p).toBe('Fixed 2 tests');
+  });
+
   it('sendPrompt() emits promptStart, data, and promptComplete events', async () => {
     const mockChild = createMockChild(42);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -247,22 +302,197 @@ describe('Session', () => {
     expect(errorHandler).toHaveBeenCalledTimes(1);
   });
 
-  it('sendPrompt() throws if already processing a prompt', async () => {
+  it('sendPrompt() queues a prompt while another is processing', async () => {
+    const first = createMockChild(42);
+    const second = createMockChild(43);
+    mockedSpawn
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .mockReturnValueOnce(first as any)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .mockReturnValueOnce(second as any);
+
+    await session.start();
+
+    const queuedHandler = vi.fn();
+    session.on('promptQueued', queuedHandler);
+
+    const p1 = session.sendPrompt('first');
+    expect(session.isProcessing()).toBe(true);
+
+    const p2 = session.sendPrompt('second');
+    expect(mockedSpawn).toHaveBeenCalledTimes(1);
+    expect(queuedHandler).toHaveBeenCalledWith(expect.objectContaining({
+      sessionName: 'test-session',
+      queueDepth: 1,
+      entry: expect.objectContaining({ id: 1, prompt: 'second', priority: 0 }),
+    }));
+    expect(session.getInfo().queueDepth).toBe(1);
+
+    first.stdout.emit('data', assistantEvent('one'));
+    first.emit('close', 0);
+    await expect(p1).resolves.toBe('one');
+
+    // The queued prompt starts once the first settles
+    await vi.waitFor(() => expect(mockedSpawn).toHaveBeenCalledTimes(2));
+    second.stdout.emit('data', assistantEvent('two'));
+    second.emit('close', 0);
+    await expect(p2).resolves.toBe('two');
+    expect(session.getInfo().queueDepth).toBe(0);
+  });
+
+  it('sendPrompt() emits providerEvent for tool use and the final result', async () => {
     const mockChild = createMockChild(42);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     mockedSpawn.mockReturnValue(mockChild as any);
+    await session.start();
+
+    const events: Array<{ type: string }> = [];
+    session.on('providerEvent', (e: { type: string }) => events.push(e));
 
+    const p = session.sendPrompt('run the tests');
+    const toolUse = {
+      type: 'assistant',
+      message: { content: [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'npm test' } }] },
+    };
+    const result = { type: 'result', is_error: false, usage: { input_tokens: 10, output_tokens: 5 } };
+    mockChild.stdout.emit('data', Buffer.from(JSON.stringify(toolUse) + '\n'));
+    mockChild.stdout.emit('data', assistantEvent('All green'));
+    mockChild.stdout.emit('data', Buffer.from(JSON.stringify(result) + '\n'));
+    mockChild.emit('close', 0);
+
+    await expect(p).resolves.toBe('All green');
+    expect(events.map((e) => e.type)).toEqual(['tool_use', 'text', 'result']);
+    expect(events[0]).toMatchObject({ name: 'Bash', summary: 'Ran npm test' });
+  });
+
+  it('getMetrics() accumulates provider-reported usage and cost across prompts', async () => {
     await session.start();
+    expect(session.getMetrics().usage).toBeUndefined();
 
-    // Start first prompt (don't resolve it)
-    session.sendPrompt('first');
+    for (const [input, cost] of [[100, 0.01], [250, 0.02]] as const) {
+      const mockChild = createMockChild(42);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValue(mockChild as any);
+      const p = session.sendPrompt('go');
+      const result = {
+        type: 'result',
+        is_error: false,
+        total_cost_usd: cost,
+        usage: { input_tokens: input, output_tokens: 10, cache_read_input_tokens: 5 },
+      };
+      mockChild.stdout.emit('data', Buffer.from(JSON.stringify(result) + '\n'));
+      mockChild.emit('close', 0);
+      await p;
+    }
+
+    const metrics = session.getMetrics();
+    expect(metrics.usage).toEqual({
+      inputTokens: 350,
+      outputTokens: 20,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 10,
+    });
+    expect(metrics.costUsd).toBeCloseTo(0.03);
+  });
+
+  it('setPromptGuard() refuses prompts and drops queued ones that fail the guard', async () => {
+    const mockChild = createMockChild(42);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedSpawn.mockReturnValue(mockChild as any);
+    await session.start();
+
+    let allowed = true;
+    session.setPromptGuard(() => {
+      if (!allowed) throw new Error('over budget');
+    });
+
+    const first = session.sendPrompt('first');
+    const queued = session.sendPrompt('queued');
+    allowed = false;
+    await expect(session.sendPrompt('refused')).rejects.toThrow('over budget');
+
+    mockChild.stdout.emit('data', assistantEvent('done'));
+    mockChild.emit('close', 0);
+    await expect(first).resolves.toBe('done');
+    await expect(queued).rejects.toThrow('over budget');
+    expect(session.getQueue()).toEqual([]);
+  });
+
+  it('setBeforePrompt() runs after promptStart and holds back the spawn and the queue until it settles', async () => {
+    const mockChild = createMockChild(42);
+    const secondChild = createMockChild(43);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedSpawn.mockReturnValueOnce(mockChild as any).mockReturnValueOnce(secondChild as any);
+    await session.start();
 
+    const order: string[] = [];
+    let release!: () => void;
+    session.on('promptStart', (prompt: string) => order.push(`start:${prompt}`));
+    session.setBeforePrompt(async (prompt) => {
+      order.push(`before:${prompt}`);
+      await new Promise<void>((resolve) => { release = resolve; });
+    });
+
+    const first = session.sendPrompt('first');
+    const second = session.sendPrompt('second');
+    expect(order).toEqual(['start:first', 'before:first']);
     expect(session.isProcessing()).toBe(true);
+    expect(session.getQueue()).toHaveLength(1);
+    expect(mockedSpawn).not.toHaveBeenCalled();
 
-    await expect(session.sendPrompt('second')).rejects.toThrow('already processing');
+    release();
+    await vi.waitFor(() => expect(mockedSpawn).toHaveBeenCalledTimes(1));
+    mockChild.stdout.emit('data', assistantEvent('done'));
+    mockChild.emit('close', 0);
+    await expect(first).resolves.toBe('done');
+
+    await vi.waitFor(() => expect(order).toEqual(['start:first', 'before:first', 'start:second', 'before:second']));
+    release();
+    await vi.waitFor(() => expect(mockedSpawn).toHaveBeenCalledTimes(2));
+    secondChild.stdout.emit('data', assistantEvent('again'));
+    secondChild.emit('close', 0);
+    await expect(second).resolves.toBe('again');
+  });
 
-    // Clean up: resolve the first prompt
+  it('cancelPrompt() while the before-prompt hook runs drops the prompt once the hook settles', async () => {
+    const mockChild = createMockChild(42);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedSpawn.mockReturnValue(mockChild as any);
+    await session.start();
+    let release!: () => void;
+    session.setBeforePrompt(() => new Promise<void>((resolve) => { release = resolve; }));
+    const cancelled = vi.fn();
+    session.on('promptCancelled', cancelled);
+
+    const first = session.sendPrompt('first');
+    const second = session.sendPrompt('second');
+    expect(session.cancelPrompt()).toBe(true);
+    release();
+
+    await expect(first).rejects.toBeInstanceOf(PromptCancelledError);
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ promptText: 'first', partialResponse: '' }));
+    await vi.waitFor(() => expect(session.isProcessing()).toBe(true));
+    release();
+    await vi.waitFor(() => expect(mockedSpawn).toHaveBeenCalledTimes(1));
+    mockChild.stdout.emit('data', assistantEvent('ran'));
     mockChild.emit('close', 0);
+    await expect(second).resolves.toBe('ran');
+  });
+
+  it('setBeforePrompt() failures do not stop the prompt', async () => {
+    const mockChild = createMockChild(42);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedSpawn.mockReturnValue(mockChild as any);
+    await session.start();
+    session.setBeforePrompt(async () => {
+      throw new Error('disk full');
+    });
+
+    const p = session.sendPrompt('hello');
+    await vi.waitFor(() => expect(mockedSpawn).toHaveBeenCalledTimes(1));
+    mockChild.stdout.emit('data', assistantEvent('hi'));
+    mockChild.emit('close', 0);
+    await expect(p).resolves.toBe('hi');
   });
 
   it('sendPrompt() streams data chunks via data event', async () => {
@@ -650,6 +880,313 @@ describe('Session', () => {
     });
   });
 
+  describe('streaming providers', () => {
+    /** A provider with streamPrompt() whose replies each test scripts. */
+    function streamingProvider(reply: (request: ProviderRequest) => AsyncIterable<ProviderEvent>): ProviderAdapter & { requests: ProviderRequest[] } {
+      const requests: ProviderRequest[] = [];
+      return {
+        type: 'ollama-http',
+        binary: '',
+        configDir: '',
+        supportsNativeSession: false,
+        requests,
+        buildFirstPromptArgs: () => [],
+        buildResumeArgs: () => [],
+        buildModeArgs: () => [],
+        extractText: () => null,
+        parseEvents: () => [],
+        streamPrompt(request) {
+          requests.push(request);
+          return reply(request);
+        },
+      };
+    }
+
+    /** Yield `text`, then wait until the request is aborted. */
+    async function* hangAfter(text: string, request: ProviderRequest): AsyncIterable<ProviderEvent> {
+      yield { type: 'text', text };
+      await new Promise((resolve) => request.signal.addEventListener('abort', resolve));
+      throw new Error('This operation was aborted');
+    }
+
+    it('sends earlier turns as messages instead of spawning a process', async () => {
+      const provider = streamingProvider(async function* (request) {
+        yield { type: 'text', text: `reply ${request.messages.length}` };
+        yield { type: 'result', isError: false, usage: { inputTokens: 10, outputTokens: 2 } };
+      });
+      const httpSession = new Session(config, 5000, undefined, undefined, undefined, undefined, provider);
+      await httpSession.start();
+      const chunks: string[] = [];
+      httpSession.on('data', (chunk: string) => chunks.push(chunk));
+
+      expect(await httpSession.sendPrompt('Hi')).toBe('reply 1');
+      expect(await httpSession.sendPrompt('Again')).toBe('reply 3');
+
+      expect(mockedSpawn).not.toHaveBeenCalled();
+      expect(provider.requests[1].messages).toEqual([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'reply 1' },
+        { role: 'user', content: 'Again' },
+      ]);
+      expect(chunks).toEqual(['reply 1', 'reply 3']);
+      expect(httpSession.getMetrics()).toMatchObject({ promptCount: 2, usage: { inputTokens: 20, outputTokens: 4 } });
+    });
+
+    it('cancelPrompt() aborts the request and keeps the session usable', async () => {
+      const provider = streamingProvider((request) => hangAfter('partial', request));
+      const httpSession = new Session(config, 5000, undefined, undefined, undefined, undefined, provider);
+      await httpSession.start();
+      const cancelled: unknown[] = [];
+      httpSession.on('promptCancelled', (event) => cancelled.push(event));
+
+      const p = httpSession.sendPrompt('long task');
+      expect(httpSession.isProcessing()).toBe(true);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(httpSession.cancelPrompt()).toBe(true);
+      await expect(p).rejects.toThrow(PromptCancelledError);
+      expect(provider.requests[0].signal.aborted).toBe(true);
+      expect(cancelled).toEqual([{ sessionName: 'test-session', promptText: 'long task', partialResponse: 'partial' }]);
+      expect(httpSession.isProcessing()).toBe(false);
+      expect(httpSession.getState()).toBe(SessionState.Running);
+    });
+
+    it('aborts the request when the prompt times out', async () => {
+      const provider = streamingProvider((request) => hangAfter('partial', request));
+      const httpSession = new Session({ ...config, promptTimeoutMs: 20 }, 5000, undefined, undefined, undefined, undefined, provider);
+      await httpSession.start();
+
+      await expect(httpSession.sendPrompt('slow')).rejects.toThrow(PromptTimeoutError);
+      expect(provider.requests[0].signal.aborted).toBe(true);
+    });
+
+    it('rejects and emits promptError when the request fails', async () => {
+      const provider = streamingProvider(async function* () {
+        throw new Error('ollama-http request to http://localhost:11434/api/chat failed: connect ECONNREFUSED');
+      });
+      const httpSession = new Session(config, 5000, undefined, undefined, undefined, undefined, provider);
+      await httpSession.start();
+      const errors: Error[] = [];
+      httpSession.on('promptError', (err: Error) => errors.push(err));
+
+      await expect(httpSession.sendPrompt('Hi')).rejects.toThrow('ECONNREFUSED');
+      expect(errors).toHaveLength(1);
+      expect(httpSession.isProcessing()).toBe(false);
+    });
+  });
+
+  describe('cancelPrompt()', () => {
+    it('returns false when no prompt is in progress', async () => {
+      await session.start();
+      expect(session.cancelPrompt()).toBe(false);
+    });
+
+    it('kills the child and rejects with PromptCancelledError', async () => {
+      await session.start();
+      const mockChild = createMockChild(42);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValue(mockChild as any);
+
+      const p = session.sendPrompt('long task');
+      expect(session.cancelPrompt()).toBe(true);
+      expect(mockChild.kill).toHaveBeenCalledWith('SIGTERM');
+
+      mockChild.emit('close', null);
+      await expect(p).rejects.toThrow(PromptCancelledError);
+    });
+
+    it('emits promptCancelled with the partial response and keeps the session running', async () => {
+      await session.start();
+      const mockChild = createMockChild(42);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValue(mockChild as any);
+
+      const cancelledHandler = vi.fn();
+      const crashedHandler = vi.fn();
+      const errorHandler = vi.fn();
+      session.on('promptCancelled', cancelledHandler);
+      session.on('crashed', crashedHandler);
+      session.on('promptError', errorHandler);
+
+      const p = session.sendPrompt('long task');
+      mockChild.stdout.emit('data', assistantEvent('half done'));
+      session.cancelPrompt();
+      mockChild.emit('close', null);
+      await p.catch(() => {});
+
+      expect(cancelledHandler).toHaveBeenCalledWith({
+        sessionName: 'test-session',
+        promptText: 'long task',
+        partialResponse: 'half done',
+      });
+      expect(crashedHandler).not.toHaveBeenCalled();
+      expect(errorHandler).not.toHaveBeenCalled();
+      expect(session.getState()).toBe(SessionState.Running);
+      expect(session.isProcessing()).toBe(false);
+    });
+
+    it('accepts a new prompt after cancellation', async () => {
+      await session.start();
+      const first = createMockChild(42);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValueOnce(first as any);
+
+      const p1 = session.sendPrompt('first');
+      session.cancelPrompt();
+      first.emit('close', null);
+      await p1.catch(() => {});
+
+      const second = createMockChild(43);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockedSpawn.mockReturnValueOnce(second as any);
+      const p2 = session.sendPrompt('second');
+      second.stdout.emit('data', assistantEvent('ok'));
+      second.emit('close', 0);
+
+      await expect(p2).resolves.toBe('ok');
+    });
+  });
+
+  describe('prompt queue', () => {
+    let children: MockChildProcess[];
+
+    beforeEach(async () => {
+      children = [];
+      mockedSpawn.mockImplementation(() => {
+        const child = createMockChild(100 + children.length);
+        children.push(child);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return child as any;
+      });
+      await session.start();
+    });
+
+    function finish(child: MockChildProcess): void {
+      child.emit('close', 0);
+    }
+
+    it('orders by priority, then FIFO within a priority', async () => {
+      const started: string[] = [];
+      session.on('promptStart', (p: string) => started.push(p));
+
+      const running = session.sendPrompt('running');
+      const low = session.sendPrompt('low-a');
+      const lowB = session.sendPrompt('low-b');
+      const high = session.sendPrompt('high', { priority: 5 });
+
+      expect(session.getQueue().map((q) => q.prompt)).toEqual(['high', 'low-a', 'low-b']);
+
+      for (const p of [running, high, low, lowB]) {
+        await vi.waitFor(() => expect(children.length).toBe(started.length));
+        finish(children[children.length - 1]);
+        await p;
+      }
+
+      expect(started).toEqual(['running', 'high', 'low-a', 'low-b']);
+    });
+
+    it('passes the schedule id of direct and queued prompts to promptStart', async () => {
+      const started: Array<[string, string | undefined]> = [];
+      session.on('promptStart', (p: string, scheduleId?: string) => started.push([p, scheduleId]));
+
+      const direct = session.sendPrompt('direct', { scheduleId: 'a' });
+      const queued = session.sendPrompt('queued', { scheduleId: 'b' });
+      const manual = session.sendPrompt('manual');
+
+      for (const p of [direct, queued, manual]) {
+        await vi.waitFor(() => expect(children.length).toBe(started.length));
+        finish(children[children.length - 1]);
+        await p;
+      }
+
+      expect(started).toEqual([['direct', 'a'], ['queued', 'b'], ['manual', undefined]]);
+    });
+
+    it('calls onData only with the output of its own prompt', async () => {
+      const firstChunks: string[] = [];
+      const queuedChunks: string[] = [];
+
+      const first = session.sendPrompt('first', { onData: (c) => firstChunks.push(c) });
+      const queued = session.sendPrompt('queued', { onData: (c) => queuedChunks.push(c) });
+
+      children[0].stdout.emit('data', assistantEvent('one'));
+      finish(children[0]);
+      await first;
+      await vi.waitFor(() => expect(children).toHaveLength(2));
+      children[1].stdout.emit('data', assistantEvent('two'));
+      finish(children[1]);
+      await queued;
+
+      expect(firstChunks).toEqual(['one']);
+      expect(queuedChunks).toEqual(['two']);
+    });
+
+    it('emits promptDequeued when a queued prompt starts', async () => {
+      const dequeued = vi.fn();
+      session.on('promptDequeued', dequeued);
+
+      const running = session.sendPrompt('running');
+      const next = session.sendPrompt('next');
+      finish(children[0]);
+      await running;
+
+      await vi.waitFor(() => expect(dequeued).toHaveBeenCalledTimes(1));
+      expect(dequeued).toHaveBeenCalledWith(expect.objectContaining({
+        reason: 'started',
+        queueDepth: 0,
+        entry: expect.objectContaining({ prompt: 'next' }),
+      }));
+      finish(children[1]);
+      await next;
+    });
+
+    it('dropQueuedPrompt rejects the dropped prompt with PromptDroppedError', async () => {
+      const dequeued = vi.fn();
+      session.on('promptDequeued', dequeued);
+
+      const running = session.sendPrompt('running');
+      const doomed = session.sendPrompt('doomed');
+      const [entry] = session.getQueue();
+
+      session.dropQueuedPrompt(entry.id);
+
+      await expect(doomed).rejects.toThrow(PromptDroppedError);
+      expect(dequeued).toHaveBeenCalledWith(expect.objectContaining({ reason: 'dropped' }));
+      expect(session.getQueue()).toEqual([]);
+
+      finish(children[0]);
+      await running;
+      expect(children).toHaveLength(1);
+    });
+
+    it('dropQueuedPrompt throws QueuedPromptNotFoundError for unknown ids', () => {
+      expect(() => session.dropQueuedPrompt(99)).toThrow(QueuedPromptNotFoundError);
+    });
+
+    it('clearQueue drops everything but leaves the running prompt alone', async () => {
+      const running = session.sendPrompt('running');
+      const a = session.sendPrompt('a');
+      const b = session.sendPrompt('b');
+
+      expect(session.clearQueue()).toBe(2);
+      await expect(a).rejects.toThrow(PromptDroppedError);
+      await expect(b).rejects.toThrow(PromptDroppedError);
+      expect(session.isProcessing()).toBe(true);
+
+      finish(children[0]);
+      await running;
+    });
+
+    it('stop() drops queued prompts', async () => {
+      session.sendPrompt('running').catch(() => {});
+      const queued = session.sendPrompt('queued');
+
+      await session.stop();
+
+      await expect(queued).rejects.toThrow(PromptDroppedError);
+    });
+  });
+
   describe('getMetrics()', () => {
     it('returns zero values before any prompts', async () => {
       await session.start();
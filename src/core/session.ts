@@ -1,13 +1,54 @@
 import { spawn, ChildProcess } from 'node:child_process';
 import { mkdir } from 'node:fs/promises';
-import { SessionState, SessionConfig, SessionInfo, SessionCrashedEvent, SessionMetrics, RestartPolicy } from '../types.js';
+import {
+  SessionState,
+  SessionConfig,
+  SessionInfo,
+  SessionCrashedEvent,
+  SessionMetrics,
+  RestartPolicy,
+  PromptCancelledEvent,
+  QueuedPrompt,
+  SendPromptOptions,
+  PromptQueuedEvent,
+  PromptDequeuedEvent,
+  TokenUsage,
+  ProviderEvent,
+  ResourceTurnUsage,
+  ResourceWarningEvent,
+  SessionResourceMetrics,
+} from '../types.js';
 import { logger } from '../utils/logger.js';
-import { PromptTimeoutError } from '../utils/errors.js';
+import {
+  PromptCancelledError,
+  PromptDroppedError,
+  PromptTimeoutError,
+  QueuedPromptNotFoundError,
+} from '../utils/errors.js';
 import { EventEmitter } from 'node:events';
 import crypto from 'node:crypto';
 import { classifyExitCode } from './restart-policy.js';
 import { SandboxManager } from './sandbox.js';
-import { type ProviderAdapter, createProvider } from './providers/index.js';
+import { type ProviderAdapter, type ProviderMessage, createProvider } from './providers/index.js';
+import { RESOURCE_TURN_HISTORY, ResourceMonitor, processTreeSampler } from './resource-monitor.js';
+
+/** A queued prompt plus the callbacks of the sendPrompt() call waiting on it. */
+interface PendingPrompt extends QueuedPrompt {
+  scheduleId?: string;
+  onData?: (chunk: string) => void;
+  resolve: (response: string) => void;
+  reject: (err: Error) => void;
+}
+
+/** Strip the callbacks so queue entries can be emitted and serialized. */
+function toQueuedPrompt(entry: PendingPrompt): QueuedPrompt {
+  return {
+    id: entry.id,
+    prompt: entry.prompt,
+    priority: entry.priority,
+    enqueuedAt: entry.enqueuedAt,
+  };
+}
 
 /**
  * Session — represents a conversation with Claude Code.
@@ -24,13 +65,26 @@ export class Session extends EventEmitter {
   private claudeSessionId: string;
   private promptCount: number = 0;
   private activeProcess: ChildProcess | null = null;
+  /** Aborts the in-flight request of a provider with streamPrompt(). */
+  private activeRequest: AbortController | null = null;
+  private cancelRequested: boolean = false;
   private restartPolicy: RestartPolicy;
   private lastPrompt: string | null = null;
   private retryCount: number = 0;
   private responseTimes: number[] = [];
   private totalResponseChars: number = 0;
+  private usage: TokenUsage | null = null;
+  private costUsd: number | null = null;
   private promptStartTime: number = 0;
   private conversationHistory: Array<{ role: 'user' | 'assistant'; text: string }> = [];
+  private queue: PendingPrompt[] = [];
+  private nextQueueId: number = 1;
+  private promptGuard: ((prompt: string) => void) | null = null;
+  private beforePrompt: ((prompt: string) => Promise<void>) | null = null;
+  /** True while the before-prompt hook runs, so nothing else starts meanwhile. */
+  private preparing: boolean = false;
+  private readonly resourceMonitor: ResourceMonitor;
+  private resourceTurns: ResourceTurnUsage[] = [];
 
   constructor(
     private readonly config: SessionConfig,
@@ -46,6 +100,14 @@ export class Session extends EventEmitter {
     this.promptCount = initialPromptCount ?? 0;
     this.retryCount = initialRetryCount;
     this.restartPolicy = config.restartPolicy ?? { enabled: false, maxRetries: 3 };
+    this.resourceMonitor = new ResourceMonitor(config.resourceLimits, {
+      onSample: (gauge) => this.emit('resourceSample', gauge),
+      onLimitExceeded: (kind, value, limit) => {
+        const event: ResourceWarningEvent = { sessionName: config.name, kind, value, limit };
+        logger.warn(`Session "${config.name}" is over its ${kind} soft limit: ${value} > ${limit}`);
+        this.emit('resourceWarning', event);
+      },
+    });
   }
 
   async start(): Promise<void> {
@@ -59,44 +121,195 @@ export class Session extends EventEmitter {
   /**
    * Send a prompt to Claude and stream the response.
    *
+   * If a prompt is already running (or others are waiting), the prompt is
+   * queued and the returned promise settles once it has run. Higher
+   * `priority` runs first; equal priorities run in arrival order.
+   *
    * Emits:
-   * - 'promptStart' (prompt: string) — when prompt is sent
+   * - 'promptQueued' (event: PromptQueuedEvent) — when the prompt has to wait
+   * - 'promptDequeued' (event: PromptDequeuedEvent) — when it leaves the queue
+   * - 'promptStart' (prompt: string, scheduleId?: string) — when prompt is sent
    * - 'data' (chunk: string) — as response text arrives
+   * - 'providerEvent' (event: ProviderEvent) — every parsed event, including tool use and the final result
    * - 'promptComplete' (response: string) — when response is fully received
    * - 'promptError' (error: Error) — if something goes wrong
+   * - 'promptCancelled' (event: PromptCancelledEvent) — if cancelPrompt() interrupted it
+   * - 'resourceSample' (gauge: ResourceGauge) — about every second while it runs
+   * - 'resourceWarning' (event: ResourceWarningEvent) — the first time it crosses a soft limit
+   * - 'resourceTurn' (usage: ResourceTurnUsage) — after it ends, with what it used
    */
-  async sendPrompt(prompt: string): Promise<string> {
+  async sendPrompt(prompt: string, options: SendPromptOptions = {}): Promise<string> {
     if (this.state !== SessionState.Running) {
       throw new Error(`Session "${this.config.name}" is not running`);
     }
 
-    if (this.activeProcess) {
-      throw new Error(`Session "${this.config.name}" is already processing a prompt`);
+    this.promptGuard?.(prompt);
+
+    if (!this.isProcessing() && this.queue.length === 0) {
+      return this.startPrompt(prompt, options);
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const entry: PendingPrompt = {
+        id: this.nextQueueId++,
+        prompt,
+        priority: options.priority ?? 0,
+        enqueuedAt: new Date().toISOString(),
+        scheduleId: options.scheduleId,
+        onData: options.onData,
+        resolve,
+        reject,
+      };
+
+      // Insert after every entry of equal or higher priority to keep FIFO order
+      const index = this.queue.findIndex((queued) => queued.priority < entry.priority);
+      if (index === -1) {
+        this.queue.push(entry);
+      } else {
+        this.queue.splice(index, 0, entry);
+      }
+
+      logger.info(`Queued prompt #${entry.id} in session "${this.config.name}" (depth ${this.queue.length})`);
+      const event: PromptQueuedEvent = {
+        sessionName: this.config.name,
+        entry: toQueuedPrompt(entry),
+        queueDepth: this.queue.length,
+      };
+      this.emit('promptQueued', event);
+    });
+  }
+
+  /**
+   * Install a check that runs before a prompt is accepted and again before a
+   * queued prompt starts. Throwing refuses the prompt with that error.
+   */
+  setPromptGuard(guard: ((prompt: string) => void) | null): void {
+    this.promptGuard = guard;
+  }
+
+  /**
+   * Install a step that runs after 'promptStart' and before the provider
+   * is spawned, e.g. a checkpoint of the working directory. A failing hook
+   * is logged and the prompt runs anyway.
+   */
+  setBeforePrompt(hook: ((prompt: string) => Promise<void>) | null): void {
+    this.beforePrompt = hook;
+  }
+
+  /**
+   * Prompts waiting to run, in the order they will run.
+   */
+  getQueue(): QueuedPrompt[] {
+    return this.queue.map(toQueuedPrompt);
+  }
+
+  /**
+   * Remove a waiting prompt. Its sendPrompt() call rejects with
+   * PromptDroppedError. Throws QueuedPromptNotFoundError for unknown ids
+   * (including prompts that have already started).
+   */
+  dropQueuedPrompt(id: number): void {
+    const index = this.queue.findIndex((queued) => queued.id === id);
+    if (index === -1) {
+      throw new QueuedPromptNotFoundError(this.config.name, id);
+    }
+    const [entry] = this.queue.splice(index, 1);
+    this.rejectDropped(entry);
+  }
+
+  /**
+   * Drop every waiting prompt. The in-flight prompt, if any, keeps running.
+   * Returns the number of prompts dropped.
+   */
+  clearQueue(): number {
+    const dropped = this.queue;
+    this.queue = [];
+    for (const entry of dropped) {
+      this.rejectDropped(entry);
+    }
+    return dropped.length;
+  }
+
+  private rejectDropped(entry: PendingPrompt): void {
+    logger.info(`Dropped queued prompt #${entry.id} from session "${this.config.name}"`);
+    const event: PromptDequeuedEvent = {
+      sessionName: this.config.name,
+      entry: toQueuedPrompt(entry),
+      reason: 'dropped',
+      queueDepth: this.queue.length,
+    };
+    this.emit('promptDequeued', event);
+    entry.reject(new PromptDroppedError(this.config.name, entry.id));
+  }
+
+  /**
+   * Run a prompt now and start the next queued one once it settles.
+   */
+  private startPrompt(prompt: string, options: SendPromptOptions): Promise<string> {
+    const run = this.runPrompt(prompt, options);
+    const next = (): void => this.runNextQueued();
+    run.then(next, next);
+    return run;
+  }
+
+  private runNextQueued(): void {
+    if (this.state !== SessionState.Running || this.isProcessing()) {
+      return;
+    }
+    const entry = this.queue.shift();
+    if (!entry) {
+      return;
     }
 
+    try {
+      this.promptGuard?.(entry.prompt);
+    } catch (err) {
+      const dropped: PromptDequeuedEvent = {
+        sessionName: this.config.name,
+        entry: toQueuedPrompt(entry),
+        reason: 'dropped',
+        queueDepth: this.queue.length,
+      };
+      this.emit('promptDequeued', dropped);
+      entry.reject(err instanceof Error ? err : new Error(String(err)));
+      this.runNextQueued();
+      return;
+    }
+
+    const event: PromptDequeuedEvent = {
+      sessionName: this.config.name,
+      entry: toQueuedPrompt(entry),
+      reason: 'started',
+      queueDepth: this.queue.length,
+    };
+    this.emit('promptDequeued', event);
+    this.startPrompt(entry.prompt, entry).then(entry.resolve, entry.reject);
+  }
+
+  private runPrompt(prompt: string, { scheduleId, onData }: SendPromptOptions): Promise<string> {
     // Store the prompt for crash recovery
     this.lastPrompt = prompt;
+    this.cancelRequested = false;
 
     // Record start time for response-time tracking
     this.promptStartTime = Date.now();
 
-    // For non-native providers, prepend conversation history as a transcript
+    // For non-native CLI providers, prepend conversation history as a transcript;
+    // providers with streamPrompt() get it as messages instead
     let actualPrompt = prompt;
-    if (!this.provider.supportsNativeSession && this.conversationHistory.length > 0) {
-      const maxTurns = this.config.maxHistoryTurns ?? 10;
-      const history = this.conversationHistory.slice(-maxTurns * 2);
-      const transcript = history
+    if (!this.provider.supportsNativeSession && !this.provider.streamPrompt && this.conversationHistory.length > 0) {
+      const transcript = this.recentHistory()
         .map(h => `${h.role === 'user' ? 'User' : 'Assistant'}: ${h.text}`)
         .join('\n');
       actualPrompt = `[Previous conversation]\n${transcript}\n[End of conversation]\n\nUser: ${prompt}`;
     }
 
     logger.info(`Sending prompt to session "${this.config.name}"`);
-    this.emit('promptStart', prompt);
+    this.emit('promptStart', prompt, scheduleId);
 
     const timeoutMs = this.config.promptTimeoutMs ?? 300000;
 
-    return new Promise<string>((resolve, reject) => {
+    const spawnPrompt = (): Promise<string> => new Promise<string>((resolve, reject) => {
       let settled = false;
       let timedOut = false;
       let timeoutTimer: NodeJS.Timeout | undefined;
@@ -111,8 +324,8 @@ export class Session extends EventEmitter {
 
       // Build args using provider adapter
       const baseArgs = this.promptCount === 0
-        ? this.provider.buildFirstPromptArgs(this.claudeSessionId)
-        : this.provider.buildResumeArgs(this.claudeSessionId);
+        ? this.provider.buildFirstPromptArgs(this.claudeSessionId, actualPrompt)
+        : this.provider.buildResumeArgs(this.claudeSessionId, actualPrompt);
       const modeArgs = this.provider.buildModeArgs(this.config.permissionMode);
       const args = [...baseArgs, ...modeArgs];
 
@@ -127,16 +340,39 @@ export class Session extends EventEmitter {
       this.emit('system', `Spawning ${this.provider.type} [sandbox=${sandboxInfo}] session=${shortSessionId} mode=${permMode}`);
       const child = spawn(cmd, spawnArgs, {
         cwd: this.config.workingDirectory,
-        env: { ...process.env, ...this.config.env },
+        env: { ...process.env, ...this.config.env, ...this.sandbox?.getEnv() },
         stdio: ['pipe', 'pipe', 'pipe'],
       });
 
       this.activeProcess = child;
       this.pid = child.pid ?? this.pid;
+      if (child.pid) {
+        this.resourceMonitor.start(this.sandbox?.resourceSampler(child.pid) ?? processTreeSampler(child.pid), this.promptCount + 1);
+      }
 
       let response = '';
       let jsonBuffer = '';
 
+      const consumeLine = (line: string): void => {
+        let events: ProviderEvent[];
+        try {
+          events = this.provider.parseEvents(line);
+        } catch (err) {
+          logger.warn(`Session "${this.config.name}" could not parse a line of output: ${err instanceof Error ? err.message : err}`);
+          return;
+        }
+        for (const event of events) {
+          if (event.type === 'text') {
+            response += event.text;
+            onData?.(event.text);
+            this.emit('data', event.text);
+          } else if (event.type === 'result') {
+            this.addUsage(event.usage, event.costUsd);
+          }
+          this.emit('providerEvent', event);
+        }
+      };
+
       child.stdout?.on('data', (chunk: Buffer) => {
         jsonBuffer += chunk.toString();
 
@@ -147,12 +383,7 @@ export class Session extends EventEmitter {
         for (const line of lines) {
           const trimmed = line.trim();
           if (!trimmed) continue;
-
-          const text = this.provider.extractText(trimmed);
-          if (text !== null) {
-            response += text;
-            this.emit('data', text);
-          }
+          consumeLine(trimmed);
         }
       });
 
@@ -166,6 +397,7 @@ export class Session extends EventEmitter {
         settle();
         logger.error(`Spawn error for session "${this.config.name}": ${err.message}`);
         this.activeProcess = null;
+        this.finishResourceTurn();
         this.emit('promptError', err);
         reject(err);
       });
@@ -173,44 +405,29 @@ export class Session extends EventEmitter {
       child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
         // Process any remaining buffered output
         if (jsonBuffer.trim()) {
-          const text = this.provider.extractText(jsonBuffer.trim());
-          if (text !== null) {
-            response += text;
-            this.emit('data', text);
-          }
+          consumeLine(jsonBuffer.trim());
         }
 
         this.activeProcess = null;
         this.promptCount++;
+        this.finishResourceTurn();
 
         if (timedOut) {
           settle();
-          const err = new PromptTimeoutError(this.config.name, timeoutMs, prompt);
-          this.emit('promptTimeout', {
-            sessionName: this.config.name,
-            timeoutMs,
-            promptText: prompt,
-            partialResponse: response,
-          });
-          reject(err);
+          reject(this.promptTimedOut(prompt, timeoutMs, response));
+          return;
+        }
+
+        if (this.cancelRequested) {
+          settle();
+          reject(this.promptCancelled(prompt, response));
           return;
         }
 
         settle();
 
         if (code === 0) {
-          // Success — record metrics and reset retry count
-          const elapsedMs = Date.now() - this.promptStartTime;
-          this.responseTimes.push(elapsedMs);
-          this.totalResponseChars += response.length;
-          this.retryCount = 0;
-          logger.info(`Prompt completed for session "${this.config.name}"`);
-          // Track conversation history for non-native providers
-          if (!this.provider.supportsNativeSession) {
-            this.conversationHistory.push({ role: 'user', text: prompt });
-            this.conversationHistory.push({ role: 'assistant', text: response });
-          }
-          this.emit('promptComplete', response);
+          this.promptCompleted(prompt, response);
           resolve(response);
         } else {
           // Crash detected — classify exit code and emit crashed event
@@ -239,7 +456,9 @@ export class Session extends EventEmitter {
       });
 
       // Write prompt to stdin and close it
-      child.stdin?.write(actualPrompt);
+      if (!this.provider.promptInArgs) {
+        child.stdin?.write(actualPrompt);
+      }
       child.stdin?.end();
 
       // Set up timeout if enabled (timeoutMs > 0; 0 means no timeout)
@@ -276,14 +495,200 @@ export class Session extends EventEmitter {
         }, timeoutMs);
       }
     });
+
+    const run = this.provider.streamPrompt ? () => this.requestPrompt(prompt, timeoutMs, onData) : spawnPrompt;
+    const beforePrompt = this.beforePrompt;
+    if (!beforePrompt) {
+      return run();
+    }
+
+    this.preparing = true;
+    return beforePrompt(prompt)
+      .catch((err: unknown) => {
+        logger.warn(`Before-prompt hook failed in session "${this.config.name}": ${err instanceof Error ? err.message : err}`);
+      })
+      .then(() => {
+        this.preparing = false;
+        if (this.state !== SessionState.Running) {
+          const error = new Error(`Session "${this.config.name}" is not running`);
+          this.emit('promptError', error);
+          throw error;
+        }
+        if (this.cancelRequested) throw this.promptCancelled(prompt, '');
+        return run();
+      });
   }
 
+  /**
+   * Run a prompt through the provider's streamPrompt() instead of spawning
+   * a process. The conversation so far goes along as messages; cancelPrompt(),
+   * stop() and the prompt timeout abort the request.
+   */
+  private async requestPrompt(prompt: string, timeoutMs: number, onData?: (chunk: string) => void): Promise<string> {
+    const controller = new AbortController();
+    this.activeRequest = controller;
+    let timedOut = false;
+    const timeoutTimer = timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        logger.warn(`Prompt timed out after ${timeoutMs}ms in session "${this.config.name}"`);
+        controller.abort();
+      }, timeoutMs)
+      : undefined;
+
+    const messages: ProviderMessage[] = [
+      ...this.recentHistory().map((h) => ({ role: h.role, content: h.text })),
+      { role: 'user', content: prompt },
+    ];
+    this.emit('system', `Requesting ${this.provider.type} session=${this.claudeSessionId.slice(0, 8)} messages=${messages.length}`);
+
+    let response = '';
+    let failure: unknown = null;
+    try {
+      const events = this.provider.streamPrompt!({ sessionId: this.claudeSessionId, messages, signal: controller.signal });
+      for await (const event of events) {
+        if (event.type === 'text') {
+          response += event.text;
+          onData?.(event.text);
+          this.emit('data', event.text);
+        } else if (event.type === 'result') {
+          this.addUsage(event.usage, event.costUsd);
+        }
+        this.emit('providerEvent', event);
+      }
+    } catch (err) {
+      failure = err;
+    } finally {
+      clearTimeout(timeoutTimer);
+      if (this.activeRequest === controller) this.activeRequest = null;
+    }
+    this.promptCount++;
+
+    if (timedOut) throw this.promptTimedOut(prompt, timeoutMs, response);
+    if (this.cancelRequested) throw this.promptCancelled(prompt, response);
+    if (failure) {
+      const err = failure instanceof Error ? failure : new Error(String(failure));
+      logger.error(`Prompt failed for session "${this.config.name}": ${err.message}`);
+      this.emit('promptError', err);
+      throw err;
+    }
+
+    this.promptCompleted(prompt, response);
+    return response;
+  }
+
+  /** The last maxHistoryTurns turns of a non-native provider's conversation. */
+  private recentHistory(): Array<{ role: 'user' | 'assistant'; text: string }> {
+    const maxTurns = this.config.maxHistoryTurns ?? 10;
+    return this.conversationHistory.slice(-maxTurns * 2);
+  }
+
+  /** Record a finished prompt's metrics and history, then emit 'promptComplete'. */
+  private promptCompleted(prompt: string, response: string): void {
+    // Success — record metrics and reset retry count
+    const elapsedMs = Date.now() - this.promptStartTime;
+    this.responseTimes.push(elapsedMs);
+    this.totalResponseChars += response.length;
+    this.retryCount = 0;
+    logger.info(`Prompt completed for session "${this.config.name}"`);
+    // Track conversation history for non-native providers
+    if (!this.provider.supportsNativeSession) {
+      this.conversationHistory.push({ role: 'user', text: prompt });
+      this.conversationHistory.push({ role: 'assistant', text: response });
+    }
+    this.emit('promptComplete', response);
+  }
+
+  /** Emit 'promptTimeout' and return the error the prompt rejects with. */
+  private promptTimedOut(prompt: string, timeoutMs: number, partialResponse: string): PromptTimeoutError {
+    this.emit('promptTimeout', {
+      sessionName: this.config.name,
+      timeoutMs,
+      promptText: prompt,
+      partialResponse,
+    });
+    return new PromptTimeoutError(this.config.name, timeoutMs, prompt);
+  }
+
+  /** Emit 'promptCancelled' and return the error the prompt rejects with. */
+  private promptCancelled(prompt: string, partialResponse: string): PromptCancelledError {
+    this.cancelRequested = false;
+    logger.info(`Prompt cancelled in session "${this.config.name}"`);
+    const cancelledEvent: PromptCancelledEvent = {
+      sessionName: this.config.name,
+      promptText: prompt,
+      partialResponse,
+    };
+    this.emit('promptCancelled', cancelledEvent);
+    return new PromptCancelledError(this.config.name, prompt);
+  }
+
+  /**
+   * Cancel the in-flight prompt without stopping the session.
+   *
+   * Kills only the active provider process (SIGTERM, then SIGKILL after the
+   * shutdown grace period), or aborts the request of a provider with
+   * streamPrompt(). The pending sendPrompt() rejects with
+   * PromptCancelledError, 'promptCancelled' is emitted with the partial
+   * response, and the session stays Running for the next prompt. A prompt
+   * still waiting on its before-prompt hook is cancelled once the hook
+   * finishes, without running.
+   *
+   * Returns false if no prompt was in progress.
+   */
+  cancelPrompt(): boolean {
+    if (this.preparing) {
+      this.cancelRequested = true;
+      logger.info(`Cancelling prompt in session "${this.config.name}" before it runs`);
+      return true;
+    }
+
+    if (this.activeRequest) {
+      this.cancelRequested = true;
+      logger.info(`Cancelling prompt in session "${this.config.name}"`);
+      this.activeRequest.abort();
+      return true;
+    }
+
+    const child = this.activeProcess;
+    if (!child) {
+      return false;
+    }
+
+    this.cancelRequested = true;
+    logger.info(`Cancelling prompt in session "${this.config.name}"`);
+    try {
+      child.kill('SIGTERM');
+    } catch {
+      // Already dead
+    }
+
+    let graceTimer: NodeJS.Timeout | undefined = setTimeout(() => {
+      graceTimer = undefined;
+      if (this.activeProcess === child) {
+        try {
+          child.kill('SIGKILL');
+        } catch {
+          // Already dead
+        }
+      }
+    }, this.shutdownTimeoutMs);
+
+    child.once('close', () => {
+      if (graceTimer) {
+        clearTimeout(graceTimer);
+        graceTimer = undefined;
+      }
+    });
+
+    return true;
+  }
 
   /**
    * Check if a prompt is currently being processed.
    */
   isProcessing(): boolean {
-    return this.activeProcess !== null;
+    return this.activeProcess !== null || this.activeRequest !== null || this.preparing;
   }
 
   async stop(): Promise<void> {
@@ -292,6 +697,9 @@ export class Session extends EventEmitter {
     }
 
     this.state = SessionState.Stopped;
+    this.clearQueue();
+
+    this.activeRequest?.abort();
 
     // Kill active process if any
     if (this.activeProcess) {
@@ -313,6 +721,7 @@ export class Session extends EventEmitter {
   }
 
   forceKill(): void {
+    this.activeRequest?.abort();
     if (this.activeProcess) {
       this.activeProcess.kill('SIGKILL');
       this.activeProcess = null;
@@ -324,6 +733,7 @@ export class Session extends EventEmitter {
   }
 
   getInfo(): SessionInfo {
+    const resources = this.resourceMonitor.getGauge();
     return {
       name: this.config.name,
       pid: this.pid,
@@ -337,9 +747,19 @@ export class Session extends EventEmitter {
       sandboxed: this.sandbox !== undefined,
       sandboxBackend: this.sandbox?.getBackend(),
       sandboxLevel: this.sandbox?.getLevel(),
+      queueDepth: this.queue.length,
+      ...(resources ? { resources } : {}),
     };
   }
 
+  /**
+   * Filesystem changes inside the sandbox since it started, as
+   * SandboxManager.diff() reports them. Empty for unsandboxed sessions.
+   */
+  async getSandboxDiff(): Promise<string[]> {
+    return this.sandbox ? this.sandbox.diff() : [];
+  }
+
   getMetrics(): SessionMetrics {
     const avgResponseTimeMs =
       this.responseTimes.length > 0
@@ -347,6 +767,7 @@ export class Session extends EventEmitter {
         : 0;
 
     const uptimeMs = this.startedAt ? Date.now() - this.startedAt.getTime() : 0;
+    const resources = this.resourceMetrics();
 
     return {
       promptCount: this.promptCount,
@@ -354,9 +775,48 @@ export class Session extends EventEmitter {
       totalResponseChars: this.totalResponseChars,
       estimatedTokens: Math.round(this.totalResponseChars / 4),
       uptimeMs,
+      ...(this.usage ? { usage: { ...this.usage } } : {}),
+      ...(this.costUsd !== null ? { costUsd: this.costUsd } : {}),
+      ...(resources ? { resources } : {}),
+    };
+  }
+
+  /** The live gauge and per-prompt history, or null if no prompt could be sampled. */
+  private resourceMetrics(): SessionResourceMetrics | null {
+    const current = this.resourceMonitor.getGauge();
+    if (!current && this.resourceTurns.length === 0) return null;
+    return {
+      ...(current ? { current } : {}),
+      turns: [...this.resourceTurns],
+      ...(this.config.resourceLimits ? { limits: this.config.resourceLimits } : {}),
     };
   }
 
+  /** Stop sampling the prompt that just ended and keep what it used. */
+  private finishResourceTurn(): void {
+    void this.resourceMonitor.stop().then((turn) => {
+      if (!turn) return;
+      this.resourceTurns.push(turn);
+      if (this.resourceTurns.length > RESOURCE_TURN_HISTORY) this.resourceTurns.shift();
+      this.emit('resourceTurn', turn);
+    });
+  }
+
+  private addUsage(usage: TokenUsage | undefined, costUsd: number | undefined): void {
+    if (usage) {
+      const total = this.usage ?? { inputTokens: 0, outputTokens: 0 };
+      this.usage = {
+        inputTokens: total.inputTokens + usage.inputTokens,
+        outputTokens: total.outputTokens + usage.outputTokens,
+        cacheCreationInputTokens: (total.cacheCreationInputTokens ?? 0) + (usage.cacheCreationInputTokens ?? 0),
+        cacheReadInputTokens: (total.cacheReadInputTokens ?? 0) + (usage.cacheReadInputTokens ?? 0),
+      };
+    }
+    if (costUsd !== undefined) {
+      this.costUsd = (this.costUsd ?? 0) + costUsd;
+    }
+  }
+
   getSessionId(): string {
     return this.claudeSessionId;
   }
@@ -110,6 +110,11 @@ export class TemplateManager {
       systemPrompt?: string;
       env?: Record<string, string>;
       restartPolicy?: import('../types.js').RestartPolicy;
+      budget?: import('../types.js').BudgetLimits;
+      fileTriggers?: import('../types.js').FileTrigger[];
+      worktree?: boolean;
+      sandboxImage?: string;
+      sandboxMounts?: import('../types.js').SandboxMountPolicy;
     },
   ): Promise<void> {
     await this.withLock((data) => {
@@ -135,6 +140,21 @@ export class TemplateManager {
       if (config.restartPolicy !== undefined) {
         entry.restartPolicy = config.restartPolicy;
       }
+      if (config.budget !== undefined) {
+        entry.budget = config.budget;
+      }
+      if (config.fileTriggers !== undefined) {
+        entry.fileTriggers = config.fileTriggers;
+      }
+      if (config.worktree) {
+        entry.worktree = true;
+      }
+      if (config.sandboxImage !== undefined) {
+        entry.sandboxImage = config.sandboxImage;
+      }
+      if (config.sandboxMounts !== undefined) {
+        entry.sandboxMounts = config.sandboxMounts;
+      }
       data.templates[name] = entry;
     });
   }
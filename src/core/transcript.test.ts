@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TranscriptStore } from './transcript.js';
+import type { TranscriptTurn } from '../types.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+function tmpDir(): string {
+  return path.join(os.tmpdir(), `agentspawn-transcript-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+function makeTurn(overrides: Partial<TranscriptTurn> = {}): TranscriptTurn {
+  return {
+    prompt: 'explain the build',
+    response: 'r'.repeat(1000),
+    stderr: '',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    completedAt: '2026-01-01T00:00:01.500Z',
+    durationMs: 1500,
+    exitCode: 0,
+    signal: null,
+    outcome: 'completed',
+    ...overrides,
+  };
+}
+
+describe('TranscriptStore', () => {
+  let dir: string;
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    dir = tmpDir();
+    store = new TranscriptStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips a full turn by its content hash', async () => {
+    const turn = makeTurn({ stderr: 'warn\n' });
+    const id = await store.write('sess', turn);
+
+    expect(id).toMatch(/^[0-9a-f]{64}$/);
+    expect(await store.read('sess', id)).toEqual(turn);
+  });
+
+  it('stores identical turns once', async () => {
+    const a = await store.write('sess', makeTurn());
+    const b = await store.write('sess', makeTurn());
+
+    expect(a).toBe(b);
+    expect(await fs.readdir(path.join(dir, 'sess'))).toEqual([`${a}.json`]);
+  });
+
+  it('returns null for missing or tampered turns', async () => {
+    expect(await store.read('sess', 'f'.repeat(64))).toBeNull();
+
+    const id = await store.write('sess', makeTurn());
+    await fs.writeFile(path.join(dir, 'sess', `${id}.json`), JSON.stringify(makeTurn({ response: 'edited' })));
+    expect(await store.read('sess', id)).toBeNull();
+  });
+
+  it('remove() and clear() delete stored turns', async () => {
+    const a = await store.write('sess', makeTurn({ prompt: 'a' }));
+    const b = await store.write('sess', makeTurn({ prompt: 'b' }));
+
+    await store.remove('sess', [a]);
+    expect(await store.read('sess', a)).toBeNull();
+    expect(await store.read('sess', b)).not.toBeNull();
+
+    await store.clear('sess');
+    expect(await store.read('sess', b)).toBeNull();
+  });
+});
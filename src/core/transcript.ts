@@ -0,0 +1,90 @@
+import { TranscriptTurn } from '../types.js';
+import { logger } from '../utils/logger.js';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * TranscriptStore — keeps full prompt/response turns that the NDJSON history
+ * index only previews.
+ *
+ * Turns are content-addressed: each is written once to
+ * `<transcriptDir>/<session>/<sha256>.json` and referenced from the index by
+ * its hash, so a corrupted or swapped file is detected on read.
+ */
+export class TranscriptStore {
+  constructor(private readonly transcriptDir: string) {}
+
+  /**
+   * Store a turn and return its content hash. Writing the same turn twice is
+   * a no-op.
+   */
+  async write(sessionName: string, turn: TranscriptTurn): Promise<string> {
+    const body = JSON.stringify(turn);
+    const id = hashContent(body);
+    const dir = this.getSessionDir(sessionName);
+    const filePath = path.join(dir, `${id}.json`);
+
+    await fs.mkdir(dir, { recursive: true });
+    try {
+      await fs.access(filePath);
+      return id;
+    } catch {
+      // Not stored yet
+    }
+
+    // Write atomically: write to .tmp then rename
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, body, 'utf-8');
+    await fs.rename(tmpPath, filePath);
+    logger.debug(`Stored transcript turn ${id.slice(0, 12)} for session "${sessionName}"`);
+    return id;
+  }
+
+  /**
+   * Load a turn by hash. Returns null if it is missing or its content no
+   * longer matches the hash.
+   */
+  async read(sessionName: string, id: string): Promise<TranscriptTurn | null> {
+    let body: string;
+    try {
+      body = await fs.readFile(path.join(this.getSessionDir(sessionName), `${id}.json`), 'utf-8');
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+
+    if (hashContent(body) !== id) {
+      logger.warn(`Transcript turn ${id.slice(0, 12)} for session "${sessionName}" is corrupted, ignoring`);
+      return null;
+    }
+
+    try {
+      return JSON.parse(body) as TranscriptTurn;
+    } catch {
+      return null;
+    }
+  }
+
+  async remove(sessionName: string, ids: string[]): Promise<void> {
+    const dir = this.getSessionDir(sessionName);
+    for (const id of ids) {
+      await fs.rm(path.join(dir, `${id}.json`), { force: true });
+    }
+  }
+
+  async clear(sessionName: string): Promise<void> {
+    await fs.rm(this.getSessionDir(sessionName), { recursive: true, force: true });
+  }
+
+  private getSessionDir(sessionName: string): string {
+    const sanitized = sessionName.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.transcriptDir, sanitized);
+  }
+}
+
+function hashContent(body: string): string {
+  return crypto.createHash('sha256').update(body).digest('hex');
+}
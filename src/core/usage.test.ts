@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UsageStore, parseUsageTime, summarizeUsage, totalUsage, UNGROUPED_KEY } from './usage.js';
+import type { UsageRecord, WorkspaceData } from '../types.js';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+
+function tmpDir(): string {
+  return path.join(
+    os.tmpdir(),
+    `usage-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+}
+
+function makeRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    sessionName: 'alpha',
+    timestamp: '2026-03-01T10:00:00.000Z',
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0.01,
+    ...overrides,
+  };
+}
+
+describe('UsageStore', () => {
+  let dir: string;
+  let store: UsageStore;
+
+  beforeEach(() => {
+    dir = tmpDir();
+    store = new UsageStore(path.join(dir, 'usage.ndjson'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('returns no records when the ledger does not exist yet', async () => {
+    expect(await store.query()).toEqual([]);
+  });
+
+  it('records one line per turn with zeroes for unreported fields', async () => {
+    await store.record('alpha', {
+      provider: 'claude',
+      tags: ['backend'],
+      usage: { inputTokens: 1200, outputTokens: 300, cacheReadInputTokens: 9000 },
+      costUsd: 0.05,
+    });
+    await store.record('beta', { costUsd: 0.02 });
+
+    const records = await store.query();
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      sessionName: 'alpha',
+      provider: 'claude',
+      tags: ['backend'],
+      inputTokens: 1200,
+      outputTokens: 300,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 9000,
+      costUsd: 0.05,
+    });
+    expect(records[1]).toMatchObject({ sessionName: 'beta', inputTokens: 0, costUsd: 0.02 });
+    expect(records[1].tags).toBeUndefined();
+  });
+
+  it('keeps concurrent records from the same process intact', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => store.record(`s${i}`, { costUsd: 0.001 })),
+    );
+    const content = await fs.readFile(path.join(dir, 'usage.ndjson'), 'utf-8');
+    expect(content.trim().split('\n')).toHaveLength(20);
+  });
+
+  it('filters by session and time range', async () => {
+    const file = path.join(dir, 'usage.ndjson');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, [
+      makeRecord({ timestamp: '2026-03-01T10:00:00.000Z' }),
+      makeRecord({ timestamp: '2026-03-02T10:00:00.000Z' }),
+      makeRecord({ sessionName: 'beta', timestamp: '2026-03-02T11:00:00.000Z' }),
+      makeRecord({ timestamp: '2026-03-03T10:00:00.000Z' }),
+    ].map((r) => JSON.stringify(r)).join('\n') + '\n');
+
+    const records = await store.query({
+      sessionName: 'alpha',
+      since: new Date('2026-03-02T00:00:00.000Z'),
+      until: new Date('2026-03-03T00:00:00.000Z'),
+    });
+    expect(records.map((r) => r.timestamp)).toEqual(['2026-03-02T10:00:00.000Z']);
+  });
+
+  it('skips malformed lines', async () => {
+    const file = path.join(dir, 'usage.ndjson');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, `{broken\n${JSON.stringify(makeRecord())}\n`);
+    expect(await store.query()).toHaveLength(1);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const records = [
+    makeRecord({ sessionName: 'alpha', tags: ['backend', 'urgent'], costUsd: 0.1, timestamp: '2026-03-02T09:00:00.000Z' }),
+    makeRecord({ sessionName: 'alpha', tags: ['backend', 'urgent'], costUsd: 0.2, timestamp: '2026-03-01T09:00:00.000Z' }),
+    makeRecord({ sessionName: 'beta', costUsd: 0.5, cacheReadInputTokens: 700, timestamp: '2026-03-01T12:00:00.000Z' }),
+  ];
+
+  it('groups by session, most expensive first', () => {
+    const rows = summarizeUsage(records, 'session');
+    expect(rows.map((r) => [r.key, r.turns])).toEqual([['beta', 1], ['alpha', 2]]);
+    expect(rows[1].costUsd).toBeCloseTo(0.3);
+    expect(rows[1].inputTokens).toBe(200);
+    expect(rows[0].cacheReadInputTokens).toBe(700);
+  });
+
+  it('counts a multi-tag session toward each tag and groups untagged sessions', () => {
+    const rows = summarizeUsage(records, 'tag');
+    expect(rows.map((r) => r.key).sort()).toEqual([UNGROUPED_KEY, 'backend', 'urgent'].sort());
+    expect(rows.find((r) => r.key === 'urgent')?.turns).toBe(2);
+  });
+
+  it('groups by workspace membership', () => {
+    const workspaces: WorkspaceData = {
+      version: 1,
+      workspaces: {
+        api: { name: 'api', sessionNames: ['alpha'], createdAt: '2026-01-01T00:00:00.000Z' },
+      },
+    };
+    const rows = summarizeUsage(records, 'workspace', workspaces);
+    expect(rows.map((r) => [r.key, r.turns])).toEqual([[UNGROUPED_KEY, 1], ['api', 2]]);
+  });
+
+  it('groups by UTC day in chronological order', () => {
+    const rows = summarizeUsage(records, 'day');
+    expect(rows.map((r) => [r.key, r.turns])).toEqual([['2026-03-01', 2], ['2026-03-02', 1]]);
+  });
+
+  it('totalUsage sums every record', () => {
+    const total = totalUsage(records);
+    expect(total).toMatchObject({ key: 'total', turns: 3, inputTokens: 300, outputTokens: 150 });
+    expect(total.costUsd).toBeCloseTo(0.8);
+  });
+});
+
+describe('parseUsageTime', () => {
+  const now = new Date('2026-03-10T12:00:00.000Z');
+
+  it('parses relative days and hours', () => {
+    expect(parseUsageTime('7d', now)?.toISOString()).toBe('2026-03-03T12:00:00.000Z');
+    expect(parseUsageTime('12h', now)?.toISOString()).toBe('2026-03-10T00:00:00.000Z');
+  });
+
+  it('parses ISO dates and rejects garbage', () => {
+    expect(parseUsageTime('2026-03-01', now)?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(parseUsageTime('last tuesday', now)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { TokenUsage, UsageGroupBy, UsageRecord, UsageSummary, WorkspaceData } from '../types.js';
+import { logger } from '../utils/logger.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export interface UsageQuery {
+  sessionName?: string;
+  /** Only records at or after this time. */
+  since?: Date;
+  /** Only records before this time. */
+  until?: Date;
+}
+
+export interface UsageRecordInput {
+  provider?: string;
+  tags?: string[];
+  usage?: TokenUsage;
+  costUsd?: number;
+}
+
+/** Group key for sessions that belong to no tag or workspace. */
+export const UNGROUPED_KEY = '(none)';
+
+export const USAGE_GROUP_BY: readonly UsageGroupBy[] = ['session', 'tag', 'workspace', 'day'];
+
+/**
+ * Parse a report boundary: an ISO date/time, or a relative `<n>d` / `<n>h`
+ * meaning that long before `now`. Returns null if unparseable.
+ */
+export function parseUsageTime(value: string, now: Date = new Date()): Date | null {
+  const relative = value.match(/^(\d+)([dh])$/);
+  if (relative) {
+    const unitMs = relative[2] === 'd' ? 86_400_000 : 3_600_000;
+    return new Date(now.getTime() - parseInt(relative[1], 10) * unitMs);
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * UsageStore — append-only NDJSON ledger of the token usage and cost each
+ * provider reports at the end of a turn. One line per turn, shared by all
+ * sessions so reports can roll up across sessions, tags and workspaces.
+ */
+export class UsageStore {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async record(sessionName: string, input: UsageRecordInput): Promise<void> {
+    const record: UsageRecord = {
+      sessionName,
+      timestamp: new Date().toISOString(),
+      ...(input.provider ? { provider: input.provider } : {}),
+      ...(input.tags && input.tags.length > 0 ? { tags: input.tags } : {}),
+      inputTokens: input.usage?.inputTokens ?? 0,
+      outputTokens: input.usage?.outputTokens ?? 0,
+      cacheCreationInputTokens: input.usage?.cacheCreationInputTokens ?? 0,
+      cacheReadInputTokens: input.usage?.cacheReadInputTokens ?? 0,
+      costUsd: input.costUsd ?? 0,
+    };
+
+    // Serialize appends from this process; single-line appends from other
+    // processes are atomic on local filesystems
+    const write = async (): Promise<void> => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+      logger.debug(`Recorded usage for session "${sessionName}"`);
+    };
+    const next = this.pending.then(write, write);
+    this.pending = next.catch(() => {});
+    return next;
+  }
+
+  async query(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim().length === 0) continue;
+      let record: UsageRecord;
+      try {
+        record = JSON.parse(line) as UsageRecord;
+      } catch {
+        logger.warn(`Skipping malformed usage line: ${line.slice(0, 100)}`);
+        continue;
+      }
+      if (query.sessionName && record.sessionName !== query.sessionName) continue;
+      const time = new Date(record.timestamp).getTime();
+      if (query.since && time < query.since.getTime()) continue;
+      if (query.until && time >= query.until.getTime()) continue;
+      records.push(record);
+    }
+    return records;
+  }
+}
+
+function emptySummary(key: string): UsageSummary {
+  return {
+    key,
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addRecord(summary: UsageSummary, record: UsageRecord): void {
+  summary.turns += 1;
+  summary.inputTokens += record.inputTokens;
+  summary.outputTokens += record.outputTokens;
+  summary.cacheCreationInputTokens += record.cacheCreationInputTokens;
+  summary.cacheReadInputTokens += record.cacheReadInputTokens;
+  summary.costUsd += record.costUsd;
+}
+
+/**
+ * Sum every record into a single summary keyed `key`.
+ */
+export function totalUsage(records: UsageRecord[], key: string = 'total'): UsageSummary {
+  const total = emptySummary(key);
+  for (const record of records) addRecord(total, record);
+  return total;
+}
+
+/**
+ * Roll records up by session, tag, workspace or UTC day, most expensive
+ * first. A session with several tags (or in several workspaces) counts
+ * toward each of them, so tag and workspace groups can overlap.
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  groupBy: UsageGroupBy,
+  workspaces?: WorkspaceData,
+): UsageSummary[] {
+  const workspacesBySession = new Map<string, string[]>();
+  if (groupBy === 'workspace' && workspaces) {
+    for (const ws of Object.values(workspaces.workspaces)) {
+      for (const name of ws.sessionNames) {
+        workspacesBySession.set(name, [...(workspacesBySession.get(name) ?? []), ws.name]);
+      }
+    }
+  }
+
+  const keysFor = (record: UsageRecord): string[] => {
+    switch (groupBy) {
+      case 'session':
+        return [record.sessionName];
+      case 'tag':
+        return record.tags && record.tags.length > 0 ? record.tags : [UNGROUPED_KEY];
+      case 'workspace':
+        return workspacesBySession.get(record.sessionName) ?? [UNGROUPED_KEY];
+      case 'day':
+        return [record.timestamp.slice(0, 10)];
+    }
+  };
+
+  const groups = new Map<string, UsageSummary>();
+  for (const record of records) {
+    for (const key of keysFor(record)) {
+      let summary = groups.get(key);
+      if (!summary) {
+        summary = emptySummary(key);
+        groups.set(key, summary);
+      }
+      addRecord(summary, record);
+    }
+  }
+
+  const rows = [...groups.values()];
+  if (groupBy === 'day') {
+    return rows.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return rows.sort((a, b) => b.costUsd - a.costUsd || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+}
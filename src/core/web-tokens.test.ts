@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebTokenStore, scopeAllows } from './web-tokens.js';
+import { WebTokenCorruptError, WebTokenNotFoundError } from '../utils/errors.js';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+
+function tmpDir(): string {
+  return path.join(
+    os.tmpdir(),
+    `web-tokens-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+}
+
+describe('WebTokenStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: WebTokenStore;
+
+  beforeEach(() => {
+    dir = tmpDir();
+    filePath = path.join(dir, 'web-tokens.json');
+    store = new WebTokenStore(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('lists no tokens when the file does not exist', async () => {
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('persists only a hash of each token', async () => {
+    const { entry, token } = await store.create('ci', 'prompt');
+
+    expect(token).toMatch(/^ast_/);
+    expect(entry).toMatchObject({ name: 'ci', scope: 'prompt' });
+    const content = await fs.readFile(filePath, 'utf-8');
+    expect(content).not.toContain(token);
+    expect(content).toContain(entry.hash);
+  });
+
+  it('verifies issued tokens and rejects unknown ones', async () => {
+    const { entry, token } = await store.create('laptop', 'admin');
+
+    expect(await store.verify(token)).toMatchObject({ id: entry.id, scope: 'admin' });
+    expect(await store.verify(token + 'x')).toBeNull();
+    expect(await store.verify('not-a-token')).toBeNull();
+  });
+
+  it('stops accepting a token once it is revoked', async () => {
+    const { entry, token } = await store.create('old', 'read-only');
+
+    await store.revoke(entry.id);
+
+    expect(await store.verify(token)).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('throws WebTokenNotFoundError when revoking an unknown id', async () => {
+    await expect(store.revoke('deadbeef')).rejects.toThrow(WebTokenNotFoundError);
+  });
+
+  it('throws WebTokenCorruptError for a malformed file', async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(filePath, '{not json');
+    await expect(store.list()).rejects.toThrow(WebTokenCorruptError);
+  });
+});
+
+describe('scopeAllows', () => {
+  it('orders scopes read-only < prompt < admin', () => {
+    expect(scopeAllows('admin', 'prompt')).toBe(true);
+    expect(scopeAllows('prompt', 'prompt')).toBe(true);
+    expect(scopeAllows('prompt', 'admin')).toBe(false);
+    expect(scopeAllows('read-only', 'prompt')).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { lock } from 'proper-lockfile';
+import { WebTokenData, WebTokenEntry, WebTokenScope } from '../types.js';
+import { WebTokenCorruptError, WebTokenLockError, WebTokenNotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const LOCK_OPTIONS = {
+  retries: { retries: 5, factor: 2, minTimeout: 100, maxTimeout: 2000 },
+  stale: 10_000,
+  realpath: false,
+};
+
+/** Scopes in increasing order of privilege. */
+export const WEB_TOKEN_SCOPES: readonly WebTokenScope[] = ['read-only', 'prompt', 'admin'];
+
+/** Prefix that makes AgentSpawn tokens recognisable in logs and secret scanners. */
+const TOKEN_PREFIX = 'ast_';
+
+function emptyData(): WebTokenData {
+  return { version: 1, tokens: {} };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a token with scope `granted` may perform an action that
+ * requires `required`.
+ */
+export function scopeAllows(granted: WebTokenScope, required: WebTokenScope): boolean {
+  return WEB_TOKEN_SCOPES.indexOf(granted) >= WEB_TOKEN_SCOPES.indexOf(required);
+}
+
+/**
+ * WebTokenStore — bearer tokens for the web server API. Only a SHA-256
+ * hash of each token is persisted; the token itself is returned once by
+ * create().
+ */
+export class WebTokenStore {
+  constructor(private readonly filePath: string) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<WebTokenData> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        logger.error(`Web tokens file is corrupt: ${this.filePath}`);
+        throw new WebTokenCorruptError(this.filePath);
+      }
+
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        typeof (parsed as Record<string, unknown>).version !== 'number' ||
+        typeof (parsed as Record<string, unknown>).tokens !== 'object' ||
+        (parsed as Record<string, unknown>).tokens === null
+      ) {
+        logger.error(`Web tokens file has invalid structure: ${this.filePath}`);
+        throw new WebTokenCorruptError(this.filePath);
+      }
+
+      return parsed as WebTokenData;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyData();
+      }
+      throw err;
+    }
+  }
+
+  async save(data: WebTokenData): Promise<void> {
+    const dir = path.dirname(this.filePath);
+    await fs.mkdir(dir, { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    // Hashes only, but there is no reason for other users to read them
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tmpPath, this.filePath);
+    logger.debug(`Web tokens saved to ${this.filePath}`);
+  }
+
+  async withLock(mutator: (data: WebTokenData) => void): Promise<void> {
+    // Ensure the file exists before locking (proper-lockfile requires it)
+    const dir = path.dirname(this.filePath);
+    await fs.mkdir(dir, { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await fs.writeFile(
+        this.filePath,
+        JSON.stringify(emptyData(), null, 2),
+        { encoding: 'utf-8', mode: 0o600 },
+      );
+    }
+
+    let release: (() => Promise<void>) | undefined;
+    try {
+      release = await lock(this.filePath, LOCK_OPTIONS);
+    } catch (err: unknown) {
+      throw new WebTokenLockError(this.filePath, err instanceof Error ? err : undefined);
+    }
+
+    try {
+      const data = await this.load();
+      mutator(data);
+      await this.save(data);
+    } finally {
+      try {
+        await release();
+      } catch {
+        // Lock may already be released if the file was removed
+      }
+    }
+  }
+
+  /**
+   * Create a token. The returned `token` is the only copy of the secret.
+   */
+  async create(name: string, scope: WebTokenScope): Promise<{ entry: WebTokenEntry; token: string }> {
+    const token = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+    let entry: WebTokenEntry | undefined;
+    await this.withLock((data) => {
+      let id: string;
+      do {
+        id = crypto.randomBytes(4).toString('hex');
+      } while (data.tokens[id]);
+      entry = { id, name, scope, hash: hashToken(token), createdAt: new Date().toISOString() };
+      data.tokens[id] = entry;
+    });
+    return { entry: entry!, token };
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.withLock((data) => {
+      if (!data.tokens[id]) {
+        throw new WebTokenNotFoundError(id);
+      }
+      delete data.tokens[id];
+    });
+  }
+
+  async list(): Promise<WebTokenEntry[]> {
+    const data = await this.load();
+    return Object.values(data.tokens);
+  }
+
+  /**
+   * Look up the entry for a presented token, or null if it is unknown.
+   * Reads the file on every call so revocations apply immediately.
+   */
+  async verify(token: string): Promise<WebTokenEntry | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+    const presented = Buffer.from(hashToken(token), 'hex');
+    const data = await this.load();
+    for (const entry of Object.values(data.tokens)) {
+      const stored = Buffer.from(entry.hash, 'hex');
+      if (stored.length === presented.length && crypto.timingSafeEqual(stored, presented)) {
+        return entry;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WorkflowRunStore } from './workflow-runs.js';
+import { WorkflowRunCorruptError, WorkflowRunNotFoundError } from '../utils/errors.js';
+import type { WorkflowRun } from '../types.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+function tmpDir(): string {
+  return path.join(os.tmpdir(), `agentspawn-workflow-runs-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+function makeRun(overrides: Partial<WorkflowRun> = {}): WorkflowRun {
+  return {
+    id: 'run-1',
+    workflow: 'review',
+    file: '/tmp/review.yaml',
+    status: 'running',
+    inputs: {},
+    steps: [{ id: 'draft', status: 'pending', sessions: ['writer'], results: [] }],
+    startedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('WorkflowRunStore', () => {
+  let dir: string;
+  let store: WorkflowRunStore;
+
+  beforeEach(() => {
+    dir = tmpDir();
+    store = new WorkflowRunStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves and reloads a run, overwriting earlier saves', async () => {
+    await store.save(makeRun());
+    await store.save(makeRun({ status: 'succeeded', completedAt: '2026-01-01T00:01:00.000Z' }));
+
+    const run = await store.get('run-1');
+    expect(run.status).toBe('succeeded');
+    expect(run.completedAt).toBe('2026-01-01T00:01:00.000Z');
+    expect(await fs.readdir(dir)).toEqual(['run-1.json']);
+  });
+
+  it('throws WorkflowRunNotFoundError for an unknown run', async () => {
+    await expect(store.get('missing')).rejects.toThrow(WorkflowRunNotFoundError);
+  });
+
+  it('throws WorkflowRunCorruptError for an unreadable run file', async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'bad.json'), '{not json', 'utf-8');
+    await expect(store.get('bad')).rejects.toThrow(WorkflowRunCorruptError);
+  });
+
+  it('lists runs newest first, skipping corrupt files', async () => {
+    expect(await store.list()).toEqual([]);
+
+    await store.save(makeRun({ id: 'older', startedAt: '2026-01-01T00:00:00.000Z' }));
+    await store.save(makeRun({ id: 'newer', startedAt: '2026-01-02T00:00:00.000Z' }));
+    await fs.writeFile(path.join(dir, 'bad.json'), '{not json', 'utf-8');
+
+    const runs = await store.list();
+    expect(runs.map((r) => r.id)).toEqual(['newer', 'older']);
+  });
+});
@@ -0,0 +1,72 @@
+import { WorkflowRun } from '../types.js';
+import { WorkflowRunCorruptError, WorkflowRunNotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * WorkflowRunStore — one `<runId>.json` file per workflow run, rewritten as
+ * each step starts and finishes so `workflow status` can follow a run from
+ * another shell.
+ */
+export class WorkflowRunStore {
+  constructor(private readonly runsDir: string) {}
+
+  async save(run: WorkflowRun): Promise<void> {
+    await fs.mkdir(this.runsDir, { recursive: true });
+    const filePath = this.getFilePath(run.id);
+
+    // Write atomically: write to .tmp then rename
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(run, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async get(runId: string): Promise<WorkflowRun> {
+    const filePath = this.getFilePath(runId);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new WorkflowRunNotFoundError(runId);
+      }
+      throw err;
+    }
+
+    try {
+      return JSON.parse(content) as WorkflowRun;
+    } catch {
+      throw new WorkflowRunCorruptError(filePath);
+    }
+  }
+
+  /** All runs, newest first. Corrupt files are skipped with a warning. */
+  async list(): Promise<WorkflowRun[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.runsDir);
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const runs: WorkflowRun[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        runs.push(await this.get(file.slice(0, -'.json'.length)));
+      } catch (err) {
+        if (!(err instanceof WorkflowRunCorruptError)) throw err;
+        logger.warn(err.message);
+      }
+    }
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private getFilePath(runId: string): string {
+    const sanitized = runId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.runsDir, `${sanitized}.json`);
+  }
+}
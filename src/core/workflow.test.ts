@@ -0,0 +1,373 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  WorkflowRunner,
+  aggregateResponses,
+  parseWorkflow,
+  renderWorkflowTemplate,
+} from './workflow.js';
+import { WorkflowRunStore } from './workflow-runs.js';
+import { SessionNotFoundError, WorkflowInvalidError } from '../utils/errors.js';
+import type { SessionManager } from './manager.js';
+import type { DaemonClient } from './daemon-client.js';
+import type { WorkflowStepResult } from '../types.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+function tmpDir(): string {
+  return path.join(os.tmpdir(), `agentspawn-workflow-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+const REVIEW_WORKFLOW = `
+name: review
+inputs:
+  topic: null
+  style: concise
+sessions:
+  writer:
+    workingDirectory: ./src
+steps:
+  - id: draft
+    session: writer
+    prompt: "Write about {{inputs.topic}} ({{inputs.style}})"
+  - id: critique
+    sessions: [alice, bob]
+    prompt: |
+      Review this:
+      {{previous.response}}
+  - id: approve
+    session: writer
+    when: { step: critique, contains: LGTM }
+    prompt: "Ship it. Alice said: {{steps.critique.responses.alice}}"
+  - id: revise
+    session: writer
+    when: { step: critique, notContains: LGTM }
+    prompt: "Revise using {{steps.critique.response}}"
+`;
+
+function expectProblems(text: string, source = 'wf.yaml'): string[] {
+  try {
+    parseWorkflow(text, source);
+  } catch (err) {
+    expect(err).toBeInstanceOf(WorkflowInvalidError);
+    return (err as WorkflowInvalidError).problems;
+  }
+  throw new Error('expected the workflow to be invalid');
+}
+
+describe('parseWorkflow', () => {
+  it('parses and types a YAML workflow', () => {
+    const workflow = parseWorkflow(REVIEW_WORKFLOW, 'review.yaml');
+    expect(workflow.name).toBe('review');
+    expect(workflow.inputs).toEqual({ topic: null, style: 'concise' });
+    expect(workflow.sessions).toEqual({ writer: { workingDirectory: './src' } });
+    expect(workflow.steps.map((s) => s.id)).toEqual(['draft', 'critique', 'approve', 'revise']);
+    expect(workflow.steps[1].sessions).toEqual(['alice', 'bob']);
+    expect(workflow.steps[2].when).toEqual({ step: 'critique', contains: 'LGTM' });
+  });
+
+  it('reads .json sources as JSON', () => {
+    const workflow = parseWorkflow(
+      JSON.stringify({ name: 'j', steps: [{ id: 'a', session: 's', prompt: 'hi' }] }),
+      'wf.json',
+    );
+    expect(workflow.steps[0].prompt).toBe('hi');
+  });
+
+  it('reports syntax errors as WorkflowInvalidError', () => {
+    expect(expectProblems('name: "open')[0]).toContain('unterminated quoted string');
+    expect(expectProblems('{', 'wf.json')).toHaveLength(1);
+  });
+
+  it('collects every structural problem', () => {
+    const problems = expectProblems(`
+name: bad
+extra: 1
+steps:
+  - id: 1st
+    prompt: hi
+  - id: b
+    session: s
+    sessions: [t]
+    prompt: ""
+    aggregate: sum
+    when: { status: done }
+`);
+    expect(problems).toEqual([
+      'extra is not allowed',
+      'steps[0].id must start with a letter and contain only letters, digits, "_" or "-"',
+      'steps[0] needs exactly one of session or sessions',
+      'steps[1] needs exactly one of session or sessions',
+      'steps[1].prompt is required',
+      'steps[1].aggregate must be one of concat, json, first',
+      'steps[1].when.status must be one of succeeded, failed, skipped',
+    ]);
+  });
+
+  it('rejects placeholders that cannot resolve', () => {
+    const problems = expectProblems(`
+name: refs
+inputs: { topic: x }
+steps:
+  - id: a
+    session: s
+    prompt: "{{previous.response}} {{inputs.other}} {{steps.b.response}}"
+  - id: b
+    sessions: [s, t]
+    prompt: "{{steps.a.responses.t}} {{steps.a.bogus}} {{whatever}}"
+`);
+    expect(problems).toEqual([
+      'steps[0].prompt: the first step has no previous step',
+      'steps[0].prompt: input "other" is not declared',
+      'steps[0].prompt: "b" is not an earlier step',
+      'steps[1].prompt: step "a" does not prompt session "t"',
+      'steps[1].prompt: unknown placeholder {{steps.a.bogus}}',
+      'steps[1].prompt: unknown placeholder {{whatever}}',
+    ]);
+  });
+
+  it('requires conditions to point at earlier steps', () => {
+    const problems = expectProblems(`
+name: when
+steps:
+  - id: a
+    session: s
+    prompt: hi
+    when: { contains: x }
+  - id: b
+    session: s
+    prompt: hi
+    when: { step: c, matches: "(" }
+  - id: c
+    session: s
+    prompt: hi
+    when: { step: a }
+`);
+    expect(problems).toEqual([
+      'steps[0].when.step is required on the first step',
+      'steps[1].when.step must name an earlier step',
+      'steps[1].when.matches is not a valid regular expression',
+      'steps[2].when needs one of status, contains, notContains or matches',
+    ]);
+  });
+});
+
+describe('renderWorkflowTemplate', () => {
+  const draft: WorkflowStepResult = {
+    id: 'draft',
+    status: 'succeeded',
+    sessions: ['a', 'b'],
+    results: [
+      { sessionName: 'a', status: 'succeeded', response: 'from a' },
+      { sessionName: 'b', status: 'succeeded', response: 'from b' },
+    ],
+    response: 'combined',
+  };
+
+  it('substitutes inputs, previous and named step values', () => {
+    expect(
+      renderWorkflowTemplate(
+        '{{ inputs.topic }} | {{previous.response}} | {{steps.draft.status}} | {{steps.draft.responses.b}}',
+        { topic: 'cats' },
+        [draft],
+        draft,
+      ),
+    ).toBe('cats | combined | succeeded | from b');
+  });
+
+  it('renders values of skipped or missing steps as empty', () => {
+    const skipped: WorkflowStepResult = { id: 'x', status: 'skipped', sessions: ['a'], results: [] };
+    expect(renderWorkflowTemplate('[{{steps.x.response}}][{{steps.x.status}}]', {}, [skipped], undefined)).toBe(
+      '[][skipped]',
+    );
+  });
+});
+
+describe('aggregateResponses', () => {
+  const results = [
+    { sessionName: 'a', status: 'succeeded' as const, response: 'one' },
+    { sessionName: 'b', status: 'failed' as const, error: 'boom' },
+    { sessionName: 'c', status: 'succeeded' as const, response: 'three' },
+  ];
+
+  it('concatenates labelled responses by default', () => {
+    expect(aggregateResponses(results)).toBe('[a]\none\n\n[c]\nthree');
+    expect(aggregateResponses(results.slice(0, 1))).toBe('one');
+  });
+
+  it('supports json and first', () => {
+    expect(JSON.parse(aggregateResponses(results, 'json')!)).toEqual({ a: 'one', c: 'three' });
+    expect(aggregateResponses(results, 'first')).toBe('one');
+  });
+
+  it('is undefined when no session succeeded', () => {
+    expect(aggregateResponses([results[1]])).toBeUndefined();
+  });
+});
+
+describe('WorkflowRunner', () => {
+  let dir: string;
+  let store: WorkflowRunStore;
+  let sessions: Map<string, { sendPrompt: ReturnType<typeof vi.fn> }>;
+  let manager: {
+    getSession: ReturnType<typeof vi.fn>;
+    adoptSession: ReturnType<typeof vi.fn>;
+    startSession: ReturnType<typeof vi.fn>;
+  };
+
+  function addSession(name: string, reply: (prompt: string) => string | Promise<string>): void {
+    sessions.set(name, { sendPrompt: vi.fn(async (prompt: string) => reply(prompt)) });
+  }
+
+  beforeEach(() => {
+    dir = tmpDir();
+    store = new WorkflowRunStore(dir);
+    sessions = new Map();
+    manager = {
+      getSession: vi.fn((name: string) => sessions.get(name)),
+      adoptSession: vi.fn(async (name: string) => {
+        throw new SessionNotFoundError(name);
+      }),
+      startSession: vi.fn(async (config: { name: string }) => {
+        addSession(config.name, (prompt) => `started:${prompt}`);
+        return sessions.get(config.name);
+      }),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function runner(): WorkflowRunner {
+    return new WorkflowRunner(manager as unknown as SessionManager, store);
+  }
+
+  it('chains responses, fans out, and follows the matching branch', async () => {
+    addSession('writer', (prompt) => `draft for: ${prompt}`);
+    addSession('alice', () => 'LGTM');
+    addSession('bob', () => 'nit: typo');
+    const workflow = parseWorkflow(REVIEW_WORKFLOW, '/work/review.yaml');
+
+    const seen: string[] = [];
+    const run = await runner().run(workflow, '/work/review.yaml', {
+      inputs: { topic: 'cats' },
+      onStep: (step) => seen.push(`${step.id}:${step.status}`),
+    });
+
+    expect(run.status).toBe('succeeded');
+    expect(run.inputs).toEqual({ topic: 'cats', style: 'concise' });
+    expect(run.steps.map((s) => s.status)).toEqual(['succeeded', 'succeeded', 'succeeded', 'skipped']);
+    expect(run.steps[1].prompt).toBe('Review this:\ndraft for: Write about cats (concise)\n');
+    expect(run.steps[1].response).toBe('[alice]\nLGTM\n\n[bob]\nnit: typo');
+    expect(run.steps[2].prompt).toBe('Ship it. Alice said: LGTM');
+    expect(run.steps[3].skipReason).toBe('step "critique" response contains "LGTM"');
+    expect(seen).toEqual([
+      'draft:running',
+      'draft:succeeded',
+      'critique:running',
+      'critique:succeeded',
+      'approve:running',
+      'approve:succeeded',
+      'revise:skipped',
+    ]);
+
+    expect(await store.get(run.id)).toEqual(run);
+  });
+
+  it('starts declared sessions relative to the workflow file and adopts registry ones', async () => {
+    const adopted = { sendPrompt: vi.fn(async () => 'adopted') };
+    manager.adoptSession.mockImplementation(async (name: string) => {
+      if (name === 'alice') return adopted;
+      throw new SessionNotFoundError(name);
+    });
+    addSession('bob', () => 'ok');
+    const workflow = parseWorkflow(REVIEW_WORKFLOW, '/work/review.yaml');
+
+    const run = await runner().run(workflow, '/work/review.yaml', { inputs: { topic: 'x' } });
+
+    expect(run.status).toBe('succeeded');
+    expect(manager.startSession).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'writer', workingDirectory: path.resolve('/work/src') }),
+    );
+    expect(adopted.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('prompts and starts sessions in the daemon when one is running', async () => {
+    const running = new Set(['alice', 'bob']);
+    const daemon = {
+      getSessionInfo: vi.fn(async (name: string) => (running.has(name) ? { name } : undefined)),
+      startSession: vi.fn(async (config: { name: string }) => ({ name: config.name })),
+      sendPrompt: vi.fn(async (name: string, prompt: string) => `${name}:${prompt}`),
+    };
+    const workflow = parseWorkflow(REVIEW_WORKFLOW, '/work/review.yaml');
+
+    const run = await new WorkflowRunner(manager as unknown as SessionManager, store, daemon as unknown as DaemonClient)
+      .run(workflow, '/work/review.yaml', { inputs: { topic: 'x' } });
+
+    expect(run.status).toBe('succeeded');
+    expect(daemon.startSession).toHaveBeenCalledTimes(1);
+    expect(daemon.startSession).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'writer', workingDirectory: path.resolve('/work/src') }),
+    );
+    expect(daemon.sendPrompt).toHaveBeenCalledWith('writer', 'Write about x (concise)', undefined, undefined);
+    expect(run.steps[1].results.map((r) => r.response)).toEqual([
+      expect.stringMatching(/^alice:Review this/),
+      expect.stringMatching(/^bob:Review this/),
+    ]);
+    expect(manager.getSession).not.toHaveBeenCalled();
+    expect(manager.startSession).not.toHaveBeenCalled();
+  });
+
+  it('fails the run when a session is neither known nor declared', async () => {
+    addSession('writer', () => 'w');
+    addSession('alice', () => 'a');
+    const workflow = parseWorkflow(REVIEW_WORKFLOW, 'review.yaml');
+
+    const run = await runner().run(workflow, 'review.yaml', { inputs: { topic: 'x' } });
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Session not found: bob');
+    expect(run.steps.every((s) => s.status === 'pending')).toBe(true);
+  });
+
+  it('stops at a failed step unless it continues on error', async () => {
+    addSession('a', () => {
+      throw new Error('boom');
+    });
+    addSession('b', () => 'fine');
+    const text = (continueOnError: boolean) => `
+name: failing
+steps:
+  - id: one
+    sessions: [a, b]
+    prompt: go
+    continueOnError: ${continueOnError}
+  - id: recover
+    session: b
+    when: { status: failed }
+    prompt: "partial: {{previous.response}}"
+`;
+
+    const stopped = await runner().run(parseWorkflow(text(false), 'f.yaml'), 'f.yaml');
+    expect(stopped.status).toBe('failed');
+    expect(stopped.error).toBe('Step "one" failed in session "a": boom');
+    expect(stopped.steps[0].results).toEqual([
+      { sessionName: 'a', status: 'failed', error: 'boom' },
+      { sessionName: 'b', status: 'succeeded', response: 'fine' },
+    ]);
+    expect(stopped.steps[1]).toMatchObject({ status: 'skipped', skipReason: 'an earlier step failed' });
+
+    const continued = await runner().run(parseWorkflow(text(true), 'f.yaml'), 'f.yaml');
+    expect(continued.status).toBe('succeeded');
+    expect(continued.steps[1]).toMatchObject({ status: 'succeeded', prompt: 'partial: fine' });
+  });
+
+  it('rejects missing and undeclared inputs before creating a run', async () => {
+    const workflow = parseWorkflow(REVIEW_WORKFLOW, 'review.yaml');
+    await expect(runner().run(workflow, 'review.yaml', { inputs: { extra: '1' } })).rejects.toThrow(
+      'input "extra" is not declared; input "topic" is required',
+    );
+    expect(await store.list()).toEqual([]);
+  });
+});
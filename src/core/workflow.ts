@@ -0,0 +1,530 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SessionManager } from './manager.js';
+import { Session } from './session.js';
+import { WorkflowRunStore } from './workflow-runs.js';
+import type { DaemonClient } from './daemon-client.js';
+import { parseYaml } from '../utils/yaml.js';
+import { SessionNotFoundError, WorkflowInvalidError, YamlParseError } from '../utils/errors.js';
+import type {
+  SessionConfig,
+  WorkflowAggregate,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowSessionResult,
+  WorkflowSessionSpec,
+  WorkflowStep,
+  WorkflowStepResult,
+} from '../types.js';
+
+/**
+ * Declarative workflows: steps across named sessions, loaded from YAML or
+ * JSON, validated up front and executed by WorkflowRunner.
+ *
+ * Prompt placeholders:
+ *   {{inputs.<name>}}                  a workflow input
+ *   {{previous.response|status}}       the most recent step that ran
+ *   {{steps.<id>.response|status}}     an earlier step
+ *   {{steps.<id>.responses.<session>}} one session's response in a fan-out step
+ */
+
+const TOP_LEVEL_KEYS = ['name', 'description', 'inputs', 'sessions', 'steps'];
+const SESSION_SPEC_KEYS = ['workingDirectory', 'permissionMode', 'provider', 'model', 'providerUrl'];
+const STEP_KEYS = ['id', 'session', 'sessions', 'prompt', 'when', 'aggregate', 'continueOnError'];
+const CONDITION_KEYS = ['step', 'status', 'contains', 'notContains', 'matches'];
+const AGGREGATES: WorkflowAggregate[] = ['concat', 'json', 'first'];
+const CONDITION_STATUSES = ['succeeded', 'failed', 'skipped'];
+const STEP_ID = /^[A-Za-z][\w-]*$/;
+const PLACEHOLDER = /\{\{\s*(.*?)\s*\}\}/g;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], at: string, problems: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) problems.push(`${at ? `${at}.` : ''}${key} is not allowed`);
+  }
+}
+
+function checkOptionalString(value: unknown, at: string, problems: string[]): void {
+  if (value !== undefined && typeof value !== 'string') problems.push(`${at} must be a string`);
+}
+
+/** Sessions a step prompts, in declaration order. */
+export function stepSessions(step: WorkflowStep): string[] {
+  return step.sessions ?? (step.session ? [step.session] : []);
+}
+
+/** Why a placeholder cannot resolve in the step at `index`, or null if it can. */
+function placeholderProblem(
+  expr: string,
+  index: number,
+  earlier: Map<string, string[]>,
+  inputs: Record<string, string | null>,
+): string | null {
+  const parts = expr.split('.');
+  switch (parts[0]) {
+    case 'inputs':
+      if (parts.length !== 2) break;
+      return Object.hasOwn(inputs, parts[1]) ? null : `input "${parts[1]}" is not declared`;
+    case 'previous':
+      if (parts.length !== 2 || !['response', 'status'].includes(parts[1])) break;
+      return index === 0 ? 'the first step has no previous step' : null;
+    case 'steps': {
+      const sessions = earlier.get(parts[1]);
+      if (parts.length < 3) break;
+      if (!sessions) return `"${parts[1]}" is not an earlier step`;
+      if (parts.length === 3 && ['response', 'status'].includes(parts[2])) return null;
+      if (parts.length === 4 && parts[2] === 'responses') {
+        return sessions.includes(parts[3]) ? null : `step "${parts[1]}" does not prompt session "${parts[3]}"`;
+      }
+      break;
+    }
+  }
+  return `unknown placeholder {{${expr}}}`;
+}
+
+function validateCondition(
+  when: unknown,
+  index: number,
+  earlier: Map<string, string[]>,
+  at: string,
+  problems: string[],
+): void {
+  if (!isObject(when)) {
+    problems.push(`${at} must be a mapping`);
+    return;
+  }
+  checkKeys(when, CONDITION_KEYS, at, problems);
+  if (!CONDITION_KEYS.slice(1).some((key) => when[key] !== undefined)) {
+    problems.push(`${at} needs one of status, contains, notContains or matches`);
+  }
+  if (when.step !== undefined && (typeof when.step !== 'string' || !earlier.has(when.step))) {
+    problems.push(`${at}.step must name an earlier step`);
+  } else if (when.step === undefined && index === 0) {
+    problems.push(`${at}.step is required on the first step`);
+  }
+  if (when.status !== undefined && !CONDITION_STATUSES.includes(when.status as string)) {
+    problems.push(`${at}.status must be one of ${CONDITION_STATUSES.join(', ')}`);
+  }
+  checkOptionalString(when.contains, `${at}.contains`, problems);
+  checkOptionalString(when.notContains, `${at}.notContains`, problems);
+  if (when.matches !== undefined) {
+    try {
+      new RegExp(String(when.matches));
+      checkOptionalString(when.matches, `${at}.matches`, problems);
+    } catch {
+      problems.push(`${at}.matches is not a valid regular expression`);
+    }
+  }
+}
+
+function validateStep(
+  step: unknown,
+  index: number,
+  earlier: Map<string, string[]>,
+  inputs: Record<string, string | null>,
+  problems: string[],
+): void {
+  const at = `steps[${index}]`;
+  if (!isObject(step)) {
+    problems.push(`${at} must be a mapping`);
+    return;
+  }
+  checkKeys(step, STEP_KEYS, at, problems);
+
+  if (typeof step.id !== 'string' || !STEP_ID.test(step.id)) {
+    problems.push(`${at}.id must start with a letter and contain only letters, digits, "_" or "-"`);
+  } else if (earlier.has(step.id)) {
+    problems.push(`${at}.id "${step.id}" is used by an earlier step`);
+  }
+
+  let sessions: string[] = [];
+  if ((step.session === undefined) === (step.sessions === undefined)) {
+    problems.push(`${at} needs exactly one of session or sessions`);
+  } else if (step.session !== undefined) {
+    if (typeof step.session !== 'string' || step.session === '') problems.push(`${at}.session must be a string`);
+    else sessions = [step.session];
+  } else if (
+    !Array.isArray(step.sessions) ||
+    step.sessions.length === 0 ||
+    !step.sessions.every((name) => typeof name === 'string' && name !== '')
+  ) {
+    problems.push(`${at}.sessions must be a non-empty list of session names`);
+  } else if (new Set(step.sessions).size !== step.sessions.length) {
+    problems.push(`${at}.sessions lists a session twice`);
+  } else {
+    sessions = step.sessions as string[];
+  }
+
+  if (typeof step.prompt !== 'string' || step.prompt.trim() === '') {
+    problems.push(`${at}.prompt is required`);
+  } else {
+    for (const [, expr] of step.prompt.matchAll(PLACEHOLDER)) {
+      const problem = placeholderProblem(expr, index, earlier, inputs);
+      if (problem) problems.push(`${at}.prompt: ${problem}`);
+    }
+  }
+
+  if (step.aggregate !== undefined && !AGGREGATES.includes(step.aggregate as WorkflowAggregate)) {
+    problems.push(`${at}.aggregate must be one of ${AGGREGATES.join(', ')}`);
+  }
+  if (step.continueOnError !== undefined && typeof step.continueOnError !== 'boolean') {
+    problems.push(`${at}.continueOnError must be true or false`);
+  }
+  if (step.when !== undefined) {
+    validateCondition(step.when, index, earlier, `${at}.when`, problems);
+  }
+
+  if (typeof step.id === 'string' && !earlier.has(step.id)) {
+    earlier.set(step.id, sessions);
+  }
+}
+
+/**
+ * Check a parsed workflow document and return it typed. Every problem is
+ * collected into one WorkflowInvalidError rather than stopping at the first.
+ */
+export function validateWorkflow(raw: unknown, source: string): WorkflowDefinition {
+  if (!isObject(raw)) {
+    throw new WorkflowInvalidError(source, ['workflow must be a mapping']);
+  }
+
+  const problems: string[] = [];
+  checkKeys(raw, TOP_LEVEL_KEYS, '', problems);
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') problems.push('name is required');
+  checkOptionalString(raw.description, 'description', problems);
+
+  const inputs: Record<string, string | null> = {};
+  if (raw.inputs !== undefined) {
+    if (!isObject(raw.inputs)) {
+      problems.push('inputs must be a mapping');
+    } else {
+      for (const [name, value] of Object.entries(raw.inputs)) {
+        if (value === null) inputs[name] = null;
+        else if (['string', 'number', 'boolean'].includes(typeof value)) inputs[name] = String(value);
+        else problems.push(`inputs.${name} must be a string, or null for a required input`);
+      }
+    }
+  }
+
+  if (raw.sessions !== undefined) {
+    if (!isObject(raw.sessions)) {
+      problems.push('sessions must be a mapping');
+    } else {
+      for (const [name, spec] of Object.entries(raw.sessions)) {
+        const at = `sessions.${name}`;
+        if (spec === null) continue;
+        if (!isObject(spec)) {
+          problems.push(`${at} must be a mapping`);
+          continue;
+        }
+        checkKeys(spec, SESSION_SPEC_KEYS, at, problems);
+        checkOptionalString(spec.workingDirectory, `${at}.workingDirectory`, problems);
+        checkOptionalString(spec.permissionMode, `${at}.permissionMode`, problems);
+        checkOptionalString(spec.model, `${at}.model`, problems);
+        checkOptionalString(spec.providerUrl, `${at}.providerUrl`, problems);
+        // Built-in or from providers.json; unknown names fail when the session starts
+        checkOptionalString(spec.provider, `${at}.provider`, problems);
+      }
+    }
+  }
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    problems.push('steps must be a non-empty list');
+  } else {
+    const earlier = new Map<string, string[]>();
+    raw.steps.forEach((step, index) => validateStep(step, index, earlier, inputs, problems));
+  }
+
+  if (problems.length > 0) {
+    throw new WorkflowInvalidError(source, problems);
+  }
+
+  const sessions = raw.sessions as Record<string, WorkflowSessionSpec | null> | undefined;
+  return {
+    name: raw.name as string,
+    ...(raw.description !== undefined ? { description: raw.description as string } : {}),
+    ...(raw.inputs !== undefined ? { inputs } : {}),
+    ...(sessions !== undefined
+      ? { sessions: Object.fromEntries(Object.entries(sessions).map(([name, spec]) => [name, spec ?? {}])) }
+      : {}),
+    steps: raw.steps as WorkflowStep[],
+  };
+}
+
+/** Parse workflow text; `.json` sources are read as JSON, anything else as YAML. */
+export function parseWorkflow(text: string, source: string): WorkflowDefinition {
+  let raw: unknown;
+  try {
+    raw = source.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    if (err instanceof YamlParseError || err instanceof SyntaxError) {
+      throw new WorkflowInvalidError(source, [err.message]);
+    }
+    throw err;
+  }
+  return validateWorkflow(raw, source);
+}
+
+export async function loadWorkflow(file: string): Promise<WorkflowDefinition> {
+  return parseWorkflow(await fs.readFile(file, 'utf-8'), file);
+}
+
+/** Fill in `{{...}}` placeholders from the inputs and the steps run so far. */
+export function renderWorkflowTemplate(
+  template: string,
+  inputs: Record<string, string>,
+  steps: WorkflowStepResult[],
+  previous: WorkflowStepResult | undefined,
+): string {
+  return template.replace(PLACEHOLDER, (match, expr: string) => {
+    const parts = expr.split('.');
+    const step = parts[0] === 'previous' ? previous : parts[0] === 'steps' ? steps.find((s) => s.id === parts[1]) : undefined;
+    const field = parts[0] === 'steps' ? parts.slice(2) : parts.slice(1);
+
+    if (parts[0] === 'inputs') return inputs[parts[1]] ?? '';
+    if (parts[0] !== 'previous' && parts[0] !== 'steps') return match;
+    if (field[0] === 'status') return step?.status ?? '';
+    if (field[0] === 'responses') {
+      return step?.results.find((r) => r.sessionName === field[1])?.response ?? '';
+    }
+    return step?.response ?? '';
+  });
+}
+
+/** Combine the responses of the sessions that succeeded, in declaration order. */
+export function aggregateResponses(
+  results: WorkflowSessionResult[],
+  aggregate: WorkflowAggregate = 'concat',
+): string | undefined {
+  const succeeded = results.filter((r) => r.status === 'succeeded');
+  if (succeeded.length === 0) return undefined;
+
+  switch (aggregate) {
+    case 'first':
+      return succeeded[0].response;
+    case 'json':
+      return JSON.stringify(Object.fromEntries(succeeded.map((r) => [r.sessionName, r.response])), null, 2);
+    case 'concat':
+      if (succeeded.length === 1) return succeeded[0].response;
+      return succeeded.map((r) => `[${r.sessionName}]\n${r.response}`).join('\n\n');
+  }
+}
+
+/** Why a step's `when` does not hold, or null when it does. */
+function unmetCondition(
+  when: WorkflowCondition,
+  steps: WorkflowStepResult[],
+  previous: WorkflowStepResult | undefined,
+): string | null {
+  const target = when.step ? steps.find((s) => s.id === when.step) : previous;
+  if (!target) return 'no earlier step has run';
+
+  const response = target.response ?? '';
+  if (when.status && target.status !== when.status) {
+    return `step "${target.id}" ${target.status}, expected ${when.status}`;
+  }
+  if (when.contains !== undefined && !response.includes(when.contains)) {
+    return `step "${target.id}" response does not contain "${when.contains}"`;
+  }
+  if (when.notContains !== undefined && response.includes(when.notContains)) {
+    return `step "${target.id}" response contains "${when.notContains}"`;
+  }
+  if (when.matches !== undefined && !new RegExp(when.matches).test(response)) {
+    return `step "${target.id}" response does not match /${when.matches}/`;
+  }
+  return null;
+}
+
+/** Inputs for a run: defaults overlaid with the caller's values. */
+function resolveInputs(
+  workflow: WorkflowDefinition,
+  given: Record<string, string>,
+  source: string,
+): Record<string, string> {
+  const declared = workflow.inputs ?? {};
+  const problems: string[] = [];
+  const inputs: Record<string, string> = {};
+
+  for (const name of Object.keys(given)) {
+    if (!Object.hasOwn(declared, name)) problems.push(`input "${name}" is not declared`);
+  }
+  for (const [name, defaultValue] of Object.entries(declared)) {
+    const value = given[name] ?? defaultValue;
+    if (value === null) problems.push(`input "${name}" is required`);
+    else inputs[name] = value;
+  }
+
+  if (problems.length > 0) {
+    throw new WorkflowInvalidError(source, problems);
+  }
+  return inputs;
+}
+
+function newRunId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  return `${stamp}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export interface WorkflowRunOptions {
+  inputs?: Record<string, string>;
+  /** Called each time a step starts, finishes or is skipped. */
+  onStep?: (step: WorkflowStepResult, run: WorkflowRun) => void;
+}
+
+/** The part of a session a workflow step uses. */
+type WorkflowSession = Pick<Session, 'sendPrompt'>;
+
+/**
+ * WorkflowRunner — executes a WorkflowDefinition against SessionManager
+ * sessions, or the daemon's when one is given, saving the run after every
+ * step change.
+ *
+ * Steps run in order. A fan-out step prompts its sessions concurrently and
+ * fails if any of them fails; a failed step ends the run unless it sets
+ * `continueOnError`, and the steps after it are marked skipped.
+ */
+export class WorkflowRunner {
+  constructor(
+    private readonly manager: SessionManager,
+    private readonly runStore: WorkflowRunStore,
+    private readonly daemon?: DaemonClient | null,
+  ) {}
+
+  async run(workflow: WorkflowDefinition, file: string, options: WorkflowRunOptions = {}): Promise<WorkflowRun> {
+    const run: WorkflowRun = {
+      id: newRunId(),
+      workflow: workflow.name,
+      file,
+      status: 'running',
+      inputs: resolveInputs(workflow, options.inputs ?? {}, file),
+      steps: workflow.steps.map((step) => ({ id: step.id, status: 'pending', sessions: stepSessions(step), results: [] })),
+      startedAt: new Date().toISOString(),
+    };
+    await this.runStore.save(run);
+
+    try {
+      const sessions = await this.acquireSessions(workflow, path.dirname(file));
+      let previous: WorkflowStepResult | undefined;
+
+      for (const [index, step] of workflow.steps.entries()) {
+        const result = run.steps[index];
+        const skipReason = run.error
+          ? 'an earlier step failed'
+          : step.when
+            ? unmetCondition(step.when, run.steps, previous)
+            : null;
+        if (skipReason) {
+          result.status = 'skipped';
+          result.skipReason = skipReason;
+          await this.update(run, result, options);
+          continue;
+        }
+
+        result.status = 'running';
+        result.startedAt = new Date().toISOString();
+        result.prompt = renderWorkflowTemplate(step.prompt, run.inputs, run.steps, previous);
+        await this.update(run, result, options);
+
+        const prompt = result.prompt;
+        const settled = await Promise.allSettled(result.sessions.map((name) => sessions.get(name)!.sendPrompt(prompt)));
+        result.results = settled.map((outcome, i): WorkflowSessionResult =>
+          outcome.status === 'fulfilled'
+            ? { sessionName: result.sessions[i], status: 'succeeded', response: outcome.value }
+            : {
+                sessionName: result.sessions[i],
+                status: 'failed',
+                error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+              },
+        );
+        result.response = aggregateResponses(result.results, step.aggregate);
+        result.status = result.results.every((r) => r.status === 'succeeded') ? 'succeeded' : 'failed';
+        result.completedAt = new Date().toISOString();
+        previous = result;
+
+        if (result.status === 'failed' && !step.continueOnError) {
+          const failure = result.results.find((r) => r.status === 'failed')!;
+          run.error = `Step "${step.id}" failed in session "${failure.sessionName}": ${failure.error}`;
+        }
+        await this.update(run, result, options);
+      }
+    } catch (err) {
+      run.error = err instanceof Error ? err.message : String(err);
+    }
+
+    run.status = run.error ? 'failed' : 'succeeded';
+    run.completedAt = new Date().toISOString();
+    await this.runStore.save(run);
+    return run;
+  }
+
+  private async update(run: WorkflowRun, step: WorkflowStepResult, options: WorkflowRunOptions): Promise<void> {
+    await this.runStore.save(run);
+    options.onStep?.(step, run);
+  }
+
+  /**
+   * Every session the workflow prompts: already running here, adopted from
+   * the registry, or started from its `sessions` declaration.
+   */
+  private async acquireSessions(workflow: WorkflowDefinition, baseDir: string): Promise<Map<string, WorkflowSession>> {
+    if (this.daemon) return this.acquireDaemonSessions(this.daemon, workflow, baseDir);
+
+    const sessions = new Map<string, WorkflowSession>();
+    for (const name of new Set(workflow.steps.flatMap(stepSessions))) {
+      const existing = this.manager.getSession(name);
+      if (existing) {
+        sessions.set(name, existing);
+        continue;
+      }
+
+      try {
+        sessions.set(name, await this.manager.adoptSession(name));
+        continue;
+      } catch (err) {
+        if (!(err instanceof SessionNotFoundError) || !workflow.sessions?.[name]) throw err;
+      }
+
+      sessions.set(name, await this.manager.startSession(declaredSessionConfig(name, workflow.sessions[name], baseDir)));
+    }
+    return sessions;
+  }
+
+  /**
+   * Daemon mode: the daemon owns the sessions, so they outlive the run and
+   * other shells can watch its prompts. Undeclared sessions must already be
+   * running in the daemon.
+   */
+  private async acquireDaemonSessions(
+    daemon: DaemonClient,
+    workflow: WorkflowDefinition,
+    baseDir: string,
+  ): Promise<Map<string, WorkflowSession>> {
+    const sessions = new Map<string, WorkflowSession>();
+    for (const name of new Set(workflow.steps.flatMap(stepSessions))) {
+      if (!(await daemon.getSessionInfo(name))) {
+        const spec = workflow.sessions?.[name];
+        if (!spec) throw new SessionNotFoundError(name);
+        await daemon.startSession(declaredSessionConfig(name, spec, baseDir));
+      }
+      sessions.set(name, { sendPrompt: (prompt, options) => daemon.sendPrompt(name, prompt, undefined, options) });
+    }
+    return sessions;
+  }
+}
+
+/** The config of a session declared by the workflow; relative working directories are relative to the workflow file. */
+function declaredSessionConfig(name: string, spec: WorkflowSessionSpec, baseDir: string): SessionConfig {
+  return {
+    name,
+    workingDirectory: path.resolve(baseDir, spec.workingDirectory ?? '.'),
+    permissionMode: spec.permissionMode ?? 'bypassPermissions',
+    provider: spec.provider,
+    modelName: spec.model,
+    providerUrl: spec.providerUrl,
+  };
+}
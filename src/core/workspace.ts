@@ -1,4 +1,4 @@
-import { WorkspaceData, WorkspaceEntry } from '../types.js';
+import { BudgetLimits, WorkspaceData, WorkspaceEntry } from '../types.js';
 import {
   WorkspaceAlreadyExistsError,
   WorkspaceCorruptError,
@@ -164,6 +164,23 @@ export class WorkspaceManager {
     return removed;
   }
 
+  /**
+   * Set or (with undefined) clear the budget shared by a workspace's sessions.
+   */
+  async setBudget(name: string, budget: BudgetLimits | undefined): Promise<void> {
+    await this.withLock((data) => {
+      const workspace = data.workspaces[name];
+      if (!workspace) {
+        throw new WorkspaceNotFoundError(name);
+      }
+      if (budget) {
+        workspace.budget = budget;
+      } else {
+        delete workspace.budget;
+      }
+    });
+  }
+
   async list(): Promise<WorkspaceEntry[]> {
     const data = await this.load();
     return Object.values(data.workspaces);
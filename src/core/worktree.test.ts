@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { WorktreeManager, defaultWorktreeBranch } from './worktree.js';
+import { WorktreeError } from '../utils/errors.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-C', cwd, ...args], { encoding: 'utf-8' }).trim();
+}
+
+describe('WorktreeManager', () => {
+  let dir: string;
+  let repo: string;
+  let worktrees: WorktreeManager;
+
+  beforeAll(() => {
+    // Commits made by the tests (and by merge) need an identity
+    process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = 'Test';
+    process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = 'test@example.com';
+  });
+
+  beforeEach(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'agentspawn-worktree-test-')));
+    repo = path.join(dir, 'repo');
+    await fs.mkdir(path.join(repo, 'packages', 'api'), { recursive: true });
+    git(repo, 'init', '-q', '-b', 'main');
+    await fs.writeFile(path.join(repo, 'README.md'), 'hello\n');
+    await fs.writeFile(path.join(repo, 'packages', 'api', 'index.ts'), 'export {};\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'initial');
+    worktrees = new WorktreeManager(path.join(dir, 'worktrees'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('creates a worktree on a new branch from HEAD', async () => {
+    const { worktree, workingDirectory } = await worktrees.create(repo, 'api', defaultWorktreeBranch('api'));
+
+    expect(worktree).toEqual({
+      repoRoot: repo,
+      path: path.join(dir, 'worktrees', 'api'),
+      branch: 'agentspawn/api',
+      baseBranch: 'main',
+      createdBranch: true,
+    });
+    expect(workingDirectory).toBe(worktree.path);
+    expect(git(worktree.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('agentspawn/api');
+  });
+
+  it('checks out an existing branch and keeps the subdirectory it was started in', async () => {
+    git(repo, 'branch', 'feature');
+    const { worktree, workingDirectory } = await worktrees.create(path.join(repo, 'packages', 'api'), 'api', 'feature');
+
+    expect(worktree.createdBranch).toBe(false);
+    expect(workingDirectory).toBe(path.join(worktree.path, 'packages', 'api'));
+    expect(git(worktree.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('feature');
+  });
+
+  it('refuses the branch checked out in the repository and directories that are not repositories', async () => {
+    await expect(worktrees.create(repo, 'api', 'main')).rejects.toThrow('is checked out in');
+    await expect(worktrees.create(dir, 'api', 'x')).rejects.toBeInstanceOf(WorktreeError);
+  });
+
+  it('merge commits outstanding changes into the base branch and removes the worktree', async () => {
+    const { worktree } = await worktrees.create(repo, 'api', 'agentspawn/api');
+    await fs.writeFile(path.join(worktree.path, 'NEW.md'), 'from the agent\n');
+
+    await worktrees.finish(worktree, 'merge');
+
+    expect(await fs.readFile(path.join(repo, 'NEW.md'), 'utf-8')).toBe('from the agent\n');
+    await expect(fs.access(worktree.path)).rejects.toThrow();
+    expect(git(repo, 'branch', '--list', 'agentspawn/api')).toBe('');
+  });
+
+  it('merge refuses when the repository moved off the base branch', async () => {
+    const { worktree } = await worktrees.create(repo, 'api', 'agentspawn/api');
+    git(repo, 'checkout', '-q', '-b', 'other');
+
+    await expect(worktrees.finish(worktree, 'merge')).rejects.toThrow('is on "other", not "main"');
+    await fs.access(worktree.path);
+  });
+
+  it('merge rolls back a conflicting merge and keeps the worktree', async () => {
+    const { worktree } = await worktrees.create(repo, 'api', 'agentspawn/api');
+    await fs.writeFile(path.join(worktree.path, 'README.md'), 'from the agent\n');
+    await fs.writeFile(path.join(repo, 'README.md'), 'from the user\n');
+    git(repo, 'commit', '-q', '-am', 'user edit');
+
+    await expect(worktrees.finish(worktree, 'merge')).rejects.toThrow('the merge was rolled back');
+
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+    expect(await fs.readFile(path.join(repo, 'README.md'), 'utf-8')).toBe('from the user\n');
+    await fs.access(worktree.path);
+  });
+
+  it('discard removes the worktree and its branch; keep leaves both', async () => {
+    const kept = (await worktrees.create(repo, 'kept', 'agentspawn/kept')).worktree;
+    const dropped = (await worktrees.create(repo, 'dropped', 'agentspawn/dropped')).worktree;
+    await fs.writeFile(path.join(dropped.path, 'scratch.txt'), 'x');
+
+    await worktrees.finish(kept, 'keep');
+    await worktrees.finish(dropped, 'discard');
+
+    await fs.access(kept.path);
+    await expect(fs.access(dropped.path)).rejects.toThrow();
+    expect(git(repo, 'branch', '--list', 'agentspawn/dropped')).toBe('');
+    expect(await fs.readFile(path.join(repo, 'README.md'), 'utf-8')).toBe('hello\n');
+  });
+
+  it('leaves branches it did not create when removing their worktrees', async () => {
+    git(repo, 'branch', 'feature');
+    git(repo, 'branch', 'hotfix');
+    const discarded = (await worktrees.create(repo, 'discarded', 'feature')).worktree;
+    const merged = (await worktrees.create(repo, 'merged', 'hotfix')).worktree;
+    await fs.writeFile(path.join(merged.path, 'FIX.md'), 'fixed\n');
+
+    await worktrees.finish(discarded, 'discard');
+    await worktrees.finish(merged, 'merge');
+
+    await expect(fs.access(discarded.path)).rejects.toThrow();
+    await expect(fs.access(merged.path)).rejects.toThrow();
+    expect(git(repo, 'branch', '--list', 'feature')).not.toBe('');
+    expect(git(repo, 'branch', '--list', 'hotfix')).not.toBe('');
+    expect(await fs.readFile(path.join(repo, 'FIX.md'), 'utf-8')).toBe('fixed\n');
+  });
+
+  it('lists session worktrees, matching them to sessions, and prunes the orphans', async () => {
+    const used = (await worktrees.create(repo, 'used', 'agentspawn/used')).worktree;
+    const orphan = (await worktrees.create(repo, 'orphan', 'agentspawn/orphan')).worktree;
+    const gone = (await worktrees.create(repo, 'gone', 'agentspawn/gone')).worktree;
+    await fs.rm(gone.path, { recursive: true, force: true });
+    const sessions = [{ name: 'used', worktree: used }, { name: 'plain' }];
+
+    const listed = await worktrees.list(repo, sessions);
+    expect(listed).toHaveLength(3);
+    expect(listed).toEqual(expect.arrayContaining([
+      { path: used.path, branch: 'agentspawn/used', sessionName: 'used', missing: false },
+      { path: orphan.path, branch: 'agentspawn/orphan', sessionName: undefined, missing: false },
+      { path: gone.path, branch: 'agentspawn/gone', sessionName: undefined, missing: true },
+    ]));
+
+    const removed = await worktrees.prune(repo, sessions, { deleteBranches: true });
+    expect(removed.map((wt) => wt.path).sort()).toEqual([gone.path, orphan.path].sort());
+    expect((await worktrees.list(repo, sessions)).map((wt) => wt.sessionName)).toEqual(['used']);
+    expect(git(repo, 'branch', '--list', 'agentspawn/orphan')).toBe('');
+    expect(git(repo, 'branch', '--list', 'agentspawn/used')).not.toBe('');
+  });
+});
@@ -0,0 +1,209 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { SessionWorktree, WorktreeStopAction } from '../types.js';
+import { WorktreeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+export const WORKTREE_STOP_ACTIONS: WorktreeStopAction[] = ['keep', 'merge', 'discard'];
+
+/** Branch used when --worktree is given without one (and by templates). */
+export function defaultWorktreeBranch(sessionName: string): string {
+  return `agentspawn/${sessionName}`;
+}
+
+/** A worktree under the worktrees directory, as `worktree list` shows it. */
+export interface ManagedWorktree {
+  path: string;
+  /** Undefined for a detached HEAD. */
+  branch?: string;
+  /** The session using it, or undefined if no registered session does. */
+  sessionName?: string;
+  /** Git still knows the worktree but its directory is gone. */
+  missing: boolean;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', cwd, ...args]);
+    return stdout.trim();
+  } catch (err: unknown) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new WorktreeError(
+      `git ${args[0]} failed in ${cwd}${stderr ? `: ${stderr}` : ''}`,
+      err instanceof Error ? err : undefined,
+    );
+  }
+}
+
+async function branchExists(repoRoot: string, branch: string): Promise<boolean> {
+  try {
+    await execFileAsync('git', ['-C', repoRoot, 'show-ref', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * WorktreeManager — one git worktree per session, so sessions working in
+ * the same repository do not share a working tree. Worktrees live in a
+ * directory of their own (~/.agentspawn/worktrees/<session>) and are
+ * found again through `git worktree list`.
+ */
+export class WorktreeManager {
+  constructor(private readonly worktreesDir: string) {}
+
+  getWorktreesDir(): string {
+    return this.worktreesDir;
+  }
+
+  /**
+   * Create a worktree for `sessionName` on `branch`, checking out the
+   * branch if it exists or creating it from the current HEAD otherwise.
+   * Returns the worktree and the directory the session should run in: when
+   * `directory` is below the repository root, the same subdirectory of the
+   * worktree.
+   */
+  async create(
+    directory: string,
+    sessionName: string,
+    branch: string,
+  ): Promise<{ worktree: SessionWorktree; workingDirectory: string }> {
+    const repoRoot = await git(directory, ['rev-parse', '--show-toplevel']);
+    const baseBranch = await git(repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    if (baseBranch === branch) {
+      throw new WorktreeError(`branch "${branch}" is checked out in ${repoRoot}; pick another branch`);
+    }
+
+    await fs.mkdir(this.worktreesDir, { recursive: true });
+    // git reports worktrees by their real path, so record that one
+    const worktreePath = path.join(await fs.realpath(this.worktreesDir), sessionName);
+    try {
+      await fs.access(worktreePath);
+      throw new WorktreeError(`${worktreePath} already exists; run "agentspawn worktree prune" to remove orphans`);
+    } catch (err) {
+      if (err instanceof WorktreeError) throw err;
+    }
+
+    const createdBranch = !(await branchExists(repoRoot, branch));
+    await git(repoRoot, createdBranch
+      ? ['worktree', 'add', '-b', branch, worktreePath]
+      : ['worktree', 'add', worktreePath, branch]);
+    logger.info(`Created worktree ${worktreePath} on branch "${branch}" for session "${sessionName}"`);
+
+    const subdirectory = path.relative(await fs.realpath(repoRoot), await fs.realpath(directory));
+    return {
+      worktree: { repoRoot, path: worktreePath, branch, baseBranch, createdBranch },
+      workingDirectory: subdirectory ? path.join(worktreePath, subdirectory) : worktreePath,
+    };
+  }
+
+  /**
+   * Finish with a session's worktree.
+   * - keep: leave the worktree and branch as they are
+   * - merge: commit outstanding changes, merge the branch into the base
+   *   branch, then remove the worktree and branch
+   * - discard: remove the worktree and delete the branch with its changes
+   * Branches that existed before the worktree are never deleted.
+   */
+  async finish(worktree: SessionWorktree, action: WorktreeStopAction): Promise<void> {
+    if (action === 'keep') return;
+
+    if (action === 'merge') {
+      const current = await git(worktree.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+      if (current !== worktree.baseBranch) {
+        throw new WorktreeError(
+          `cannot merge "${worktree.branch}": ${worktree.repoRoot} is on "${current}", not "${worktree.baseBranch}"`,
+        );
+      }
+      if (await git(worktree.path, ['status', '--porcelain'])) {
+        await git(worktree.path, ['add', '-A']);
+        await git(worktree.path, ['commit', '-m', `agentspawn: work from ${worktree.branch}`]);
+      }
+      try {
+        await git(worktree.repoRoot, ['merge', '--no-edit', worktree.branch]);
+      } catch (err) {
+        // A conflict must not leave the user's checkout mid-merge
+        const aborted = await git(worktree.repoRoot, ['merge', '--abort']).then(() => true, () => false);
+        const state = aborted ? 'the merge was rolled back' : `run \`git merge --abort\` in ${worktree.repoRoot} if it is mid-merge`;
+        throw new WorktreeError(
+          `cannot merge "${worktree.branch}" into "${worktree.baseBranch}", ${state}: ${(err as Error).message}`,
+          err as Error,
+        );
+      }
+      logger.info(`Merged "${worktree.branch}" into "${worktree.baseBranch}"`);
+    }
+
+    await this.remove(worktree, worktree.createdBranch ? (action === 'merge' ? 'merged' : 'force') : false);
+  }
+
+  /**
+   * Remove a worktree directory, and its branch if `deleteBranch` is set:
+   * 'merged' only deletes a branch that is merged (`git branch -d`), 'force'
+   * deletes it with any unmerged commits.
+   */
+  async remove(worktree: SessionWorktree, deleteBranch: 'merged' | 'force' | false): Promise<void> {
+    await git(worktree.repoRoot, ['worktree', 'remove', '--force', worktree.path]);
+    if (deleteBranch) {
+      await git(worktree.repoRoot, ['branch', deleteBranch === 'merged' ? '-d' : '-D', worktree.branch]);
+    }
+    logger.info(`Removed worktree ${worktree.path}${deleteBranch ? ` and branch "${worktree.branch}"` : ''}`);
+  }
+
+  /**
+   * Worktrees of the repository containing `directory` that live in the
+   * worktrees directory, matched against the sessions using them.
+   */
+  async list(directory: string, sessions: Array<{ name: string; worktree?: SessionWorktree }>): Promise<ManagedWorktree[]> {
+    const repoRoot = await git(directory, ['rev-parse', '--show-toplevel']);
+    const porcelain = await git(repoRoot, ['worktree', 'list', '--porcelain']);
+    const worktreesDir = await fs.realpath(this.worktreesDir).catch(() => path.resolve(this.worktreesDir));
+    const prefix = worktreesDir + path.sep;
+
+    const result: ManagedWorktree[] = [];
+    for (const block of porcelain.split(/\n\n+/)) {
+      const lines = block.split('\n');
+      const worktreePath = lines.find((line) => line.startsWith('worktree '))?.slice('worktree '.length);
+      if (!worktreePath || !path.resolve(worktreePath).startsWith(prefix)) continue;
+
+      const branchRef = lines.find((line) => line.startsWith('branch '))?.slice('branch '.length);
+      const missing = await fs.access(worktreePath).then(() => false, () => true);
+      result.push({
+        path: worktreePath,
+        branch: branchRef?.replace(/^refs\/heads\//, ''),
+        sessionName: sessions.find((s) => s.worktree && path.resolve(s.worktree.path) === path.resolve(worktreePath))?.name,
+        missing,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Remove worktrees no session uses. Branches are kept unless
+   * `deleteBranches` is set, since they may hold unmerged work.
+   * Returns the worktrees removed.
+   */
+  async prune(
+    directory: string,
+    sessions: Array<{ name: string; worktree?: SessionWorktree }>,
+    options: { deleteBranches?: boolean } = {},
+  ): Promise<ManagedWorktree[]> {
+    const repoRoot = await git(directory, ['rev-parse', '--show-toplevel']);
+    const orphans = (await this.list(repoRoot, sessions)).filter((wt) => !wt.sessionName);
+    for (const orphan of orphans.filter((wt) => !wt.missing)) {
+      await git(repoRoot, ['worktree', 'remove', '--force', orphan.path]);
+    }
+    // Drops git's records of worktrees whose directories were deleted by hand
+    await git(repoRoot, ['worktree', 'prune']);
+    if (options.deleteBranches) {
+      for (const orphan of orphans.filter((wt) => wt.branch)) {
+        await git(repoRoot, ['branch', '-D', orphan.branch!]);
+      }
+    }
+    return orphans;
+  }
+}
@@ -9,6 +9,12 @@ import {
   formatRelativeDate,
   formatTemplateTable,
   formatBroadcastResults,
+  describeProviderEvent,
+  formatUsageTable,
+  formatCost,
+  formatBudgetLimits,
+  formatBudgetRemaining,
+  describeBudgetEvent,
 } from './formatter.js';
 import { BroadcastResult, SessionState, WorkspaceEntry, TemplateEntry } from '../types.js';
 
@@ -361,3 +367,103 @@ describe('formatBroadcastResults', () => {
     expect(stripped).toContain('Broadcast complete: 1 succeeded, 0 failed');
   });
 });
+
+describe('describeProviderEvent', () => {
+  it('uses the tool summary for tool_use events', () => {
+    expect(describeProviderEvent({
+      type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'npm test' }, summary: 'Ran npm test',
+    })).toBe('Ran npm test');
+  });
+
+  it('only reports failed tool results, by their first line', () => {
+    expect(describeProviderEvent({ type: 'tool_result', toolUseId: 't1', content: 'ok', isError: false })).toBeNull();
+    expect(describeProviderEvent({
+      type: 'tool_result', toolUseId: 't1', content: 'exit 1\nstack...', isError: true,
+    })).toBe('Tool failed: exit 1');
+  });
+
+  it('summarizes duration, tokens and cost for result events', () => {
+    expect(describeProviderEvent({
+      type: 'result',
+      isError: false,
+      durationMs: 4200,
+      costUsd: 0.0123,
+      usage: { inputTokens: 1234, outputTokens: 567 },
+    })).toBe('Done · 4.2s · 1,234 in / 567 out tokens · $0.0123');
+  });
+
+  it('ignores text events', () => {
+    expect(describeProviderEvent({ type: 'text', text: 'hello' })).toBeNull();
+  });
+});
+
+describe('formatUsageTable', () => {
+  const row = (key: string, costUsd: number) => ({
+    key,
+    turns: 3,
+    inputTokens: 12000,
+    outputTokens: 3400,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 56000,
+    costUsd,
+  });
+
+  it('returns a message when there is no usage', () => {
+    expect(formatUsageTable([], row('total', 0), 'session')).toBe('No usage recorded.');
+  });
+
+  it('renders one row per group plus a total row', () => {
+    const output = stripAnsi(formatUsageTable([row('alpha', 1.5), row('beta', 0.25)], row('total', 1.75), 'tag'));
+    const lines = output.split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toMatch(/^TAG\s+TURNS\s+INPUT\s+OUTPUT\s+CACHE READ\s+CACHE WRITE\s+COST$/);
+    expect(lines[1]).toContain('alpha');
+    expect(lines[1]).toContain('12,000');
+    expect(lines[1]).toContain('56,000');
+    expect(lines[3]).toMatch(/^TOTAL.*\$1\.75$/);
+  });
+
+  it('formatCost keeps sub-cent amounts visible', () => {
+    expect(formatCost(0.0042)).toBe('$0.0042');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(12.3)).toBe('$12.30');
+  });
+});
+
+describe('budget formatting', () => {
+  const status = (overrides: object = {}) => ({
+    scope: 'session' as const,
+    scopeName: 'alpha',
+    limits: { maxCostUsd: 5, maxTokens: 10000 },
+    used: { tokens: 4000, costUsd: 3.8, promptsLastHour: 0, wallClockMs: 0 },
+    remaining: { cost: 1.2, tokens: 6000 },
+    warnings: [],
+    exceeded: [],
+    ...overrides,
+  });
+
+  it('formatBudgetLimits lists configured limits', () => {
+    expect(formatBudgetLimits({ maxCostUsd: 5, maxPromptsPerHour: 20, maxWallClockMs: 7_200_000 }))
+      .toBe('$5.00 · 20 prompts/h · 120m');
+    expect(formatBudgetLimits({})).toBe('none');
+  });
+
+  it('formatBudgetRemaining uses the tightest remaining amount across scopes', () => {
+    expect(formatBudgetRemaining([])).toBeNull();
+    expect(formatBudgetRemaining([
+      status(),
+      status({ scope: 'workspace', scopeName: 'team', remaining: { cost: 0.5 } }),
+    ])).toBe('$0.50 · 6,000 tok left');
+  });
+
+  it('formatBudgetRemaining reports exhausted limits', () => {
+    expect(formatBudgetRemaining([status({ scope: 'workspace', scopeName: 'team', exceeded: ['cost'] })]))
+      .toBe('EXCEEDED: cost (team)');
+  });
+
+  it('describeBudgetEvent describes warnings and refusals', () => {
+    const event = { sessionName: 'alpha', scope: 'session' as const, scopeName: 'alpha', limit: 'cost' as const, used: 4.1, max: 5 };
+    expect(describeBudgetEvent(event, false)).toBe('Budget warning (session alpha): $4.10 of $5.00 used');
+    expect(describeBudgetEvent(event, true)).toContain('further prompts are refused');
+  });
+});
@@ -1,4 +1,4 @@
-import { BroadcastResult, PromptHistoryEntry, SessionInfo, SessionState, TemplateEntry, WorkspaceEntry } from '../types.js';
+import { BroadcastResult, BudgetEvent, BudgetLimitKind, BudgetLimits, BudgetStatus, FullHistoryEntry, PromptHistoryEntry, ProviderEvent, ResourceKind, ResourceWarningEvent, SessionInfo, SessionState, TemplateEntry, UsageGroupBy, UsageSummary, WorkspaceEntry } from '../types.js';
 
 const GREEN = '\x1b[32m';
 const RED = '\x1b[31m';
@@ -176,7 +176,8 @@ export function formatHistoryTable(entries: HistoryTableEntry[]): string {
       ? `${GRAY}${entry.responsePreview.slice(0, maxPromptWidth)}${RESET}`
       : '';
 
-    lines.push(`${prefix}  ${GRAY}${time}${RESET}   "${promptText}"`);
+    const scheduled = entry.scheduleId ? `  ${GRAY}(schedule ${entry.scheduleId})${RESET}` : '';
+    lines.push(`${prefix}  ${GRAY}${time}${RESET}   "${promptText}"${scheduled}`);
     if (responseLine) {
       const indent = entry.sessionName ? '                  ' : '              ';
       lines.push(`${indent}Response: ${responseLine}`);
@@ -186,6 +187,220 @@ export function formatHistoryTable(entries: HistoryTableEntry[]): string {
   return lines.join('\n');
 }
 
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Format a usage report: one row per group plus a bold total row.
+ */
+export function formatUsageTable(rows: UsageSummary[], total: UsageSummary, groupBy: UsageGroupBy): string {
+  if (rows.length === 0) {
+    return 'No usage recorded.';
+  }
+
+  const headers = [groupBy.toUpperCase(), 'TURNS', 'INPUT', 'OUTPUT', 'CACHE READ', 'CACHE WRITE', 'COST'];
+  // Numeric columns are right-aligned
+  const numeric = [false, true, true, true, true, true, true];
+  const n = (value: number) => value.toLocaleString('en-US');
+  const toCells = (row: UsageSummary): string[] => [
+    row.key,
+    n(row.turns),
+    n(row.inputTokens),
+    n(row.outputTokens),
+    n(row.cacheReadInputTokens),
+    n(row.cacheCreationInputTokens),
+    formatCost(row.costUsd),
+  ];
+
+  const cells = rows.map(toCells);
+  const totalCells = toCells({ ...total, key: 'TOTAL' });
+
+  const colWidths = headers.map((h, i) => {
+    const maxRow = [...cells, totalCells].reduce((max, row) => Math.max(max, row[i].length), 0);
+    return Math.max(h.length, maxRow);
+  });
+
+  const pad = (str: string, i: number) => numeric[i] ? str.padStart(colWidths[i]) : str.padEnd(colWidths[i]);
+
+  const headerLine = headers.map((h, i) => `${BOLD}${pad(h, i)}${RESET}`).join('  ');
+  const bodyLines = cells.map((row) => row.map((cell, i) => pad(cell, i)).join('  '));
+  const totalLine = `${BOLD}${totalCells.map((cell, i) => pad(cell, i)).join('  ')}${RESET}`;
+
+  return [headerLine, ...bodyLines, totalLine].join('\n');
+}
+
+function formatBudgetAmount(kind: BudgetLimitKind, value: number): string {
+  switch (kind) {
+    case 'tokens':
+      return `${Math.round(value).toLocaleString('en-US')} tok`;
+    case 'cost':
+      return formatCost(value);
+    case 'promptsPerHour':
+      return `${value} prompts/h`;
+    case 'wallClock':
+      return `${Math.round(value / 60_000)}m`;
+  }
+}
+
+/**
+ * Configured limits, e.g. "$5.00 · 200,000 tok · 20 prompts/h · 120m".
+ */
+export function formatBudgetLimits(limits: BudgetLimits): string {
+  const parts: string[] = [];
+  if (limits.maxCostUsd !== undefined) parts.push(formatBudgetAmount('cost', limits.maxCostUsd));
+  if (limits.maxTokens !== undefined) parts.push(formatBudgetAmount('tokens', limits.maxTokens));
+  if (limits.maxPromptsPerHour !== undefined) parts.push(formatBudgetAmount('promptsPerHour', limits.maxPromptsPerHour));
+  if (limits.maxWallClockMs !== undefined) parts.push(formatBudgetAmount('wallClock', limits.maxWallClockMs));
+  return parts.length > 0 ? parts.join(' · ') : 'none';
+}
+
+/**
+ * Compact remaining-budget summary across scopes, using the tightest
+ * remaining amount per limit, e.g. "$1.20 · 4,000 tok left". Reports the
+ * exhausted limit instead once any scope is exceeded.
+ */
+export function formatBudgetRemaining(statuses: BudgetStatus[]): string | null {
+  if (statuses.length === 0) return null;
+
+  const exceeded = statuses.find((s) => s.exceeded.length > 0);
+  if (exceeded) {
+    const scope = exceeded.scope === 'workspace' ? ` (${exceeded.scopeName})` : '';
+    return `EXCEEDED: ${exceeded.exceeded.join(', ')}${scope}`;
+  }
+
+  const order: BudgetLimitKind[] = ['cost', 'tokens', 'promptsPerHour', 'wallClock'];
+  const parts: string[] = [];
+  for (const kind of order) {
+    const remaining = statuses
+      .map((s) => s.remaining[kind])
+      .filter((v): v is number => v !== undefined);
+    if (remaining.length > 0) parts.push(formatBudgetAmount(kind, Math.min(...remaining)));
+  }
+  return parts.length > 0 ? `${parts.join(' · ')} left` : null;
+}
+
+/**
+ * One-liner for a budgetWarning / budgetExceeded event.
+ */
+export function describeBudgetEvent(event: BudgetEvent, exceeded: boolean): string {
+  const owner = event.scope === 'workspace' ? `workspace ${event.scopeName}` : `session ${event.scopeName}`;
+  const amounts = `${formatBudgetAmount(event.limit, event.used)} of ${formatBudgetAmount(event.limit, event.max)}`;
+  return exceeded
+    ? `Budget exceeded (${owner}): ${amounts}; further prompts are refused`
+    : `Budget warning (${owner}): ${amounts} used`;
+}
+
+/**
+ * Byte count in binary units, e.g. "512 B", "3.4 MB", "1.25 GB".
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${Math.round(value)} B` : `${value.toFixed(value < 10 ? 2 : 1)} ${units[unit]}`;
+}
+
+/**
+ * A reading in the unit of its kind, e.g. "85%" or "1.25 GB".
+ */
+export function formatResourceAmount(kind: ResourceKind, value: number): string {
+  return kind === 'cpu' ? `${Math.round(value)}%` : formatBytes(value);
+}
+
+/**
+ * Text gauge of `value` out of `max`, e.g. "[######------]"; full past max.
+ */
+export function formatGauge(value: number, max: number, width: number = 20): string {
+  const filled = max > 0 ? Math.min(width, Math.round((value / max) * width)) : 0;
+  return `[${'#'.repeat(filled)}${'-'.repeat(width - filled)}]`;
+}
+
+/**
+ * One-liner for a resourceWarning event.
+ */
+export function describeResourceWarning(event: ResourceWarningEvent): string {
+  const name = { cpu: 'CPU', memory: 'memory', disk: 'disk writes' }[event.kind];
+  return `Resource warning (session ${event.sessionName}): ${name} at ${formatResourceAmount(event.kind, event.value)}, soft limit ${formatResourceAmount(event.kind, event.limit)}`;
+}
+
+/**
+ * Plain-text one-liner for a structured provider event, or null for events
+ * that are not worth a line of their own (text, successful tool results).
+ */
+export function describeProviderEvent(event: ProviderEvent): string | null {
+  switch (event.type) {
+    case 'tool_use':
+      return event.summary;
+    case 'tool_result': {
+      if (!event.isError) return null;
+      const firstLine = event.content.split('\n')[0] ?? '';
+      return `Tool failed: ${firstLine}`;
+    }
+    case 'result': {
+      const parts: string[] = [event.isError ? 'Finished with error' : 'Done'];
+      if (event.durationMs !== undefined) parts.push(`${(event.durationMs / 1000).toFixed(1)}s`);
+      if (event.usage) {
+        parts.push(`${event.usage.inputTokens.toLocaleString('en-US')} in / ${event.usage.outputTokens.toLocaleString('en-US')} out tokens`);
+      }
+      if (event.costUsd !== undefined) parts.push(`$${event.costUsd.toFixed(4)}`);
+      return parts.join(' · ');
+    }
+    case 'error':
+      return `Error: ${event.message}`;
+    case 'text':
+      return null;
+  }
+}
+
+/**
+ * Format history entries with their full transcript turns for `history --full`.
+ * Entries without a stored transcript fall back to the response preview.
+ */
+export function formatTranscript(entries: FullHistoryEntry[]): string {
+  if (entries.length === 0) {
+    return 'No history entries.';
+  }
+
+  const blocks: string[] = [];
+  for (const entry of entries) {
+    const lines: string[] = [];
+    const turn = entry.transcript;
+    if (turn) {
+      const exit = turn.exitCode !== null ? `exit ${turn.exitCode}` : turn.signal ? `signal ${turn.signal}` : 'no exit code';
+      const color = turn.outcome === 'completed' ? GREEN : RED;
+      const scheduled = entry.scheduleId ? `, schedule ${entry.scheduleId}` : '';
+      lines.push(`${BOLD}#${entry.index}${RESET}  ${GRAY}${entry.timestamp}${RESET}  ${color}${turn.outcome}${RESET}  ${GRAY}${turn.durationMs}ms, ${exit}${scheduled}${RESET}`);
+    } else {
+      lines.push(`${BOLD}#${entry.index}${RESET}  ${GRAY}${entry.timestamp}  (preview only)${RESET}`);
+    }
+    lines.push(`${BOLD}Prompt:${RESET}`);
+    lines.push(entry.prompt);
+    const activity = (turn?.events ?? [])
+      .map(describeProviderEvent)
+      .filter((line): line is string => line !== null);
+    if (activity.length > 0) {
+      lines.push(`${BOLD}Activity:${RESET}`);
+      for (const line of activity) {
+        lines.push(`${GRAY}  ▸ ${line}${RESET}`);
+      }
+    }
+    lines.push(`${BOLD}Response:${RESET}`);
+    lines.push((turn ? turn.response : entry.responsePreview) || '(no response)');
+    if (turn?.stderr) {
+      lines.push(`${BOLD}Stderr:${RESET}`);
+      lines.push(`${GRAY}${turn.stderr.trimEnd()}${RESET}`);
+    }
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n');
+}
+
 export function formatBroadcastResults(results: BroadcastResult[]): string {
   const lines: string[] = [];
   let succeeded = 0;
@@ -9,8 +9,39 @@ export { RegistryWatcher } from './core/registry-watcher.js';
 export { WorkspaceManager } from './core/workspace.js';
 export { TemplateManager } from './core/template.js';
 export { HistoryStore } from './core/history.js';
+export { WorkflowRunner, loadWorkflow, parseWorkflow } from './core/workflow.js';
+export { WorkflowRunStore } from './core/workflow-runs.js';
+export { FileTriggerWatcher } from './core/file-trigger.js';
+export { WorktreeManager } from './core/worktree.js';
+export { CheckpointStore } from './core/checkpoint.js';
+export { SandboxDiffStore } from './core/sandbox-diff.js';
+export type { SandboxDiff } from './core/sandbox-diff.js';
+export { SandboxEventLog } from './core/sandbox-event-log.js';
+export type { SandboxEvent } from './core/sandbox-event-log.js';
+export { EgressProxy, parseEgressRule } from './core/egress-proxy.js';
+export type { EgressRule, EgressDenial } from './core/egress-proxy.js';
+export { parseMountPolicy, mergeMountPolicies } from './core/sandbox-mounts.js';
+export { SandboxImageStore, parseImageSpec, renderDockerfile } from './core/sandbox-image.js';
+export type { SandboxImageSpec, SandboxImageSource, SandboxImageRecipe } from './core/sandbox-image.js';
+export { SandboxPool } from './core/sandbox-pool.js';
+export type { PoolContainerSpec, SandboxPoolEntry, SandboxPoolGroup, SandboxPoolStats } from './core/sandbox-pool.js';
+export type { MountRule } from './core/sandbox-mounts.js';
+export { ProviderRegistry } from './core/providers/registry.js';
+export type { ProvidersFile } from './core/providers/registry.js';
+export { createProvider, ExternalProviderAdapter, OpenAIHttpAdapter, OllamaHttpAdapter } from './core/providers/index.js';
+export type { ProviderAdapter, ProviderMessage, ProviderRequest } from './core/providers/index.js';
+export { parseProviderSpec } from './core/providers/external.js';
+export type { ExternalProviderSpec, ProviderOutputSpec, LineParser } from './core/providers/external.js';
+export { ResourceMonitor, containerSampler, processTreeSampler, parseCgroupStats } from './core/resource-monitor.js';
+export type { ResourceCounters, ResourceSampler, ResourceMonitorHandlers } from './core/resource-monitor.js';
+export type { FileDiff, DiffHunk, DiffLine } from './core/diff.js';
 export { Router } from './io/router.js';
-export { SessionState } from './types.js';
+export { SessionState, BUILTIN_PROVIDERS } from './types.js';
+export { ApiClient } from './web/api-client.generated.js';
+export type { ApiClientOptions } from './web/api-client.generated.js';
+/** Request and response shapes of the web API, as sent over the wire. */
+export type * as ApiSchemas from './web/api-client.generated.js';
+export { ApiRequestError } from './utils/errors.js';
 export type {
   BroadcastResult,
   SessionConfig,
@@ -26,4 +57,18 @@ export type {
   WorkspaceData,
   TemplateEntry,
   TemplateData,
+  FileTrigger,
+  SessionWorktree,
+  SandboxMountPolicy,
+  ResourceLimits,
+  ProviderType,
+  ProviderEvent,
+  ResourceGauge,
+  ResourceTurnUsage,
+  SessionResourceMetrics,
+  CheckpointEntry,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStep,
+  WorkflowStepResult,
 } from './types.js';
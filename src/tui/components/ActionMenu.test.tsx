@@ -17,7 +17,7 @@ describe('ActionMenu', () => {
     expect(lastFrame()).toContain('ACTIONS');
   });
 
-  it('should render all 7 menu items', () => {
+  it('should render all 9 menu items', () => {
     const { lastFrame } = render(<ActionMenu {...defaults} />);
     const output = lastFrame() || '';
     expect(output).toContain('NEW SESSION');
@@ -25,6 +25,8 @@ describe('ActionMenu', () => {
     expect(output).toContain('TERMINATE');
     expect(output).toContain('RESTART');
     expect(output).toContain('STOP ALL');
+    expect(output).toContain('ROLLBACK');
+    expect(output).toContain('VIEW DIFF');
     expect(output).toContain('HELP');
     expect(output).toContain('QUIT');
   });
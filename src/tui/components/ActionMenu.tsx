@@ -17,11 +17,13 @@ const MENU_ITEMS: ActionMenuItem[] = [
   { id: 'stop-session',    label: 'Stop Session',    description: 'Stop the selected session',   shortcut: 'x',     enabled: true },
   { id: 'restart-session', label: 'Restart Session', description: 'Restart the selected session',shortcut: undefined, enabled: true },
   { id: 'stop-all',        label: 'Stop All',        description: 'Stop all running sessions',   shortcut: undefined, enabled: true },
+  { id: 'rollback',        label: 'Rollback',        description: 'Undo the last prompt\'s changes', shortcut: undefined, enabled: true },
+  { id: 'diff',            label: 'View Diff',       description: 'Changes since session start', shortcut: undefined, enabled: true },
   { id: 'help',            label: 'Help',            description: 'Show keyboard shortcuts',     shortcut: '?',     enabled: true },
   { id: 'quit',            label: 'Quit',            description: 'Exit AgentSpawn',             shortcut: 'q',     enabled: true },
 ];
 
-const DESTRUCTIVE_IDS = new Set(['stop-session', 'stop-all']);
+const DESTRUCTIVE_IDS = new Set(['stop-session', 'stop-all', 'rollback']);
 
 /**
  * ActionMenu — COMMAND CENTER with arcade-labeled actions.
@@ -0,0 +1,174 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { toSideBySide } from '../../core/diff.js';
+import type { DiffLine, FileDiff } from '../../core/diff.js';
+import { ARCADE_COLORS, ARCADE_DECOR } from '../theme/arcade.js';
+
+export interface DiffOverlayProps {
+  sessionName: string;
+  files: FileDiff[];
+  fileIndex: number;
+  scrollOffset: number;
+  isLoading: boolean;
+  error?: string;
+  /** Terminal width; the two columns split what is left after borders */
+  width: number;
+}
+
+const VISIBLE_ROWS = 20;
+const LINE_NUMBER_WIDTH = 5;
+
+type Row =
+  | { kind: 'hunk'; header: string }
+  | { kind: 'lines'; left: DiffLine | null; right: DiffLine | null };
+
+/** Hunk headers and side-by-side rows, as scrolled by the diff keybindings. */
+function fileRows(file: FileDiff): Row[] {
+  const rows: Row[] = [];
+  for (const hunk of file.hunks) {
+    rows.push({ kind: 'hunk', header: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@` });
+    for (const row of toSideBySide(hunk)) {
+      rows.push({ kind: 'lines', ...row });
+    }
+  }
+  return rows;
+}
+
+function fit(text: string, width: number): string {
+  const clean = text.replace(/\t/g, '  ');
+  return clean.length <= width ? clean.padEnd(width) : clean.slice(0, width - 1) + '~';
+}
+
+function Cell({ line, side, width }: { line: DiffLine | null; side: 'left' | 'right'; width: number }): React.ReactElement {
+  if (!line) {
+    return <Text color={ARCADE_COLORS.phosphorGray}>{' '.repeat(LINE_NUMBER_WIDTH + 1 + width)}</Text>;
+  }
+  const number = side === 'left' ? line.oldLine : line.newLine;
+  const color = line.kind === 'remove'
+    ? ARCADE_COLORS.laserRed
+    : line.kind === 'add'
+      ? ARCADE_COLORS.neonGreen
+      : ARCADE_COLORS.ghostWhite;
+  return (
+    <Text>
+      <Text color={ARCADE_COLORS.phosphorGray}>{String(number ?? '').padStart(LINE_NUMBER_WIDTH)} </Text>
+      <Text color={color}>{fit(line.text.replace(/\r$/, ''), width)}</Text>
+    </Text>
+  );
+}
+
+const STATUS_COLORS: Record<FileDiff['status'], string> = {
+  A: ARCADE_COLORS.neonGreen,
+  M: ARCADE_COLORS.acidYellow,
+  D: ARCADE_COLORS.laserRed,
+};
+
+/**
+ * DiffOverlay — side-by-side view of a session's changes since it started,
+ * one file at a time: the baseline on the left, the working copy on the right.
+ */
+export function DiffOverlay({
+  sessionName,
+  files,
+  fileIndex,
+  scrollOffset,
+  isLoading,
+  error,
+  width,
+}: DiffOverlayProps): React.ReactElement {
+  const file = files[fileIndex];
+  const rows = file ? fileRows(file) : [];
+  const visibleRows = rows.slice(scrollOffset, scrollOffset + VISIBLE_ROWS);
+  // Borders, padding, the divider and two line-number gutters
+  const columnWidth = Math.max(10, Math.floor((width - 8 - 3 - 2 * (LINE_NUMBER_WIDTH + 1)) / 2));
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Box
+        flexDirection="column"
+        borderStyle="double"
+        borderColor={ARCADE_COLORS.acidYellow}
+        paddingX={2}
+        paddingY={1}
+        width={width - 2}
+      >
+        {/* Title */}
+        <Box justifyContent="center" marginBottom={1}>
+          <Text bold color={ARCADE_COLORS.acidYellow}>
+            {ARCADE_DECOR.sectionTitle(`DIFF: ${sessionName}`)}
+          </Text>
+        </Box>
+
+        {isLoading && (
+          <Box justifyContent="center" paddingY={1}>
+            <Text color={ARCADE_COLORS.acidYellow}>LOADING CHANGES...</Text>
+          </Box>
+        )}
+
+        {!isLoading && error && (
+          <Box justifyContent="center" paddingY={1}>
+            <Text color={ARCADE_COLORS.laserRed}>{error}</Text>
+          </Box>
+        )}
+
+        {!isLoading && !error && !file && (
+          <Box justifyContent="center" paddingY={1}>
+            <Text color={ARCADE_COLORS.phosphorGray}>NO CHANGES SINCE THE SESSION STARTED</Text>
+          </Box>
+        )}
+
+        {!isLoading && !error && file && (
+          <Box flexDirection="column">
+            {/* File header */}
+            <Box flexDirection="row" justifyContent="space-between">
+              <Text>
+                <Text bold color={STATUS_COLORS[file.status]}>{file.status} </Text>
+                <Text bold color={ARCADE_COLORS.neonCyan}>{file.path}</Text>
+              </Text>
+              <Text color={ARCADE_COLORS.phosphorGray}>
+                <Text color={ARCADE_COLORS.neonGreen}>+{file.additions}</Text>{' '}
+                <Text color={ARCADE_COLORS.laserRed}>-{file.deletions}</Text>
+                {ARCADE_DECOR.separator}file {fileIndex + 1}/{files.length}
+              </Text>
+            </Box>
+
+            {(file.binary || file.tooLarge) && (
+              <Box paddingY={1}>
+                <Text color={ARCADE_COLORS.phosphorGray}>
+                  {file.binary ? 'Binary file' : 'File too large to diff'}
+                </Text>
+              </Box>
+            )}
+
+            {scrollOffset > 0 && (
+              <Text color={ARCADE_COLORS.phosphorGray}>{ARCADE_DECOR.scrollUp(scrollOffset)}</Text>
+            )}
+            {visibleRows.map((row, i) => (
+              row.kind === 'hunk' ? (
+                <Text key={scrollOffset + i} color={ARCADE_COLORS.electricPurple}>{row.header}</Text>
+              ) : (
+                <Box key={scrollOffset + i} flexDirection="row">
+                  <Cell line={row.left} side="left" width={columnWidth} />
+                  <Text color={ARCADE_COLORS.phosphorGray}> | </Text>
+                  <Cell line={row.right} side="right" width={columnWidth} />
+                </Box>
+              )
+            ))}
+            {rows.length > scrollOffset + VISIBLE_ROWS && (
+              <Text color={ARCADE_COLORS.phosphorGray}>
+                {ARCADE_DECOR.scrollDown(rows.length - scrollOffset - VISIBLE_ROWS)}
+              </Text>
+            )}
+          </Box>
+        )}
+
+        {/* Footer */}
+        <Box justifyContent="center" marginTop={1}>
+          <Text color={ARCADE_COLORS.phosphorGray}>
+            {'\u2191\u2193'} scroll{ARCADE_DECOR.separator}{'\u2190\u2192'}/Tab file{ARCADE_DECOR.separator}Esc close
+          </Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
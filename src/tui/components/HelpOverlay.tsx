@@ -28,6 +28,7 @@ const NAVIGATION_SHORTCUTS: ShortcutEntry[] = [
 const ATTACHED_SHORTCUTS: ShortcutEntry[] = [
   { key: 'Esc',    description: 'DETACH (return to session list)' },
   { key: 'Enter',  description: 'Send prompt' },
+  { key: 'Ctrl+X', description: 'CANCEL running prompt' },
   { key: 'Ctrl+C', description: 'Clear input' },
   { key: 'Ctrl+A', description: 'Move to start of line' },
   { key: 'Ctrl+E', description: 'Move to end of line' },
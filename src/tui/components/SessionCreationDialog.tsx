@@ -2,12 +2,15 @@ import React from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ARCADE_COLORS, ARCADE_DECOR, ARCADE_BLINK } from '../theme/arcade.js';
 import { BlinkText } from './BlinkText.js';
+import { BUILTIN_PROVIDERS } from '../../types.js';
 
 export interface SessionCreationDialogProps {
   fields: { name: string; template: string; directory: string; permissionMode: string; provider: string };
   activeField: 'name' | 'template' | 'directory' | 'permissionMode' | 'provider';
   errors: { name: string; template: string; directory: string; permissionMode: string; provider: string };
   isSubmitting: boolean;
+  /** Providers to cycle through (default: the built-in ones) */
+  providerOptions?: readonly string[];
   onFieldChange: (field: 'name' | 'template' | 'directory' | 'permissionMode' | 'provider', value: string) => void;
   onFieldSwitch: (field: 'name' | 'template' | 'directory' | 'permissionMode' | 'provider') => void;
   onSubmit: () => void;
@@ -22,6 +25,7 @@ export function SessionCreationDialog({
   activeField,
   errors,
   isSubmitting,
+  providerOptions = BUILTIN_PROVIDERS,
   onFieldChange,
   onFieldSwitch,
   onSubmit,
@@ -56,14 +60,12 @@ export function SessionCreationDialog({
     { isActive: true },
   );
 
-  const PROVIDER_OPTIONS = ['claude', 'gemini', 'ollama', 'openai-compat'] as const;
-
   const renderProviderField = (): React.ReactElement => {
     const isActive = activeField === 'provider';
     const current = fields.provider || 'claude';
-    const idx = PROVIDER_OPTIONS.indexOf(current as typeof PROVIDER_OPTIONS[number]);
-    const prevOption = PROVIDER_OPTIONS[(idx - 1 + PROVIDER_OPTIONS.length) % PROVIDER_OPTIONS.length];
-    const nextOption = PROVIDER_OPTIONS[(idx + 1) % PROVIDER_OPTIONS.length];
+    const idx = providerOptions.indexOf(current);
+    const prevOption = providerOptions[(idx - 1 + providerOptions.length) % providerOptions.length];
+    const nextOption = providerOptions[(idx + 1) % providerOptions.length];
     return (
       <Box flexDirection="column">
         <Text bold color={isActive ? ARCADE_COLORS.neonCyan : ARCADE_COLORS.ghostWhite}>
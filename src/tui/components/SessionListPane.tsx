@@ -4,6 +4,7 @@ import type { SessionInfo } from '../../types.js';
 import { SessionState } from '../../types.js';
 import { ARCADE_COLORS, ARCADE_STATUS, ARCADE_DECOR, ARCADE_BLINK } from '../theme/arcade.js';
 import { BlinkText } from './BlinkText.js';
+import { formatBytes, formatGauge } from '../../io/formatter.js';
 
 export interface SessionListPaneProps {
   sessions: SessionInfo[];
@@ -135,8 +136,31 @@ export function SessionListPane({
                   <Text color={ARCADE_COLORS.phosphorGray}>
                     <Text color={ARCADE_COLORS.acidYellow}>PROMPTS: </Text>
                     {session.promptCount ?? 0}
+                    {(session.queueDepth ?? 0) > 0 && (
+                      <>
+                        {'  '}
+                        <Text color={ARCADE_COLORS.acidYellow}>QUEUED: </Text>
+                        {session.queueDepth}
+                      </>
+                    )}
                   </Text>
 
+                  {session.resources && (
+                    <>
+                      <Text color={ARCADE_COLORS.phosphorGray}>
+                        <Text color={ARCADE_COLORS.acidYellow}>CPU </Text>
+                        <Text color={ARCADE_COLORS.neonGreen}>{formatGauge(session.resources.cpuPercent, 100, 10)}</Text>
+                        {' '}{Math.round(session.resources.cpuPercent)}%
+                      </Text>
+                      <Text color={ARCADE_COLORS.phosphorGray}>
+                        <Text color={ARCADE_COLORS.acidYellow}>MEM </Text>
+                        {formatBytes(session.resources.memoryBytes)}{'  '}
+                        <Text color={ARCADE_COLORS.acidYellow}>DISK </Text>
+                        {formatBytes(session.resources.diskWriteBytes)}
+                      </Text>
+                    </>
+                  )}
+
                   {session.state === SessionState.Crashed && session.exitCode != null && (
                     <Text color={ARCADE_COLORS.phosphorGray}>
                       Exit code: {session.exitCode}
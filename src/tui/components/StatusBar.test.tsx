@@ -216,4 +216,32 @@ describe('StatusBar', () => {
     const output = lastFrame() || '';
     expect(output).toContain('SESSIONS');
   });
+
+  it('should show the remaining budget of the selected session', () => {
+    const state = makeState({
+      sessions: [
+        {
+          name: 'budgeted',
+          pid: 0,
+          state: SessionState.Running,
+          startedAt: new Date(),
+          workingDirectory: '/tmp',
+          promptCount: 1,
+          budget: [{
+            scope: 'session',
+            scopeName: 'budgeted',
+            limits: { maxCostUsd: 2 },
+            used: { tokens: 0, costUsd: 0.75, promptsLastHour: 1, wallClockMs: 0 },
+            remaining: { cost: 1.25 },
+            warnings: [],
+            exceeded: [],
+          }],
+        },
+      ],
+      selectedSessionName: 'budgeted',
+    });
+
+    const { lastFrame } = render(<StatusBar state={state} />);
+    expect(lastFrame() || '').toContain('BUDGET:$1.25 left');
+  });
 });
@@ -2,6 +2,7 @@ import React from 'react';
 import { Box, Text } from 'ink';
 import type { TUIState, OverlayState, StatusMessage } from '../types.js';
 import { ARCADE_COLORS, ARCADE_MODES, ARCADE_DECOR } from '../theme/arcade.js';
+import { formatBudgetRemaining } from '../../io/formatter.js';
 
 export interface StatusBarProps {
   state: TUIState;
@@ -121,6 +122,9 @@ function getStatusMessageColor(level: StatusMessage['level']): string {
  * ```
  * [MODE BADGE] :: key ACTION  key ACTION ...        PLAYERS:03 :: SCORE:000042
  * ```
+ *
+ * When the attached (or selected) session has a budget, its remaining
+ * amount is shown ahead of the counters.
  */
 export function StatusBar({ state, version }: StatusBarProps): React.ReactElement {
   const sessionCount = state.sessions.length;
@@ -144,6 +148,15 @@ export function StatusBar({ state, version }: StatusBarProps): React.ReactElemen
 
   const remoteErrors = state.remoteErrors ?? [];
 
+  const budgetSessionName = state.attachedSessionName ?? state.selectedSessionName;
+  const budgetStatuses = state.sessions.find((s) => s.name === budgetSessionName)?.budget ?? [];
+  const budgetStr = formatBudgetRemaining(budgetStatuses);
+  const budgetColor = budgetStatuses.some((s) => s.exceeded.length > 0)
+    ? ARCADE_COLORS.laserRed
+    : budgetStatuses.some((s) => s.warnings.length > 0)
+      ? ARCADE_COLORS.acidYellow
+      : ARCADE_COLORS.neonGreen;
+
   return (
     <Box flexDirection="row" justifyContent="space-between" paddingX={1}>
       {/* Left: mode badge + hints/status */}
@@ -187,8 +200,14 @@ export function StatusBar({ state, version }: StatusBarProps): React.ReactElemen
         )}
       </Box>
 
-      {/* Right: player count + score */}
-      <Box flexDirection="row" gap={0}>
+      {/* Right: budget + player count + score */}
+      <Box flexDirection="row" gap={0} flexShrink={0}>
+        {budgetStr && (
+          <>
+            <Text bold color={budgetColor}>BUDGET:{budgetStr}</Text>
+            <Text color={ARCADE_COLORS.phosphorGray}>{ARCADE_DECOR.separator}</Text>
+          </>
+        )}
         <Text bold color={ARCADE_COLORS.acidYellow}>{playerCountStr}</Text>
         <Text color={ARCADE_COLORS.phosphorGray}>{ARCADE_DECOR.separator}</Text>
         <Text bold color={ARCADE_COLORS.arcadeOrange}>{scoreStr}</Text>
@@ -11,6 +11,7 @@ import { ActionMenu } from './ActionMenu.js';
 import { SessionCreationDialog } from './SessionCreationDialog.js';
 import { ConfirmationDialog } from './ConfirmationDialog.js';
 import { HistorySearchOverlay } from './HistorySearchOverlay.js';
+import { DiffOverlay } from './DiffOverlay.js';
 import { handleKeypress } from '../keybindings.js';
 import { topOverlay } from '../overlay-helpers.js';
 import { type KeybindingConfig, DEFAULT_KEYBINDINGS } from '../../config/keybindings.js';
@@ -88,6 +89,8 @@ export function TUIApp({
         keyCode = '\x01';
       } else if (key.ctrl && input === 'r') {
         keyCode = '\x12';
+      } else if (key.ctrl && input === 'x') {
+        keyCode = '\x18';
       } else if (key.delete || key.backspace) {
         keyCode = '\x7f';
       } else {
@@ -208,6 +211,7 @@ export function TUIApp({
             activeField={activeOverlay.activeField}
             errors={activeOverlay.errors}
             isSubmitting={activeOverlay.isSubmitting}
+            providerOptions={activeOverlay.providerOptions}
             onFieldChange={(field, value) => {
               const newOverlay = {
                 ...activeOverlay,
@@ -268,6 +272,18 @@ export function TUIApp({
             isLoading={activeOverlay.isLoading}
           />
         );
+      case 'diff':
+        return (
+          <DiffOverlay
+            sessionName={activeOverlay.sessionName}
+            files={activeOverlay.files}
+            fileIndex={activeOverlay.fileIndex}
+            scrollOffset={activeOverlay.scrollOffset}
+            isLoading={activeOverlay.isLoading}
+            error={activeOverlay.error}
+            width={terminalWidth}
+          />
+        );
     }
   };
 
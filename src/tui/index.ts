@@ -4,11 +4,13 @@ import type { SessionManager } from '../core/manager.js';
 import { RegistryWatcher } from '../core/registry-watcher.js';
 import type { HistoryStore } from '../core/history.js';
 import type { TemplateManager } from '../core/template.js';
+import type { CheckpointStore } from '../core/checkpoint.js';
+import type { SandboxDiffStore } from '../core/sandbox-diff.js';
 import type { Router } from '../io/router.js';
 import { logger } from '../utils/logger.js';
 import { SessionManagerAdapter, RouterAdapter } from './adapters.js';
 import { OutputCapture } from './output-capture.js';
-import type { TUIOptions, TUIState, TUIAction, StatusMessage, HistorySearchOverlayState, OutputLine } from './types.js';
+import type { TUIOptions, TUIState, TUIAction, StatusMessage, HistorySearchOverlayState, DiffOverlayState, OutputLine } from './types.js';
 import type { ProviderType } from '../types.js';
 import { TUIApp } from './components/TUIApp.js';
 import { type KeybindingConfig, DEFAULT_KEYBINDINGS, loadKeybindings } from '../config/keybindings.js';
@@ -25,6 +27,7 @@ export class TUI {
   private renderInstance: ReturnType<typeof render> | null = null;
   private registryWatcher: RegistryWatcher | null = null;
   private resizeHandler: (() => void) | null = null;
+  private resourceSampleHandler: (() => void) | null = null;
   private keybindings: Required<KeybindingConfig> = DEFAULT_KEYBINDINGS;
 
   constructor(
@@ -37,6 +40,8 @@ export class TUI {
     private readonly templateManager: TemplateManager | null,
     private readonly options?: TUIOptions,
     private readonly remotePoller?: RemotePoller,
+    private readonly checkpointStore: CheckpointStore | null = null,
+    private readonly sandboxDiffStore: SandboxDiffStore | null = null,
   ) {
     const attachedSessionName = routerAdapter.getActiveSession() ?? null;
     this.state = {
@@ -125,6 +130,13 @@ export class TUI {
       // Silently keep defaults if loading fails
     });
 
+    // Offer providers from providers.json in the session creation dialog
+    this.manager.listProviders().then((providers) => {
+      this.state.providers = providers;
+    }).catch(() => {
+      // Keep the built-in ones; starting a session names what is wrong with the file
+    });
+
     // Watch registry for changes instead of fixed-interval polling
     this.registryWatcher = new RegistryWatcher({
       registryPath: this.manager.registry.getFilePath(),
@@ -139,6 +151,15 @@ export class TUI {
     };
     process.stdout.on('resize', this.resizeHandler);
 
+    // Live resource gauges of running prompts, sampled every second and
+    // cleared when a prompt ends
+    this.resourceSampleHandler = (): void => {
+      this.state.sessions = this.managerAdapter.getSessions();
+      this.forceRerender();
+    };
+    this.manager.on('resourceSample', this.resourceSampleHandler);
+    this.manager.on('resourceTurn', this.resourceSampleHandler);
+
     // Start remote polling if a poller was provided
     if (this.remotePoller) {
       this.remotePoller.on('sessions', (event: RemoteSessionsEvent) => {
@@ -194,6 +215,12 @@ export class TUI {
       this.resizeHandler = null;
     }
 
+    if (this.resourceSampleHandler) {
+      this.manager.removeListener('resourceSample', this.resourceSampleHandler);
+      this.manager.removeListener('resourceTurn', this.resourceSampleHandler);
+      this.resourceSampleHandler = null;
+    }
+
     if (this.renderInstance) {
       this.renderInstance.unmount();
       this.renderInstance = null;
@@ -322,18 +349,27 @@ export class TUI {
       case 'restart-session':
         this.handleRestartSession(action.sessionName);
         break;
+      case 'rollback-session':
+        this.handleRollbackSession(action.sessionName);
+        break;
       case 'stop-all':
         this.handleStopAll();
         break;
       case 'send-prompt':
         this.handleSendPrompt(action.sessionName, action.prompt);
         break;
+      case 'cancel-prompt':
+        this.handleCancelPrompt(action.sessionName);
+        break;
       case 'history-search-load':
         this.handleHistorySearchLoad(action.sessionName, action.query);
         break;
       case 'history-insert':
         this.handleHistoryInsert(action.prompt);
         break;
+      case 'diff-load':
+        this.handleDiffLoad(action.sessionName);
+        break;
     }
   }
 
@@ -460,6 +496,63 @@ export class TUI {
     this.forceRerender();
   }
 
+  /**
+   * Undo the last prompt's file changes by restoring the checkpoint taken
+   * before it. The replaced state is itself checkpointed by the store.
+   */
+  private async handleRollbackSession(sessionName: string): Promise<void> {
+    if (!this.checkpointStore) {
+      this.setStatusMessage('Checkpoints are not available', 'error');
+      this.forceRerender();
+      return;
+    }
+
+    try {
+      const checkpoints = await this.checkpointStore.list(sessionName);
+      const last = checkpoints[checkpoints.length - 1];
+      if (!last) {
+        this.setStatusMessage(`No checkpoints for "${sessionName}"`, 'error');
+      } else if (this.manager.getSession(sessionName)?.isProcessing()) {
+        this.setStatusMessage(`"${sessionName}" is running a prompt; cancel it first`, 'error');
+      } else {
+        const undo = await this.checkpointStore.restore(sessionName, last.id);
+        this.setStatusMessage(`Rolled back "${sessionName}" to checkpoint #${last.id} (undo: #${undo.id})`, 'success');
+      }
+    } catch (err) {
+      this.setStatusMessage(
+        err instanceof Error ? err.message : `Failed to roll back "${sessionName}"`,
+        'error',
+      );
+    }
+    this.forceRerender();
+  }
+
+  /**
+   * Load a session's changes since it started into the diff overlay.
+   */
+  private async handleDiffLoad(sessionName: string): Promise<void> {
+    let update: Partial<DiffOverlayState>;
+    if (!this.sandboxDiffStore) {
+      update = { isLoading: false, error: 'Diffs are not available' };
+    } else {
+      try {
+        const diff = await this.sandboxDiffStore.diff(sessionName);
+        update = { isLoading: false, files: diff.files, fileIndex: 0, scrollOffset: 0 };
+      } catch (err) {
+        update = { isLoading: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+
+    const top = this.state.overlayStack[this.state.overlayStack.length - 1];
+    if (top?.kind === 'diff' && top.sessionName === sessionName) {
+      this.state.overlayStack = [
+        ...this.state.overlayStack.slice(0, -1),
+        { ...top, ...update },
+      ];
+    }
+    this.forceRerender();
+  }
+
   /**
    * Stop all sessions.
    */
@@ -603,6 +696,25 @@ export class TUI {
     }
   }
 
+  /**
+   * Cancel the in-flight prompt of a session, leaving the session running.
+   */
+  private handleCancelPrompt(sessionName: string): void {
+    try {
+      if (this.manager.cancelPrompt(sessionName)) {
+        this.setStatusMessage(`Cancelling prompt in "${sessionName}"`, 'info');
+      } else {
+        this.setStatusMessage(`No prompt in progress for "${sessionName}"`, 'info');
+      }
+    } catch (err) {
+      this.setStatusMessage(
+        err instanceof Error ? err.message : `Failed to cancel prompt in "${sessionName}"`,
+        'error',
+      );
+    }
+    this.forceRerender();
+  }
+
   /**
    * Get or adopt a session by name.
    */
@@ -626,7 +738,13 @@ export class TUI {
 export function launchTUI(
   manager: SessionManager,
   router: Router,
-  options?: TUIOptions & { historyStore?: HistoryStore; templateManager?: TemplateManager; remotePoller?: RemotePoller },
+  options?: TUIOptions & {
+    historyStore?: HistoryStore;
+    templateManager?: TemplateManager;
+    remotePoller?: RemotePoller;
+    checkpointStore?: CheckpointStore;
+    sandboxDiffStore?: SandboxDiffStore;
+  },
 ): TUI {
   const managerAdapter = new SessionManagerAdapter(manager);
   const routerAdapter = new RouterAdapter(router);
@@ -647,6 +765,8 @@ export function launchTUI(
     options?.templateManager ?? null,
     options,
     options?.remotePoller,
+    options?.checkpointStore ?? null,
+    options?.sandboxDiffStore ?? null,
   );
   tui.start();
 
@@ -8,6 +8,7 @@ import {
   handleSessionCreationKeypress,
   handleConfirmationKeypress,
   handleHistorySearchKeypress,
+  handleDiffKeypress,
   KEY_CODES,
 } from './keybindings.js';
 import type { KeyHandlerResult } from './keybindings.js';
@@ -19,8 +20,10 @@ import type {
   SessionCreationOverlayState,
   ConfirmationOverlayState,
   HistorySearchOverlayState,
+  DiffOverlayState,
 } from './types.js';
 import { SessionState } from '../types.js';
+import { diffText } from '../core/diff.js';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -452,10 +455,10 @@ describe('handleActionMenuKeypress', () => {
     const s = expectState(
       handleActionMenuKeypress(state, overlay, KEY_CODES.UP_ARROW),
     );
-    // Should wrap to last item (menu has 5 items: new-session, stop-session, stop-all, help, quit)
+    // Should wrap to last item (menu has 7 items: new-session, stop-session, stop-all, rollback, diff, help, quit)
     expect(
       (s.overlayStack[0] as ActionMenuOverlayState).selectedIndex,
-    ).toBe(4);
+    ).toBe(6);
   });
 
   it('should execute "New Session" item on Enter (push session-creation overlay)', () => {
@@ -470,8 +473,8 @@ describe('handleActionMenuKeypress', () => {
 
   it('should execute "Help" item on Enter (push help overlay)', () => {
     const { state, overlay: base } = menuState();
-    // Index 3 = "Help"
-    const overlay = { ...base, selectedIndex: 3 };
+    // Index 5 = "Help"
+    const overlay = { ...base, selectedIndex: 5 };
     state.overlayStack = [overlay];
     const result = handleActionMenuKeypress(state, overlay, KEY_CODES.ENTER);
     const s = expectState(result);
@@ -481,8 +484,8 @@ describe('handleActionMenuKeypress', () => {
 
   it('should quit when selecting "Quit"', () => {
     const { state, overlay: base } = menuState();
-    // Index 4 = "Quit"
-    const overlay = { ...base, selectedIndex: 4 };
+    // Index 6 = "Quit"
+    const overlay = { ...base, selectedIndex: 6 };
     state.overlayStack = [overlay];
     expectQuit(handleActionMenuKeypress(state, overlay, KEY_CODES.ENTER));
   });
@@ -508,6 +511,85 @@ describe('handleActionMenuKeypress', () => {
     expect(s.overlayStack).toHaveLength(1);
     expect(s.overlayStack[0].kind).toBe('confirmation');
   });
+
+  it('should push a rollback confirmation for the selected session', () => {
+    const { state, overlay: base } = menuState();
+    // Index 3 = "Rollback"
+    const overlay = { ...base, selectedIndex: 3 };
+    state.overlayStack = [overlay];
+    state.selectedSessionName = 'session-a';
+    const s = expectState(handleActionMenuKeypress(state, overlay, KEY_CODES.ENTER));
+    expect(s.overlayStack[0]).toMatchObject({
+      kind: 'confirmation',
+      action: { kind: 'rollback-session', sessionName: 'session-a' },
+    });
+  });
+
+  it('should open a loading diff overlay and request the diff for the selected session', () => {
+    const { state, overlay: base } = menuState();
+    // Index 4 = "View Diff"
+    const overlay = { ...base, selectedIndex: 4 };
+    state.overlayStack = [overlay];
+    state.selectedSessionName = 'session-a';
+    const result = handleActionMenuKeypress(state, overlay, KEY_CODES.ENTER);
+    expect(result.kind).toBe('action');
+    if (result.kind !== 'action') return;
+    expect(result.action).toEqual({ kind: 'diff-load', sessionName: 'session-a' });
+    expect(result.state.overlayStack).toEqual([
+      { kind: 'diff', sessionName: 'session-a', files: [], fileIndex: 0, scrollOffset: 0, isLoading: true },
+    ]);
+  });
+});
+
+// ── Diff overlay ─────────────────────────────────────────────────────────────
+
+describe('handleDiffKeypress', () => {
+  function diffState(): { state: TUIState; overlay: DiffOverlayState } {
+    const state = createMockState(['session-a']);
+    const hunks = diffText('a\nb\nc\n', 'a\nB\nc\nd\n');
+    const overlay: DiffOverlayState = {
+      kind: 'diff',
+      sessionName: 'session-a',
+      files: [
+        { path: 'one.txt', status: 'M', binary: false, additions: 2, deletions: 1, hunks },
+        { path: 'two.bin', status: 'A', binary: true, additions: 0, deletions: 0, hunks: [] },
+      ],
+      fileIndex: 0,
+      scrollOffset: 0,
+      isLoading: false,
+    };
+    state.overlayStack = [overlay];
+    return { state, overlay };
+  }
+
+  it('should close on Escape', () => {
+    const { state, overlay } = diffState();
+    expect(expectState(handleDiffKeypress(state, overlay, KEY_CODES.ESCAPE)).overlayStack).toHaveLength(0);
+  });
+
+  it('should scroll within the current file and stop at its last row', () => {
+    const { state, overlay } = diffState();
+    let current = overlay;
+    for (let i = 0; i < 10; i++) {
+      current = expectState(handleDiffKeypress(state, current, KEY_CODES.DOWN_ARROW)).overlayStack[0] as DiffOverlayState;
+    }
+    // One hunk header plus four rows: a, b|B, c, |d
+    expect(current.scrollOffset).toBe(4);
+    current = expectState(handleDiffKeypress(state, current, KEY_CODES.UP_ARROW)).overlayStack[0] as DiffOverlayState;
+    expect(current.scrollOffset).toBe(3);
+  });
+
+  it('should switch files with Tab and arrows, wrapping and resetting the scroll', () => {
+    const { state, overlay } = diffState();
+    const next = expectState(
+      handleDiffKeypress(state, { ...overlay, scrollOffset: 2 }, KEY_CODES.TAB),
+    ).overlayStack[0] as DiffOverlayState;
+    expect(next).toMatchObject({ fileIndex: 1, scrollOffset: 0 });
+    const wrapped = expectState(handleDiffKeypress(state, next, KEY_CODES.RIGHT_ARROW)).overlayStack[0] as DiffOverlayState;
+    expect(wrapped.fileIndex).toBe(0);
+    const back = expectState(handleDiffKeypress(state, wrapped, KEY_CODES.LEFT_ARROW)).overlayStack[0] as DiffOverlayState;
+    expect(back.fileIndex).toBe(1);
+  });
 });
 
 // ── Session creation overlay ─────────────────────────────────────────────────
@@ -847,6 +929,18 @@ describe('handleAttachedKeypress — Ctrl+R', () => {
     expect(overlay.isLoading).toBe(false);
   });
 
+  it('should emit cancel-prompt action on Ctrl+X', () => {
+    const state = createMockState(['a']);
+    state.mode = 'attached';
+    state.attachedSessionName = 'a';
+    const result = handleAttachedKeypress(state, KEY_CODES.CTRL_X);
+    expect(result).toEqual({
+      kind: 'action',
+      state,
+      action: { kind: 'cancel-prompt', sessionName: 'a' },
+    });
+  });
+
   it('should stay in attached mode after Ctrl+R', () => {
     const state = createMockState(['a']);
     state.mode = 'attached';
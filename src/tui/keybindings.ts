@@ -7,10 +7,12 @@ import type {
   ConfirmationOverlayState,
   HelpOverlayState,
   HistorySearchOverlayState,
+  DiffOverlayState,
   ActionMenuItem,
   ConfirmableAction,
 } from './types.js';
-import { SessionState } from '../types.js';
+import { BUILTIN_PROVIDERS, SessionState } from '../types.js';
+import { toSideBySide } from '../core/diff.js';
 import {
   topOverlay,
   popOverlay,
@@ -47,6 +49,7 @@ export const KEY_CODES = {
   LOWERCASE_Y: 'y',
   QUESTION_MARK: '?',
   CTRL_R: '\x12',
+  CTRL_X: '\x18',
   LEFT_BRACKET: '[',
   RIGHT_BRACKET: ']',
 } as const;
@@ -180,6 +183,18 @@ function getActionMenuItems(state: TUIState): ActionMenuItem[] {
       description: 'Stop all running sessions',
       enabled: hasRunningSessions,
     },
+    {
+      id: 'rollback',
+      label: 'Rollback',
+      description: "Undo the last prompt's file changes",
+      enabled: hasSelected,
+    },
+    {
+      id: 'diff',
+      label: 'View Diff',
+      description: 'Show changes since the session started',
+      enabled: hasSelected,
+    },
     {
       id: 'help',
       label: 'Help',
@@ -234,6 +249,7 @@ export function handleNavigationKeypress(
         activeField: 'name',
         errors: { name: '', template: '', directory: '', permissionMode: '', provider: '' },
         isSubmitting: false,
+        providerOptions: state.providers,
       }),
     );
   }
@@ -343,6 +359,10 @@ export function handleAttachedKeypress(
     );
   }
 
+  if (key === KEY_CODES.CTRL_X && state.attachedSessionName) {
+    return actionResult(state, { kind: 'cancel-prompt', sessionName: state.attachedSessionName });
+  }
+
   // All other keys are handled by InputBar, not by keybinding dispatch
   return stateResult(state);
 }
@@ -467,6 +487,34 @@ function executeMenuItem(
         }),
       );
 
+    case 'rollback': {
+      if (!state.selectedSessionName) return stateResult(popped);
+      return stateResult(
+        pushOverlay(popped, {
+          kind: 'confirmation',
+          title: `Roll back session "${state.selectedSessionName}"?`,
+          message: 'Restores its working directory to the checkpoint taken before the last prompt.',
+          action: {
+            kind: 'rollback-session',
+            sessionName: state.selectedSessionName,
+          },
+        }),
+      );
+    }
+
+    case 'diff': {
+      if (!state.selectedSessionName) return stateResult(popped);
+      const loading = pushOverlay(popped, {
+        kind: 'diff',
+        sessionName: state.selectedSessionName,
+        files: [],
+        fileIndex: 0,
+        scrollOffset: 0,
+        isLoading: true,
+      });
+      return actionResult(loading, { kind: 'diff-load', sessionName: state.selectedSessionName });
+    }
+
     case 'help':
       return stateResult(
         pushOverlay(popped, { kind: 'help', scrollOffset: 0 }),
@@ -570,8 +618,8 @@ export function handleSessionCreationKeypress(
     case KEY_CODES.RIGHT_ARROW: {
       // Cycle provider options with left/right arrows when provider field is active
       if (overlay.activeField !== 'provider') return stateResult(state);
-      const providerOptions = ['claude', 'gemini', 'ollama', 'openai-compat'] as const;
-      const currentIdx = providerOptions.indexOf(overlay.fields.provider as typeof providerOptions[number]);
+      const providerOptions: readonly string[] = overlay.providerOptions ?? BUILTIN_PROVIDERS;
+      const currentIdx = providerOptions.indexOf(overlay.fields.provider);
       const safeIdx = currentIdx === -1 ? 0 : currentIdx;
       const delta = key === KEY_CODES.RIGHT_ARROW ? 1 : -1;
       const nextProvider = providerOptions[(safeIdx + delta + providerOptions.length) % providerOptions.length];
@@ -664,6 +712,11 @@ function confirmableActionToResult(
         kind: 'restart-session',
         sessionName: action.sessionName,
       });
+    case 'rollback-session':
+      return actionResult(state, {
+        kind: 'rollback-session',
+        sessionName: action.sessionName,
+      });
     case 'stop-all':
       return actionResult(state, { kind: 'stop-all' });
   }
@@ -750,6 +803,50 @@ export function handleHistorySearchKeypress(
   }
 }
 
+// ── Diff handler ─────────────────────────────────────────────────────────────
+
+export function handleDiffKeypress(
+  state: TUIState,
+  overlay: DiffOverlayState,
+  key: string,
+): KeyHandlerResult {
+  switch (key) {
+    case KEY_CODES.ESCAPE:
+    case KEY_CODES.LOWERCASE_Q:
+      return stateResult(popOverlay(state));
+
+    case KEY_CODES.UP_ARROW:
+      return stateResult(
+        replaceTopOverlay(state, { ...overlay, scrollOffset: Math.max(0, overlay.scrollOffset - 1) }),
+      );
+
+    case KEY_CODES.DOWN_ARROW: {
+      const file = overlay.files[overlay.fileIndex];
+      const rows = file ? file.hunks.reduce((sum, h) => sum + toSideBySide(h).length + 1, 0) : 0;
+      return stateResult(
+        replaceTopOverlay(state, {
+          ...overlay,
+          scrollOffset: Math.max(0, Math.min(rows - 1, overlay.scrollOffset + 1)),
+        }),
+      );
+    }
+
+    case KEY_CODES.TAB:
+    case KEY_CODES.RIGHT_ARROW:
+    case KEY_CODES.LEFT_ARROW: {
+      if (overlay.files.length === 0) return stateResult(state);
+      const delta = key === KEY_CODES.LEFT_ARROW ? -1 : 1;
+      const fileIndex = (overlay.fileIndex + delta + overlay.files.length) % overlay.files.length;
+      return stateResult(
+        replaceTopOverlay(state, { ...overlay, fileIndex, scrollOffset: 0 }),
+      );
+    }
+
+    default:
+      return stateResult(state);
+  }
+}
+
 // ── Overlay dispatch ─────────────────────────────────────────────────────────
 
 function handleOverlayKeypress(
@@ -768,6 +865,8 @@ function handleOverlayKeypress(
       return handleConfirmationKeypress(state, overlay, key);
     case 'history-search':
       return handleHistorySearchKeypress(state, overlay, key);
+    case 'diff':
+      return handleDiffKeypress(state, overlay, key);
   }
 }
 
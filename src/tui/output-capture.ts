@@ -1,6 +1,8 @@
 import type { Session } from '../core/session.js';
 import type { Logger } from '../utils/logger.js';
 import type { OutputLine, OutputCaptureConfig } from './types.js';
+import type { BudgetEvent, PromptQueuedEvent, ProviderEvent, ResourceWarningEvent } from '../types.js';
+import { describeBudgetEvent, describeProviderEvent, describeResourceWarning } from '../io/formatter.js';
 
 /**
  * OutputCapture — Captures and buffers output from multiple sessions.
@@ -43,7 +45,9 @@ export class OutputCapture {
   /**
    * Start capturing output from a session via its EventEmitter events.
    *
-   * Listens to 'promptStart', 'data', 'promptComplete', 'promptError', 'stderr', and 'system'.
+   * Listens to 'promptStart', 'data', 'promptComplete', 'promptError',
+   * 'promptCancelled', 'promptQueued', 'providerEvent', 'budgetWarning',
+   * 'budgetExceeded', 'resourceWarning', 'stderr', and 'system'.
    */
   captureSession(sessionName: string, session: Session): void {
     if (this.listeners.has(sessionName)) {
@@ -73,6 +77,37 @@ export class OutputCapture {
       this.appendLine(sessionName, `Error: ${err.message}`, true);
     };
 
+    const onPromptCancelled = (): void => {
+      this.finalizeLiveLine(sessionName);
+      this.appendLine(sessionName, '[Prompt cancelled]', false, true);
+      this.appendLine(sessionName, '', false);
+    };
+
+    const onPromptQueued = (event: PromptQueuedEvent): void => {
+      this.appendLine(sessionName, `[Queued #${event.entry.id} (${event.queueDepth} waiting)] ${event.entry.prompt}`, false, true);
+    };
+
+    const onProviderEvent = (event: ProviderEvent): void => {
+      const line = describeProviderEvent(event);
+      if (line === null) return;
+      this.finalizeLiveLine(sessionName);
+      const isError = event.type === 'error' || (event.type === 'tool_result' && event.isError);
+      this.appendLine(sessionName, `▸ ${line}`, isError, !isError);
+    };
+
+    const onBudgetWarning = (event: BudgetEvent): void => {
+      this.appendLine(sessionName, describeBudgetEvent(event, false), false, true);
+    };
+
+    const onBudgetExceeded = (event: BudgetEvent): void => {
+      this.finalizeLiveLine(sessionName);
+      this.appendLine(sessionName, describeBudgetEvent(event, true), true);
+    };
+
+    const onResourceWarning = (event: ResourceWarningEvent): void => {
+      this.appendLine(sessionName, describeResourceWarning(event), false, true);
+    };
+
     const onStderr = (chunk: string): void => {
       this.appendLine(sessionName, chunk.trim(), true);
     };
@@ -85,6 +120,12 @@ export class OutputCapture {
     session.on('data', onData);
     session.on('promptComplete', onPromptComplete);
     session.on('promptError', onPromptError);
+    session.on('promptCancelled', onPromptCancelled);
+    session.on('promptQueued', onPromptQueued);
+    session.on('providerEvent', onProviderEvent);
+    session.on('budgetWarning', onBudgetWarning);
+    session.on('budgetExceeded', onBudgetExceeded);
+    session.on('resourceWarning', onResourceWarning);
     session.on('stderr', onStderr);
     session.on('system', onSystem);
 
@@ -94,6 +135,12 @@ export class OutputCapture {
       () => session.removeListener('data', onData),
       () => session.removeListener('promptComplete', onPromptComplete),
       () => session.removeListener('promptError', onPromptError),
+      () => session.removeListener('promptCancelled', onPromptCancelled),
+      () => session.removeListener('promptQueued', onPromptQueued),
+      () => session.removeListener('providerEvent', onProviderEvent),
+      () => session.removeListener('budgetWarning', onBudgetWarning),
+      () => session.removeListener('budgetExceeded', onBudgetExceeded),
+      () => session.removeListener('resourceWarning', onResourceWarning),
       () => session.removeListener('stderr', onStderr),
       () => session.removeListener('system', onSystem),
     ];
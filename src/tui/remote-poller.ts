@@ -70,6 +70,7 @@ export class RemotePoller extends EventEmitter {
       const client = new RemoteClient(
         `http://localhost:${tunnel.localPort}`,
         entry.alias,
+        entry.token,
       );
       const sessions = await client.listSessions();
       this.emit('sessions', { alias: entry.alias, sessions } satisfies RemoteSessionsEvent);
@@ -42,6 +42,8 @@ export const ARCADE_MENU_LABELS: Record<string, string> = {
   'stop-session':    'TERMINATE',
   'restart-session': 'RESTART',
   'stop-all':        'STOP ALL',
+  'rollback':        'ROLLBACK',
+  'diff':            'VIEW DIFF',
   'help':            'HELP',
   'quit':            'QUIT',
 };
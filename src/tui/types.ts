@@ -1,4 +1,5 @@
 import type { SessionInfo, PromptHistoryEntry } from '../types.js';
+import type { FileDiff } from '../core/diff.js';
 
 /**
  * Base TUI interaction mode.
@@ -17,7 +18,8 @@ export type OverlayState =
   | ActionMenuOverlayState
   | SessionCreationOverlayState
   | ConfirmationOverlayState
-  | HistorySearchOverlayState;
+  | HistorySearchOverlayState
+  | DiffOverlayState;
 
 export interface HelpOverlayState {
   kind: 'help';
@@ -55,6 +57,8 @@ export interface SessionCreationOverlayState {
   };
   /** Whether the form submission is in progress */
   isSubmitting: boolean;
+  /** Providers the provider field cycles through (default: the built-in ones) */
+  providerOptions?: string[];
 }
 
 export interface ConfirmationOverlayState {
@@ -75,6 +79,19 @@ export interface HistorySearchOverlayState {
   isLoading: boolean;
 }
 
+export interface DiffOverlayState {
+  kind: 'diff';
+  /** The session whose changes are shown */
+  sessionName: string;
+  files: FileDiff[];
+  /** Index into files of the file being shown */
+  fileIndex: number;
+  /** Scroll offset, in side-by-side rows, within the current file */
+  scrollOffset: number;
+  isLoading: boolean;
+  error?: string;
+}
+
 /**
  * Actions that require user confirmation before execution.
  * Discriminated union so the orchestrator knows what to do on confirm.
@@ -83,6 +100,7 @@ export type ConfirmableAction =
   | { kind: 'stop-session'; sessionName: string }
   | { kind: 'force-kill-session'; sessionName: string }
   | { kind: 'restart-session'; sessionName: string }
+  | { kind: 'rollback-session'; sessionName: string }
   | { kind: 'stop-all' };
 
 // ── Status Message ──────────────────────────────────────────────────────────
@@ -106,10 +124,13 @@ export type TUIAction =
   | { kind: 'stop-session'; sessionName: string }
   | { kind: 'force-kill-session'; sessionName: string }
   | { kind: 'restart-session'; sessionName: string }
+  | { kind: 'rollback-session'; sessionName: string }
   | { kind: 'stop-all' }
   | { kind: 'send-prompt'; sessionName: string; prompt: string }
+  | { kind: 'cancel-prompt'; sessionName: string }
   | { kind: 'history-search-load'; sessionName: string | undefined; query: string }
-  | { kind: 'history-insert'; prompt: string };
+  | { kind: 'history-insert'; prompt: string }
+  | { kind: 'diff-load'; sessionName: string };
 
 // ── Action Menu Item ────────────────────────────────────────────────────────
 
@@ -160,6 +181,8 @@ export interface TUIState {
   remoteSessions: SessionInfo[];
   /** Remotes that were unreachable on the last poll cycle. */
   remoteErrors: Array<{ alias: string; error: string }>;
+  /** Built-in providers plus those declared in providers.json, once read. */
+  providers?: string[];
 }
 
 // ── Options ─────────────────────────────────────────────────────────────────
@@ -1,15 +1,31 @@
 import type { ChildProcess } from 'node:child_process';
 import type { Writable, Readable } from 'node:stream';
 import type { HistoryStore } from './core/history.js';
+import type { UsageStore } from './core/usage.js';
+import type { CheckpointStore } from './core/checkpoint.js';
+import type { SandboxDiffStore } from './core/sandbox-diff.js';
+import type { SandboxEventLog } from './core/sandbox-event-log.js';
+import type { SandboxImageStore } from './core/sandbox-image.js';
+import type { SandboxPool } from './core/sandbox-pool.js';
+import type { ProviderRegistry } from './core/providers/registry.js';
+import type { WorkspaceManager } from './core/workspace.js';
 import type { ExitClassification } from './core/restart-policy.js';
 
 export type SandboxBackend = 'docker' | 'podman' | 'bwrap' | 'sandbox-exec';
 
 /**
- * AI provider type. Defined here (not in providers/provider.ts) to avoid
- * circular dependencies — providers/provider.ts imports this from types.ts.
+ * Providers built into AgentSpawn. Defined here (not in providers/provider.ts)
+ * to avoid circular dependencies — providers/provider.ts imports this from types.ts.
  */
-export type ProviderType = 'claude' | 'gemini' | 'ollama' | 'openai-compat';
+export const BUILTIN_PROVIDERS = ['claude', 'gemini', 'ollama', 'openai-compat', 'openai-http', 'ollama-http'] as const;
+
+export type BuiltinProviderType = (typeof BUILTIN_PROVIDERS)[number];
+
+/**
+ * AI provider: a built-in one, or the name of a provider declared in
+ * ~/.agentspawn/providers.json.
+ */
+export type ProviderType = BuiltinProviderType | (string & Record<never, never>);
 
 /**
  * Isolation level for sandboxed sessions.
@@ -22,12 +38,43 @@ export type SandboxLevel = 'permissive' | 'standard' | 'strict';
 export interface SandboxOptions {
   /** Isolation level. Default: 'permissive'. */
   level?: SandboxLevel;
-  /** Custom Docker image (e.g. pinned digest). Default: 'debian:12-slim'. */
+  /**
+   * Custom Docker image (e.g. pinned digest). Default: 'debian:12-slim'.
+   * Images from `agentspawn sandbox image build` are rebuilt when missing.
+   */
   image?: string;
   /** Memory limit for Docker/bwrap (e.g. '512m'). */
   memoryLimit?: string;
   /** CPU limit for Docker (e.g. 0.5). */
   cpuLimit?: number;
+  /** Restrict outbound connections to an allowlist, through a filtering proxy. */
+  egress?: SandboxEgressPolicy;
+  /** Host paths to expose or hide on top of what the level mounts. */
+  mounts?: SandboxMountPolicy;
+  /** bwrap only: run each prompt under strace to log what the sandbox denies. Default: false. */
+  trace?: boolean;
+}
+
+/**
+ * Outbound network policy. The sandboxed process gets HTTPS_PROXY and
+ * HTTP_PROXY pointing at a local proxy that only connects to these hosts.
+ */
+export interface SandboxEgressPolicy {
+  /** `host`, `host:port`, `*.domain` or `*.domain:port`; no port means any port. */
+  allow: string[];
+}
+
+/**
+ * Extra paths for a sandbox, on top of those its level exposes. Entries are
+ * absolute or start with `~`; a rule for a nested path overrides its parent's.
+ */
+export interface SandboxMountPolicy {
+  /** Visible but not writable, e.g. shared libraries of a monorepo. */
+  readOnly?: string[];
+  /** Visible and writable, e.g. ~/.npm or ~/.cache/pip. Created if missing. */
+  writable?: string[];
+  /** Hidden: replaced by an empty directory or file, or unreadable. */
+  deny?: string[];
 }
 
 export enum SessionState {
@@ -65,16 +112,159 @@ export interface SessionConfig {
   sandboxImage?: string;
   sandboxMemoryLimit?: string;
   sandboxCpuLimit?: number;
+  /** Egress allowlist; when set, outbound connections go through a filtering proxy. */
+  sandboxEgress?: string[];
+  sandboxMounts?: SandboxMountPolicy;
+  /** Trace bwrap sandboxes with strace for `sandbox logs`. */
+  sandboxTrace?: boolean;
   /** AI provider to use. Default: 'claude' */
   provider?: ProviderType;
-  /** Model name for Ollama provider (e.g. 'llama3.2', 'mistral') */
+  /** Model name for Ollama and the HTTP providers (e.g. 'llama3.2', 'gpt-4o-mini') and {{model}} in providers.json args */
   modelName?: string;
+  /** For openai-http and ollama-http: the server's base URL, e.g. 'http://localhost:8080' */
+  providerUrl?: string;
   /** Maximum conversation history turns for non-native providers. Default: 10 */
   maxHistoryTurns?: number;
   /** For openai-compat: override the CLI binary name */
   providerBinary?: string;
   /** For openai-compat: extra CLI flags */
   providerArgs?: string[];
+  /** Limits enforced before each prompt; see BudgetLimits. */
+  budget?: BudgetLimits;
+  /** Warn when a prompt uses more CPU, memory or disk than this; see ResourceLimits. */
+  resourceLimits?: ResourceLimits;
+  /** Prompts sent when files under the working directory change; see FileTrigger. */
+  fileTriggers?: FileTrigger[];
+  /** The git worktree the session works in, if it was started with one. */
+  worktree?: SessionWorktree;
+}
+
+/** A git worktree created for one session on its own branch. */
+export interface SessionWorktree {
+  /** Top level of the repository the worktree belongs to. */
+  repoRoot: string;
+  /** Directory of the worktree itself. */
+  path: string;
+  branch: string;
+  /** Branch checked out in `repoRoot` when the worktree was created; merges go here. */
+  baseBranch: string;
+  /** Whether AgentSpawn created `branch`; only then is it deleted with the worktree. */
+  createdBranch?: boolean;
+}
+
+/** What to do with a session's worktree when the session stops. */
+export type WorktreeStopAction = 'keep' | 'merge' | 'discard';
+
+/**
+ * Send a prompt when files matching `glob` change under the session's
+ * working directory. `prompt` may use {{file}} (the first changed path),
+ * {{files}} (every changed path, one per line) and {{glob}}; paths are
+ * relative to the working directory.
+ */
+export interface FileTrigger {
+  /** e.g. `src/**\/*.ts` or `reports/junit-*.xml`, relative to the working directory. */
+  glob: string;
+  prompt: string;
+  /** Wait this long after the last change before firing. Default: 500 */
+  debounceMs?: number;
+  /** Minimum time between two prompts of this trigger. Default: 30000 */
+  cooldownMs?: number;
+}
+
+/**
+ * Guardrails on a session or workspace. Every limit is optional; tokens
+ * count provider-reported input plus output tokens.
+ */
+export interface BudgetLimits {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxPromptsPerHour?: number;
+  /** Wall-clock time since the session started. */
+  maxWallClockMs?: number;
+}
+
+export type BudgetLimitKind = 'tokens' | 'cost' | 'promptsPerHour' | 'wallClock';
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+  promptsLastHour: number;
+  wallClockMs: number;
+}
+
+/** How much of a session or workspace budget is used and what is left. */
+export interface BudgetStatus {
+  scope: 'session' | 'workspace';
+  /** Session name for session scope, workspace name for workspace scope. */
+  scopeName: string;
+  limits: BudgetLimits;
+  used: BudgetUsage;
+  /** Remaining amount per configured limit (never negative). */
+  remaining: Partial<Record<BudgetLimitKind, number>>;
+  /** Limits at or past the warning threshold but not yet exhausted. */
+  warnings: BudgetLimitKind[];
+  exceeded: BudgetLimitKind[];
+}
+
+export interface BudgetEvent {
+  sessionName: string;
+  scope: BudgetStatus['scope'];
+  scopeName: string;
+  limit: BudgetLimitKind;
+  used: number;
+  max: number;
+}
+
+/**
+ * Soft limits on what a session's prompts use. Crossing one logs a warning
+ * and emits 'resourceWarning'; nothing is throttled or killed.
+ */
+export interface ResourceLimits {
+  /** Percent of one core, so 200 is two cores busy. */
+  cpuPercent?: number;
+  memoryBytes?: number;
+  /** Bytes written to storage during one prompt. */
+  diskWriteBytes?: number;
+}
+
+export type ResourceKind = 'cpu' | 'memory' | 'disk';
+
+/** What the prompt in progress uses, as last sampled. */
+export interface ResourceGauge {
+  cpuPercent: number;
+  memoryBytes: number;
+  /** Written to storage since the prompt started. */
+  diskWriteBytes: number;
+  sampledAt: string;
+}
+
+/** What one prompt used, from samples taken while it ran. */
+export interface ResourceTurnUsage {
+  /** 1-based number of the prompt in the session. */
+  prompt: number;
+  startedAt: string;
+  durationMs: number;
+  samples: number;
+  cpuPercent: { peak: number; avg: number };
+  memoryBytes: { peak: number; avg: number };
+  diskWriteBytes: number;
+  /** Soft limits the prompt crossed. */
+  exceeded: ResourceKind[];
+}
+
+export interface SessionResourceMetrics {
+  /** Present while a prompt runs. */
+  current?: ResourceGauge;
+  /** The most recent prompts, oldest first. */
+  turns: ResourceTurnUsage[];
+  limits?: ResourceLimits;
+}
+
+export interface ResourceWarningEvent {
+  sessionName: string;
+  kind: ResourceKind;
+  value: number;
+  limit: number;
 }
 
 export interface SessionInfo {
@@ -93,6 +283,12 @@ export interface SessionInfo {
   sandboxed?: boolean;
   sandboxBackend?: SandboxBackend;
   sandboxLevel?: SandboxLevel;
+  /** Prompts waiting behind the in-flight one. Only known for sessions owned by this process. */
+  queueDepth?: number;
+  /** Budget status per scope, for sessions owned by this process that have a budget. */
+  budget?: BudgetStatus[];
+  /** Resource usage of the prompt in progress, for sessions owned by this process. */
+  resources?: ResourceGauge;
 }
 
 export interface RegistryEntry {
@@ -104,6 +300,11 @@ export interface RegistryEntry {
   exitCode?: number | null;
   claudeSessionId?: string;
   promptCount?: number;
+  /**
+   * When this session first started; restarts and adoption keep it. Only
+   * usage ledger turns recorded since then count against its budget.
+   */
+  budgetSince?: string;
   permissionMode?: string;
   restartPolicy?: RestartPolicy;
   backoffUntil?: string;
@@ -114,6 +315,13 @@ export interface RegistryEntry {
   sandboxImage?: string;
   sandboxMemoryLimit?: string;
   sandboxCpuLimit?: number;
+  sandboxEgress?: string[];
+  sandboxMounts?: SandboxMountPolicy;
+  sandboxTrace?: boolean;
+  budget?: BudgetLimits;
+  resourceLimits?: ResourceLimits;
+  fileTriggers?: FileTrigger[];
+  worktree?: SessionWorktree;
 }
 
 export interface RegistryData {
@@ -125,6 +333,22 @@ export interface ManagerOptions {
   registryPath?: string;
   shutdownTimeoutMs?: number;
   historyStore?: HistoryStore;
+  /** Ledger that receives provider-reported token usage and cost per turn. */
+  usageStore?: UsageStore;
+  /** Source of workspace budgets; without it only session budgets apply. */
+  workspaceManager?: WorkspaceManager;
+  /** Snapshots each session's working directory before every prompt. */
+  checkpointStore?: CheckpointStore;
+  /** Captures each new session's working directory as the baseline for `sandbox diff`. */
+  sandboxDiffStore?: SandboxDiffStore;
+  /** Where sandboxes record violations they observe, such as egress denials. */
+  sandboxEventLog?: SandboxEventLog;
+  /** Builds `agentspawn-sandbox:<hash>` images that Docker/Podman sessions need but are missing. */
+  sandboxImageStore?: SandboxImageStore;
+  /** Warm Docker/Podman containers handed to new sessions and taken back when they stop. */
+  sandboxPool?: SandboxPool;
+  /** Third-party CLI providers from providers.json; without it only built-in providers can be used. */
+  providerRegistry?: ProviderRegistry;
   /** Override the backoff calculation (e.g. `() => 0` in tests for instant restarts). */
   backoffFn?: (attempt: number) => number;
   /** Directory containing plugins.json (defaults to ~/.agentspawn). */
@@ -139,6 +363,8 @@ export interface WorkspaceEntry {
   name: string;
   sessionNames: string[];
   createdAt: string;
+  /** Shared by all member sessions: their combined usage counts against it. */
+  budget?: BudgetLimits;
 }
 
 export interface WorkspaceData {
@@ -151,6 +377,58 @@ export interface PromptHistoryEntry {
   prompt: string;
   responsePreview: string;
   timestamp: string;
+  /** Set when the prompt was cancelled; responsePreview then holds the partial response. */
+  cancelled?: boolean;
+  /** Set when the provider exited non-zero or failed to spawn. */
+  failed?: boolean;
+  /** Content hash of the full transcript turn, when one was stored. */
+  transcriptId?: string;
+  /** Id of the schedule that sent the prompt, if it was scheduled. */
+  scheduleId?: string;
+  /** Checkpoint of the working directory taken just before the prompt ran. */
+  checkpointId?: number;
+}
+
+export type CheckpointKind = 'git' | 'files';
+
+/** A snapshot of a session's working directory, taken before a prompt. */
+export interface CheckpointEntry {
+  /** Increases per session, starting at 1. */
+  id: number;
+  sessionName: string;
+  workingDirectory: string;
+  createdAt: string;
+  /** Preview of the prompt that ran after the snapshot. */
+  prompt: string;
+  /** git: a commit on a hidden ref; files: a copy under the checkpoints directory. */
+  kind: CheckpointKind;
+  /** Snapshot commit, for git checkpoints. */
+  commit?: string;
+}
+
+export type TranscriptOutcome = 'completed' | 'failed' | 'cancelled' | 'timeout';
+
+/** One prompt/response turn stored in full by TranscriptStore. */
+export interface TranscriptTurn {
+  prompt: string;
+  response: string;
+  stderr: string;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  exitCode: number | null;
+  signal: string | null;
+  outcome: TranscriptOutcome;
+  /** Structured non-text events (tool calls, tool results, final result), in order. */
+  events?: ProviderEvent[];
+  /** Token usage reported by the provider's final result event. */
+  usage?: TokenUsage;
+  costUsd?: number;
+}
+
+/** A history index entry joined with its full transcript turn, if any. */
+export interface FullHistoryEntry extends PromptHistoryEntry {
+  transcript?: TranscriptTurn;
 }
 
 export interface TemplateEntry {
@@ -168,6 +446,11 @@ export interface TemplateEntry {
   createdAt: string;
   sandboxLevel?: SandboxLevel;
   sandboxImage?: string;
+  sandboxMounts?: SandboxMountPolicy;
+  budget?: BudgetLimits;
+  fileTriggers?: FileTrigger[];
+  /** Start each session in its own git worktree on an `agentspawn/<session>` branch. */
+  worktree?: boolean;
 }
 
 export interface SandboxTestResult {
@@ -176,6 +459,15 @@ export interface SandboxTestResult {
   writeInsideWorkdir: boolean;
   writeOutsideWorkdir: boolean;  // should be false (blocked)
   readCredentialDir: boolean | null;  // null if not tested at this level
+  /** One check per mount policy rule, in policy order. */
+  mounts: SandboxMountTestResult[];
+  passed: boolean;
+}
+
+export interface SandboxMountTestResult {
+  path: string;
+  access: 'read-only' | 'writable' | 'deny';
+  /** read-only: readable and not writable; writable: writable; deny: contents hidden. */
   passed: boolean;
 }
 
@@ -191,12 +483,158 @@ export interface BroadcastResult {
   error?: string;
 }
 
+/** A session a workflow may start if it is not already known. */
+export interface WorkflowSessionSpec {
+  workingDirectory?: string;
+  permissionMode?: string;
+  provider?: ProviderType;
+  model?: string;
+  /** Server URL for the HTTP providers. */
+  providerUrl?: string;
+}
+
+/**
+ * Gate on an earlier step. Every field given must hold; `step` defaults to
+ * the most recent step that ran.
+ */
+export interface WorkflowCondition {
+  step?: string;
+  status?: 'succeeded' | 'failed' | 'skipped';
+  contains?: string;
+  notContains?: string;
+  /** Regular expression tested against the step's response. */
+  matches?: string;
+}
+
+/** How a fan-out step's responses become its single `response`. */
+export type WorkflowAggregate = 'concat' | 'json' | 'first';
+
+export interface WorkflowStep {
+  id: string;
+  /** One session, or several via `sessions` to fan out the same prompt. */
+  session?: string;
+  sessions?: string[];
+  /** Prompt template; see renderWorkflowTemplate for the placeholders. */
+  prompt: string;
+  when?: WorkflowCondition;
+  aggregate?: WorkflowAggregate;
+  /** Keep running later steps when this one fails. */
+  continueOnError?: boolean;
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  /** Input names with their defaults; null marks an input as required. */
+  inputs?: Record<string, string | null>;
+  sessions?: Record<string, WorkflowSessionSpec>;
+  steps: WorkflowStep[];
+}
+
+export type WorkflowRunStatus = 'running' | 'succeeded' | 'failed';
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface WorkflowSessionResult {
+  sessionName: string;
+  status: 'succeeded' | 'failed';
+  response?: string;
+  error?: string;
+}
+
+export interface WorkflowStepResult {
+  id: string;
+  status: WorkflowStepStatus;
+  sessions: string[];
+  /** The rendered prompt that was sent. */
+  prompt?: string;
+  results: WorkflowSessionResult[];
+  /** Aggregated response of the sessions that succeeded. */
+  response?: string;
+  startedAt?: string;
+  completedAt?: string;
+  skipReason?: string;
+}
+
+/** A workflow run as persisted by WorkflowRunStore. */
+export interface WorkflowRun {
+  id: string;
+  workflow: string;
+  file: string;
+  status: WorkflowRunStatus;
+  inputs: Record<string, string>;
+  steps: WorkflowStepResult[];
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+/** When a schedule fires: a cron expression (local time) or a fixed interval. */
+export type ScheduleTrigger =
+  | { type: 'cron'; expression: string }
+  | { type: 'interval'; everyMs: number };
+
+/**
+ * What to do with runs that came due while no scheduler was running:
+ * `skip` drops them, `run-once` fires a single catch-up run.
+ */
+export type MissedRunPolicy = 'skip' | 'run-once';
+
+export type ScheduleRunStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface ScheduleEntry {
+  id: string;
+  sessionName: string;
+  prompt: string;
+  trigger: ScheduleTrigger;
+  missedRunPolicy: MissedRunPolicy;
+  paused: boolean;
+  createdAt: string;
+  /** When the schedule is next due. */
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastStatus?: ScheduleRunStatus;
+  /** Why the last run failed or was skipped. */
+  lastError?: string;
+}
+
+export interface ScheduleData {
+  version: number;
+  schedules: Record<string, ScheduleEntry>;
+}
+
 export interface AgentSpawnConfig {
   registryPath: string;
   workspacesPath?: string;
   historyDir?: string;
   templatesPath?: string;
   remotesPath?: string;
+  /** Unix socket the background daemon listens on. */
+  daemonSocketPath?: string;
+  /** NDJSON ledger of per-turn token usage and cost. */
+  usagePath?: string;
+  /** Hashed bearer tokens accepted by the web server. */
+  webTokensPath?: string;
+  /** One JSON file per workflow run, with the result of every step. */
+  workflowRunsDir?: string;
+  /** Scheduled prompts fired by the daemon. */
+  schedulesPath?: string;
+  /** Git worktrees created for sessions started with --worktree. */
+  worktreesDir?: string;
+  /** Snapshots taken before each prompt (file copies for directories outside git). */
+  checkpointsDir?: string;
+  /** Working-directory baselines captured at session start, for `sandbox diff`. */
+  sandboxBaselinesDir?: string;
+  /** Per-session logs of sandbox violations, such as egress denials. */
+  sandboxLogsDir?: string;
+  /** Recipes of images built by `sandbox image build`, keyed by content hash. */
+  sandboxImagesDir?: string;
+  /** Warm Docker/Podman containers shared by every agentspawn process. */
+  sandboxPoolPath?: string;
+  /** Warm containers kept per sandbox configuration, until `sandbox pool size` changes it. 0 disables the pool. */
+  sandboxPoolSize?: number;
+  /** Third-party CLI providers, selectable with `--provider <name>` next to the built-in ones. */
+  providersPath?: string;
   logLevel: string;
   shutdownTimeoutMs: number;
 }
@@ -211,12 +649,126 @@ export interface SessionCrashedEvent {
   retryCount: number;
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/**
+ * Structured event parsed from one line of provider output. Providers without
+ * structured output only ever produce 'text' events.
+ */
+export type ProviderEvent =
+  | { type: 'text'; text: string }
+  | {
+      type: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+      /** Human-readable one-liner, e.g. "Edited src/foo.ts" or "Ran npm test". */
+      summary: string;
+    }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError: boolean }
+  | {
+      type: 'result';
+      isError: boolean;
+      durationMs?: number;
+      numTurns?: number;
+      costUsd?: number;
+      usage?: TokenUsage;
+    }
+  | { type: 'error'; message: string };
+
+/** One provider-reported turn in the usage ledger. */
+export interface UsageRecord {
+  sessionName: string;
+  timestamp: string;
+  provider?: string;
+  tags?: string[];
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+export type UsageGroupBy = 'session' | 'tag' | 'workspace' | 'day';
+
+/** Usage rolled up over a group of ledger records. */
+export interface UsageSummary {
+  /** Group key: a session, tag, workspace name or YYYY-MM-DD day. */
+  key: string;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+export interface PromptCancelledEvent {
+  sessionName: string;
+  promptText: string;
+  partialResponse: string;
+}
+
+/**
+ * One frame of a streamed HTTP prompt response, sent as an SSE event or an
+ * NDJSON line. `error` carries the status the non-streaming route would use.
+ */
+export type PromptStreamFrame =
+  | { type: 'start'; sessionName: string; prompt: string }
+  | { type: 'chunk'; chunk: string }
+  | { type: 'complete'; response: string }
+  | { type: 'error'; error: string; status: number; cancelled?: boolean; budgetExceeded?: BudgetLimitKind };
+
+/** A prompt waiting in a session's queue. Higher priority runs first; equal priorities run FIFO. */
+export interface QueuedPrompt {
+  id: number;
+  prompt: string;
+  priority: number;
+  enqueuedAt: string;
+}
+
+export interface SendPromptOptions {
+  /** Queue priority (default 0). Only matters when the session is busy. */
+  priority?: number;
+  /** Schedule sending the prompt; recorded on its history entry. */
+  scheduleId?: string;
+  /**
+   * Called with this prompt's response text as it arrives. Unlike the
+   * session's 'data' event, it never sees prompts queued ahead of this one.
+   */
+  onData?: (chunk: string) => void;
+}
+
+export interface PromptQueuedEvent {
+  sessionName: string;
+  entry: QueuedPrompt;
+  queueDepth: number;
+}
+
+export interface PromptDequeuedEvent {
+  sessionName: string;
+  entry: QueuedPrompt;
+  /** 'started' when the prompt began running, 'dropped' when removed without running. */
+  reason: 'started' | 'dropped';
+  queueDepth: number;
+}
+
 export interface SessionMetrics {
   promptCount: number;
   avgResponseTimeMs: number;
   totalResponseChars: number;
   estimatedTokens: number;  // totalResponseChars / 4 (rough approximation)
   uptimeMs: number;
+  /** Token totals reported by the provider; absent if it never reported any. */
+  usage?: TokenUsage;
+  costUsd?: number;
+  /** CPU, memory and disk used by prompts; absent if none could be sampled. */
+  resources?: SessionResourceMetrics;
 }
 
 export interface RemoteEntry {
@@ -227,6 +779,8 @@ export interface RemoteEntry {
   remotePort: number;
   localPort: number;
   addedAt: string;
+  /** Bearer token for the remote web server's API. */
+  token?: string;
 }
 
 export interface RemoteData {
@@ -234,4 +788,24 @@ export interface RemoteData {
   remotes: Record<string, RemoteEntry>;
 }
 
+/**
+ * Scope of a web API token. Each scope includes the ones before it:
+ * read-only < prompt < admin.
+ */
+export type WebTokenScope = 'read-only' | 'prompt' | 'admin';
+
+export interface WebTokenEntry {
+  id: string;
+  name: string;
+  scope: WebTokenScope;
+  /** SHA-256 of the token; the token itself is only shown on creation. */
+  hash: string;
+  createdAt: string;
+}
+
+export interface WebTokenData {
+  version: number;
+  tokens: Record<string, WebTokenEntry>;
+}
+
 export type TunnelStatus = 'connected' | 'disconnected' | 'error';
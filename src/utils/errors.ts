@@ -1,3 +1,5 @@
+import type { BudgetLimitKind } from '../types.js';
+
 export class AgentSpawnError extends Error {
   constructor(
     message: string,
@@ -8,6 +10,13 @@ export class AgentSpawnError extends Error {
   }
 }
 
+export class InvalidRequestError extends AgentSpawnError {
+  constructor(message: string) {
+    super(message, 'INVALID_REQUEST');
+    this.name = 'InvalidRequestError';
+  }
+}
+
 export class SessionNotFoundError extends AgentSpawnError {
   constructor(name: string) {
     super(`Session not found: ${name}`, 'SESSION_NOT_FOUND');
@@ -133,6 +142,56 @@ export class PromptTimeoutError extends AgentSpawnError {
   }
 }
 
+export class PromptCancelledError extends AgentSpawnError {
+  constructor(
+    public readonly sessionName: string,
+    public readonly promptText: string,
+  ) {
+    super(`Prompt was cancelled in session "${sessionName}"`, 'PROMPT_CANCELLED');
+    this.name = 'PromptCancelledError';
+  }
+}
+
+export class PromptDroppedError extends AgentSpawnError {
+  constructor(
+    public readonly sessionName: string,
+    public readonly queueId: number,
+  ) {
+    super(`Queued prompt #${queueId} was dropped from session "${sessionName}"`, 'PROMPT_DROPPED');
+    this.name = 'PromptDroppedError';
+  }
+}
+
+const BUDGET_LIMIT_LABELS: Record<BudgetLimitKind, string> = {
+  tokens: 'token limit',
+  cost: 'cost limit',
+  promptsPerHour: 'prompts-per-hour limit',
+  wallClock: 'wall-clock limit',
+};
+
+export class BudgetExceededError extends AgentSpawnError {
+  constructor(
+    public readonly sessionName: string,
+    public readonly limit: BudgetLimitKind,
+    public readonly scope: 'session' | 'workspace',
+    public readonly scopeName: string,
+  ) {
+    const owner = scope === 'session' ? `session "${scopeName}"` : `workspace "${scopeName}"`;
+    super(
+      `Budget exceeded for ${owner} (${BUDGET_LIMIT_LABELS[limit]}); refusing prompt to "${sessionName}"`,
+      'BUDGET_EXCEEDED',
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class QueuedPromptNotFoundError extends AgentSpawnError {
+  constructor(sessionName: string, queueId: number) {
+    super(`No queued prompt #${queueId} in session "${sessionName}"`, 'QUEUED_PROMPT_NOT_FOUND');
+    this.name = 'QueuedPromptNotFoundError';
+  }
+}
+
 export class RemoteCorruptError extends AgentSpawnError {
   constructor(path: string) {
     super(`Remotes file is corrupt: ${path}`, 'REMOTE_CORRUPT');
@@ -171,6 +230,42 @@ export class TunnelError extends AgentSpawnError {
   }
 }
 
+export class ApiRequestError extends AgentSpawnError {
+  constructor(
+    public readonly status: number,
+    reason: string,
+    /** Code from the server's error body (e.g. SESSION_NOT_FOUND), when it sent one. */
+    public readonly errorCode?: string,
+  ) {
+    super(reason, 'API_REQUEST_FAILED');
+    this.name = 'ApiRequestError';
+  }
+}
+
+export class WebTokenCorruptError extends AgentSpawnError {
+  constructor(path: string) {
+    super(`Web tokens file is corrupt: ${path}`, 'WEB_TOKEN_CORRUPT');
+    this.name = 'WebTokenCorruptError';
+  }
+}
+
+export class WebTokenLockError extends AgentSpawnError {
+  constructor(path: string, cause?: Error) {
+    super(`Failed to acquire lock on web tokens file: ${path}`, 'WEB_TOKEN_LOCK_FAILED');
+    this.name = 'WebTokenLockError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class WebTokenNotFoundError extends AgentSpawnError {
+  constructor(id: string) {
+    super(`Web token not found: ${id}`, 'WEB_TOKEN_NOT_FOUND');
+    this.name = 'WebTokenNotFoundError';
+  }
+}
+
 export class SandboxNotAvailableError extends AgentSpawnError {
   constructor() {
     super(
@@ -187,3 +282,213 @@ export class SandboxStartError extends AgentSpawnError {
     this.name = 'SandboxStartError';
   }
 }
+
+export class DaemonNotRunningError extends AgentSpawnError {
+  constructor(socketPath: string) {
+    super(`AgentSpawn daemon is not running (no socket at ${socketPath})`, 'DAEMON_NOT_RUNNING');
+    this.name = 'DaemonNotRunningError';
+  }
+}
+
+export class DaemonAlreadyRunningError extends AgentSpawnError {
+  constructor(socketPath: string) {
+    super(`AgentSpawn daemon is already running on ${socketPath}`, 'DAEMON_ALREADY_RUNNING');
+    this.name = 'DaemonAlreadyRunningError';
+  }
+}
+
+export class YamlParseError extends AgentSpawnError {
+  constructor(
+    public readonly line: number,
+    reason: string,
+  ) {
+    super(`YAML parse error on line ${line}: ${reason}`, 'YAML_PARSE_ERROR');
+    this.name = 'YamlParseError';
+  }
+}
+
+export class WorkflowInvalidError extends AgentSpawnError {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[],
+  ) {
+    super(`Invalid workflow ${source}: ${problems.join('; ')}`, 'WORKFLOW_INVALID');
+    this.name = 'WorkflowInvalidError';
+  }
+}
+
+export class WorkflowRunNotFoundError extends AgentSpawnError {
+  constructor(runId: string) {
+    super(`Workflow run not found: ${runId}`, 'WORKFLOW_RUN_NOT_FOUND');
+    this.name = 'WorkflowRunNotFoundError';
+  }
+}
+
+export class WorkflowRunCorruptError extends AgentSpawnError {
+  constructor(path: string) {
+    super(`Workflow run file is corrupt: ${path}`, 'WORKFLOW_RUN_CORRUPT');
+    this.name = 'WorkflowRunCorruptError';
+  }
+}
+
+export class ScheduleNotFoundError extends AgentSpawnError {
+  constructor(id: string) {
+    super(`Schedule not found: ${id}`, 'SCHEDULE_NOT_FOUND');
+    this.name = 'ScheduleNotFoundError';
+  }
+}
+
+export class ScheduleAlreadyExistsError extends AgentSpawnError {
+  constructor(id: string) {
+    super(`Schedule already exists: ${id}`, 'SCHEDULE_ALREADY_EXISTS');
+    this.name = 'ScheduleAlreadyExistsError';
+  }
+}
+
+export class ScheduleCorruptError extends AgentSpawnError {
+  constructor(path: string) {
+    super(`Schedules file is corrupt: ${path}`, 'SCHEDULE_CORRUPT');
+    this.name = 'ScheduleCorruptError';
+  }
+}
+
+export class ScheduleLockError extends AgentSpawnError {
+  constructor(path: string, cause?: Error) {
+    super(`Failed to acquire lock on schedules file: ${path}`, 'SCHEDULE_LOCK_FAILED');
+    this.name = 'ScheduleLockError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class InvalidScheduleError extends AgentSpawnError {
+  constructor(reason: string) {
+    super(`Invalid schedule: ${reason}`, 'SCHEDULE_INVALID');
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+export class InvalidFileTriggerError extends AgentSpawnError {
+  constructor(reason: string) {
+    super(`Invalid file trigger: ${reason}`, 'FILE_TRIGGER_INVALID');
+    this.name = 'InvalidFileTriggerError';
+  }
+}
+
+export class WorktreeError extends AgentSpawnError {
+  constructor(reason: string, cause?: Error) {
+    super(`Worktree error: ${reason}`, 'WORKTREE_FAILED');
+    this.name = 'WorktreeError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class CheckpointNotFoundError extends AgentSpawnError {
+  constructor(sessionName: string, id: number) {
+    super(`Checkpoint #${id} not found for session "${sessionName}"`, 'CHECKPOINT_NOT_FOUND');
+    this.name = 'CheckpointNotFoundError';
+  }
+}
+
+export class CheckpointError extends AgentSpawnError {
+  constructor(reason: string, cause?: Error) {
+    super(`Checkpoint error: ${reason}`, 'CHECKPOINT_FAILED');
+    this.name = 'CheckpointError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class SandboxBaselineNotFoundError extends AgentSpawnError {
+  constructor(sessionName: string, cause?: Error) {
+    super(
+      `No diff baseline for session "${sessionName}"; one is captured when the session starts`,
+      'SANDBOX_BASELINE_NOT_FOUND',
+    );
+    this.name = 'SandboxBaselineNotFoundError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class InvalidEgressRuleError extends AgentSpawnError {
+  constructor(reason: string) {
+    super(`Invalid egress rule: ${reason}`, 'SANDBOX_EGRESS_INVALID');
+    this.name = 'InvalidEgressRuleError';
+  }
+}
+
+export class InvalidMountPolicyError extends AgentSpawnError {
+  constructor(reason: string) {
+    super(`Invalid sandbox mount policy: ${reason}`, 'SANDBOX_MOUNT_INVALID');
+    this.name = 'InvalidMountPolicyError';
+  }
+}
+
+export class InvalidImageSpecError extends AgentSpawnError {
+  constructor(source: string, reason: string) {
+    super(`Invalid sandbox image spec ${source}: ${reason}`, 'SANDBOX_IMAGE_SPEC_INVALID');
+    this.name = 'InvalidImageSpecError';
+  }
+}
+
+export class SandboxImageBuildError extends AgentSpawnError {
+  constructor(image: string, reason: string, cause?: Error) {
+    super(`Failed to build sandbox image ${image}: ${reason}`, 'SANDBOX_IMAGE_BUILD_FAILED');
+    this.name = 'SandboxImageBuildError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class SandboxPoolCorruptError extends AgentSpawnError {
+  constructor(path: string) {
+    super(`Sandbox pool file is corrupt: ${path}`, 'SANDBOX_POOL_CORRUPT');
+    this.name = 'SandboxPoolCorruptError';
+  }
+}
+
+export class SandboxPoolLockError extends AgentSpawnError {
+  constructor(path: string, cause?: Error) {
+    super(`Failed to acquire lock on sandbox pool file: ${path}`, 'SANDBOX_POOL_LOCK_FAILED');
+    this.name = 'SandboxPoolLockError';
+    if (cause) {
+      this.cause = cause;
+    }
+  }
+}
+
+export class UnknownProviderError extends AgentSpawnError {
+  constructor(
+    public readonly provider: string,
+    known: readonly string[],
+  ) {
+    super(`Unknown provider: ${provider} (expected ${known.join(', ')})`, 'PROVIDER_NOT_FOUND');
+    this.name = 'UnknownProviderError';
+  }
+}
+
+export class InvalidProviderSpecError extends AgentSpawnError {
+  constructor(source: string, reason: string) {
+    super(`Invalid provider spec ${source}: ${reason}`, 'PROVIDER_SPEC_INVALID');
+    this.name = 'InvalidProviderSpecError';
+  }
+}
+
+export class ProviderRequestError extends AgentSpawnError {
+  constructor(
+    public readonly provider: string,
+    url: string,
+    reason: string,
+    public readonly status?: number,
+  ) {
+    super(`${provider} request to ${url} failed: ${reason}`, 'PROVIDER_REQUEST_FAILED');
+    this.name = 'ProviderRequestError';
+  }
+}
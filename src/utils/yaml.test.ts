@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml } from './yaml.js';
+import { YamlParseError } from './errors.js';
+
+describe('parseYaml', () => {
+  it('parses nested mappings and scalars', () => {
+    const doc = parseYaml(
+      [
+        '# comment',
+        'name: review',
+        'count: 3',
+        'ratio: 0.5',
+        'enabled: true',
+        'missing: ~',
+        'quoted: "a # not a comment"',
+        "single: 'it''s'",
+        'nested:',
+        '  key: value  # trailing comment',
+        '  deeper:',
+        '    x: 1',
+      ].join('\n'),
+    );
+    expect(doc).toEqual({
+      name: 'review',
+      count: 3,
+      ratio: 0.5,
+      enabled: true,
+      missing: null,
+      quoted: 'a # not a comment',
+      single: "it's",
+      nested: { key: 'value', deeper: { x: 1 } },
+    });
+  });
+
+  it('parses sequences of scalars and mappings, at or below the key indent', () => {
+    const doc = parseYaml(
+      [
+        'plain:',
+        '- a',
+        '- b',
+        'steps:',
+        '  - id: one',
+        '    session: s1',
+        '  - id: two',
+        '    sessions:',
+        '      - s1',
+        '      - s2',
+      ].join('\n'),
+    );
+    expect(doc).toEqual({
+      plain: ['a', 'b'],
+      steps: [
+        { id: 'one', session: 's1' },
+        { id: 'two', sessions: ['s1', 's2'] },
+      ],
+    });
+  });
+
+  it('parses flow collections', () => {
+    expect(parseYaml('tags: [a, "b, c", 3]\nopts: { mode: fast, n: 2 }')).toEqual({
+      tags: ['a', 'b, c', 3],
+      opts: { mode: 'fast', n: 2 },
+    });
+  });
+
+  it('parses literal and folded block scalars', () => {
+    const doc = parseYaml(
+      [
+        'literal: |',
+        '  line one',
+        '  line two',
+        '',
+        'folded: >-',
+        '  joined',
+        '  together',
+        'after: x',
+      ].join('\n'),
+    );
+    expect(doc).toEqual({
+      literal: 'line one\nline two\n',
+      folded: 'joined together',
+      after: 'x',
+    });
+  });
+
+  it('keeps {{placeholders}} in plain and block scalars', () => {
+    expect(parseYaml('prompt: |\n  Review {{previous.response}}\n')).toEqual({
+      prompt: 'Review {{previous.response}}\n',
+    });
+    expect(parseYaml('prompt: "Summarize {{steps.a.response}}"')).toEqual({
+      prompt: 'Summarize {{steps.a.response}}',
+    });
+  });
+
+  it('returns null for an empty document and skips a leading ---', () => {
+    expect(parseYaml('')).toBeNull();
+    expect(parseYaml('---\na: 1')).toEqual({ a: 1 });
+  });
+
+  it('reports the line of a problem', () => {
+    expect(() => parseYaml('a: 1\na: 2')).toThrow(YamlParseError);
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('line 2: duplicate key "a"');
+    expect(() => parseYaml('a:\n  b: 1\n    c: 2')).toThrow('line 3: unexpected indentation');
+    expect(() => parseYaml('a: "open')).toThrow('unterminated quoted string');
+  });
+});
@@ -0,0 +1,287 @@
+import { YamlParseError } from './errors.js';
+
+/**
+ * Parser for the subset of YAML used by workflow files: block mappings and
+ * sequences, flow `[...]` / `{...}` collections, plain and quoted scalars,
+ * `|` / `>` block scalars, and comments. Anchors, tags and multiple
+ * documents are not supported.
+ */
+
+const KEY_LINE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[\]{},:-][^#:]*?|-[^\s#:][^#:]*?)\s*:(?:\s+(.*))?$/;
+
+interface SourceLine {
+  indent: number;
+  /** Text after the indent, comments not yet stripped. */
+  text: string;
+  /** 1-based, for error messages. */
+  no: number;
+}
+
+/** Remove a trailing `# comment` that is outside quotes. */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/** Resolve a plain (unquoted) scalar to null, a boolean, a number or a string. */
+function plainScalar(text: string): unknown {
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^[-+]?\d+$/.test(text)) return parseInt(text, 10);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)(e[-+]?\d+)?$/i.test(text)) return parseFloat(text);
+  return text;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', '/': '/', '0': '\0' };
+
+class FlowParser {
+  private pos = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly line: number,
+  ) {}
+
+  parseAll(): unknown {
+    const value = this.value(false);
+    this.skipSpace();
+    if (this.pos < this.text.length) {
+      throw new YamlParseError(this.line, `unexpected '${this.text.slice(this.pos)}'`);
+    }
+    return value;
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private value(inFlow: boolean): unknown {
+    this.skipSpace();
+    const ch = this.text[this.pos];
+    if (ch === '[') return this.sequence();
+    if (ch === '{') return this.mapping();
+    if (ch === '"' || ch === "'") return this.quoted();
+    return this.plain(inFlow ? /[,\]}]/ : null);
+  }
+
+  private sequence(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++;
+    this.skipSpace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return items;
+    }
+    for (;;) {
+      items.push(this.value(true));
+      this.skipSpace();
+      const ch = this.text[this.pos++];
+      if (ch === ']') return items;
+      if (ch !== ',') throw new YamlParseError(this.line, "expected ',' or ']' in flow sequence");
+    }
+  }
+
+  private mapping(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++;
+    this.skipSpace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return result;
+    }
+    for (;;) {
+      this.skipSpace();
+      const key = this.text[this.pos] === '"' || this.text[this.pos] === "'" ? this.quoted() : this.plain(/[:,}]/, true);
+      this.skipSpace();
+      if (this.text[this.pos++] !== ':') throw new YamlParseError(this.line, "expected ':' in flow mapping");
+      result[String(key)] = this.value(true);
+      this.skipSpace();
+      const ch = this.text[this.pos++];
+      if (ch === '}') return result;
+      if (ch !== ',') throw new YamlParseError(this.line, "expected ',' or '}' in flow mapping");
+    }
+  }
+
+  private quoted(): string {
+    const quote = this.text[this.pos++];
+    let out = '';
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++];
+      if (quote === "'" && ch === "'") {
+        if (this.text[this.pos] === "'") {
+          out += "'";
+          this.pos++;
+          continue;
+        }
+        return out;
+      }
+      if (quote === '"' && ch === '"') return out;
+      if (quote === '"' && ch === '\\') {
+        const escape = this.text[this.pos++];
+        if (!(escape in ESCAPES)) throw new YamlParseError(this.line, `unknown escape \\${escape}`);
+        out += ESCAPES[escape];
+        continue;
+      }
+      out += ch;
+    }
+    throw new YamlParseError(this.line, 'unterminated quoted string');
+  }
+
+  private plain(stop: RegExp | null, raw = false): unknown {
+    const start = this.pos;
+    while (this.pos < this.text.length && !(stop && stop.test(this.text[this.pos]))) this.pos++;
+    const text = this.text.slice(start, this.pos).trim();
+    return raw ? text : plainScalar(text);
+  }
+}
+
+class BlockParser {
+  private index = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  parseDocument(): unknown {
+    const first = this.peek();
+    if (first && first.text === '---') this.index++;
+    const start = this.peek();
+    if (!start) return null;
+    const value = this.block(start.indent);
+    const rest = this.peek();
+    if (rest) throw new YamlParseError(rest.no, 'unexpected indentation');
+    return value;
+  }
+
+  /** Next line with content, skipping blank and comment-only lines. */
+  private peek(): SourceLine | null {
+    while (this.index < this.lines.length) {
+      const raw = this.lines[this.index];
+      const text = raw.trimStart();
+      if (text === '' || text.startsWith('#')) {
+        this.index++;
+        continue;
+      }
+      const indentText = raw.slice(0, raw.length - text.length);
+      if (indentText.includes('\t')) throw new YamlParseError(this.index + 1, 'tabs are not allowed in indentation');
+      return { indent: indentText.length, text, no: this.index + 1 };
+    }
+    return null;
+  }
+
+  private block(indent: number): unknown {
+    const line = this.peek()!;
+    if (line.text === '-' || line.text.startsWith('- ')) return this.sequence(line.indent);
+    if (KEY_LINE.test(stripComment(line.text))) return this.mapping(line.indent);
+    this.index++;
+    if (line.indent < indent) throw new YamlParseError(line.no, 'unexpected indentation');
+    return new FlowParser(stripComment(line.text), line.no).parseAll();
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const match = stripComment(line.text).match(KEY_LINE);
+      if (!match) throw new YamlParseError(line.no, 'expected a "key: value" line');
+      const key = String(new FlowParser(match[1], line.no).parseAll());
+      if (Object.hasOwn(result, key)) throw new YamlParseError(line.no, `duplicate key "${key}"`);
+      this.index++;
+      result[key] = this.value(match[2] ?? '', indent, line, true);
+    }
+    this.checkDedent(indent);
+    return result;
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (let line = this.peek(); line && line.indent === indent && (line.text === '-' || line.text.startsWith('- ')); line = this.peek()) {
+      const content = line.text.slice(1).trimStart();
+      if (content !== '' && !content.startsWith('#') && (KEY_LINE.test(stripComment(content)) || content.startsWith('- '))) {
+        // "- key: value" starts a nested block at the column of its content
+        this.lines[this.index] = ' '.repeat(indent + line.text.length - content.length) + content;
+        items.push(this.block(indent + 1));
+        continue;
+      }
+      this.index++;
+      items.push(this.value(content, indent, line, false));
+    }
+    this.checkDedent(indent);
+    return items;
+  }
+
+  /** The value after `key:` or `- `: inline, a block scalar, or a nested block. */
+  private value(rest: string, indent: number, line: SourceLine, inMapping: boolean): unknown {
+    const inline = stripComment(rest);
+    if (/^[|>][-+]?$/.test(inline)) return this.blockScalar(inline, indent);
+    if (inline !== '') return new FlowParser(inline, line.no).parseAll();
+
+    const next = this.peek();
+    if (!next) return null;
+    if (next.indent > indent) return this.block(indent + 1);
+    // Sequences may sit at the same indent as their mapping key
+    if (inMapping && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+      return this.sequence(indent);
+    }
+    return null;
+  }
+
+  private blockScalar(header: string, indent: number): string {
+    const lines: string[] = [];
+    let blockIndent: number | null = null;
+    while (this.index < this.lines.length) {
+      const raw = this.lines[this.index];
+      if (raw.trim() === '') {
+        lines.push('');
+        this.index++;
+        continue;
+      }
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (lineIndent <= indent) break;
+      blockIndent ??= lineIndent;
+      if (lineIndent < blockIndent) break;
+      lines.push(raw.slice(blockIndent));
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (trailing < lines.length && lines[lines.length - 1 - trailing] === '') trailing++;
+    const body = lines.slice(0, lines.length - trailing);
+
+    let text: string;
+    if (header.startsWith('|')) {
+      text = body.join('\n');
+    } else {
+      text = body.reduce((out, l, i) => {
+        if (i === 0) return l;
+        if (l === '') return out + '\n';
+        return out + (out.endsWith('\n') ? '' : ' ') + l;
+      }, '');
+    }
+
+    if (header.endsWith('-') || body.length === 0) return text;
+    if (header.endsWith('+')) return text + '\n'.repeat(trailing + 1);
+    return text + '\n';
+  }
+
+  private checkDedent(indent: number): void {
+    const next = this.peek();
+    if (next && next.indent > indent) {
+      throw new YamlParseError(next.no, 'unexpected indentation');
+    }
+  }
+}
+
+/** Parse a YAML document. Throws YamlParseError with the line of the problem. */
+export function parseYaml(text: string): unknown {
+  return new BlockParser(text.replace(/\r\n/g, '\n').split('\n')).parseDocument();
+}
@@ -0,0 +1,96 @@
+import { ApiRequestError } from '../utils/errors.js';
+
+export interface ApiClientOptions {
+  /** Server origin plus API prefix, e.g. `http://localhost:7821/api/v1`. */
+  baseUrl: string;
+  /** Bearer token, for servers that require one. */
+  token?: string;
+}
+
+export interface ApiRequestOptions {
+  query?: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  /** Accept header, for responses that can stream. */
+  accept?: string;
+}
+
+/**
+ * Transport under the generated ApiClient: builds URLs, adds the bearer
+ * token, and turns every error response into an ApiRequestError carrying
+ * the server's `{ error, code }`.
+ */
+export class ApiClientBase {
+  constructor(protected readonly options: ApiClientOptions) {}
+
+  protected async requestJson<T>(method: string, path: string, options: ApiRequestOptions = {}): Promise<T> {
+    const response = await this.send(method, path, options);
+    if (response.status === 204) return undefined as T;
+    return (await response.json()) as T;
+  }
+
+  protected async requestText(method: string, path: string, options: ApiRequestOptions = {}): Promise<string> {
+    const response = await this.send(method, path, options);
+    return response.text();
+  }
+
+  /** Request an NDJSON stream and yield each frame as it arrives. */
+  protected async *requestStream<T>(method: string, path: string, options: ApiRequestOptions = {}): AsyncGenerator<T> {
+    const response = await this.send(method, path, { ...options, accept: 'application/x-ndjson' });
+    if (!response.body) {
+      throw new ApiRequestError(response.status, 'response has no body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        if (line.trim().length > 0) yield JSON.parse(line) as T;
+      }
+    }
+    if (buffer.trim().length > 0) yield JSON.parse(buffer) as T;
+  }
+
+  private async send(method: string, path: string, options: ApiRequestOptions): Promise<Response> {
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      for (const item of value === undefined ? [] : [value].flat()) {
+        search.append(name, item);
+      }
+    }
+    const url = this.options.baseUrl + path + (search.size > 0 ? `?${search}` : '');
+
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (options.accept) headers['Accept'] = options.accept;
+    if (this.options.token) headers['Authorization'] = `Bearer ${this.options.token}`;
+
+    // Only pass what differs from a plain GET
+    const init: RequestInit = {};
+    if (method !== 'GET') init.method = method;
+    if (Object.keys(headers).length > 0) init.headers = headers;
+    if (options.body !== undefined) init.body = JSON.stringify(options.body);
+
+    const response = await (Object.keys(init).length > 0 ? fetch(url, init) : fetch(url));
+    if (!response.ok) {
+      throw await errorFrom(response);
+    }
+    return response;
+  }
+}
+
+async function errorFrom(response: Response): Promise<ApiRequestError> {
+  let reason = response.statusText;
+  let code: string | undefined;
+  try {
+    const body = (await response.json()) as { error?: string; code?: string };
+    reason = body.error ?? reason;
+    code = body.code;
+  } catch {
+    // ignore JSON parse failure; use statusText
+  }
+  return new ApiRequestError(response.status, reason, code);
+}
@@ -0,0 +1,404 @@
+// Generated from the OpenAPI document in src/web/openapi.ts by
+// src/web/client-generator.ts. Do not edit by hand; run
+// `npm run generate:api-client` after changing the API.
+
+import { ApiClientBase } from './api-client-base.js';
+
+export type { ApiClientOptions } from './api-client-base.js';
+
+/** Error body. `code` is the AgentSpawnError code and decides the status. */
+export interface ErrorResponse {
+  error: string;
+  code: string;
+  /** Set when the prompt was cancelled. */
+  cancelled?: boolean;
+  /** The limit that refused the prompt. */
+  budgetExceeded?: BudgetLimitKind;
+}
+
+export interface OkResponse {
+  ok: boolean;
+}
+
+export type SessionState = 'running' | 'stopped' | 'crashed';
+
+export type SandboxBackend = 'docker' | 'podman' | 'bwrap' | 'sandbox-exec';
+
+export type SandboxLevel = 'permissive' | 'standard' | 'strict';
+
+export type BudgetLimitKind = 'tokens' | 'cost' | 'promptsPerHour' | 'wallClock';
+
+/** Guardrails on a session or workspace. Every limit is optional. */
+export interface BudgetLimits {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxPromptsPerHour?: number;
+  /** Wall-clock time since the session started. */
+  maxWallClockMs?: number;
+}
+
+/** Sends `prompt` when files matching `glob` change under the working directory. The prompt may use {{file}}, {{files}} and {{glob}}. */
+export interface FileTrigger {
+  /** Relative to the working directory, e.g. `reports/*.xml`. */
+  glob: string;
+  prompt: string;
+  debounceMs?: number;
+  cooldownMs?: number;
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+  promptsLastHour: number;
+  wallClockMs: number;
+}
+
+export interface BudgetStatus {
+  scope: 'session' | 'workspace';
+  scopeName: string;
+  limits: BudgetLimits;
+  used: BudgetUsage;
+  remaining: Record<string, number>;
+  warnings: BudgetLimitKind[];
+  exceeded: BudgetLimitKind[];
+}
+
+export interface RestartPolicy {
+  enabled: boolean;
+  maxRetries: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  retryableExitCodes?: number[];
+  replayPrompt?: boolean;
+}
+
+/** Soft limits per prompt; crossing one emits a warning. Every limit is optional. */
+export interface ResourceLimits {
+  /** Percent of one core. */
+  cpuPercent?: number;
+  memoryBytes?: number;
+  diskWriteBytes?: number;
+}
+
+/** Latest reading of the prompt in progress. */
+export interface ResourceGauge {
+  /** Percent of one core since the previous sample. */
+  cpuPercent: number;
+  memoryBytes: number;
+  /** Written since the prompt started. */
+  diskWriteBytes: number;
+  sampledAt: string;
+}
+
+export interface ResourceTurnUsage {
+  /** 1-based number of the prompt in the session. */
+  prompt: number;
+  startedAt: string;
+  durationMs: number;
+  samples: number;
+  cpuPercent: { peak: number; avg: number };
+  memoryBytes: { peak: number; avg: number };
+  diskWriteBytes: number;
+  exceeded: Array<'cpu' | 'memory' | 'disk'>;
+}
+
+export interface SessionResourceMetrics {
+  current?: ResourceGauge;
+  /** Recent prompts, oldest first. */
+  turns: ResourceTurnUsage[];
+  limits?: ResourceLimits;
+}
+
+export interface SessionInfo {
+  name: string;
+  pid: number;
+  state: SessionState;
+  startedAt: string | null;
+  workingDirectory: string;
+  exitCode?: number | null;
+  /** Number of prompts sent in this session. */
+  promptCount: number;
+  permissionMode?: string;
+  tags?: string[];
+  /** Set on sessions proxied from a remote AgentSpawn instance. */
+  remoteAlias?: string;
+  sandboxed?: boolean;
+  sandboxBackend?: SandboxBackend;
+  sandboxLevel?: SandboxLevel;
+  /** Prompts waiting behind the in-flight one. */
+  queueDepth?: number;
+  /** Budget status per scope. */
+  budget?: BudgetStatus[];
+  resources?: ResourceGauge;
+}
+
+export interface PromptHistoryEntry {
+  index: number;
+  prompt: string;
+  responsePreview: string;
+  timestamp: string;
+  cancelled?: boolean;
+  failed?: boolean;
+  transcriptId?: string;
+  checkpointId?: number;
+}
+
+export interface BroadcastResult {
+  sessionName: string;
+  status: 'fulfilled' | 'rejected';
+  response?: string;
+  error?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+export interface SessionMetrics {
+  promptCount: number;
+  avgResponseTimeMs: number;
+  totalResponseChars: number;
+  estimatedTokens: number;
+  uptimeMs: number;
+  usage?: TokenUsage;
+  costUsd?: number;
+  resources?: SessionResourceMetrics;
+}
+
+export interface SandboxDiff {
+  sessionName: string;
+  sandboxBackend: SandboxBackend | null;
+  changes: string[];
+}
+
+/** One frame of a streamed prompt response. */
+export type PromptStreamFrame =
+  | { type: 'start'; sessionName: string; prompt: string }
+  | { type: 'chunk'; chunk: string }
+  | { type: 'complete'; response: string }
+  | {
+    type: 'error';
+    error: string;
+    status: number;
+    cancelled?: boolean;
+    budgetExceeded?: BudgetLimitKind;
+  };
+
+export interface WorkspaceEntry {
+  name: string;
+  sessionNames: string[];
+  createdAt: string;
+  budget?: BudgetLimits;
+}
+
+export interface TemplateEntry {
+  name: string;
+  workingDirectory?: string;
+  permissionMode?: string;
+  systemPrompt?: string;
+  env?: Record<string, string>;
+  restartPolicy?: RestartPolicy;
+  createdAt: string;
+  sandboxLevel?: SandboxLevel;
+  sandboxImage?: string;
+  budget?: BudgetLimits;
+  fileTriggers?: FileTrigger[];
+}
+
+export interface UsageSummary {
+  /** A session, tag, workspace name or YYYY-MM-DD day. */
+  key: string;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  groupBy: 'session' | 'tag' | 'workspace' | 'day';
+  rows: UsageSummary[];
+  total: UsageSummary;
+}
+
+/** Fields left out are taken from `template` when one is named. */
+export interface CreateSessionRequest {
+  name: string;
+  template?: string;
+  workingDirectory?: string;
+  permissionMode?: string;
+  tags?: string[];
+  budget?: BudgetLimits;
+  /** Added to the template's triggers. */
+  fileTriggers?: FileTrigger[];
+}
+
+export interface PromptRequest {
+  prompt: string;
+}
+
+/** Sends to `sessions`, the running members of `workspace`, or every running session. */
+export interface BroadcastRequest {
+  prompt: string;
+  sessions?: string[];
+  workspace?: string;
+}
+
+export interface CreateWorkspaceRequest {
+  name: string;
+  sessions?: string[];
+}
+
+export interface WorkspaceSessionsRequest {
+  sessions: string[];
+}
+
+/** A missing or null budget clears it. */
+export interface SetBudgetRequest {
+  budget?: BudgetLimits | null;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  workingDirectory?: string;
+  permissionMode?: string;
+  systemPrompt?: string;
+  env?: Record<string, string>;
+  budget?: BudgetLimits;
+  fileTriggers?: FileTrigger[];
+}
+
+/**
+ * Typed client for the AgentSpawn API (1.0.0).
+ * Pass the server origin plus /api/v1 as `baseUrl`.
+ */
+export class ApiClient extends ApiClientBase {
+  /** List sessions, optionally only those carrying every given tag. */
+  listSessions(query: { tag?: string[] } = {}): Promise<SessionInfo[]> {
+    return this.requestJson<SessionInfo[]>('GET', '/sessions', { query });
+  }
+
+  /** Start a session. */
+  createSession(body: CreateSessionRequest): Promise<SessionInfo> {
+    return this.requestJson<SessionInfo>('POST', '/sessions', { body });
+  }
+
+  /** Get one session. */
+  getSession(name: string): Promise<SessionInfo> {
+    return this.requestJson<SessionInfo>('GET', `/sessions/${encodeURIComponent(name)}`);
+  }
+
+  /** Stop a session. */
+  stopSession(name: string): Promise<OkResponse> {
+    return this.requestJson<OkResponse>('DELETE', `/sessions/${encodeURIComponent(name)}`);
+  }
+
+  /** Send a prompt. With Accept: text/event-stream or application/x-ndjson the response streams start/chunk/complete/error frames. */
+  sendPrompt(name: string, body: PromptRequest): Promise<{ response: string }> {
+    return this.requestJson<{ response: string }>('POST', `/sessions/${encodeURIComponent(name)}/prompt`, { body });
+  }
+
+  /** Like sendPrompt, but yields the streamed application/x-ndjson frames as they arrive. */
+  sendPromptStream(name: string, body: PromptRequest): AsyncGenerator<PromptStreamFrame> {
+    return this.requestStream<PromptStreamFrame>('POST', `/sessions/${encodeURIComponent(name)}/prompt`, { body });
+  }
+
+  /** Cancel the in-flight prompt of a session. */
+  cancelPrompt(name: string): Promise<{ cancelled: boolean }> {
+    return this.requestJson<{ cancelled: boolean }>('POST', `/sessions/${encodeURIComponent(name)}/cancel`);
+  }
+
+  /** Prompt history of a session, newest first. */
+  getHistory(name: string): Promise<PromptHistoryEntry[]> {
+    return this.requestJson<PromptHistoryEntry[]>('GET', `/sessions/${encodeURIComponent(name)}/history`);
+  }
+
+  /** Metrics of a running session. */
+  getMetrics(name: string): Promise<SessionMetrics> {
+    return this.requestJson<SessionMetrics>('GET', `/sessions/${encodeURIComponent(name)}/metrics`);
+  }
+
+  /** Export the full history of a session. */
+  exportSession(name: string, query: { format?: 'markdown' | 'json' | 'text' } = {}): Promise<string> {
+    return this.requestText('GET', `/sessions/${encodeURIComponent(name)}/export`, { query });
+  }
+
+  /** Files the session changed inside its sandbox. */
+  getSandboxDiff(name: string): Promise<SandboxDiff> {
+    return this.requestJson<SandboxDiff>('GET', `/sessions/${encodeURIComponent(name)}/sandbox/diff`);
+  }
+
+  /** Send one prompt to several sessions. */
+  broadcast(body: BroadcastRequest): Promise<BroadcastResult[]> {
+    return this.requestJson<BroadcastResult[]>('POST', '/broadcast', { body });
+  }
+
+  /** Stop every session carrying a tag. */
+  stopByTag(tag: string): Promise<{ tag: string; stopped: number }> {
+    return this.requestJson<{ tag: string; stopped: number }>('POST', `/tags/${encodeURIComponent(tag)}/stop`);
+  }
+
+  /** List workspaces. */
+  listWorkspaces(): Promise<WorkspaceEntry[]> {
+    return this.requestJson<WorkspaceEntry[]>('GET', '/workspaces');
+  }
+
+  /** Create a workspace. */
+  createWorkspace(body: CreateWorkspaceRequest): Promise<WorkspaceEntry> {
+    return this.requestJson<WorkspaceEntry>('POST', '/workspaces', { body });
+  }
+
+  /** Get one workspace. */
+  getWorkspace(name: string): Promise<WorkspaceEntry> {
+    return this.requestJson<WorkspaceEntry>('GET', `/workspaces/${encodeURIComponent(name)}`);
+  }
+
+  /** Delete a workspace. Its sessions keep running. */
+  deleteWorkspace(name: string): Promise<OkResponse> {
+    return this.requestJson<OkResponse>('DELETE', `/workspaces/${encodeURIComponent(name)}`);
+  }
+
+  /** Add sessions to a workspace. */
+  addWorkspaceSessions(name: string, body: WorkspaceSessionsRequest): Promise<{ added: string[] }> {
+    return this.requestJson<{ added: string[] }>('POST', `/workspaces/${encodeURIComponent(name)}/sessions`, { body });
+  }
+
+  /** Remove a session from a workspace. */
+  removeWorkspaceSession(name: string, session: string): Promise<{ removed: string[] }> {
+    return this.requestJson<{ removed: string[] }>('DELETE', `/workspaces/${encodeURIComponent(name)}/sessions/${encodeURIComponent(session)}`);
+  }
+
+  /** Set or clear the shared budget of a workspace. */
+  setWorkspaceBudget(name: string, body: SetBudgetRequest = {}): Promise<WorkspaceEntry> {
+    return this.requestJson<WorkspaceEntry>('PUT', `/workspaces/${encodeURIComponent(name)}/budget`, { body });
+  }
+
+  /** List templates. */
+  listTemplates(): Promise<TemplateEntry[]> {
+    return this.requestJson<TemplateEntry[]>('GET', '/templates');
+  }
+
+  /** Create a template. */
+  createTemplate(body: CreateTemplateRequest): Promise<TemplateEntry> {
+    return this.requestJson<TemplateEntry>('POST', '/templates', { body });
+  }
+
+  /** Get one template. */
+  getTemplate(name: string): Promise<TemplateEntry> {
+    return this.requestJson<TemplateEntry>('GET', `/templates/${encodeURIComponent(name)}`);
+  }
+
+  /** Delete a template. */
+  deleteTemplate(name: string): Promise<OkResponse> {
+    return this.requestJson<OkResponse>('DELETE', `/templates/${encodeURIComponent(name)}`);
+  }
+
+  /** Token usage and cost from the usage ledger. */
+  getUsage(query: { by?: 'session' | 'tag' | 'workspace' | 'day'; session?: string; since?: string; until?: string } = {}): Promise<UsageReport> {
+    return this.requestJson<UsageReport>('GET', '/usage', { query });
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiClient } from './api-client.generated.js';
+import { generateApiClient } from './client-generator.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { ApiRequestError } from '../utils/errors.js';
+
+const fetchMock = vi.fn();
+vi.stubGlobal('fetch', fetchMock);
+
+function mockResponse(status: number, body: unknown): void {
+  fetchMock.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `HTTP ${status}`,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(String(body)),
+  });
+}
+
+describe('api-client.generated.ts', () => {
+  it('is up to date with the OpenAPI document', async () => {
+    // Run `npm run generate:api-client` to rewrite it after changing openapi.ts
+    await expect(generateApiClient(buildOpenApiDocument())).toMatchFileSnapshot('./api-client.generated.ts');
+  });
+});
+
+describe('ApiClient', () => {
+  const BASE_URL = 'http://localhost:7007/api/v1';
+  let client: ApiClient;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    client = new ApiClient({ baseUrl: BASE_URL, token: 'ast_secret' });
+  });
+
+  it('encodes path params and repeats array query params', async () => {
+    mockResponse(200, []);
+    mockResponse(200, { removed: ['a b'] });
+
+    await client.listSessions({ tag: ['backend', 'urgent'] });
+    await client.removeWorkspaceSession('my ws', 'a b');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(1, `${BASE_URL}/sessions?tag=backend&tag=urgent`, {
+      headers: { Authorization: 'Bearer ast_secret' },
+    });
+    expect(fetchMock).toHaveBeenNthCalledWith(2, `${BASE_URL}/workspaces/my%20ws/sessions/a%20b`, {
+      method: 'DELETE',
+      headers: { Authorization: 'Bearer ast_secret' },
+    });
+  });
+
+  it('sends request bodies as JSON', async () => {
+    mockResponse(200, [{ sessionName: 'alpha', status: 'fulfilled', response: 'ok' }]);
+
+    const results = await client.broadcast({ prompt: 'hi', workspace: 'api' });
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(fetchMock).toHaveBeenCalledWith(`${BASE_URL}/broadcast`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer ast_secret' },
+      body: JSON.stringify({ prompt: 'hi', workspace: 'api' }),
+    });
+  });
+
+  it('returns text exports as strings', async () => {
+    mockResponse(200, '# Session: alpha');
+
+    expect(await client.exportSession('alpha', { format: 'markdown' })).toBe('# Session: alpha');
+    expect(fetchMock.mock.calls[0][0]).toBe(`${BASE_URL}/sessions/alpha/export?format=markdown`);
+  });
+
+  it('throws ApiRequestError with the status and code of an error body', async () => {
+    mockResponse(404, { error: 'Session not found: ghost', code: 'SESSION_NOT_FOUND' });
+
+    const err = await client.getSession('ghost').catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ApiRequestError);
+    expect(err).toMatchObject({ status: 404, errorCode: 'SESSION_NOT_FOUND', message: 'Session not found: ghost' });
+  });
+
+  it('falls back to the status text when the error body is not JSON', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 502,
+      statusText: 'Bad Gateway',
+      json: () => Promise.reject(new SyntaxError('Unexpected token')),
+    });
+
+    await expect(client.listTemplates()).rejects.toThrow('Bad Gateway');
+  });
+
+  it('yields NDJSON frames from a streamed prompt', async () => {
+    const encoder = new TextEncoder();
+    const text = [
+      { type: 'start', sessionName: 'alpha', prompt: 'hi' },
+      { type: 'chunk', chunk: 'Hel' },
+      { type: 'complete', response: 'Hello' },
+    ].map((frame) => JSON.stringify(frame) + '\n').join('');
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(text.slice(0, 20)));
+          controller.enqueue(encoder.encode(text.slice(20)));
+          controller.close();
+        },
+      }),
+    });
+
+    const frames = [];
+    for await (const frame of client.sendPromptStream('alpha', { prompt: 'hi' })) frames.push(frame.type);
+
+    expect(frames).toEqual(['start', 'chunk', 'complete']);
+    expect(fetchMock).toHaveBeenCalledWith(`${BASE_URL}/sessions/alpha/prompt`, expect.objectContaining({
+      headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson', Authorization: 'Bearer ast_secret' },
+    }));
+  });
+});
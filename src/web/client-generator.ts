@@ -0,0 +1,165 @@
+import { JsonSchema, refName } from './json-schema.js';
+import type { OpenApiDocument, OpenApiOperation } from './openapi.js';
+
+/**
+ * Generates api-client.generated.ts from the OpenAPI document: one type per
+ * component schema and an ApiClient with one method per operation.
+ *
+ * The checked-in output is compared against a fresh run by
+ * api-client.test.ts; `npm run generate:api-client` rewrites it.
+ */
+
+const HEADER = `// Generated from the OpenAPI document in src/web/openapi.ts by
+// src/web/client-generator.ts. Do not edit by hand; run
+// \`npm run generate:api-client\` after changing the API.
+`;
+
+/** Content type whose frames get a `<operationId>Stream` method. */
+const STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+function docComment(text: string | undefined, indent: string): string {
+  return text ? `${indent}/** ${text} */\n` : '';
+}
+
+function literal(value: string | number | boolean | null): string {
+  return typeof value === 'string' ? `'${value.replace(/[\\']/g, '\\$&')}'` : String(value);
+}
+
+/** TypeScript type for a schema, inline. */
+export function schemaToType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return schema.anyOf.map((option) => schemaToType(option, indent)).join(' | ');
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => schemaToType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? schemaToType(schema.items, indent) : 'unknown';
+      return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+      if (schema.properties) return objectType(schema, indent);
+      if (typeof schema.additionalProperties === 'object') {
+        return `Record<string, ${schemaToType(schema.additionalProperties, indent)}>`;
+      }
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function objectMembers(schema: JsonSchema, indent: string): string {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {})
+    .map(([key, property]) => {
+      const optional = required.has(key) ? '' : '?';
+      return `${docComment(property.description, indent)}${indent}${key}${optional}: ${schemaToType(property, indent)};\n`;
+    })
+    .join('');
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const inner = indent + '  ';
+  const members = Object.entries(schema.properties ?? {});
+  // Short objects without docs stay on one line
+  if (members.length <= 3 && members.every(([, property]) => !property.description)) {
+    const required = new Set(schema.required ?? []);
+    const fields = members.map(([key, property]) => `${key}${required.has(key) ? '' : '?'}: ${schemaToType(property, inner)}`);
+    return `{ ${fields.join('; ')} }`;
+  }
+  return `{\n${objectMembers(schema, inner)}${indent}}`;
+}
+
+function componentType(name: string, schema: JsonSchema): string {
+  const doc = docComment(schema.description, '');
+  if (schema.type === 'object' && schema.properties) {
+    return `${doc}export interface ${name} {\n${objectMembers(schema, '  ')}}\n`;
+  }
+  if (schema.anyOf && schema.anyOf.length > 1) {
+    return `${doc}export type ${name} =\n${schema.anyOf.map((option) => `  | ${schemaToType(option, '  ')}`).join('\n')};\n`;
+  }
+  return `${doc}export type ${name} = ${schemaToType(schema)};\n`;
+}
+
+/** JSON schema of the success response per content type. */
+function successContent(operation: OpenApiOperation): Record<string, JsonSchema> {
+  const status = Object.keys(operation.responses).find((code) => code.startsWith('2'));
+  const content = status ? operation.responses[status].content ?? {} : {};
+  return Object.fromEntries(Object.entries(content).map(([type, media]) => [type, media.schema]));
+}
+
+function clientMethods(path: string, method: string, operation: OpenApiOperation): string {
+  const pathParams = (operation.parameters ?? []).filter((param) => param.in === 'path');
+  const queryParams = (operation.parameters ?? []).filter((param) => param.in === 'query');
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+
+  const args = pathParams.map((param) => `${param.name}: string`);
+  const options: string[] = [];
+  if (bodySchema) {
+    const type = schemaToType(bodySchema, '  ');
+    args.push(operation.requestBody!.required ? `body: ${type}` : `body: ${type} = {}`);
+    options.push('body');
+  }
+  if (queryParams.length > 0) {
+    const fields = queryParams.map((param) => `${param.name}?: ${schemaToType(param.schema, '  ')}`);
+    args.push(`query: { ${fields.join('; ')} } = {}`);
+    options.push('query');
+  }
+
+  const url = path.includes('{')
+    ? '`' + path.replace(/\{(\w+)\}/g, (_, name: string) => '${encodeURIComponent(' + name + ')}') + '`'
+    : literal(path);
+  const call = (fn: string, type?: string): string =>
+    `this.${fn}${type ? `<${type}>` : ''}('${method.toUpperCase()}', ${url}${options.length > 0 ? `, { ${options.join(', ')} }` : ''})`;
+
+  const content = successContent(operation);
+  const textual = Object.keys(content).some((type) => type.startsWith('text/') && type !== 'text/event-stream');
+  const id = operation.operationId;
+  const signature = args.join(', ');
+
+  let out = docComment(operation.summary, '  ');
+  if (textual) {
+    out += `  ${id}(${signature}): Promise<string> {\n    return ${call('requestText')};\n  }\n`;
+  } else {
+    const type = content['application/json'] ? schemaToType(content['application/json'], '  ') : 'void';
+    out += `  ${id}(${signature}): Promise<${type}> {\n    return ${call('requestJson', type)};\n  }\n`;
+  }
+
+  if (content[STREAM_CONTENT_TYPE]) {
+    const frame = schemaToType(content[STREAM_CONTENT_TYPE], '  ');
+    out += `\n  /** Like ${id}, but yields the streamed ${STREAM_CONTENT_TYPE} frames as they arrive. */\n`;
+    out += `  ${id}Stream(${signature}): AsyncGenerator<${frame}> {\n    return ${call('requestStream', frame)};\n  }\n`;
+  }
+  return out;
+}
+
+/** Source of api-client.generated.ts for an OpenAPI document. */
+export function generateApiClient(document: OpenApiDocument): string {
+  const types = Object.entries(document.components.schemas).map(([name, schema]) => componentType(name, schema));
+
+  const methods: string[] = [];
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      methods.push(clientMethods(path, method, operation));
+    }
+  }
+
+  return [
+    HEADER,
+    `import { ApiClientBase } from './api-client-base.js';\n`,
+    `export type { ApiClientOptions } from './api-client-base.js';\n`,
+    ...types,
+    `/**\n * Typed client for the ${document.info.title} (${document.info.version}).\n * Pass the server origin plus ${document.servers[0].url} as \`baseUrl\`.\n */\nexport class ApiClient extends ApiClientBase {\n${methods.join('\n')}}\n`,
+  ].join('\n');
+}
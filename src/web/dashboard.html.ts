@@ -45,6 +45,19 @@ export function getDashboardHTML(port: number): string {
     .ws-status.connected { background: #0d4429; color: #3fb950; }
     .ws-status.disconnected { background: #2d1b1b; color: #f85149; }
 
+    .btn-token {
+      margin-left: auto;
+      background: #21262d;
+      color: #8b949e;
+      border: 1px solid #30363d;
+      border-radius: 6px;
+      padding: 2px 10px;
+      font-size: 11px;
+      cursor: pointer;
+    }
+
+    .btn-token:hover { color: #f0f6fc; }
+
     .main {
       display: flex;
       flex: 1;
@@ -131,6 +144,12 @@ export function getDashboardHTML(port: number): string {
       color: #6e7681;
     }
 
+    .queue-badge {
+      font-size: 10px;
+      color: #d29922;
+      white-space: nowrap;
+    }
+
     .btn-stop {
       background: transparent;
       border: 1px solid #6e7681;
@@ -191,6 +210,8 @@ export function getDashboardHTML(port: number): string {
 
     .output-area .chunk-output { color: #c9d1d9; }
     .output-area .chunk-prompt { color: #58a6ff; font-weight: 600; }
+    .output-area .chunk-tool { color: #8b949e; font-style: italic; }
+    .output-area .chunk-tool.error { color: #f85149; }
     .output-area .chunk-divider {
       color: #30363d;
       margin: 8px 0;
@@ -337,6 +358,7 @@ export function getDashboardHTML(port: number): string {
   <header>
     <h1>AgentSpawn</h1>
     <span class="ws-status disconnected" id="ws-status">disconnected</span>
+    <button class="btn-token" id="btn-token">Token</button>
   </header>
 
   <div class="main">
@@ -403,10 +425,60 @@ export function getDashboardHTML(port: number): string {
     let outputBuffers = {};      // name -> [{type,text}]
     let pendingSend = false;
 
+    // ── Auth ──────────────────────────────────────────────────────────────────
+
+    const TOKEN_KEY = 'agentspawn.token';
+
+    function getToken() {
+      return localStorage.getItem(TOKEN_KEY) || '';
+    }
+
+    function askForToken(reason) {
+      const token = window.prompt(
+        (reason ? reason + '\\n\\n' : '') +
+        'API token (create one with: agentspawn web token create <name>)',
+        getToken(),
+      );
+      if (token === null) return false;
+      if (token.trim()) localStorage.setItem(TOKEN_KEY, token.trim());
+      else localStorage.removeItem(TOKEN_KEY);
+      return true;
+    }
+
+    // fetch() with the stored bearer token. On 401, ask for a token once and retry.
+    async function api(path, options = {}, retried = false) {
+      const token = getToken();
+      const headers = { ...(options.headers || {}) };
+      if (token) headers['Authorization'] = 'Bearer ' + token;
+      const res = await fetch(API + path, { ...options, headers });
+      if (res.status === 401 && !retried && askForToken('Authentication required.')) {
+        if (ws) ws.close();
+        return api(path, options, true);
+      }
+      return res;
+    }
+
+    // JSON request against /api/v1. Resolves with the parsed body and
+    // rejects with the server's { error } message on failure.
+    async function request(method, path, body) {
+      const options = { method };
+      if (body !== undefined) {
+        options.headers = { 'Content-Type': 'application/json' };
+        options.body = JSON.stringify(body);
+      }
+      const res = await api('/api/v1' + path, options);
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || res.statusText);
+      }
+      return res.json();
+    }
+
     // ── WebSocket ─────────────────────────────────────────────────────────────
 
     function connectWS() {
-      const url = 'ws://' + location.host + '/ws';
+      const token = getToken();
+      const url = 'ws://' + location.host + '/ws' + (token ? '?token=' + encodeURIComponent(token) : '');
       ws = new WebSocket(url);
 
       ws.onopen = () => {
@@ -464,6 +536,12 @@ export function getDashboardHTML(port: number): string {
         if (!outputBuffers[sessionName]) outputBuffers[sessionName] = [];
         outputBuffers[sessionName].push({ type: 'output', text: chunk });
         if (selectedSession === sessionName) appendOutputChunk(chunk);
+      } else if (msg.type === 'providerEvent') {
+        const { sessionName, event, summary } = msg.data;
+        const isError = event.type === 'error' || (event.type === 'tool_result' && event.isError);
+        if (!outputBuffers[sessionName]) outputBuffers[sessionName] = [];
+        outputBuffers[sessionName].push({ type: 'tool', text: summary, isError });
+        if (selectedSession === sessionName) appendToolLine(summary, isError);
       } else if (msg.type === 'promptStart') {
         const { sessionName, prompt } = msg.data;
         if (!outputBuffers[sessionName]) outputBuffers[sessionName] = [];
@@ -475,36 +553,31 @@ export function getDashboardHTML(port: number): string {
     // ── REST helpers ──────────────────────────────────────────────────────────
 
     async function fetchSessions() {
-      const res = await fetch(API + '/api/sessions');
-      if (!res.ok) return;
-      const data = await res.json();
+      const data = await request('GET', '/sessions').catch(() => null);
+      if (!data) return;
       sessions = {};
       for (const s of data) sessions[s.name] = s;
       renderSessionList();
     }
 
     async function createSession(name, workingDirectory, permissionMode) {
-      const res = await fetch(API + '/api/sessions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, workingDirectory, permissionMode }),
-      });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-        alert('Failed to create session: ' + (err.error || res.statusText));
+      try {
+        await request('POST', '/sessions', { name, workingDirectory, permissionMode });
+      } catch (err) {
+        alert('Failed to create session: ' + err.message);
         return;
       }
       await fetchSessions();
     }
 
     async function stopSession(name) {
-      await fetch(API + '/api/sessions/' + encodeURIComponent(name), { method: 'DELETE' });
+      await request('DELETE', '/sessions/' + encodeURIComponent(name))
+        .catch((err) => alert('Failed to stop session: ' + err.message));
     }
 
     async function loadHistory(name) {
-      const res = await fetch(API + '/api/sessions/' + encodeURIComponent(name) + '/history');
-      if (!res.ok) return;
-      const entries = await res.json();
+      const entries = await request('GET', '/sessions/' + encodeURIComponent(name) + '/history').catch(() => null);
+      if (!entries) return;
       const area = document.getElementById('output-area');
       area.innerHTML = '';
       for (const entry of entries.slice().reverse()) {
@@ -528,6 +601,7 @@ export function getDashboardHTML(port: number): string {
       if (outputBuffers[name]) {
         for (const item of outputBuffers[name]) {
           if (item.type === 'prompt') appendPromptMarker(item.text);
+          else if (item.type === 'tool') appendToolLine(item.text, item.isError);
           else appendOutputChunk(item.text);
         }
       }
@@ -535,15 +609,8 @@ export function getDashboardHTML(port: number): string {
     }
 
     async function sendPrompt(name, prompt) {
-      const res = await fetch(API + '/api/sessions/' + encodeURIComponent(name) + '/prompt', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt }),
-      });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-        alert('Error: ' + (err.error || res.statusText));
-      }
+      await request('POST', '/sessions/' + encodeURIComponent(name) + '/prompt', { prompt })
+        .catch((err) => alert('Error: ' + err.message));
     }
 
     // ── Render helpers ────────────────────────────────────────────────────────
@@ -579,6 +646,12 @@ export function getDashboardHTML(port: number): string {
 
         item.appendChild(dot);
         item.appendChild(nameEl);
+        if (s.queueDepth > 0) {
+          const queueEl = document.createElement('span');
+          queueEl.className = 'queue-badge';
+          queueEl.textContent = '+' + s.queueDepth + ' queued';
+          item.appendChild(queueEl);
+        }
         item.appendChild(stopBtn);
 
         item.addEventListener('click', () => selectSession(name));
@@ -607,6 +680,15 @@ export function getDashboardHTML(port: number): string {
       area.scrollTop = area.scrollHeight;
     }
 
+    function appendToolLine(summary, isError) {
+      const area = document.getElementById('output-area');
+      const div = document.createElement('div');
+      div.className = 'chunk-tool' + (isError ? ' error' : '');
+      div.textContent = '▸ ' + summary;
+      area.appendChild(div);
+      area.scrollTop = area.scrollHeight;
+    }
+
     function appendPromptMarker(prompt) {
       const area = document.getElementById('output-area');
       const hr = document.createElement('hr');
@@ -635,6 +717,12 @@ export function getDashboardHTML(port: number): string {
 
     // ── Event handlers ────────────────────────────────────────────────────────
 
+    document.getElementById('btn-token').addEventListener('click', () => {
+      if (!askForToken('')) return;
+      fetchSessions();
+      if (ws) ws.close();
+    });
+
     document.getElementById('btn-new-session').addEventListener('click', () => {
       document.getElementById('new-name').value = '';
       document.getElementById('new-dir').value = '';
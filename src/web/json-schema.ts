@@ -0,0 +1,121 @@
+/**
+ * The subset of JSON Schema (as used by OpenAPI 3.1) that the API document
+ * is written in, and a validator for it.
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  /** `#/components/schemas/<Name>` */
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  format?: string;
+  enum?: ReadonlyArray<string | number | boolean | null>;
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+}
+
+const REF_PREFIX = '#/components/schemas/';
+
+/** Component name of a `$ref`. */
+export function refName(ref: string): string {
+  if (!ref.startsWith(REF_PREFIX)) {
+    throw new Error(`Unsupported $ref: ${ref}`);
+  }
+  return ref.slice(REF_PREFIX.length);
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Check `value` against `schema`. Returns one message per problem, each
+ * starting with the path of the offending value (e.g. `budget.maxTokens`);
+ * an empty array means the value is valid.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  components: Record<string, JsonSchema>,
+  path: string,
+): string[] {
+  const name = path || 'value';
+  if (schema.$ref) {
+    const target = components[refName(schema.$ref)];
+    if (!target) throw new Error(`Unknown schema: ${schema.$ref}`);
+    return validateSchema(target, value, components, path);
+  }
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((option) => validateSchema(option, value, components, path));
+    if (results.some((errors) => errors.length === 0)) return [];
+    // Report the closest option: the one with the fewest problems
+    return results.reduce((best, errors) => (errors.length < best.length ? errors : best));
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      const expected = types.map((type) => (type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`));
+      return [`${name} must be ${expected.join(' or ')}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    return [`${name} must be one of ${schema.enum.map((v) => String(v)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(schema.minLength === 1 ? `${name} must not be empty` : `${name} must be at least ${schema.minLength} characters`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${name} must be at least ${schema.minimum}`);
+  }
+  if (typeof value === 'number' && schema.exclusiveMinimum !== undefined && !(value > schema.exclusiveMinimum)) {
+    errors.push(schema.exclusiveMinimum === 0 ? `${name} must be positive` : `${name} must be greater than ${schema.exclusiveMinimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${name} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, components, `${path}[${i}]`)));
+    }
+  } else if (typeOf(value) === 'object') {
+    const fields = value as Record<string, unknown>;
+    const at = (key: string): string => (path ? `${path}.${key}` : key);
+    for (const key of schema.required ?? []) {
+      if (fields[key] === undefined) errors.push(`${at(key)} is required`);
+    }
+    for (const [key, field] of Object.entries(fields)) {
+      if (field === undefined) continue;
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateSchema(property, field, components, at(key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at(key)} is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, field, components, at(key)));
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,779 @@
+import { WebTokenScope } from '../types.js';
+import { JsonSchema } from './json-schema.js';
+
+/**
+ * The web API, described once. The server takes methods, paths, scopes and
+ * request schemas from here (see apiRoutes in routes.ts), /api/openapi.json
+ * serves the document built from it, and api-client.generated.ts is
+ * generated from that document.
+ */
+
+/** Prefix of the versioned API. Unversioned /api/... paths are aliases of v1. */
+export const API_V1_PREFIX = '/api/v1';
+
+/** Path of the OpenAPI document, outside the versioned prefix and public. */
+export const OPENAPI_DOCUMENT_PATH = '/api/openapi.json';
+
+export interface ApiParameter {
+  name: string;
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+}
+
+export interface ApiOperation {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** Path below the version prefix, with `:name` params. */
+  path: string;
+  /** Token scope needed when the server requires authentication. */
+  scope: WebTokenScope;
+  summary: string;
+  /** OpenAPI tag the operation is grouped under. */
+  tag: string;
+  query?: ApiParameter[];
+  /** Schema of the JSON request body; requests are validated against it. */
+  requestBody?: JsonSchema;
+  /** The body may be left out entirely (e.g. to clear a budget). */
+  requestBodyOptional?: boolean;
+  response: {
+    status: number;
+    description: string;
+    /** Schema per content type. */
+    content: Record<string, JsonSchema>;
+  };
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+}
+
+export interface OpenApiMediaTypes {
+  [contentType: string]: { schema: JsonSchema };
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  security: Array<Record<string, string[]>>;
+  'x-scope': WebTokenScope;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: OpenApiMediaTypes };
+  responses: Record<string, { description: string; content?: OpenApiMediaTypes }>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, unknown>;
+  };
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: JsonSchema): Record<string, JsonSchema> => ({ 'application/json': schema });
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+const positiveInteger: JsonSchema = { type: 'integer', exclusiveMinimum: 0 };
+const positiveNumber: JsonSchema = { type: 'number', exclusiveMinimum: 0 };
+
+export const API_SCHEMAS: Record<string, JsonSchema> = {
+  ErrorResponse: {
+    type: 'object',
+    description: 'Error body. `code` is the AgentSpawnError code and decides the status.',
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' },
+      cancelled: { type: 'boolean', description: 'Set when the prompt was cancelled.' },
+      budgetExceeded: { ...ref('BudgetLimitKind'), description: 'The limit that refused the prompt.' },
+    },
+    required: ['error', 'code'],
+  },
+  OkResponse: {
+    type: 'object',
+    properties: { ok: { type: 'boolean' } },
+    required: ['ok'],
+  },
+  SessionState: { type: 'string', enum: ['running', 'stopped', 'crashed'] },
+  SandboxBackend: { type: 'string', enum: ['docker', 'podman', 'bwrap', 'sandbox-exec'] },
+  SandboxLevel: { type: 'string', enum: ['permissive', 'standard', 'strict'] },
+  BudgetLimitKind: { type: 'string', enum: ['tokens', 'cost', 'promptsPerHour', 'wallClock'] },
+  BudgetLimits: {
+    type: 'object',
+    description: 'Guardrails on a session or workspace. Every limit is optional.',
+    properties: {
+      maxTokens: positiveInteger,
+      maxCostUsd: positiveNumber,
+      maxPromptsPerHour: positiveInteger,
+      maxWallClockMs: { ...positiveNumber, description: 'Wall-clock time since the session started.' },
+    },
+    additionalProperties: false,
+  },
+  FileTrigger: {
+    type: 'object',
+    description:
+      'Sends `prompt` when files matching `glob` change under the working directory. The prompt may use {{file}}, {{files}} and {{glob}}.',
+    properties: {
+      glob: { ...nonEmptyString, description: 'Relative to the working directory, e.g. `reports/*.xml`.' },
+      prompt: nonEmptyString,
+      debounceMs: { type: 'integer', minimum: 0 },
+      cooldownMs: { type: 'integer', minimum: 0 },
+    },
+    required: ['glob', 'prompt'],
+    additionalProperties: false,
+  },
+  BudgetUsage: {
+    type: 'object',
+    properties: {
+      tokens: { type: 'number' },
+      costUsd: { type: 'number' },
+      promptsLastHour: { type: 'number' },
+      wallClockMs: { type: 'number' },
+    },
+    required: ['tokens', 'costUsd', 'promptsLastHour', 'wallClockMs'],
+  },
+  BudgetStatus: {
+    type: 'object',
+    properties: {
+      scope: { type: 'string', enum: ['session', 'workspace'] },
+      scopeName: { type: 'string' },
+      limits: ref('BudgetLimits'),
+      used: ref('BudgetUsage'),
+      remaining: { type: 'object', additionalProperties: { type: 'number' } },
+      warnings: { type: 'array', items: ref('BudgetLimitKind') },
+      exceeded: { type: 'array', items: ref('BudgetLimitKind') },
+    },
+    required: ['scope', 'scopeName', 'limits', 'used', 'remaining', 'warnings', 'exceeded'],
+  },
+  RestartPolicy: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      maxRetries: { type: 'integer' },
+      initialBackoffMs: { type: 'number' },
+      maxBackoffMs: { type: 'number' },
+      retryableExitCodes: { type: 'array', items: { type: 'integer' } },
+      replayPrompt: { type: 'boolean' },
+    },
+    required: ['enabled', 'maxRetries'],
+  },
+  ResourceLimits: {
+    type: 'object',
+    description: 'Soft limits per prompt; crossing one emits a warning. Every limit is optional.',
+    properties: {
+      cpuPercent: { ...positiveNumber, description: 'Percent of one core.' },
+      memoryBytes: positiveInteger,
+      diskWriteBytes: positiveInteger,
+    },
+    additionalProperties: false,
+  },
+  ResourceGauge: {
+    type: 'object',
+    description: 'Latest reading of the prompt in progress.',
+    properties: {
+      cpuPercent: { type: 'number', description: 'Percent of one core since the previous sample.' },
+      memoryBytes: { type: 'integer' },
+      diskWriteBytes: { type: 'integer', description: 'Written since the prompt started.' },
+      sampledAt: { type: 'string', format: 'date-time' },
+    },
+    required: ['cpuPercent', 'memoryBytes', 'diskWriteBytes', 'sampledAt'],
+  },
+  ResourceTurnUsage: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'integer', description: '1-based number of the prompt in the session.' },
+      startedAt: { type: 'string', format: 'date-time' },
+      durationMs: { type: 'number' },
+      samples: { type: 'integer' },
+      cpuPercent: {
+        type: 'object',
+        properties: { peak: { type: 'number' }, avg: { type: 'number' } },
+        required: ['peak', 'avg'],
+      },
+      memoryBytes: {
+        type: 'object',
+        properties: { peak: { type: 'integer' }, avg: { type: 'integer' } },
+        required: ['peak', 'avg'],
+      },
+      diskWriteBytes: { type: 'integer' },
+      exceeded: { type: 'array', items: { type: 'string', enum: ['cpu', 'memory', 'disk'] } },
+    },
+    required: ['prompt', 'startedAt', 'durationMs', 'samples', 'cpuPercent', 'memoryBytes', 'diskWriteBytes', 'exceeded'],
+  },
+  SessionResourceMetrics: {
+    type: 'object',
+    properties: {
+      current: ref('ResourceGauge'),
+      turns: { type: 'array', items: ref('ResourceTurnUsage'), description: 'Recent prompts, oldest first.' },
+      limits: ref('ResourceLimits'),
+    },
+    required: ['turns'],
+  },
+  SessionInfo: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      pid: { type: 'integer' },
+      state: ref('SessionState'),
+      startedAt: { type: ['string', 'null'], format: 'date-time' },
+      workingDirectory: { type: 'string' },
+      exitCode: { type: ['integer', 'null'] },
+      promptCount: { type: 'integer', description: 'Number of prompts sent in this session.' },
+      permissionMode: { type: 'string' },
+      tags: stringArray,
+      remoteAlias: { type: 'string', description: 'Set on sessions proxied from a remote AgentSpawn instance.' },
+      sandboxed: { type: 'boolean' },
+      sandboxBackend: ref('SandboxBackend'),
+      sandboxLevel: ref('SandboxLevel'),
+      queueDepth: { type: 'integer', description: 'Prompts waiting behind the in-flight one.' },
+      budget: { type: 'array', items: ref('BudgetStatus'), description: 'Budget status per scope.' },
+      resources: ref('ResourceGauge'),
+    },
+    required: ['name', 'pid', 'state', 'startedAt', 'workingDirectory', 'promptCount'],
+  },
+  PromptHistoryEntry: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer' },
+      prompt: { type: 'string' },
+      responsePreview: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      cancelled: { type: 'boolean' },
+      failed: { type: 'boolean' },
+      transcriptId: { type: 'string' },
+      checkpointId: { type: 'integer' },
+    },
+    required: ['index', 'prompt', 'responsePreview', 'timestamp'],
+  },
+  BroadcastResult: {
+    type: 'object',
+    properties: {
+      sessionName: { type: 'string' },
+      status: { type: 'string', enum: ['fulfilled', 'rejected'] },
+      response: { type: 'string' },
+      error: { type: 'string' },
+    },
+    required: ['sessionName', 'status'],
+  },
+  TokenUsage: {
+    type: 'object',
+    properties: {
+      inputTokens: { type: 'integer' },
+      outputTokens: { type: 'integer' },
+      cacheCreationInputTokens: { type: 'integer' },
+      cacheReadInputTokens: { type: 'integer' },
+    },
+    required: ['inputTokens', 'outputTokens'],
+  },
+  SessionMetrics: {
+    type: 'object',
+    properties: {
+      promptCount: { type: 'integer' },
+      avgResponseTimeMs: { type: 'number' },
+      totalResponseChars: { type: 'integer' },
+      estimatedTokens: { type: 'integer' },
+      uptimeMs: { type: 'number' },
+      usage: ref('TokenUsage'),
+      costUsd: { type: 'number' },
+      resources: ref('SessionResourceMetrics'),
+    },
+    required: ['promptCount', 'avgResponseTimeMs', 'totalResponseChars', 'estimatedTokens', 'uptimeMs'],
+  },
+  SandboxDiff: {
+    type: 'object',
+    properties: {
+      sessionName: { type: 'string' },
+      sandboxBackend: { anyOf: [ref('SandboxBackend'), { type: 'null' }] },
+      changes: stringArray,
+    },
+    required: ['sessionName', 'sandboxBackend', 'changes'],
+  },
+  PromptStreamFrame: {
+    description: 'One frame of a streamed prompt response.',
+    anyOf: [
+      {
+        type: 'object',
+        properties: { type: { type: 'string', enum: ['start'] }, sessionName: { type: 'string' }, prompt: { type: 'string' } },
+        required: ['type', 'sessionName', 'prompt'],
+      },
+      {
+        type: 'object',
+        properties: { type: { type: 'string', enum: ['chunk'] }, chunk: { type: 'string' } },
+        required: ['type', 'chunk'],
+      },
+      {
+        type: 'object',
+        properties: { type: { type: 'string', enum: ['complete'] }, response: { type: 'string' } },
+        required: ['type', 'response'],
+      },
+      {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['error'] },
+          error: { type: 'string' },
+          status: { type: 'integer' },
+          cancelled: { type: 'boolean' },
+          budgetExceeded: ref('BudgetLimitKind'),
+        },
+        required: ['type', 'error', 'status'],
+      },
+    ],
+  },
+  WorkspaceEntry: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      sessionNames: stringArray,
+      createdAt: { type: 'string', format: 'date-time' },
+      budget: ref('BudgetLimits'),
+    },
+    required: ['name', 'sessionNames', 'createdAt'],
+  },
+  TemplateEntry: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      workingDirectory: { type: 'string' },
+      permissionMode: { type: 'string' },
+      systemPrompt: { type: 'string' },
+      env: { type: 'object', additionalProperties: { type: 'string' } },
+      restartPolicy: ref('RestartPolicy'),
+      createdAt: { type: 'string', format: 'date-time' },
+      sandboxLevel: ref('SandboxLevel'),
+      sandboxImage: { type: 'string' },
+      budget: ref('BudgetLimits'),
+      fileTriggers: { type: 'array', items: ref('FileTrigger') },
+    },
+    required: ['name', 'createdAt'],
+  },
+  UsageSummary: {
+    type: 'object',
+    properties: {
+      key: { type: 'string', description: 'A session, tag, workspace name or YYYY-MM-DD day.' },
+      turns: { type: 'integer' },
+      inputTokens: { type: 'integer' },
+      outputTokens: { type: 'integer' },
+      cacheCreationInputTokens: { type: 'integer' },
+      cacheReadInputTokens: { type: 'integer' },
+      costUsd: { type: 'number' },
+    },
+    required: ['key', 'turns', 'inputTokens', 'outputTokens', 'cacheCreationInputTokens', 'cacheReadInputTokens', 'costUsd'],
+  },
+  UsageReport: {
+    type: 'object',
+    properties: {
+      groupBy: { type: 'string', enum: ['session', 'tag', 'workspace', 'day'] },
+      rows: { type: 'array', items: ref('UsageSummary') },
+      total: ref('UsageSummary'),
+    },
+    required: ['groupBy', 'rows', 'total'],
+  },
+
+  // ── Request bodies ──────────────────────────────────────────────────────────
+  CreateSessionRequest: {
+    type: 'object',
+    description: 'Fields left out are taken from `template` when one is named.',
+    properties: {
+      name: nonEmptyString,
+      template: nonEmptyString,
+      workingDirectory: { type: 'string' },
+      permissionMode: { type: 'string' },
+      tags: stringArray,
+      budget: ref('BudgetLimits'),
+      fileTriggers: { type: 'array', items: ref('FileTrigger'), description: 'Added to the template\'s triggers.' },
+    },
+    required: ['name'],
+    additionalProperties: false,
+  },
+  PromptRequest: {
+    type: 'object',
+    properties: { prompt: nonEmptyString },
+    required: ['prompt'],
+    additionalProperties: false,
+  },
+  BroadcastRequest: {
+    type: 'object',
+    description: 'Sends to `sessions`, the running members of `workspace`, or every running session.',
+    properties: {
+      prompt: nonEmptyString,
+      sessions: { ...stringArray, minItems: 1 },
+      workspace: nonEmptyString,
+    },
+    required: ['prompt'],
+    additionalProperties: false,
+  },
+  CreateWorkspaceRequest: {
+    type: 'object',
+    properties: { name: nonEmptyString, sessions: stringArray },
+    required: ['name'],
+    additionalProperties: false,
+  },
+  WorkspaceSessionsRequest: {
+    type: 'object',
+    properties: { sessions: { ...stringArray, minItems: 1 } },
+    required: ['sessions'],
+    additionalProperties: false,
+  },
+  SetBudgetRequest: {
+    type: 'object',
+    description: 'A missing or null budget clears it.',
+    properties: { budget: { anyOf: [ref('BudgetLimits'), { type: 'null' }] } },
+    additionalProperties: false,
+  },
+  CreateTemplateRequest: {
+    type: 'object',
+    properties: {
+      name: nonEmptyString,
+      workingDirectory: { type: 'string' },
+      permissionMode: { type: 'string' },
+      systemPrompt: { type: 'string' },
+      env: { type: 'object', additionalProperties: { type: 'string' } },
+      budget: ref('BudgetLimits'),
+      fileTriggers: { type: 'array', items: ref('FileTrigger') },
+    },
+    required: ['name'],
+    additionalProperties: false,
+  },
+};
+
+export const API_OPERATIONS = {
+  // ── Sessions ────────────────────────────────────────────────────────────────
+  listSessions: {
+    method: 'GET',
+    path: '/sessions',
+    scope: 'read-only',
+    tag: 'sessions',
+    summary: 'List sessions, optionally only those carrying every given tag.',
+    query: [{ name: 'tag', schema: stringArray }],
+    response: { status: 200, description: 'The sessions', content: json({ type: 'array', items: ref('SessionInfo') }) },
+  },
+  createSession: {
+    method: 'POST',
+    path: '/sessions',
+    scope: 'admin',
+    tag: 'sessions',
+    summary: 'Start a session.',
+    requestBody: ref('CreateSessionRequest'),
+    response: { status: 201, description: 'The started session', content: json(ref('SessionInfo')) },
+  },
+  getSession: {
+    method: 'GET',
+    path: '/sessions/:name',
+    scope: 'read-only',
+    tag: 'sessions',
+    summary: 'Get one session.',
+    response: { status: 200, description: 'The session', content: json(ref('SessionInfo')) },
+  },
+  stopSession: {
+    method: 'DELETE',
+    path: '/sessions/:name',
+    scope: 'admin',
+    tag: 'sessions',
+    summary: 'Stop a session.',
+    response: { status: 200, description: 'The session was stopped', content: json(ref('OkResponse')) },
+  },
+  sendPrompt: {
+    method: 'POST',
+    path: '/sessions/:name/prompt',
+    scope: 'prompt',
+    tag: 'sessions',
+    summary: 'Send a prompt. With Accept: text/event-stream or application/x-ndjson the response streams start/chunk/complete/error frames.',
+    requestBody: ref('PromptRequest'),
+    response: {
+      status: 200,
+      description: 'The full response, or a stream of frames',
+      content: {
+        'application/json': {
+          type: 'object',
+          properties: { response: { type: 'string' } },
+          required: ['response'],
+        },
+        'application/x-ndjson': ref('PromptStreamFrame'),
+        'text/event-stream': ref('PromptStreamFrame'),
+      },
+    },
+  },
+  cancelPrompt: {
+    method: 'POST',
+    path: '/sessions/:name/cancel',
+    scope: 'prompt',
+    tag: 'sessions',
+    summary: 'Cancel the in-flight prompt of a session.',
+    response: {
+      status: 200,
+      description: 'Whether a prompt was running',
+      content: json({ type: 'object', properties: { cancelled: { type: 'boolean' } }, required: ['cancelled'] }),
+    },
+  },
+  getHistory: {
+    method: 'GET',
+    path: '/sessions/:name/history',
+    scope: 'read-only',
+    tag: 'sessions',
+    summary: 'Prompt history of a session, newest first.',
+    response: { status: 200, description: 'The history', content: json({ type: 'array', items: ref('PromptHistoryEntry') }) },
+  },
+  getMetrics: {
+    method: 'GET',
+    path: '/sessions/:name/metrics',
+    scope: 'read-only',
+    tag: 'sessions',
+    summary: 'Metrics of a running session.',
+    response: { status: 200, description: 'The metrics', content: json(ref('SessionMetrics')) },
+  },
+  exportSession: {
+    method: 'GET',
+    path: '/sessions/:name/export',
+    scope: 'read-only',
+    tag: 'sessions',
+    summary: 'Export the full history of a session.',
+    query: [{ name: 'format', schema: { type: 'string', enum: ['markdown', 'json', 'text'] } }],
+    response: {
+      status: 200,
+      description: 'The export in the requested format (markdown by default)',
+      content: {
+        'text/markdown': { type: 'string' },
+        'application/json': { type: 'object' },
+        'text/plain': { type: 'string' },
+      },
+    },
+  },
+  getSandboxDiff: {
+    method: 'GET',
+    path: '/sessions/:name/sandbox/diff',
+    scope: 'read-only',
+    tag: 'sessions',
+    summary: 'Files the session changed inside its sandbox.',
+    response: { status: 200, description: 'The changes', content: json(ref('SandboxDiff')) },
+  },
+
+  // ── Broadcast and tags ──────────────────────────────────────────────────────
+  broadcast: {
+    method: 'POST',
+    path: '/broadcast',
+    scope: 'prompt',
+    tag: 'sessions',
+    summary: 'Send one prompt to several sessions.',
+    requestBody: ref('BroadcastRequest'),
+    response: { status: 200, description: 'One result per session', content: json({ type: 'array', items: ref('BroadcastResult') }) },
+  },
+  stopByTag: {
+    method: 'POST',
+    path: '/tags/:tag/stop',
+    scope: 'admin',
+    tag: 'sessions',
+    summary: 'Stop every session carrying a tag.',
+    response: {
+      status: 200,
+      description: 'How many sessions were stopped',
+      content: json({
+        type: 'object',
+        properties: { tag: { type: 'string' }, stopped: { type: 'integer' } },
+        required: ['tag', 'stopped'],
+      }),
+    },
+  },
+
+  // ── Workspaces ──────────────────────────────────────────────────────────────
+  listWorkspaces: {
+    method: 'GET',
+    path: '/workspaces',
+    scope: 'read-only',
+    tag: 'workspaces',
+    summary: 'List workspaces.',
+    response: { status: 200, description: 'The workspaces', content: json({ type: 'array', items: ref('WorkspaceEntry') }) },
+  },
+  createWorkspace: {
+    method: 'POST',
+    path: '/workspaces',
+    scope: 'admin',
+    tag: 'workspaces',
+    summary: 'Create a workspace.',
+    requestBody: ref('CreateWorkspaceRequest'),
+    response: { status: 201, description: 'The created workspace', content: json(ref('WorkspaceEntry')) },
+  },
+  getWorkspace: {
+    method: 'GET',
+    path: '/workspaces/:name',
+    scope: 'read-only',
+    tag: 'workspaces',
+    summary: 'Get one workspace.',
+    response: { status: 200, description: 'The workspace', content: json(ref('WorkspaceEntry')) },
+  },
+  deleteWorkspace: {
+    method: 'DELETE',
+    path: '/workspaces/:name',
+    scope: 'admin',
+    tag: 'workspaces',
+    summary: 'Delete a workspace. Its sessions keep running.',
+    response: { status: 200, description: 'The workspace was deleted', content: json(ref('OkResponse')) },
+  },
+  addWorkspaceSessions: {
+    method: 'POST',
+    path: '/workspaces/:name/sessions',
+    scope: 'admin',
+    tag: 'workspaces',
+    summary: 'Add sessions to a workspace.',
+    requestBody: ref('WorkspaceSessionsRequest'),
+    response: {
+      status: 200,
+      description: 'The sessions that were not members yet',
+      content: json({ type: 'object', properties: { added: stringArray }, required: ['added'] }),
+    },
+  },
+  removeWorkspaceSession: {
+    method: 'DELETE',
+    path: '/workspaces/:name/sessions/:session',
+    scope: 'admin',
+    tag: 'workspaces',
+    summary: 'Remove a session from a workspace.',
+    response: {
+      status: 200,
+      description: 'The sessions that were removed',
+      content: json({ type: 'object', properties: { removed: stringArray }, required: ['removed'] }),
+    },
+  },
+  setWorkspaceBudget: {
+    method: 'PUT',
+    path: '/workspaces/:name/budget',
+    scope: 'admin',
+    tag: 'workspaces',
+    summary: 'Set or clear the shared budget of a workspace.',
+    requestBody: ref('SetBudgetRequest'),
+    requestBodyOptional: true,
+    response: { status: 200, description: 'The updated workspace', content: json(ref('WorkspaceEntry')) },
+  },
+
+  // ── Templates ───────────────────────────────────────────────────────────────
+  listTemplates: {
+    method: 'GET',
+    path: '/templates',
+    scope: 'read-only',
+    tag: 'templates',
+    summary: 'List templates.',
+    response: { status: 200, description: 'The templates', content: json({ type: 'array', items: ref('TemplateEntry') }) },
+  },
+  createTemplate: {
+    method: 'POST',
+    path: '/templates',
+    scope: 'admin',
+    tag: 'templates',
+    summary: 'Create a template.',
+    requestBody: ref('CreateTemplateRequest'),
+    response: { status: 201, description: 'The created template', content: json(ref('TemplateEntry')) },
+  },
+  getTemplate: {
+    method: 'GET',
+    path: '/templates/:name',
+    scope: 'read-only',
+    tag: 'templates',
+    summary: 'Get one template.',
+    response: { status: 200, description: 'The template', content: json(ref('TemplateEntry')) },
+  },
+  deleteTemplate: {
+    method: 'DELETE',
+    path: '/templates/:name',
+    scope: 'admin',
+    tag: 'templates',
+    summary: 'Delete a template.',
+    response: { status: 200, description: 'The template was deleted', content: json(ref('OkResponse')) },
+  },
+
+  // ── Usage ───────────────────────────────────────────────────────────────────
+  getUsage: {
+    method: 'GET',
+    path: '/usage',
+    scope: 'read-only',
+    tag: 'usage',
+    summary: 'Token usage and cost from the usage ledger.',
+    query: [
+      { name: 'by', schema: { type: 'string', enum: ['session', 'tag', 'workspace', 'day'] } },
+      { name: 'session', description: 'Only include one session.', schema: { type: 'string' } },
+      { name: 'since', description: 'An ISO date or a relative time like 7d or 12h.', schema: { type: 'string' } },
+      { name: 'until', description: 'An ISO date or a relative time like 7d or 12h.', schema: { type: 'string' } },
+    ],
+    response: { status: 200, description: 'The report', content: json(ref('UsageReport')) },
+  },
+} satisfies Record<string, ApiOperation>;
+
+export type ApiOperationId = keyof typeof API_OPERATIONS;
+
+/** Names of the `:name` segments of a route path. */
+export function pathParams(path: string): string[] {
+  return path.split('/').filter((part) => part.startsWith(':')).map((part) => part.slice(1));
+}
+
+/** OpenAPI 3.1 document for every operation in API_OPERATIONS. */
+export function buildOpenApiDocument(): OpenApiDocument {
+  const errorResponse = { description: 'Error', content: { 'application/json': { schema: ref('ErrorResponse') } } };
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const [operationId, operation] of Object.entries(API_OPERATIONS) as Array<[string, ApiOperation]>) {
+    const openApiPath = operation.path.replace(/:(\w+)/g, '{$1}');
+    const parameters: OpenApiParameter[] = [
+      ...pathParams(operation.path).map((name): OpenApiParameter => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+      ...(operation.query ?? []).map((param): OpenApiParameter => ({
+        name: param.name,
+        in: 'query',
+        ...(param.description ? { description: param.description } : {}),
+        ...(param.required ? { required: true } : {}),
+        schema: param.schema,
+      })),
+    ];
+
+    paths[openApiPath] ??= {};
+    paths[openApiPath][operation.method.toLowerCase()] = {
+      operationId,
+      summary: operation.summary,
+      tags: [operation.tag],
+      security: [{ bearerAuth: [operation.scope] }],
+      'x-scope': operation.scope,
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(operation.requestBody
+        ? {
+            requestBody: {
+              required: !operation.requestBodyOptional,
+              content: { 'application/json': { schema: operation.requestBody } },
+            },
+          }
+        : {}),
+      responses: {
+        [String(operation.response.status)]: {
+          description: operation.response.description,
+          content: Object.fromEntries(
+            Object.entries(operation.response.content).map(([type, schema]) => [type, { schema }]),
+          ),
+        },
+        default: errorResponse,
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AgentSpawn API',
+      version: '1.0.0',
+      description: `Served under ${API_V1_PREFIX}; unversioned /api/... paths are aliases of v1.`,
+    },
+    servers: [{ url: API_V1_PREFIX }],
+    paths,
+    components: {
+      schemas: API_SCHEMAS,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A token from `agentspawn web token create`. The required scope is in x-scope: read-only < prompt < admin.',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { apiPath, apiRoutes, errorResponse, matchRoute, statusForCode, validateRequest } from './routes.js';
+import type { ApiRoute } from './routes.js';
+import {
+  BudgetExceededError,
+  InvalidRequestError,
+  SessionNotFoundError,
+  TemplateAlreadyExistsError,
+  WorkspaceLockError,
+} from '../utils/errors.js';
+
+const noop: ApiRoute['handler'] = async () => undefined;
+
+describe('apiPath', () => {
+  it('strips the versioned and legacy prefixes', () => {
+    expect(apiPath('/api/v1/sessions')).toBe('/sessions');
+    expect(apiPath('/api/v1')).toBe('/');
+    expect(apiPath('/api/sessions/alpha')).toBe('/sessions/alpha');
+    expect(apiPath('/dashboard')).toBeNull();
+  });
+});
+
+describe('matchRoute', () => {
+  const routes: ApiRoute[] = [
+    { method: 'GET', path: '/sessions', scope: 'read-only', handler: noop },
+    { method: 'GET', path: '/sessions/:name', scope: 'read-only', handler: noop },
+    { method: 'DELETE', path: '/workspaces/:name/sessions/:session', scope: 'admin', handler: noop },
+  ];
+
+  it('matches on method and decodes params', () => {
+    const match = matchRoute(routes, 'GET', '/sessions/my%20session');
+    expect(match?.route.path).toBe('/sessions/:name');
+    expect(match?.params).toEqual({ name: 'my session' });
+
+    expect(matchRoute(routes, 'DELETE', '/workspaces/api/sessions/alpha')?.params).toEqual({
+      name: 'api',
+      session: 'alpha',
+    });
+  });
+
+  it('returns null for unknown paths and methods', () => {
+    expect(matchRoute(routes, 'POST', '/sessions/alpha')).toBeNull();
+    expect(matchRoute(routes, 'GET', '/sessions/alpha/extra')).toBeNull();
+  });
+});
+
+describe('error responses', () => {
+  it('derives the status from the error code', () => {
+    expect(statusForCode('INVALID_REQUEST')).toBe(400);
+    expect(statusForCode('WORKSPACE_NOT_FOUND')).toBe(404);
+    expect(statusForCode('TEMPLATE_ALREADY_EXISTS')).toBe(409);
+    expect(statusForCode('BUDGET_EXCEEDED')).toBe(429);
+    expect(statusForCode('WORKSPACE_LOCK_FAILED')).toBe(503);
+    expect(statusForCode('SPAWN_FAILED')).toBe(500);
+  });
+
+  it('builds { error, code } bodies', () => {
+    expect(errorResponse(new SessionNotFoundError('x'))).toEqual({
+      status: 404,
+      body: { error: 'Session not found: x', code: 'SESSION_NOT_FOUND' },
+    });
+    expect(errorResponse(new TemplateAlreadyExistsError('t')).status).toBe(409);
+    expect(errorResponse(new WorkspaceLockError('/tmp/w.json')).status).toBe(503);
+    expect(errorResponse(new BudgetExceededError('x', 'cost', 'session', 'x')).body).toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+      budgetExceeded: 'cost',
+    });
+    expect(errorResponse(new Error('boom'))).toEqual({
+      status: 500,
+      body: { error: 'boom', code: 'INTERNAL_ERROR' },
+    });
+  });
+});
+
+describe('validateRequest', () => {
+  const routes = apiRoutes(new Proxy({}, { get: () => noop }) as Parameters<typeof apiRoutes>[0]);
+  const createSession = matchRoute(routes, 'POST', '/sessions')!.route;
+  const exportSession = matchRoute(routes, 'GET', '/sessions/alpha/export')!.route;
+  const query = (qs = '') => new URLSearchParams(qs);
+
+  it('accepts bodies that match the operation schema', () => {
+    expect(() => validateRequest(createSession, query(), { name: 'a', budget: { maxCostUsd: 5 } })).not.toThrow();
+  });
+
+  it('lists every problem with the path of the offending field', () => {
+    expect(() => validateRequest(createSession, query(), { tags: ['a', 1], budget: { maxCost: 5, maxTokens: -1 } }))
+      .toThrow('name is required; tags[1] must be a string; budget.maxCost is not allowed; budget.maxTokens must be positive');
+    expect(() => validateRequest(createSession, query(), [])).toThrow(InvalidRequestError);
+  });
+
+  it('checks query parameters against their enums', () => {
+    expect(() => validateRequest(exportSession, query('format=json'), {})).not.toThrow();
+    expect(() => validateRequest(exportSession, query('format=pdf'), {})).toThrow('format must be one of markdown, json, text');
+  });
+});
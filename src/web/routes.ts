@@ -0,0 +1,170 @@
+import http from 'node:http';
+import { WebTokenScope } from '../types.js';
+import {
+  AgentSpawnError,
+  BudgetExceededError,
+  InvalidRequestError,
+  PromptCancelledError,
+} from '../utils/errors.js';
+import { validateSchema } from './json-schema.js';
+import { API_OPERATIONS, API_SCHEMAS, API_V1_PREFIX } from './openapi.js';
+import type { ApiOperation, ApiOperationId } from './openapi.js';
+
+export { API_V1_PREFIX };
+
+export interface ApiRequest {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  /** Decoded `:name` segments of the route path. */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  /** Parsed JSON body; an empty object for requests without one. */
+  body: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+  /** Defaults to application/json; other types send `body` as a string. */
+  contentType?: string;
+}
+
+/**
+ * A route handler returns the response to send, or nothing when it has
+ * written to `res` itself (streaming).
+ */
+export type ApiHandler = (request: ApiRequest) => Promise<ApiResponse | void>;
+
+export interface ApiRoute {
+  method: string;
+  /** Path below the version prefix, e.g. `/sessions/:name/prompt`. */
+  path: string;
+  /** Token scope needed when the server requires authentication. */
+  scope: WebTokenScope;
+  handler: ApiHandler;
+  /** The operation the route serves; its requests are validated against it. */
+  operation?: ApiOperation;
+}
+
+/** One route per API operation. Every operation must have a handler. */
+export function apiRoutes(handlers: Record<ApiOperationId, ApiHandler>): ApiRoute[] {
+  return (Object.entries(API_OPERATIONS) as Array<[ApiOperationId, ApiOperation]>).map(([id, operation]) => ({
+    method: operation.method,
+    path: operation.path,
+    scope: operation.scope,
+    handler: handlers[id],
+    operation,
+  }));
+}
+
+/**
+ * Check the query parameters and JSON body of a request against the
+ * route's operation. Throws InvalidRequestError listing every problem.
+ */
+export function validateRequest(route: ApiRoute, query: URLSearchParams, body: unknown): void {
+  const operation = route.operation;
+  if (!operation) return;
+
+  const errors: string[] = [];
+  for (const param of operation.query ?? []) {
+    if (param.schema.type === 'array') {
+      errors.push(...validateSchema(param.schema, query.getAll(param.name), API_SCHEMAS, param.name));
+      continue;
+    }
+    const value = query.get(param.name);
+    if (value === null) {
+      if (param.required) errors.push(`${param.name} is required`);
+      continue;
+    }
+    errors.push(...validateSchema(param.schema, value, API_SCHEMAS, param.name));
+  }
+
+  if (operation.requestBody) {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      errors.push('request body must be a JSON object');
+    } else {
+      errors.push(...validateSchema(operation.requestBody, body, API_SCHEMAS, ''));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new InvalidRequestError(errors.join('; '));
+  }
+}
+
+/**
+ * Strip the /api/v1 (or legacy /api) prefix. Returns null for paths
+ * outside the API.
+ */
+export function apiPath(pathname: string): string | null {
+  if (pathname === API_V1_PREFIX || pathname.startsWith(API_V1_PREFIX + '/')) {
+    return pathname.slice(API_V1_PREFIX.length) || '/';
+  }
+  if (pathname.startsWith('/api/')) {
+    return pathname.slice('/api'.length);
+  }
+  return null;
+}
+
+/** Find the route for a method and API path, with its decoded params. */
+export function matchRoute(
+  routes: ApiRoute[],
+  method: string,
+  path: string,
+): { route: ApiRoute; params: Record<string, string> } | null {
+  const segments = path.split('/').filter(Boolean);
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const pattern = route.path.split('/').filter(Boolean);
+    if (pattern.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matched = pattern.every((part, i) => {
+      if (part.startsWith(':')) {
+        params[part.slice(1)] = decodeURIComponent(segments[i]);
+        return true;
+      }
+      return part === segments[i];
+    });
+    if (matched) return { route, params };
+  }
+  return null;
+}
+
+const STATUS_BY_CODE: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_CONFIG: 400,
+  FILE_TRIGGER_INVALID: 400,
+  SESSION_EXISTS: 409,
+  PROMPT_CANCELLED: 409,
+  PROMPT_DROPPED: 409,
+  BUDGET_EXCEEDED: 429,
+  SANDBOX_NOT_AVAILABLE: 503,
+  PROMPT_TIMEOUT: 504,
+};
+
+/** HTTP status for an AgentSpawnError code. */
+export function statusForCode(code: string): number {
+  if (STATUS_BY_CODE[code] !== undefined) return STATUS_BY_CODE[code];
+  if (code.endsWith('_NOT_FOUND')) return 404;
+  if (code.endsWith('_ALREADY_EXISTS')) return 409;
+  if (code.endsWith('_LOCK_FAILED')) return 503;
+  return 500;
+}
+
+/**
+ * Error response with a body of `{ error, code }`, where `code` is the
+ * AgentSpawnError code (INTERNAL_ERROR for anything else).
+ */
+export function errorResponse(err: unknown): ApiResponse {
+  if (!(err instanceof AgentSpawnError)) {
+    return {
+      status: 500,
+      body: { error: err instanceof Error ? err.message : String(err), code: 'INTERNAL_ERROR' },
+    };
+  }
+  const body: Record<string, unknown> = { error: err.message, code: err.code };
+  if (err instanceof PromptCancelledError) body.cancelled = true;
+  if (err instanceof BudgetExceededError) body.budgetExceeded = err.limit;
+  return { status: statusForCode(err.code), body };
+}
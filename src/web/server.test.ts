@@ -2,9 +2,18 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import http from 'node:http';
 import { EventEmitter } from 'node:events';
 import { WebServer } from './server.js';
+import { API_OPERATIONS } from './openapi.js';
+import type { OpenApiDocument } from './openapi.js';
 import { SessionState } from '../types.js';
-import type { SessionInfo } from '../types.js';
+import type { SendPromptOptions, SessionInfo } from '../types.js';
 import type { SessionManager } from '../core/manager.js';
+import type { WebTokenStore } from '../core/web-tokens.js';
+import {
+  BudgetExceededError,
+  SessionNotFoundError,
+  TemplateNotFoundError,
+  WorkspaceNotFoundError,
+} from '../utils/errors.js';
 
 // ── Minimal mock session ───────────────────────────────────────────────────
 
@@ -30,6 +39,7 @@ function makeMockManager(sessions: SessionInfo[] = []): SessionManager {
   const mockSession = {
     on: vi.fn(),
     sendPrompt: vi.fn().mockResolvedValue('mock response'),
+    cancelPrompt: vi.fn().mockReturnValue(true),
     getInfo: vi.fn(),
   };
 
@@ -54,7 +64,8 @@ function httpRequest(
   method: string,
   path: string,
   body?: unknown,
-): Promise<{ status: number; body: unknown }> {
+  headers: Record<string, string> = {},
+): Promise<{ status: number; body: unknown; headers: http.IncomingHttpHeaders }> {
   return new Promise((resolve, reject) => {
     const payload = body ? JSON.stringify(body) : undefined;
     const req = http.request(
@@ -68,6 +79,7 @@ function httpRequest(
         headers: {
           'Content-Type': 'application/json',
           ...(payload ? { 'Content-Length': Buffer.byteLength(payload) } : {}),
+          ...headers,
         },
       },
       (res) => {
@@ -76,9 +88,9 @@ function httpRequest(
         res.on('end', () => {
           try {
             const text = Buffer.concat(chunks).toString();
-            resolve({ status: res.statusCode ?? 0, body: JSON.parse(text) });
+            resolve({ status: res.statusCode ?? 0, body: JSON.parse(text), headers: res.headers });
           } catch {
-            resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString() });
+            resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString(), headers: res.headers });
           }
         });
       },
@@ -164,9 +176,10 @@ describe('WebServer', () => {
   });
 
   it('DELETE /api/sessions/:name returns 404 when session not found', async () => {
-    vi.mocked(manager.stopSession).mockRejectedValueOnce(new Error("Session 'missing' not found"));
+    vi.mocked(manager.stopSession).mockRejectedValueOnce(new SessionNotFoundError('missing'));
     const res = await httpRequest(PORT, 'DELETE', '/api/sessions/missing');
     expect(res.status).toBe(404);
+    expect(res.body).toEqual({ error: 'Session not found: missing', code: 'SESSION_NOT_FOUND' });
   });
 
   // ── POST /api/sessions/:name/prompt ─────────────────────────────────────
@@ -190,6 +203,64 @@ describe('WebServer', () => {
     expect(res.status).toBe(400);
   });
 
+  // ── POST /api/sessions/:name/cancel ─────────────────────────────────────
+
+  it('POST /api/sessions/:name/prompt streams NDJSON frames when asked', async () => {
+    const session = Object.assign(new EventEmitter(), {
+      sendPrompt: vi.fn(async (_prompt: string, options?: SendPromptOptions) => {
+        // Output of a prompt queued ahead of this one is not streamed
+        session.emit('data', 'earlier');
+        options?.onData?.('Hel');
+        options?.onData?.('lo');
+        return 'Hello';
+      }),
+    });
+    vi.mocked(manager.getSession).mockReturnValue(session as never);
+
+    const res = await httpRequest(PORT, 'POST', '/api/sessions/alpha/prompt', { prompt: 'Hi' }, {
+      Accept: 'application/x-ndjson',
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/x-ndjson');
+    const frames = (res.body as string).trim().split('\n').map((l) => JSON.parse(l));
+    expect(frames).toEqual([
+      { type: 'start', sessionName: 'alpha', prompt: 'Hi' },
+      { type: 'chunk', chunk: 'Hel' },
+      { type: 'chunk', chunk: 'lo' },
+      { type: 'complete', response: 'Hello' },
+    ]);
+  });
+
+  it('POST /api/sessions/:name/prompt streams SSE events with an error frame on failure', async () => {
+    const session = Object.assign(new EventEmitter(), {
+      sendPrompt: vi.fn().mockRejectedValue(new BudgetExceededError('alpha', 'cost', 'session', 'alpha')),
+    });
+    vi.mocked(manager.getSession).mockReturnValue(session as never);
+
+    const res = await httpRequest(PORT, 'POST', '/api/sessions/alpha/prompt', { prompt: 'Hi' }, {
+      Accept: 'text/event-stream',
+    });
+
+    expect(res.headers['content-type']).toBe('text/event-stream');
+    const events = (res.body as string).trim().split('\n\n');
+    expect(events[0]).toMatch(/^event: start\ndata: /);
+    expect(events[1]).toMatch(/^event: error\ndata: /);
+    expect(JSON.parse(events[1].split('data: ')[1])).toMatchObject({ type: 'error', status: 429, budgetExceeded: 'cost' });
+  });
+
+  it('POST /api/sessions/:name/cancel cancels the in-flight prompt', async () => {
+    const res = await httpRequest(PORT, 'POST', '/api/sessions/alpha/cancel');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ cancelled: true });
+  });
+
+  it('POST /api/sessions/:name/cancel returns 404 when session not in memory', async () => {
+    vi.mocked(manager.getSession).mockReturnValueOnce(undefined);
+    const res = await httpRequest(PORT, 'POST', '/api/sessions/ghost/cancel');
+    expect(res.status).toBe(404);
+  });
+
   // ── GET /api/sessions/:name/history ─────────────────────────────────────
 
   it('GET /api/sessions/:name/history returns empty array when no historyStore', async () => {
@@ -222,6 +293,51 @@ describe('WebServer', () => {
     }
   });
 
+  // ── GET /api/usage ───────────────────────────────────────────────────────
+
+  it('GET /api/usage returns an empty report when no usageStore', async () => {
+    const res = await httpRequest(PORT, 'GET', '/api/usage');
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ groupBy: 'session', rows: [], total: { turns: 0 } });
+  });
+
+  it('GET /api/usage rejects unknown groupings and bad dates', async () => {
+    expect((await httpRequest(PORT, 'GET', '/api/usage?by=model')).status).toBe(400);
+    expect((await httpRequest(PORT, 'GET', '/api/usage?since=yesterday-ish')).status).toBe(400);
+  });
+
+  it('GET /api/usage rolls up ledger records with the query filters', async () => {
+    const usageStore = {
+      query: vi.fn().mockResolvedValue([
+        { sessionName: 'alpha', timestamp: '2026-03-01T09:00:00.000Z', tags: ['api'], inputTokens: 10, outputTokens: 5, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0.1 },
+        { sessionName: 'beta', timestamp: '2026-03-01T10:00:00.000Z', inputTokens: 20, outputTokens: 5, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0.2 },
+      ]),
+    };
+
+    const srv2 = new WebServer(
+      manager,
+      PORT + 1,
+      undefined,
+      usageStore as unknown as import('../core/usage.js').UsageStore,
+    );
+    await srv2.start();
+
+    try {
+      const res = await httpRequest(PORT + 1, 'GET', '/api/usage?by=tag&since=2026-03-01');
+      expect(res.status).toBe(200);
+      const body = res.body as { groupBy: string; rows: Array<{ key: string }>; total: { turns: number } };
+      expect(body.groupBy).toBe('tag');
+      expect(body.rows.map((r) => r.key)).toEqual(['(none)', 'api']);
+      expect(body.total.turns).toBe(2);
+      expect(usageStore.query).toHaveBeenCalledWith({
+        sessionName: undefined,
+        since: new Date('2026-03-01'),
+      });
+    } finally {
+      await srv2.stop();
+    }
+  });
+
   // ── 404 fallthrough ──────────────────────────────────────────────────────
 
   it('unknown routes return 404', async () => {
@@ -277,3 +393,294 @@ describe('WebServer', () => {
     expect((received as { data: { name: string } }).data.name).toBe('alpha');
   });
 });
+
+// ── Authentication ─────────────────────────────────────────────────────────
+
+describe('WebServer with a token store', () => {
+  let server: WebServer;
+  let manager: SessionManager;
+  const PORT = 17831;
+  const TOKENS = {
+    'ast_reader': { id: 'r1', name: 'reader', scope: 'read-only' },
+    'ast_prompter': { id: 'p1', name: 'prompter', scope: 'prompt' },
+    'ast_admin': { id: 'a1', name: 'admin', scope: 'admin' },
+  } as const;
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  beforeEach(async () => {
+    manager = makeMockManager([makeSession('alpha')]);
+    const tokenStore = {
+      verify: vi.fn(async (token: string) => TOKENS[token as keyof typeof TOKENS] ?? null),
+    };
+    server = new WebServer(manager, PORT, undefined, undefined, undefined, tokenStore as unknown as WebTokenStore);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.clearAllMocks();
+  });
+
+  it('still serves the dashboard without a token', async () => {
+    const status = await new Promise<number>((resolve, reject) => {
+      http.get(`http://127.0.0.1:${PORT}/`, (r) => {
+        r.resume();
+        resolve(r.statusCode ?? 0);
+      }).on('error', reject);
+    });
+    expect(status).toBe(200);
+  });
+
+  it('serves the OpenAPI document without a token', async () => {
+    expect((await httpRequest(PORT, 'GET', '/api/openapi.json')).status).toBe(200);
+    expect((await httpRequest(PORT, 'GET', '/api/v1/openapi.json')).status).toBe(200);
+  });
+
+  it('returns 401 with a Bearer challenge when the token is missing or unknown', async () => {
+    const missing = await httpRequest(PORT, 'GET', '/api/sessions');
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toMatch(/^Bearer/);
+
+    const unknown = await httpRequest(PORT, 'GET', '/api/sessions', undefined, bearer('ast_nope'));
+    expect(unknown.status).toBe(401);
+    expect(unknown.body).toEqual({ error: 'Invalid or revoked token', code: 'UNAUTHORIZED' });
+  });
+
+  it('lets a read-only token read but not prompt', async () => {
+    expect((await httpRequest(PORT, 'GET', '/api/sessions', undefined, bearer('ast_reader'))).status).toBe(200);
+
+    const res = await httpRequest(PORT, 'POST', '/api/sessions/alpha/prompt', { prompt: 'hi' }, bearer('ast_reader'));
+    expect(res.status).toBe(403);
+    expect((res.body as { error: string }).error).toContain('prompt required');
+  });
+
+  it('lets a prompt token prompt but not create or stop sessions', async () => {
+    const prompt = await httpRequest(PORT, 'POST', '/api/sessions/alpha/prompt', { prompt: 'hi' }, bearer('ast_prompter'));
+    expect(prompt.status).toBe(200);
+
+    expect((await httpRequest(PORT, 'POST', '/api/sessions', { name: 'x' }, bearer('ast_prompter'))).status).toBe(403);
+    expect((await httpRequest(PORT, 'DELETE', '/api/sessions/alpha', undefined, bearer('ast_prompter'))).status).toBe(403);
+    expect(manager.startSession).not.toHaveBeenCalled();
+    expect(manager.stopSession).not.toHaveBeenCalled();
+  });
+
+  it('lets an admin token create sessions', async () => {
+    const res = await httpRequest(PORT, 'POST', '/api/sessions', { name: 'x' }, bearer('ast_admin'));
+    expect(res.status).toBe(201);
+  });
+
+  it('rejects WebSocket upgrades without a valid token', async () => {
+    const { WebSocket: WS } = await import('ws');
+    const ws = new WS(`ws://127.0.0.1:${PORT}/ws`);
+
+    const status = await new Promise<number>((resolve) => {
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+      ws.on('error', () => resolve(-1));
+    });
+
+    expect(status).toBe(401);
+  });
+
+  it('accepts WebSocket upgrades with a token in the query string', async () => {
+    const { WebSocket: WS } = await import('ws');
+    const ws = new WS(`ws://127.0.0.1:${PORT}/ws?token=ast_reader`);
+
+    const msg = await new Promise<{ type: string }>((resolve, reject) => {
+      ws.on('message', (data: Buffer) => resolve(JSON.parse(data.toString()) as { type: string }));
+      ws.on('error', reject);
+    });
+    ws.close();
+
+    expect(msg.type).toBe('sessions');
+  });
+});
+
+// ── /api/v1 ────────────────────────────────────────────────────────────────
+
+describe('WebServer /api/v1', () => {
+  let server: WebServer;
+  let manager: SessionManager;
+  let session: Record<string, ReturnType<typeof vi.fn>>;
+  const PORT = 17841;
+
+  const workspaces: Record<string, { name: string; sessionNames: string[]; createdAt: string }> = {};
+  const workspaceManager = {
+    list: vi.fn(async () => Object.values(workspaces)),
+    get: vi.fn(async (name: string) => {
+      if (!workspaces[name]) throw new WorkspaceNotFoundError(name);
+      return workspaces[name];
+    }),
+    create: vi.fn(async (name: string) => {
+      workspaces[name] = { name, sessionNames: [], createdAt: '2026-01-01T00:00:00.000Z' };
+    }),
+    addSessions: vi.fn(async (name: string, names: string[]) => {
+      workspaces[name].sessionNames.push(...names);
+      return names;
+    }),
+    getSessionNames: vi.fn(async (name: string) => workspaces[name]?.sessionNames ?? []),
+    setBudget: vi.fn(async () => {}),
+  };
+  const templateManager = {
+    get: vi.fn(async (name: string) => {
+      if (name !== 'backend') throw new TemplateNotFoundError(name);
+      return { name, workingDirectory: '/srv/api', permissionMode: 'acceptEdits', budget: { maxCostUsd: 2 }, createdAt: '' };
+    }),
+  };
+  const historyStore = {
+    getBySession: vi.fn().mockResolvedValue([]),
+    getFullBySession: vi.fn().mockResolvedValue([
+      { index: 1, prompt: 'second', responsePreview: 'two', timestamp: '2026-01-02T00:00:00.000Z' },
+      { index: 0, prompt: 'first', responsePreview: 'one', timestamp: '2026-01-01T00:00:00.000Z' },
+    ]),
+  };
+
+  beforeEach(async () => {
+    for (const key of Object.keys(workspaces)) delete workspaces[key];
+    manager = makeMockManager([
+      makeSession('alpha', { tags: ['api'] }),
+      makeSession('beta', { tags: ['web'] }),
+    ]);
+    session = {
+      on: vi.fn(),
+      getMetrics: vi.fn().mockReturnValue({ promptCount: 3 }),
+      getSandboxDiff: vi.fn().mockResolvedValue(['M /tmp/a.ts']),
+      getInfo: vi.fn().mockReturnValue(makeSession('alpha', { sandboxBackend: 'bwrap' })),
+    };
+    vi.mocked(manager.getSession).mockReturnValue(session as never);
+    Object.assign(manager, {
+      broadcastPrompt: vi.fn(async (names: string[]) =>
+        names.map((sessionName) => ({ sessionName, status: 'fulfilled', response: 'ok' })),
+      ),
+      stopByTag: vi.fn().mockResolvedValue(2),
+    });
+    server = new WebServer(
+      manager,
+      PORT,
+      historyStore as unknown as import('../core/history.js').HistoryStore,
+      undefined,
+      workspaceManager as unknown as import('../core/workspace.js').WorkspaceManager,
+      undefined,
+      templateManager as unknown as import('../core/template.js').TemplateManager,
+    );
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.clearAllMocks();
+  });
+
+  it('serves the legacy routes under /api/v1 and filters sessions by tag', async () => {
+    const res = await httpRequest(PORT, 'GET', '/api/v1/sessions?tag=web');
+    expect(res.status).toBe(200);
+    expect((res.body as SessionInfo[]).map((s) => s.name)).toEqual(['beta']);
+  });
+
+  it('returns { error, code } for unknown routes', async () => {
+    const res = await httpRequest(PORT, 'GET', '/api/v1/nope');
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ error: 'Not found', code: 'NOT_FOUND' });
+  });
+
+  it('creates a session from a template, with body fields taking precedence', async () => {
+    const res = await httpRequest(PORT, 'POST', '/api/v1/sessions', {
+      name: 'svc',
+      template: 'backend',
+      permissionMode: 'plan',
+      tags: ['api'],
+      budget: { maxTokens: 1000 },
+    });
+    expect(res.status).toBe(201);
+    expect(manager.startSession).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'svc',
+      workingDirectory: '/srv/api',
+      permissionMode: 'plan',
+      tags: ['api'],
+      budget: { maxCostUsd: 2, maxTokens: 1000 },
+    }));
+  });
+
+  it('maps AgentSpawnError codes to statuses', async () => {
+    const missingTemplate = await httpRequest(PORT, 'POST', '/api/v1/sessions', { name: 'x', template: 'nope' });
+    expect(missingTemplate.status).toBe(404);
+    expect((missingTemplate.body as { code: string }).code).toBe('TEMPLATE_NOT_FOUND');
+
+    const badBody = await httpRequest(PORT, 'POST', '/api/v1/sessions', { name: 'x', tags: 'api' });
+    expect(badBody.status).toBe(400);
+    expect(badBody.body).toEqual({ error: 'tags must be an array', code: 'INVALID_REQUEST' });
+  });
+
+  it('validates request bodies and query parameters against the OpenAPI document', async () => {
+    const unknownField = await httpRequest(PORT, 'POST', '/api/v1/sessions', { name: 'x', workdir: '/tmp' });
+    expect(unknownField.body).toEqual({ error: 'workdir is not allowed', code: 'INVALID_REQUEST' });
+
+    const badBudget = await httpRequest(PORT, 'PUT', '/api/v1/workspaces/api/budget', { budget: { maxCostUsd: 0 } });
+    expect(badBudget.status).toBe(400);
+    expect((badBudget.body as { error: string }).error).toBe('budget.maxCostUsd must be positive');
+
+    const badQuery = await httpRequest(PORT, 'GET', '/api/v1/usage?by=month');
+    expect(badQuery.status).toBe(400);
+    expect(manager.startSession).not.toHaveBeenCalled();
+  });
+
+  it('serves an OpenAPI document describing every route', async () => {
+    const res = await httpRequest(PORT, 'GET', '/api/openapi.json');
+    expect(res.status).toBe(200);
+    const doc = res.body as OpenApiDocument;
+    expect(doc.openapi).toMatch(/^3\./);
+    expect(Object.keys(doc.components.schemas)).toEqual(
+      expect.arrayContaining(['SessionInfo', 'PromptHistoryEntry', 'BroadcastResult']),
+    );
+    const operations = Object.values(doc.paths).flatMap((methods) => Object.values(methods).map((op) => op.operationId));
+    expect(operations.sort()).toEqual(Object.keys(API_OPERATIONS).sort());
+    expect(doc.paths['/sessions/{name}/prompt'].post['x-scope']).toBe('prompt');
+  });
+
+  it('reports metrics and sandbox changes for a running session', async () => {
+    const metrics = await httpRequest(PORT, 'GET', '/api/v1/sessions/alpha/metrics');
+    expect(metrics.body).toEqual({ promptCount: 3 });
+
+    const diff = await httpRequest(PORT, 'GET', '/api/v1/sessions/alpha/sandbox/diff');
+    expect(diff.body).toEqual({ sessionName: 'alpha', sandboxBackend: 'bwrap', changes: ['M /tmp/a.ts'] });
+  });
+
+  it('exports history chronologically in the requested format', async () => {
+    const res = await httpRequest(PORT, 'GET', '/api/v1/sessions/alpha/export?format=json');
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/json');
+    const body = res.body as { entries: Array<{ prompt: string }> };
+    expect(body.entries.map((e) => e.prompt)).toEqual(['first', 'second']);
+
+    const markdown = await httpRequest(PORT, 'GET', '/api/v1/sessions/alpha/export');
+    expect(markdown.headers['content-type']).toContain('text/markdown');
+
+    expect((await httpRequest(PORT, 'GET', '/api/v1/sessions/alpha/export?format=pdf')).status).toBe(400);
+  });
+
+  it('broadcasts to a workspace and stops sessions by tag', async () => {
+    await httpRequest(PORT, 'POST', '/api/v1/workspaces', { name: 'front', sessions: ['beta'] });
+
+    const broadcast = await httpRequest(PORT, 'POST', '/api/v1/broadcast', { prompt: 'hi', workspace: 'front' });
+    expect(broadcast.status).toBe(200);
+    expect(manager.broadcastPrompt).toHaveBeenCalledWith(['beta'], 'hi');
+
+    const stop = await httpRequest(PORT, 'POST', '/api/v1/tags/api/stop');
+    expect(stop.body).toEqual({ tag: 'api', stopped: 2 });
+    expect(manager.stopByTag).toHaveBeenCalledWith('api');
+  });
+
+  it('manages workspaces', async () => {
+    const created = await httpRequest(PORT, 'POST', '/api/v1/workspaces', { name: 'api' });
+    expect(created.status).toBe(201);
+
+    const added = await httpRequest(PORT, 'POST', '/api/v1/workspaces/api/sessions', { sessions: ['alpha'] });
+    expect(added.body).toEqual({ added: ['alpha'] });
+
+    await httpRequest(PORT, 'PUT', '/api/v1/workspaces/api/budget', { budget: { maxCostUsd: 10 } });
+    expect(workspaceManager.setBudget).toHaveBeenCalledWith('api', { maxCostUsd: 10 });
+
+    const missing = await httpRequest(PORT, 'GET', '/api/v1/workspaces/ghost');
+    expect(missing.status).toBe(404);
+    expect((missing.body as { code: string }).code).toBe('WORKSPACE_NOT_FOUND');
+  });
+});
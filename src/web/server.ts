@@ -1,23 +1,117 @@
 import http from 'node:http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { SessionManager } from '../core/manager.js';
-import { SessionConfig, SessionInfo } from '../types.js';
+import {
+  PromptStreamFrame,
+  ProviderEvent,
+  SessionConfig,
+  SessionInfo,
+  SessionState,
+  UsageGroupBy,
+  WebTokenScope,
+} from '../types.js';
+import type { Session } from '../core/session.js';
 import { getDashboardHTML } from './dashboard.html.js';
 import { HistoryStore } from '../core/history.js';
+import { UsageStore, parseUsageTime, summarizeUsage, totalUsage } from '../core/usage.js';
+import type { UsageQuery } from '../core/usage.js';
+import { WorkspaceManager } from '../core/workspace.js';
+import { TemplateManager } from '../core/template.js';
+import { ExportFormatter } from '../core/export.js';
+import { WebTokenStore, scopeAllows } from '../core/web-tokens.js';
+import { hasBudget } from '../core/budget.js';
+import { validateFileTrigger } from '../core/file-trigger.js';
+import {
+  AgentSpawnError,
+  HistoryNotFoundError,
+  InvalidRequestError,
+  SessionNotFoundError,
+} from '../utils/errors.js';
+import { describeProviderEvent } from '../io/formatter.js';
+import {
+  ApiRequest,
+  ApiResponse,
+  ApiRoute,
+  apiPath,
+  apiRoutes,
+  errorResponse,
+  matchRoute,
+  validateRequest,
+} from './routes.js';
+import { API_V1_PREFIX, OPENAPI_DOCUMENT_PATH, buildOpenApiDocument } from './openapi.js';
+import type {
+  BroadcastRequest,
+  CreateSessionRequest,
+  CreateTemplateRequest,
+  CreateWorkspaceRequest,
+  PromptRequest,
+  SetBudgetRequest,
+  WorkspaceSessionsRequest,
+} from './api-client.generated.js';
 
 interface WsMessage {
   type: string;
   data?: unknown;
 }
 
+type StreamFormat = 'sse' | 'ndjson';
+
+/** Streaming format requested by the Accept header, or null for a single JSON response. */
+function streamFormat(req: http.IncomingMessage): StreamFormat | null {
+  const accept = req.headers.accept ?? '';
+  if (accept.includes('text/event-stream')) return 'sse';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  return null;
+}
+
+const EXPORT_FORMATS = {
+  markdown: { contentType: 'text/markdown; charset=utf-8', render: ExportFormatter.toMarkdown },
+  json: { contentType: 'application/json', render: ExportFormatter.toJSON },
+  text: { contentType: 'text/plain; charset=utf-8', render: ExportFormatter.toPlainText },
+} as const;
+
+type AuthResult =
+  | { ok: true }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Bearer token from the Authorization header, or from the `token` query
+ * parameter when allowed (browsers cannot set headers on a WebSocket).
+ */
+function presentedToken(req: http.IncomingMessage, allowQuery: boolean): string | null {
+  const header = req.headers.authorization;
+  if (header) {
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+  }
+  if (allowQuery) {
+    return new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+  }
+  return null;
+}
+
+/**
+ * WebServer — dashboard, REST API and WebSocket event feed.
+ *
+ * The API is served under /api/v1 (with unversioned /api/... aliases for
+ * older clients). Errors have a body of `{ error, code }`, where `code` is
+ * the AgentSpawnError code and decides the status; see routes.ts.
+ */
 export class WebServer {
   private server: http.Server | null = null;
   private wss: WebSocketServer | null = null;
+  private readonly routes: ApiRoute[] = this.buildRoutes();
+  private readonly openApiDocument = buildOpenApiDocument();
 
   constructor(
     private readonly manager: SessionManager,
     private readonly port: number,
     private readonly historyStore?: HistoryStore,
+    private readonly usageStore?: UsageStore,
+    private readonly workspaceManager?: WorkspaceManager,
+    /** When given, every API request and WebSocket needs a bearer token. */
+    private readonly tokenStore?: WebTokenStore,
+    private readonly templateManager?: TemplateManager,
   ) {}
 
   async start(): Promise<void> {
@@ -27,7 +121,17 @@ export class WebServer {
       this.handleRequest(req, res, html);
     });
 
-    this.wss = new WebSocketServer({ server: this.server });
+    this.wss = new WebSocketServer({
+      server: this.server,
+      verifyClient: (info, done) => {
+        this.authenticate(info.req, 'read-only', true)
+          .then((result) => {
+            if (result.ok) done(true);
+            else done(false, result.status, result.error);
+          })
+          .catch(() => done(false, 500, 'Token verification failed'));
+      },
+    });
 
     this.wss.on('connection', (client) => {
       // Send current session list on connect
@@ -110,137 +214,382 @@ export class WebServer {
       const info = this.manager.getSessionInfo(name);
       if (info) this.broadcast({ type: 'sessionUpdate', data: info });
     });
+
+    // Tool calls, failures and the final usage line, pre-formatted for the dashboard
+    session.on('providerEvent', (event: unknown) => {
+      const summary = describeProviderEvent(event as ProviderEvent);
+      if (summary === null) return;
+      this.broadcast({ type: 'providerEvent', data: { sessionName: name, event, summary } });
+    });
+
+    // Queue changes alter queueDepth, budget events the budget status and
+    // resource warnings come with a new gauge, so follow each with a session update
+    for (const event of ['promptQueued', 'promptDequeued', 'budgetWarning', 'budgetExceeded', 'resourceWarning']) {
+      session.on(event, (data: unknown) => {
+        this.broadcast({ type: event, data });
+        const info = this.manager.getSessionInfo(name);
+        if (info) this.broadcast({ type: 'sessionUpdate', data: info });
+      });
+    }
   }
 
   private handleRequest(req: http.IncomingMessage, res: http.ServerResponse, html: string): void {
-    const url = req.url ?? '/';
     const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://localhost');
 
     // Dashboard root
-    if (url === '/' && method === 'GET') {
+    if (url.pathname === '/' && method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
       res.end(html);
       return;
     }
 
-    // API routing
-    if (url.startsWith('/api/')) {
-      this.handleApi(req, res, url, method);
+    // The API description is public, like the dashboard
+    if ((url.pathname === OPENAPI_DOCUMENT_PATH || url.pathname === API_V1_PREFIX + '/openapi.json') && method === 'GET') {
+      this.jsonResponse(res, 200, this.openApiDocument);
+      return;
+    }
+
+    const path = apiPath(url.pathname);
+    if (path !== null) {
+      this.handleApi(req, res, method, path, url.searchParams).catch((err: unknown) => {
+        this.send(res, errorResponse(err));
+      });
       return;
     }
 
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
+    this.jsonResponse(res, 404, { error: 'Not found', code: 'NOT_FOUND' });
   }
 
-  private handleApi(
+  private async handleApi(
     req: http.IncomingMessage,
     res: http.ServerResponse,
-    url: string,
     method: string,
-  ): void {
-    // GET /api/sessions
-    if (url === '/api/sessions' && method === 'GET') {
-      const sessions = this.manager.listSessions();
-      this.jsonResponse(res, 200, sessions);
+    path: string,
+    query: URLSearchParams,
+  ): Promise<void> {
+    const match = matchRoute(this.routes, method, path);
+
+    // Unknown routes still need a token, so they cannot be used to probe the API
+    const auth = await this.authenticate(req, match?.route.scope ?? 'read-only', false);
+    if (!auth.ok) {
+      if (auth.status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="agentspawn"');
+      }
+      this.jsonResponse(res, auth.status, {
+        error: auth.error,
+        code: auth.status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN',
+      });
       return;
     }
 
-    // POST /api/sessions
-    if (url === '/api/sessions' && method === 'POST') {
-      this.readBody(req)
-        .then((body) => {
-          const { name, workingDirectory, permissionMode } = body as {
-            name?: string;
-            workingDirectory?: string;
-            permissionMode?: string;
-          };
-
-          if (!name || typeof name !== 'string') {
-            this.jsonResponse(res, 400, { error: 'name is required' });
-            return;
-          }
-
-          const config: SessionConfig = {
-            name,
-            workingDirectory: workingDirectory ?? process.cwd(),
-            permissionMode: permissionMode ?? 'bypassPermissions',
-          };
-
-          return this.manager.startSession(config).then((session) => {
-            this.jsonResponse(res, 201, session.getInfo());
-          });
-        })
-        .catch((err: unknown) => {
-          this.jsonResponse(res, 500, { error: err instanceof Error ? err.message : String(err) });
-        });
+    if (!match) {
+      this.jsonResponse(res, 404, { error: 'Not found', code: 'NOT_FOUND' });
       return;
     }
 
-    // Match /api/sessions/:name[/...]
-    const sessionMatch = url.match(/^\/api\/sessions\/([^/]+)(\/.*)?$/);
-    if (sessionMatch) {
-      const name = decodeURIComponent(sessionMatch[1]);
-      const sub = sessionMatch[2] ?? '';
-
-      // DELETE /api/sessions/:name
-      if (sub === '' && method === 'DELETE') {
-        this.manager
-          .stopSession(name)
-          .then(() => {
-            this.jsonResponse(res, 200, { ok: true });
-          })
-          .catch((err: unknown) => {
-            this.jsonResponse(res, 404, { error: err instanceof Error ? err.message : String(err) });
-          });
+    try {
+      const body = method === 'GET' || method === 'DELETE' ? {} : await this.readBody(req);
+      validateRequest(match.route, query, body);
+      const response = await match.route.handler({ req, res, params: match.params, query, body });
+      if (response) this.send(res, response);
+    } catch (err) {
+      if (res.headersSent) {
+        res.end();
         return;
       }
+      this.send(res, errorResponse(err));
+    }
+  }
 
-      // POST /api/sessions/:name/prompt
-      if (sub === '/prompt' && method === 'POST') {
-        const session = this.manager.getSession(name);
-        if (!session) {
-          this.jsonResponse(res, 404, { error: `Session '${name}' not found or not running` });
+  private async authenticate(
+    req: http.IncomingMessage,
+    scope: WebTokenScope,
+    allowQuery: boolean,
+  ): Promise<AuthResult> {
+    if (!this.tokenStore) return { ok: true };
+
+    const token = presentedToken(req, allowQuery);
+    if (!token) {
+      return { ok: false, status: 401, error: 'Authentication required' };
+    }
+    const entry = await this.tokenStore.verify(token);
+    if (!entry) {
+      return { ok: false, status: 401, error: 'Invalid or revoked token' };
+    }
+    if (!scopeAllows(entry.scope, scope)) {
+      return { ok: false, status: 403, error: `Token '${entry.name}' has scope ${entry.scope}; ${scope} required` };
+    }
+    return { ok: true };
+  }
+
+  /**
+   * The API routes, one handler per operation in openapi.ts. Methods, paths,
+   * scopes and request schemas come from there; bodies and query parameters
+   * are validated before a handler runs.
+   */
+  private buildRoutes(): ApiRoute[] {
+    const ok = (body: unknown, status = 200): ApiResponse => ({ status, body });
+
+    return apiRoutes({
+      // ── Sessions ──────────────────────────────────────────────────────────
+      listSessions: async ({ query }) => {
+        const tags = query.getAll('tag');
+        const sessions = this.manager.listSessions();
+        return ok(tags.length > 0 ? sessions.filter((s) => tags.every((t) => s.tags?.includes(t))) : sessions);
+      },
+      createSession: (request) => this.createSession(request),
+      getSession: async ({ params }) => {
+        const info = this.manager.getSessionInfo(params.name);
+        if (!info) throw new SessionNotFoundError(params.name);
+        return ok(info);
+      },
+      stopSession: async ({ params }) => {
+        await this.manager.stopSession(params.name);
+        return ok({ ok: true });
+      },
+      // With Accept: text/event-stream or application/x-ndjson the response
+      // streams start/chunk/complete/error frames instead of one JSON body
+      sendPrompt: async ({ req, res, params, body }) => {
+        const session = this.runningSession(params.name);
+        const { prompt } = body as PromptRequest;
+        const format = streamFormat(req);
+        if (format) {
+          await this.streamPrompt(res, format, params.name, session, prompt);
           return;
         }
+        return ok({ response: await session.sendPrompt(prompt) });
+      },
+      cancelPrompt: async ({ params }) => {
+        return ok({ cancelled: this.runningSession(params.name).cancelPrompt() });
+      },
+      getHistory: async ({ params }) => {
+        return ok(this.historyStore ? await this.historyStore.getBySession(params.name) : []);
+      },
+      getMetrics: async ({ params }) => {
+        return ok(this.runningSession(params.name).getMetrics());
+      },
+      exportSession: (request) => this.exportHistory(request),
+      getSandboxDiff: async ({ params }) => {
+        const session = this.runningSession(params.name);
+        const info = session.getInfo();
+        return ok({ sessionName: params.name, sandboxBackend: info.sandboxBackend ?? null, changes: await session.getSandboxDiff() });
+      },
+
+      // ── Broadcast and tags ────────────────────────────────────────────────
+      broadcast: (request) => this.broadcastPrompt(request),
+      stopByTag: async ({ params }) => {
+        return ok({ tag: params.tag, stopped: await this.manager.stopByTag(params.tag) });
+      },
+
+      // ── Workspaces ────────────────────────────────────────────────────────
+      listWorkspaces: async () => ok(await this.workspaces().list()),
+      createWorkspace: async ({ body }) => {
+        const { name, sessions } = body as CreateWorkspaceRequest;
+        await this.workspaces().create(name);
+        if (sessions && sessions.length > 0) {
+          await this.workspaces().addSessions(name, sessions);
+        }
+        return ok(await this.workspaces().get(name), 201);
+      },
+      getWorkspace: async ({ params }) => ok(await this.workspaces().get(params.name)),
+      deleteWorkspace: async ({ params }) => {
+        await this.workspaces().delete(params.name);
+        return ok({ ok: true });
+      },
+      addWorkspaceSessions: async ({ params, body }) => {
+        const { sessions } = body as WorkspaceSessionsRequest;
+        return ok({ added: await this.workspaces().addSessions(params.name, sessions) });
+      },
+      removeWorkspaceSession: async ({ params }) => {
+        return ok({ removed: await this.workspaces().removeSessions(params.name, [params.session]) });
+      },
+      // An empty body (or {"budget": null}) clears the budget
+      setWorkspaceBudget: async ({ params, body }) => {
+        const budget = (body as SetBudgetRequest).budget ?? undefined;
+        await this.workspaces().setBudget(params.name, hasBudget(budget) ? budget : undefined);
+        return ok(await this.workspaces().get(params.name));
+      },
+
+      // ── Templates ─────────────────────────────────────────────────────────
+      listTemplates: async () => ok(await this.templates().list()),
+      createTemplate: async ({ body }) => {
+        const { name, budget, ...fields } = body as CreateTemplateRequest;
+        fields.fileTriggers?.forEach(validateFileTrigger);
+        await this.templates().create(name, { ...fields, budget: hasBudget(budget) ? budget : undefined });
+        return ok(await this.templates().get(name), 201);
+      },
+      getTemplate: async ({ params }) => ok(await this.templates().get(params.name)),
+      deleteTemplate: async ({ params }) => {
+        await this.templates().delete(params.name);
+        return ok({ ok: true });
+      },
+
+      // ── Usage ─────────────────────────────────────────────────────────────
+      getUsage: ({ query }) => this.usageReport(query),
+    });
+  }
 
-        this.readBody(req)
-          .then((body) => {
-            const { prompt } = body as { prompt?: string };
-            if (!prompt || typeof prompt !== 'string') {
-              this.jsonResponse(res, 400, { error: 'prompt is required' });
-              return;
-            }
-            return session.sendPrompt(prompt).then((response) => {
-              this.jsonResponse(res, 200, { response });
-            });
-          })
-          .catch((err: unknown) => {
-            this.jsonResponse(res, 500, { error: err instanceof Error ? err.message : String(err) });
-          });
-        return;
+  private runningSession(name: string): Session {
+    const session = this.manager.getSession(name);
+    if (!session) {
+      throw new SessionNotFoundError(name);
+    }
+    return session;
+  }
+
+  private workspaces(): WorkspaceManager {
+    if (!this.workspaceManager) {
+      throw new AgentSpawnError('Workspaces are not available on this server', 'NOT_AVAILABLE');
+    }
+    return this.workspaceManager;
+  }
+
+  private templates(): TemplateManager {
+    if (!this.templateManager) {
+      throw new AgentSpawnError('Templates are not available on this server', 'NOT_AVAILABLE');
+    }
+    return this.templateManager;
+  }
+
+  /**
+   * POST /sessions — start a session. Fields left out are taken from
+   * `template` when one is named, as `agentspawn start --template` does.
+   */
+  private async createSession({ body }: ApiRequest): Promise<ApiResponse> {
+    const fields = body as CreateSessionRequest;
+    const template = fields.template ? await this.templates().get(fields.template) : undefined;
+
+    const budget = hasBudget(fields.budget) ? fields.budget : undefined;
+    const templateBudget = template?.budget;
+    const config: SessionConfig = {
+      name: fields.name,
+      workingDirectory: fields.workingDirectory ?? template?.workingDirectory ?? process.cwd(),
+      permissionMode: fields.permissionMode ?? template?.permissionMode ?? 'bypassPermissions',
+    };
+    if (fields.tags && fields.tags.length > 0) config.tags = fields.tags;
+    if (template?.env) config.env = { ...template.env };
+    if (template?.restartPolicy) config.restartPolicy = template.restartPolicy;
+    if (template?.sandboxLevel) config.sandboxLevel = template.sandboxLevel;
+    if (template?.sandboxImage) config.sandboxImage = template.sandboxImage;
+    if (budget || templateBudget) config.budget = { ...templateBudget, ...budget };
+    fields.fileTriggers?.forEach(validateFileTrigger);
+    const fileTriggers = [...(template?.fileTriggers ?? []), ...(fields.fileTriggers ?? [])];
+    if (fileTriggers.length > 0) config.fileTriggers = fileTriggers;
+
+    const session = await this.manager.startSession(config);
+    return { status: 201, body: session.getInfo() };
+  }
+
+  /** POST /broadcast — send one prompt to named sessions, a workspace, or every running session. */
+  private async broadcastPrompt({ body }: ApiRequest): Promise<ApiResponse> {
+    const { prompt, sessions, workspace } = body as BroadcastRequest;
+    if (sessions && workspace) {
+      throw new InvalidRequestError('sessions and workspace are mutually exclusive');
+    }
+
+    const running = this.manager.listSessions().filter((s) => s.state === SessionState.Running);
+    let sessionNames: string[];
+    if (sessions) {
+      sessionNames = sessions;
+    } else if (workspace) {
+      const members = new Set(await this.workspaces().getSessionNames(workspace));
+      sessionNames = running.filter((s) => members.has(s.name)).map((s) => s.name);
+    } else {
+      sessionNames = running.map((s) => s.name);
+    }
+    if (sessionNames.length === 0) {
+      throw new InvalidRequestError('no running sessions to broadcast to');
+    }
+
+    return { status: 200, body: await this.manager.broadcastPrompt(sessionNames, prompt) };
+  }
+
+  /** GET /sessions/:name/export?format=markdown|json|text */
+  private async exportHistory({ params, query }: ApiRequest): Promise<ApiResponse> {
+    const format = (query.get('format') ?? 'markdown') as keyof typeof EXPORT_FORMATS;
+    const entries = this.historyStore ? await this.historyStore.getFullBySession(params.name) : [];
+    if (entries.length === 0) {
+      throw new HistoryNotFoundError(params.name);
+    }
+
+    // getFullBySession returns newest first; exports are chronological
+    const chronological = [...entries].reverse();
+    const metadata = ExportFormatter.computeMetadata(params.name, chronological);
+    const { contentType, render } = EXPORT_FORMATS[format];
+    return { status: 200, body: render(chronological, metadata), contentType };
+  }
+
+  /**
+   * Run a prompt and stream its output. Like the daemon's sendPrompt, only
+   * the chunks of this prompt are forwarded, not those of prompts queued
+   * ahead of it.
+   */
+  private async streamPrompt(
+    res: http.ServerResponse,
+    format: StreamFormat,
+    name: string,
+    session: Session,
+    prompt: string,
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const send = (frame: PromptStreamFrame): void => {
+      if (res.writableEnded) return;
+      if (format === 'sse') {
+        res.write(`event: ${frame.type}\ndata: ${JSON.stringify(frame)}\n\n`);
+      } else {
+        res.write(JSON.stringify(frame) + '\n');
       }
+    };
 
-      // GET /api/sessions/:name/history
-      if (sub === '/history' && method === 'GET') {
-        if (!this.historyStore) {
-          this.jsonResponse(res, 200, []);
-          return;
-        }
-        this.historyStore
-          .getBySession(name)
-          .then((entries) => {
-            this.jsonResponse(res, 200, entries);
-          })
-          .catch((err: unknown) => {
-            this.jsonResponse(res, 500, { error: err instanceof Error ? err.message : String(err) });
-          });
-        return;
+    send({ type: 'start', sessionName: name, prompt });
+    try {
+      const response = await session.sendPrompt(prompt, {
+        onData: (chunk) => send({ type: 'chunk', chunk }),
+      });
+      send({ type: 'complete', response });
+    } catch (err) {
+      const failure = errorResponse(err);
+      send({ type: 'error', status: failure.status, ...(failure.body as { error: string }) });
+    } finally {
+      res.end();
+    }
+  }
+
+  private async usageReport(params: URLSearchParams): Promise<ApiResponse> {
+    const groupBy = (params.get('by') ?? 'session') as UsageGroupBy;
+
+    const query: UsageQuery = { sessionName: params.get('session') ?? undefined };
+    for (const bound of ['since', 'until'] as const) {
+      const value = params.get(bound);
+      if (value === null) continue;
+      const time = parseUsageTime(value);
+      if (!time) {
+        throw new InvalidRequestError(`${bound} must be an ISO date or a relative time like 7d`);
       }
+      query[bound] = time;
+    }
+
+    if (!this.usageStore) {
+      return { status: 200, body: { groupBy, rows: [], total: totalUsage([]) } };
     }
 
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
+    const [records, workspaces] = await Promise.all([
+      this.usageStore.query(query),
+      groupBy === 'workspace' ? this.workspaceManager?.load() : undefined,
+    ]);
+    return {
+      status: 200,
+      body: {
+        groupBy,
+        rows: summarizeUsage(records, groupBy, workspaces),
+        total: totalUsage(records),
+      },
+    };
   }
 
   private readBody(req: http.IncomingMessage): Promise<unknown> {
@@ -252,13 +601,28 @@ export class WebServer {
           const raw = Buffer.concat(chunks).toString('utf-8');
           resolve(raw ? JSON.parse(raw) : {});
         } catch {
-          reject(new Error('Invalid JSON body'));
+          reject(new InvalidRequestError('Invalid JSON body'));
         }
       });
       req.on('error', reject);
     });
   }
 
+  private send(res: http.ServerResponse, response: ApiResponse): void {
+    if (response.contentType && response.contentType !== 'application/json') {
+      res.writeHead(response.status, { 'Content-Type': response.contentType });
+      res.end(String(response.body));
+      return;
+    }
+    // Pre-rendered JSON (e.g. the JSON export) is sent as is
+    if (response.contentType === 'application/json' && typeof response.body === 'string') {
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(response.body);
+      return;
+    }
+    this.jsonResponse(res, response.status, response.body);
+  }
+
   private jsonResponse(res: http.ServerResponse, status: number, data: unknown): void {
     res.writeHead(status, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(data));